@@ -414,10 +414,9 @@ async function testOrderOperations() {
     }
 
     const testProduct = products[0];
-    const orderNumber = `TEST-${Date.now()}`;
 
+    // order_number is assigned by the database on insert
     const orderData = {
-      order_number: orderNumber,
       status: 'pending',
       customer_info: {
         email: 'test@example.com',
@@ -656,7 +655,6 @@ async function testFullCheckoutFlow() {
     const { data: order } = await supabase
       .from('orders')
       .insert({
-        order_number: `INT-TEST-${Date.now()}`,
         status: 'pending',
         customer_info: {
           email: 'integration@test.com',
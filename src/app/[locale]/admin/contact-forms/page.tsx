@@ -1,7 +1,9 @@
 import { redirect } from "next/navigation";
 import { auth } from "@/lib/auth/config";
+import { hasPermission } from "@/lib/auth/permissions";
 import { LazyContactFormsTable } from "@/lib/config/dynamic-imports";
 import { createServerClient } from "@/lib/supabase/server";
+import { userUtils } from "@/lib/supabase/utils";
 
 interface ContactFormsPageProps {
   params: Promise<{ locale: string }>;
@@ -17,10 +19,14 @@ export default async function ContactFormsPage({ params, searchParams }: Contact
 
   // Check authentication
   const session = await auth();
-  if (!session?.user) {
+  if (!session?.user?.id) {
     redirect(`/${locale}/auth/signin`);
   }
 
+  if (!hasPermission(await userUtils.getUserRole(session.user.id), "contact-forms:write")) {
+    redirect(`/${locale}/admin`);
+  }
+
   const supabase = createServerClient();
 
   // Build query
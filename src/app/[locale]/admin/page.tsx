@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { redirect } from "next/navigation";
 import { auth } from "@/lib/auth/config";
+import { isStaffRole } from "@/lib/auth/permissions";
 import { LazyAdminDashboard } from "@/lib/config/dynamic-imports";
 import { userUtils } from "@/lib/supabase/utils";
 
@@ -17,15 +18,15 @@ export default async function AdminPage() {
     redirect("/auth/signin?callbackUrl=/admin");
   }
 
-  const isAdmin = await userUtils.isAdmin(session.user.id);
+  const role = await userUtils.getUserRole(session.user.id);
 
-  if (!isAdmin) {
+  if (!isStaffRole(role)) {
     redirect("/");
   }
 
   return (
     <div className="min-h-screen bg-gray-50">
-      <LazyAdminDashboard />
+      <LazyAdminDashboard role={role} />
     </div>
   );
 }
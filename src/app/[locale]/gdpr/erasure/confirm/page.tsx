@@ -0,0 +1,21 @@
+import { ErasureConfirmation } from "@/components/gdpr";
+
+interface ErasureConfirmPageProps {
+  searchParams: Promise<{ token?: string }>;
+}
+
+export default async function ErasureConfirmPage({ searchParams }: ErasureConfirmPageProps) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-stone-50 flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <ErasureConfirmation token={token ?? ""} />
+    </div>
+  );
+}
+
+export const metadata = {
+  title: "Potvrzení smazání údajů | Pohřební věnce",
+  description: "Potvrďte žádost o smazání osobních údajů",
+  robots: { index: false },
+};
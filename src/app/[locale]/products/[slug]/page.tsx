@@ -8,8 +8,10 @@ import {
   StructuredData,
 } from "@/components/seo/StructuredData";
 import { cacheProductBySlug, getCachedProductBySlug } from "@/lib/cache/product-cache";
+import { getProductVariants } from "@/lib/services/variant-service";
 import { createServerClient } from "@/lib/supabase/server";
 import { transformCategoryRow, transformProductRow } from "@/lib/utils/product-transforms";
+import type { ProductVariant } from "@/types/product";
 
 interface ProductDetailPageProps {
   params: Promise<{
@@ -99,6 +101,14 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
     await cacheProductBySlug(slug, product);
   }
 
+  // Variants carry their own stock, so they are not cached with the product
+  let variants: ProductVariant[] = [];
+  try {
+    variants = await getProductVariants(product.id);
+  } catch (error) {
+    console.error(`❌ [ProductDetailPage] Failed to fetch variants:`, error);
+  }
+
   // Generate structured data
   const baseUrl = process.env[".NEXT_PUBLIC_BASE_URL"] || "https://pohrebni-vence.cz";
   const productUrl = `${baseUrl}/${locale}/products/${slug}`;
@@ -152,7 +162,7 @@ export default async function ProductDetailPage({ params }: ProductDetailPagePro
       <StructuredData data={productStructuredData} />
       <StructuredData data={breadcrumbStructuredData} />
       <div className="container mx-auto px-4 py-8">
-        <ProductDetail product={product} locale={locale} />
+        <ProductDetail product={product} variants={variants} locale={locale} />
       </div>
     </>
   );
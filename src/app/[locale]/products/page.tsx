@@ -8,15 +8,11 @@ import {
   generateWebsiteStructuredData,
   StructuredData,
 } from "@/components/seo/StructuredData";
-import {
-  cacheCategories,
-  cacheProductsList,
-  getCachedCategories,
-  getCachedProductsList,
-} from "@/lib/cache/product-cache";
+import { cacheCategories, getCachedCategories } from "@/lib/cache/product-cache";
+import { buildProductListingQuery, parseProductListingQuery } from "@/lib/search/product-listing";
+import { getProducts } from "@/lib/services/product-service";
 import { createServerClient } from "@/lib/supabase/server";
-import { transformCategoryRow, transformProductRow } from "@/lib/utils/product-transforms";
-import type { Product } from "@/types/product";
+import { transformCategoryRow } from "@/lib/utils/product-transforms";
 
 interface ProductsPageProps {
   params: Promise<{ locale: string }>;
@@ -29,7 +25,8 @@ export const revalidate = 1800;
 // Generate metadata for products page using i18n content
 export async function generateMetadata({ params, searchParams }: ProductsPageProps) {
   const { locale } = await params;
-  const { category } = await searchParams;
+  const { filters } = parseProductListingQuery(await searchParams);
+  const category = filters.categorySlug;
 
   // Import translations dynamically
   const messages = await import(`../../../../messages/${locale}.json`);
@@ -40,7 +37,7 @@ export async function generateMetadata({ params, searchParams }: ProductsPagePro
   const keywords = seoData.keywords;
 
   // If filtering by category, get category info for better metadata
-  if (category && typeof category === "string") {
+  if (category) {
     const supabase = createServerClient();
     const { data: categoryData } = await supabase
       .from("categories")
@@ -59,20 +56,26 @@ export async function generateMetadata({ params, searchParams }: ProductsPagePro
     }
   }
 
+  // Filtered listings are indexed under their filters, search results are not indexed
+  const { search: _, ...indexedFilters } = filters;
+  const canonicalQuery = buildProductListingQuery(indexedFilters).toString();
+
   return generatePageMetadata({
     title,
     description,
     keywords,
     locale,
-    path: "/products",
+    path: canonicalQuery ? `/products?${canonicalQuery}` : "/products",
     type: "website",
     openGraph: seoData.openGraph,
+    noIndex: Boolean(filters.search),
   });
 }
 
 export default async function ProductsPage({ params, searchParams }: ProductsPageProps) {
   const { locale } = await params;
-  const { category } = await searchParams;
+  const { filters, sort } = parseProductListingQuery(await searchParams);
+  const category = filters.categorySlug;
   const t = await getTranslations("product");
   const tNav = await getTranslations("navigation");
 
@@ -94,50 +97,14 @@ export default async function ProductsPage({ params, searchParams }: ProductsPag
     await cacheCategories(categories);
   }
 
-  // Try to get initial products from cache
-  const initialFilters = { active: true, limit: 12, order: "created_at" };
-  const cachedProductsData = await getCachedProductsList(initialFilters);
-  let products: Product[];
-
-  if (cachedProductsData) {
-    products = cachedProductsData.products;
-  } else {
-    // Fetch initial products from database if not cached
-    const supabase = createServerClient();
-    const { data: productsData } = await supabase
-      .from("products")
-      .select(
-        `
-        *,
-        categories (
-          id,
-          name_cs,
-          name_en,
-          slug,
-          description_cs,
-          description_en,
-          image_url,
-          parent_id,
-          sort_order,
-          active,
-          created_at,
-          updated_at
-        )
-      `
-      )
-      .eq("active", true)
-      .order("created_at", { ascending: false })
-      .limit(12);
-
-    // Transform the data
-    products = (productsData || []).map((row) => {
-      const category = row.categories ? transformCategoryRow(row.categories) : undefined;
-      return transformProductRow(row, category);
-    });
-
-    // Cache products for future requests
-    await cacheProductsList(initialFilters, products);
-  }
+  // Render the listing the URL asks for, so filtered listings can be crawled
+  const { products, pagination } = await getProducts({
+    ...filters,
+    locale,
+    limit: 12,
+    sortField: sort.field,
+    sortDirection: sort.direction,
+  });
 
   // Generate structured data
   const breadcrumbs = [
@@ -146,7 +113,7 @@ export default async function ProductsPage({ params, searchParams }: ProductsPag
   ];
 
   // Add category to breadcrumbs if filtering by category
-  if (category && typeof category === "string") {
+  if (category) {
     const categoryData = categories.find((cat) => cat.slug === category);
     if (categoryData) {
       const categoryName = locale === "cs" ? categoryData.name.cs : categoryData.name.en;
@@ -176,7 +143,7 @@ export default async function ProductsPage({ params, searchParams }: ProductsPag
 
   // Generate CollectionPage structured data if filtering by category
   let collectionPageStructuredData = null;
-  if (category && typeof category === "string") {
+  if (category) {
     const categoryData = categories.find((cat) => cat.slug === category);
     if (categoryData) {
       const categoryName = locale === "cs" ? categoryData.name.cs : categoryData.name.en;
@@ -188,7 +155,7 @@ export default async function ProductsPage({ params, searchParams }: ProductsPag
           name: categoryName,
           ...(categoryDescription && { description: categoryDescription }),
           url: `/${locale}/products?category=${category}`,
-          productCount: products.length, // This would be the total count in a real implementation
+          productCount: pagination.total,
         },
         locale
       );
@@ -234,6 +201,8 @@ export default async function ProductsPage({ params, searchParams }: ProductsPag
         <ProductGridWithCart
           initialProducts={products}
           initialCategories={categories}
+          initialFilters={filters}
+          initialSort={sort}
           locale={locale}
         />
       </div>
@@ -1,11 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { withAdminAuth } from "@/lib/auth/admin-middleware";
+import { withPermission } from "@/lib/auth/admin-middleware";
 import { adminUtils } from "@/lib/supabase/utils";
 
 /**
  * Get admin activity log (Admin only)
  */
-export const GET = withAdminAuth(async (request: NextRequest) => {
+export const GET = withPermission("activity:read", async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const limit = Number.parseInt(searchParams.get("limit") || "50", 10);
@@ -4,6 +4,7 @@
  */
 
 import { type NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/admin-middleware";
 import {
   getCacheStatistics,
   invalidateAllCaches,
@@ -16,17 +17,8 @@ import type { ApiResponse } from "@/types";
  * POST /api/admin/cache/clear
  * Clear specific or all caches
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("cache:admin", async (request: NextRequest) => {
   try {
-    // TODO: Add admin authentication check
-    // const session = await getServerSession();
-    // if (!session || !session.user.isAdmin) {
-    //   return NextResponse.json(
-    //     { success: false, error: { code: "UNAUTHORIZED", message: "Admin access required" } },
-    //     { status: 401 }
-    //   );
-    // }
-
     const body = await request.json().catch(() => ({}));
     const { scope, productId, categorySlug, orderId } = body;
 
@@ -108,16 +100,14 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * GET /api/admin/cache/clear
  * Get cache statistics
  */
-export async function GET() {
+export const GET = withPermission("cache:admin", async () => {
   try {
-    // TODO: Add admin authentication check
-
     const stats = await getCacheStatistics();
 
     const response: ApiResponse = {
@@ -140,4 +130,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,6 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/admin-middleware";
 import { customizationCache } from "@/lib/cache/customization-cache";
-import { createClient } from "@/lib/supabase/server";
 import {
   getCacheWarmingStats,
   triggerManualCacheWarming,
@@ -11,30 +11,8 @@ import {
  * Admin API for managing customization cache
  */
 
-export async function GET(_request: NextRequest) {
+export const GET = withPermission("cache:admin", async () => {
   try {
-    const supabase = await createClient();
-
-    // Check if user is admin
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get user profile to check role
-    const { data: profile, error: profileError } = await supabase
-      .from("user_profiles")
-      .select("role")
-      .eq("id", user.id)
-      .single();
-
-    if (profileError || !profile?.role || !["admin", "super_admin"].includes(profile.role)) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     // Get cache statistics
     const stats = await getCacheWarmingStats();
 
@@ -46,32 +24,10 @@ export async function GET(_request: NextRequest) {
     console.error("Cache stats error:", error);
     return NextResponse.json({ error: "Failed to get cache statistics" }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withPermission("cache:admin", async (request: NextRequest) => {
   try {
-    const supabase = createClient();
-
-    // Check if user is admin
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get user role
-    const { data: profile, error: profileError } = await supabase
-      .from("user_profiles")
-      .select("role")
-      .eq("id", user.id)
-      .single();
-
-    if (profileError || !profile?.role || !["admin", "super_admin"].includes(profile.role)) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     const body = await request.json();
     const { action, category } = body;
 
@@ -119,32 +75,10 @@ export async function POST(request: NextRequest) {
     console.error("Error managing cache:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
-}
+});
 
-export async function DELETE() {
+export const DELETE = withPermission("cache:admin", async () => {
   try {
-    const supabase = createClient();
-
-    // Check if user is admin
-    const {
-      data: { user },
-      error: authError,
-    } = await supabase.auth.getUser();
-    if (authError || !user) {
-      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
-    }
-
-    // Get user role
-    const { data: profile, error: profileError } = await supabase
-      .from("user_profiles")
-      .select("role")
-      .eq("id", user.id)
-      .single();
-
-    if (profileError || !profile?.role || !["admin", "super_admin"].includes(profile.role)) {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     // Clear all customization cache
     customizationCache.clearAll();
 
@@ -156,4 +90,4 @@ export async function DELETE() {
     console.error("Error clearing cache:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
-}
+});
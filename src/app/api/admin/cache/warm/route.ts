@@ -4,6 +4,7 @@
  */
 
 import { type NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/admin-middleware";
 import { warmAllCaches, warmPopularCategories } from "@/lib/cache/cache-warming";
 import { warmPopularProductsStripeIds } from "@/lib/stripe/embedded-checkout";
 import type { ApiResponse } from "@/types";
@@ -12,17 +13,8 @@ import type { ApiResponse } from "@/types";
  * POST /api/admin/cache/warm
  * Trigger cache warming for all critical data
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("cache:admin", async (request: NextRequest) => {
   try {
-    // TODO: Add admin authentication check
-    // const session = await getServerSession();
-    // if (!session || !session.user.isAdmin) {
-    //   return NextResponse.json(
-    //     { success: false, error: { code: "UNAUTHORIZED", message: "Admin access required" } },
-    //     { status: 401 }
-    //   );
-    // }
-
     const body = await request.json().catch(() => ({}));
     const { categoryIds, includeStripeIds = true } = body;
 
@@ -73,4 +65,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
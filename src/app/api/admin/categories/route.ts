@@ -1,11 +1,11 @@
 import { NextResponse } from "next/server";
-import { withAdminAuth } from "@/lib/auth/admin-middleware";
+import { withPermission } from "@/lib/auth/admin-middleware";
 import { adminUtils } from "@/lib/supabase/utils";
 
 /**
  * Get all categories (Admin only)
  */
-export const GET = withAdminAuth(async () => {
+export const GET = withPermission("products:read", async () => {
   try {
     const { data: categories, error } = await adminUtils.getAllCategories();
 
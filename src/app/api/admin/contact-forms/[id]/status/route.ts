@@ -1,5 +1,5 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth/config";
+import { withPermission } from "@/lib/auth/admin-middleware";
 import { createServerClient } from "@/lib/supabase/server";
 
 interface RouteParams {
@@ -9,99 +9,87 @@ interface RouteParams {
 /**
  * PATCH /api/admin/contact-forms/[id]/status - Update contact form status
  */
-export async function PATCH(request: NextRequest, { params }: RouteParams) {
-  try {
-    const { id } = await params;
+export const PATCH = withPermission(
+  "contact-forms:write",
+  async (request: NextRequest, _admin, { params }: RouteParams) => {
+    try {
+      const { id } = await params;
 
-    // Check authentication
-    const session = await auth();
-    if (!session?.user) {
-      return NextResponse.json(
-        {
-          success: false,
-          message: "Unauthorized",
-        },
-        { status: 401 }
-      );
-    }
+      // Parse request body
+      let body: { status?: string };
+      try {
+        body = await request.json();
+      } catch (_error) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Invalid JSON body",
+          },
+          { status: 400 }
+        );
+      }
 
-    // TODO: Add admin role check when user roles are implemented
-    // For now, any authenticated user can update contact form status
+      const { status } = body;
 
-    // Parse request body
-    let body: { status?: string };
-    try {
-      body = await request.json();
-    } catch (_error) {
-      return NextResponse.json(
-        {
-          success: false,
-          message: "Invalid JSON body",
-        },
-        { status: 400 }
-      );
-    }
+      // Validate status
+      const validStatuses = ["new", "read", "replied", "archived"];
+      if (!(status && validStatuses.includes(status))) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: `Invalid status. Must be one of: ${validStatuses.join(", ")}`,
+          },
+          { status: 400 }
+        );
+      }
 
-    const { status } = body;
+      // Update contact form status
+      const supabase = createServerClient();
+      const { data, error } = await supabase
+        .from("contact_forms")
+        .update({
+          status: status as "new" | "read" | "replied" | "archived",
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", id)
+        .select()
+        .single();
 
-    // Validate status
-    const validStatuses = ["new", "read", "replied", "archived"];
-    if (!(status && validStatuses.includes(status))) {
-      return NextResponse.json(
-        {
-          success: false,
-          message: `Invalid status. Must be one of: ${validStatuses.join(", ")}`,
-        },
-        { status: 400 }
-      );
-    }
+      if (error) {
+        console.error("Error updating contact form status:", error);
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Failed to update contact form status",
+          },
+          { status: 500 }
+        );
+      }
 
-    // Update contact form status
-    const supabase = createServerClient();
-    const { data, error } = await supabase
-      .from("contact_forms")
-      .update({
-        status: status as "new" | "read" | "replied" | "archived",
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", id)
-      .select()
-      .single();
+      if (!data) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: "Contact form not found",
+          },
+          { status: 404 }
+        );
+      }
 
-    if (error) {
-      console.error("Error updating contact form status:", error);
+      return NextResponse.json({
+        success: true,
+        message: "Contact form status updated successfully",
+        data,
+      });
+    } catch (error) {
+      console.error("Contact form status update API error:", error);
       return NextResponse.json(
         {
           success: false,
-          message: "Failed to update contact form status",
+          message: "Internal server error",
         },
         { status: 500 }
       );
     }
-
-    if (!data) {
-      return NextResponse.json(
-        {
-          success: false,
-          message: "Contact form not found",
-        },
-        { status: 404 }
-      );
-    }
-
-    return NextResponse.json({
-      success: true,
-      message: "Contact form status updated successfully",
-      data,
-    });
-  } catch (error) {
-    console.error("Contact form status update API error:", error);
-    return NextResponse.json(
-      {
-        success: false,
-        message: "Internal server error",
-      },
-      { status: 500 }
-    );
   }
-}
+);
@@ -1,5 +1,5 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth/config";
+import { withPermission } from "@/lib/auth/admin-middleware";
 import {
   cleanupAbandonedCustomizations,
   performCustomizationIntegrityCheck,
@@ -10,54 +10,9 @@ import { createServerClient } from "@/lib/supabase/server";
  * GET - Perform customization integrity check
  * Admin-only endpoint to check for customization data integrity issues
  */
-export async function GET() {
+export const GET = withPermission("customizations:admin", async () => {
   try {
     const supabase = createServerClient();
-    const session = await auth();
-
-    // Check if user is admin
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Authentication required",
-        },
-        { status: 401 }
-      );
-    }
-
-    // Get user profile to check admin status
-    const { data: profile, error: profileError } = await supabase
-      .from("user_profiles")
-      .select("*")
-      .eq("id", session.user.id)
-      .single();
-
-    if (profileError || !profile) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "User profile not found",
-        },
-        { status: 403 }
-      );
-    }
-
-    // Check if user has admin privileges (assuming admin flag in preferences)
-    const isAdmin =
-      profile.preferences &&
-      typeof profile.preferences === "object" &&
-      "isAdmin" in profile.preferences &&
-      profile.preferences["isAdmin"] === true;
-    if (!isAdmin) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Admin access required",
-        },
-        { status: 403 }
-      );
-    }
 
     // Perform integrity check
     const integrityResult = await performCustomizationIntegrityCheck(supabase);
@@ -92,62 +47,17 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * POST - Fix integrity issues and cleanup abandoned data
  * Admin-only endpoint to fix customization integrity issues
  */
-export async function POST(request: NextRequest) {
+export const POST = withPermission("customizations:admin", async (request: NextRequest) => {
   try {
     const supabase = createServerClient();
-    const session = await auth();
     const body = await request.json();
 
-    // Check if user is admin
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Authentication required",
-        },
-        { status: 401 }
-      );
-    }
-
-    // Get user profile to check admin status
-    const { data: profile, error: profileError } = await supabase
-      .from("user_profiles")
-      .select("*")
-      .eq("id", session.user.id)
-      .single();
-
-    if (profileError || !profile) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "User profile not found",
-        },
-        { status: 403 }
-      );
-    }
-
-    // Check if user has admin privileges using bracket notation for index signature access
-    const isAdmin =
-      profile.preferences &&
-      typeof profile.preferences === "object" &&
-      "isAdmin" in profile.preferences &&
-      (profile.preferences as Record<string, unknown>)["isAdmin"] === true;
-    if (!isAdmin) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Admin access required",
-        },
-        { status: 403 }
-      );
-    }
-
     const results: {
       timestamp: string;
       operations: Array<{ type: string; result: unknown; error?: string | null }>;
@@ -205,4 +115,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
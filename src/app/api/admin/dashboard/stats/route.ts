@@ -1,8 +1,8 @@
 import { NextResponse } from "next/server";
-import { withAdminAuth } from "@/lib/auth/admin-middleware";
+import { withPermission } from "@/lib/auth/admin-middleware";
 import { adminUtils } from "@/lib/supabase/utils";
 
-export const GET = withAdminAuth(async () => {
+export const GET = withPermission("dashboard:read", async () => {
   try {
     const { data: stats, error } = await adminUtils.getDashboardStats();
 
@@ -0,0 +1,98 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { DeliveryCapacityError, type DeliveryCapacityInput } from "@/lib/delivery/capacity";
+import {
+  deleteDeliveryCapacityRule,
+  getDeliveryCapacityRule,
+  updateDeliveryCapacityRule,
+} from "@/lib/services/delivery-capacity-service";
+
+const CAPACITY_ERROR_STATUS: Record<DeliveryCapacityError["code"], number> = {
+  INVALID_CAPACITY: 400,
+  CAPACITY_NOT_FOUND: 404,
+  DUPLICATE_CAPACITY: 409,
+  SLOT_UNAVAILABLE: 400,
+  SLOT_FULL: 409,
+};
+
+function capacityErrorResponse(error: DeliveryCapacityError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+    },
+    { status: CAPACITY_ERROR_STATUS[error.code] }
+  );
+}
+
+/**
+ * Update delivery capacity rule (Admin only)
+ */
+export const PUT = withPermission(
+  "delivery:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: ruleId } = await params;
+      const body = (await request.json()) as DeliveryCapacityInput;
+
+      const oldRule = await getDeliveryCapacityRule(ruleId);
+      const rule = await updateDeliveryCapacityRule(ruleId, body);
+
+      // Log admin action
+      await logAdminAction(admin.id, "UPDATE", "delivery_capacity", ruleId, oldRule, rule, request);
+
+      return NextResponse.json({
+        success: true,
+        rule,
+      });
+    } catch (error) {
+      if (error instanceof DeliveryCapacityError) {
+        return capacityErrorResponse(error);
+      }
+
+      console.error("Error in PUT /api/admin/delivery-capacity/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Delete delivery capacity rule (Admin only)
+ */
+export const DELETE = withPermission(
+  "delivery:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: ruleId } = await params;
+      const rule = await deleteDeliveryCapacityRule(ruleId);
+
+      // Log admin action
+      await logAdminAction(admin.id, "DELETE", "delivery_capacity", ruleId, rule, null, request);
+
+      return NextResponse.json({
+        success: true,
+        message: "Kapacita byla úspěšně smazána",
+      });
+    } catch (error) {
+      if (error instanceof DeliveryCapacityError) {
+        return capacityErrorResponse(error);
+      }
+
+      console.error("Error in DELETE /api/admin/delivery-capacity/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { DeliveryCapacityError, type DeliveryCapacityInput } from "@/lib/delivery/capacity";
+import {
+  createDeliveryCapacityRule,
+  getDeliveryCapacityRules,
+} from "@/lib/services/delivery-capacity-service";
+
+/**
+ * Get all delivery capacity rules (Admin only)
+ */
+export const GET = withPermission("delivery:write", async () => {
+  try {
+    const rules = await getDeliveryCapacityRules();
+
+    return NextResponse.json({
+      success: true,
+      rules,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/admin/delivery-capacity:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Create delivery capacity rule (Admin only)
+ */
+export const POST = withPermission("delivery:write", async (request: NextRequest, admin) => {
+  try {
+    const body = (await request.json()) as DeliveryCapacityInput;
+    const rule = await createDeliveryCapacityRule(body);
+
+    // Log admin action
+    await logAdminAction(admin.id, "CREATE", "delivery_capacity", rule.id, null, rule, request);
+
+    return NextResponse.json(
+      {
+        success: true,
+        rule,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof DeliveryCapacityError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: error.code === "DUPLICATE_CAPACITY" ? 409 : 400 }
+      );
+    }
+
+    console.error("Error in POST /api/admin/delivery-capacity:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
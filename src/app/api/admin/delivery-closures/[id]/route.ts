@@ -0,0 +1,111 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { DeliveryClosureError, type DeliveryClosureInput } from "@/lib/delivery/holidays";
+import {
+  deleteDeliveryClosure,
+  getDeliveryClosure,
+  updateDeliveryClosure,
+} from "@/lib/services/delivery-closure-service";
+
+const CLOSURE_ERROR_STATUS: Record<DeliveryClosureError["code"], number> = {
+  INVALID_CLOSURE: 400,
+  CLOSURE_NOT_FOUND: 404,
+};
+
+function closureErrorResponse(error: DeliveryClosureError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+    },
+    { status: CLOSURE_ERROR_STATUS[error.code] }
+  );
+}
+
+/**
+ * Update delivery closure (Admin only)
+ */
+export const PUT = withPermission(
+  "delivery:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: closureId } = await params;
+      const body = (await request.json()) as DeliveryClosureInput;
+
+      const oldClosure = await getDeliveryClosure(closureId);
+      const closure = await updateDeliveryClosure(closureId, body);
+
+      // Log admin action
+      await logAdminAction(
+        admin.id,
+        "UPDATE",
+        "delivery_closures",
+        closureId,
+        oldClosure,
+        closure,
+        request
+      );
+
+      return NextResponse.json({
+        success: true,
+        closure,
+      });
+    } catch (error) {
+      if (error instanceof DeliveryClosureError) {
+        return closureErrorResponse(error);
+      }
+
+      console.error("Error in PUT /api/admin/delivery-closures/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Delete delivery closure (Admin only)
+ */
+export const DELETE = withPermission(
+  "delivery:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: closureId } = await params;
+      const closure = await deleteDeliveryClosure(closureId);
+
+      // Log admin action
+      await logAdminAction(
+        admin.id,
+        "DELETE",
+        "delivery_closures",
+        closureId,
+        closure,
+        null,
+        request
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: "Uzavírka byla úspěšně smazána",
+      });
+    } catch (error) {
+      if (error instanceof DeliveryClosureError) {
+        return closureErrorResponse(error);
+      }
+
+      console.error("Error in DELETE /api/admin/delivery-closures/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,79 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { DeliveryClosureError, type DeliveryClosureInput } from "@/lib/delivery/holidays";
+import {
+  createDeliveryClosure,
+  getDeliveryClosures,
+} from "@/lib/services/delivery-closure-service";
+
+/**
+ * Get all delivery closures including past ones (Admin only)
+ */
+export const GET = withPermission("delivery:write", async () => {
+  try {
+    const closures = await getDeliveryClosures();
+
+    return NextResponse.json({
+      success: true,
+      closures,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/admin/delivery-closures:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Create delivery closure (Admin only)
+ */
+export const POST = withPermission("delivery:write", async (request: NextRequest, admin) => {
+  try {
+    const body = (await request.json()) as DeliveryClosureInput;
+    const closure = await createDeliveryClosure(body);
+
+    // Log admin action
+    await logAdminAction(
+      admin.id,
+      "CREATE",
+      "delivery_closures",
+      closure.id,
+      null,
+      closure,
+      request
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        closure,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof DeliveryClosureError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error in POST /api/admin/delivery-closures:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,96 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { DeliveryZoneError, type DeliveryZoneInput } from "@/lib/delivery/zones";
+import {
+  deleteDeliveryZone,
+  getDeliveryZone,
+  updateDeliveryZone,
+} from "@/lib/services/delivery-zone-service";
+
+const ZONE_ERROR_STATUS: Record<DeliveryZoneError["code"], number> = {
+  INVALID_ZONE: 400,
+  ZONE_NOT_FOUND: 404,
+  DUPLICATE_SLUG: 409,
+};
+
+function zoneErrorResponse(error: DeliveryZoneError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+    },
+    { status: ZONE_ERROR_STATUS[error.code] }
+  );
+}
+
+/**
+ * Update delivery zone (Admin only)
+ */
+export const PUT = withPermission(
+  "delivery:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: zoneId } = await params;
+      const body = (await request.json()) as DeliveryZoneInput;
+
+      const oldZone = await getDeliveryZone(zoneId);
+      const zone = await updateDeliveryZone(zoneId, body);
+
+      // Log admin action
+      await logAdminAction(admin.id, "UPDATE", "delivery_zones", zoneId, oldZone, zone, request);
+
+      return NextResponse.json({
+        success: true,
+        zone,
+      });
+    } catch (error) {
+      if (error instanceof DeliveryZoneError) {
+        return zoneErrorResponse(error);
+      }
+
+      console.error("Error in PUT /api/admin/delivery-zones/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Delete delivery zone (Admin only)
+ */
+export const DELETE = withPermission(
+  "delivery:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: zoneId } = await params;
+      const zone = await deleteDeliveryZone(zoneId);
+
+      // Log admin action
+      await logAdminAction(admin.id, "DELETE", "delivery_zones", zoneId, zone, null, request);
+
+      return NextResponse.json({
+        success: true,
+        message: "Zóna byla úspěšně smazána",
+      });
+    } catch (error) {
+      if (error instanceof DeliveryZoneError) {
+        return zoneErrorResponse(error);
+      }
+
+      console.error("Error in DELETE /api/admin/delivery-zones/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { DeliveryZoneError, type DeliveryZoneInput } from "@/lib/delivery/zones";
+import { createDeliveryZone, getDeliveryZones } from "@/lib/services/delivery-zone-service";
+
+/**
+ * Get all delivery zones including inactive ones (Admin only)
+ */
+export const GET = withPermission("delivery:write", async () => {
+  try {
+    const zones = await getDeliveryZones(true);
+
+    return NextResponse.json({
+      success: true,
+      zones,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/admin/delivery-zones:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Create delivery zone (Admin only)
+ */
+export const POST = withPermission("delivery:write", async (request: NextRequest, admin) => {
+  try {
+    const body = (await request.json()) as DeliveryZoneInput;
+    const zone = await createDeliveryZone(body);
+
+    // Log admin action
+    await logAdminAction(admin.id, "CREATE", "delivery_zones", zone.id, null, zone, request);
+
+    return NextResponse.json(
+      {
+        success: true,
+        zone,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof DeliveryZoneError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: error.code === "DUPLICATE_SLUG" ? 409 : 400 }
+      );
+    }
+
+    console.error("Error in POST /api/admin/delivery-zones:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
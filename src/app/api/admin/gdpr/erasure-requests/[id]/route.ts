@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { ErasureError } from "@/lib/gdpr/erasure";
+import { reviewErasureRequest } from "@/lib/services/gdpr-erasure-service";
+
+const ERASURE_ERROR_STATUS: Partial<Record<ErasureError["code"], number>> = {
+  NOT_FOUND: 404,
+  NOT_REVIEWABLE: 409,
+};
+
+/**
+ * Approve or reject a blocked erasure request (Admin only)
+ */
+export const PUT = withPermission(
+  "gdpr:process",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id } = await params;
+      const body = (await request.json()) as { decision?: unknown; note?: unknown };
+
+      if (body.decision !== "approve" && body.decision !== "reject") {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Neplatné rozhodnutí",
+          },
+          { status: 400 }
+        );
+      }
+
+      const note = typeof body.note === "string" ? body.note.trim().slice(0, 1000) : "";
+      const { previous, updated } = await reviewErasureRequest(
+        id,
+        admin.id,
+        body.decision,
+        note || undefined
+      );
+
+      // Log admin action
+      await logAdminAction(
+        admin.id,
+        "UPDATE",
+        "gdpr_erasure_requests",
+        id,
+        { status: previous.status },
+        { status: updated.status, decision: body.decision, note: updated.reviewNote },
+        request
+      );
+
+      return NextResponse.json({
+        success: true,
+        request: updated,
+      });
+    } catch (error) {
+      if (error instanceof ErasureError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error.message,
+            code: error.code,
+          },
+          { status: ERASURE_ERROR_STATUS[error.code] ?? 400 }
+        );
+      }
+
+      console.error("Error in PUT /api/admin/gdpr/erasure-requests/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
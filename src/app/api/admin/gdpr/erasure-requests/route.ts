@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/admin-middleware";
+import type { ErasureRequestStatus } from "@/lib/gdpr/erasure";
+import { getErasureQueue } from "@/lib/services/gdpr-erasure-service";
+
+const QUEUE_FILTERS: Record<string, ErasureRequestStatus[]> = {
+  review: ["blocked", "failed"],
+  scheduled: ["scheduled"],
+  completed: ["completed"],
+};
+
+/**
+ * Get erasure requests awaiting review or erasure (Admin only)
+ */
+export const GET = withPermission("gdpr:process", async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const filter = QUEUE_FILTERS[searchParams.get("filter") ?? ""];
+
+    const requests = await getErasureQueue(filter);
+
+    return NextResponse.json({
+      success: true,
+      requests,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/admin/gdpr/erasure-requests:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -1,11 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { logAdminAction, withAdminAuth } from "@/lib/auth/admin-middleware";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
 import { adminUtils } from "@/lib/supabase/utils";
 
 /**
  * Acknowledge inventory alert (Admin only)
  */
-export const POST = withAdminAuth(
+export const POST = withPermission(
+  "inventory:write",
   async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
     try {
       const { id: alertId } = await params;
@@ -1,16 +1,17 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { withAdminAuth } from "@/lib/auth/admin-middleware";
+import { withPermission } from "@/lib/auth/admin-middleware";
 import { adminUtils } from "@/lib/supabase/utils";
 
 /**
  * Get inventory alerts (Admin only)
  */
-export const GET = withAdminAuth(async (request: NextRequest) => {
+export const GET = withPermission("inventory:write", async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const acknowledged = searchParams.get("acknowledged") === "true";
 
-    const { data: alerts, error } = await adminUtils.getInventoryAlerts(acknowledged);
+    // Acknowledged alerts are stored as inactive
+    const { data: alerts, error } = await adminUtils.getInventoryAlerts(!acknowledged);
 
     if (error) {
       console.error("Error fetching inventory alerts:", error);
@@ -0,0 +1,116 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { MaterialError, type MaterialInput } from "@/lib/inventory/materials";
+import {
+  deleteMaterial,
+  getMaterial,
+  syncRecipeChoiceAvailability,
+  updateMaterial,
+} from "@/lib/services/material-service";
+
+const MATERIAL_ERROR_STATUS: Record<MaterialError["code"], number> = {
+  INVALID_MATERIAL: 400,
+  INVALID_RECIPE: 400,
+  MATERIAL_NOT_FOUND: 404,
+};
+
+function materialErrorResponse(error: MaterialError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+    },
+    { status: MATERIAL_ERROR_STATUS[error.code] }
+  );
+}
+
+// Stock changes can make flowers and ribbon color choices (un)available
+async function syncChoiceAvailability() {
+  await syncRecipeChoiceAvailability().catch((error) =>
+    console.error("Failed to sync choice availability:", error)
+  );
+}
+
+/**
+ * Update material, e.g. its stock after a count or a delivery (Admin only)
+ */
+export const PUT = withPermission(
+  "inventory:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: materialId } = await params;
+      const body = (await request.json()) as MaterialInput;
+
+      const oldMaterial = await getMaterial(materialId);
+      const material = await updateMaterial(materialId, body);
+
+      // Log admin action
+      await logAdminAction(
+        admin.id,
+        "UPDATE",
+        "materials",
+        materialId,
+        oldMaterial,
+        material,
+        request
+      );
+
+      await syncChoiceAvailability();
+
+      return NextResponse.json({
+        success: true,
+        material,
+      });
+    } catch (error) {
+      if (error instanceof MaterialError) {
+        return materialErrorResponse(error);
+      }
+
+      console.error("Error in PUT /api/admin/inventory/materials/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Delete material together with its recipe components (Admin only)
+ */
+export const DELETE = withPermission(
+  "inventory:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: materialId } = await params;
+      const material = await deleteMaterial(materialId);
+
+      // Log admin action
+      await logAdminAction(admin.id, "DELETE", "materials", materialId, material, null, request);
+
+      await syncChoiceAvailability();
+
+      return NextResponse.json({
+        success: true,
+        message: "Materiál byl úspěšně smazán",
+      });
+    } catch (error) {
+      if (error instanceof MaterialError) {
+        return materialErrorResponse(error);
+      }
+
+      console.error("Error in DELETE /api/admin/inventory/materials/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
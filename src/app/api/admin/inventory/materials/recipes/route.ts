@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import {
+  getRecipeChoiceKey,
+  MaterialError,
+  type MaterialRecipeInput,
+} from "@/lib/inventory/materials";
+import { setMaterialRecipe, syncRecipeChoiceAvailability } from "@/lib/services/material-service";
+
+/**
+ * Replace the components of a flowers or ribbon color choice (Admin only)
+ */
+export const PUT = withPermission("inventory:write", async (request: NextRequest, admin) => {
+  try {
+    const body = (await request.json()) as MaterialRecipeInput;
+    const recipes = await setMaterialRecipe(body);
+
+    // Log admin action
+    await logAdminAction(
+      admin.id,
+      "UPDATE",
+      "material_recipes",
+      getRecipeChoiceKey(body.optionType, body.choiceId.trim()),
+      null,
+      { components: recipes },
+      request
+    );
+
+    // A new or changed recipe can make the choice (un)available
+    await syncRecipeChoiceAvailability().catch((error) =>
+      console.error("Failed to sync choice availability:", error)
+    );
+
+    return NextResponse.json({
+      success: true,
+      recipes,
+    });
+  } catch (error) {
+    if (error instanceof MaterialError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error in PUT /api/admin/inventory/materials/recipes:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
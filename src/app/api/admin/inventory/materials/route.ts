@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { MaterialError, type MaterialInput } from "@/lib/inventory/materials";
+import { createMaterial, getMaterialOverview } from "@/lib/services/material-service";
+
+/**
+ * Get materials, their recipes and projected shortages per delivery date (Admin only)
+ */
+export const GET = withPermission("inventory:write", async () => {
+  try {
+    const overview = await getMaterialOverview();
+
+    return NextResponse.json({
+      success: true,
+      ...overview,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/admin/inventory/materials:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Create material (Admin only)
+ */
+export const POST = withPermission("inventory:write", async (request: NextRequest, admin) => {
+  try {
+    const body = (await request.json()) as MaterialInput;
+    const material = await createMaterial(body);
+
+    // Log admin action
+    await logAdminAction(admin.id, "CREATE", "materials", material.id, null, material, request);
+
+    return NextResponse.json(
+      {
+        success: true,
+        material,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof MaterialError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error in POST /api/admin/inventory/materials:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/admin-middleware";
+import { getOrderJobSheet } from "@/lib/services/job-sheet-service";
+
+/**
+ * Download the florist job sheet of an order as PDF (Admin only)
+ */
+export const GET = withPermission(
+  "orders:read",
+  async (_request: NextRequest, _admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: orderId } = await params;
+      const jobSheet = await getOrderJobSheet(orderId);
+
+      if (!jobSheet) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Objednávka nebyla nalezena",
+          },
+          { status: 404 }
+        );
+      }
+
+      return new NextResponse(new Uint8Array(jobSheet.pdf), {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${jobSheet.filename}"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    } catch (error) {
+      console.error("Error in GET /api/admin/orders/[id]/job-sheet:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,84 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { RefundError, type RefundItemSelection } from "@/lib/orders/refunds";
+import { issueOrderRefund } from "@/lib/services/refund-service";
+
+interface RefundRequestBody {
+  items?: RefundItemSelection[];
+  amount?: number;
+  reason?: string;
+}
+
+/**
+ * Refund an order fully or per item (Admin only)
+ */
+export const POST = withPermission(
+  "orders:refund",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: orderId } = await params;
+      const body = (await request.json()) as RefundRequestBody;
+
+      const items = Array.isArray(body.items)
+        ? body.items.map((item) => ({
+            orderItemId: String(item.orderItemId),
+            quantity: Number(item.quantity),
+          }))
+        : undefined;
+      const reason = typeof body.reason === "string" ? body.reason.trim() : "";
+
+      const result = await issueOrderRefund(
+        orderId,
+        {
+          ...(items && { items }),
+          ...(typeof body.amount === "number" && { amount: body.amount }),
+          ...(reason && { reason }),
+        },
+        admin.id
+      );
+
+      await logAdminAction(
+        admin.id,
+        "REFUND",
+        "orders",
+        orderId,
+        {
+          paymentStatus: result.previousPaymentInfo.status,
+          refundedAmount: result.previousPaymentInfo.refundedAmount || 0,
+        },
+        {
+          paymentStatus: result.paymentInfo.status,
+          refundedAmount: result.paymentInfo.refundedAmount,
+          refund: result.refund,
+        },
+        request
+      );
+
+      return NextResponse.json({
+        success: true,
+        refund: result.refund,
+        paymentInfo: result.paymentInfo,
+      });
+    } catch (error) {
+      if (error instanceof RefundError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error.message,
+            code: error.code,
+          },
+          { status: error.code === "PAYMENT_PROVIDER_ERROR" ? 502 : 400 }
+        );
+      }
+
+      console.error("Error in POST /api/admin/orders/[id]/refund:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -1,26 +1,22 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { logAdminAction, withAdminAuth } from "@/lib/auth/admin-middleware";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { isValidDeliveryPhotoUrl } from "@/lib/notifications/order-notifications";
+import { isOrderStatus, OrderStatusTransitionError } from "@/lib/orders/lifecycle";
+import { updateOrderStatus } from "@/lib/services/order-service";
 import { orderUtils } from "@/lib/supabase/utils";
 
 /**
  * Update order status (Admin only)
  */
-export const PUT = withAdminAuth(
+export const PUT = withPermission(
+  "orders:write",
   async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
     try {
       const { id: orderId } = await params;
-      const { status, internalNotes } = await request.json();
+      const { status, internalNotes, deliveryPhotoUrl } = await request.json();
 
       // Validate status
-      const validStatuses = [
-        "pending",
-        "confirmed",
-        "processing",
-        "shipped",
-        "delivered",
-        "cancelled",
-      ];
-      if (!validStatuses.includes(status)) {
+      if (!isOrderStatus(status)) {
         return NextResponse.json(
           {
             success: false,
@@ -30,14 +26,32 @@ export const PUT = withAdminAuth(
         );
       }
 
+      // Proof-of-delivery photo is only accepted when marking the order delivered
+      if (
+        deliveryPhotoUrl &&
+        (status !== "delivered" || !isValidDeliveryPhotoUrl(deliveryPhotoUrl))
+      ) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Neplatný odkaz na fotografii doručení (musí začínat https://)",
+          },
+          { status: 400 }
+        );
+      }
+
       // Get current order for logging
       const { data: currentOrder } = await orderUtils.getOrderById(orderId);
 
-      const { data: order, error } = await orderUtils.updateOrderStatus(
-        orderId,
-        status,
-        internalNotes
-      );
+      // Transition through the order lifecycle (rejects illegal jumps)
+      const { data: order, error } = await updateOrderStatus(orderId, status, internalNotes, {
+        changedBy: admin.id,
+        source: "admin",
+        ...(deliveryPhotoUrl && {
+          deliveryPhotoUrl,
+          metadata: { deliveryPhotoUrl },
+        }),
+      });
 
       if (error) {
         console.error("Error updating order status:", error);
@@ -57,7 +71,7 @@ export const PUT = withAdminAuth(
         "orders",
         orderId,
         { status: currentOrder?.status, notes: currentOrder?.notes },
-        { status, notes: internalNotes },
+        { status, notes: internalNotes, ...(deliveryPhotoUrl && { deliveryPhotoUrl }) },
         request
       );
 
@@ -66,6 +80,17 @@ export const PUT = withAdminAuth(
         order,
       });
     } catch (error) {
+      if (error instanceof OrderStatusTransitionError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error.message,
+            code: error.code,
+          },
+          { status: 409 }
+        );
+      }
+
       console.error("Error in PUT /api/admin/orders/[id]/status:", error);
       return NextResponse.json(
         {
@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/admin-middleware";
+import { getDeliveryDateSearchRange } from "@/lib/orders/job-sheet";
+import { getDailyJobSheets } from "@/lib/services/job-sheet-service";
+
+/**
+ * Download the job sheets of all orders due on a day as one PDF (Admin only)
+ * Query: date=YYYY-MM-DD (delivery day in Czech time)
+ */
+export const GET = withPermission("orders:read", async (request: NextRequest) => {
+  try {
+    const date = request.nextUrl.searchParams.get("date") || "";
+
+    if (!getDeliveryDateSearchRange(date)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Neplatné datum",
+        },
+        { status: 400 }
+      );
+    }
+
+    const jobSheets = await getDailyJobSheets(date);
+
+    if (!jobSheets) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Na tento den nejsou žádné potvrzené zakázky",
+        },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(jobSheets.pdf), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${jobSheets.filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error in GET /api/admin/orders/job-sheets:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
@@ -1,40 +1,16 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { createServerClient } from "@/lib/supabase/server";
-import { orderUtils, userUtils } from "@/lib/supabase/utils";
+import { withPermission } from "@/lib/auth/admin-middleware";
+import { parseFuneralDetails } from "@/lib/delivery/funeral";
+import { normalizeOrderSearchTerm } from "@/lib/orders/order-number";
+import { orderUtils } from "@/lib/supabase/utils";
+import { getOrderItems } from "@/lib/utils/order-transforms";
 import type { OrderStatus } from "@/types/order";
 
 /**
  * Get all orders (Admin only)
  */
-export async function GET(request: NextRequest) {
+export const GET = withPermission("orders:read", async (request: NextRequest) => {
   try {
-    const supabase = createServerClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Unauthorized",
-        },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is admin
-    const isAdmin = await userUtils.isAdmin(user.id);
-    if (!isAdmin) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Insufficient permissions",
-        },
-        { status: 403 }
-      );
-    }
-
     // Parse query parameters
     const { searchParams } = new URL(request.url);
     const statusParam = searchParams.get("status");
@@ -50,6 +26,7 @@ export async function GET(request: NextRequest) {
       statusParam && validStatuses.includes(statusParam as OrderStatus)
         ? (statusParam as OrderStatus)
         : null;
+    const search = normalizeOrderSearchTerm(searchParams.get("search"));
     const dateFrom = searchParams.get("dateFrom");
     const dateTo = searchParams.get("dateTo");
     const limit = Number.parseInt(searchParams.get("limit") || "20", 10);
@@ -58,6 +35,7 @@ export async function GET(request: NextRequest) {
     // Get orders with filters
     const { data: orders, error } = await orderUtils.getAllOrders({
       ...(status && { status }),
+      ...(search && { search }),
       ...(dateFrom && { dateFrom }),
       ...(dateTo && { dateTo }),
       limit,
@@ -84,7 +62,7 @@ export async function GET(request: NextRequest) {
 
       return {
         id: order.id,
-        orderNumber: customerInfo["orderNumber"] || order.id.slice(-8).toUpperCase(),
+        orderNumber: order.order_number,
         customerName: `${customerInfo["firstName"]} ${customerInfo["lastName"]}`,
         customerEmail: customerInfo[`email`],
         customerPhone: customerInfo["phone"],
@@ -93,8 +71,21 @@ export async function GET(request: NextRequest) {
         itemCount: itemsData["itemCount"] || 0,
         paymentMethod: paymentInfo["method"],
         paymentStatus: paymentInfo["status"],
+        paidAmount: paymentInfo["amount"] || order.total_amount,
+        refundedAmount: paymentInfo["refundedAmount"] || 0,
+        refunds: paymentInfo["refunds"] || [],
+        dispute: paymentInfo["dispute"] || null,
+        items: getOrderItems(order).map((item) => ({
+          id: item.id,
+          productName: item.productName,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          totalPrice: item.totalPrice,
+        })),
         deliveryAddress: `${(deliveryInfo["address"] as { city?: string; postalCode?: string })?.city || ""}, ${(deliveryInfo["address"] as { city?: string; postalCode?: string })?.postalCode || ""}`,
         preferredDate: deliveryInfo["preferredDate"],
+        funeral: parseFuneralDetails(deliveryInfo["funeral"]),
+        deliveryPhotoUrl: order.delivery_photo_url,
         createdAt: order.created_at,
         updatedAt: order.updated_at,
         confirmedAt: undefined,
@@ -125,4 +116,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,39 +1,12 @@
 import { NextResponse } from "next/server";
-import { createServerClient } from "@/lib/supabase/server";
-import { orderUtils, userUtils } from "@/lib/supabase/utils";
+import { withPermission } from "@/lib/auth/admin-middleware";
+import { orderUtils } from "@/lib/supabase/utils";
 
 /**
  * Get order statistics (Admin only)
  */
-export async function GET() {
+export const GET = withPermission("orders:read", async () => {
   try {
-    const supabase = createServerClient();
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Unauthorized",
-        },
-        { status: 401 }
-      );
-    }
-
-    // Check if user is admin
-    const isAdmin = await userUtils.isAdmin(user.id);
-    if (!isAdmin) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: "Insufficient permissions",
-        },
-        { status: 403 }
-      );
-    }
-
     // Get order statistics
     const { data: stats, error } = await orderUtils.getOrderStats();
 
@@ -62,4 +35,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
@@ -1,17 +1,18 @@
 import type { NextRequest } from "next/server";
 import { NextResponse } from "next/server";
-import { logAdminAction, withAdminAuth } from "@/lib/auth/admin-middleware";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
 import { adminUtils } from "@/lib/supabase/utils";
 
 /**
  * Update product inventory (Admin only)
  */
-export const PUT = withAdminAuth(
+export const PUT = withPermission(
+  "inventory:write",
   async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
     try {
       const { id: productId } = await params;
       const body = await request.json();
-      const { stock_quantity, track_inventory } = body;
+      const { stock_quantity, track_inventory, low_stock_threshold } = body;
 
       // Get current product for logging
       const { data: currentProducts } = await adminUtils.getAllProducts({ limit: 1000 });
@@ -24,6 +25,8 @@ export const PUT = withAdminAuth(
         inStock: stock_quantity > 0,
         stockQuantity: stock_quantity,
         trackInventory: track_inventory ?? true,
+        ...(Number.isInteger(low_stock_threshold) &&
+          low_stock_threshold >= 0 && { lowStockThreshold: low_stock_threshold }),
       };
 
       const { error } = await adminUtils.updateProductAvailability(productId, newAvailability);
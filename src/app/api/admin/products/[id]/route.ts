@@ -1,11 +1,12 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { logAdminAction, withAdminAuth } from "@/lib/auth/admin-middleware";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
 import { adminUtils } from "@/lib/supabase/utils";
 
 /**
  * Update product (Admin only)
  */
-export const PUT = withAdminAuth(
+export const PUT = withPermission(
+  "products:write",
   async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
     try {
       const { id: productId } = await params;
@@ -74,7 +75,8 @@ export const PUT = withAdminAuth(
 /**
  * Delete product (Admin only)
  */
-export const DELETE = withAdminAuth(
+export const DELETE = withPermission(
+  "products:write",
   async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
     try {
       const { id: productId } = await params;
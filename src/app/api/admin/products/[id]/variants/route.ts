@@ -0,0 +1,97 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import {
+  getProductVariants,
+  ProductVariantError,
+  type ProductVariantInput,
+  saveProductVariants,
+} from "@/lib/services/variant-service";
+
+/**
+ * Get product variants (Admin only)
+ */
+export const GET = withPermission(
+  "products:read",
+  async (_request: NextRequest, _admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: productId } = await params;
+      const variants = await getProductVariants(productId, true);
+
+      return NextResponse.json({
+        success: true,
+        variants,
+      });
+    } catch (error) {
+      console.error("Error in GET /api/admin/products/[id]/variants:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Replace product variants (Admin only)
+ */
+export const PUT = withPermission(
+  "products:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: productId } = await params;
+      const body = await request.json();
+
+      if (!Array.isArray(body.variants)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Chybí seznam variant",
+          },
+          { status: 400 }
+        );
+      }
+
+      const oldVariants = await getProductVariants(productId, true);
+      const variants = await saveProductVariants(productId, body.variants as ProductVariantInput[]);
+
+      // Log admin action
+      await logAdminAction(
+        admin.id,
+        "UPDATE",
+        "product_variants",
+        productId,
+        oldVariants,
+        variants,
+        request
+      );
+
+      return NextResponse.json({
+        success: true,
+        variants,
+      });
+    } catch (error) {
+      if (error instanceof ProductVariantError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error.message,
+            code: error.code,
+          },
+          { status: error.code === "PRODUCT_NOT_FOUND" ? 404 : 400 }
+        );
+      }
+
+      console.error("Error in PUT /api/admin/products/[id]/variants:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import {
+  getProductVariants,
+  ProductVariantError,
+  syncProductVariantsToStripe,
+} from "@/lib/services/variant-service";
+
+/**
+ * Create missing Stripe prices for product variants (Admin only)
+ */
+export const POST = withPermission(
+  "products:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: productId } = await params;
+      const result = await syncProductVariantsToStripe(productId);
+
+      if (result.created.length > 0) {
+        await logAdminAction(
+          admin.id,
+          "SYNC_STRIPE",
+          "product_variants",
+          productId,
+          null,
+          result.created,
+          request
+        );
+      }
+
+      const variants = await getProductVariants(productId, true);
+
+      return NextResponse.json({
+        success: result.errors.length === 0,
+        ...result,
+        variants,
+      });
+    } catch (error) {
+      if (error instanceof ProductVariantError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error.message,
+            code: error.code,
+          },
+          { status: error.code === "PRODUCT_NOT_FOUND" ? 404 : 400 }
+        );
+      }
+
+      console.error("Error in POST /api/admin/products/[id]/variants/sync:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
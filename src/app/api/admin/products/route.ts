@@ -1,11 +1,11 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { logAdminAction, withAdminAuth } from "@/lib/auth/admin-middleware";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
 import { adminUtils } from "@/lib/supabase/utils";
 
 /**
  * Get all products (Admin only)
  */
-export const GET = withAdminAuth(async (request: NextRequest) => {
+export const GET = withPermission("products:read", async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const category = searchParams.get("category");
@@ -82,7 +82,7 @@ export const GET = withAdminAuth(async (request: NextRequest) => {
 /**
  * Create new product (Admin only)
  */
-export const POST = withAdminAuth(async (request: NextRequest, admin) => {
+export const POST = withPermission("products:write", async (request: NextRequest, admin) => {
   try {
     const productData = await request.json();
 
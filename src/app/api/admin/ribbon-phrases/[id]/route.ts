@@ -0,0 +1,104 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { RibbonPhraseError, type RibbonPhraseInput } from "@/lib/ribbon/phrases";
+import {
+  deleteRibbonPhrase,
+  getRibbonPhrase,
+  updateRibbonPhrase,
+} from "@/lib/services/ribbon-phrase-service";
+
+const PHRASE_ERROR_STATUS: Record<RibbonPhraseError["code"], number> = {
+  INVALID_PHRASE: 400,
+  PHRASE_NOT_FOUND: 404,
+  DUPLICATE_PHRASE: 409,
+};
+
+function phraseErrorResponse(error: RibbonPhraseError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+    },
+    { status: PHRASE_ERROR_STATUS[error.code] }
+  );
+}
+
+/**
+ * Update ribbon phrase (Admin only)
+ */
+export const PUT = withPermission(
+  "products:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: phraseId } = await params;
+      const body = (await request.json()) as RibbonPhraseInput;
+
+      const oldPhrase = await getRibbonPhrase(phraseId);
+      const phrase = await updateRibbonPhrase(phraseId, body);
+
+      // Log admin action
+      await logAdminAction(
+        admin.id,
+        "UPDATE",
+        "ribbon_phrases",
+        phraseId,
+        oldPhrase,
+        phrase,
+        request
+      );
+
+      return NextResponse.json({
+        success: true,
+        phrase,
+      });
+    } catch (error) {
+      if (error instanceof RibbonPhraseError) {
+        return phraseErrorResponse(error);
+      }
+
+      console.error("Error in PUT /api/admin/ribbon-phrases/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Delete ribbon phrase (Admin only)
+ */
+export const DELETE = withPermission(
+  "products:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: phraseId } = await params;
+      const phrase = await deleteRibbonPhrase(phraseId);
+
+      // Log admin action
+      await logAdminAction(admin.id, "DELETE", "ribbon_phrases", phraseId, phrase, null, request);
+
+      return NextResponse.json({
+        success: true,
+        message: "Fráze byla úspěšně smazána",
+      });
+    } catch (error) {
+      if (error instanceof RibbonPhraseError) {
+        return phraseErrorResponse(error);
+      }
+
+      console.error("Error in DELETE /api/admin/ribbon-phrases/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
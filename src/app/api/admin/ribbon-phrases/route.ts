@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { RibbonPhraseError, type RibbonPhraseInput } from "@/lib/ribbon/phrases";
+import { createRibbonPhrase, getRibbonPhrases } from "@/lib/services/ribbon-phrase-service";
+
+/**
+ * Get all ribbon phrases including inactive ones (Admin only)
+ */
+export const GET = withPermission("products:write", async () => {
+  try {
+    const phrases = await getRibbonPhrases(true);
+
+    return NextResponse.json({
+      success: true,
+      phrases,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/admin/ribbon-phrases:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Create ribbon phrase (Admin only)
+ */
+export const POST = withPermission("products:write", async (request: NextRequest, admin) => {
+  try {
+    const body = (await request.json()) as RibbonPhraseInput;
+    const phrase = await createRibbonPhrase(body);
+
+    // Log admin action
+    await logAdminAction(admin.id, "CREATE", "ribbon_phrases", phrase.id, null, phrase, request);
+
+    return NextResponse.json(
+      {
+        success: true,
+        phrase,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof RibbonPhraseError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: error.code === "DUPLICATE_PHRASE" ? 409 : 400 }
+      );
+    }
+
+    console.error("Error in POST /api/admin/ribbon-phrases:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
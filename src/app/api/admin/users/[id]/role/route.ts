@@ -0,0 +1,62 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { UserRoleError } from "@/lib/auth/permissions";
+import { getUserWithRole, updateUserRole } from "@/lib/services/user-role-service";
+
+const USER_ROLE_ERROR_STATUS: Record<UserRoleError["code"], number> = {
+  INVALID_ROLE: 400,
+  SELF_ASSIGNMENT: 403,
+  USER_NOT_FOUND: 404,
+};
+
+/**
+ * Assign a role to a user (Admin only)
+ */
+export const PUT = withPermission(
+  "users:manage",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: userId } = await params;
+      const body = (await request.json()) as { role?: unknown };
+
+      const oldUser = await getUserWithRole(userId);
+      const user = await updateUserRole(admin.id, userId, body.role);
+
+      // Log admin action
+      await logAdminAction(
+        admin.id,
+        "UPDATE",
+        "user_profiles",
+        userId,
+        oldUser && { role: oldUser.role },
+        { role: user.role },
+        request
+      );
+
+      return NextResponse.json({
+        success: true,
+        user,
+      });
+    } catch (error) {
+      if (error instanceof UserRoleError) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: error.message,
+            code: error.code,
+          },
+          { status: USER_ROLE_ERROR_STATUS[error.code] }
+        );
+      }
+
+      console.error("Error in PUT /api/admin/users/[id]/role:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
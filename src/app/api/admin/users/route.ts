@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth/admin-middleware";
+import { getUsersWithRoles } from "@/lib/services/user-role-service";
+
+/**
+ * Get staff users, or users matching a search (Admin only)
+ */
+export const GET = withPermission("users:manage", async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const search = searchParams.get("search");
+
+    const users = await getUsersWithRoles({
+      ...(search && { search }),
+    });
+
+    return NextResponse.json({
+      success: true,
+      users,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/admin/users:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
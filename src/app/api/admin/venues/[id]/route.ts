@@ -0,0 +1,91 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { VenueError, type VenueInput } from "@/lib/delivery/venues";
+import { deleteVenue, getVenue, updateVenue } from "@/lib/services/venue-service";
+
+const VENUE_ERROR_STATUS: Record<VenueError["code"], number> = {
+  INVALID_VENUE: 400,
+  VENUE_NOT_FOUND: 404,
+};
+
+function venueErrorResponse(error: VenueError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+    },
+    { status: VENUE_ERROR_STATUS[error.code] }
+  );
+}
+
+/**
+ * Update venue (Admin only)
+ */
+export const PUT = withPermission(
+  "delivery:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: venueId } = await params;
+      const body = (await request.json()) as VenueInput;
+
+      const oldVenue = await getVenue(venueId, true);
+      const venue = await updateVenue(venueId, body);
+
+      // Log admin action
+      await logAdminAction(admin.id, "UPDATE", "venues", venueId, oldVenue, venue, request);
+
+      return NextResponse.json({
+        success: true,
+        venue,
+      });
+    } catch (error) {
+      if (error instanceof VenueError) {
+        return venueErrorResponse(error);
+      }
+
+      console.error("Error in PUT /api/admin/venues/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
+
+/**
+ * Delete venue (Admin only)
+ */
+export const DELETE = withPermission(
+  "delivery:write",
+  async (request: NextRequest, admin, { params }: { params: Promise<{ id: string }> }) => {
+    try {
+      const { id: venueId } = await params;
+      const venue = await deleteVenue(venueId);
+
+      // Log admin action
+      await logAdminAction(admin.id, "DELETE", "venues", venueId, venue, null, request);
+
+      return NextResponse.json({
+        success: true,
+        message: "Místo bylo úspěšně smazáno",
+      });
+    } catch (error) {
+      if (error instanceof VenueError) {
+        return venueErrorResponse(error);
+      }
+
+      console.error("Error in DELETE /api/admin/venues/[id]:", error);
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Interní chyba serveru",
+        },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,68 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { logAdminAction, withPermission } from "@/lib/auth/admin-middleware";
+import { VenueError, type VenueInput } from "@/lib/delivery/venues";
+import { createVenue, getVenues } from "@/lib/services/venue-service";
+
+/**
+ * Get all venues including inactive ones (Admin only)
+ */
+export const GET = withPermission("delivery:write", async () => {
+  try {
+    const venues = await getVenues(true);
+
+    return NextResponse.json({
+      success: true,
+      venues,
+    });
+  } catch (error) {
+    console.error("Error in GET /api/admin/venues:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * Create venue (Admin only)
+ */
+export const POST = withPermission("delivery:write", async (request: NextRequest, admin) => {
+  try {
+    const body = (await request.json()) as VenueInput;
+    const venue = await createVenue(body);
+
+    // Log admin action
+    await logAdminAction(admin.id, "CREATE", "venues", venue.id, null, venue, request);
+
+    return NextResponse.json(
+      {
+        success: true,
+        venue,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof VenueError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error("Error in POST /api/admin/venues:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Interní chyba serveru",
+      },
+      { status: 500 }
+    );
+  }
+});
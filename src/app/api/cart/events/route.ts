@@ -0,0 +1,128 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { type NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth/config";
+import { createCartSyncEvent } from "@/lib/cart/realtime-sync";
+import type { Database } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type CartItemRecord = Database["public"]["Tables"]["cart_items"]["Row"];
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+/**
+ * GET /api/cart/events - Server-Sent Events stream of cart changes
+ * Forwards Supabase Realtime changes on cart_items for the caller's cart
+ * (logged-in user, or guest session from the cart-session cookie) as CartSyncEvents.
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  const userId = session?.user?.id || null;
+  const sessionId = request.cookies.get("cart-session")?.value || null;
+
+  if (!(userId || sessionId)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "No valid session",
+      },
+      { status: 401 }
+    );
+  }
+
+  const filter = userId ? `user_id=eq.${userId}` : `session_id=eq.${sessionId}`;
+  const belongsToCart = (row: Partial<CartItemRecord>) =>
+    userId ? row.user_id === userId : row.session_id === sessionId;
+
+  const encoder = new TextEncoder();
+  let cleanup: (() => void) | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed by the client
+          cleanup?.();
+        }
+      };
+
+      const handleChange = (payload: RealtimePostgresChangesPayload<CartItemRecord>) => {
+        const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as CartItemRecord;
+
+        // DELETE events cannot be filtered by Realtime, so check ownership here
+        if (!belongsToCart(row)) {
+          return;
+        }
+
+        const event = createCartSyncEvent(payload.eventType, row);
+        write(`event: cart_sync\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      const channel = supabaseAdmin
+        .channel(`cart-events:${crypto.randomUUID()}`)
+        .on(
+          "postgres_changes",
+          { event: "INSERT", schema: "public", table: "cart_items", filter },
+          handleChange
+        )
+        .on(
+          "postgres_changes",
+          { event: "UPDATE", schema: "public", table: "cart_items", filter },
+          handleChange
+        )
+        .on(
+          "postgres_changes",
+          { event: "DELETE", schema: "public", table: "cart_items" },
+          handleChange
+        )
+        .subscribe((status) => {
+          if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+            console.error(`⚠️ [CartEvents] Realtime subscription failed: ${status}`);
+            cleanup?.();
+            try {
+              controller.close();
+            } catch {
+              // Already closed
+            }
+          }
+        });
+
+      const heartbeat = setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        cleanup = null;
+        clearInterval(heartbeat);
+        supabaseAdmin.removeChannel(channel);
+      };
+
+      request.signal.addEventListener("abort", () => {
+        cleanup?.();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+
+      // Tell EventSource how long to wait before reconnecting
+      write("retry: 3000\n\n");
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -181,6 +181,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         userId: data.user_id,
         sessionId: data.session_id,
         productId: data.product_id,
+        ...(data.variant_id && { variantId: data.variant_id }),
         quantity: data.quantity,
         unitPrice: data.unit_price,
         totalPrice: data.total_price,
@@ -1,6 +1,9 @@
 import { randomUUID } from "node:crypto";
 import { type NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth/config";
+import { isVariantInStock } from "@/lib/products/variants";
+import { getProductVariants } from "@/lib/services/variant-service";
+import { findProductVariant } from "@/lib/stripe/price-selector";
 import type { Json } from "@/lib/supabase/database.types";
 import { createServerClient } from "@/lib/supabase/server";
 import {
@@ -23,6 +26,7 @@ export async function POST(request: NextRequest) {
 
     console.log("📋 [API] Request body:", {
       productId: body.productId,
+      variantId: body.variantId,
       quantity: body.quantity,
       customizations: body.customizations?.length || 0,
     });
@@ -75,6 +79,36 @@ export async function POST(request: NextRequest) {
       console.log("⚠️ [API] Validation warnings (proceeding):", validationResult.warnings);
     }
 
+    // Resolve the variant behind the selected size; it must match the variant the client shows
+    const variant = findProductVariant(
+      await getProductVariants(body.productId),
+      body.customizations || []
+    );
+
+    if (body.variantId && variant?.id !== body.variantId) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Variant does not match the selected size",
+          code: "VARIANT_MISMATCH",
+          userFriendlyMessage: "The selected size is no longer available, please choose again",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (variant && !isVariantInStock(variant)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Variant is out of stock",
+          code: "VARIANT_OUT_OF_STOCK",
+          userFriendlyMessage: "The selected size is sold out",
+        },
+        { status: 409 }
+      );
+    }
+
     // Calculate proper price with customizations using the price service
     const { calculateCartItemPrice } = await import("@/lib/services/cart-price-service");
 
@@ -133,6 +167,7 @@ export async function POST(request: NextRequest) {
         .from("cart_items")
         .update({
           quantity: newQuantity,
+          variant_id: variant?.id ?? null,
           unit_price: updatedPriceCalculation.unitPrice,
           total_price: updatedPriceCalculation.totalPrice,
           updated_at: new Date().toISOString(),
@@ -163,6 +198,7 @@ export async function POST(request: NextRequest) {
         user_id: session?.user?.id || null,
         session_id: session?.user?.id ? null : sessionId || null,
         product_id: body.productId,
+        variant_id: variant?.id ?? null,
         quantity: body.quantity,
         unit_price: priceCalculation.unitPrice,
         total_price: priceCalculation.totalPrice,
@@ -233,6 +269,7 @@ export async function POST(request: NextRequest) {
         userId: result.user_id,
         sessionId: result.session_id,
         productId: result.product_id,
+        ...(result.variant_id && { variantId: result.variant_id }),
         quantity: result.quantity,
         unitPrice: result.unit_price,
         totalPrice: result.total_price,
@@ -103,6 +103,7 @@ export async function POST(request: NextRequest) {
           user_id: body.userId,
           session_id: null,
           product_id: guestItem.product_id,
+          variant_id: guestItem.variant_id,
           quantity: guestItem.quantity,
           unit_price: guestItem.unit_price || 0,
           total_price: guestItem.total_price || 0,
@@ -4,16 +4,113 @@
  */
 
 import { type NextRequest, NextResponse } from "next/server";
+import { DeliveryCapacityError } from "@/lib/delivery/capacity";
+import { FuneralDeliveryError, parseFuneralDetails } from "@/lib/delivery/funeral";
+import { DiscountCodeError } from "@/lib/discounts/rules";
+import { StockReservationError } from "@/lib/inventory/stock";
 import { validateCSRFMiddleware } from "@/lib/security/csrf";
 import { getServerCart } from "@/lib/services/cart-server-service";
 import { createEmbeddedCheckoutSession } from "@/lib/stripe/embedded-checkout";
 import { rateLimit } from "@/lib/utils/rate-limit";
+import type { DeliverySlotSelection, FuneralDetails } from "@/types/delivery";
 
 export const runtime = "nodejs";
 
 interface CreateSessionRequest {
   locale: "cs" | "en";
   metadata?: Record<string, string>;
+  discountCode?: string;
+  deliverySlot?: DeliverySlotSelection;
+  funeral?: unknown;
+}
+
+// Metadata keys the client may set; the rest of the session metadata (delivery slot, discount,
+// funeral details) is set by the server and trusted by the payment webhook
+const CLIENT_METADATA_KEYS: readonly string[] = ["cartId"];
+
+/**
+ * Client-supplied metadata restricted to the allowed keys
+ */
+function getClientMetadata(metadata: unknown): Record<string, string> {
+  if (!metadata || typeof metadata !== "object") {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(metadata).filter(
+      ([key, value]) => CLIENT_METADATA_KEYS.includes(key) && typeof value === "string"
+    )
+  );
+}
+
+/**
+ * Reason the request body is invalid, null when it is valid
+ */
+function getRequestError(
+  body: CreateSessionRequest,
+  funeral: FuneralDetails | null
+): string | null {
+  if (!(body.locale && ["cs", "en"].includes(body.locale))) {
+    return "Invalid locale. Must be 'cs' or 'en'";
+  }
+
+  // Submitted funeral details must parse; the delivery timing is checked with the session
+  if (body.funeral && !funeral) {
+    return "Neplatné údaje o smutečním obřadu";
+  }
+
+  return null;
+}
+
+/**
+ * 409 response for a checkout that cannot hold its delivery slot or stock
+ */
+function checkoutConflictResponse(error: DeliveryCapacityError | StockReservationError) {
+  return NextResponse.json(
+    {
+      success: false,
+      error: error.message,
+      code: error.code,
+      ...(error instanceof StockReservationError && { shortfalls: error.shortfalls }),
+    },
+    { status: 409 }
+  );
+}
+
+/**
+ * Response for checkout errors the customer can resolve, null for unexpected errors
+ */
+function checkoutRejectionResponse(error: unknown) {
+  // Picked delivery slot or pre-made product is no longer available
+  if (error instanceof DeliveryCapacityError || error instanceof StockReservationError) {
+    return checkoutConflictResponse(error);
+  }
+
+  // Promo code expired or ran out of uses since it was applied to the cart
+  if (error instanceof DiscountCodeError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Slevový kód nelze uplatnit",
+        errorCode: error.errorCode,
+      },
+      { status: 422 }
+    );
+  }
+
+  // Delivery would not arrive before the funeral service starts
+  if (error instanceof FuneralDeliveryError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        errorCode: error.code,
+      },
+      { status: 400 }
+    );
+  }
+
+  return null;
 }
 
 /**
@@ -58,14 +155,15 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = (await request.json()) as CreateSessionRequest;
-    const { locale, metadata } = body;
+    const { locale, metadata, discountCode, deliverySlot } = body;
+    const funeral = parseFuneralDetails(body.funeral);
 
-    // Validate locale
-    if (!(locale && ["cs", "en"].includes(locale))) {
+    const requestError = getRequestError(body, funeral);
+    if (requestError) {
       return NextResponse.json(
         {
           success: false,
-          error: "Invalid locale. Must be 'cs' or 'en'",
+          error: requestError,
         },
         { status: 400 }
       );
@@ -105,9 +203,12 @@ export async function POST(request: NextRequest) {
       cartItems: cart.items,
       locale,
       metadata: {
-        ...metadata,
+        ...getClientMetadata(metadata),
         itemCount: cart.items.length.toString(),
       },
+      ...(discountCode && { discountCode }),
+      ...(deliverySlot && { deliverySlot }),
+      ...(funeral && { funeral }),
     });
 
     // Return client secret to client (Requirement 3.1)
@@ -117,6 +218,11 @@ export async function POST(request: NextRequest) {
       sessionId: session.sessionId,
     });
   } catch (error) {
+    const rejection = checkoutRejectionResponse(error);
+    if (rejection) {
+      return rejection;
+    }
+
     console.error("❌ Error creating checkout session:", error);
 
     // Return user-friendly error message
@@ -5,17 +5,66 @@
 
 import { type NextRequest, NextResponse } from "next/server";
 import { cacheDeliveryCalendar, getCachedDeliveryCalendar } from "@/lib/cache/delivery-cache";
-import {
-  CZECH_HOLIDAYS_2024,
-  CZECH_HOLIDAYS_2025,
-  generateAvailableDeliveryDates,
-} from "@/lib/utils/delivery-calculator";
+import { getCzechHolidaysInMonth } from "@/lib/delivery/holidays";
+import { normalizePostalCode } from "@/lib/delivery/zones";
+import { applyCapacityToAvailability } from "@/lib/services/delivery-capacity-service";
+import { getDeliverySettings } from "@/lib/services/delivery-closure-service";
+import { resolveDeliveryZone, toDeliveryZoneSummary } from "@/lib/services/delivery-zone-service";
+import { generateAvailableDeliveryDates } from "@/lib/utils/delivery-calculator";
 import type { ApiResponse } from "@/types";
-import type { DeliveryCalendarData, DeliveryCalendarResponse } from "@/types/delivery";
+import type {
+  DeliveryCalendarData,
+  DeliveryCalendarResponse,
+  DeliveryZone,
+} from "@/types/delivery";
+
+/**
+ * Available dates, holidays and closures of a month, for a delivery zone when given
+ */
+async function buildCalendarData(
+  month: number,
+  year: number,
+  deliveryZone: DeliveryZone | null
+): Promise<DeliveryCalendarData> {
+  const settings = await getDeliverySettings();
+
+  // Try to get from cache first (postal codes of one zone share the calendar)
+  let availableDates = await getCachedDeliveryCalendar(month, year, deliveryZone?.id);
+
+  if (!availableDates) {
+    // Generate available delivery dates if not cached
+    availableDates = generateAvailableDeliveryDates(
+      month,
+      year,
+      settings,
+      deliveryZone ?? undefined
+    );
+
+    // Cache the results
+    await cacheDeliveryCalendar(month, year, availableDates, deliveryZone?.id);
+  }
+
+  // Booked capacity changes with every checkout, so it is applied after the cache
+  availableDates = await applyCapacityToAvailability(availableDates);
+
+  // Public holidays and admin closures falling in the requested month
+  const monthHolidays = getCzechHolidaysInMonth(month, year).map((holiday) => holiday.date);
+  const monthBlackoutDates = (settings.closures || [])
+    .filter(({ date }) => date.getMonth() === month && date.getFullYear() === year)
+    .map(({ date }) => date);
+
+  return {
+    month,
+    year,
+    availableDates,
+    holidays: monthHolidays,
+    blackoutDates: monthBlackoutDates,
+  };
+}
 
 /**
  * GET /api/delivery/calendar
- * Get delivery calendar data for a specific month
+ * Get delivery calendar data for a specific month, for the zone covering postalCode when provided
  */
 export async function GET(request: NextRequest) {
   try {
@@ -59,41 +108,46 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Try to get from cache first
-    let availableDates = await getCachedDeliveryCalendar(month, year, postalCode);
-
-    if (!availableDates) {
-      // Generate available delivery dates if not cached
-      availableDates = generateAvailableDeliveryDates(month, year);
-
-      // Cache the results
-      await cacheDeliveryCalendar(month, year, availableDates, postalCode);
+    let deliveryZone: DeliveryZone | null = null;
+
+    if (postalCode) {
+      if (!normalizePostalCode(postalCode)) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: {
+              code: "INVALID_POSTAL_CODE",
+              message: "Postal code must be a valid Czech postal code (e.g. 110 00)",
+            },
+          } as ApiResponse,
+          { status: 400 }
+        );
+      }
+
+      deliveryZone = await resolveDeliveryZone(postalCode);
+
+      // Nothing to offer outside our delivery zones
+      if (!deliveryZone) {
+        const response: DeliveryCalendarResponse = {
+          success: true,
+          deliverable: false,
+          zone: null,
+        };
+        return NextResponse.json(response);
+      }
     }
 
-    // Get holidays for the year
-    const holidays = year === 2024 ? CZECH_HOLIDAYS_2024 : year === 2025 ? CZECH_HOLIDAYS_2025 : [];
-
-    // Filter holidays for the requested month
-    const monthHolidays = holidays
-      .filter((holiday) => holiday.date.getMonth() === month && holiday.date.getFullYear() === year)
-      .map((holiday) => holiday.date);
-
-    const calendarData: DeliveryCalendarData = {
-      month,
-      year,
-      availableDates,
-      holidays: monthHolidays,
-      blackoutDates: [], // Could be populated from database
-    };
+    const calendarData = await buildCalendarData(month, year, deliveryZone);
 
     const response: DeliveryCalendarResponse = {
       success: true,
+      ...(deliveryZone && { deliverable: true, zone: toDeliveryZoneSummary(deliveryZone) }),
       calendar: calendarData,
     };
 
-    // Set cache headers for performance
+    // Slot capacity is live, so the response must not be cached
     const headers = new Headers();
-    headers.set("Cache-Control", "public, max-age=3600"); // Cache for 1 hour
+    headers.set("Cache-Control", "no-store");
 
     return NextResponse.json(response, { headers });
   } catch (error) {
@@ -1,13 +1,24 @@
 /**
  * API routes for delivery cost estimation
- * Handles delivery cost calculation based on location and urgency
+ * Handles delivery cost calculation based on location and urgency, within the restrictions
+ * of a venue picked from the directory
  */
 
 import { type NextRequest, NextResponse } from "next/server";
+import { getDeliveryDateKey } from "@/lib/delivery/holidays";
+import { checkVenueDelivery, filterVenueDeliveryOptions } from "@/lib/delivery/venues";
+import { findDeliveryZone, normalizePostalCode } from "@/lib/delivery/zones";
+import { getDeliverySettings } from "@/lib/services/delivery-closure-service";
+import {
+  getDeliveryZones,
+  resolveDeliveryZone,
+  toDeliveryZoneSummary,
+} from "@/lib/services/delivery-zone-service";
+import { getVenue } from "@/lib/services/venue-service";
 import {
   calculateDeliveryCost,
   DEFAULT_DELIVERY_OPTIONS,
-  findDeliveryZone,
+  getZoneDeliveryOptions,
   validateDeliveryRequest,
 } from "@/lib/utils/delivery-calculator";
 import type { ApiResponse } from "@/types";
@@ -16,11 +27,58 @@ import type {
   DeliveryEstimateResponse,
   DeliveryTimeSlot,
   DeliveryUrgency,
+  DeliveryZone,
+  Venue,
 } from "@/types/delivery";
 
+const INVALID_POSTAL_CODE_RESPONSE = {
+  success: false,
+  error: {
+    code: "INVALID_POSTAL_CODE",
+    message: "Postal code must be a valid Czech postal code (e.g. 110 00)",
+  },
+} as ApiResponse;
+
+/**
+ * Zone delivering to the address; a venue's own zone wins over the zone covering its postal code
+ */
+async function resolveZone(postalCode: string, venue: Venue | null): Promise<DeliveryZone | null> {
+  if (!venue?.zoneId) {
+    return resolveDeliveryZone(postalCode);
+  }
+
+  const zones = await getDeliveryZones();
+  return zones.find((zone) => zone.id === venue.zoneId) ?? findDeliveryZone(zones, postalCode);
+}
+
+/**
+ * Zone delivery options narrowed to what the venue accepts
+ */
+function getAvailableOptions(zone: DeliveryZone, venue: Venue | null) {
+  const options = getZoneDeliveryOptions(zone);
+  return venue ? filterVenueDeliveryOptions(venue, options) : options;
+}
+
+/**
+ * Check the requested delivery against the venue; the preferred date is read on the Czech calendar
+ */
+function checkVenueRestrictions(
+  venue: Venue,
+  body: DeliveryEstimateRequest,
+  urgency: DeliveryUrgency,
+  preferredDate: Date | undefined
+) {
+  return checkVenueDelivery(venue, {
+    urgency,
+    ...(body.timeSlot && { timeSlot: body.timeSlot }),
+    ...(preferredDate &&
+      !Number.isNaN(preferredDate.getTime()) && { date: getDeliveryDateKey(preferredDate) }),
+  });
+}
+
 /**
  * POST /api/delivery/estimate
- * Calculate delivery cost estimate
+ * Calculate delivery cost estimate for the zone covering the address
  */
 export async function POST(request: NextRequest) {
   try {
@@ -53,14 +111,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!normalizePostalCode(body.address.postalCode)) {
+      return NextResponse.json(INVALID_POSTAL_CODE_RESPONSE, { status: 400 });
+    }
+
     const urgency: DeliveryUrgency = body.urgency || "standard";
-    const timeSlot: DeliveryTimeSlot = "anytime"; // Default time slot
+    const timeSlot: DeliveryTimeSlot = body.timeSlot || "anytime";
+    const preferredDate = body.preferredDate ? new Date(body.preferredDate) : undefined;
+
+    const venue = body.venueId ? await getVenue(body.venueId) : null;
+    if (body.venueId && !venue) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VENUE_NOT_FOUND",
+            message: "Venue not found",
+          },
+        } as ApiResponse,
+        { status: 404 }
+      );
+    }
+
+    // Find delivery zone
+    const deliveryZone = await resolveZone(body.address.postalCode, venue);
+
+    if (!deliveryZone) {
+      const response: DeliveryEstimateResponse = {
+        success: true,
+        deliverable: false,
+        zone: null,
+        availableOptions: [],
+      };
+      return NextResponse.json(response);
+    }
+
+    const settings = await getDeliverySettings();
 
     // Validate delivery request
     const validation = validateDeliveryRequest(
       body.address,
       urgency,
-      body.preferredDate ? new Date(body.preferredDate) : undefined
+      deliveryZone,
+      preferredDate,
+      settings
     );
 
     if (!validation.valid) {
@@ -77,21 +171,30 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Find delivery zone
-    const deliveryZone = findDeliveryZone(body.address.postalCode);
+    // Enforce the venue's opening hours and accepted time slots and urgencies
+    const restriction = venue && checkVenueRestrictions(venue, body, urgency, preferredDate);
+    if (restriction && !restriction.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: restriction.code,
+            message: restriction.reason,
+          },
+        } as ApiResponse,
+        { status: 400 }
+      );
+    }
 
     // Calculate delivery cost
-    const estimate = calculateDeliveryCost(body.address, urgency, timeSlot, deliveryZone);
-
-    // Get available delivery options for this zone
-    const availableOptions = DEFAULT_DELIVERY_OPTIONS.filter((option) =>
-      deliveryZone.supportedUrgencies.includes(option.urgency)
-    );
+    const estimate = calculateDeliveryCost(body.address, urgency, timeSlot, deliveryZone, settings);
 
     const response: DeliveryEstimateResponse = {
       success: true,
+      deliverable: true,
+      zone: toDeliveryZoneSummary(deliveryZone),
       estimate,
-      availableOptions,
+      availableOptions: getAvailableOptions(deliveryZone, venue),
     };
 
     // Set cache headers (short cache since prices might change)
@@ -116,27 +219,32 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/delivery/estimate
- * Get delivery options and zones information
+ * Get delivery options, for the zone covering postalCode when provided
  */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const postalCode = searchParams.get("postalCode");
 
-    let availableOptions = DEFAULT_DELIVERY_OPTIONS;
+    let response: DeliveryEstimateResponse = {
+      success: true,
+      availableOptions: DEFAULT_DELIVERY_OPTIONS,
+    };
 
-    // Filter options by postal code if provided
+    // Answer for the postal code's zone if provided
     if (postalCode) {
-      const deliveryZone = findDeliveryZone(postalCode);
-      availableOptions = DEFAULT_DELIVERY_OPTIONS.filter((option) =>
-        deliveryZone.supportedUrgencies.includes(option.urgency)
-      );
-    }
+      if (!normalizePostalCode(postalCode)) {
+        return NextResponse.json(INVALID_POSTAL_CODE_RESPONSE, { status: 400 });
+      }
 
-    const response: DeliveryEstimateResponse = {
-      success: true,
-      availableOptions,
-    };
+      const deliveryZone = await resolveDeliveryZone(postalCode);
+      response = {
+        success: true,
+        deliverable: !!deliveryZone,
+        zone: deliveryZone ? toDeliveryZoneSummary(deliveryZone) : null,
+        availableOptions: deliveryZone ? getZoneDeliveryOptions(deliveryZone) : [],
+      };
+    }
 
     // Set cache headers
     const headers = new Headers();
@@ -0,0 +1,94 @@
+/**
+ * Discount code validation API endpoint
+ * Validates a promo code against the current server-side cart
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { getServerCart } from "@/lib/services/cart-server-service";
+import { validateDiscountCode } from "@/lib/services/discount-service";
+import { rateLimit } from "@/lib/utils/rate-limit";
+
+interface ValidateDiscountRequest {
+  code?: string;
+  customerEmail?: string;
+}
+
+/**
+ * POST /api/discounts/validate
+ * Validate a promo code for the current cart
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await rateLimit(request, "discount-validation");
+
+    if (!rateLimitResult.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Too many requests. Please try again later.",
+          errorCode: "RATE_LIMITED",
+        },
+        { status: 429 }
+      );
+    }
+
+    const body = (await request.json()) as ValidateDiscountRequest;
+    const code = typeof body.code === "string" ? body.code.trim() : "";
+
+    if (!code || code.length > 64) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Invalid discount code",
+          errorCode: "NOT_FOUND",
+        },
+        { status: 400 }
+      );
+    }
+
+    const cart = await getServerCart();
+
+    if (!cart.items || cart.items.length === 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Cart is empty",
+          errorCode: "NOT_APPLICABLE",
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await validateDiscountCode(code, cart.items, {
+      customerEmail: body.customerEmail,
+    });
+
+    if (!result.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Discount code cannot be applied",
+          errorCode: result.errorCode,
+          subtotal: result.subtotal,
+        },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      discount: result.applied,
+      subtotal: result.subtotal,
+      total: Math.max(0, result.subtotal - result.discountAmount),
+    });
+  } catch (error) {
+    console.error("Error in POST /api/discounts/validate:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Failed to validate discount code",
+      },
+      { status: 500 }
+    );
+  }
+}
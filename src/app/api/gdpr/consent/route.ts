@@ -1,40 +1,48 @@
 /**
  * GDPR Consent Management API Route
- * Allows users to view and update their consent preferences
+ * Allows users and anonymous visitors to view and update their consent preferences
  */
 
+import { randomUUID } from "node:crypto";
 import { type NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth/config";
-import { checkUserConsent, logUserActivity, updateUserConsent } from "@/lib/security/gdpr";
-import { validateCSRFToken, validateRequestBody } from "@/lib/security/validation";
-
-// Removed unused ConsentUpdateBody interface
+import { CONSENT_POLICY_VERSION, isConsentSource } from "@/lib/gdpr/consent";
+import { validateCSRFMiddleware } from "@/lib/security/csrf";
+import { logUserActivity } from "@/lib/security/gdpr";
+import { validateRequestBody } from "@/lib/security/validation";
+import {
+  type ConsentSubject,
+  getConsentState,
+  recordConsent,
+} from "@/lib/services/consent-service";
+
+const CONSENT_SESSION_COOKIE = "consent-session";
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function getConsentSessionId(request: NextRequest): string | undefined {
+  const sessionId = request.cookies.get(CONSENT_SESSION_COOKIE)?.value;
+  return sessionId && UUID_PATTERN.test(sessionId) ? sessionId : undefined;
+}
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
-    // Verify authentication
     const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        {
-          error: {
-            code: "UNAUTHORIZED",
-            message: "Authentication required",
-            timestamp: new Date().toISOString(),
-          },
-        },
-        { status: 401 }
-      );
-    }
+    const sessionId = getConsentSessionId(request);
 
-    const userId = session.user.id;
+    const subject: ConsentSubject = {
+      ...(session?.user?.id && { userId: session.user.id }),
+      ...(sessionId && { sessionId }),
+    };
 
     // Get current consent settings
-    const consent = await checkUserConsent(userId);
+    const state = await getConsentState(subject);
 
     return NextResponse.json({
       success: true,
-      consent,
+      consent: state.preferences,
+      needsConsent: state.needsConsent,
+      policyVersion: CONSENT_POLICY_VERSION,
+      lastUpdated: state.lastUpdated,
     });
   } catch (error) {
     console.error("Error fetching consent:", error);
@@ -54,23 +62,8 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    // Verify authentication
-    const session = await auth();
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        {
-          error: {
-            code: "UNAUTHORIZED",
-            message: "Authentication required",
-            timestamp: new Date().toISOString(),
-          },
-        },
-        { status: 401 }
-      );
-    }
-
     // Validate CSRF token
-    const isValidCSRF = await validateCSRFToken(request);
+    const isValidCSRF = await validateCSRFMiddleware(request);
     if (!isValidCSRF) {
       return NextResponse.json(
         {
@@ -112,6 +105,14 @@ export async function POST(request: NextRequest) {
         });
       }
 
+      if (body.source !== undefined && !isConsentSource(body.source)) {
+        errors.push({
+          field: "source",
+          message: "Source must be one of banner, preferences, account, api",
+          code: "INVALID_VALUE",
+        });
+      }
+
       if (errors.length > 0) {
         return { isValid: false, errors };
       }
@@ -122,6 +123,7 @@ export async function POST(request: NextRequest) {
           marketing: body.marketing,
           analytics: body.analytics,
           functional: body.functional,
+          source: body.source ?? "api",
         },
         errors: [],
       };
@@ -141,9 +143,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const userId = session.user.id;
-    const clientIP =
-      request.headers.get("x-forwarded-for") ?? request.headers.get("x-real-ip") ?? "unknown";
     const consentData = bodyValidation.data;
 
     if (!consentData) {
@@ -159,31 +158,49 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update consent preferences
-    const success = await updateUserConsent(userId, consentData);
+    const session = await auth();
+    const userId = session?.user?.id;
+    const existingSessionId = getConsentSessionId(request);
+    // Anonymous visitors get a consent session so their decision can be found again
+    const sessionId = existingSessionId ?? (userId ? undefined : randomUUID());
+    const clientIP =
+      request.headers.get("x-forwarded-for") ?? request.headers.get("x-real-ip") ?? "unknown";
+    const { source, ...preferences } = consentData;
 
-    if (!success) {
-      return NextResponse.json(
-        {
-          error: {
-            code: "UPDATE_FAILED",
-            message: "Failed to update consent preferences",
-            timestamp: new Date().toISOString(),
-          },
-        },
-        { status: 500 }
-      );
-    }
+    // Append the changed decisions to the consent ledger
+    const state = await recordConsent(
+      {
+        ...(userId && { userId }),
+        ...(sessionId && { sessionId }),
+      },
+      preferences,
+      { source, ipAddress: clientIP }
+    );
 
     // Log the consent update
-    await logUserActivity(userId, "consent_preferences_updated", consentData, clientIP);
+    if (userId) {
+      await logUserActivity(userId, "consent_preferences_updated", preferences, clientIP);
+    }
 
-    return NextResponse.json({
+    const response = NextResponse.json({
       success: true,
       message: "Consent preferences updated successfully",
-      consent: consentData,
-      updatedAt: new Date().toISOString(),
+      consent: state.preferences,
+      needsConsent: state.needsConsent,
+      policyVersion: CONSENT_POLICY_VERSION,
+      updatedAt: state.lastUpdated,
     });
+
+    if (sessionId && !existingSessionId) {
+      response.cookies.set(CONSENT_SESSION_COOKIE, sessionId, {
+        httpOnly: true,
+        secure: process.env["NODE_ENV"] === "production",
+        sameSite: "lax",
+        maxAge: 60 * 60 * 24 * 365, // 1 year
+      });
+    }
+
+    return response;
   } catch (error) {
     console.error("Error updating consent:", error);
 
@@ -0,0 +1,66 @@
+/**
+ * GDPR Deletion Confirmation API Route
+ * Confirms a deletion request with the token from the confirmation email and starts the grace
+ * period. The token is the proof of the request, so no session is required.
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { ErasureError } from "@/lib/gdpr/erasure";
+import { confirmErasure } from "@/lib/services/gdpr-erasure-service";
+
+const ERASURE_ERROR_STATUS: Partial<Record<ErasureError["code"], number>> = {
+  INVALID_TOKEN: 400,
+  TOKEN_EXPIRED: 410,
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json().catch(() => ({}))) as { token?: unknown };
+
+    if (typeof body.token !== "string" || body.token.length === 0) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_TOKEN",
+            message: "Confirmation token is required",
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const erasureRequest = await confirmErasure(body.token);
+
+    return NextResponse.json({
+      success: true,
+      scheduledFor: erasureRequest.scheduledFor,
+    });
+  } catch (error) {
+    if (error instanceof ErasureError) {
+      return NextResponse.json(
+        {
+          error: {
+            code: error.code,
+            message: error.message,
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: ERASURE_ERROR_STATUS[error.code] ?? 400 }
+      );
+    }
+
+    console.error("GDPR deletion confirmation error:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to confirm the deletion request",
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,47 @@
 /**
  * GDPR Data Deletion API Route
  * Allows users to request deletion of all their personal data
+ * Requests are confirmed by email and carried out by the erasure worker after a grace period,
+ * during which the user can cancel them.
  */
 
 import { type NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth/config";
-import { deleteUserData, logUserActivity } from "@/lib/security/gdpr";
+import { ErasureError } from "@/lib/gdpr/erasure";
+import { validateCSRFMiddleware } from "@/lib/security/csrf";
+import { logUserActivity } from "@/lib/security/gdpr";
 import {
   type ValidationResult,
-  validateCSRFToken,
   validateRequestBody,
   validateRequiredString,
 } from "@/lib/security/validation";
+import {
+  cancelErasure,
+  getActiveErasureRequest,
+  requestErasure,
+} from "@/lib/services/gdpr-erasure-service";
+
+const ERASURE_ERROR_STATUS: Record<ErasureError["code"], number> = {
+  REQUEST_EXISTS: 409,
+  NOT_FOUND: 404,
+  INVALID_TOKEN: 400,
+  TOKEN_EXPIRED: 410,
+  NOT_CANCELLABLE: 409,
+  NOT_REVIEWABLE: 409,
+};
+
+function erasureErrorResponse(error: ErasureError) {
+  return NextResponse.json(
+    {
+      error: {
+        code: error.code,
+        message: error.message,
+        timestamp: new Date().toISOString(),
+      },
+    },
+    { status: ERASURE_ERROR_STATUS[error.code] }
+  );
+}
 
 interface DeleteRequestBody {
   confirmation: string;
@@ -36,7 +66,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate CSRF token
-    const isValidCSRF = await validateCSRFToken(request);
+    const isValidCSRF = await validateCSRFMiddleware(request);
     if (!isValidCSRF) {
       return NextResponse.json(
         {
@@ -123,50 +153,71 @@ export async function POST(request: NextRequest) {
     // Log the deletion request
     await logUserActivity(userId, "gdpr_data_deletion_requested", { reason }, clientIP);
 
-    // Delete user data
-    const deletionResult = await deleteUserData(userId);
+    // Queue the erasure; it runs once confirmed by email and the grace period is over
+    const erasureRequest = await requestErasure(userId, {
+      ...(reason && { reason }),
+      ipAddress: clientIP,
+      locale: request.nextUrl.searchParams.get("locale") === "en" ? "en" : "cs",
+    });
 
-    if (!deletionResult.success) {
-      // Log failed deletion
-      await logUserActivity(
-        userId,
-        "gdpr_data_deletion_failed",
-        {
-          errors: deletionResult.errors,
+    return NextResponse.json({
+      success: true,
+      message: "Confirm the deletion request using the link sent to your email",
+      request: erasureRequest,
+    });
+  } catch (error) {
+    if (error instanceof ErasureError) {
+      return erasureErrorResponse(error);
+    }
+
+    console.error("GDPR deletion error:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "An unexpected error occurred during data deletion",
+          timestamp: new Date().toISOString(),
         },
-        clientIP
-      );
+      },
+      { status: 500 }
+    );
+  }
+}
 
+/**
+ * Get the user's open deletion request
+ */
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
       return NextResponse.json(
         {
           error: {
-            code: "DELETION_FAILED",
-            message: "Failed to delete user data",
-            details: deletionResult.errors,
+            code: "UNAUTHORIZED",
+            message: "Authentication required",
             timestamp: new Date().toISOString(),
           },
         },
-        { status: 500 }
+        { status: 401 }
       );
     }
 
-    // Note: We can't log successful deletion since the user will be deleted
-    // The deletion result will be returned to confirm the operation
+    const erasureRequest = await getActiveErasureRequest(session.user.id);
 
     return NextResponse.json({
       success: true,
-      message: "Your data has been successfully deleted",
-      deletedRecords: deletionResult.deletedRecords,
-      deletedAt: new Date().toISOString(),
+      request: erasureRequest,
     });
   } catch (error) {
-    console.error("GDPR deletion error:", error);
+    console.error("GDPR deletion status error:", error);
 
     return NextResponse.json(
       {
         error: {
           code: "INTERNAL_ERROR",
-          message: "An unexpected error occurred during data deletion",
+          message: "Failed to load the deletion request",
           timestamp: new Date().toISOString(),
         },
       },
@@ -175,16 +226,70 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Only allow POST requests
-export async function GET() {
-  return NextResponse.json(
-    {
-      error: {
-        code: "METHOD_NOT_ALLOWED",
-        message: "Only POST requests are allowed",
-        timestamp: new Date().toISOString(),
+/**
+ * Cancel the user's deletion request during the grace period
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "UNAUTHORIZED",
+            message: "Authentication required",
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    const isValidCSRF = await validateCSRFMiddleware(request);
+    if (!isValidCSRF) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_CSRF_TOKEN",
+            message: "Invalid CSRF token",
+            timestamp: new Date().toISOString(),
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    const clientIP =
+      request.headers.get("x-forwarded-for") ?? request.headers.get("x-real-ip") ?? "unknown";
+    const erasureRequest = await cancelErasure(session.user.id);
+
+    await logUserActivity(
+      session.user.id,
+      "gdpr_data_deletion_cancelled",
+      { requestId: erasureRequest.id },
+      clientIP
+    );
+
+    return NextResponse.json({
+      success: true,
+      request: erasureRequest,
+    });
+  } catch (error) {
+    if (error instanceof ErasureError) {
+      return erasureErrorResponse(error);
+    }
+
+    console.error("GDPR deletion cancel error:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to cancel the deletion request",
+          timestamp: new Date().toISOString(),
+        },
       },
-    },
-    { status: 405 }
-  );
+      { status: 500 }
+    );
+  }
 }
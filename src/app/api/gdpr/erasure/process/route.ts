@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { processDueErasures } from "@/lib/services/gdpr-erasure-service";
+
+/**
+ * GDPR erasure worker endpoint
+ * Runs via cron job every hour; erases the data of confirmed requests whose grace period is over
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify this is a cron job request
+    const authHeader = request.headers.get("authorization");
+    if (authHeader !== `Bearer ${process.env["CRON_SECRET"]}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const results = await processDueErasures();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      results,
+    });
+  } catch (error) {
+    console.error("GDPR erasure processing failed:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
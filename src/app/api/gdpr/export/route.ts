@@ -1,12 +1,14 @@
 /**
  * GDPR Data Export API Route
- * Allows users to export all their personal data
+ * Allows users to export all their personal data as a ZIP archive
  */
 
 import { type NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth/config";
-import { exportUserData, logUserActivity } from "@/lib/security/gdpr";
-import { validateCSRFToken } from "@/lib/security/validation";
+import { buildExportArchiveFiles } from "@/lib/gdpr/export-archive";
+import { validateCSRFMiddleware } from "@/lib/security/csrf";
+import { completeGDPRRequest, exportUserData, recordGDPRRequest } from "@/lib/security/gdpr";
+import { createZipArchive } from "@/lib/utils/zip";
 
 export async function POST(request: NextRequest) {
   try {
@@ -26,7 +28,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate CSRF token
-    const isValidCSRF = await validateCSRFToken(request);
+    const isValidCSRF = await validateCSRFMiddleware(request);
     if (!isValidCSRF) {
       return NextResponse.json(
         {
@@ -44,13 +46,14 @@ export async function POST(request: NextRequest) {
     const clientIP =
       request.headers.get("x-forwarded-for") ?? request.headers.get("x-real-ip") ?? "unknown";
 
-    // Log the data export request
-    await logUserActivity(userId, "gdpr_data_export_requested", {}, clientIP);
+    // Record the data export request
+    const requestId = await recordGDPRRequest(userId, "export", clientIP);
 
     // Export user data
     const exportData = await exportUserData(userId);
 
     if (!exportData) {
+      await completeGDPRRequest(requestId, "failed", { reason: "export_failed" });
       return NextResponse.json(
         {
           error: {
@@ -63,27 +66,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Log successful export
-    await logUserActivity(
-      userId,
-      "gdpr_data_export_completed",
-      {
-        recordsExported: {
-          orders: exportData.orders.length,
-          cartItems: exportData.cartItems.length,
-          addresses: exportData.addresses.length,
-          activityLog: exportData.activityLog.length,
-        },
-      },
-      clientIP
+    const exportedAt = new Date().toISOString();
+    const archive = createZipArchive(
+      buildExportArchiveFiles(exportData, {
+        exportedAt,
+        locale: request.nextUrl.searchParams.get("locale") === "en" ? "en" : "cs",
+      })
     );
 
-    // Return the export data
-    return NextResponse.json({
-      success: true,
-      data: exportData,
-      exportedAt: new Date().toISOString(),
-      message: "Data export completed successfully",
+    // Record the completed export
+    await completeGDPRRequest(requestId, "completed", {
+      recordsExported: {
+        orders: exportData.orders.length,
+        orderStatusHistory: exportData.orderStatusHistory.length,
+        smsNotifications: exportData.smsNotifications.length,
+        cartItems: exportData.cartItems.length,
+        addresses: exportData.addresses.length,
+        contactForms: exportData.contactForms.length,
+        paymentErrors: exportData.paymentErrors.length,
+        discountRedemptions: exportData.discountRedemptions.length,
+        consentHistory: exportData.consentHistory.length,
+        activityLog: exportData.activityLog.length,
+      },
+      archiveBytes: archive.length,
+    });
+
+    // Return the export archive
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="personal-data-export-${exportedAt.split("T")[0]}.zip"`,
+        "Cache-Control": "no-store",
+      },
     });
   } catch (error) {
     console.error("GDPR export error:", error);
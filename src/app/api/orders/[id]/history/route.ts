@@ -1,4 +1,5 @@
 import { type NextRequest, NextResponse } from "next/server";
+import { getOrderStatusHistory } from "@/lib/services/order-service";
 import { createServerClient } from "@/lib/supabase/server";
 import { orderUtils } from "@/lib/supabase/utils";
 import type { OrderStatus } from "@/types/order";
@@ -37,69 +38,19 @@ export async function GET(_: NextRequest, { params }: { params: Promise<{ id: st
       );
     }
 
-    // Generate status history based on order timestamps
-    const statusHistory: StatusHistoryItem[] = [];
-
-    // Always add created status
-    statusHistory.push({
-      status: "pending",
-      timestamp: order.created_at || new Date().toISOString(),
-      description: "Objednávka byla vytvořena a čeká na zpracování",
-    });
-
-    // Generate status history based on current status
-    if (order.status !== "pending") {
-      statusHistory.push({
-        status: "confirmed",
-        timestamp: order.updated_at || order.created_at || new Date().toISOString(),
-        description: "Objednávka byla potvrzena a přijata ke zpracování",
-      });
-    }
-
-    // Add processing status if current status is processing or later
-    if (order.status && ["processing", "ready", "shipped", "delivered"].includes(order.status)) {
-      statusHistory.push({
-        status: "processing",
-        timestamp: order.updated_at || order.created_at || new Date().toISOString(),
-        description: "Objednávka se zpracovává a připravuje k odeslání",
-      });
-    }
-
-    // Add shipped status if current status is shipped or delivered
-    if (order.status && ["shipped", "delivered"].includes(order.status)) {
-      statusHistory.push({
-        status: "shipped",
-        timestamp: order.updated_at || order.created_at || new Date().toISOString(),
-        description: "Objednávka byla odeslána a je na cestě",
-      });
-    }
-
-    // Add delivered status if current status is delivered
-    if (order.status === "delivered") {
-      statusHistory.push({
-        status: "delivered",
-        timestamp: order.updated_at || order.created_at || new Date().toISOString(),
-        description: "Objednávka byla úspěšně doručena",
-      });
-    }
-
-    // Add cancelled status if current status is cancelled
-    if (order.status === "cancelled") {
-      statusHistory.push({
-        status: "cancelled",
-        timestamp: order.updated_at || order.created_at || new Date().toISOString(),
-        description: "Objednávka byla zrušena",
-      });
-    }
-
-    // Sort by timestamp
-    statusHistory.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    // Read the persisted status timeline recorded by the order lifecycle
+    const statusHistory: StatusHistoryItem[] = (await getOrderStatusHistory(order)).map(
+      (entry) => ({
+        status: entry.status,
+        timestamp: entry.timestamp,
+        description: entry.description,
+      })
+    );
 
     // Prepare order summary
-    const customerInfo = order.customer_info as any;
     const orderSummary = {
       id: order.id,
-      orderNumber: customerInfo.orderNumber || order.id.slice(-8).toUpperCase(),
+      orderNumber: order.order_number,
       status: order.status as OrderStatus,
       totalAmount: order.total_amount,
       createdAt: order.created_at,
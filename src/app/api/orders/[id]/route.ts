@@ -1,5 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server";
-import { sendOrderStatusUpdateEmail } from "@/lib/email/service";
+import { parseFuneralDetails } from "@/lib/delivery/funeral";
+import { isOrderStatus, OrderStatusTransitionError } from "@/lib/orders/lifecycle";
+import { updateOrderStatus } from "@/lib/services/order-service";
 import { createServerClient } from "@/lib/supabase/server";
 import { orderUtils } from "@/lib/supabase/utils";
 import type { Order, OrderStatus } from "@/types/order";
@@ -35,6 +37,7 @@ export async function GET(_: NextRequest, { params }: { params: Promise<{ id: st
     // Convert database row to Order type
     const customerInfo = order.customer_info as any;
     const deliveryInfo = order.delivery_info as any;
+    const funeral = parseFuneralDetails(deliveryInfo.funeral);
     const paymentInfo = order.payment_info as any;
     const itemsData = order.items as any;
 
@@ -44,7 +47,7 @@ export async function GET(_: NextRequest, { params }: { params: Promise<{ id: st
 
     const orderResponse: Order = {
       id: order.id,
-      orderNumber: customerInfo.orderNumber || order.id.slice(-8).toUpperCase(),
+      orderNumber: order.order_number,
       userId: order.user_id || "",
       sessionId: customerInfo.sessionId || undefined,
       items: itemsData.items || [],
@@ -71,6 +74,7 @@ export async function GET(_: NextRequest, { params }: { params: Promise<{ id: st
         specialInstructions: deliveryInfo.specialInstructions,
         recipientName: deliveryInfo.recipientName,
         recipientPhone: deliveryInfo.recipientPhone,
+        ...(funeral && { funeral }),
       },
       paymentInfo: {
         method: paymentInfo.method,
@@ -145,16 +149,7 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
     }
 
     // Validate status
-    const validStatuses: OrderStatus[] = [
-      "pending",
-      "confirmed",
-      "processing",
-      "shipped",
-      "delivered",
-      "cancelled",
-    ];
-
-    if (!validStatuses.includes(status)) {
+    if (!isOrderStatus(status)) {
       return NextResponse.json(
         {
           success: false,
@@ -177,14 +172,15 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       );
     }
 
-    // Update order status
-    const { data: updatedOrder, error: updateError } = await orderUtils.updateOrderStatus(
+    // Update order status through the order lifecycle
+    const { data: updatedOrder, error: updateError } = await updateOrderStatus(
       orderId,
       status,
-      internalNotes
+      internalNotes,
+      { changedBy: user.id, source: "admin" }
     );
 
-    if (updateError) {
+    if (updateError || !updatedOrder) {
       console.error("Error updating order status:", updateError);
       return NextResponse.json(
         {
@@ -195,77 +191,7 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       );
     }
 
-    // Send email notification if status changed
-    if (currentOrder.status !== status) {
-      try {
-        // Convert database row to Order type for email
-        const customerInfo = updatedOrder.customer_info as any;
-        const deliveryInfo = updatedOrder.delivery_info as any;
-        const paymentInfo = updatedOrder.payment_info as any;
-        const itemsData = updatedOrder.items as any;
-
-        // Build order for email with delivery method
-        const emailDeliveryMethod = (updatedOrder as any).delivery_method as
-          | "delivery"
-          | "pickup"
-          | null;
-        const emailPickupLocation = (updatedOrder as any).pickup_location as string | null;
-
-        const orderForEmail: Order = {
-          id: updatedOrder.id,
-          orderNumber: customerInfo.orderNumber || updatedOrder.id.slice(-8).toUpperCase(),
-          userId: updatedOrder.user_id || "",
-          sessionId: customerInfo.sessionId,
-          items: itemsData.items || [],
-          itemCount: itemsData.itemCount || 0,
-          subtotal: itemsData.subtotal || 0,
-          deliveryCost: deliveryInfo.deliveryCost || 0,
-          totalAmount: updatedOrder.total_amount,
-          customerInfo: {
-            firstName: customerInfo.firstName,
-            lastName: customerInfo.lastName,
-            email: customerInfo.email,
-            phone: customerInfo.phone,
-            name: `${customerInfo.firstName} ${customerInfo.lastName}`,
-            company: customerInfo.company,
-            note: customerInfo.note,
-          },
-          deliveryInfo: {
-            address: deliveryInfo.address,
-            urgency: deliveryInfo.urgency,
-            preferredDate: deliveryInfo.preferredDate
-              ? new Date(deliveryInfo.preferredDate)
-              : new Date(),
-            preferredTimeSlot: deliveryInfo.preferredTimeSlot,
-            specialInstructions: deliveryInfo.specialInstructions,
-            recipientName: deliveryInfo.recipientName,
-            recipientPhone: deliveryInfo.recipientPhone,
-          },
-          paymentInfo: {
-            method: paymentInfo.method,
-            amount: paymentInfo.amount,
-            currency: paymentInfo.currency,
-            status: paymentInfo.status,
-            transactionId: paymentInfo.transactionId,
-            processedAt: paymentInfo.processedAt ? new Date(paymentInfo.processedAt) : undefined,
-            failureReason: paymentInfo.failureReason,
-          },
-          ...(emailDeliveryMethod && { deliveryMethod: emailDeliveryMethod }),
-          ...(emailPickupLocation && { pickupLocation: emailPickupLocation }),
-          status: updatedOrder.status as OrderStatus,
-          notes: updatedOrder.notes || "",
-          internalNotes: updatedOrder.notes || "",
-          createdAt: new Date(updatedOrder.created_at || new Date().toISOString()),
-          updatedAt: new Date(updatedOrder.updated_at || new Date().toISOString()),
-        };
-
-        // Send status update email
-        await sendOrderStatusUpdateEmail(orderForEmail, status, "cs");
-      } catch (emailError) {
-        console.error("Error sending status update email:", emailError);
-        // Don't fail the request if email fails
-      }
-    }
+    // The customer email is queued by the order status side effects
 
     return NextResponse.json({
       success: true,
@@ -273,6 +199,17 @@ export async function PATCH(request: NextRequest, { params }: { params: Promise<
       message: "Stav objednávky byl úspěšně aktualizován",
     });
   } catch (error) {
+    if (error instanceof OrderStatusTransitionError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          code: error.code,
+        },
+        { status: 409 }
+      );
+    }
+
     console.error("Error in PATCH /api/orders/[id]:", error);
     return NextResponse.json(
       {
@@ -1,4 +1,5 @@
 import { type NextRequest, NextResponse } from "next/server";
+import { updateOrderStatus } from "@/lib/services/order-service";
 import { createClient } from "@/lib/supabase/server";
 
 /**
@@ -34,14 +35,13 @@ export async function POST(request: NextRequest) {
 
     for (const order of abandonedOrders || []) {
       try {
-        // Update order status to abandoned
-        const { error: updateError } = await supabase
-          .from("orders")
-          .update({
-            status: "abandoned",
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", order.id);
+        // Cancel the abandoned order through the order lifecycle
+        const { error: updateError } = await updateOrderStatus(
+          order.id,
+          "cancelled",
+          "Abandoned - payment not completed within 2 hours",
+          { source: "system" }
+        );
 
         if (updateError) {
           console.error(`Failed to update order ${order.id}:`, updateError);
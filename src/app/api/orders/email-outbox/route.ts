@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { processEmailOutbox } from "@/lib/services/email-outbox-service";
+import { processSmsOutbox } from "@/lib/services/sms-outbox-service";
+
+/**
+ * Notification outbox delivery endpoint
+ * Runs via cron job every few minutes; retries order emails and SMS that failed or were queued
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Verify this is a cron job request
+    const authHeader = request.headers.get("authorization");
+    if (authHeader !== `Bearer ${process.env["CRON_SECRET"]}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const results = await processEmailOutbox();
+    const smsResults = await processSmsOutbox();
+
+    return NextResponse.json({
+      success: true,
+      timestamp: new Date().toISOString(),
+      results,
+      smsResults,
+    });
+  } catch (error) {
+    console.error("Email outbox processing failed:", error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,15 @@
 import { type NextRequest, NextResponse } from "next/server";
+import { checkFuneralDeliveryTiming, parseFuneralDetails } from "@/lib/delivery/funeral";
+import { getDeliveryDateKey } from "@/lib/delivery/holidays";
+import {
+  calculateOrderSubtotal,
+  detectPriceChanges,
+  OrderPricingError,
+  toRepricedCartItems,
+} from "@/lib/orders/repricing";
+import { repriceOrderItems } from "@/lib/services/cart-price-service";
+import { redeemDiscountCode, validateDiscountCode } from "@/lib/services/discount-service";
+import { createOrder, updateOrderStatus } from "@/lib/services/order-service";
 import { createServerClient } from "@/lib/supabase/server";
 import type { CartItem } from "@/types/cart";
 import type {
@@ -48,29 +59,106 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Funeral service: the delivery has to arrive before the ceremony starts
+    const funeral = parseFuneralDetails(body.deliveryInfo.funeral);
+    if (body.deliveryInfo.funeral && !funeral) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Neplatné údaje o smutečním obřadu",
+        },
+        { status: 400 }
+      );
+    }
+
+    if (funeral) {
+      const preferredDate = body.deliveryInfo.preferredDate
+        ? new Date(body.deliveryInfo.preferredDate)
+        : null;
+      const timing = checkFuneralDeliveryTiming(
+        funeral.ceremonyStart,
+        preferredDate && !Number.isNaN(preferredDate.getTime())
+          ? {
+              date: getDeliveryDateKey(preferredDate),
+              ...(body.deliveryInfo.preferredTimeSlot && {
+                timeSlot: body.deliveryInfo.preferredTimeSlot,
+              }),
+            }
+          : null
+      );
+
+      if (!timing.allowed) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: timing.reason,
+            errorCode: timing.code,
+          },
+          { status: 422 }
+        );
+      }
+    }
+
+    // Reprice on the server; the submitted prices are only used to detect changes
+    const repricedItems = await repriceOrderItems(body.items);
+    const priceChanges = detectPriceChanges(repricedItems);
+
+    if (priceChanges.length > 0) {
+      const response: CreateOrderResponse = {
+        success: false,
+        error: "Ceny některých položek se změnily. Zkontrolujte prosím objednávku.",
+        errorCode: "PRICES_CHANGED",
+        priceChanges,
+      };
+      return NextResponse.json(response, { status: 409 });
+    }
+
+    const items = toRepricedCartItems(repricedItems);
+
     // Get current user (if authenticated)
     const {
       data: { user },
     } = await supabase.auth.getUser();
 
-    // Generate order number
-    const orderNumber = generateOrderNumber();
-
     // Calculate totals
-    const subtotal = body.items.reduce((sum, item) => sum + (item.totalPrice || 0), 0);
+    const subtotal = calculateOrderSubtotal(repricedItems);
 
     // Calculate delivery cost
     const deliveryCost = await calculateDeliveryCost(
       body.deliveryInfo.address,
       body.deliveryInfo.urgency,
-      body.items
+      items
     );
 
-    const totalAmount = subtotal + deliveryCost;
-    const itemCount = body.items.reduce((sum, item) => sum + item.quantity, 0);
+    // Apply promo code (re-validated server-side)
+    let discountAmount = 0;
+    let discountCode: string | null = null;
+
+    if (body.discountCode) {
+      const discount = await validateDiscountCode(body.discountCode, items, {
+        customerEmail: body.customerInfo.email,
+      });
+
+      if (!discount.valid) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Slevový kód nelze uplatnit",
+            errorCode: discount.errorCode,
+          },
+          { status: 422 }
+        );
+      }
+
+      discountAmount = discount.discountAmount;
+      discountCode = discount.code;
+    }
+
+    const totalAmount = Math.max(0, subtotal - discountAmount) + deliveryCost;
+    const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
 
     // Convert cart items to order items
-    const orderItems: OrderItem[] = body.items.map((item: CartItem) => {
+    const orderItems: OrderItem[] = repricedItems.map(({ item, ...line }) => {
       // Import customization utilities
       const {
         transferCustomizationsToOrder,
@@ -111,27 +199,27 @@ export async function POST(request: NextRequest) {
       return {
         id: crypto.randomUUID(),
         productId: item.productId,
-        productName: item.product?.name?.cs || "Unknown Product",
-        productSlug: item.product?.slug || "",
+        productName: line.productName,
+        productSlug: line.productSlug,
         quantity: item.quantity,
-        unitPrice: item.unitPrice || 0,
-        totalPrice: item.totalPrice || 0,
+        unitPrice: line.unitPrice,
+        totalPrice: line.totalPrice,
         customizations: processedCustomizations,
         productSnapshot: item.product, // Store product snapshot at time of order
       };
     });
 
     // Create order data matching the database schema
+    // order_number is assigned by the database on insert
     const orderData = {
-      order_number: orderNumber,
       user_id: user?.id || null,
       customer_info: {
         ...body.customerInfo,
-        orderNumber, // Include order number in customer info
         sessionId: user ? null : getSessionId(request),
       } as any,
       delivery_info: {
         ...body.deliveryInfo,
+        ...(funeral && { funeral }),
         deliveryCost,
         estimatedDeliveryDate: body.deliveryInfo.preferredDate,
       } as any,
@@ -151,17 +239,18 @@ export async function POST(request: NextRequest) {
       subtotal,
       status: "pending",
       total_amount: totalAmount,
+      discount_code: discountCode,
+      discount_amount: discountAmount,
       notes: body.customerInfo.note || null,
     };
 
-    // Insert order into database
-    const { data: order, error } = await supabase
-      .from("orders")
-      .insert(orderData)
-      .select()
-      .single();
+    // Insert order into database (records the initial status history entry)
+    const { data: order, error } = await createOrder(orderData, {
+      changedBy: user?.id,
+      source: "customer",
+    });
 
-    if (error) {
+    if (error || !order) {
       console.error("Error creating order:", error);
       return NextResponse.json(
         {
@@ -172,6 +261,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (discountCode) {
+      const redeemed = await redeemDiscountCode({
+        code: discountCode,
+        orderId: order.id,
+        customerEmail: body.customerInfo.email,
+        discountAmount,
+      });
+
+      // The code ran out of uses since it was validated; the order must not keep the discount
+      if (!redeemed) {
+        await updateOrderStatus(order.id, "cancelled", "Slevový kód byl mezitím vyčerpán", {
+          changedBy: user?.id,
+          source: "system",
+        });
+
+        return NextResponse.json(
+          {
+            success: false,
+            error: "Slevový kód nelze uplatnit",
+            errorCode: "USAGE_LIMIT_REACHED",
+          },
+          { status: 422 }
+        );
+      }
+    }
+
     // Generate payment URL for Stripe
     let paymentUrl: string | undefined;
 
@@ -187,7 +302,7 @@ export async function POST(request: NextRequest) {
 
     const createdOrder: Order = {
       id: order.id,
-      orderNumber: customerInfo.orderNumber || orderNumber,
+      orderNumber: order.order_number,
       userId: order.user_id || "",
       sessionId: customerInfo.sessionId,
       items: itemsData.items || [],
@@ -195,6 +310,10 @@ export async function POST(request: NextRequest) {
       subtotal: itemsData.subtotal || 0,
       deliveryCost: deliveryInfo.deliveryCost || 0,
       totalAmount: order.total_amount,
+      ...(order.discount_code && {
+        discountCode: order.discount_code,
+        discountAmount: Number(order.discount_amount),
+      }),
       customerInfo: {
         firstName: customerInfo.firstName,
         lastName: customerInfo.lastName,
@@ -214,6 +333,7 @@ export async function POST(request: NextRequest) {
         specialInstructions: deliveryInfo.specialInstructions,
         recipientName: deliveryInfo.recipientName,
         recipientPhone: deliveryInfo.recipientPhone,
+        ...(funeral && { funeral }),
       },
       paymentInfo: {
         method: paymentInfo.method,
@@ -313,6 +433,17 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(response);
   } catch (error) {
+    if (error instanceof OrderPricingError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          errorCode: error.code,
+        },
+        { status: 422 }
+      );
+    }
+
     console.error("Error in POST /api/orders:", error);
     return NextResponse.json(
       {
@@ -379,12 +510,6 @@ export async function GET() {
 
 // Helper functions
 
-function generateOrderNumber(): string {
-  const timestamp = Date.now().toString();
-  const random = Math.random().toString(36).substring(2, 8).toUpperCase();
-  return `WR${timestamp.slice(-6)}${random}`;
-}
-
 function getSessionId(request: NextRequest): string {
   // Get session ID from cookies or generate new one
   const sessionId = request.cookies.get("session_id")?.value;
@@ -6,9 +6,22 @@ import { headers } from "next/headers";
 import { type NextRequest, NextResponse } from "next/server";
 import type Stripe from "stripe";
 import { getRequiredEnvVar } from "@/lib/config/env-validation";
-import { createOrder } from "@/lib/services/order-service";
-// import { PaymentService } from "@/lib/payments";
+import { parseFuneralDetails } from "@/lib/delivery/funeral";
+import { OrderStatusTransitionError } from "@/lib/orders/lifecycle";
+import { PaymentService } from "@/lib/payments";
+import { confirmDeliverySlot, releaseDeliverySlot } from "@/lib/services/delivery-capacity-service";
+import { redeemDiscountCode } from "@/lib/services/discount-service";
+import { enqueueOrderEmail } from "@/lib/services/email-outbox-service";
+import { syncRecipeChoiceAvailability } from "@/lib/services/material-service";
+import { notifyOrderStatus } from "@/lib/services/order-notification-service";
+import { createOrder, updateOrderStatus } from "@/lib/services/order-service";
+import { recordPaymentDispute, syncOrderRefunds } from "@/lib/services/refund-service";
+import {
+  commitStockReservation,
+  releaseStockReservation,
+} from "@/lib/services/stock-reservation-service";
 import { createServerClient } from "@/lib/supabase/server";
+import type { Order } from "@/lib/supabase/utils";
 import { getPickupLocation } from "@/lib/utils/delivery-method-utils";
 
 export async function POST(request: NextRequest) {
@@ -86,6 +99,10 @@ export async function POST(request: NextRequest) {
         result = await handleCheckoutSessionCompleted(event.data.object);
         break;
 
+      case "checkout.session.expired":
+        result = await handleCheckoutSessionExpired(event.data.object);
+        break;
+
       case "payment_intent.succeeded":
         result = await handlePaymentSuccess(event.data.object);
         break;
@@ -106,6 +123,14 @@ export async function POST(request: NextRequest) {
         result = await handlePaymentProcessing(event.data.object);
         break;
 
+      case "charge.refunded":
+        result = await handleChargeRefunded(event.data.object);
+        break;
+
+      case "charge.dispute.created":
+        result = await handleDisputeCreated(event.data.object);
+        break;
+
       default:
         console.log(`[Webhook] Unhandled event type: ${event.type}`);
     }
@@ -157,13 +182,6 @@ async function updateOrderPaymentStatus(
       .from("orders")
       .update({
         payment_info: paymentInfo,
-        status:
-          paymentResult.status === "completed"
-            ? "confirmed"
-            : paymentResult.status === "failed"
-              ? "cancelled"
-              : "pending",
-        confirmed_at: paymentResult.status === "completed" ? new Date().toISOString() : null,
         updated_at: new Date().toISOString(),
       })
       .eq("id", orderId);
@@ -173,6 +191,31 @@ async function updateOrderPaymentStatus(
       throw error;
     }
 
+    // Move the order through the lifecycle; other payment states leave the status untouched
+    const targetStatus =
+      paymentResult.status === "completed"
+        ? "confirmed"
+        : paymentResult.status === "failed"
+          ? "cancelled"
+          : null;
+
+    if (targetStatus) {
+      try {
+        await updateOrderStatus(orderId, targetStatus, undefined, {
+          source: "payment",
+          metadata: { paymentStatus: paymentResult.status },
+        });
+      } catch (transitionError) {
+        if (!(transitionError instanceof OrderStatusTransitionError)) {
+          throw transitionError;
+        }
+        // Late or out-of-order webhook for an order that already moved on
+        console.warn(
+          `[Webhook] Skipping status change for order ${orderId}: ${transitionError.message}`
+        );
+      }
+    }
+
     console.log(`Order ${orderId} payment status updated to ${paymentResult.status}`);
   } catch (error) {
     console.error("Error updating order in database:", error);
@@ -181,28 +224,46 @@ async function updateOrderPaymentStatus(
 }
 
 /**
- * Send order confirmation email
+ * Queue the order confirmation email
+ * Delivery goes through the email outbox, so failures are retried and repeated
+ * webhooks for the same order never send a second confirmation.
  */
 async function sendOrderConfirmationEmail(orderId: string) {
   try {
-    // This would integrate with your email service (e.g., SendGrid, Resend, etc.)
-    // For now, we'll just log it
-    console.log(`Sending confirmation email for order ${orderId}`);
-
-    // TODO: Implement email sending
-    // - Fetch order details from database
-    // - Generate email template with order information
-    // - Send email to customer
-    // - Optionally send SMS notification
+    await enqueueOrderEmail(orderId, "confirmed", { sendImmediately: true });
   } catch (error) {
-    console.error("Error sending confirmation email:", error);
+    console.error("Error queueing confirmation email:", error);
     // Don't throw error here as payment was successful
   }
 }
 
 /**
- * Handle successful payment
+ * Announce an order the webhook created as confirmed (email, and SMS for purchasers who
+ * opted in). createOrder does not run the status side effects, so the webhook sends it here.
  */
+async function notifyOrderConfirmed(order: Order) {
+  try {
+    await notifyOrderStatus(order, "confirmed");
+  } catch (error) {
+    console.error("Error announcing confirmed order:", error);
+    // Preferences could not be loaded; the confirmation email still has to go out
+    await sendOrderConfirmationEmail(order.id);
+  }
+}
+
+/**
+ * Recheck which flowers and ribbon colors are still free now that the order holds its
+ * components. createOrder does not run the status side effects, so the webhook syncs here.
+ */
+async function syncChoiceAvailability() {
+  try {
+    await syncRecipeChoiceAvailability();
+  } catch (error) {
+    console.error("Error syncing choice availability:", error);
+    // Don't throw error here as the order was created
+  }
+}
+
 /**
  * Handle checkout session completed
  * Creates an order when Stripe checkout session is completed
@@ -278,14 +339,24 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
           }
         : undefined;
 
+    // Delivery slot held while the customer paid
+    const deliveryDate = metadata["deliveryDate"];
+    const deliveryTimeSlot = metadata["deliveryTimeSlot"];
+    const funeral = parseFuneralDetails(metadata["funeralDetails"]);
+
     // Calculate totals
     const subtotal = session.amount_subtotal ? session.amount_subtotal / 100 : 0;
     const totalAmount = session.amount_total ? session.amount_total / 100 : 0;
     const deliveryCost = deliveryMethod === "delivery" ? 0 : 0; // Free delivery
 
-    // Create order data
+    // Promo code applied as a one-off Stripe coupon
+    const discountCode = metadata["discountCode"];
+    const discountAmount = session.total_details?.amount_discount
+      ? session.total_details.amount_discount / 100
+      : Number(metadata["discountAmount"] || 0);
+
+    // Create order data (order_number is assigned by the database on insert)
     const orderData = {
-      order_number: `ORD-${Date.now()}-${Math.random().toString(36).substring(2, 9).toUpperCase()}`,
       user_id: session.customer || null,
       session_id: session.id,
 
@@ -295,6 +366,8 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
       subtotal,
       delivery_cost: deliveryCost,
       total_amount: totalAmount,
+      discount_code: discountCode || null,
+      discount_amount: discountCode ? discountAmount : 0,
 
       // Customer and delivery info
       customer_info: {
@@ -302,7 +375,14 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
         name: customerName,
         phone: customerPhone,
       },
-      delivery_info: deliveryAddress || {},
+      delivery_info: {
+        ...deliveryAddress,
+        ...(deliveryDate && { preferredDate: deliveryDate }),
+        ...(deliveryTimeSlot && { preferredTimeSlot: deliveryTimeSlot }),
+        ...(funeral && {
+          funeral: { ...funeral, ceremonyStart: funeral.ceremonyStart.toISOString() },
+        }),
+      },
       payment_info: {
         method: "stripe",
         status: "completed",
@@ -324,7 +404,10 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
     };
 
     // Create order in database (Requirement 9.1, 9.5)
-    const result = await createOrder(orderData);
+    const result = await createOrder(orderData, {
+      source: "payment",
+      metadata: { checkoutSessionId: session.id },
+    });
 
     if (result.error) {
       console.error("[Webhook] Error creating order:", result.error);
@@ -333,8 +416,32 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
 
     console.log(`[Webhook] Order created successfully: ${result.data?.id}`);
 
-    // Send confirmation email
-    await sendOrderConfirmationEmail(result.data?.id || "");
+    if (deliveryDate && result.data?.id) {
+      await confirmDeliverySlot(session.id, result.data.id);
+    }
+
+    // Decrement the stock the checkout was holding
+    if (result.data?.id) {
+      await commitStockReservation(session.id, result.data.id);
+    }
+
+    if (result.data?.id) {
+      await syncChoiceAvailability();
+    }
+
+    if (discountCode && result.data?.id) {
+      await redeemDiscountCode({
+        code: discountCode,
+        orderId: result.data.id,
+        customerEmail,
+        discountAmount,
+      });
+    }
+
+    // Send confirmation email and SMS
+    if (result.data) {
+      await notifyOrderConfirmed(result.data);
+    }
 
     return {
       orderId: result.data?.id,
@@ -347,6 +454,22 @@ async function handleCheckoutSessionCompleted(session: Stripe.Checkout.Session)
   }
 }
 
+/**
+ * Handle checkout session expired
+ * Frees the delivery slot and stock the abandoned checkout was holding
+ */
+async function handleCheckoutSessionExpired(session: Stripe.Checkout.Session) {
+  console.log(`[Webhook] Checkout session expired: ${session.id}`);
+
+  await releaseDeliverySlot(session.id);
+  await releaseStockReservation(session.id);
+
+  return {
+    status: "expired",
+    sessionId: session.id,
+  };
+}
+
 async function handlePaymentSuccess(paymentIntent: Stripe.PaymentIntent) {
   const orderId = paymentIntent.metadata?.["orderId"];
 
@@ -489,6 +612,56 @@ async function handlePaymentProcessing(paymentIntent: Stripe.PaymentIntent) {
   return result;
 }
 
+/**
+ * Handle refunded charge (full or partial, issued from the admin or the Stripe dashboard)
+ */
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId =
+    typeof charge.payment_intent === "string" ? charge.payment_intent : charge.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    console.error("[Webhook] Payment intent not found on refunded charge");
+    return null;
+  }
+
+  console.log(
+    `[Webhook] Charge refunded for payment ${paymentIntentId}: ${charge.amount_refunded / 100} ${charge.currency}`
+  );
+
+  const refunds = await PaymentService.getRefunds(paymentIntentId, "stripe");
+  const orderId = await syncOrderRefunds(paymentIntentId, refunds);
+
+  return orderId ? { orderId, status: charge.refunded ? "refunded" : "partially_refunded" } : null;
+}
+
+/**
+ * Handle dispute (chargeback) opened for a charge
+ */
+async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  const paymentIntentId =
+    typeof dispute.payment_intent === "string"
+      ? dispute.payment_intent
+      : dispute.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    console.error("[Webhook] Payment intent not found on dispute");
+    return null;
+  }
+
+  console.warn(`[Webhook] Dispute ${dispute.id} opened for payment ${paymentIntentId}`);
+
+  const orderId = await recordPaymentDispute(paymentIntentId, {
+    id: dispute.id,
+    amount: dispute.amount / 100,
+    currency: dispute.currency,
+    reason: dispute.reason,
+    status: dispute.status,
+    createdAt: new Date(dispute.created * 1000).toISOString(),
+  });
+
+  return orderId ? { orderId, status: "disputed" } : null;
+}
+
 /**
  * Check if event has already been processed (idempotency)
  */
@@ -0,0 +1,67 @@
+/**
+ * API route for product listing facets
+ * Counts the products behind each category, price bucket, size and flower type filter
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { getProductFacets } from "@/lib/services/product-service";
+import type { ApiResponse } from "@/types";
+
+function parsePrice(value: string | null): number | undefined {
+  const price = value ? Number.parseFloat(value) : Number.NaN;
+  return Number.isFinite(price) ? price : undefined;
+}
+
+function parseList(value: string | null): string[] | undefined {
+  const values = value?.split(",").filter(Boolean);
+  return values?.length ? values : undefined;
+}
+
+/**
+ * GET /api/products/facets
+ * Takes the same filters as GET /api/products; each facet is counted with the other filters
+ * applied
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const minPrice = parsePrice(searchParams.get("minPrice"));
+    const maxPrice = parsePrice(searchParams.get("maxPrice"));
+    const sizes = parseList(searchParams.get("sizes"));
+    const flowers = parseList(searchParams.get("flowers"));
+
+    const facets = await getProductFacets({
+      locale: searchParams.get("locale") === "en" ? "en" : "cs",
+      ...(searchParams.get("search") && { search: searchParams.get("search") as string }),
+      ...(searchParams.get("categoryId") && {
+        categoryId: searchParams.get("categoryId") as string,
+      }),
+      ...(searchParams.get("categorySlug") && {
+        categorySlug: searchParams.get("categorySlug") as string,
+      }),
+      ...(minPrice !== undefined && { minPrice }),
+      ...(maxPrice !== undefined && { maxPrice }),
+      ...(searchParams.get("inStock") === "true" && { inStock: true }),
+      ...(searchParams.get("featured") === "true" && { featured: true }),
+      ...(sizes && { sizes }),
+      ...(flowers && { flowers }),
+    });
+
+    const headers = new Headers();
+    headers.set("Cache-Control", "public, max-age=300, stale-while-revalidate=600");
+
+    return NextResponse.json({ success: true, facets }, { headers });
+  } catch (error) {
+    console.error("Error in GET /api/products/facets:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "FETCH_ERROR",
+          message: "Failed to fetch product facets",
+        },
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
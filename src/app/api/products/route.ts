@@ -32,6 +32,12 @@ import type {
   // ProductSearchParams,
 } from "@/types/product";
 
+// Comma separated size and flower type slugs
+function parseList(value: string | null): string[] | undefined {
+  const values = value?.split(",").filter(Boolean);
+  return values?.length ? values : undefined;
+}
+
 async function getProducts(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -51,8 +57,13 @@ async function getProducts(request: NextRequest) {
       inStock: searchParams.get("inStock") === "true" ? true : undefined,
       featured: searchParams.get("featured") === "true" ? true : undefined,
       search: searchParams.get("search") || undefined,
+      sizes: parseList(searchParams.get("sizes")),
+      flowers: parseList(searchParams.get("flowers")),
       locale: searchParams.get("locale") || "cs",
-      sortField: (searchParams.get("sortField") as any) || "created_at",
+      // Searches are ranked by relevance unless another order is asked for
+      sortField:
+        (searchParams.get("sortField") as any) ||
+        (searchParams.get("search") ? "relevance" : "created_at"),
       sortDirection: (searchParams.get("sortDirection") as "asc" | "desc") || "desc",
     };
 
@@ -0,0 +1,48 @@
+/**
+ * API route for product search suggestions
+ * Offers matching products while the customer types into the catalog search
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import {
+  normalizeProductSearchTerm,
+  PRODUCT_SUGGESTION_MIN_LENGTH,
+} from "@/lib/search/product-search";
+import { getProductSuggestions } from "@/lib/services/product-service";
+import type { ApiResponse } from "@/types";
+
+/**
+ * GET /api/products/suggestions?q=&locale=
+ * Best matching active products for a partially typed search, with the matched part of the
+ * name highlighted
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const term = normalizeProductSearchTerm(searchParams.get("q"));
+    const locale = searchParams.get("locale") === "en" ? "en" : "cs";
+
+    if (term.length < PRODUCT_SUGGESTION_MIN_LENGTH) {
+      return NextResponse.json({ success: true, suggestions: [] });
+    }
+
+    const suggestions = await getProductSuggestions(term, locale);
+
+    const headers = new Headers();
+    headers.set("Cache-Control", "public, max-age=300, stale-while-revalidate=600");
+
+    return NextResponse.json({ success: true, suggestions }, { headers });
+  } catch (error) {
+    console.error("Error in GET /api/products/suggestions:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "FETCH_ERROR",
+          message: "Failed to fetch search suggestions",
+        },
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
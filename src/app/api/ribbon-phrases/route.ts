@@ -0,0 +1,35 @@
+/**
+ * API route for the ribbon phrase library
+ * Serves the active condolence phrases offered in the ribbon configurator
+ */
+
+import { NextResponse } from "next/server";
+import { getRibbonPhrases } from "@/lib/services/ribbon-phrase-service";
+import type { ApiResponse } from "@/types";
+
+/**
+ * GET /api/ribbon-phrases
+ * Get all active ribbon phrases
+ */
+export async function GET() {
+  try {
+    const phrases = await getRibbonPhrases();
+
+    const headers = new Headers();
+    headers.set("Cache-Control", "public, max-age=300, stale-while-revalidate=600");
+
+    return NextResponse.json({ success: true, phrases }, { headers });
+  } catch (error) {
+    console.error("Error in GET /api/ribbon-phrases:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "FETCH_ERROR",
+          message: "Failed to fetch ribbon phrases",
+        },
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
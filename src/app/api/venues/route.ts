@@ -0,0 +1,57 @@
+/**
+ * API route for the venue directory
+ * Searches funeral homes and ceremony halls for the checkout venue picker
+ */
+
+import { type NextRequest, NextResponse } from "next/server";
+import { normalizeVenueSearchTerm } from "@/lib/delivery/venues";
+import { getVenue, searchVenues, toVenueSummary } from "@/lib/services/venue-service";
+import type { ApiResponse } from "@/types";
+import type { Venue } from "@/types/delivery";
+
+// Shorter terms match too much of the directory to be useful
+const MIN_SEARCH_LENGTH = 2;
+
+async function findVenues(id: string | null, term: string): Promise<Venue[]> {
+  if (id) {
+    const venue = await getVenue(id);
+    return venue ? [venue] : [];
+  }
+
+  return searchVenues(term);
+}
+
+/**
+ * GET /api/venues?q= or /api/venues?id=
+ * Search active venues by name, street or city, or get the picked venue by id
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const id = searchParams.get("id");
+    const term = normalizeVenueSearchTerm(searchParams.get("q"));
+
+    if (!id && term.length < MIN_SEARCH_LENGTH) {
+      return NextResponse.json({ success: true, venues: [] });
+    }
+
+    const venues = await findVenues(id, term);
+
+    const headers = new Headers();
+    headers.set("Cache-Control", "public, max-age=300, stale-while-revalidate=600");
+
+    return NextResponse.json({ success: true, venues: venues.map(toVenueSummary) }, { headers });
+  } catch (error) {
+    console.error("Error in GET /api/venues:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "FETCH_ERROR",
+          message: "Failed to search venues",
+        },
+      } as ApiResponse,
+      { status: 500 }
+    );
+  }
+}
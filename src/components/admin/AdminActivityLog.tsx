@@ -93,6 +93,8 @@ export default function AdminActivityLog() {
         return "Kategorie";
       case "orders":
         return "Objednávka";
+      case "user_profiles":
+        return "Role uživatele";
       default:
         return resourceType;
     }
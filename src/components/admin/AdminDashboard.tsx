@@ -3,14 +3,29 @@
 import { useCallback, useEffect, useState } from "react";
 import { LazyInventoryManagement, LazyMonitoringDashboard } from "@/components/dynamic";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import type { StaffRole } from "@/lib/auth/permissions";
 import AdminActivityLog from "./AdminActivityLog";
 import AdminHeader from "./AdminHeader";
 import AdminSidebar from "./AdminSidebar";
 import DashboardOverview from "./DashboardOverview";
+import ErasureRequestQueue from "./ErasureRequestQueue";
 import OrderManagement from "./OrderManagement";
 import ProductManagement from "./ProductManagement";
+import RibbonPhraseManagement from "./RibbonPhraseManagement";
+import UserRoleManagement from "./UserRoleManagement";
+import VenueManagement from "./VenueManagement";
 
-type AdminView = "overview" | "products" | "orders" | "inventory" | "activity" | "monitoring";
+type AdminView =
+  | "overview"
+  | "products"
+  | "ribbons"
+  | "orders"
+  | "inventory"
+  | "venues"
+  | "activity"
+  | "monitoring"
+  | "users"
+  | "gdpr";
 
 interface DashboardStats {
   orders: {
@@ -52,7 +67,11 @@ interface DashboardStats {
   };
 }
 
-export default function AdminDashboard() {
+interface AdminDashboardProps {
+  role: StaffRole;
+}
+
+export default function AdminDashboard({ role }: AdminDashboardProps) {
   const [currentView, setCurrentView] = useState<AdminView>("overview");
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
@@ -82,14 +101,22 @@ export default function AdminDashboard() {
         return <DashboardOverview stats={stats} onRefresh={fetchDashboardStats} />;
       case "products":
         return <ProductManagement />;
+      case "ribbons":
+        return <RibbonPhraseManagement />;
       case "orders":
         return <OrderManagement />;
       case "inventory":
         return <LazyInventoryManagement />;
+      case "venues":
+        return <VenueManagement />;
       case "activity":
         return <AdminActivityLog />;
       case "monitoring":
         return <LazyMonitoringDashboard />;
+      case "users":
+        return <UserRoleManagement />;
+      case "gdpr":
+        return <ErasureRequestQueue />;
       default:
         return <DashboardOverview stats={stats} onRefresh={fetchDashboardStats} />;
     }
@@ -107,6 +134,7 @@ export default function AdminDashboard() {
     <div className="flex h-screen bg-stone-50">
       {/* Sidebar */}
       <AdminSidebar
+        role={role}
         currentView={currentView}
         onViewChange={setCurrentView}
         isOpen={sidebarOpen}
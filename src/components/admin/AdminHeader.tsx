@@ -5,7 +5,17 @@ import { signOut, useSession } from "next-auth/react";
 import { Fragment } from "react";
 import { ArrowRightOnRectangleIcon, Bars3Icon, BellIcon, UserCircleIcon } from "@/lib/icons";
 
-type AdminView = "overview" | "products" | "orders" | "inventory" | "activity" | "monitoring";
+type AdminView =
+  | "overview"
+  | "products"
+  | "ribbons"
+  | "orders"
+  | "inventory"
+  | "venues"
+  | "activity"
+  | "monitoring"
+  | "users"
+  | "gdpr";
 
 interface AdminHeaderProps {
   currentView: AdminView;
@@ -15,10 +25,14 @@ interface AdminHeaderProps {
 const viewTitles: Record<AdminView, string> = {
   overview: "Přehled",
   products: "Správa produktů",
+  ribbons: "Texty stuh",
   orders: "Správa objednávek",
   inventory: "Skladové zásoby",
+  venues: "Obřadní místa",
   activity: "Aktivita administrátorů",
   monitoring: "Monitoring systému",
+  users: "Uživatelé a role",
+  gdpr: "Výmazy údajů",
 };
 
 export default function AdminHeader({ currentView, onMenuToggle }: AdminHeaderProps) {
@@ -1,20 +1,50 @@
 "use client";
 
 import { useTranslations } from "next-intl";
+import { hasPermission, type Permission, type StaffRole } from "@/lib/auth/permissions";
 import {
   ChartBarIcon,
   ClipboardDocumentListIcon,
   ClockIcon,
   CubeIcon,
+  DocumentTextIcon,
   ExclamationTriangleIcon,
   HomeIcon,
+  MapPinIcon,
+  ShieldCheckIcon,
   ShoppingBagIcon,
+  UsersIcon,
   XMarkIcon,
 } from "@/lib/icons";
 
-type AdminView = "overview" | "products" | "orders" | "inventory" | "activity" | "monitoring";
+type AdminView =
+  | "overview"
+  | "products"
+  | "ribbons"
+  | "orders"
+  | "inventory"
+  | "venues"
+  | "activity"
+  | "monitoring"
+  | "users"
+  | "gdpr";
+
+// Permission required to open each view
+const VIEW_PERMISSIONS: Record<AdminView, Permission> = {
+  overview: "dashboard:read",
+  products: "products:read",
+  ribbons: "products:write",
+  orders: "orders:read",
+  inventory: "inventory:write",
+  venues: "delivery:write",
+  activity: "activity:read",
+  monitoring: "monitoring:read",
+  users: "users:manage",
+  gdpr: "gdpr:process",
+};
 
 interface AdminSidebarProps {
+  role: StaffRole;
   currentView: AdminView;
   onViewChange: (view: AdminView) => void;
   isOpen: boolean;
@@ -27,6 +57,7 @@ interface AdminSidebarProps {
 }
 
 export default function AdminSidebar({
+  role,
   currentView,
   onViewChange,
   isOpen,
@@ -48,6 +79,12 @@ export default function AdminSidebar({
       icon: ShoppingBagIcon,
       badge: null,
     },
+    {
+      id: "ribbons" as AdminView,
+      name: t("ribbons"),
+      icon: DocumentTextIcon,
+      badge: null,
+    },
     {
       id: "orders" as AdminView,
       name: t("orders"),
@@ -60,6 +97,12 @@ export default function AdminSidebar({
       icon: CubeIcon,
       badge: (stats?.products.low_stock || 0) + (stats?.products.out_of_stock || 0),
     },
+    {
+      id: "venues" as AdminView,
+      name: t("venues"),
+      icon: MapPinIcon,
+      badge: null,
+    },
     {
       id: "activity" as AdminView,
       name: t("activity"),
@@ -72,7 +115,19 @@ export default function AdminSidebar({
       icon: ChartBarIcon,
       badge: null,
     },
-  ];
+    {
+      id: "users" as AdminView,
+      name: t("users"),
+      icon: UsersIcon,
+      badge: null,
+    },
+    {
+      id: "gdpr" as AdminView,
+      name: t("gdpr"),
+      icon: ShieldCheckIcon,
+      badge: null,
+    },
+  ].filter((item) => hasPermission(role, VIEW_PERMISSIONS[item.id]));
 
   const sidebarClasses = `
     fixed inset-y-0 left-0 z-50 w-64 bg-white shadow-lg transform transition-transform duration-300 ease-in-out
@@ -0,0 +1,225 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ErasureBlocker, ErasureRequest, ErasureRequestStatus } from "@/lib/gdpr/erasure";
+
+type QueueFilter = "review" | "scheduled" | "completed";
+
+const FILTER_LABELS: Record<QueueFilter, string> = {
+  review: "K posouzení",
+  scheduled: "Naplánované",
+  completed: "Dokončené",
+};
+
+const STATUS_LABELS: Record<ErasureRequestStatus, string> = {
+  pending_confirmation: "Čeká na potvrzení",
+  scheduled: "Naplánováno",
+  blocked: "Zablokováno",
+  cancelled: "Zrušeno",
+  processing: "Probíhá",
+  completed: "Dokončeno",
+  failed: "Selhalo",
+};
+
+const BLOCKER_LABELS: Record<ErasureBlocker["reason"], string> = {
+  order_in_progress: "Objednávka není dokončena",
+  refund_in_progress: "Probíhá vrácení platby",
+  payment_dispute: "Otevřený spor o platbu",
+};
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString("cs-CZ") : "—";
+}
+
+export default function ErasureRequestQueue() {
+  const [requests, setRequests] = useState<ErasureRequest[]>([]);
+  const [filter, setFilter] = useState<QueueFilter>("review");
+  const [loading, setLoading] = useState(true);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRequests = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/admin/gdpr/erasure-requests?filter=${filter}`);
+      if (response.ok) {
+        const data = await response.json();
+        setRequests(data.requests || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch erasure requests:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [fetchRequests]);
+
+  const handleDecision = async (request: ErasureRequest, decision: "approve" | "reject") => {
+    setSavingId(request.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/gdpr/erasure-requests/${request.id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ decision, note: notes[request.id] || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Rozhodnutí se nepodařilo uložit");
+        return;
+      }
+
+      setRequests((current) => current.filter((entry) => entry.id !== request.id));
+    } catch (error) {
+      console.error("Failed to review erasure request:", error);
+      setError("Rozhodnutí se nepodařilo uložit");
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">Výmazy údajů</h2>
+        <button
+          type="button"
+          onClick={fetchRequests}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Obnovit
+        </button>
+      </div>
+
+      {/* Filter */}
+      <div className="flex space-x-2">
+        {(Object.keys(FILTER_LABELS) as QueueFilter[]).map((key) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => setFilter(key)}
+            className={`px-4 py-2 rounded-lg text-sm border ${
+              filter === key
+                ? "bg-gray-900 text-white border-gray-900"
+                : "border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            {FILTER_LABELS[key]}
+          </button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Requests */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {loading ? (
+          <div className="p-6 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto" />
+          </div>
+        ) : requests.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">Žádné žádosti o výmaz</div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {requests.map((request) => (
+              <div key={request.id} className="p-6 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {request.userId ?? "Smazaný účet"}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Podáno {formatDate(request.createdAt)} · Potvrzeno{" "}
+                      {formatDate(request.confirmedAt)}
+                    </p>
+                    {request.reason && (
+                      <p className="text-sm text-gray-600 mt-1">Důvod: {request.reason}</p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <span className="px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-800">
+                      {STATUS_LABELS[request.status]}
+                    </span>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {request.status === "completed"
+                        ? `Vymazáno ${formatDate(request.completedAt)}`
+                        : `Výmaz ${formatDate(request.scheduledFor)}`}
+                    </p>
+                  </div>
+                </div>
+
+                {request.blockers.length > 0 && (
+                  <ul className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+                    {request.blockers.map((blocker) => (
+                      <li key={`${blocker.orderId}-${blocker.reason}`}>
+                        {blocker.orderNumber}: {BLOCKER_LABELS[blocker.reason]}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {request.lastError && (
+                  <p className="text-sm text-red-700">
+                    Chyba (pokus {request.attempts}): {request.lastError}
+                  </p>
+                )}
+
+                {request.reviewNote && (
+                  <p className="text-sm text-gray-600">Poznámka: {request.reviewNote}</p>
+                )}
+
+                {request.receiptHash && (
+                  <p className="text-xs text-gray-400 font-mono break-all">
+                    Potvrzení: {request.receiptHash}
+                  </p>
+                )}
+
+                {(request.status === "blocked" || request.status === "failed") && (
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={notes[request.id] ?? ""}
+                      onChange={(event) =>
+                        setNotes((current) => ({ ...current, [request.id]: event.target.value }))
+                      }
+                      placeholder="Poznámka k rozhodnutí..."
+                      maxLength={1000}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <button
+                      type="button"
+                      disabled={savingId === request.id}
+                      onClick={() => handleDecision(request, "approve")}
+                      className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700 disabled:opacity-50"
+                    >
+                      Schválit výmaz
+                    </button>
+                    <button
+                      type="button"
+                      disabled={savingId === request.id}
+                      onClick={() => handleDecision(request, "reject")}
+                      className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Zamítnout
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
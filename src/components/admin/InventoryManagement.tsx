@@ -7,6 +7,7 @@ import {
   XCircleIcon,
 } from "@heroicons/react/24/outline";
 import { useCallback, useEffect, useState } from "react";
+import MaterialInventory from "./MaterialInventory";
 
 interface InventoryAlert {
   id: string;
@@ -40,7 +41,7 @@ export default function InventoryManagement() {
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [showAcknowledged, setShowAcknowledged] = useState(false);
-  const [activeTab, setActiveTab] = useState<"alerts" | "inventory">("alerts");
+  const [activeTab, setActiveTab] = useState<"alerts" | "inventory" | "materials">("alerts");
 
   const fetchAlerts = useCallback(async () => {
     try {
@@ -157,6 +158,17 @@ export default function InventoryManagement() {
           >
             Zásoby ({products.length})
           </button>
+          <button
+            type="button"
+            onClick={() => setActiveTab("materials")}
+            className={`px-4 py-2 rounded-lg transition-colors ${
+              activeTab === "materials"
+                ? "bg-blue-600 text-white"
+                : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+            }`}
+          >
+            Materiál
+          </button>
         </div>
       </div>
 
@@ -340,6 +352,8 @@ export default function InventoryManagement() {
           </div>
         </div>
       )}
+
+      {activeTab === "materials" && <MaterialInventory />}
     </div>
   );
 }
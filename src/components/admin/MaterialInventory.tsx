@@ -0,0 +1,530 @@
+"use client";
+
+import { ExclamationTriangleIcon, PlusIcon, TrashIcon } from "@heroicons/react/24/outline";
+import { type FormEvent, useCallback, useEffect, useId, useState } from "react";
+import {
+  getRecipeChoiceKey,
+  MATERIAL_KIND_LABELS,
+  MATERIAL_UNIT_LABELS,
+  type Material,
+  type MaterialDayProjection,
+  type MaterialKind,
+  type MaterialRecipe,
+  type MaterialUnit,
+  RECIPE_OPTION_TYPE_LABELS,
+  type RecipeOptionType,
+} from "@/lib/inventory/materials";
+import { formatJobSheetDate } from "@/lib/orders/job-sheet";
+
+interface ChoiceRecipe {
+  optionType: RecipeOptionType;
+  choiceId: string;
+  components: MaterialRecipe[];
+}
+
+const inputClassName =
+  "px-2 py-1 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+function groupRecipes(recipes: MaterialRecipe[]): ChoiceRecipe[] {
+  const groups = new Map<string, ChoiceRecipe>();
+
+  for (const recipe of recipes) {
+    const key = getRecipeChoiceKey(recipe.optionType, recipe.choiceId);
+    const group = groups.get(key) ?? {
+      optionType: recipe.optionType,
+      choiceId: recipe.choiceId,
+      components: [],
+    };
+    group.components.push(recipe);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
+
+function formatQuantity(quantity: number, unit: MaterialUnit | undefined): string {
+  return `${quantity.toLocaleString("cs-CZ")} ${unit ? MATERIAL_UNIT_LABELS[unit] : ""}`.trim();
+}
+
+function ShortageProjection({ projection }: { projection: MaterialDayProjection[] }) {
+  const daysWithShortages = projection.filter((day) => day.shortages.length > 0);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h3 className="text-lg font-medium text-gray-900">Předpokládaný nedostatek materiálu</h3>
+        <p className="text-sm text-gray-500">
+          Potvrzené a rozpracované objednávky podle data dodání
+        </p>
+      </div>
+      {daysWithShortages.length === 0 ? (
+        <div className="p-6 text-center text-gray-500">
+          Zásoby pokrývají všechny potvrzené objednávky
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {daysWithShortages.map((day) => (
+            <div key={day.deliveryDate ?? "undated"} className="p-6">
+              <h4 className="text-sm font-medium text-gray-900">
+                {day.deliveryDate ? formatJobSheetDate(day.deliveryDate) : "Bez termínu dodání"}
+                <span className="ml-2 text-gray-500">({day.orderCount} obj.)</span>
+              </h4>
+              <ul className="mt-2 space-y-1">
+                {day.shortages.map((shortage) => (
+                  <li key={shortage.materialId} className="flex items-center text-sm text-red-700">
+                    <ExclamationTriangleIcon className="h-4 w-4 mr-2" />
+                    {shortage.materialName}: chybí {formatQuantity(shortage.missing, shortage.unit)}{" "}
+                    (potřeba {formatQuantity(shortage.required, shortage.unit)})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NewMaterialForm({ onCreate }: { onCreate: (material: Omit<Material, "id">) => void }) {
+  const nameId = useId();
+  const kindId = useId();
+  const unitId = useId();
+  const stockId = useId();
+  const thresholdId = useId();
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<MaterialKind>("stem");
+  const [unit, setUnit] = useState<MaterialUnit>("ks");
+  const [stockQuantity, setStockQuantity] = useState(0);
+  const [lowStockThreshold, setLowStockThreshold] = useState(0);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onCreate({ name, kind, unit, stockQuantity, lowStockThreshold });
+    setName("");
+    setStockQuantity(0);
+    setLowStockThreshold(0);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3 p-4">
+      <div className="flex flex-col">
+        <label htmlFor={nameId} className="text-xs text-gray-500">
+          Název
+        </label>
+        <input
+          id={nameId}
+          type="text"
+          required
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className={inputClassName}
+        />
+      </div>
+      <div className="flex flex-col">
+        <label htmlFor={kindId} className="text-xs text-gray-500">
+          Druh
+        </label>
+        <select
+          id={kindId}
+          value={kind}
+          onChange={(e) => setKind(e.target.value as MaterialKind)}
+          className={inputClassName}
+        >
+          {Object.entries(MATERIAL_KIND_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-col">
+        <label htmlFor={unitId} className="text-xs text-gray-500">
+          Jednotka
+        </label>
+        <select
+          id={unitId}
+          value={unit}
+          onChange={(e) => setUnit(e.target.value as MaterialUnit)}
+          className={inputClassName}
+        >
+          {Object.entries(MATERIAL_UNIT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-col">
+        <label htmlFor={stockId} className="text-xs text-gray-500">
+          Zásoba
+        </label>
+        <input
+          id={stockId}
+          type="number"
+          min="0"
+          step="0.01"
+          value={stockQuantity}
+          onChange={(e) => setStockQuantity(Number(e.target.value) || 0)}
+          className={`w-24 ${inputClassName}`}
+        />
+      </div>
+      <div className="flex flex-col">
+        <label htmlFor={thresholdId} className="text-xs text-gray-500">
+          Práh upozornění
+        </label>
+        <input
+          id={thresholdId}
+          type="number"
+          min="0"
+          step="0.01"
+          value={lowStockThreshold}
+          onChange={(e) => setLowStockThreshold(Number(e.target.value) || 0)}
+          className={`w-24 ${inputClassName}`}
+        />
+      </div>
+      <button
+        type="submit"
+        className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+      >
+        <PlusIcon className="h-4 w-4 mr-1" />
+        Přidat materiál
+      </button>
+    </form>
+  );
+}
+
+function RecipeComponentForm({
+  materials,
+  onAdd,
+}: {
+  materials: Material[];
+  onAdd: (recipe: MaterialRecipe) => void;
+}) {
+  const optionTypeId = useId();
+  const choiceId = useId();
+  const materialId = useId();
+  const quantityId = useId();
+  const [recipe, setRecipe] = useState<MaterialRecipe>({
+    optionType: "flowers",
+    choiceId: "",
+    materialId: "",
+    quantity: 1,
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onAdd(recipe);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3 p-4">
+      <div className="flex flex-col">
+        <label htmlFor={optionTypeId} className="text-xs text-gray-500">
+          Volba
+        </label>
+        <select
+          id={optionTypeId}
+          value={recipe.optionType}
+          onChange={(e) => setRecipe({ ...recipe, optionType: e.target.value as RecipeOptionType })}
+          className={inputClassName}
+        >
+          {Object.entries(RECIPE_OPTION_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-col">
+        <label htmlFor={choiceId} className="text-xs text-gray-500">
+          ID možnosti
+        </label>
+        <input
+          id={choiceId}
+          type="text"
+          required
+          placeholder="color_black"
+          value={recipe.choiceId}
+          onChange={(e) => setRecipe({ ...recipe, choiceId: e.target.value })}
+          className={inputClassName}
+        />
+      </div>
+      <div className="flex flex-col">
+        <label htmlFor={materialId} className="text-xs text-gray-500">
+          Materiál
+        </label>
+        <select
+          id={materialId}
+          required
+          value={recipe.materialId}
+          onChange={(e) => setRecipe({ ...recipe, materialId: e.target.value })}
+          className={inputClassName}
+        >
+          <option value="">Vyberte materiál</option>
+          {materials.map((material) => (
+            <option key={material.id} value={material.id}>
+              {material.name}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-col">
+        <label htmlFor={quantityId} className="text-xs text-gray-500">
+          Množství na kus
+        </label>
+        <input
+          id={quantityId}
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={recipe.quantity}
+          onChange={(e) => setRecipe({ ...recipe, quantity: Number(e.target.value) || 0 })}
+          className={`w-24 ${inputClassName}`}
+        />
+      </div>
+      <button
+        type="submit"
+        className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+      >
+        <PlusIcon className="h-4 w-4 mr-1" />
+        Přidat složku
+      </button>
+    </form>
+  );
+}
+
+export default function MaterialInventory() {
+  const [materials, setMaterials] = useState<Material[]>([]);
+  const [recipes, setRecipes] = useState<MaterialRecipe[]>([]);
+  const [projection, setProjection] = useState<MaterialDayProjection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMaterials = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/inventory/materials");
+      if (response.ok) {
+        const data = await response.json();
+        setMaterials(data.materials || []);
+        setRecipes(data.recipes || []);
+        setProjection(data.projection || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch materials:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMaterials();
+  }, [fetchMaterials]);
+
+  const sendChange = async (url: string, method: string, body?: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        ...(body !== undefined && { body: JSON.stringify(body) }),
+      });
+      const data = await response.json();
+
+      setError(response.ok ? null : data.error || "Změnu se nepodařilo uložit");
+      if (response.ok) {
+        fetchMaterials();
+      }
+    } catch (error) {
+      console.error("Failed to save material change:", error);
+      setError("Změnu se nepodařilo uložit");
+    }
+  };
+
+  const handleUpdateStock = (material: Material, stockQuantity: number) => {
+    if (stockQuantity !== material.stockQuantity) {
+      const { id, ...input } = material;
+      sendChange(`/api/admin/inventory/materials/${id}`, "PUT", { ...input, stockQuantity });
+    }
+  };
+
+  const handleDeleteMaterial = (material: Material) => {
+    if (window.confirm(`Opravdu smazat materiál ${material.name}?`)) {
+      sendChange(`/api/admin/inventory/materials/${material.id}`, "DELETE");
+    }
+  };
+
+  const saveRecipe = (
+    optionType: RecipeOptionType,
+    choiceId: string,
+    components: MaterialRecipe[]
+  ) =>
+    sendChange("/api/admin/inventory/materials/recipes", "PUT", {
+      optionType,
+      choiceId,
+      components: components.map(({ materialId, quantity }) => ({ materialId, quantity })),
+    });
+
+  const handleAddComponent = (component: MaterialRecipe) => {
+    const choiceId = component.choiceId.trim();
+    const existing = recipes.filter(
+      (recipe) =>
+        recipe.optionType === component.optionType &&
+        recipe.choiceId === choiceId &&
+        recipe.materialId !== component.materialId
+    );
+    saveRecipe(component.optionType, choiceId, [...existing, component]);
+  };
+
+  const handleRemoveComponent = (group: ChoiceRecipe, materialId: string) => {
+    saveRecipe(
+      group.optionType,
+      group.choiceId,
+      group.components.filter((component) => component.materialId !== materialId)
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="p-6 text-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto" />
+      </div>
+    );
+  }
+
+  const materialsById = new Map(materials.map((material) => [material.id, material]));
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <ShortageProjection projection={projection} />
+
+      {/* Materials */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Materiál</h3>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Materiál
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Druh
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Aktuální zásoby
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Práh upozornění
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Akce
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {materials.map((material) => (
+                <tr key={material.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                    {material.name}
+                    {material.stockQuantity <= material.lowStockThreshold && (
+                      <span className="ml-2 text-xs font-medium text-yellow-600">Nízké zásoby</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {MATERIAL_KIND_LABELS[material.kind]}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      defaultValue={material.stockQuantity}
+                      onBlur={(e) => handleUpdateStock(material, Number(e.target.value) || 0)}
+                      className={`w-24 ${inputClassName}`}
+                    />
+                    <span className="ml-1 text-sm text-gray-500">
+                      {MATERIAL_UNIT_LABELS[material.unit]}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {formatQuantity(material.lowStockThreshold, material.unit)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm">
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteMaterial(material)}
+                      className="text-red-600 hover:text-red-800"
+                      aria-label={`Smazat ${material.name}`}
+                    >
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="border-t border-gray-200">
+          <NewMaterialForm
+            onCreate={(material) => sendChange("/api/admin/inventory/materials", "POST", material)}
+          />
+        </div>
+      </div>
+
+      {/* Recipes */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Složení možností</h3>
+          <p className="text-sm text-gray-500">
+            Materiál na jeden věnec podle zvolených květin a barvy stuhy. Možnost se sama skryje,
+            jakmile některá složka dojde.
+          </p>
+        </div>
+        <div className="divide-y divide-gray-200">
+          {groupRecipes(recipes).map((group) => (
+            <div key={getRecipeChoiceKey(group.optionType, group.choiceId)} className="px-6 py-4">
+              <h4 className="text-sm font-medium text-gray-900">
+                {RECIPE_OPTION_TYPE_LABELS[group.optionType]}: {group.choiceId}
+              </h4>
+              <ul className="mt-1 space-y-1">
+                {group.components.map((component) => {
+                  const material = materialsById.get(component.materialId);
+                  return (
+                    <li
+                      key={component.materialId}
+                      className="flex items-center text-sm text-gray-700"
+                    >
+                      {material?.name ?? component.materialId}:{" "}
+                      {formatQuantity(component.quantity, material?.unit)}
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveComponent(group, component.materialId)}
+                        className="ml-2 text-red-600 hover:text-red-800"
+                        aria-label={`Odebrat ${material?.name ?? component.materialId}`}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+        </div>
+        <div className="border-t border-gray-200">
+          <RecipeComponentForm materials={materials} onAdd={handleAddComponent} />
+        </div>
+      </div>
+    </div>
+  );
+}
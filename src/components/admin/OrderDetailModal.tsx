@@ -3,7 +3,20 @@
 import { Dialog, Transition } from "@headlessui/react";
 import { XMarkIcon } from "@heroicons/react/24/outline";
 import { useTranslations } from "next-intl";
-import { Fragment, useState } from "react";
+import { Fragment, useId, useState } from "react";
+import {
+  formatCeremonyStart,
+  formatFuneralVenue,
+  type StoredFuneralDetails,
+} from "@/lib/delivery/funeral";
+import { getAllowedNextStatuses } from "@/lib/orders/lifecycle";
+import {
+  getRefundableAmount,
+  getRefundedQuantities,
+  isRefundablePaymentStatus,
+  type RefundItemSelection,
+} from "@/lib/orders/refunds";
+import type { PaymentDispute, PaymentStatus, RefundRecord } from "@/types/order";
 
 interface Order {
   id: string;
@@ -16,18 +29,252 @@ interface Order {
   itemCount: number;
   paymentMethod: string;
   paymentStatus: string;
+  paidAmount?: number;
+  refundedAmount?: number;
+  refunds?: RefundRecord[];
+  dispute?: PaymentDispute | null;
+  items?: OrderItemSummary[];
   deliveryAddress: string;
   preferredDate: string;
+  funeral?: StoredFuneralDetails | null;
+  deliveryPhotoUrl?: string | null;
   createdAt: string;
   updatedAt: string;
   notes?: string;
   internalNotes?: string;
 }
 
+interface OrderItemSummary {
+  id: string;
+  productName: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+export interface OrderRefundRequest {
+  items?: RefundItemSelection[];
+  reason?: string;
+}
+
 interface OrderDetailModalProps {
   order: Order;
   onClose: () => void;
-  onStatusUpdate: (orderId: string, status: string, internalNotes?: string) => void;
+  onStatusUpdate: (
+    orderId: string,
+    status: string,
+    internalNotes?: string,
+    deliveryPhotoUrl?: string
+  ) => void;
+  onRefund: (
+    orderId: string,
+    request: OrderRefundRequest
+  ) => Promise<{ success: boolean; error?: string }>;
+}
+
+function formatCurrency(amount: number) {
+  return new Intl.NumberFormat("cs-CZ", {
+    style: "currency",
+    currency: "CZK",
+  }).format(amount);
+}
+
+/**
+ * Refund summary, partial and full refund actions and refund history
+ */
+function OrderRefunds({ order, onRefund }: Pick<OrderDetailModalProps, "order" | "onRefund">) {
+  const t = useTranslations("admin");
+  const [refundQuantities, setRefundQuantities] = useState<Record<string, number>>({});
+  const [refundReason, setRefundReason] = useState("");
+  const [refunding, setRefunding] = useState(false);
+  const [refundMessage, setRefundMessage] = useState<{ type: "success" | "error"; text: string }>();
+
+  const refunds = order.refunds || [];
+  const paidAmount = order.paidAmount ?? order.totalAmount;
+  const refundableAmount = getRefundableAmount(paidAmount, refunds);
+  const refundedQuantities = getRefundedQuantities(refunds);
+  const canRefund =
+    isRefundablePaymentStatus(order.paymentStatus as PaymentStatus) && refundableAmount > 0;
+  const selectedRefundItems = Object.entries(refundQuantities)
+    .filter(([, quantity]) => quantity > 0)
+    .map(([orderItemId, quantity]) => ({ orderItemId, quantity }));
+
+  const handleRefund = async (items?: RefundItemSelection[]) => {
+    if (
+      !(
+        items ||
+        window.confirm(t("refund.confirmFull", { amount: formatCurrency(refundableAmount) }))
+      )
+    ) {
+      return;
+    }
+
+    const amount = items
+      ? Math.min(
+          refundableAmount,
+          items.reduce((sum, item) => {
+            const orderItem = order.items?.find((i) => i.id === item.orderItemId);
+            return sum + (orderItem?.unitPrice || 0) * item.quantity;
+          }, 0)
+        )
+      : refundableAmount;
+
+    setRefunding(true);
+    setRefundMessage(undefined);
+    try {
+      const result = await onRefund(order.id, {
+        ...(items && { items }),
+        ...(refundReason.trim() && { reason: refundReason.trim() }),
+      });
+
+      if (result.success) {
+        setRefundQuantities({});
+        setRefundReason("");
+        setRefundMessage({
+          type: "success",
+          text: t("refund.success", { amount: formatCurrency(amount) }),
+        });
+      } else {
+        setRefundMessage({ type: "error", text: result.error || t("refund.error") });
+      }
+    } finally {
+      setRefunding(false);
+    }
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-6">
+      <h4 className="text-sm font-medium text-gray-900 mb-3">{t("refund.title")}</h4>
+
+      {order.dispute && (
+        <p className="mb-3 text-sm text-red-700 bg-red-50 p-3 rounded-lg">
+          {t("refund.dispute", { reason: order.dispute.reason })}
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm mb-4">
+        <div className="flex justify-between">
+          <span className="text-gray-500">{t("refund.refunded")}:</span>
+          <span className="font-medium">{formatCurrency(order.refundedAmount || 0)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-500">{t("refund.refundable")}:</span>
+          <span className="font-medium">{formatCurrency(refundableAmount)}</span>
+        </div>
+      </div>
+
+      {canRefund ? (
+        <div className="space-y-4">
+          {order.items && order.items.length > 0 && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 font-medium">{t("refund.item")}</th>
+                  <th className="py-1 font-medium">{t("price")}</th>
+                  <th className="py-1 font-medium">{t("refund.quantity")}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {order.items.map((item) => {
+                  const remaining = item.quantity - (refundedQuantities.get(item.id) || 0);
+                  return (
+                    <tr key={item.id} className="border-t border-gray-100">
+                      <td className="py-2">{item.productName}</td>
+                      <td className="py-2">{formatCurrency(item.unitPrice)}</td>
+                      <td className="py-2">
+                        <input
+                          type="number"
+                          min={0}
+                          max={remaining}
+                          disabled={remaining <= 0}
+                          value={refundQuantities[item.id] || 0}
+                          onChange={(e) =>
+                            setRefundQuantities((prev) => ({
+                              ...prev,
+                              [item.id]: Math.min(
+                                remaining,
+                                Math.max(0, Number.parseInt(e.target.value, 10) || 0)
+                              ),
+                            }))
+                          }
+                          className="w-20 px-2 py-1 border border-gray-300 rounded-lg disabled:bg-gray-100"
+                        />
+                        <span className="ml-2 text-gray-500">/ {remaining}</span>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+
+          <label className="block">
+            <span className="block text-sm font-medium text-gray-700 mb-2">
+              {t("refund.reason")}
+            </span>
+            <input
+              type="text"
+              value={refundReason}
+              onChange={(e) => setRefundReason(e.target.value)}
+              maxLength={500}
+              placeholder={t("refund.reasonPlaceholder")}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </label>
+
+          <div className="flex flex-wrap gap-3">
+            <button
+              type="button"
+              onClick={() => handleRefund(selectedRefundItems)}
+              disabled={refunding || selectedRefundItems.length === 0}
+              className="px-4 py-2 text-sm font-medium text-red-700 bg-white border border-red-300 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t("refund.refundItems")}
+            </button>
+            <button
+              type="button"
+              onClick={() => handleRefund()}
+              disabled={refunding}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 border border-transparent rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {refunding ? t("refund.processing") : t("refund.refundFull")}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">{t("refund.notAvailable")}</p>
+      )}
+
+      {refundMessage && (
+        <p
+          className={`mt-3 text-sm ${refundMessage.type === "success" ? "text-green-700" : "text-red-700"}`}
+        >
+          {refundMessage.text}
+        </p>
+      )}
+
+      {refunds.length > 0 && (
+        <div className="mt-4">
+          <h5 className="text-xs font-medium text-gray-500 uppercase mb-2">
+            {t("refund.history")}
+          </h5>
+          <ul className="space-y-1 text-sm">
+            {refunds.map((refund) => (
+              <li key={refund.id} className="flex justify-between">
+                <span>
+                  {new Date(refund.createdAt).toLocaleString("cs-CZ")}
+                  {refund.reason && ` – ${refund.reason}`}
+                </span>
+                <span className="font-medium">
+                  {formatCurrency(refund.amount)} ({refund.status})
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
 }
 
 // Status options will be generated using translations
@@ -36,10 +283,13 @@ export default function OrderDetailModal({
   order,
   onClose,
   onStatusUpdate,
+  onRefund,
 }: OrderDetailModalProps) {
   const t = useTranslations("admin");
   const [selectedStatus, setSelectedStatus] = useState(order.status);
   const [internalNotes, setInternalNotes] = useState(order.internalNotes || "");
+  const [deliveryPhotoUrl, setDeliveryPhotoUrl] = useState("");
+  const deliveryPhotoInputId = useId();
   const [loading, setLoading] = useState(false);
 
   const statusOptions = [
@@ -51,6 +301,15 @@ export default function OrderDetailModal({
     { value: "cancelled", label: t("cancelled") },
   ];
 
+  // Only offer the current status and the transitions the order lifecycle allows
+  const allowedStatuses = [order.status, ...getAllowedNextStatuses(order.status)];
+  const selectableStatusOptions = statusOptions.filter((option) =>
+    allowedStatuses.includes(option.value as Order["status"])
+  );
+
+  // The photo goes out with the purchaser's delivered notification
+  const isMarkingDelivered = selectedStatus === "delivered" && order.status !== "delivered";
+
   const handleStatusUpdate = async () => {
     if (selectedStatus === order.status && internalNotes === (order.internalNotes || "")) {
       return;
@@ -58,19 +317,17 @@ export default function OrderDetailModal({
 
     setLoading(true);
     try {
-      await onStatusUpdate(order.id, selectedStatus, internalNotes);
+      await onStatusUpdate(
+        order.id,
+        selectedStatus,
+        internalNotes,
+        isMarkingDelivered && deliveryPhotoUrl.trim() ? deliveryPhotoUrl.trim() : undefined
+      );
     } finally {
       setLoading(false);
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("cs-CZ", {
-      style: "currency",
-      currency: "CZK",
-    }).format(amount);
-  };
-
   const getStatusColor = (status: string) => {
     const colors = {
       pending: "bg-yellow-100 text-yellow-800",
@@ -189,9 +446,59 @@ export default function OrderDetailModal({
                           {new Date(order.preferredDate).toLocaleDateString("cs-CZ")}
                         </p>
                       </div>
+                      {order.deliveryPhotoUrl && (
+                        <div>
+                          <span className="text-gray-500">{t("deliveryPhoto")}:</span>
+                          <p className="font-medium">
+                            <a
+                              href={order.deliveryPhotoUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="text-blue-600 hover:underline"
+                            >
+                              {t("view")}
+                            </a>
+                          </p>
+                        </div>
+                      )}
                     </div>
                   </div>
 
+                  {/* Funeral service */}
+                  {order.funeral && (
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-900 mb-3">
+                        {t("funeralService")}
+                      </h4>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <span className="text-gray-500">{t("deceasedName")}:</span>
+                          <p className="font-medium">{order.funeral.deceasedName}</p>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">{t("ceremonyStart")}:</span>
+                          <p className="font-medium">
+                            {formatCeremonyStart(new Date(order.funeral.ceremonyStart))}
+                          </p>
+                        </div>
+                        <div>
+                          <span className="text-gray-500">{t("funeralVenue")}:</span>
+                          <p className="font-medium">{formatFuneralVenue(order.funeral)}</p>
+                        </div>
+                        {order.funeral.funeralHomeName || order.funeral.funeralHomePhone ? (
+                          <div>
+                            <span className="text-gray-500">{t("funeralHome")}:</span>
+                            <p className="font-medium">
+                              {[order.funeral.funeralHomeName, order.funeral.funeralHomePhone]
+                                .filter(Boolean)
+                                .join(", ")}
+                            </p>
+                          </div>
+                        ) : null}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Dates */}
                   <div>
                     <h4 className="text-sm font-medium text-gray-900 mb-3">{t("timeData")}</h4>
@@ -219,6 +526,8 @@ export default function OrderDetailModal({
                     </div>
                   )}
 
+                  <OrderRefunds order={order} onRefund={onRefund} />
+
                   {/* Status update section */}
                   <div className="border-t border-gray-200 pt-6">
                     <h4 className="text-sm font-medium text-gray-900 mb-3">{t("statusUpdate")}</h4>
@@ -232,7 +541,7 @@ export default function OrderDetailModal({
                           onChange={(e) => setSelectedStatus(e.target.value as any)}
                           className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         >
-                          {statusOptions.map((option) => (
+                          {selectableStatusOptions.map((option) => (
                             <option key={option.value} value={option.value}>
                               {option.label}
                             </option>
@@ -240,6 +549,26 @@ export default function OrderDetailModal({
                         </select>
                       </div>
 
+                      {isMarkingDelivered && (
+                        <div>
+                          <label
+                            htmlFor={deliveryPhotoInputId}
+                            className="block text-sm font-medium text-gray-700 mb-2"
+                          >
+                            {t("deliveryPhotoUrl")}
+                          </label>
+                          <input
+                            id={deliveryPhotoInputId}
+                            type="url"
+                            value={deliveryPhotoUrl}
+                            onChange={(e) => setDeliveryPhotoUrl(e.target.value)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            placeholder="https://"
+                          />
+                          <p className="mt-1 text-xs text-gray-500">{t("deliveryPhotoHint")}</p>
+                        </div>
+                      )}
+
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">
                           {t("internalNotesLabel")}
@@ -2,6 +2,7 @@
 
 import {
   CheckCircleIcon,
+  DocumentTextIcon,
   EyeIcon,
   MagnifyingGlassIcon,
   PencilIcon,
@@ -10,7 +11,10 @@ import {
 } from "@heroicons/react/24/outline";
 import { useTranslations } from "next-intl";
 import { useCallback, useEffect, useState } from "react";
-import OrderDetailModal from "./OrderDetailModal";
+import type { StoredFuneralDetails } from "@/lib/delivery/funeral";
+import { getDeliveryDateKey } from "@/lib/delivery/holidays";
+import type { PaymentDispute, RefundRecord } from "@/types/order";
+import OrderDetailModal, { type OrderRefundRequest } from "./OrderDetailModal";
 
 interface Order {
   id: string;
@@ -23,10 +27,23 @@ interface Order {
   itemCount: number;
   paymentMethod: string;
   paymentStatus: string;
+  paidAmount?: number;
+  refundedAmount?: number;
+  refunds?: RefundRecord[];
+  dispute?: PaymentDispute | null;
+  items?: {
+    id: string;
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    totalPrice: number;
+  }[];
   deliveryAddress: string;
   deliveryMethod?: "delivery" | "pickup";
   pickupLocation?: string;
   preferredDate: string;
+  funeral?: StoredFuneralDetails | null;
+  deliveryPhotoUrl?: string | null;
   createdAt: string;
   updatedAt: string;
   notes?: string;
@@ -44,6 +61,7 @@ export default function OrderManagement() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("");
   const [deliveryMethodFilter, setDeliveryMethodFilter] = useState("");
   const [dateFrom, setDateFrom] = useState("");
@@ -51,6 +69,8 @@ export default function OrderManagement() {
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
+  const [jobSheetDate, setJobSheetDate] = useState(() => getDeliveryDateKey(new Date()));
+  const [jobSheetError, setJobSheetError] = useState<string | null>(null);
 
   const statusOptions = [
     { value: "", label: t("allStatuses") },
@@ -76,6 +96,10 @@ export default function OrderManagement() {
         limit: "20",
       });
 
+      if (searchQuery) {
+        params.append("search", searchQuery);
+      }
+
       if (statusFilter) {
         params.append("status", statusFilter);
       }
@@ -99,13 +123,28 @@ export default function OrderManagement() {
     } finally {
       setLoading(false);
     }
-  }, [currentPage, statusFilter, dateFrom, dateTo]);
+  }, [currentPage, searchQuery, statusFilter, dateFrom, dateTo]);
 
   useEffect(() => {
     fetchOrders();
   }, [fetchOrders]);
 
-  const handleStatusUpdate = async (orderId: string, newStatus: string, internalNotes?: string) => {
+  // Search on the server (order number, email, name) once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearchQuery(searchTerm.trim());
+      setCurrentPage(1);
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const handleStatusUpdate = async (
+    orderId: string,
+    newStatus: string,
+    internalNotes?: string,
+    deliveryPhotoUrl?: string
+  ) => {
     try {
       const response = await fetch(`/api/admin/orders/${orderId}/status`, {
         method: "PUT",
@@ -115,6 +154,7 @@ export default function OrderManagement() {
         body: JSON.stringify({
           status: newStatus,
           internalNotes,
+          deliveryPhotoUrl,
         }),
       });
 
@@ -129,13 +169,72 @@ export default function OrderManagement() {
     }
   };
 
+  const handleRefund = async (orderId: string, refundRequest: OrderRefundRequest) => {
+    try {
+      const response = await fetch(`/api/admin/orders/${orderId}/refund`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(refundRequest),
+      });
+      const data = await response.json();
+
+      if (!(response.ok && data.success)) {
+        return { success: false, error: data.error };
+      }
+
+      // Keep the open detail in sync with the recorded refund
+      setSelectedOrder((prev) =>
+        prev && prev.id === orderId
+          ? {
+              ...prev,
+              paymentStatus: data.paymentInfo.status,
+              refundedAmount: data.paymentInfo.refundedAmount,
+              refunds: data.paymentInfo.refunds,
+            }
+          : prev
+      );
+      fetchOrders();
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error refunding order:", error);
+      return { success: false };
+    }
+  };
+
+  // Download a job sheet PDF; errors come back as JSON
+  const downloadJobSheet = async (url: string) => {
+    setJobSheetError(null);
+
+    try {
+      const response = await fetch(url);
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setJobSheetError(data?.error || t("jobSheetDownloadFailed"));
+        return;
+      }
+
+      const filename =
+        /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") || "")?.[1] ||
+        "zakazkovy-list.pdf";
+      const objectUrl = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = objectUrl;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(objectUrl);
+    } catch (error) {
+      console.error("Failed to download job sheet:", error);
+      setJobSheetError(t("jobSheetDownloadFailed"));
+    }
+  };
+
+  // Filter by delivery method (Requirement 9.7)
   const filteredOrders = orders.filter(
-    (order) =>
-      (order.orderNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        order.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        order.customerEmail.toLowerCase().includes(searchTerm.toLowerCase())) &&
-      // Filter by delivery method (Requirement 9.7)
-      (deliveryMethodFilter === "" || order.deliveryMethod === deliveryMethodFilter)
+    (order) => deliveryMethodFilter === "" || order.deliveryMethod === deliveryMethodFilter
   );
 
   const formatCurrency = (amount: number) => {
@@ -223,11 +322,39 @@ export default function OrderManagement() {
       {/* Header */}
       <div className="flex items-center justify-between">
         <h2 className="text-2xl font-bold text-stone-900">{t("orderManagement")}</h2>
-        <div className="text-sm text-stone-500">
-          {t("total")}: {filteredOrders.length} {t("orders")}
+        <div className="flex items-center space-x-4">
+          <div className="text-sm text-stone-500">
+            {t("total")}: {filteredOrders.length} {t("orders")}
+          </div>
+          {/* Job sheets of all orders due on a day */}
+          <input
+            type="date"
+            value={jobSheetDate}
+            onChange={(e) => setJobSheetDate(e.target.value)}
+            aria-label={t("jobSheetDate")}
+            className="px-3 py-2 border border-stone-300 rounded-lg focus:ring-2 focus:ring-stone-500 focus:border-stone-500 bg-white text-stone-900"
+          />
+          <Button
+            variant="outline"
+            disabled={!jobSheetDate}
+            onClick={() =>
+              downloadJobSheet(
+                `/api/admin/orders/job-sheets?date=${encodeURIComponent(jobSheetDate)}`
+              )
+            }
+          >
+            <DocumentTextIcon className="h-4 w-4 mr-2" />
+            {t("dailyJobSheets")}
+          </Button>
         </div>
       </div>
 
+      {jobSheetError && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {jobSheetError}
+        </div>
+      )}
+
       {/* Filters */}
       <Card padding="lg">
         <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
@@ -397,6 +524,17 @@ export default function OrderManagement() {
                       <div className="text-sm text-stone-500 mt-1">
                         {new Date(order.preferredDate).toLocaleDateString("cs-CZ")}
                       </div>
+                      {order.funeral && (
+                        <div className="text-sm font-medium text-amber-700 mt-1">
+                          {t("funeralService")}:{" "}
+                          {new Date(order.funeral.ceremonyStart).toLocaleString("cs-CZ", {
+                            day: "numeric",
+                            month: "numeric",
+                            hour: "2-digit",
+                            minute: "2-digit",
+                          })}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-stone-500">
                       {new Date(order.createdAt).toLocaleDateString("cs-CZ")}
@@ -412,6 +550,17 @@ export default function OrderManagement() {
                           <EyeIcon className="h-4 w-4" />
                         </Button>
 
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() =>
+                            downloadJobSheet(`/api/admin/orders/${order.id}/job-sheet`)
+                          }
+                          title={t("jobSheet")}
+                        >
+                          <DocumentTextIcon className="h-4 w-4" />
+                        </Button>
+
                         {getQuickActions(order).map((action, index) => (
                           <Button
                             key={index}
@@ -467,6 +616,7 @@ export default function OrderManagement() {
           order={selectedOrder}
           onClose={() => setSelectedOrder(null)}
           onStatusUpdate={handleStatusUpdate}
+          onRefund={handleRefund}
         />
       )}
     </div>
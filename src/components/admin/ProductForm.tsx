@@ -2,6 +2,8 @@
 
 import { ArrowLeftIcon } from "@heroicons/react/24/outline";
 import { useEffect, useState } from "react";
+import type { CustomizationOption } from "@/types/product";
+import ProductVariants from "./ProductVariants";
 
 interface Product {
   id: string;
@@ -17,6 +19,8 @@ interface Product {
   stock_quantity?: number;
   low_stock_threshold?: number;
   track_inventory?: boolean;
+  customization_options?: CustomizationOption[] | null;
+  stripe_product_id?: string | null;
 }
 
 interface Category {
@@ -386,6 +390,16 @@ export default function ProductForm({ product, categories, onSubmit, onCancel }:
           </div>
         </div>
 
+        {/* Size variants (require a saved product) */}
+        {product && (
+          <ProductVariants
+            productId={product.id}
+            basePrice={product.base_price}
+            customizationOptions={product.customization_options ?? null}
+            hasStripeProduct={Boolean(product.stripe_product_id)}
+          />
+        )}
+
         {/* Status */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <h3 className="text-lg font-semibold text-gray-900 mb-6">Stav produktu</h3>
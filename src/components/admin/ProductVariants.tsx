@@ -0,0 +1,349 @@
+"use client";
+
+import { ArrowPathIcon } from "@heroicons/react/24/outline";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { CustomizationOption, ProductVariant } from "@/types/product";
+
+interface ProductVariantsProps {
+  productId: string;
+  basePrice: number;
+  customizationOptions?: CustomizationOption[] | null;
+  hasStripeProduct: boolean;
+}
+
+interface VariantRow {
+  sizeChoiceId: string;
+  label: string;
+  enabled: boolean;
+  sku: string;
+  price: number;
+  stock: string; // Empty = made to order
+  imageUrls: string; // Comma separated
+  stripePriceId: string; // Read-only, set by the Stripe sync
+  isDefault: boolean;
+}
+
+/**
+ * Build one editable row per size choice, merged with stored variants
+ */
+function buildRows(
+  sizeOption: CustomizationOption | undefined,
+  variants: ProductVariant[],
+  basePrice: number
+): VariantRow[] {
+  if (!sizeOption) {
+    return [];
+  }
+
+  return sizeOption.choices.map((choice) => {
+    const variant = variants.find((v) => v.sizeChoiceId === choice.id);
+
+    return {
+      sizeChoiceId: choice.id,
+      label: typeof choice.label === "string" ? choice.label : choice.label.cs,
+      enabled: Boolean(variant?.active),
+      sku: variant?.sku || "",
+      price: variant?.price ?? basePrice + (choice.priceModifier || 0),
+      stock: typeof variant?.stockQuantity === "number" ? String(variant.stockQuantity) : "",
+      imageUrls: (variant?.images || []).map((image) => image.url).join(", "),
+      stripePriceId: variant?.stripePriceId || "",
+      isDefault: variant?.isDefault ?? false,
+    };
+  });
+}
+
+/**
+ * Variant fields sent to the variants API
+ */
+function toVariantInput(row: VariantRow) {
+  const stock = row.stock.trim();
+
+  return {
+    sizeChoiceId: row.sizeChoiceId,
+    sku: row.sku || null,
+    price: row.price,
+    stockQuantity: stock === "" ? null : Number(stock),
+    images: row.imageUrls
+      .split(",")
+      .map((url) => url.trim())
+      .filter(Boolean)
+      .map((url) => ({ url })),
+    isDefault: row.isDefault,
+  };
+}
+
+export default function ProductVariants({
+  productId,
+  basePrice,
+  customizationOptions,
+  hasStripeProduct,
+}: ProductVariantsProps) {
+  const sizeOption = useMemo(
+    () =>
+      (customizationOptions || []).find((option) => option.id === "size" || option.type === "size"),
+    [customizationOptions]
+  );
+
+  const [rows, setRows] = useState<VariantRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const applyVariants = useCallback(
+    (variants: ProductVariant[]) => {
+      setRows(buildRows(sizeOption, variants, basePrice));
+    },
+    [sizeOption, basePrice]
+  );
+
+  useEffect(() => {
+    const fetchVariants = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/admin/products/${productId}/variants`);
+        if (response.ok) {
+          const data = await response.json();
+          applyVariants(data.variants || []);
+        }
+      } catch (error) {
+        console.error("Failed to fetch product variants:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchVariants();
+  }, [productId, applyVariants]);
+
+  const updateRow = (sizeChoiceId: string, changes: Partial<VariantRow>) => {
+    setRows((prev) =>
+      prev.map((row) => {
+        if (row.sizeChoiceId === sizeChoiceId) {
+          return { ...row, ...changes };
+        }
+        // Only one default variant per product
+        return changes.isDefault ? { ...row, isDefault: false } : row;
+      })
+    );
+    setMessage(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/products/${productId}/variants`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          variants: rows.filter((row) => row.enabled).map(toVariantInput),
+        }),
+      });
+
+      const data = await response.json();
+      if (response.ok && data.success) {
+        applyVariants(data.variants || []);
+        setMessage({ type: "success", text: "Varianty byly uloženy" });
+      } else {
+        setMessage({ type: "error", text: data.error || "Chyba při ukládání variant" });
+      }
+    } catch (error) {
+      console.error("Error saving product variants:", error);
+      setMessage({ type: "error", text: "Chyba při ukládání variant" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/products/${productId}/variants/sync`, {
+        method: "POST",
+      });
+
+      const data = await response.json();
+      if (data.variants) {
+        applyVariants(data.variants);
+      }
+
+      if (response.ok && data.success) {
+        setMessage({
+          type: "success",
+          text: `Vytvořeno Stripe cen: ${data.created?.length || 0}`,
+        });
+      } else {
+        setMessage({
+          type: "error",
+          text: data.error || `Synchronizace selhala pro ${data.errors?.length || 0} variant`,
+        });
+      }
+    } catch (error) {
+      console.error("Error syncing product variants:", error);
+      setMessage({ type: "error", text: "Synchronizace se Stripe selhala" });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const missingStripePrices = rows.some((row) => row.enabled && !row.stripePriceId);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-gray-900">Varianty podle velikosti</h3>
+        <button
+          type="button"
+          onClick={handleSync}
+          disabled={syncing || !hasStripeProduct || !missingStripePrices}
+          title={hasStripeProduct ? undefined : "Produkt nemá přiřazený Stripe produkt"}
+          className="flex items-center px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+        >
+          <ArrowPathIcon className={`h-4 w-4 mr-1.5 ${syncing ? "animate-spin" : ""}`} />
+          Synchronizovat se Stripe
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Načítám varianty...</p>
+      ) : sizeOption ? (
+        <div className="space-y-4">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                <th className="py-2 pr-4">Velikost</th>
+                <th className="py-2 pr-4">SKU</th>
+                <th className="py-2 pr-4">Cena (Kč)</th>
+                <th className="py-2 pr-4">Skladem (ks)</th>
+                <th className="py-2 pr-4">Obrázky (URL)</th>
+                <th className="py-2 pr-4">Stripe price ID</th>
+                <th className="py-2">Výchozí</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {rows.map((row) => (
+                <tr key={row.sizeChoiceId}>
+                  <td className="py-2 pr-4">
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={row.enabled}
+                        onChange={(e) =>
+                          updateRow(row.sizeChoiceId, {
+                            enabled: e.target.checked,
+                            ...(!e.target.checked && { isDefault: false }),
+                          })
+                        }
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="ml-2">{row.label}</span>
+                    </label>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="text"
+                      value={row.sku}
+                      disabled={!row.enabled}
+                      onChange={(e) =>
+                        updateRow(row.sizeChoiceId, { sku: e.target.value.trim().toUpperCase() })
+                      }
+                      className="w-36 px-3 py-1.5 border border-gray-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                      placeholder="VENEC-150"
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={row.price}
+                      disabled={!row.enabled}
+                      onChange={(e) =>
+                        updateRow(row.sizeChoiceId, {
+                          price: Number.parseFloat(e.target.value) || 0,
+                        })
+                      }
+                      className="w-32 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={row.stock}
+                      disabled={!row.enabled}
+                      onChange={(e) => updateRow(row.sizeChoiceId, { stock: e.target.value })}
+                      className="w-24 px-3 py-1.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                      placeholder="Na objednávku"
+                      title="Prázdné pole znamená výrobu na objednávku"
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="text"
+                      value={row.imageUrls}
+                      disabled={!row.enabled}
+                      onChange={(e) => updateRow(row.sizeChoiceId, { imageUrls: e.target.value })}
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:bg-gray-50"
+                      placeholder="https://..., https://..."
+                    />
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span
+                      className="font-mono text-sm text-gray-700"
+                      title={
+                        row.stripePriceId
+                          ? undefined
+                          : "Cena se vytvoří synchronizací se Stripe po uložení"
+                      }
+                    >
+                      {row.stripePriceId || "—"}
+                    </span>
+                  </td>
+                  <td className="py-2">
+                    <input
+                      type="radio"
+                      name="default-product-variant"
+                      checked={row.isDefault}
+                      disabled={!row.enabled}
+                      onChange={() => updateRow(row.sizeChoiceId, { isDefault: true })}
+                      className="border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {message && (
+            <p
+              className={`text-sm ${message.type === "success" ? "text-green-600" : "text-red-600"}`}
+            >
+              {message.text}
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? "Ukládám..." : "Uložit varianty"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Produkt nemá volbu velikosti. Pro platbu se použije Stripe cena produktu.
+        </p>
+      )}
+    </div>
+  );
+}
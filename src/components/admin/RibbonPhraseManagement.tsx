@@ -0,0 +1,337 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { breakRibbonText, RIBBON_WIDTHS } from "@/lib/ribbon/layout";
+import {
+  RIBBON_PHRASE_MAX_LENGTH,
+  RIBBON_PHRASE_RELATIONSHIPS,
+  type RibbonPhrase,
+  type RibbonPhraseInput,
+  type RibbonPhraseRelationship,
+} from "@/lib/ribbon/phrases";
+
+const RELATIONSHIP_LABELS: Record<RibbonPhraseRelationship, string> = {
+  family: "Rodina",
+  colleagues: "Kolegové",
+  friends: "Přátelé",
+};
+
+const EMPTY_FORM: RibbonPhraseInput = {
+  relationship: "family",
+  text: { cs: "", en: "" },
+  sortOrder: 0,
+  active: true,
+};
+
+// Phrases that fit the narrowest ribbon can be offered with every wreath size
+function fitsNarrowestRibbon(text: string): boolean {
+  return !breakRibbonText(text, RIBBON_WIDTHS[50]).overflow;
+}
+
+export default function RibbonPhraseManagement() {
+  const [phrases, setPhrases] = useState<RibbonPhrase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<RibbonPhraseInput>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPhrases = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch("/api/admin/ribbon-phrases");
+      if (response.ok) {
+        const data = await response.json();
+        setPhrases(data.phrases || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch ribbon phrases:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPhrases();
+  }, [fetchPhrases]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const startEditing = (phrase: RibbonPhrase) => {
+    setForm({
+      relationship: phrase.relationship,
+      text: phrase.text,
+      sortOrder: phrase.sortOrder,
+      active: phrase.active,
+    });
+    setEditingId(phrase.id);
+    setError(null);
+  };
+
+  const savePhrase = async (id: string | null, input: RibbonPhraseInput) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        id ? `/api/admin/ribbon-phrases/${id}` : "/api/admin/ribbon-phrases",
+        {
+          method: id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        }
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Frázi se nepodařilo uložit");
+        return false;
+      }
+
+      await fetchPhrases();
+      return true;
+    } catch (error) {
+      console.error("Failed to save ribbon phrase:", error);
+      setError("Frázi se nepodařilo uložit");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (await savePhrase(editingId, form)) {
+      resetForm();
+    }
+  };
+
+  const handleToggleActive = (phrase: RibbonPhrase) =>
+    savePhrase(phrase.id, {
+      relationship: phrase.relationship,
+      text: phrase.text,
+      sortOrder: phrase.sortOrder,
+      active: !phrase.active,
+    });
+
+  const handleDelete = async (phrase: RibbonPhrase) => {
+    if (!confirm(`Opravdu smazat frázi „${phrase.text.cs}“?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/ribbon-phrases/${phrase.id}`, {
+        method: "DELETE",
+      });
+      if (response.ok) {
+        setPhrases((current) => current.filter((entry) => entry.id !== phrase.id));
+        if (editingId === phrase.id) {
+          resetForm();
+        }
+      }
+    } catch (error) {
+      console.error("Failed to delete ribbon phrase:", error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">Texty stuh</h2>
+        <button
+          type="button"
+          onClick={fetchPhrases}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Obnovit
+        </button>
+      </div>
+
+      {/* Phrase form */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4"
+      >
+        <h3 className="text-lg font-medium text-gray-900">
+          {editingId ? "Upravit frázi" : "Nová fráze"}
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm text-gray-700">
+            Text (česky)
+            <input
+              type="text"
+              value={form.text.cs}
+              onChange={(event) =>
+                setForm((current) => ({
+                  ...current,
+                  text: { ...current.text, cs: event.target.value },
+                }))
+              }
+              maxLength={RIBBON_PHRASE_MAX_LENGTH}
+              required
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Text (anglicky)
+            <input
+              type="text"
+              value={form.text.en}
+              onChange={(event) =>
+                setForm((current) => ({
+                  ...current,
+                  text: { ...current.text, en: event.target.value },
+                }))
+              }
+              maxLength={RIBBON_PHRASE_MAX_LENGTH}
+              required
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Vztah k zesnulému
+            <select
+              value={form.relationship}
+              onChange={(event) =>
+                setForm((current) => ({
+                  ...current,
+                  relationship: event.target.value as RibbonPhraseRelationship,
+                }))
+              }
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              {RIBBON_PHRASE_RELATIONSHIPS.map((relationship) => (
+                <option key={relationship} value={relationship}>
+                  {RELATIONSHIP_LABELS[relationship]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            Pořadí
+            <input
+              type="number"
+              step={1}
+              value={form.sortOrder ?? 0}
+              onChange={(event) =>
+                setForm((current) => ({ ...current, sortOrder: Number(event.target.value) }))
+              }
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+        </div>
+
+        {form.text.cs.trim() && !fitsNarrowestRibbon(form.text.cs) && (
+          <p className="text-sm text-amber-700">
+            Na nejužší stuhu ({RIBBON_WIDTHS[50].widthMm} mm) se text nevejde; zákazníci s malým
+            věncem jej budou muset zkrátit.
+          </p>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {editingId ? "Uložit změny" : "Přidat frázi"}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+            >
+              Zrušit
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Library */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {loading ? (
+          <div className="p-6 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto" />
+          </div>
+        ) : phrases.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">Knihovna frází je prázdná</div>
+        ) : (
+          RIBBON_PHRASE_RELATIONSHIPS.map((relationship) => {
+            const group = phrases
+              .filter((phrase) => phrase.relationship === relationship)
+              .sort((a, b) => a.sortOrder - b.sortOrder);
+
+            if (group.length === 0) {
+              return null;
+            }
+
+            return (
+              <div key={relationship} className="border-b border-gray-200 last:border-b-0">
+                <h3 className="px-6 py-3 bg-gray-50 text-sm font-medium text-gray-700">
+                  {RELATIONSHIP_LABELS[relationship]}
+                </h3>
+                <div className="divide-y divide-gray-200">
+                  {group.map((phrase) => (
+                    <div key={phrase.id} className="px-6 py-4 flex items-start justify-between">
+                      <div>
+                        <p
+                          className={`text-sm font-medium ${
+                            phrase.active ? "text-gray-900" : "text-gray-400 line-through"
+                          }`}
+                        >
+                          {phrase.text.cs}
+                        </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {phrase.text.en} · pořadí {phrase.sortOrder}
+                        </p>
+                        {!fitsNarrowestRibbon(phrase.text.cs) && (
+                          <p className="text-xs text-amber-700 mt-1">Nevejde se na nejužší stuhu</p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => startEditing(phrase)}
+                          className="px-3 py-1 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+                        >
+                          Upravit
+                        </button>
+                        <button
+                          type="button"
+                          disabled={saving}
+                          onClick={() => handleToggleActive(phrase)}
+                          className="px-3 py-1 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {phrase.active ? "Skrýt" : "Zobrazit"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(phrase)}
+                          className="px-3 py-1 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700"
+                        >
+                          Smazat
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { USER_ROLES, type UserRole } from "@/lib/auth/permissions";
+
+interface UserRoleEntry {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  customer: "Zákazník",
+  florist: "Florista",
+  admin: "Administrátor",
+  super_admin: "Hlavní administrátor",
+};
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  customer: "Bez přístupu do administrace",
+  florist: "Objednávky a skladové zásoby",
+  admin: "Celá administrace kromě správy rolí",
+  super_admin: "Celá administrace včetně správy rolí",
+};
+
+export default function UserRoleManagement() {
+  const [users, setUsers] = useState<UserRoleEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const params = query ? `?search=${encodeURIComponent(query)}` : "";
+      const response = await fetch(`/api/admin/users${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setUsers(data.users || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch users:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const handleRoleChange = async (user: UserRoleEntry, role: UserRole) => {
+    setSavingUserId(user.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/role`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ role }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Roli se nepodařilo změnit");
+        return;
+      }
+
+      setUsers((current) => current.map((entry) => (entry.id === user.id ? data.user : entry)));
+    } catch (error) {
+      console.error("Failed to update user role:", error);
+      setError("Roli se nepodařilo změnit");
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">Uživatelé a role</h2>
+        <button
+          type="button"
+          onClick={fetchUsers}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Obnovit
+        </button>
+      </div>
+
+      {/* Search */}
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          setQuery(search.trim());
+        }}
+        className="flex space-x-2"
+      >
+        <input
+          type="search"
+          value={search}
+          onChange={(event) => setSearch(event.target.value)}
+          placeholder="Vyhledat uživatele podle e-mailu nebo jména..."
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+        >
+          Hledat
+        </button>
+      </form>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {/* Users */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {loading ? (
+          <div className="p-6 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto" />
+          </div>
+        ) : users.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">
+            {query ? "Žádný uživatel neodpovídá hledání" : "Žádní uživatelé s přístupem"}
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {users.map((user) => (
+              <div key={user.id} className="p-6 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{user.name || user.email}</p>
+                  {user.name && <p className="text-sm text-gray-500">{user.email}</p>}
+                  <p className="text-xs text-gray-400 mt-1">{ROLE_DESCRIPTIONS[user.role]}</p>
+                </div>
+
+                <select
+                  value={user.role}
+                  disabled={savingUserId === user.id}
+                  onChange={(event) => handleRoleChange(user, event.target.value as UserRole)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                >
+                  {USER_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
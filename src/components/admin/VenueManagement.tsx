@@ -0,0 +1,529 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { FUNERAL_VENUE_TYPE_LABELS, FUNERAL_VENUE_TYPES } from "@/lib/delivery/funeral";
+import {
+  DELIVERY_TIME_SLOT_HOURS,
+  formatOpeningHours,
+  VENUE_DELIVERY_NOTES_MAX_LENGTH,
+  VENUE_NAME_MAX_LENGTH,
+  VENUE_WEEKDAY_LABELS,
+  type VenueInput,
+} from "@/lib/delivery/venues";
+import type {
+  DeliveryTimeSlot,
+  DeliveryUrgency,
+  DeliveryZone,
+  FuneralVenueType,
+  Venue,
+  VenueOpeningHours,
+} from "@/types/delivery";
+
+const TIME_SLOT_LABELS: Record<DeliveryTimeSlot, string> = {
+  morning: "Dopoledne",
+  afternoon: "Odpoledne",
+  evening: "Večer",
+  anytime: "Kdykoliv",
+};
+
+const URGENCY_LABELS: Record<DeliveryUrgency, string> = {
+  standard: "Standardní",
+  express: "Expresní",
+  "same-day": "Tentýž den",
+};
+
+// Days in the order of the Czech week, Monday first
+const WEEK_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const EMPTY_FORM: VenueInput = {
+  name: "",
+  venueType: "ceremony_hall",
+  address: { street: "", city: "", postalCode: "", country: "CZ" },
+  openingHours: [],
+  deliveryNotes: "",
+  zoneId: null,
+  allowedTimeSlots: null,
+  allowedUrgencies: null,
+  active: true,
+};
+
+function toVenueInput(venue: Venue): VenueInput {
+  return {
+    name: venue.name,
+    venueType: venue.venueType,
+    address: venue.address,
+    openingHours: venue.openingHours,
+    deliveryNotes: venue.deliveryNotes ?? "",
+    zoneId: venue.zoneId ?? null,
+    allowedTimeSlots: venue.allowedTimeSlots ?? null,
+    allowedUrgencies: venue.allowedUrgencies ?? null,
+    active: venue.active,
+  };
+}
+
+/**
+ * Add or remove a value; an empty selection means every value is accepted (null)
+ */
+function toggleAllowed<T extends string>(values: T[] | null | undefined, value: T): T[] | null {
+  const current = values ?? [];
+  const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+  return next.length > 0 ? next : null;
+}
+
+function describeRestrictions(venue: Venue): string | null {
+  const parts = [
+    venue.allowedTimeSlots &&
+      `okna: ${venue.allowedTimeSlots.map((slot) => TIME_SLOT_LABELS[slot]).join(", ")}`,
+    venue.allowedUrgencies &&
+      `doručení: ${venue.allowedUrgencies.map((urgency) => URGENCY_LABELS[urgency]).join(", ")}`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+interface OpeningHoursEditorProps {
+  openingHours: VenueOpeningHours[];
+  onChange: (openingHours: VenueOpeningHours[]) => void;
+}
+
+function OpeningHoursEditor({ openingHours, onChange }: OpeningHoursEditorProps) {
+  const update = (day: number, changes: Partial<VenueOpeningHours> | null) => {
+    const others = openingHours.filter((entry) => entry.day !== day);
+    const current = openingHours.find((entry) => entry.day === day) ?? {
+      day,
+      open: "08:00",
+      close: "16:00",
+    };
+    onChange(changes ? [...others, { ...current, ...changes }] : others);
+  };
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm text-gray-700 mb-1">
+        Přebírání zásilek (bez zaškrtnutých dnů je otevírací doba neznámá)
+      </legend>
+      {WEEK_DAYS.map((day) => {
+        const entry = openingHours.find((hours) => hours.day === day);
+        return (
+          <div key={day} className="flex items-center space-x-3 text-sm text-gray-700">
+            <label className="flex items-center space-x-2 w-16">
+              <input
+                type="checkbox"
+                checked={!!entry}
+                onChange={(event) => update(day, event.target.checked ? {} : null)}
+              />
+              <span>{VENUE_WEEKDAY_LABELS[day]}</span>
+            </label>
+            {entry && (
+              <>
+                <input
+                  type="time"
+                  value={entry.open}
+                  onChange={(event) => update(day, { open: event.target.value })}
+                  aria-label={`${VENUE_WEEKDAY_LABELS[day]} od`}
+                  className="px-2 py-1 border border-gray-300 rounded-lg"
+                />
+                <span>–</span>
+                <input
+                  type="time"
+                  value={entry.close}
+                  onChange={(event) => update(day, { close: event.target.value })}
+                  aria-label={`${VENUE_WEEKDAY_LABELS[day]} do`}
+                  className="px-2 py-1 border border-gray-300 rounded-lg"
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+    </fieldset>
+  );
+}
+
+interface AllowedValuesFieldProps<T extends string> {
+  legend: string;
+  labels: Record<T, string>;
+  values: T[] | null | undefined;
+  onChange: (values: T[] | null) => void;
+}
+
+function AllowedValuesField<T extends string>({
+  legend,
+  labels,
+  values,
+  onChange,
+}: AllowedValuesFieldProps<T>) {
+  return (
+    <fieldset>
+      <legend className="text-sm text-gray-700 mb-1">{legend}</legend>
+      <div className="flex flex-wrap gap-3">
+        {(Object.keys(labels) as T[]).map((value) => (
+          <label key={value} className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={values?.includes(value) ?? false}
+              onChange={() => onChange(toggleAllowed(values, value))}
+            />
+            <span>{labels[value]}</span>
+          </label>
+        ))}
+      </div>
+    </fieldset>
+  );
+}
+
+export default function VenueManagement() {
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<VenueInput>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVenues = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [venuesResponse, zonesResponse] = await Promise.all([
+        fetch("/api/admin/venues"),
+        fetch("/api/admin/delivery-zones"),
+      ]);
+      if (venuesResponse.ok) {
+        const data = await venuesResponse.json();
+        setVenues(data.venues || []);
+      }
+      if (zonesResponse.ok) {
+        const data = await zonesResponse.json();
+        setZones(data.zones || []);
+      }
+    } catch (error) {
+      console.error("Failed to fetch venues:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchVenues();
+  }, [fetchVenues]);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const startEditing = (venue: Venue) => {
+    setForm(toVenueInput(venue));
+    setEditingId(venue.id);
+    setError(null);
+  };
+
+  const updateAddress = (field: keyof VenueInput["address"], value: string) =>
+    setForm((current) => ({ ...current, address: { ...current.address, [field]: value } }));
+
+  const saveVenue = async (id: string | null, input: VenueInput) => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(id ? `/api/admin/venues/${id}` : "/api/admin/venues", {
+        method: id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || "Místo se nepodařilo uložit");
+        return false;
+      }
+
+      await fetchVenues();
+      return true;
+    } catch (error) {
+      console.error("Failed to save venue:", error);
+      setError("Místo se nepodařilo uložit");
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (await saveVenue(editingId, form)) {
+      resetForm();
+    }
+  };
+
+  const handleToggleActive = (venue: Venue) =>
+    saveVenue(venue.id, { ...toVenueInput(venue), active: !venue.active });
+
+  const handleDelete = async (venue: Venue) => {
+    if (!confirm(`Opravdu smazat místo „${venue.name}“?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/venues/${venue.id}`, { method: "DELETE" });
+      if (response.ok) {
+        setVenues((current) => current.filter((entry) => entry.id !== venue.id));
+        if (editingId === venue.id) {
+          resetForm();
+        }
+      }
+    } catch (error) {
+      console.error("Failed to delete venue:", error);
+    }
+  };
+
+  const zoneName = (zoneId: string | undefined) =>
+    zoneId ? (zones.find((zone) => zone.id === zoneId)?.name ?? "neznámá zóna") : "podle PSČ";
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900">Obřadní místa</h2>
+        <button
+          type="button"
+          onClick={fetchVenues}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Obnovit
+        </button>
+      </div>
+
+      {/* Venue form */}
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4"
+      >
+        <h3 className="text-lg font-medium text-gray-900">
+          {editingId ? "Upravit místo" : "Nové místo"}
+        </h3>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm text-gray-700">
+            Název
+            <input
+              type="text"
+              value={form.name}
+              onChange={(event) => setForm((current) => ({ ...current, name: event.target.value }))}
+              maxLength={VENUE_NAME_MAX_LENGTH}
+              required
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <label className="block text-sm text-gray-700">
+            Typ místa
+            <select
+              value={form.venueType}
+              onChange={(event) =>
+                setForm((current) => ({
+                  ...current,
+                  venueType: event.target.value as FuneralVenueType,
+                }))
+              }
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              {FUNERAL_VENUE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {FUNERAL_VENUE_TYPE_LABELS[type].cs}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            Ulice a číslo
+            <input
+              type="text"
+              value={form.address.street}
+              onChange={(event) => updateAddress("street", event.target.value)}
+              required
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-sm text-gray-700">
+              Město
+              <input
+                type="text"
+                value={form.address.city}
+                onChange={(event) => updateAddress("city", event.target.value)}
+                required
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              PSČ
+              <input
+                type="text"
+                value={form.address.postalCode}
+                onChange={(event) => updateAddress("postalCode", event.target.value)}
+                required
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+              />
+            </label>
+          </div>
+          <label className="block text-sm text-gray-700">
+            Doručovací zóna
+            <select
+              value={form.zoneId ?? ""}
+              onChange={(event) =>
+                setForm((current) => ({ ...current, zoneId: event.target.value || null }))
+              }
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">Podle PSČ</option>
+              {zones.map((zone) => (
+                <option key={zone.id} value={zone.id}>
+                  {zone.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700">
+            Pokyny k doručení
+            <textarea
+              value={form.deliveryNotes ?? ""}
+              onChange={(event) =>
+                setForm((current) => ({ ...current, deliveryNotes: event.target.value }))
+              }
+              maxLength={VENUE_DELIVERY_NOTES_MAX_LENGTH}
+              rows={2}
+              placeholder="Např. vjezd bránou z boční ulice, věnce přebírá správce"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+            />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <OpeningHoursEditor
+            openingHours={form.openingHours ?? []}
+            onChange={(openingHours) => setForm((current) => ({ ...current, openingHours }))}
+          />
+          <div className="space-y-4">
+            <AllowedValuesField
+              legend="Přijímaná časová okna (bez výběru všechna)"
+              labels={TIME_SLOT_LABELS}
+              values={form.allowedTimeSlots}
+              onChange={(allowedTimeSlots) =>
+                setForm((current) => ({ ...current, allowedTimeSlots }))
+              }
+            />
+            <AllowedValuesField
+              legend="Přijímané typy doručení (bez výběru všechny)"
+              labels={URGENCY_LABELS}
+              values={form.allowedUrgencies}
+              onChange={(allowedUrgencies) =>
+                setForm((current) => ({ ...current, allowedUrgencies }))
+              }
+            />
+            <p className="text-xs text-gray-500">
+              Časová okna:{" "}
+              {(Object.keys(DELIVERY_TIME_SLOT_HOURS) as DeliveryTimeSlot[])
+                .map(
+                  (slot) =>
+                    `${TIME_SLOT_LABELS[slot]} ${DELIVERY_TIME_SLOT_HOURS[slot].start}–${DELIVERY_TIME_SLOT_HOURS[slot].end} h`
+                )
+                .join(", ")}
+            </p>
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {editingId ? "Uložit změny" : "Přidat místo"}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+            >
+              Zrušit
+            </button>
+          )}
+        </div>
+      </form>
+
+      {/* Directory */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        {loading ? (
+          <div className="p-6 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto" />
+          </div>
+        ) : venues.length === 0 ? (
+          <div className="p-6 text-center text-gray-500">Adresář míst je prázdný</div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {venues.map((venue) => {
+              const openingHours = formatOpeningHours(venue.openingHours);
+              const restrictions = describeRestrictions(venue);
+
+              return (
+                <div key={venue.id} className="px-6 py-4 flex items-start justify-between">
+                  <div>
+                    <p
+                      className={`text-sm font-medium ${
+                        venue.active ? "text-gray-900" : "text-gray-400 line-through"
+                      }`}
+                    >
+                      {venue.name}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {FUNERAL_VENUE_TYPE_LABELS[venue.venueType].cs} · {venue.address.street},{" "}
+                      {venue.address.postalCode} {venue.address.city} · zóna{" "}
+                      {zoneName(venue.zoneId)}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {openingHours.length > 0 ? openingHours.join(", ") : "Otevírací doba neznámá"}
+                    </p>
+                    {restrictions && (
+                      <p className="text-xs text-amber-700 mt-1">Omezení: {restrictions}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => startEditing(venue)}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-sm hover:bg-gray-50"
+                    >
+                      Upravit
+                    </button>
+                    <button
+                      type="button"
+                      disabled={saving}
+                      onClick={() => handleToggleActive(venue)}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {venue.active ? "Skrýt" : "Zobrazit"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(venue)}
+                      className="px-3 py-1 bg-red-600 text-white rounded-lg text-sm hover:bg-red-700"
+                    >
+                      Smazat
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -9,3 +9,4 @@ export { default as OrderDetailModal } from "./OrderDetailModal";
 export { default as OrderManagement } from "./OrderManagement";
 export { default as ProductForm } from "./ProductForm";
 export { default as ProductManagement } from "./ProductManagement";
+export { default as UserRoleManagement } from "./UserRoleManagement";
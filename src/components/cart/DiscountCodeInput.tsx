@@ -0,0 +1,95 @@
+"use client";
+
+import { useTranslations } from "next-intl";
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { Input } from "@/components/ui/Input";
+import { useCart } from "@/lib/cart/context";
+
+interface DiscountCodeInputProps {
+  className?: string;
+  /** Text color classes for the applied-code row, so it fits light and dark cards */
+  textClassName?: string;
+}
+
+export function DiscountCodeInput({
+  className = "",
+  textClassName = "text-amber-100",
+}: DiscountCodeInputProps) {
+  const t = useTranslations("cart.discount");
+  const { appliedDiscount, applyDiscountCode, removeDiscountCode } = useCart();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const handleApply = async () => {
+    if (!code.trim()) {
+      return;
+    }
+
+    setIsApplying(true);
+    setError(null);
+
+    const result = await applyDiscountCode(code);
+
+    if (result.success) {
+      setCode("");
+    } else {
+      setError(t(`errors.${result.errorCode || "UNKNOWN"}`));
+    }
+
+    setIsApplying(false);
+  };
+
+  if (appliedDiscount) {
+    return (
+      <div className={`flex items-center justify-between w-full ${className}`}>
+        <span className={`text-sm ${textClassName}`}>
+          {t("applied", { code: appliedDiscount.code })}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={removeDiscountCode}
+          className="text-red-600 hover:text-red-700 hover:bg-amber-100"
+        >
+          {t("remove")}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`w-full ${className}`}>
+      <div className="flex gap-2 items-start">
+        <div className="flex-1">
+          <Input
+            value={code}
+            onChange={(e) => {
+              setCode(e.target.value);
+              setError(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleApply();
+              }
+            }}
+            placeholder={t("placeholder")}
+            aria-label={t("title")}
+            maxLength={64}
+            {...(error && { error })}
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleApply}
+          disabled={isApplying || !code.trim()}
+          className="text-teal-800"
+        >
+          {t("apply")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { useTranslations } from "next-intl";
 import { useEffect, useState } from "react";
 import { CartItemImage } from "@/components/cart/CartItemImage";
+import { DiscountCodeInput } from "@/components/cart/DiscountCodeInput";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/Card";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
@@ -21,7 +22,7 @@ interface ShoppingCartProps {
 
 export function ShoppingCart({ locale, showHeader = true, className = "" }: ShoppingCartProps) {
   const t = useTranslations("cart");
-  const { state, updateQuantity, removeItem, clearAllItems } = useCart();
+  const { state, updateQuantity, removeItem, clearAllItems, appliedDiscount } = useCart();
   const router = useRouter();
   const searchParams = useSearchParams();
   const [showClearConfirm, setShowClearConfirm] = useState(false);
@@ -170,6 +171,7 @@ export function ShoppingCart({ locale, showHeader = true, className = "" }: Shop
 
   const subtotal = state.items.reduce((sum, item) => sum + (item.totalPrice || 0), 0);
   const itemCount = state.items.reduce((sum, item) => sum + item.quantity, 0);
+  const discountAmount = appliedDiscount?.amount || 0;
 
   // Check if all items have delivery method selected
   const hasDeliveryMethod = state.items.every((item) =>
@@ -410,6 +412,28 @@ export function ShoppingCart({ locale, showHeader = true, className = "" }: Shop
           </span>
         </div>
 
+        {/* Discount Code */}
+        <DiscountCodeInput />
+
+        {appliedDiscount && (
+          <>
+            <div className="flex justify-between items-center w-full">
+              <span className="text-amber-100">
+                {t("discount.line", { code: appliedDiscount.code })}
+              </span>
+              <span className="text-amber-100">
+                -{formatPrice(discountAmount, locale as "cs" | "en")}
+              </span>
+            </div>
+            <div className="flex justify-between items-center w-full">
+              <span className="text-lg font-medium text-amber-100">{t("total")}</span>
+              <span className="text-lg font-semibold text-amber-100">
+                {formatPrice(Math.max(0, subtotal - discountAmount), locale as "cs" | "en")}
+              </span>
+            </div>
+          </>
+        )}
+
         {/* Success Message */}
         {clearSuccess && (
           <div className="w-full p-3 bg-green-50 border border-green-200 rounded-lg">
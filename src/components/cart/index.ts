@@ -7,5 +7,6 @@ export {
 } from "./animations";
 export { CartIcon } from "./CartIcon";
 export { CartItemImage } from "./CartItemImage";
+export { DiscountCodeInput } from "./DiscountCodeInput";
 export { useAnimationSequence } from "./hooks";
 export { ShoppingCart } from "./ShoppingCart";
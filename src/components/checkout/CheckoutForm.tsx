@@ -1,9 +1,12 @@
 "use client";
 
 import { useTranslations } from "next-intl";
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { Card, CardContent } from "@/components/ui/Card";
+import { useCart } from "@/lib/cart/context";
+import { parseFuneralDetails } from "@/lib/delivery/funeral";
+import { toDateKey } from "@/lib/delivery/holidays";
 import { CheckIcon, ChevronLeftIcon, ChevronRightIcon, ExclamationTriangleIcon } from "@/lib/icons";
 import { formatValidationErrors } from "@/lib/validation/checkout";
 import { hasStepValidationErrors, stepValidationSchema } from "@/lib/validation/checkout-steps";
@@ -33,6 +36,7 @@ const STEP_TITLES = {
 export function CheckoutForm({ items, locale, className = "" }: CheckoutFormProps) {
   const t = useTranslations("checkout");
   const tCommon = useTranslations("common");
+  const { appliedDiscount } = useCart();
 
   // Initialize checkout state
   const [state, setState] = useState<CheckoutState>({
@@ -49,8 +53,6 @@ export function CheckoutForm({ items, locale, className = "" }: CheckoutFormProp
     deliveryCost: 0,
   });
 
-
-
   // Handle step navigation
   const goToStep = (step: CheckoutStep) => {
     // Clear errors when navigating to preserve validated data
@@ -125,7 +127,22 @@ export function CheckoutForm({ items, locale, className = "" }: CheckoutFormProp
 
   // Calculate totals
   const subtotal = items.reduce((sum, item) => sum + (item.totalPrice || 0), 0);
-  const totalAmount = subtotal + state.deliveryCost;
+  const discountAmount = appliedDiscount?.amount || 0;
+  const totalAmount = Math.max(0, subtotal - discountAmount) + state.deliveryCost;
+
+  // Delivery slot held while the customer pays
+  const { preferredDate, preferredTimeSlot } = state.formData.deliveryInfo;
+  const deliverySlot = useMemo(
+    () =>
+      preferredDate
+        ? { date: toDateKey(preferredDate), timeSlot: preferredTimeSlot || "anytime" }
+        : undefined,
+    [preferredDate, preferredTimeSlot]
+  );
+
+  // Funeral service the delivery goes to, passed on with the order once complete
+  const funeralDraft = state.formData.deliveryInfo.funeral;
+  const funeral = useMemo(() => parseFuneralDetails(funeralDraft) ?? undefined, [funeralDraft]);
 
   return (
     <div className={`checkout-form ${className}`}>
@@ -148,11 +165,12 @@ export function CheckoutForm({ items, locale, className = "" }: CheckoutFormProp
                     disabled={!isClickable}
                     className={`
                       flex items-center justify-center w-10 h-10 rounded-full border-2 transition-all duration-200
-                      ${isActive
-                        ? "border-amber-300 bg-teal-800 text-amber-300 shadow-md"
-                        : isCompleted
-                          ? "border-green-500 bg-green-500 text-amber-200 shadow-sm"
-                          : "border-amber-100 bg-teal-800 text-amber-100"
+                      ${
+                        isActive
+                          ? "border-amber-300 bg-teal-800 text-amber-300 shadow-md"
+                          : isCompleted
+                            ? "border-green-500 bg-green-500 text-amber-200 shadow-sm"
+                            : "border-amber-100 bg-teal-800 text-amber-100"
                       }
                       ${isClickable ? "cursor-pointer hover:border-amber-300 hover:shadow-md" : "cursor-not-allowed"}
                       focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-amber-100/20
@@ -237,12 +255,16 @@ export function CheckoutForm({ items, locale, className = "" }: CheckoutFormProp
               items={items}
               subtotal={subtotal}
               totalAmount={totalAmount}
+              discount={appliedDiscount}
               agreeToTerms={state.formData.agreeToTerms}
               subscribeNewsletter={state.formData.subscribeNewsletter}
               onAgreeToTermsChange={(agreeToTerms) => updateFormData({ agreeToTerms })}
-              onSubscribeNewsletterChange={(subscribeNewsletter) => updateFormData({ subscribeNewsletter })}
+              onSubscribeNewsletterChange={(subscribeNewsletter) =>
+                updateFormData({ subscribeNewsletter })
+              }
               locale={locale}
-              deliveryCost={0} />
+              deliveryCost={0}
+            />
           )}
 
           {state.currentStep === "payment" && (
@@ -250,6 +272,8 @@ export function CheckoutForm({ items, locale, className = "" }: CheckoutFormProp
               {...(state.formData.paymentMethod && { paymentMethod: state.formData.paymentMethod })}
               onChange={(paymentMethod) => updateFormData({ paymentMethod })}
               locale={locale}
+              deliverySlot={deliverySlot}
+              funeral={funeral}
               onPaymentSuccess={(result) => {
                 // Payment successful, redirect to success page
                 if (result.sessionId) {
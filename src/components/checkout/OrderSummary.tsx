@@ -3,8 +3,10 @@
 import { ShoppingCartIcon } from "@heroicons/react/24/outline";
 import Image from "next/image";
 import { useTranslations } from "next-intl";
+import { DiscountCodeInput } from "@/components/cart/DiscountCodeInput";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/Card";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import type { AppliedDiscount } from "@/lib/discounts/rules";
 import { formatPrice } from "@/lib/utils";
 import type { CartItem } from "@/types/cart";
 
@@ -18,6 +20,8 @@ interface OrderSummaryProps {
   isLoading?: boolean;
   className?: string;
   deliveryMethod?: "delivery" | "pickup" | null;
+  discount?: AppliedDiscount | null;
+  showDiscountCodeInput?: boolean;
 }
 
 export function OrderSummary({
@@ -30,6 +34,8 @@ export function OrderSummary({
   isLoading = false,
   className = "",
   deliveryMethod,
+  discount,
+  showDiscountCodeInput = false,
 }: OrderSummaryProps) {
   const t = useTranslations("checkout");
   const tCart = useTranslations("cart");
@@ -118,6 +124,19 @@ export function OrderSummary({
           </span>
         </div>
 
+        {/* Discount Code */}
+        {showDiscountCodeInput && <DiscountCodeInput textClassName="text-teal-800" />}
+
+        {/* Discount */}
+        {discount && (
+          <div className="flex justify-between items-center w-full">
+            <span className="text-teal-800">{tCart("discount.line", { code: discount.code })}</span>
+            <span className="font-medium text-teal-800">
+              -{formatPrice(discount.amount, locale as "cs" | "en")}
+            </span>
+          </div>
+        )}
+
         {/* Delivery Cost */}
         <div className="flex justify-between items-center w-full">
           <span className="text-teal-800">{tCart("shipping")}</span>
@@ -231,8 +250,9 @@ export function CompactOrderSummary({
   totalAmount,
   locale,
   deliveryMethod,
+  discount,
   className = "",
-}: Omit<OrderSummaryProps, "estimatedDeliveryDate" | "isLoading"> & {
+}: Omit<OrderSummaryProps, "estimatedDeliveryDate" | "isLoading" | "showDiscountCodeInput"> & {
   deliveryMethod?: "delivery" | "pickup" | null;
 }) {
   const t = useTranslations("checkout");
@@ -278,6 +298,15 @@ export function CompactOrderSummary({
             <span>{formatPrice(subtotal, locale as "cs" | "en")}</span>
           </div>
 
+          {discount && (
+            <div className="flex justify-between">
+              <span className="text-teal-800">
+                {tCart("discount.line", { code: discount.code })}
+              </span>
+              <span>-{formatPrice(discount.amount, locale as "cs" | "en")}</span>
+            </div>
+          )}
+
           <div className="flex justify-between">
             <span className="text-teal-800">{tCart("shipping")}</span>
             <span>{formatPrice(deliveryCost, locale as "cs" | "en")}</span>
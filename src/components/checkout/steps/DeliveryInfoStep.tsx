@@ -1,16 +1,19 @@
 "use client";
 
-import { MapPinIcon, TruckIcon, UserIcon } from "@heroicons/react/24/outline";
+import { ClockIcon, MapPinIcon, TruckIcon, UserIcon } from "@heroicons/react/24/outline";
 import { useTranslations } from "next-intl";
 import { useMemo } from "react";
+import { DeliveryCalendar, VenuePicker } from "@/components/delivery";
 import { Input } from "@/components/ui/Input";
 import type { CartItem } from "@/types/cart";
-import type { DeliveryInfo } from "@/types/order";
+import type { FuneralDetails, VenueSummary } from "@/types/delivery";
+import type { CheckoutDeliveryInfo, DeliveryInfo } from "@/types/order";
+import { FuneralDetailsSection } from "./FuneralDetailsSection";
 
 interface DeliveryInfoStepProps {
-  deliveryInfo: Partial<DeliveryInfo>;
+  deliveryInfo: CheckoutDeliveryInfo;
   errors?: Partial<Record<keyof DeliveryInfo, string>>;
-  onChange: (deliveryInfo: Partial<DeliveryInfo>) => void;
+  onChange: (deliveryInfo: CheckoutDeliveryInfo) => void;
   locale?: string;
   cartItems?: CartItem[];
 }
@@ -52,12 +55,37 @@ export function DeliveryInfoStep({
       [field]: value,
     };
 
+    // An edited address is no longer the picked venue's
+    const { venueId: _venueId, ...rest } = deliveryInfo;
     onChange({
-      ...deliveryInfo,
+      ...rest,
       address: newAddress,
     });
   };
 
+  const handleVenueSelect = (venue: VenueSummary | null) => {
+    const { venueId: _venueId, ...rest } = deliveryInfo;
+    if (!venue) {
+      onChange(rest);
+      return;
+    }
+
+    onChange({
+      ...rest,
+      address: { ...venue.address },
+      venueId: venue.id,
+      // Fill the ceremony venue when the wreath goes to a funeral service
+      ...(deliveryInfo.funeral && {
+        funeral: { ...deliveryInfo.funeral, venueType: venue.venueType, venueName: venue.name },
+      }),
+    });
+  };
+
+  const handleFuneralChange = (funeral: Partial<FuneralDetails> | null) => {
+    const { funeral: _funeral, ...rest } = deliveryInfo;
+    onChange(funeral ? { ...rest, funeral } : rest);
+  };
+
   return (
     <div className="space-y-8">
       <div>
@@ -74,6 +102,15 @@ export function DeliveryInfoStep({
           Adresa doručení
         </h3>
 
+        {deliveryMethod !== "pickup" && (
+          <VenuePicker
+            venueId={deliveryInfo.venueId}
+            preferredDate={deliveryInfo.preferredDate}
+            timeSlot={deliveryInfo.preferredTimeSlot}
+            onSelect={handleVenueSelect}
+          />
+        )}
+
         <div className="grid grid-cols-1 gap-4">
           {/* Street Address */}
           <div>
@@ -147,6 +184,37 @@ export function DeliveryInfoStep({
         </div>
       </div>
 
+      {/* Delivery Date */}
+      {deliveryMethod !== "pickup" && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-semibold text-amber-100 flex items-center">
+            <ClockIcon className="w-5 h-5 mr-2" />
+            Termín doručení
+          </h3>
+
+          <div className="bg-amber-100 rounded-lg p-4 text-teal-800">
+            <DeliveryCalendar
+              selectedDate={deliveryInfo.preferredDate}
+              onDateSelect={(preferredDate) => onChange({ ...deliveryInfo, preferredDate })}
+              onTimeSlotSelect={(preferredTimeSlot) =>
+                onChange({ ...deliveryInfo, preferredTimeSlot })
+              }
+              postalCode={deliveryInfo.address?.postalCode}
+            />
+          </div>
+          {errors.preferredDate && <p className="text-sm text-red-600">{errors.preferredDate}</p>}
+        </div>
+      )}
+
+      {/* Funeral Service (Optional) */}
+      {deliveryMethod !== "pickup" && (
+        <FuneralDetailsSection
+          funeral={deliveryInfo.funeral}
+          error={errors.funeral}
+          onChange={handleFuneralChange}
+        />
+      )}
+
       {/* Recipient Information (Optional) */}
       <div className="space-y-4">
         <h3 className="text-lg font-semibold text-amber-100 flex items-center">
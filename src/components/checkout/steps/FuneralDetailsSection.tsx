@@ -0,0 +1,185 @@
+"use client";
+
+import { CalendarDaysIcon } from "@heroicons/react/24/outline";
+import { useId } from "react";
+import { Input } from "@/components/ui/Input";
+import {
+  FUNERAL_DELIVERY_LEAD_MINUTES,
+  FUNERAL_TEXT_MAX_LENGTH,
+  FUNERAL_VENUE_TYPE_LABELS,
+  FUNERAL_VENUE_TYPES,
+} from "@/lib/delivery/funeral";
+import { toDateKey } from "@/lib/delivery/holidays";
+import type { FuneralDetails, FuneralVenueType } from "@/types/delivery";
+
+interface FuneralDetailsSectionProps {
+  funeral?: Partial<FuneralDetails> | undefined;
+  error?: string | undefined;
+  onChange: (funeral: Partial<FuneralDetails> | null) => void;
+}
+
+// Value of a datetime-local input in the browser's time zone
+function toDateTimeInputValue(date?: Date): string {
+  if (!date || Number.isNaN(date.getTime())) {
+    return "";
+  }
+
+  const hours = String(date.getHours()).padStart(2, "0");
+  const minutes = String(date.getMinutes()).padStart(2, "0");
+  return `${toDateKey(date)}T${hours}:${minutes}`;
+}
+
+/**
+ * Funeral service the wreath is delivered to
+ * Collapsed to a checkbox until the customer says the delivery goes to a ceremony.
+ */
+export function FuneralDetailsSection({ funeral, error, onChange }: FuneralDetailsSectionProps) {
+  const id = useId();
+  const update = (changes: Partial<FuneralDetails>) => onChange({ ...funeral, ...changes });
+
+  const handleCeremonyStartChange = (value: string) => {
+    const { ceremonyStart: _ceremonyStart, ...rest } = funeral || {};
+    onChange(value ? { ...rest, ceremonyStart: new Date(value) } : rest);
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-amber-100 flex items-center">
+        <CalendarDaysIcon className="w-5 h-5 mr-2" />
+        Smuteční obřad
+      </h3>
+
+      <div className="flex items-start space-x-3">
+        <input
+          type="checkbox"
+          id={`${id}-deliverToFuneral`}
+          checked={!!funeral}
+          onChange={(e) => onChange(e.target.checked ? { venueType: "ceremony_hall" } : null)}
+          className="mt-1 w-4 h-4 text-amber-200 border-amber-300 rounded"
+        />
+        <label htmlFor={`${id}-deliverToFuneral`} className="text-sm text-amber-100">
+          Věnec doručujeme přímo na smuteční obřad (obřadní síň, kostel, hřbitov)
+        </label>
+      </div>
+
+      {funeral && (
+        <>
+          <p className="text-sm text-amber-100">
+            Věnec doručíme nejpozději {FUNERAL_DELIVERY_LEAD_MINUTES} minut před začátkem obřadu.
+            Adresa doručení výše je adresa místa obřadu.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label
+                htmlFor={`${id}-deceasedName`}
+                className="block text-sm font-medium text-amber-100 mb-2"
+              >
+                Jméno zesnulého *
+              </label>
+              <Input
+                id={`${id}-deceasedName`}
+                type="text"
+                value={funeral.deceasedName || ""}
+                onChange={(e) => update({ deceasedName: e.target.value })}
+                maxLength={FUNERAL_TEXT_MAX_LENGTH}
+                placeholder="Jméno a příjmení"
+                required
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor={`${id}-ceremonyStart`}
+                className="block text-sm font-medium text-amber-100 mb-2"
+              >
+                Začátek obřadu *
+              </label>
+              <Input
+                id={`${id}-ceremonyStart`}
+                type="datetime-local"
+                value={toDateTimeInputValue(funeral.ceremonyStart)}
+                onChange={(e) => handleCeremonyStartChange(e.target.value)}
+                required
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor={`${id}-venueType`}
+                className="block text-sm font-medium text-amber-100 mb-2"
+              >
+                Místo obřadu *
+              </label>
+              <select
+                id={`${id}-venueType`}
+                value={funeral.venueType || "ceremony_hall"}
+                onChange={(e) => update({ venueType: e.target.value as FuneralVenueType })}
+                className="w-full px-4 py-3 border border-amber-100 rounded-lg bg-amber-100 text-teal-800 "
+                required
+              >
+                {FUNERAL_VENUE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {FUNERAL_VENUE_TYPE_LABELS[type].cs}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label
+                htmlFor={`${id}-venueName`}
+                className="block text-sm font-medium text-amber-100 mb-2"
+              >
+                Název místa (volitelné)
+              </label>
+              <Input
+                id={`${id}-venueName`}
+                type="text"
+                value={funeral.venueName || ""}
+                onChange={(e) => update({ venueName: e.target.value })}
+                maxLength={FUNERAL_TEXT_MAX_LENGTH}
+                placeholder="Např. Obřadní síň Strašnice"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor={`${id}-funeralHomeName`}
+                className="block text-sm font-medium text-amber-100 mb-2"
+              >
+                Pohřební služba (volitelné)
+              </label>
+              <Input
+                id={`${id}-funeralHomeName`}
+                type="text"
+                value={funeral.funeralHomeName || ""}
+                onChange={(e) => update({ funeralHomeName: e.target.value })}
+                maxLength={FUNERAL_TEXT_MAX_LENGTH}
+                placeholder="Název pohřební služby"
+              />
+            </div>
+
+            <div>
+              <label
+                htmlFor={`${id}-funeralHomePhone`}
+                className="block text-sm font-medium text-amber-100 mb-2"
+              >
+                Telefon pohřební služby (volitelné)
+              </label>
+              <Input
+                id={`${id}-funeralHomePhone`}
+                type="tel"
+                value={funeral.funeralHomePhone || ""}
+                onChange={(e) => update({ funeralHomePhone: e.target.value })}
+                placeholder="+420 123 456 789"
+              />
+            </div>
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,8 @@ import dynamic from "next/dynamic";
 import { useTranslations } from "next-intl";
 import { useEffect, useState } from "react";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { useCart } from "@/lib/cart/context";
+import type { DeliverySlotSelection, FuneralDetails } from "@/types/delivery";
 import type { PaymentMethod } from "@/types/order";
 
 // Lazy load StripeEmbeddedCheckout for better performance
@@ -27,6 +29,8 @@ interface PaymentStepProps {
   paymentMethod?: PaymentMethod;
   onChange: (paymentMethod: PaymentMethod) => void;
   locale: string;
+  deliverySlot?: DeliverySlotSelection | undefined;
+  funeral?: FuneralDetails | undefined;
   onPaymentSuccess?: (result: any) => void;
   onPaymentError?: (error: string) => void;
 }
@@ -35,10 +39,13 @@ export function PaymentStep({
   paymentMethod,
   onChange,
   locale,
+  deliverySlot,
+  funeral,
   onPaymentSuccess,
   onPaymentError,
 }: PaymentStepProps) {
   const t = useTranslations("checkout");
+  const { appliedDiscount, removeDiscountCode } = useCart();
   const [checkoutSession, setCheckoutSession] = useState<{
     clientSecret: string;
     sessionId: string;
@@ -62,15 +69,13 @@ export function PaymentStep({
 
         try {
           // Import the checkout session creator
-          const { createEmbeddedCheckoutSession } = await import(
-            "@/lib/stripe/embedded-checkout"
-          );
+          const { createEmbeddedCheckoutSession } = await import("@/lib/stripe/embedded-checkout");
 
           // Get cart items from the API
           const cartResponse = await fetch("/api/cart");
           const cartData = await cartResponse.json();
 
-          if (!cartData.success || !cartData.items || cartData.items.length === 0) {
+          if (!(cartData.success && cartData.items) || cartData.items.length === 0) {
             throw new Error("Cart is empty or could not be loaded");
           }
 
@@ -81,6 +86,9 @@ export function PaymentStep({
             metadata: {
               itemCount: cartData.items.length.toString(),
             },
+            ...(appliedDiscount && { discountCode: appliedDiscount.code }),
+            ...(deliverySlot && { deliverySlot }),
+            ...(funeral && { funeral }),
           });
 
           setCheckoutSession(session);
@@ -96,7 +104,15 @@ export function PaymentStep({
     };
 
     createCheckoutSession();
-  }, [paymentMethod, checkoutSession, isLoadingSession, locale]);
+  }, [
+    paymentMethod,
+    checkoutSession,
+    isLoadingSession,
+    locale,
+    appliedDiscount,
+    deliverySlot,
+    funeral,
+  ]);
 
   // Handle checkout completion
   const handleCheckoutComplete = async (sessionId: string) => {
@@ -105,8 +121,9 @@ export function PaymentStep({
       const { invalidateCheckoutSession } = await import("@/lib/stripe/embedded-checkout");
       await invalidateCheckoutSession(sessionId);
 
-      // Clear the cart
+      // Clear the cart and the redeemed promo code
       await fetch("/api/cart", { method: "DELETE" });
+      removeDiscountCode();
 
       // Call the success callback if provided
       if (onPaymentSuccess) {
@@ -155,9 +172,10 @@ export function PaymentStep({
             key={option.id}
             className={`
               relative border-2 rounded-lg p-6 cursor-pointer transition-all
-              ${paymentMethod === option.id
-                ? "border-primary-500 bg-primary-50"
-                : "border-neutral-200 bg-white hover:border-neutral-300"
+              ${
+                paymentMethod === option.id
+                  ? "border-primary-500 bg-primary-50"
+                  : "border-neutral-200 bg-white hover:border-neutral-300"
               }
             `}
             onClick={() => onChange(option.id)}
@@ -177,10 +195,11 @@ export function PaymentStep({
                 <div
                   className={`
                   w-5 h-5 rounded-full border-2 flex items-center justify-center
-                  ${paymentMethod === option.id
+                  ${
+                    paymentMethod === option.id
                       ? "border-primary-500 bg-primary-500"
                       : "border-neutral-300 bg-white"
-                    }
+                  }
                 `}
                 >
                   {paymentMethod === option.id && <div className="w-2 h-2 rounded-full bg-white" />}
@@ -191,10 +210,11 @@ export function PaymentStep({
               <div
                 className={`
                 flex-shrink-0 p-3 rounded-lg
-                ${paymentMethod === option.id
+                ${
+                  paymentMethod === option.id
                     ? "bg-primary-100 text-primary-600"
                     : "bg-neutral-100 text-neutral-600"
-                  }
+                }
               `}
               >
                 {option.icon}
@@ -215,9 +235,10 @@ export function PaymentStep({
                       key={index}
                       className={`
                         inline-flex items-center px-2 py-1 rounded text-xs font-medium
-                        ${paymentMethod === option.id
-                          ? "bg-primary-100 text-primary-800"
-                          : "bg-neutral-100 text-neutral-700"
+                        ${
+                          paymentMethod === option.id
+                            ? "bg-primary-100 text-primary-800"
+                            : "bg-neutral-100 text-neutral-700"
                         }
                       `}
                     >
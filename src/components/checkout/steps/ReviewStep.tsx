@@ -2,7 +2,12 @@
 
 import { CheckCircleIcon, CreditCardIcon, MapPinIcon, UserIcon } from "@heroicons/react/24/outline";
 import { useTranslations } from "next-intl";
-
+import {
+  formatCeremonyStart,
+  formatFuneralVenue,
+  parseFuneralDetails,
+} from "@/lib/delivery/funeral";
+import type { AppliedDiscount } from "@/lib/discounts/rules";
 import type { CartItem } from "@/types/cart";
 import type { CheckoutFormData } from "@/types/order";
 import { OrderSummary } from "../OrderSummary";
@@ -13,6 +18,7 @@ interface ReviewStepProps {
   subtotal: number;
   deliveryCost: number;
   totalAmount: number;
+  discount?: AppliedDiscount | null;
   estimatedDeliveryDate?: Date;
   agreeToTerms: boolean;
   subscribeNewsletter: boolean;
@@ -27,6 +33,7 @@ export function ReviewStep({
   subtotal,
   deliveryCost,
   totalAmount,
+  discount,
   estimatedDeliveryDate,
   agreeToTerms,
   subscribeNewsletter,
@@ -37,6 +44,7 @@ export function ReviewStep({
   const tDelivery = useTranslations("delivery");
 
   const { customerInfo, deliveryInfo, paymentMethod } = formData;
+  const funeral = parseFuneralDetails(deliveryInfo?.funeral);
 
   return (
     <div className="space-y-8">
@@ -145,6 +153,19 @@ export function ReviewStep({
                 </div>
               )}
 
+              {funeral && (
+                <div>
+                  <span className="font-medium text-teal-800">Smuteční obřad:</span>
+                  <div className="ml-2 text-teal-800">
+                    {funeral.deceasedName}
+                    <br />
+                    {formatFuneralVenue(funeral, locale)}
+                    <br />
+                    {formatCeremonyStart(funeral.ceremonyStart, locale)}
+                  </div>
+                </div>
+              )}
+
               {deliveryInfo.recipientName && (
                 <div>
                   <span className="font-medium text-teal-800">Příjemce:</span>
@@ -191,6 +212,8 @@ export function ReviewStep({
             subtotal={subtotal}
             deliveryCost={deliveryCost}
             totalAmount={totalAmount}
+            discount={discount ?? null}
+            showDiscountCodeInput
             {...(estimatedDeliveryDate && { estimatedDeliveryDate })}
             locale={locale}
           />
@@ -8,9 +8,15 @@
 import { clsx } from "clsx";
 import { useTranslations } from "next-intl";
 import { useCallback, useEffect, useState } from "react";
+import { normalizePostalCode } from "@/lib/delivery/zones";
 import { ChevronLeftIcon, ChevronRightIcon } from "@/lib/icons";
 import { generateAvailableDeliveryDates } from "@/lib/utils/delivery-calculator";
-import type { DeliveryAvailability, DeliveryTimeSlot, DeliveryUrgency } from "@/types/delivery";
+import type {
+  DeliveryAvailability,
+  DeliveryCalendarResponse,
+  DeliveryTimeSlot,
+  DeliveryUrgency,
+} from "@/types/delivery";
 
 interface DeliveryCalendarProps {
   selectedDate?: Date | undefined;
@@ -52,13 +58,47 @@ const MONTHS_EN = [
   "December",
 ];
 
+// How often booked capacity is refreshed
+const CAPACITY_REFRESH_INTERVAL_MS = 30000;
+
+const DEFAULT_TIME_SLOTS: DeliveryTimeSlot[] = ["morning", "afternoon", "anytime"];
+
 const WEEKDAYS_CS = ["Po", "Út", "St", "Čt", "Pá", "So", "Ne"];
 const WEEKDAYS_EN = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
 
+/**
+ * Load a month of delivery availability from the API
+ * The API knows the zone, the admin closures and the booked capacity.
+ */
+async function fetchAvailableDates(
+  month: number,
+  year: number,
+  postalCode?: string
+): Promise<DeliveryAvailability[]> {
+  const params = new URLSearchParams({ month: month.toString(), year: year.toString() });
+  const normalizedPostalCode = postalCode ? normalizePostalCode(postalCode) : null;
+  if (normalizedPostalCode) {
+    params.set("postalCode", normalizedPostalCode);
+  }
+
+  const response = await fetch(`/api/delivery/calendar?${params}`);
+  const data: DeliveryCalendarResponse = await response.json();
+
+  if (!data.success) {
+    throw new Error("Failed to load delivery calendar");
+  }
+
+  return (data.calendar?.availableDates ?? []).map((availability) => ({
+    ...availability,
+    date: new Date(availability.date),
+  }));
+}
+
 export function DeliveryCalendar({
   selectedDate,
   onDateSelect,
   onTimeSlotSelect,
+  postalCode,
   className,
   disabled = false,
 }: DeliveryCalendarProps) {
@@ -76,23 +116,35 @@ export function DeliveryCalendar({
   const weekdayNames = locale === "cs" ? WEEKDAYS_CS : WEEKDAYS_EN;
 
   // Load available dates for current month
-  const loadAvailableDates = useCallback(async () => {
-    setIsLoading(true);
-    try {
-      // In a real app, this would be an API call
-      // For now, we'll use the local calculation
-      const dates = generateAvailableDeliveryDates(currentMonth, currentYear);
-      setAvailableDates(dates);
-    } catch (error) {
-      console.error("Error loading delivery dates:", error);
-      setAvailableDates([]);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [currentMonth, currentYear]);
+  // Background refreshes keep the current dates on screen and on failure
+  const loadAvailableDates = useCallback(
+    async (background = false) => {
+      if (!background) {
+        setIsLoading(true);
+      }
+      try {
+        setAvailableDates(await fetchAvailableDates(currentMonth, currentYear, postalCode));
+      } catch (error) {
+        console.error("Error loading delivery dates:", error);
+        // Fall back to the local calculation (public holidays only)
+        if (!background) {
+          setAvailableDates(generateAvailableDeliveryDates(currentMonth, currentYear));
+        }
+      } finally {
+        if (!background) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [currentMonth, currentYear, postalCode]
+  );
 
   useEffect(() => {
     loadAvailableDates();
+
+    // Keep slot capacity current while the customer is choosing
+    const interval = setInterval(() => loadAvailableDates(true), CAPACITY_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
   }, [loadAvailableDates]);
 
   // Navigate to previous month
@@ -171,6 +223,11 @@ export function DeliveryCalendar({
 
   const calendarDays = generateCalendarGrid();
   const today = new Date();
+  const selectedAvailability = selectedDate ? getDateAvailability(selectedDate) : undefined;
+  const timeSlots = selectedAvailability?.timeSlots.length
+    ? selectedAvailability.timeSlots
+    : DEFAULT_TIME_SLOTS;
+  const fullTimeSlots = selectedAvailability?.fullTimeSlots ?? [];
 
   return (
     <div className={clsx("delivery-calendar", className)}>
@@ -281,26 +338,34 @@ export function DeliveryCalendar({
         <div className="mt-6 p-4 bg-gray-50 rounded-lg">
           <h4 className="text-sm font-medium text-gray-900 mb-3">{t("calendar.timeSlot")}</h4>
           <div className="grid grid-cols-2 gap-2">
-            {["morning", "afternoon", "anytime"].map((slot) => (
-              <button
-                key={slot}
-                type="button"
-                onClick={() => handleTimeSlotSelect(slot as DeliveryTimeSlot)}
-                disabled={disabled}
-                className={clsx(
-                  "p-2 text-sm rounded-lg border transition-colors",
-                  "hover:border-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500",
-                  {
-                    "bg-blue-600 text-white border-blue-600": selectedTimeSlot === slot,
-                    "bg-white text-gray-900 border-gray-200": selectedTimeSlot !== slot,
-                  }
-                )}
-              >
-                {slot === "morning" && t("calendar.morning")}
-                {slot === "afternoon" && t("calendar.afternoon")}
-                {slot === "anytime" && t("calendar.anytime")}
-              </button>
-            ))}
+            {timeSlots.map((slot) => {
+              const isFull = fullTimeSlots.includes(slot);
+
+              return (
+                <button
+                  key={slot}
+                  type="button"
+                  onClick={() => handleTimeSlotSelect(slot)}
+                  disabled={disabled || isFull}
+                  title={isFull ? t("calendar.slotFull") : undefined}
+                  className={clsx(
+                    "p-2 text-sm rounded-lg border transition-colors",
+                    "hover:border-blue-300 focus:outline-none focus:ring-2 focus:ring-blue-500",
+                    {
+                      "bg-blue-600 text-white border-blue-600":
+                        selectedTimeSlot === slot && !isFull,
+                      "bg-white text-gray-900 border-gray-200":
+                        selectedTimeSlot !== slot && !isFull,
+                      "bg-gray-100 text-gray-400 border-gray-200 cursor-not-allowed line-through":
+                        isFull,
+                    }
+                  )}
+                >
+                  {t(`calendar.${slot}`)}
+                  {isFull && ` · ${t("calendar.slotFull")}`}
+                </button>
+              );
+            })}
           </div>
         </div>
       )}
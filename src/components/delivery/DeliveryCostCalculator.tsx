@@ -8,13 +8,15 @@
 import { clsx } from "clsx";
 
 import { useEffect, useState } from "react";
-import {
-  calculateDeliveryCost,
-  DEFAULT_DELIVERY_OPTIONS,
-  findDeliveryZone,
-} from "@/lib/utils/delivery-calculator";
+import { DEFAULT_DELIVERY_OPTIONS } from "@/lib/utils/delivery-calculator";
 import type { Address } from "@/types";
-import type { DeliveryCostCalculation, DeliveryTimeSlot, DeliveryUrgency } from "@/types/delivery";
+import type {
+  DeliveryCostCalculation,
+  DeliveryEstimateResponse,
+  DeliveryTimeSlot,
+  DeliveryUrgency,
+  DeliveryZoneSummary,
+} from "@/types/delivery";
 
 interface DeliveryCostCalculatorProps {
   address?: Address;
@@ -32,33 +34,67 @@ export function DeliveryCostCalculator({
   className,
 }: DeliveryCostCalculatorProps) {
   const [calculation, setCalculation] = useState<DeliveryCostCalculation | null>(null);
+  const [zone, setZone] = useState<DeliveryZoneSummary | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Calculate delivery cost when inputs change
+  // Calculate delivery cost for the address zone when inputs change
   useEffect(() => {
     if (!address?.postalCode) {
       setCalculation(null);
+      setZone(null);
       setError(null);
       return;
     }
 
+    const controller = new AbortController();
     setIsCalculating(true);
     setError(null);
 
-    try {
-      const deliveryZone = findDeliveryZone(address.postalCode);
-      const cost = calculateDeliveryCost(address, urgency, timeSlot, deliveryZone);
-
-      setCalculation(cost);
-      onCostCalculated?.(cost);
-    } catch (err) {
-      console.error("Error calculating delivery cost:", err);
-      setError("Chyba při výpočtu ceny doručení");
-      setCalculation(null);
-    } finally {
-      setIsCalculating(false);
-    }
+    fetch("/api/delivery/estimate", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ address, urgency, timeSlot }),
+      signal: controller.signal,
+    })
+      .then(async (response) => {
+        const data: DeliveryEstimateResponse = await response.json();
+
+        if (data.success && data.deliverable === false) {
+          setError("Na tuto adresu zatím nedoručujeme");
+          setCalculation(null);
+          setZone(null);
+          return;
+        }
+
+        if (!(data.success && data.estimate)) {
+          throw new Error("Failed to calculate delivery cost");
+        }
+
+        const cost: DeliveryCostCalculation = {
+          ...data.estimate,
+          estimatedDeliveryDate: new Date(data.estimate.estimatedDeliveryDate),
+        };
+
+        setCalculation(cost);
+        setZone(data.zone ?? null);
+        onCostCalculated?.(cost);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error("Error calculating delivery cost:", err);
+        setError("Chyba při výpočtu ceny doručení");
+        setCalculation(null);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setIsCalculating(false);
+        }
+      });
+
+    return () => controller.abort();
   }, [address, urgency, timeSlot, onCostCalculated]);
 
   // Get delivery option details
@@ -173,9 +209,11 @@ export function DeliveryCostCalculator({
       </div>
 
       {/* Delivery Zone Info */}
-      <div className="mt-3 text-xs text-teal-500">
-        <p>Cena zahrnuje doručení do oblasti {findDeliveryZone(address.postalCode).name}</p>
-      </div>
+      {zone && (
+        <div className="mt-3 text-xs text-teal-500">
+          <p>Cena zahrnuje doručení do oblasti {zone.name}</p>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,189 @@
+"use client";
+
+/**
+ * VenuePicker component
+ * Searches the venue directory so customers do not have to type the address of a funeral
+ * home or ceremony hall, and warns when the chosen delivery does not suit the venue
+ */
+
+import { useEffect, useId, useRef, useState } from "react";
+import { FUNERAL_VENUE_TYPE_LABELS } from "@/lib/delivery/funeral";
+import { toDateKey } from "@/lib/delivery/holidays";
+import { checkVenueDelivery, formatOpeningHours } from "@/lib/delivery/venues";
+import type { DeliveryTimeSlot, VenueSummary } from "@/types/delivery";
+
+interface VenuePickerProps {
+  venueId?: string | undefined;
+  preferredDate?: Date | undefined;
+  timeSlot?: DeliveryTimeSlot | undefined;
+  onSelect: (venue: VenueSummary | null) => void;
+}
+
+async function fetchVenues(params: Record<string, string>, signal: AbortSignal) {
+  const response = await fetch(`/api/venues?${new URLSearchParams(params)}`, { signal });
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error?.message || "Failed to search venues");
+  }
+
+  return data.venues as VenueSummary[];
+}
+
+export function VenuePicker({ venueId, preferredDate, timeSlot, onSelect }: VenuePickerProps) {
+  const inputId = useId();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<VenueSummary[]>([]);
+  const [selected, setSelected] = useState<VenueSummary | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const timeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Load the picked venue again when the step is shown after going back
+  useEffect(() => {
+    if (!venueId) {
+      setSelected(null);
+      return;
+    }
+    if (selected?.id === venueId) {
+      return;
+    }
+
+    const controller = new AbortController();
+    fetchVenues({ id: venueId }, controller.signal)
+      .then((venues) => setSelected(venues[0] ?? null))
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.error("Error loading venue:", error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [venueId, selected?.id]);
+
+  // Debounced search
+  useEffect(() => {
+    if (timeoutRef.current) {
+      clearTimeout(timeoutRef.current);
+    }
+
+    if (query.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    timeoutRef.current = setTimeout(() => {
+      setIsSearching(true);
+      fetchVenues({ q: query }, controller.signal)
+        .then(setResults)
+        .catch((error) => {
+          if (!controller.signal.aborted) {
+            console.error("Error searching venues:", error);
+            setResults([]);
+          }
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) {
+            setIsSearching(false);
+          }
+        });
+    }, 300); // 300ms debounce
+
+    return () => controller.abort();
+  }, [query]);
+
+  const handleSelect = (venue: VenueSummary) => {
+    setSelected(venue);
+    setQuery("");
+    setResults([]);
+    onSelect(venue);
+  };
+
+  const handleClear = () => {
+    setSelected(null);
+    onSelect(null);
+  };
+
+  const restriction =
+    selected &&
+    checkVenueDelivery(selected, {
+      ...(preferredDate && { date: toDateKey(preferredDate) }),
+      ...(timeSlot && { timeSlot }),
+    });
+
+  if (selected) {
+    const openingHours = formatOpeningHours(selected.openingHours);
+
+    return (
+      <div className="bg-amber-100 rounded-lg p-4 text-teal-800 space-y-2">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="font-semibold">{selected.name}</p>
+            <p className="text-sm">
+              {FUNERAL_VENUE_TYPE_LABELS[selected.venueType].cs} · {selected.address.street},{" "}
+              {selected.address.postalCode} {selected.address.city}
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleClear}
+            className="text-sm underline hover:no-underline flex-shrink-0"
+          >
+            Zadat jinou adresu
+          </button>
+        </div>
+
+        {openingHours.length > 0 && (
+          <p className="text-sm">Přebírá zásilky: {openingHours.join(", ")}</p>
+        )}
+        {selected.deliveryNotes && <p className="text-sm">{selected.deliveryNotes}</p>}
+        {restriction && !restriction.allowed && (
+          <p className="text-sm text-red-600">{restriction.reason}</p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <label htmlFor={inputId} className="block text-sm font-medium text-amber-100 mb-2">
+        Vyhledat obřadní síň, krematorium nebo pohřební službu
+      </label>
+      <input
+        id={inputId}
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Např. Strašnice"
+        autoComplete="off"
+        className="w-full px-4 py-3 border border-amber-100 rounded-lg bg-amber-100 text-teal-800"
+      />
+
+      {(results.length > 0 || isSearching) && (
+        <ul className="absolute z-10 mt-1 w-full bg-white border border-amber-200 rounded-lg shadow-lg max-h-72 overflow-auto">
+          {isSearching && results.length === 0 && (
+            <li className="px-4 py-3 text-sm text-teal-600">Hledám...</li>
+          )}
+          {results.map((venue) => (
+            <li key={venue.id}>
+              <button
+                type="button"
+                onClick={() => handleSelect(venue)}
+                className="w-full text-left px-4 py-3 hover:bg-amber-50 text-teal-800"
+              >
+                <span className="block font-medium">{venue.name}</span>
+                <span className="block text-sm text-teal-600">
+                  {venue.address.street}, {venue.address.city}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-1 text-xs text-amber-100">
+        Adresu vybraného místa doplníme za vás. Místo nenajdete? Vyplňte adresu níže.
+      </p>
+    </div>
+  );
+}
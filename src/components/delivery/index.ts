@@ -5,3 +5,4 @@
 export { DeliveryCalendar } from "./DeliveryCalendar";
 export { DeliveryCostCalculator } from "./DeliveryCostCalculator";
 export { DeliveryOptionsSelector } from "./DeliveryOptionsSelector";
+export { VenuePicker } from "./VenuePicker";
@@ -4,12 +4,13 @@ import { useTranslations } from "next-intl";
 import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
-
-interface ConsentPreferences {
-  marketing: boolean;
-  analytics: boolean;
-  functional: boolean;
-}
+import {
+  CONSENT_UPDATED_EVENT,
+  type ConsentPreferences,
+  type ConsentSource,
+  DEFAULT_CONSENT,
+} from "@/lib/gdpr/consent";
+import { clientCSRFUtils } from "@/lib/security/csrf-client";
 
 interface ConsentManagerProps {
   onConsentChange?: (consent: ConsentPreferences) => void;
@@ -18,17 +19,13 @@ interface ConsentManagerProps {
 
 export function ConsentManager({ onConsentChange, showBanner = false }: ConsentManagerProps) {
   const t = useTranslations("gdpr");
-  const [consent, setConsent] = useState<ConsentPreferences>({
-    marketing: false,
-    analytics: false,
-    functional: true,
-  });
+  const [consent, setConsent] = useState<ConsentPreferences>(DEFAULT_CONSENT);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [showSettings, setShowSettings] = useState(showBanner);
   const [hasInteracted, setHasInteracted] = useState(false);
 
-  // Load current consent preferences
+  // Load current consent preferences from the consent ledger
   useEffect(() => {
     const loadConsent = async () => {
       try {
@@ -37,7 +34,9 @@ export function ConsentManager({ onConsentChange, showBanner = false }: ConsentM
           const data = await response.json();
           if (data.success && data.consent) {
             setConsent(data.consent);
-            setHasInteracted(true);
+            // Show the banner until a decision exists under the current policy version
+            setHasInteracted(!data.needsConsent);
+            setShowSettings((current) => current || Boolean(data.needsConsent));
           }
         }
       } catch (error) {
@@ -50,39 +49,34 @@ export function ConsentManager({ onConsentChange, showBanner = false }: ConsentM
     loadConsent();
   }, []);
 
-  // Check if consent banner should be shown
-  useEffect(() => {
-    const consentGiven = localStorage.getItem("gdpr-consent-given");
-    if (!(consentGiven || hasInteracted)) {
-      setShowSettings(true);
-    }
-  }, [hasInteracted]);
-
   const handleConsentChange = (type: keyof ConsentPreferences, value: boolean) => {
     const newConsent = { ...consent, [type]: value };
     setConsent(newConsent);
     onConsentChange?.(newConsent);
   };
 
-  const saveConsent = async () => {
+  const persistConsent = async (preferences: ConsentPreferences, source: ConsentSource) => {
     setSaving(true);
     try {
-      const response = await fetch("/api/gdpr/consent", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-CSRF-Token": await getCSRFToken(),
-        },
-        body: JSON.stringify(consent),
-      });
-
-      if (response.ok) {
-        localStorage.setItem("gdpr-consent-given", "true");
-        setShowSettings(false);
-        setHasInteracted(true);
-      } else {
+      const response = await fetch(
+        "/api/gdpr/consent",
+        await clientCSRFUtils.addTokenToFetchOptions({
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...preferences, source }),
+        })
+      );
+
+      if (!response.ok) {
         throw new Error("Failed to save consent preferences");
       }
+
+      const data = await response.json();
+      const saved: ConsentPreferences = data.consent ?? preferences;
+      setConsent(saved);
+      setShowSettings(false);
+      setHasInteracted(true);
+      window.dispatchEvent(new CustomEvent(CONSENT_UPDATED_EVENT, { detail: saved }));
     } catch (error) {
       console.error("Failed to save consent:", error);
       alert(t("consentSaveError"));
@@ -91,7 +85,9 @@ export function ConsentManager({ onConsentChange, showBanner = false }: ConsentM
     }
   };
 
-  const acceptAll = async () => {
+  const saveConsent = () => persistConsent(consent, hasInteracted ? "preferences" : "banner");
+
+  const acceptAll = () => {
     const allConsent = {
       marketing: true,
       analytics: true,
@@ -99,31 +95,10 @@ export function ConsentManager({ onConsentChange, showBanner = false }: ConsentM
     };
     setConsent(allConsent);
     onConsentChange?.(allConsent);
-
-    setSaving(true);
-    try {
-      const response = await fetch("/api/gdpr/consent", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-CSRF-Token": await getCSRFToken(),
-        },
-        body: JSON.stringify(allConsent),
-      });
-
-      if (response.ok) {
-        localStorage.setItem("gdpr-consent-given", "true");
-        setShowSettings(false);
-        setHasInteracted(true);
-      }
-    } catch (error) {
-      console.error("Failed to save consent:", error);
-    } finally {
-      setSaving(false);
-    }
+    return persistConsent(allConsent, "banner");
   };
 
-  const rejectAll = async () => {
+  const rejectAll = () => {
     const minimalConsent = {
       marketing: false,
       analytics: false,
@@ -131,28 +106,7 @@ export function ConsentManager({ onConsentChange, showBanner = false }: ConsentM
     };
     setConsent(minimalConsent);
     onConsentChange?.(minimalConsent);
-
-    setSaving(true);
-    try {
-      const response = await fetch("/api/gdpr/consent", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-CSRF-Token": await getCSRFToken(),
-        },
-        body: JSON.stringify(minimalConsent),
-      });
-
-      if (response.ok) {
-        localStorage.setItem("gdpr-consent-given", "true");
-        setShowSettings(false);
-        setHasInteracted(true);
-      }
-    } catch (error) {
-      console.error("Failed to save consent:", error);
-    } finally {
-      setSaving(false);
-    }
+    return persistConsent(minimalConsent, "banner");
   };
 
   if (loading) {
@@ -265,10 +219,3 @@ export function ConsentManager({ onConsentChange, showBanner = false }: ConsentM
     </>
   );
 }
-
-// Helper function to get CSRF token
-async function getCSRFToken(): Promise<string> {
-  // In a real implementation, you would fetch this from your auth system
-  // For now, return a placeholder
-  return "csrf-token-placeholder";
-}
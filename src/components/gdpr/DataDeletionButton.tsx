@@ -1,21 +1,43 @@
 "use client";
 
-import { useTranslations } from "next-intl";
-import { useState } from "react";
+import { useFormatter, useLocale, useTranslations } from "next-intl";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import type { ErasureRequest } from "@/lib/gdpr/erasure";
+import { clientCSRFUtils } from "@/lib/security/csrf-client";
 
 interface DataDeletionButtonProps {
   className?: string;
-  onDeletionComplete?: () => void;
+  onDeletionRequested?: () => void;
 }
 
-export function DataDeletionButton({ className, onDeletionComplete }: DataDeletionButtonProps) {
+export function DataDeletionButton({ className, onDeletionRequested }: DataDeletionButtonProps) {
   const t = useTranslations("gdpr");
+  const locale = useLocale();
   const [showConfirmation, setShowConfirmation] = useState(false);
   const [confirmationText, setConfirmationText] = useState("");
   const [reason, setReason] = useState("");
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [activeRequest, setActiveRequest] = useState<ErasureRequest | null>(null);
+
+  // Show the open deletion request instead of the button
+  useEffect(() => {
+    const loadRequest = async () => {
+      try {
+        const response = await fetch("/api/gdpr/delete");
+        if (!response.ok) return;
+
+        const data = await response.json();
+        setActiveRequest(data.request ?? null);
+      } catch (error) {
+        console.error("Failed to load deletion request:", error);
+      }
+    };
+
+    loadRequest();
+  }, []);
 
   const handleDelete = async () => {
     if (confirmationText !== "DELETE_MY_DATA") {
@@ -26,27 +48,29 @@ export function DataDeletionButton({ className, onDeletionComplete }: DataDeleti
     setIsDeleting(true);
 
     try {
-      const response = await fetch("/api/gdpr/delete", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-CSRF-Token": await getCSRFToken(),
-        },
-        body: JSON.stringify({
-          confirmation: confirmationText,
-          reason: reason.trim() || undefined,
-        }),
-      });
+      const response = await fetch(
+        `/api/gdpr/delete?locale=${locale}`,
+        await clientCSRFUtils.addTokenToFetchOptions({
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            confirmation: confirmationText,
+            reason: reason.trim() || undefined,
+          }),
+        })
+      );
 
       const data = await response.json();
 
       if (response.ok && data.success) {
-        alert(t("deletionSuccess"));
-        onDeletionComplete?.();
-        // Redirect to home page or logout
-        window.location.href = "/";
+        setActiveRequest(data.request);
+        setShowConfirmation(false);
+        setConfirmationText("");
+        setReason("");
+        alert(t("deletionRequested"));
+        onDeletionRequested?.();
       } else {
-        throw new Error(data.error?.message || "Deletion failed");
+        throw new Error(data.error?.message || "Deletion request failed");
       }
     } catch (error) {
       console.error("Deletion error:", error);
@@ -56,6 +80,41 @@ export function DataDeletionButton({ className, onDeletionComplete }: DataDeleti
     }
   };
 
+  const handleCancelRequest = async () => {
+    setIsCancelling(true);
+
+    try {
+      const response = await fetch(
+        "/api/gdpr/delete",
+        await clientCSRFUtils.addTokenToFetchOptions({ method: "DELETE" })
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error?.message || "Cancellation failed");
+      }
+
+      setActiveRequest(null);
+      alert(t("deletionCancelled"));
+    } catch (error) {
+      console.error("Deletion cancel error:", error);
+      alert(t("deletionCancelError"));
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  if (activeRequest) {
+    return (
+      <DeletionRequestStatus
+        request={activeRequest}
+        isCancelling={isCancelling}
+        onCancel={handleCancelRequest}
+        {...(className && { className })}
+      />
+    );
+  }
+
   if (!showConfirmation) {
     return (
       <Button onClick={() => setShowConfirmation(true)} variant="destructive" className={className}>
@@ -158,9 +217,44 @@ export function DataDeletionButton({ className, onDeletionComplete }: DataDeleti
   );
 }
 
-// Helper function to get CSRF token
-async function getCSRFToken(): Promise<string> {
-  // In a real implementation, you would fetch this from your auth system
-  // For now, return a placeholder
-  return "csrf-token-placeholder";
+interface DeletionRequestStatusProps {
+  request: ErasureRequest;
+  isCancelling: boolean;
+  onCancel: () => void;
+  className?: string;
+}
+
+function DeletionRequestStatus({
+  request,
+  isCancelling,
+  onCancel,
+  className,
+}: DeletionRequestStatusProps) {
+  const t = useTranslations("gdpr");
+  const format = useFormatter();
+
+  const statusText =
+    request.status === "pending_confirmation"
+      ? t("deletionPendingConfirmation")
+      : request.status === "scheduled" && request.scheduledFor
+        ? t("deletionScheduled", {
+            date: format.dateTime(new Date(request.scheduledFor), { dateStyle: "long" }),
+          })
+        : request.status === "blocked"
+          ? t("deletionBlocked")
+          : t("deletionProcessing");
+
+  return (
+    <div className={`rounded-md border border-red-200 bg-red-50 p-4 ${className ?? ""}`}>
+      <p className="text-sm text-red-800 mb-3" aria-live="polite">
+        {statusText}
+      </p>
+      {request.status !== "processing" && (
+        <Button variant="outline" onClick={onCancel} disabled={isCancelling}>
+          {isCancelling ? <LoadingSpinner size="sm" className="mr-2" /> : null}
+          {t("cancelDeletion")}
+        </Button>
+      )}
+    </div>
+  );
 }
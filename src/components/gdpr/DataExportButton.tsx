@@ -1,9 +1,10 @@
 "use client";
 
-import { useTranslations } from "next-intl";
+import { useLocale, useTranslations } from "next-intl";
 import { useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+import { clientCSRFUtils } from "@/lib/security/csrf-client";
 
 interface DataExportButtonProps {
   className?: string;
@@ -11,6 +12,7 @@ interface DataExportButtonProps {
 
 export function DataExportButton({ className }: DataExportButtonProps) {
   const t = useTranslations("gdpr");
+  const locale = useLocale();
   const [isExporting, setIsExporting] = useState(false);
   const [exportComplete, setExportComplete] = useState(false);
 
@@ -19,41 +21,32 @@ export function DataExportButton({ className }: DataExportButtonProps) {
     setExportComplete(false);
 
     try {
-      const response = await fetch("/api/gdpr/export", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-CSRF-Token": await getCSRFToken(),
-        },
-      });
+      const response = await fetch(
+        `/api/gdpr/export?locale=${locale}`,
+        await clientCSRFUtils.addTokenToFetchOptions({ method: "POST" })
+      );
 
       if (!response.ok) {
-        throw new Error("Export failed");
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error?.message || "Export failed");
       }
 
-      const data = await response.json();
+      // Download the export archive
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
 
-      if (data.success) {
-        // Create and download the export file
-        const exportData = JSON.stringify(data.data, null, 2);
-        const blob = new Blob([exportData], { type: "application/json" });
-        const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `personal-data-export-${new Date().toISOString().split("T")[0]}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
 
-        const link = document.createElement("a");
-        link.href = url;
-        link.download = `personal-data-export-${new Date().toISOString().split("T")[0]}.json`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+      setExportComplete(true);
 
-        URL.revokeObjectURL(url);
-        setExportComplete(true);
-
-        // Reset success state after 3 seconds
-        setTimeout(() => setExportComplete(false), 3000);
-      } else {
-        throw new Error(data.error?.message || "Export failed");
-      }
+      // Reset success state after 3 seconds
+      setTimeout(() => setExportComplete(false), 3000);
     } catch (error) {
       console.error("Export error:", error);
       alert(t("exportError"));
@@ -97,10 +90,3 @@ export function DataExportButton({ className }: DataExportButtonProps) {
     </Button>
   );
 }
-
-// Helper function to get CSRF token
-async function getCSRFToken(): Promise<string> {
-  // In a real implementation, you would fetch this from your auth system
-  // For now, return a placeholder
-  return "csrf-token-placeholder";
-}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useFormatter, useTranslations } from "next-intl";
+import { useState } from "react";
+import { Button } from "@/components/ui/Button";
+import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
+
+interface ErasureConfirmationProps {
+  token: string;
+}
+
+type ConfirmationState =
+  | { status: "idle" }
+  | { status: "confirming" }
+  | { status: "confirmed"; scheduledFor: string }
+  | { status: "error"; message: string };
+
+/**
+ * Confirms an erasure request from the emailed link
+ * Confirmation needs a click so that link scanners opening the email cannot confirm it.
+ */
+export function ErasureConfirmation({ token }: ErasureConfirmationProps) {
+  const t = useTranslations("gdpr");
+  const format = useFormatter();
+  const [state, setState] = useState<ConfirmationState>(
+    token ? { status: "idle" } : { status: "error", message: t("erasureTokenInvalid") }
+  );
+
+  const handleConfirm = async () => {
+    setState({ status: "confirming" });
+
+    try {
+      const response = await fetch("/api/gdpr/delete/confirm", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token }),
+      });
+      const data = await response.json();
+
+      if (response.ok && data.success) {
+        setState({ status: "confirmed", scheduledFor: data.scheduledFor });
+        return;
+      }
+
+      const code = data.error?.code;
+      setState({
+        status: "error",
+        message:
+          code === "TOKEN_EXPIRED"
+            ? t("erasureTokenExpired")
+            : code === "INVALID_TOKEN"
+              ? t("erasureTokenInvalid")
+              : t("erasureConfirmError"),
+      });
+    } catch (error) {
+      console.error("Erasure confirmation error:", error);
+      setState({ status: "error", message: t("erasureConfirmError") });
+    }
+  };
+
+  return (
+    <div className="max-w-md w-full mx-auto bg-white rounded-lg shadow-sm border border-stone-200 p-8">
+      <h1 className="text-2xl font-light text-stone-900 mb-4">{t("confirmErasureTitle")}</h1>
+
+      {state.status === "confirmed" ? (
+        <p className="text-stone-700" aria-live="polite">
+          {t("erasureConfirmed", {
+            date: format.dateTime(new Date(state.scheduledFor), { dateStyle: "long" }),
+          })}
+        </p>
+      ) : state.status === "error" ? (
+        <p className="text-red-700" role="alert">
+          {state.message}
+        </p>
+      ) : (
+        <>
+          <p className="text-stone-600 mb-6">{t("confirmErasureDescription")}</p>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={state.status === "confirming"}
+            className="w-full"
+          >
+            {state.status === "confirming" ? (
+              <>
+                <LoadingSpinner size="sm" className="mr-2" />
+                {t("confirmingErasure")}
+              </>
+            ) : (
+              t("confirmErasure")
+            )}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,3 +6,4 @@
 export { ConsentManager } from "./ConsentManager";
 export { DataDeletionButton } from "./DataDeletionButton";
 export { DataExportButton } from "./DataExportButton";
+export { ErasureConfirmation } from "./ErasureConfirmation";
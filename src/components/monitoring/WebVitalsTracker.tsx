@@ -1,6 +1,7 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
+import { useConsent } from "@/lib/hooks/useConsent";
 import { performanceMonitor } from "@/lib/monitoring/performance-monitor";
 
 // Performance configuration - inline to avoid build issues
@@ -68,6 +69,17 @@ export function WebVitalsTracker({
   const [isVisible, setIsVisible] = useState(debug);
   const reportedMetrics = useRef(new Set<string>());
   const metricsQueue = useRef<WebVitalsMetric[]>([]);
+  const { consent, loaded: consentLoaded } = useConsent();
+  // null until the stored consent is known; metrics queued meanwhile are only sent once granted
+  const analyticsConsent = useRef<boolean | null>(null);
+
+  useEffect(() => {
+    if (!consentLoaded) return;
+    analyticsConsent.current = consent.analytics;
+    if (!consent.analytics) {
+      metricsQueue.current = [];
+    }
+  }, [consent.analytics, consentLoaded]);
 
   /**
    * Queue metric for batch reporting
@@ -103,7 +115,7 @@ export function WebVitalsTracker({
    */
   const sendMetricsToServer = useCallback(
     async (metrics: WebVitalsMetric[], useBeacon = false) => {
-      if (metrics.length === 0) return;
+      if (metrics.length === 0 || analyticsConsent.current !== true) return;
 
       const payload = {
         metrics: metrics.map((metric) => ({
@@ -187,7 +199,7 @@ export function WebVitalsTracker({
           );
 
           // Queue for batch reporting
-          if (autoReport && Math.random() <= sampleRate) {
+          if (autoReport && analyticsConsent.current !== false && Math.random() <= sampleRate) {
             queueMetricForReporting(webVitalsMetric);
           }
 
@@ -60,7 +60,7 @@ export function OrderHistory({ locale }: OrderHistoryProps) {
         // Transform orders for display (Requirement 9.6)
         const transformedOrders: OrderSummary[] = data.orders.map((order: any) => ({
           id: order.id,
-          orderNumber: order.customer_info?.orderNumber || order.id.slice(-8).toUpperCase(),
+          orderNumber: order.order_number,
           status: order.status,
           totalAmount: order.total_amount,
           itemCount: order.items?.itemCount || 0,
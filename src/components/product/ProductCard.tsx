@@ -7,6 +7,7 @@ import { memo, useCallback, useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { cn } from "@/lib/utils";
 import type { Product } from "@/types/product";
+import { SearchHighlight } from "./SearchHighlight";
 
 export type ProductCardActionType = "addToCart" | "customize" | "quickView" | "viewDetails";
 
@@ -283,6 +284,17 @@ const ProductCardComponent = function ProductCard({
     </h3>
   );
 
+  // Render the description fragment that matched the catalog search
+  const renderSearchSnippet = () => {
+    if (!product.searchSnippet) return null;
+
+    return (
+      <p className="text-sm text-teal-700 mb-2 line-clamp-3">
+        <SearchHighlight segments={product.searchSnippet} />
+      </p>
+    );
+  };
+
   // Render category for list view
   const renderCategory = () => {
     if (variant !== "list" || !product.category) return null;
@@ -444,6 +456,7 @@ const ProductCardComponent = function ProductCard({
       <div className={getContentStyles()}>
         <div className={contentContainer}>
           {renderProductName()}
+          {renderSearchSnippet()}
           {renderCategory()}
           {renderPrice()}
           {renderActionButton()}
@@ -511,6 +524,8 @@ const ProductCardComponent = function ProductCard({
               </h3>
             </div>
 
+            {renderSearchSnippet()}
+
             {/* Category */}
             {product.category && (
               <p className="text-sm text-teal-700 mb-3 ">
@@ -88,7 +88,9 @@ export function ProductCustomizer({
     const isSelected = currentCustomization?.choiceIds.includes(choice.id);
     const selectionCount = currentCustomization?.choiceIds.length || 0;
     const canSelect =
-      !isSelected && (!option.maxSelections || selectionCount < option.maxSelections);
+      !isSelected &&
+      choice.available !== false &&
+      (!option.maxSelections || selectionCount < option.maxSelections);
 
     return (
       <button
@@ -8,10 +8,15 @@ import { Button } from "@/components/ui/Button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/Card";
 import { LoadingSpinner } from "@/components/ui/LoadingSpinner";
 import { useCart } from "@/lib/cart/context";
+import {
+  applyVariantsToOptions,
+  findVariantForSize,
+  getVariantImages,
+} from "@/lib/products/variants";
 import { cn } from "@/lib/utils";
 import { usePriceCalculationWithSize } from "@/lib/utils/usePriceCalculation";
 import { validateWreathConfiguration, WREATH_VALIDATION_MESSAGES } from "@/lib/validation/wreath";
-import type { Customization, Product } from "@/types/product";
+import type { Customization, Product, ProductVariant } from "@/types/product";
 import { ColorSelection } from "./ColorSelection";
 import { LazyDeliveryMethodSelector } from "./LazyDeliveryMethodSelector";
 import { LazyRibbonConfigurator } from "./LazyRibbonConfigurator";
@@ -22,11 +27,19 @@ import { SizeSelector } from "./SizeSelector";
 
 interface ProductDetailProps {
   product: Product;
+  variants?: ProductVariant[];
   locale: string;
   className?: string;
 }
 
-export function ProductDetail({ product, locale, className }: ProductDetailProps) {
+const NO_VARIANTS: ProductVariant[] = [];
+
+export function ProductDetail({
+  product,
+  variants = NO_VARIANTS,
+  locale,
+  className,
+}: ProductDetailProps) {
   const t = useTranslations("product");
   const tCurrency = useTranslations("currency");
   const { addToCart } = useCart();
@@ -46,9 +59,10 @@ export function ProductDetail({ product, locale, className }: ProductDetailProps
   const addToCartButtonRef = useRef<HTMLButtonElement>(null);
 
   // Ensure customizationOptions is always an array to prevent map errors
+  // Variants price the sizes and mark sold out ones unavailable
   const customizationOptions = useMemo(
-    () => product.customizationOptions || [],
-    [product.customizationOptions]
+    () => applyVariantsToOptions(product.customizationOptions || [], product.basePrice, variants),
+    [product.customizationOptions, product.basePrice, variants]
   );
 
   // Find size option from customization options
@@ -57,6 +71,17 @@ export function ProductDetail({ product, locale, className }: ProductDetailProps
     [customizationOptions]
   );
 
+  // Variant of the selected size, its images replace the product images
+  const selectedVariant = useMemo(
+    () => findVariantForSize(variants, selectedSize),
+    [variants, selectedSize]
+  );
+
+  const images = useMemo(
+    () => getVariantImages(selectedVariant, product.images || []),
+    [selectedVariant, product.images]
+  );
+
   // Real-time price calculation with size and customizations
   const priceCalculation = usePriceCalculationWithSize(
     product.basePrice,
@@ -176,7 +201,7 @@ export function ProductDetail({ product, locale, className }: ProductDetailProps
       // Apply recovery strategies based on error type
       if (errorType === "size" && sizeOption?.choices && sizeOption.choices.length > 0) {
         // Auto-select first available size with proper null checking
-        const firstChoice = sizeOption.choices[0];
+        const firstChoice = sizeOption.choices.find((choice) => choice.available !== false);
         if (firstChoice?.id) {
           setSelectedSize(firstChoice.id);
         }
@@ -243,6 +268,7 @@ export function ProductDetail({ product, locale, className }: ProductDetailProps
 
       const success = await addToCart({
         productId: product.id,
+        ...(selectedVariant && { variantId: selectedVariant.id }),
         quantity: 1,
         customizations: allCustomizations,
       });
@@ -262,7 +288,7 @@ export function ProductDetail({ product, locale, className }: ProductDetailProps
           if (cartIcon) {
             // Get the product image source
             const productImage = productImageRef.current.querySelector("img");
-            const imageSrc = productImage?.src || product.images?.[0]?.url || "";
+            const imageSrc = productImage?.src || images[0]?.url || "";
 
             console.log("🛒 [ProductDetail] Starting animation with:", {
               productElement: productImageRef.current.tagName,
@@ -334,7 +360,8 @@ export function ProductDetail({ product, locale, className }: ProductDetailProps
         {/* Left Column - Product Images */}
         <div ref={productImageRef}>
           <ProductDetailImageGrid
-            images={product.images || []}
+            key={selectedVariant?.images.length ? selectedVariant.id : "product"}
+            images={images}
             productName={product.name[locale as keyof typeof product.name]}
           />
         </div>
@@ -354,6 +381,7 @@ export function ProductDetail({ product, locale, className }: ProductDetailProps
                   onSizeChange={handleSizeChange}
                   locale={locale}
                   basePrice={product.basePrice}
+                  variants={variants}
                 />
               </CardContent>
             </Card>
@@ -402,6 +430,7 @@ export function ProductDetail({ product, locale, className }: ProductDetailProps
                       customizations={customizations}
                       onCustomizationChange={handleCustomizationChange}
                       locale={locale}
+                      sizeChoiceId={selectedSize}
                     />
                   )}
                 </div>
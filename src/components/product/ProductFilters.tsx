@@ -1,15 +1,30 @@
 "use client";
 
+import Link from "next/link";
 import { useTranslations } from "next-intl";
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useId, useRef, useState } from "react";
 import { Button } from "@/components/ui/Button";
 import { Input } from "@/components/ui/Input";
-import { cn } from "@/lib/utils";
+import {
+  getProductSortKey,
+  PRODUCT_SORT_ORDERS,
+  type ProductSortKey,
+} from "@/lib/search/product-listing";
+import {
+  normalizeProductSearchTerm,
+  PRODUCT_SUGGESTION_MIN_LENGTH,
+} from "@/lib/search/product-search";
+import { cn, formatPrice } from "@/lib/utils";
 import type {
   Category,
+  ProductFacets,
+  ProductFacetValue,
   ProductFilters as ProductFiltersType,
+  ProductPriceFacet,
   ProductSortOptions,
+  ProductSuggestion,
 } from "@/types/product";
+import { SearchHighlight } from "./SearchHighlight";
 
 interface ProductFiltersProps {
   categories: Category[];
@@ -17,16 +32,38 @@ interface ProductFiltersProps {
   sortOptions: ProductSortOptions;
   onFiltersChange: (filters: ProductFiltersType) => void;
   onSortChange: (sort: ProductSortOptions) => void;
+  // Product counts per filter value, when loaded
+  facets?: ProductFacets | null;
   locale: string;
   className?: string;
 }
 
+type FiltersPatch = { [K in keyof ProductFiltersType]?: ProductFiltersType[K] | undefined };
+
+// Message keys of the sort orders, relevance only while searching
+const SORT_LABEL_KEYS: Record<ProductSortKey, string> = {
+  newest: "sortByNewest",
+  popular: "sortByPopular",
+  "price-asc": "sortByPriceAsc",
+  "price-desc": "sortByPriceDesc",
+  "name-asc": "sortByName",
+  relevance: "sortByRelevance",
+};
+
+function toggleValue(values: string[] | undefined, value: string): string[] | undefined {
+  const next = values?.includes(value)
+    ? values.filter((current) => current !== value)
+    : [...(values ?? []), value];
+  return next.length > 0 ? next : undefined;
+}
+
 export function ProductFilters({
   categories,
   filters,
-  sortOptions: _sortOptions,
+  sortOptions,
   onFiltersChange,
-  onSortChange: _onSortChange,
+  onSortChange,
+  facets,
   locale,
   className,
 }: ProductFiltersProps) {
@@ -36,6 +73,9 @@ export function ProductFilters({
   const [isSearchAndFiltersVisible, setIsSearchAndFiltersVisible] = useState(false);
   const [localFilters, setLocalFilters] = useState(filters);
   const [searchValue, setSearchValue] = useState(filters.search || "");
+  const [suggestions, setSuggestions] = useState<ProductSuggestion[]>([]);
+  const suggestionsId = useId();
+  const sortId = useId();
 
   // Update local filters when props change
   useEffect(() => {
@@ -67,6 +107,38 @@ export function ProductFilters({
     [onFiltersChange]
   );
 
+  // Typeahead suggestions while the customer types
+  useEffect(() => {
+    const term = normalizeProductSearchTerm(searchValue);
+    if (term.length < PRODUCT_SUGGESTION_MIN_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: term, locale });
+        const response = await fetch(`/api/products/suggestions?${params.toString()}`, {
+          signal: controller.signal,
+        });
+        if (response.ok) {
+          const data = await response.json();
+          setSuggestions(data.suggestions || []);
+        }
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error("Failed to fetch search suggestions:", error);
+        }
+      }
+    }, 200);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [searchValue, locale]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -81,12 +153,77 @@ export function ProductFilters({
     debouncedSearch(value);
   };
 
-  const handleFilterChange = (key: keyof ProductFiltersType, value: any) => {
-    const newFilters = { ...localFilters, [key]: value };
+  const handleFiltersPatch = (patch: FiltersPatch) => {
+    const newFilters = { ...localFilters, ...patch } as ProductFiltersType;
     setLocalFilters(newFilters);
     onFiltersChange(newFilters);
   };
 
+  const handleFilterChange = (key: keyof ProductFiltersType, value: any) => {
+    handleFiltersPatch({ [key]: value });
+  };
+
+  const handlePriceBucketChange = (bucket: ProductPriceFacet) => {
+    const selected = localFilters.minPrice === bucket.min && localFilters.maxPrice === bucket.max;
+    handleFiltersPatch({
+      minPrice: selected ? undefined : bucket.min,
+      maxPrice: selected ? undefined : bucket.max,
+    });
+  };
+
+  const getPriceBucketLabel = (bucket: ProductPriceFacet) => {
+    const min = bucket.min !== undefined ? formatPrice(bucket.min, locale as "cs" | "en") : "";
+    const max = bucket.max !== undefined ? formatPrice(bucket.max, locale as "cs" | "en") : "";
+    if (!min) {
+      return t("priceUpTo", { max });
+    }
+    return max ? t("priceBetween", { min, max }) : t("priceOver", { min });
+  };
+
+  const getCategoryLabel = (category: Category) => {
+    const label = category.name[locale as keyof typeof category.name];
+    const count = facets?.categories.find((value) => value.value === category.slug)?.count;
+    return facets ? t("facetCount", { label, count: count ?? 0 }) : label;
+  };
+
+  const sortKeys = (Object.keys(PRODUCT_SORT_ORDERS) as ProductSortKey[]).filter(
+    (key) => key !== "relevance" || localFilters.search
+  );
+
+  const renderAttributeFacet = (
+    key: "sizes" | "flowers",
+    legend: string,
+    values: ProductFacetValue[] | undefined
+  ) => {
+    if (!values?.length) {
+      return null;
+    }
+
+    return (
+      <fieldset>
+        <legend className="block text-sm font-medium text-amber-100 mb-2">{legend}</legend>
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {values.map((value) => (
+            <label key={value.value} className="flex items-center gap-2 text-sm text-amber-100">
+              <input
+                type="checkbox"
+                checked={localFilters[key]?.includes(value.value) ?? false}
+                onChange={() =>
+                  handleFilterChange(key, toggleValue(localFilters[key], value.value))
+                }
+                className="rounded border-amber-100 bg-teal-900"
+              />
+              {t("facetCount", {
+                label: value.label[locale as keyof typeof value.label],
+                count: value.count,
+              })}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    );
+  };
+
   const clearFilters = () => {
     const clearedFilters: ProductFiltersType = {};
     setLocalFilters(clearedFilters);
@@ -123,8 +260,8 @@ export function ProductFilters({
 
   return (
     <div className={cn("bg-teal-800 text-amber-100", className)}>
-      {/* Search & Filters Toggle Button */}
-      <div className="mb-4">
+      {/* Search & Filters Toggle Button and Sort Order */}
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-4">
         <Button
           variant="outline"
           onClick={toggleSearchAndFilters}
@@ -156,6 +293,24 @@ export function ProductFilters({
             </span>
           )}
         </Button>
+
+        <div className="flex items-center gap-2">
+          <label htmlFor={sortId} className="text-sm font-medium text-amber-100">
+            {t("sortBy")}
+          </label>
+          <select
+            id={sortId}
+            value={getProductSortKey(sortOptions)}
+            onChange={(e) => onSortChange(PRODUCT_SORT_ORDERS[e.target.value as ProductSortKey])}
+            className="px-3 py-2 border border-amber-100 rounded-md bg-teal-900 text-amber-100"
+          >
+            {sortKeys.map((key) => (
+              <option key={key} value={key}>
+                {t(SORT_LABEL_KEYS[key])}
+              </option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Search & Filters Panel - Collapsible with amber background */}
@@ -194,7 +349,28 @@ export function ProductFilters({
               className="w-full bg-teal-900 text-amber-100 border-amber-100 placeholder-amber-100/40"
               autoFocus
               aria-describedby={searchValue ? "search-status" : undefined}
+              aria-autocomplete="list"
+              aria-controls={suggestionsId}
+              aria-expanded={suggestions.length > 0}
             />
+            {suggestions.length > 0 && (
+              <ul
+                id={suggestionsId}
+                aria-label={t("searchSuggestions")}
+                className="mt-2 rounded-md border border-amber-100 bg-teal-900 divide-y divide-amber-100/20"
+              >
+                {suggestions.map((suggestion) => (
+                  <li key={suggestion.id}>
+                    <Link
+                      href={`/${locale}/products/${suggestion.slug}`}
+                      className="block px-3 py-2 text-sm text-amber-100 hover:bg-teal-800 focus:bg-teal-800 focus:outline-none"
+                    >
+                      <SearchHighlight segments={suggestion.highlight} />
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            )}
             {searchValue && (
               <div
                 id="search-status"
@@ -217,15 +393,24 @@ export function ProductFilters({
             </label>
             <select
               id="category-filter"
-              value={localFilters.categoryId || ""}
-              onChange={(e) => handleFilterChange("categoryId", e.target.value || undefined)}
+              value={
+                localFilters.categorySlug ||
+                categories.find((category) => category.id === localFilters.categoryId)?.slug ||
+                ""
+              }
+              onChange={(e) =>
+                handleFiltersPatch({
+                  categoryId: undefined,
+                  categorySlug: e.target.value || undefined,
+                })
+              }
               className="w-full px-3 py-2 border border-amber-100 rounded-md  bg-teal-900 text-amber-100 placeholder-amber-100/40"
               aria-label={t("filterByCategory")}
             >
               <option value="">{t("allCategories")}</option>
               {categories.map((category) => (
-                <option key={category.id} value={category.id}>
-                  {category.name[locale as keyof typeof category.name]}
+                <option key={category.id} value={category.slug}>
+                  {getCategoryLabel(category)}
                 </option>
               ))}
             </select>
@@ -237,6 +422,28 @@ export function ProductFilters({
               <legend className="block text-sm font-medium text-amber-100 mb-2">
                 {t("filterByPrice")}
               </legend>
+              {facets && facets.prices.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {facets.prices.map((bucket) => (
+                    <Button
+                      key={bucket.value}
+                      type="button"
+                      variant={
+                        localFilters.minPrice === bucket.min && localFilters.maxPrice === bucket.max
+                          ? "default"
+                          : "outline"
+                      }
+                      size="sm"
+                      onClick={() => handlePriceBucketChange(bucket)}
+                      aria-pressed={
+                        localFilters.minPrice === bucket.min && localFilters.maxPrice === bucket.max
+                      }
+                    >
+                      {t("facetCount", { label: getPriceBucketLabel(bucket), count: bucket.count })}
+                    </Button>
+                  ))}
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-2">
                 <Input
                   id="min-price"
@@ -277,6 +484,10 @@ export function ProductFilters({
             </fieldset>
           </div>
 
+          {/* Size and Flower Type */}
+          {renderAttributeFacet("sizes", t("filterBySize"), facets?.sizes)}
+          {renderAttributeFacet("flowers", t("filterByFlowers"), facets?.flowers)}
+
           {/* Clear Filters */}
           {hasActiveFilters && (
             <Button
@@ -7,26 +7,57 @@ import { Button } from "@/components/ui/Button";
 import { ProductGridSkeleton } from "@/components/ui/LoadingSpinner";
 import { useAnnouncer } from "@/lib/accessibility/hooks";
 import { useImageOptimization } from "@/lib/hooks/useImageOptimization";
+import {
+  buildProductListingQuery,
+  getDefaultProductSort,
+  getProductSortKey,
+} from "@/lib/search/product-listing";
 import { cn } from "@/lib/utils";
 // Removed unused import: useCoreWebVitals
 import { debounce, useJavaScriptOptimization } from "@/lib/utils/javascript-optimization";
 import { hasCustomizations, hasRequiredCustomizations } from "@/lib/utils/productCustomization";
 import type { ApiResponse, Category, Product, ProductFilters, ProductSortOptions } from "@/types";
+import type { ProductFacets } from "@/types/product";
 import { ProductCard } from "./ProductCard";
 import { ProductFilters as ProductFiltersComponent } from "./ProductFilters";
 
 interface ProductGridProps {
   initialProducts?: Product[];
   initialCategories?: Category[];
+  // Listing state from the page URL
+  initialFilters?: ProductFilters;
+  initialSort?: ProductSortOptions;
   locale: string;
   className?: string;
   onAddToCart?: (product: Product) => void;
   onQuickView?: (product: Product) => void;
 }
 
+/**
+ * Filters as query parameters of /api/products and /api/products/facets
+ */
+function getFilterSearchParams(filters: ProductFilters, locale: string): URLSearchParams {
+  const searchParams = new URLSearchParams();
+  searchParams.set("locale", locale);
+
+  if (filters.search) searchParams.set("search", filters.search);
+  if (filters.categoryId) searchParams.set("categoryId", filters.categoryId);
+  if (filters.categorySlug) searchParams.set("categorySlug", filters.categorySlug);
+  if (filters.minPrice !== undefined) searchParams.set("minPrice", filters.minPrice.toString());
+  if (filters.maxPrice !== undefined) searchParams.set("maxPrice", filters.maxPrice.toString());
+  if (filters.inStock) searchParams.set("inStock", "true");
+  if (filters.featured) searchParams.set("featured", "true");
+  if (filters.sizes?.length) searchParams.set("sizes", filters.sizes.join(","));
+  if (filters.flowers?.length) searchParams.set("flowers", filters.flowers.join(","));
+
+  return searchParams;
+}
+
 const ProductGrid = React.memo(function ProductGrid({
   initialProducts = [],
   initialCategories = [],
+  initialFilters = {},
+  initialSort,
   locale,
   className,
   onAddToCart,
@@ -47,11 +78,19 @@ const ProductGrid = React.memo(function ProductGrid({
   const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
 
   // Filter and sort state
-  const [filters, setFilters] = useState<ProductFilters>({});
-  const [sortOptions, setSortOptions] = useState<ProductSortOptions>({
-    field: "created_at",
-    direction: "desc",
-  });
+  const [filters, setFilters] = useState<ProductFilters>(initialFilters);
+  const [facets, setFacets] = useState<ProductFacets | null>(null);
+  // Sort order the customer picked; until then searches rank by relevance, listings show newest
+  const [chosenSort, setChosenSort] = useState<ProductSortOptions | null>(
+    initialSort &&
+      getProductSortKey(initialSort) !== getProductSortKey(getDefaultProductSort(initialFilters))
+      ? initialSort
+      : null
+  );
+  const sortOptions = useMemo(
+    () => chosenSort ?? getDefaultProductSort(filters),
+    [chosenSort, filters]
+  );
   const [currentPage, setCurrentPage] = useState(1);
   const [totalProducts, setTotalProducts] = useState(0);
 
@@ -188,22 +227,12 @@ const ProductGrid = React.memo(function ProductGrid({
       setError(null);
 
       try {
-        const searchParams = new URLSearchParams();
+        // Add filters
+        const searchParams = getFilterSearchParams(filters, locale);
 
         // Add pagination
         searchParams.set("page", page.toString());
         searchParams.set("limit", PRODUCTS_PER_PAGE.toString());
-        searchParams.set("locale", locale);
-
-        // Add filters
-        if (filters.search) searchParams.set("search", filters.search);
-        if (filters.categoryId) searchParams.set("categoryId", filters.categoryId);
-        if (filters.minPrice !== undefined)
-          searchParams.set("minPrice", filters.minPrice.toString());
-        if (filters.maxPrice !== undefined)
-          searchParams.set("maxPrice", filters.maxPrice.toString());
-        if (filters.inStock) searchParams.set("inStock", "true");
-        if (filters.featured) searchParams.set("featured", "true");
 
         // Add sorting
         searchParams.set("sortField", sortOptions.field);
@@ -296,6 +325,37 @@ const ProductGrid = React.memo(function ProductGrid({
     fetchProducts(1, true);
   }, [fetchProducts]);
 
+  // Product counts per filter value
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch(`/api/products/facets?${getFilterSearchParams(filters, locale).toString()}`, {
+      signal: controller.signal,
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data?.success) {
+          setFacets(data.facets);
+        }
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) {
+          console.error("Error fetching product facets:", err);
+        }
+      });
+
+    return () => controller.abort();
+  }, [filters, locale]);
+
+  // Keep the listing state in the URL so it can be shared and bookmarked
+  useEffect(() => {
+    const query = buildProductListingQuery(filters, sortOptions).toString();
+    if (query !== window.location.search.replace(/^\?/, "")) {
+      const url = query ? `${window.location.pathname}?${query}` : window.location.pathname;
+      window.history.replaceState(window.history.state, "", url);
+    }
+  }, [filters, sortOptions]);
+
   // Cleanup effect to abort ongoing requests when component unmounts
   useEffect(() => {
     return () => {
@@ -321,7 +381,7 @@ const ProductGrid = React.memo(function ProductGrid({
   const handleSortChange = useCallback(
     debounce(async (newSort: ProductSortOptions) => {
       await measureExecution("sortChange", async () => {
-        setSortOptions(newSort);
+        setChosenSort(newSort);
         setCurrentPage(1);
         // fetchProducts will be called by useEffect due to sortOptions dependency
       });
@@ -433,6 +493,7 @@ const ProductGrid = React.memo(function ProductGrid({
             sortOptions={sortOptions}
             onFiltersChange={handleFiltersChange}
             onSortChange={handleSortChange}
+            facets={facets}
             locale={locale}
           />
         </div>
@@ -545,7 +606,7 @@ const ProductGrid = React.memo(function ProductGrid({
                   size="lg"
                   onClick={() => {
                     setFilters({});
-                    setSortOptions({ field: "created_at", direction: "desc" });
+                    setChosenSort(null);
                   }}
                   className="px-6"
                 >
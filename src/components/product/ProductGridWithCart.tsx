@@ -2,7 +2,7 @@
 
 import { useState } from "react";
 import { useCart } from "@/lib/cart/context";
-import type { Category, Product } from "@/types/product";
+import type { Category, Product, ProductFilters, ProductSortOptions } from "@/types/product";
 import { LazyProductQuickView } from "./LazyProductQuickView";
 import { ProductComponentErrorBoundary } from "./ProductComponentErrorBoundary";
 import { ProductGrid } from "./ProductGrid";
@@ -10,6 +10,8 @@ import { ProductGrid } from "./ProductGrid";
 interface ProductGridWithCartProps {
   initialProducts?: Product[];
   initialCategories?: Category[];
+  initialFilters?: ProductFilters;
+  initialSort?: ProductSortOptions;
   locale: string;
   className?: string;
 }
@@ -17,6 +19,8 @@ interface ProductGridWithCartProps {
 export function ProductGridWithCart({
   initialProducts = [],
   initialCategories = [],
+  initialFilters,
+  initialSort,
   locale,
   className,
 }: ProductGridWithCartProps) {
@@ -72,6 +76,8 @@ export function ProductGridWithCart({
       <ProductGrid
         initialProducts={initialProducts}
         initialCategories={initialCategories}
+        {...(initialFilters && { initialFilters })}
+        {...(initialSort && { initialSort })}
         locale={locale}
         {...(className && { className })}
         onAddToCart={handleAddToCart}
@@ -1,10 +1,13 @@
 "use client";
 
 import { useTranslations } from "next-intl";
-import { useCallback, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { breakRibbonText, getRibbonColorStyle, getRibbonWidthForSize } from "@/lib/ribbon/layout";
+import { groupRibbonPhrases, type RibbonPhrase } from "@/lib/ribbon/phrases";
 import { cn, formatPrice } from "@/lib/utils";
 import { validateCustomRibbonText } from "@/lib/validation/wreath";
 import type { Customization, CustomizationChoice, CustomizationOption } from "@/types/product";
+import { RibbonPreview } from "./RibbonPreview";
 
 export interface RibbonConfiguratorProps {
   /** Whether the ribbon configurator should be visible */
@@ -23,6 +26,8 @@ export interface RibbonConfiguratorProps {
   className?: string;
   /** Whether ribbon is actually selected (for conditional requirements) */
   isRibbonSelected?: boolean;
+  /** Selected wreath size choice, determines the ribbon width of the preview */
+  sizeChoiceId?: string | null;
 }
 
 export function RibbonConfigurator({
@@ -34,6 +39,7 @@ export function RibbonConfigurator({
   locale,
   className,
   isRibbonSelected = false,
+  sizeChoiceId = null,
 }: RibbonConfiguratorProps) {
   const t = useTranslations("product");
   const tAccessibility = useTranslations("accessibility");
@@ -41,6 +47,36 @@ export function RibbonConfigurator({
     errors: string[];
     warnings: string[];
   }>({ errors: [], warnings: [] });
+  const [phrases, setPhrases] = useState<RibbonPhrase[]>([]);
+
+  // Load the condolence phrase library once the configurator is shown
+  useEffect(() => {
+    if (!isVisible) {
+      return;
+    }
+
+    const controller = new AbortController();
+
+    fetch("/api/ribbon-phrases", { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (data?.phrases) {
+          setPhrases(data.phrases);
+        }
+      })
+      .catch((error) => {
+        if (error instanceof Error && error.name !== "AbortError") {
+          console.error("Failed to fetch ribbon phrases:", error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [isVisible]);
+
+  const phraseGroups = useMemo(
+    () => groupRibbonPhrases(phrases, locale === "en" ? "en" : "cs"),
+    [phrases, locale]
+  );
 
   const formatPriceModifier = (price: number) => {
     const sign = price >= 0 ? "+" : "";
@@ -129,6 +165,8 @@ export function RibbonConfigurator({
       const isSelected = currentCustomization?.choiceIds.includes(choice.id);
       const choiceId = `${option.id}-choice-${choice.id}`;
       const isRadioGroup = option.maxSelections === 1;
+      // Colors whose ribbon ran out stay visible but cannot be picked
+      const isUnavailable = choice.available === false && !isSelected;
 
       return (
         <button
@@ -136,11 +174,13 @@ export function RibbonConfigurator({
           id={choiceId}
           type="button"
           onClick={() => handleChoiceSelection(option.id, choice.id, option)}
+          disabled={isUnavailable}
           className={cn(
             "flex items-center justify-between p-3 border rounded-lg transition-colors text-left",
             isSelected
               ? "border-teal-800 bg-amber-300 text-teal-800"
               : "border-teal-800 bg-amber-100 text-teal-800",
+            "disabled:opacity-50 disabled:cursor-not-allowed",
             // High contrast support
             "high-contrast:border-current high-contrast:hover:bg-Highlight high-contrast:hover:text-HighlightText"
           )}
@@ -211,6 +251,116 @@ export function RibbonConfigurator({
     [handleCustomValueChange, handleCustomTextValidation]
   );
 
+  // A picked phrase becomes the custom text, so select the custom choice and fill it in at once
+  const handlePhraseSelection = useCallback(
+    (option: CustomizationOption, text: string) => {
+      const customChoice = option.choices?.find((choice) => choice.allowCustomInput);
+      if (!customChoice) {
+        return;
+      }
+
+      const newCustomizations = customizations.filter((c) => c.optionId !== option.id);
+      newCustomizations.push({
+        optionId: option.id,
+        choiceIds: [customChoice.id],
+        customValue: text,
+      });
+
+      onCustomizationChange(newCustomizations);
+      handleCustomTextValidation(text);
+    },
+    [customizations, onCustomizationChange, handleCustomTextValidation]
+  );
+
+  // Render the phrase library picker for options that accept custom text
+  const renderPhrasePicker = (option: CustomizationOption) => {
+    if (phraseGroups.length === 0 || !option.choices?.some((choice) => choice.allowCustomInput)) {
+      return null;
+    }
+
+    const pickerId = `${option.id}-phrases`;
+
+    return (
+      <div className="space-y-2">
+        <label htmlFor={pickerId} className="block text-sm font-medium text-teal-800">
+          {t("ribbonPhrases.label")}
+        </label>
+        <select
+          id={pickerId}
+          value=""
+          onChange={(e) => handlePhraseSelection(option, e.target.value)}
+          className={cn(
+            "w-full p-3 border rounded-lg transition-colors",
+            "border-amber-300 bg-amber-100 text-teal-800",
+            "hover:border-teal-800 hover:shadow-sm",
+            "focus:ring-2 focus:ring-teal-800 focus:border-teal-800 focus:outline-none"
+          )}
+        >
+          <option value="" disabled>
+            {t("ribbonPhrases.placeholder")}
+          </option>
+          {phraseGroups.map((group) => (
+            <optgroup
+              key={group.relationship}
+              label={t(`ribbonPhrases.relationships.${group.relationship}`)}
+            >
+              {group.phrases.map((phrase) => (
+                <option key={phrase.id} value={phrase.text}>
+                  {phrase.text}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+    );
+  };
+
+  // Render the preview of the ribbon text on the selected color and width
+  const renderPreview = (option: CustomizationOption) => {
+    const currentCustomization = getCurrentCustomization(option.id);
+    const selectedChoice = option.choices?.find(
+      (choice) => choice.id === currentCustomization?.choiceIds[0]
+    );
+    const text = selectedChoice?.allowCustomInput
+      ? currentCustomization?.customValue || ""
+      : (selectedChoice?.label[locale as keyof typeof selectedChoice.label] ?? "");
+
+    if (!text.trim()) {
+      return null;
+    }
+
+    const width = getRibbonWidthForSize(sizeChoiceId);
+    const layout = breakRibbonText(text, width);
+    const colorChoiceId = colorOption
+      ? getCurrentCustomization(colorOption.id)?.choiceIds[0]
+      : undefined;
+
+    return (
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-teal-800">{t("ribbonPreview.title")}</div>
+        <RibbonPreview
+          layout={layout}
+          width={width}
+          color={getRibbonColorStyle(colorChoiceId)}
+          label={t("ribbonPreview.ariaLabel", { text: layout.lines.join(" / ") })}
+        />
+        <div className="text-xs text-teal-800">
+          {t("ribbonPreview.width", {
+            width: width.widthMm,
+            lines: width.maxLines,
+            characters: width.charactersPerLine,
+          })}
+        </div>
+        {layout.overflow && (
+          <div className="text-sm text-red-600" role="alert" aria-live="polite">
+            {t("ribbonPreview.overflow")}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   // Render custom text input for text option when custom choice is selected
   const renderCustomTextInput = useCallback(
     (option: CustomizationOption) => {
@@ -429,8 +579,14 @@ export function RibbonConfigurator({
                 ))}
               </select>
 
+              {/* Curated phrases - picking one fills in the custom text */}
+              {renderPhrasePicker(textOption)}
+
               {/* Custom text input - shown when custom option is selected */}
               {renderCustomTextInput(textOption)}
+
+              {/* Live preview of the printed ribbon */}
+              {renderPreview(textOption)}
             </div>
 
             {/* Validation for text - only show if ribbon is selected */}
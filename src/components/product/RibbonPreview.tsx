@@ -0,0 +1,71 @@
+import type { RibbonColorStyle, RibbonTextLayout, RibbonWidthSpec } from "@/lib/ribbon/layout";
+import { cn } from "@/lib/utils";
+
+export interface RibbonPreviewProps {
+  /** Text broken into printed lines */
+  layout: RibbonTextLayout;
+  /** Width of the ribbon the text is printed on */
+  width: RibbonWidthSpec;
+  /** Ribbon and print colors */
+  color: RibbonColorStyle;
+  /** Accessible description of the preview */
+  label: string;
+  /** Optional CSS class */
+  className?: string;
+}
+
+// Drawing units: the ribbon end is VIEW_WIDTH long and its height follows the ribbon width
+const VIEW_WIDTH = 600;
+const TAIL_DEPTH = 40;
+const UNITS_PER_MM = 1.2;
+const PRINT_LENGTH = VIEW_WIDTH - 2 * TAIL_DEPTH - 20;
+
+// Average glyph width of the serif print font relative to its size
+const GLYPH_WIDTH_RATIO = 0.55;
+
+const OVERFLOW_COLOR = "#DC2626";
+
+/**
+ * SVG preview of one ribbon end with the text as it will be printed
+ * Lines beyond what the ribbon holds are drawn in red.
+ */
+export function RibbonPreview({ layout, width, color, label, className }: RibbonPreviewProps) {
+  const height = width.widthMm * UNITS_PER_MM;
+  const lineCount = Math.max(layout.lines.length, 1);
+  const fontSize = Math.min(
+    (height * 0.7) / lineCount,
+    PRINT_LENGTH / (width.charactersPerLine * GLYPH_WIDTH_RATIO)
+  );
+  const lineHeight = fontSize * 1.15;
+  const firstLineY = height / 2 - ((lineCount - 1) * lineHeight) / 2;
+
+  return (
+    <svg
+      viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+      className={cn("w-full h-auto", className)}
+      role="img"
+    >
+      <title>{label}</title>
+      <path
+        d={`M0 0 H${VIEW_WIDTH} L${VIEW_WIDTH - TAIL_DEPTH} ${height / 2} L${VIEW_WIDTH} ${height} H0 L${TAIL_DEPTH} ${height / 2} Z`}
+        fill={color.background}
+        stroke="#D4D4D4"
+        strokeWidth={1}
+      />
+      {layout.lines.map((line, index) => (
+        <text
+          key={`${index}-${line}`}
+          x={VIEW_WIDTH / 2}
+          y={firstLineY + index * lineHeight}
+          textAnchor="middle"
+          dominantBaseline="central"
+          fontFamily="Georgia, 'Times New Roman', serif"
+          fontSize={fontSize}
+          fill={index < width.maxLines ? color.text : OVERFLOW_COLOR}
+        >
+          {line}
+        </text>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,33 @@
+import type { SearchHighlightSegment } from "@/types/product";
+
+interface SearchHighlightProps {
+  segments: SearchHighlightSegment[];
+  className?: string;
+}
+
+/**
+ * Text of a search result with the parts that matched the search term marked
+ */
+export function SearchHighlight({ segments, className }: SearchHighlightProps) {
+  // Segments are keyed by where they start in the text
+  let start = 0;
+  const positioned = segments.map((segment) => {
+    const entry = { ...segment, start };
+    start += segment.text.length;
+    return entry;
+  });
+
+  return (
+    <span className={className}>
+      {positioned.map((segment) =>
+        segment.highlighted ? (
+          <mark key={segment.start} className="bg-amber-300 text-teal-900 rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={segment.start}>{segment.text}</span>
+        )
+      )}
+    </span>
+  );
+}
@@ -1,6 +1,7 @@
 import { useTranslations } from "next-intl";
+import { findVariantForSize, isVariantInStock } from "@/lib/products/variants";
 import { cn, formatPrice } from "@/lib/utils";
-import type { CustomizationChoice, CustomizationOption } from "@/types/product";
+import type { CustomizationChoice, CustomizationOption, ProductVariant } from "@/types/product";
 
 interface SizeSelectorProps {
   sizeOption: CustomizationOption;
@@ -8,6 +9,7 @@ interface SizeSelectorProps {
   onSizeChange: (sizeId: string) => void;
   locale: string;
   basePrice: number;
+  variants?: ProductVariant[]; // Variants backing the sizes, for SKU and stock details
   className?: string;
 }
 
@@ -17,6 +19,7 @@ export function SizeSelector({
   onSizeChange,
   locale,
   basePrice,
+  variants = [],
   className,
 }: SizeSelectorProps) {
   const t = useTranslations("product");
@@ -65,6 +68,26 @@ export function SizeSelector({
     return formatPriceDisplay(priceModifier, true);
   };
 
+  // Stock and SKU of the variant behind a size; sold out variants are reported as unavailable
+  const getVariantDetails = (choiceId: string) => {
+    const variant = findVariantForSize(variants, choiceId);
+    if (!variant) {
+      return { lines: [], unavailableLabel: t("unavailable") };
+    }
+
+    const inStock = isVariantInStock(variant);
+    const stock =
+      variant.stockQuantity === null
+        ? t("variantMadeToOrder")
+        : t("variantInStock", { count: variant.stockQuantity });
+    const sku = variant.sku ? t("variantSku", { sku: variant.sku }) : null;
+
+    return {
+      lines: [inStock ? stock : null, sku].filter((line): line is string => Boolean(line)),
+      unavailableLabel: inStock ? t("unavailable") : t("variantSoldOut"),
+    };
+  };
+
   const sectionId = `size-selector-${sizeOption.id}`;
   const hasValidationError = sizeOption.required && !selectedSize;
 
@@ -106,6 +129,7 @@ export function SizeSelector({
           {choices.map((choice, index) => {
             const isSelected = selectedSize === choice.id;
             const priceModifier = getPriceModifierDisplay(choice.priceModifier);
+            const { lines: variantLines, unavailableLabel } = getVariantDetails(choice.id);
             const choiceId = `${sectionId}-choice-${choice.id}`;
 
             return (
@@ -168,8 +192,16 @@ export function SizeSelector({
                     {priceModifier && <div className="text-sm text-teal-800">{priceModifier}</div>}
                   </div>
 
+                  {variantLines.length > 0 && (
+                    <div className="mt-2 space-y-0.5 text-xs text-teal-800">
+                      {variantLines.map((line) => (
+                        <div key={line}>{line}</div>
+                      ))}
+                    </div>
+                  )}
+
                   {!choice.available && (
-                    <div className="text-sm text-red-600 mt-2">{t("unavailable")}</div>
+                    <div className="text-sm text-red-600 mt-2">{unavailableLabel}</div>
                   )}
                 </div>
 
@@ -178,7 +210,8 @@ export function SizeSelector({
                   {choice.label?.[locale as keyof typeof choice.label] || choice.id},{" "}
                   {getDisplayPrice(choice)}
                   {priceModifier && `, ${priceModifier}`}
-                  {!choice.available && `, ${t("unavailable")}`}
+                  {variantLines.map((line) => `, ${line}`)}
+                  {!choice.available && `, ${unavailableLabel}`}
                   {isSelected && ` - ${tAccessibility("selected")}`}
                 </div>
               </button>
@@ -0,0 +1,57 @@
+/**
+ * Tests for admin permissions
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  getRolePermissions,
+  hasPermission,
+  isStaffRole,
+  UserRoleError,
+  validateRoleAssignment,
+} from "../permissions";
+
+describe("hasPermission", () => {
+  it("limits florists to orders and stock", () => {
+    expect(hasPermission("florist", "orders:write")).toBe(true);
+    expect(hasPermission("florist", "inventory:write")).toBe(true);
+    expect(hasPermission("florist", "orders:refund")).toBe(false);
+    expect(hasPermission("florist", "products:write")).toBe(false);
+    expect(hasPermission("florist", "cache:admin")).toBe(false);
+  });
+
+  it("reserves role management for super admins", () => {
+    expect(hasPermission("admin", "gdpr:process")).toBe(true);
+    expect(hasPermission("admin", "users:manage")).toBe(false);
+    expect(hasPermission("super_admin", "users:manage")).toBe(true);
+  });
+
+  it("grants every florist permission to admins", () => {
+    for (const permission of getRolePermissions("florist")) {
+      expect(hasPermission("admin", permission)).toBe(true);
+    }
+  });
+
+  it("grants nothing to customers and unknown users", () => {
+    expect(getRolePermissions("customer")).toEqual([]);
+    expect(hasPermission(null, "dashboard:read")).toBe(false);
+    expect(isStaffRole("customer")).toBe(false);
+    expect(isStaffRole("florist")).toBe(true);
+  });
+});
+
+describe("validateRoleAssignment", () => {
+  it("accepts a known role for another user", () => {
+    expect(validateRoleAssignment("admin-1", "user-1", "florist")).toBe("florist");
+  });
+
+  it("rejects unknown roles", () => {
+    expect(() => validateRoleAssignment("admin-1", "user-1", "owner")).toThrow(UserRoleError);
+  });
+
+  it("rejects changing the actor's own role", () => {
+    expect(() => validateRoleAssignment("admin-1", "admin-1", "customer")).toThrow(
+      expect.objectContaining({ code: "SELF_ASSIGNMENT" })
+    );
+  });
+});
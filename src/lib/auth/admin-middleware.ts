@@ -1,18 +1,26 @@
 import { type NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth/config";
+import {
+  getRolePermissions,
+  hasPermission,
+  isStaffRole,
+  type Permission,
+  type StaffRole,
+} from "@/lib/auth/permissions";
 import { userUtils } from "@/lib/supabase/utils";
 
 export interface AdminUser {
   id: string;
   email: string;
   name?: string;
-  role: "admin" | "super_admin";
+  role: StaffRole;
+  permissions: readonly Permission[];
 }
 
 /**
- * Middleware to check if user has admin access
+ * Check that the signed-in user's role grants a permission
  */
-export async function requireAdmin(_request: NextRequest): Promise<AdminUser | NextResponse> {
+export async function requirePermission(permission: Permission): Promise<AdminUser | NextResponse> {
   try {
     const session = await auth();
 
@@ -28,11 +36,11 @@ export async function requireAdmin(_request: NextRequest): Promise<AdminUser | N
 
     const role = await userUtils.getUserRole(session.user.id);
 
-    if (!(role && ["admin", "super_admin"].includes(role))) {
+    if (!(isStaffRole(role) && hasPermission(role, permission))) {
       return NextResponse.json(
         {
           success: false,
-          error: "Insufficient permissions. Admin access required.",
+          error: `Insufficient permissions. Permission ${permission} required.`,
         },
         { status: 403 }
       );
@@ -42,7 +50,8 @@ export async function requireAdmin(_request: NextRequest): Promise<AdminUser | N
       id: session.user.id,
       email: session.user.email!,
       ...(session.user.name && { name: session.user.name }),
-      role: role as "admin" | "super_admin",
+      role,
+      permissions: getRolePermissions(role),
     };
   } catch (error) {
     console.error("Admin middleware error:", error);
@@ -56,29 +65,6 @@ export async function requireAdmin(_request: NextRequest): Promise<AdminUser | N
   }
 }
 
-/**
- * Middleware to check if user has super admin access
- */
-export async function requireSuperAdmin(request: NextRequest): Promise<AdminUser | NextResponse> {
-  const adminCheck = await requireAdmin(request);
-
-  if (adminCheck instanceof NextResponse) {
-    return adminCheck;
-  }
-
-  if (adminCheck.role !== "super_admin") {
-    return NextResponse.json(
-      {
-        success: false,
-        error: "Super admin access required",
-      },
-      { status: 403 }
-    );
-  }
-
-  return adminCheck;
-}
-
 /**
  * Utility to log admin actions
  */
@@ -110,30 +96,14 @@ export async function logAdminAction(
 }
 
 /**
- * Higher-order function to wrap API routes with admin authentication
- */
-export function withAdminAuth(
-  handler: (request: NextRequest, admin: AdminUser, ...args: any[]) => Promise<NextResponse>
-) {
-  return async (request: NextRequest, ...args: any[]) => {
-    const adminCheck = await requireAdmin(request);
-
-    if (adminCheck instanceof NextResponse) {
-      return adminCheck;
-    }
-
-    return handler(request, adminCheck, ...args);
-  };
-}
-
-/**
- * Higher-order function to wrap API routes with super admin authentication
+ * Higher-order function to wrap admin API routes with a permission check
  */
-export function withSuperAdminAuth(
+export function withPermission(
+  permission: Permission,
   handler: (request: NextRequest, admin: AdminUser, ...args: any[]) => Promise<NextResponse>
 ) {
   return async (request: NextRequest, ...args: any[]) => {
-    const adminCheck = await requireSuperAdmin(request);
+    const adminCheck = await requirePermission(permission);
 
     if (adminCheck instanceof NextResponse) {
       return adminCheck;
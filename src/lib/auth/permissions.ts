@@ -0,0 +1,123 @@
+/**
+ * Admin permissions
+ * Maps user roles to the permissions checked by the admin API and the admin UI and validates
+ * role assignments.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+export type UserRole = "customer" | "florist" | "admin" | "super_admin";
+
+/**
+ * Roles with access to the admin
+ */
+export type StaffRole = Exclude<UserRole, "customer">;
+
+export type Permission =
+  | "dashboard:read"
+  | "orders:read"
+  | "orders:write"
+  | "orders:refund"
+  | "products:read"
+  | "products:write"
+  | "inventory:write"
+  | "delivery:write"
+  | "contact-forms:write"
+  | "cache:admin"
+  | "customizations:admin"
+  | "activity:read"
+  | "monitoring:read"
+  | "gdpr:process"
+  | "users:manage";
+
+export type UserRoleErrorCode = "INVALID_ROLE" | "USER_NOT_FOUND" | "SELF_ASSIGNMENT";
+
+export class UserRoleError extends Error {
+  constructor(
+    message: string,
+    public code: UserRoleErrorCode
+  ) {
+    super(message);
+    this.name = "UserRoleError";
+  }
+}
+
+export const USER_ROLES: readonly UserRole[] = ["customer", "florist", "admin", "super_admin"];
+
+export const STAFF_ROLES: readonly StaffRole[] = ["florist", "admin", "super_admin"];
+
+// Florists prepare orders: they see and progress orders and keep stock levels up to date
+const FLORIST_PERMISSIONS: readonly Permission[] = [
+  "dashboard:read",
+  "orders:read",
+  "orders:write",
+  "products:read",
+  "inventory:write",
+];
+
+const ADMIN_PERMISSIONS: readonly Permission[] = [
+  ...FLORIST_PERMISSIONS,
+  "orders:refund",
+  "products:write",
+  "delivery:write",
+  "contact-forms:write",
+  "cache:admin",
+  "customizations:admin",
+  "activity:read",
+  "monitoring:read",
+  "gdpr:process",
+];
+
+export const ROLE_PERMISSIONS: Record<StaffRole, readonly Permission[]> = {
+  florist: FLORIST_PERMISSIONS,
+  admin: ADMIN_PERMISSIONS,
+  super_admin: [...ADMIN_PERMISSIONS, "users:manage"],
+};
+
+/**
+ * Check if a value is a known user role
+ */
+export function isUserRole(value: unknown): value is UserRole {
+  return USER_ROLES.includes(value as UserRole);
+}
+
+/**
+ * Check if a role has access to the admin
+ */
+export function isStaffRole(role: UserRole | null | undefined): role is StaffRole {
+  return STAFF_ROLES.includes(role as StaffRole);
+}
+
+/**
+ * Permissions granted to a role (none for customers)
+ */
+export function getRolePermissions(role: UserRole | null | undefined): readonly Permission[] {
+  return isStaffRole(role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+/**
+ * Check if a role grants a permission
+ */
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return getRolePermissions(role).includes(permission);
+}
+
+/**
+ * Validate a role assignment made from the admin
+ *
+ * @throws UserRoleError when the role is unknown or admins try to change their own role
+ */
+export function validateRoleAssignment(actorId: string, userId: string, role: unknown): UserRole {
+  if (!isUserRole(role)) {
+    throw new UserRoleError(
+      `Neplatná role. Povolené role: ${USER_ROLES.join(", ")}`,
+      "INVALID_ROLE"
+    );
+  }
+
+  // Prevents super admins from locking themselves (and possibly everyone) out of role management
+  if (actorId === userId) {
+    throw new UserRoleError("Vlastní roli nelze změnit", "SELF_ASSIGNMENT");
+  }
+
+  return role;
+}
@@ -16,13 +16,8 @@ import {
 /**
  * Generate cache key for delivery calendar
  */
-function getCalendarCacheKey(month: number, year: number, postalCode?: string): string {
-  return generateCacheKey(
-    CACHE_KEYS.DELIVERY_CALENDAR,
-    year,
-    month,
-    ...(postalCode ? [postalCode] : [])
-  );
+function getCalendarCacheKey(month: number, year: number, zoneId?: string): string {
+  return generateCacheKey(CACHE_KEYS.DELIVERY_CALENDAR, year, month, ...(zoneId ? [zoneId] : []));
 }
 
 /**
@@ -37,17 +32,17 @@ function getAvailabilityCacheKey(date: string, postalCode?: string): string {
 }
 
 /**
- * Cache delivery calendar data
+ * Cache delivery calendar data (per delivery zone when zoneId is given)
  */
 export async function cacheDeliveryCalendar(
   month: number,
   year: number,
   availableDates: DeliveryAvailability[],
-  postalCode?: string
+  zoneId?: string
 ): Promise<void> {
   try {
     const client = getCacheClient();
-    const key = getCalendarCacheKey(month, year, postalCode);
+    const key = getCalendarCacheKey(month, year, zoneId);
     const data = serializeForCache(availableDates);
 
     await client.set(key, data, CACHE_TTL.DELIVERY);
@@ -62,11 +57,11 @@ export async function cacheDeliveryCalendar(
 export async function getCachedDeliveryCalendar(
   month: number,
   year: number,
-  postalCode?: string
+  zoneId?: string
 ): Promise<DeliveryAvailability[] | null> {
   try {
     const client = getCacheClient();
-    const key = getCalendarCacheKey(month, year, postalCode);
+    const key = getCalendarCacheKey(month, year, zoneId);
     const cached = await client.get(key);
 
     const data = deserializeFromCache<DeliveryAvailability[]>(cached);
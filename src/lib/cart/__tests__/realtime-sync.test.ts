@@ -0,0 +1,84 @@
+/**
+ * Tests for cart sync events and conflict resolution
+ */
+
+import { describe, expect, it } from "vitest";
+import type { CartItem, CartSummary } from "@/types/cart";
+import { CartConflictResolver, createCartSyncEvent } from "../realtime-sync";
+
+const item = (id: string, quantity: number): CartItem => ({
+  id,
+  productId: `product-${id}`,
+  quantity,
+  customizations: [],
+  unitPrice: 1000,
+  totalPrice: 1000 * quantity,
+  createdAt: new Date("2025-01-15T10:00:00.000Z"),
+  updatedAt: new Date("2025-01-15T10:00:00.000Z"),
+});
+
+const cart = (...items: CartItem[]): CartSummary => {
+  const subtotal = items.reduce((sum, cartItem) => sum + (cartItem.totalPrice || 0), 0);
+  return {
+    items,
+    itemCount: items.reduce((sum, cartItem) => sum + cartItem.quantity, 0),
+    subtotal,
+    total: subtotal,
+  };
+};
+
+describe("createCartSyncEvent", () => {
+  it("maps cart_items changes to sync events", () => {
+    const event = createCartSyncEvent("DELETE", {
+      id: "a",
+      product_id: "product-a",
+      variant_id: null,
+      quantity: 2,
+      customizations: null,
+      unit_price: 1000,
+      total_price: 2000,
+      user_id: "user-1",
+      session_id: null,
+      created_at: "2025-01-15T10:00:00.000Z",
+      updated_at: "2025-01-15T10:00:00.000Z",
+    });
+
+    expect(event.type).toBe("item_removed");
+    expect(event.userId).toBe("user-1");
+    expect(event).not.toHaveProperty("sessionId");
+    expect(event.source).toBe("remote");
+    expect(event.data).toMatchObject({ id: "a", quantity: 2, customizations: [] });
+  });
+});
+
+describe("CartConflictResolver", () => {
+  it("converges on the server cart when nothing is pending locally", () => {
+    const { resolvedCart, conflicts } = CartConflictResolver.resolveConflicts(
+      cart(item("a", 1), item("b", 1)),
+      cart(item("a", 3), item("c", 1))
+    );
+
+    expect(resolvedCart.items.map(({ id, quantity }) => [id, quantity])).toEqual([
+      ["a", 3],
+      ["c", 1],
+    ]);
+    expect(resolvedCart.subtotal).toBe(4000);
+    expect(conflicts).toEqual([expect.objectContaining({ itemId: "a", resolution: "server" })]);
+  });
+
+  it("keeps local changes that are still in flight", () => {
+    const { resolvedCart, conflicts } = CartConflictResolver.resolveConflicts(
+      cart(item("a", 5), item("temp_1", 1)),
+      cart(item("a", 3), item("b", 1)),
+      "merge",
+      new Set(["a", "b", "temp_1"])
+    );
+
+    // "a" keeps the local quantity, "b" is being removed locally, temp items stay optimistic
+    expect(resolvedCart.items.map(({ id, quantity }) => [id, quantity])).toEqual([
+      ["a", 5],
+      ["temp_1", 1],
+    ]);
+    expect(conflicts).toEqual([expect.objectContaining({ itemId: "a", resolution: "local" })]);
+  });
+});
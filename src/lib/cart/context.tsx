@@ -11,6 +11,7 @@ import {
   useState,
 } from "react";
 import { useAuthContext } from "@/components/auth";
+import type { AppliedDiscount, DiscountErrorCode } from "@/lib/discounts/rules";
 import { supabase } from "@/lib/supabase/client";
 import type { AddToCartRequest, CartItem, CartState, CartSummary } from "@/types/cart";
 import {
@@ -46,6 +47,17 @@ type CartAction =
     }
   | { type: "SET_SYNCING"; payload: boolean };
 
+// Result of applying a promo code from the cart UI
+export interface DiscountApplyResult {
+  success: boolean;
+  errorCode?: DiscountErrorCode | "RATE_LIMITED" | "UNKNOWN";
+}
+
+const DISCOUNT_STORAGE_KEY = "cart_discount_code";
+
+// Coalesce bursts of remote cart changes (e.g. a merge touching several items) into one sync
+const REMOTE_SYNC_DEBOUNCE_MS = 500;
+
 // Enhanced cart context type
 interface CartContextType {
   state: CartState;
@@ -62,6 +74,9 @@ interface CartContextType {
   disableRealTime: () => void;
   getCartVersion: () => number;
   runIntegrityCheck: () => Promise<any>;
+  appliedDiscount: AppliedDiscount | null;
+  applyDiscountCode: (code: string) => Promise<DiscountApplyResult>;
+  removeDiscountCode: () => void;
 }
 
 // Enhanced initial state
@@ -231,6 +246,8 @@ export function CartProvider({ children }: CartProviderProps) {
   const [isRealTimeEnabled, setIsRealTimeEnabled] = useState(false);
   const [cartVersion, setCartVersion] = useState(Date.now());
   const syncManagerRef = useRef<CartSyncManager | null>(null);
+  const remoteSyncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [appliedDiscount, setAppliedDiscount] = useState<AppliedDiscount | null>(null);
 
   // Enhanced fetch cart with retry logic
   const fetchCart = useCallback(
@@ -301,6 +318,7 @@ export function CartProvider({ children }: CartProviderProps) {
       const optimisticItem: CartItem = {
         id: tempId,
         productId: request.productId,
+        ...(request.variantId && { variantId: request.variantId }),
         quantity: request.quantity,
         customizations: request.customizations,
         unitPrice: 0, // Will be calculated by server
@@ -546,9 +564,42 @@ export function CartProvider({ children }: CartProviderProps) {
   );
 
   // Clear cart (local state only)
+  // Validate a promo code against the server cart and remember it for checkout
+  const applyDiscountCode = useCallback(async (code: string): Promise<DiscountApplyResult> => {
+    try {
+      const response = await fetch("/api/discounts/validate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        credentials: "include",
+        body: JSON.stringify({ code }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok && data.success && data.discount) {
+        setAppliedDiscount(data.discount);
+        localStorage.setItem(DISCOUNT_STORAGE_KEY, data.discount.code);
+        return { success: true };
+      }
+
+      return { success: false, errorCode: data.errorCode || "UNKNOWN" };
+    } catch (error) {
+      console.error("Error applying discount code:", error);
+      return { success: false, errorCode: "UNKNOWN" };
+    }
+  }, []);
+
+  const removeDiscountCode = useCallback(() => {
+    setAppliedDiscount(null);
+    localStorage.removeItem(DISCOUNT_STORAGE_KEY);
+  }, []);
+
   const clearCart = useCallback(() => {
     dispatch({ type: "CLEAR_CART" });
-  }, []);
+    removeDiscountCode();
+  }, [removeDiscountCode]);
 
   // Clear all items from cart (server + cache + local state)
   const clearAllItems = useCallback(async (): Promise<boolean> => {
@@ -567,6 +618,7 @@ export function CartProvider({ children }: CartProviderProps) {
 
         // Clear local state
         dispatch({ type: "CLEAR_CART" });
+        removeDiscountCode();
 
         // Clear LocalStorage completely when cart is cleared
         CartPersistenceManager.clearCartState();
@@ -619,7 +671,7 @@ export function CartProvider({ children }: CartProviderProps) {
     } finally {
       dispatch({ type: "SET_LOADING", payload: false });
     }
-  }, [fetchCart, isOnline]);
+  }, [fetchCart, isOnline, removeDiscountCode]);
 
   // Refresh cart
   const refreshCart = useCallback(async () => {
@@ -651,7 +703,9 @@ export function CartProvider({ children }: CartProviderProps) {
               total: state.items.reduce((sum, item) => sum + (item.totalPrice || 0), 0),
             },
             data.cart,
-            "merge"
+            "merge",
+            // Keep local changes that are still on their way to the server
+            new Set(state.optimisticUpdates?.keys() ?? [])
           );
 
           // Apply resolved state
@@ -671,7 +725,11 @@ export function CartProvider({ children }: CartProviderProps) {
     } finally {
       dispatch({ type: "SET_SYNCING", payload: false });
     }
-  }, [isOnline, state.items, cartVersion]);
+  }, [isOnline, state.items, state.optimisticUpdates, cartVersion]);
+
+  // Remote events are handled outside React's render cycle, so always call the latest sync
+  const syncWithServerRef = useRef(syncWithServer);
+  syncWithServerRef.current = syncWithServer;
 
   // Online/offline detection
   useEffect(() => {
@@ -725,17 +783,22 @@ export function CartProvider({ children }: CartProviderProps) {
 
   // Real-time synchronization management
   const enableRealTime = useCallback(() => {
-    if (!isOnline || isRealTimeEnabled) return;
+    if (!isOnline || syncManagerRef.current) return;
 
-    const sessionId = getCartSessionId();
-    syncManagerRef.current = new CartSyncManager(user?.id, sessionId || undefined);
+    syncManagerRef.current = new CartSyncManager();
 
-    // Handle real-time cart updates
+    // Handle real-time cart updates from other tabs and devices
     syncManagerRef.current.on("sync", (event: CartSyncEvent) => {
-      if (event.source === "remote") {
-        // Apply remote changes
-        syncWithServer();
+      if (event.source !== "remote") return;
+
+      // Re-fetch and merge through CartConflictResolver once the burst settles
+      if (remoteSyncTimeoutRef.current) {
+        clearTimeout(remoteSyncTimeoutRef.current);
       }
+      remoteSyncTimeoutRef.current = setTimeout(() => {
+        remoteSyncTimeoutRef.current = null;
+        syncWithServerRef.current();
+      }, REMOTE_SYNC_DEBOUNCE_MS);
     });
 
     syncManagerRef.current.connect().then((connected) => {
@@ -743,9 +806,13 @@ export function CartProvider({ children }: CartProviderProps) {
         setIsRealTimeEnabled(true);
       }
     });
-  }, [isOnline, isRealTimeEnabled, user?.id, syncWithServer]);
+  }, [isOnline]);
 
   const disableRealTime = useCallback(() => {
+    if (remoteSyncTimeoutRef.current) {
+      clearTimeout(remoteSyncTimeoutRef.current);
+      remoteSyncTimeoutRef.current = null;
+    }
     if (syncManagerRef.current) {
       syncManagerRef.current.disconnect();
       syncManagerRef.current = null;
@@ -753,6 +820,14 @@ export function CartProvider({ children }: CartProviderProps) {
     setIsRealTimeEnabled(false);
   }, []);
 
+  // Subscribe to the cart event stream once the cart owner is known (user or guest session)
+  useEffect(() => {
+    if (loading || !isOnline || !(user?.id || getCartSessionId())) return;
+
+    enableRealTime();
+    return () => disableRealTime();
+  }, [loading, isOnline, user?.id, enableRealTime, disableRealTime]);
+
   const getCartVersion = useCallback(() => cartVersion, [cartVersion]);
   const runIntegrityCheck = useCallback(async (): Promise<any> => {
     try {
@@ -809,6 +884,21 @@ export function CartProvider({ children }: CartProviderProps) {
     }
   }, [loading, state.items.length]);
 
+  // Revalidate the remembered promo code whenever the cart contents change
+  const cartSubtotal = state.items.reduce((sum, item) => sum + (item.totalPrice || 0), 0);
+  useEffect(() => {
+    const storedCode = localStorage.getItem(DISCOUNT_STORAGE_KEY);
+    if (!storedCode || cartSubtotal <= 0) {
+      return;
+    }
+
+    applyDiscountCode(storedCode).then((result) => {
+      if (!result.success && result.errorCode !== "RATE_LIMITED") {
+        removeDiscountCode();
+      }
+    });
+  }, [cartSubtotal, applyDiscountCode, removeDiscountCode]);
+
   // Cleanup real-time sync on unmount
   useEffect(() => {
     return () => {
@@ -833,6 +923,9 @@ export function CartProvider({ children }: CartProviderProps) {
     disableRealTime,
     getCartVersion,
     runIntegrityCheck,
+    appliedDiscount,
+    applyDiscountCode,
+    removeDiscountCode,
   };
 
   return <CartContext.Provider value={contextValue}>{children}</CartContext.Provider>;
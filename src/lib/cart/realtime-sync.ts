@@ -1,9 +1,13 @@
 /**
  * Real-time cart synchronization utilities
- * Provides WebSocket-based real-time updates and enhanced conflict resolution
+ * Provides Server-Sent Events based real-time updates and enhanced conflict resolution
  */
 
+import type { Database } from "@/lib/supabase/database.types";
 import type { CartItem, CartSummary } from "@/types/cart";
+import type { Customization } from "@/types/product";
+
+type CartItemRecord = Database["public"]["Tables"]["cart_items"]["Row"];
 
 export interface CartSyncEvent {
   type: "cart_updated" | "item_added" | "item_removed" | "item_updated";
@@ -28,125 +32,119 @@ export interface CartConflict {
   resolution: "local" | "server" | "merged";
 }
 
+const CART_CHANGE_EVENT_TYPES: Record<
+  "INSERT" | "UPDATE" | "DELETE",
+  Exclude<CartSyncEvent["type"], "cart_updated">
+> = {
+  INSERT: "item_added",
+  UPDATE: "item_updated",
+  DELETE: "item_removed",
+};
+
+/**
+ * Build a sync event from a cart_items change (Supabase Realtime payload)
+ */
+export function createCartSyncEvent(
+  change: keyof typeof CART_CHANGE_EVENT_TYPES,
+  row: CartItemRecord
+): CartSyncEvent {
+  return {
+    type: CART_CHANGE_EVENT_TYPES[change],
+    ...(row.user_id && { userId: row.user_id }),
+    ...(row.session_id && { sessionId: row.session_id }),
+    data: {
+      id: row.id,
+      productId: row.product_id,
+      ...(row.variant_id && { variantId: row.variant_id }),
+      quantity: row.quantity,
+      customizations: (row.customizations || []) as unknown as Customization[],
+      unitPrice: row.unit_price,
+      totalPrice: row.total_price,
+      createdAt: new Date(row.created_at || Date.now()),
+      updatedAt: new Date(row.updated_at || Date.now()),
+    },
+    timestamp: Date.now(),
+    source: "remote",
+  };
+}
+
 /**
  * Enhanced real-time cart synchronization manager
+ * Listens to /api/cart/events, which streams cart_items changes for the current user or
+ * guest session. Changes made through the cart API reach every open tab and device.
  */
 export class CartSyncManager {
-  private ws: WebSocket | null = null;
+  private eventSource: EventSource | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
-  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
   private eventListeners: Map<string, ((event: CartSyncEvent) => void)[]> = new Map();
 
-  constructor(
-    private userId?: string,
-    private sessionId?: string
-  ) {}
-
   /**
-   * Initialize WebSocket connection for real-time updates
+   * Open the Server-Sent Events stream for real-time updates
    */
   async connect(): Promise<boolean> {
-    if (typeof window === "undefined") return false;
+    if (typeof window === "undefined" || typeof EventSource === "undefined") return false;
 
-    try {
-      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      const wsUrl = `${protocol}//${window.location.host}/api/cart/ws`;
+    this.closeEventSource();
 
-      this.ws = new WebSocket(wsUrl);
+    try {
+      const eventSource = new EventSource("/api/cart/events", { withCredentials: true });
+      this.eventSource = eventSource;
 
-      this.ws.onopen = () => {
-        console.log("Cart sync WebSocket connected");
+      eventSource.onopen = () => {
+        console.log("Cart sync stream connected");
         this.reconnectAttempts = 0;
-        this.startHeartbeat();
-
-        // Send authentication
-        this.send({
-          type: "auth",
-          userId: this.userId,
-          sessionId: this.sessionId,
-        });
       };
 
-      this.ws.onmessage = (event) => {
+      eventSource.addEventListener("cart_sync", (event) => {
         try {
-          const data = JSON.parse(event.data);
-          this.handleMessage(data);
+          this.handleMessage(JSON.parse((event as MessageEvent<string>).data));
         } catch (error) {
-          console.error("Error parsing WebSocket message:", error);
+          console.error("Error parsing cart sync event:", error);
         }
-      };
-
-      this.ws.onclose = () => {
-        console.log("Cart sync WebSocket disconnected");
-        this.stopHeartbeat();
-        this.attemptReconnect();
-      };
+      });
 
-      this.ws.onerror = (error) => {
-        console.error("Cart sync WebSocket error:", error);
+      eventSource.onerror = () => {
+        // EventSource retries dropped connections itself; a closed stream needs a manual reconnect
+        if (eventSource.readyState === EventSource.CLOSED) {
+          console.log("Cart sync stream closed");
+          this.eventSource = null;
+          this.attemptReconnect();
+        }
       };
 
       return true;
     } catch (error) {
-      console.error("Failed to connect to cart sync WebSocket:", error);
+      console.error("Failed to connect to cart sync stream:", error);
       return false;
     }
   }
 
   /**
-   * Disconnect WebSocket
+   * Close the stream and cancel pending reconnects
    */
   disconnect(): void {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    this.stopHeartbeat();
-  }
-
-  /**
-   * Send message through WebSocket
-   */
-  private send(message: any): void {
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify(message));
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
     }
+    this.closeEventSource();
   }
 
-  /**
-   * Handle incoming WebSocket messages
-   */
-  private handleMessage(data: any): void {
-    if (data.type === "cart_sync") {
-      const event: CartSyncEvent = {
-        ...data,
-        e: "remote",
-      };
-      this.emit("sync", event);
-    } else if (data.type === "pong") {
-      // Heartbeat response
+  private closeEventSource(): void {
+    if (this.eventSource) {
+      this.eventSource.close();
+      this.eventSource = null;
     }
   }
 
   /**
-   * Start heartbeat to keep connection alive
+   * Handle incoming cart change events
    */
-  private startHeartbeat(): void {
-    this.heartbeatInterval = setInterval(() => {
-      this.send({ type: "ping" });
-    }, 30000);
-  }
-
-  /**
-   * Stop heartbeat
-   */
-  private stopHeartbeat(): void {
-    if (this.heartbeatInterval) {
-      clearInterval(this.heartbeatInterval);
-      this.heartbeatInterval = null;
-    }
+  private handleMessage(data: CartSyncEvent): void {
+    this.emit("sync", { ...data, source: "remote" });
   }
 
   /**
@@ -161,7 +159,8 @@ export class CartSyncManager {
     const delay = this.reconnectDelay * 2 ** this.reconnectAttempts;
     this.reconnectAttempts++;
 
-    setTimeout(() => {
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
       console.log(
         `Attempting to reconnect (${this.reconnectAttempts}/${this.maxReconnectAttempts})`
       );
@@ -201,18 +200,6 @@ export class CartSyncManager {
       listeners.forEach((listener) => listener(data));
     }
   }
-
-  /**
-   * Broadcast cart change to other clients
-   */
-  broadcastCartChange(event: CartSyncEvent): void {
-    const { type, ...eventData } = event;
-    this.send({
-      type: "cart_change",
-      ...eventData,
-      source: "local",
-    });
-  }
 }
 
 /**
@@ -221,11 +208,14 @@ export class CartSyncManager {
 export class CartConflictResolver {
   /**
    * Resolve conflicts between local and server cart state
+   *
+   * @param pendingItemIds - Items with local changes still in flight; merge keeps their local state
    */
   static resolveConflicts(
     localCart: CartSummary,
     serverCart: CartSummary,
-    strategy: ConflictResolution["strategy"] = "merge"
+    strategy: ConflictResolution["strategy"] = "merge",
+    pendingItemIds: ReadonlySet<string> = new Set()
   ): ConflictResolution {
     const conflicts: CartConflict[] = [];
     let resolvedCart: CartSummary;
@@ -240,7 +230,12 @@ export class CartConflictResolver {
         break;
 
       case "merge":
-        resolvedCart = CartConflictResolver.mergeCartStates(localCart, serverCart, conflicts);
+        resolvedCart = CartConflictResolver.mergeCartStates(
+          localCart,
+          serverCart,
+          conflicts,
+          pendingItemIds
+        );
         break;
 
       default:
@@ -260,7 +255,8 @@ export class CartConflictResolver {
   private static mergeCartStates(
     localCart: CartSummary,
     serverCart: CartSummary,
-    conflicts: CartConflict[]
+    conflicts: CartConflict[],
+    pendingItemIds: ReadonlySet<string>
   ): CartSummary {
     const mergedItems: CartItem[] = [];
     const processedIds = new Set<string>();
@@ -271,10 +267,15 @@ export class CartConflictResolver {
 
       if (localItem) {
         // Item exists in both - check for conflicts
-        const mergedItem = CartConflictResolver.mergeCartItems(localItem, serverItem, conflicts);
+        const mergedItem = CartConflictResolver.mergeCartItems(
+          localItem,
+          serverItem,
+          conflicts,
+          pendingItemIds.has(serverItem.id)
+        );
         mergedItems.push(mergedItem);
-      } else {
-        // Item only exists on server
+      } else if (!pendingItemIds.has(serverItem.id)) {
+        // Item only exists on server (skipped while its local removal is in flight)
         mergedItems.push(serverItem);
       }
 
@@ -310,18 +311,27 @@ export class CartConflictResolver {
   private static mergeCartItems(
     localItem: CartItem,
     serverItem: CartItem,
-    conflicts: CartConflict[]
+    conflicts: CartConflict[],
+    hasPendingLocalChange = false
   ): CartItem {
     const mergedItem = { ...serverItem }; // Start with server version
 
     // Check quantity conflict
     if (localItem.quantity !== serverItem.quantity) {
+      // A local update still in flight will reach the server, so keep it until confirmed
+      if (hasPendingLocalChange) {
+        mergedItem.quantity = localItem.quantity;
+        if (localItem.totalPrice !== undefined) {
+          mergedItem.totalPrice = localItem.totalPrice;
+        }
+      }
+
       conflicts.push({
         itemId: localItem.id,
         field: "quantity",
         localValue: localItem.quantity,
         serverValue: serverItem.quantity,
-        resolution: "server", // Default to server for quantity
+        resolution: hasPendingLocalChange ? "local" : "server",
       });
     }
 
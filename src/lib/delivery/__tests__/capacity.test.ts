@@ -0,0 +1,94 @@
+/**
+ * Tests for delivery capacity rules
+ */
+
+import { describe, expect, it } from "vitest";
+import type { DeliveryAvailability, DeliveryCapacityRule } from "@/types/delivery";
+import {
+  applyDeliveryCapacity,
+  DeliveryCapacityError,
+  resolveCapacityLimits,
+  validateDeliveryCapacityInput,
+} from "../capacity";
+
+const rules: DeliveryCapacityRule[] = [
+  { id: "default-day", maxOrders: 10 },
+  { id: "default-morning", timeSlot: "morning", maxOrders: 3 },
+  { id: "busy-day", date: "2026-11-02", maxOrders: 4 },
+  { id: "busy-morning", date: "2026-11-02", timeSlot: "morning", maxOrders: 1 },
+];
+
+const day = (date: Date): DeliveryAvailability => ({
+  date,
+  available: true,
+  timeSlots: ["morning", "afternoon", "anytime"],
+});
+
+describe("resolveCapacityLimits", () => {
+  it("prefers rules for the date over the defaults", () => {
+    expect(resolveCapacityLimits(rules, "2026-11-02", "morning")).toEqual({
+      dayLimit: 4,
+      slotLimit: 1,
+    });
+    expect(resolveCapacityLimits(rules, "2026-11-03", "morning")).toEqual({
+      dayLimit: 10,
+      slotLimit: 3,
+    });
+  });
+
+  it("leaves days and slots without a rule unlimited", () => {
+    expect(resolveCapacityLimits([], "2026-11-03", "afternoon")).toEqual({
+      dayLimit: null,
+      slotLimit: null,
+    });
+  });
+});
+
+describe("applyDeliveryCapacity", () => {
+  it("marks fully booked slots and counts orders", () => {
+    const [result] = applyDeliveryCapacity([day(new Date(2026, 10, 2))], rules, {
+      "2026-11-02": { total: 2, bySlot: { morning: 1, anytime: 1 } },
+    });
+
+    expect(result).toMatchObject({
+      available: true,
+      maxOrders: 4,
+      currentOrders: 2,
+      fullTimeSlots: ["morning"],
+    });
+  });
+
+  it("closes the day once the daily limit is reached", () => {
+    const [result] = applyDeliveryCapacity([day(new Date(2026, 10, 2))], rules, {
+      "2026-11-02": { total: 4, bySlot: { afternoon: 4 } },
+    });
+
+    expect(result).toMatchObject({
+      available: false,
+      fullTimeSlots: ["morning", "afternoon", "anytime"],
+      reason: "Kapacita vyčerpána",
+    });
+  });
+
+  it("leaves unavailable days untouched", () => {
+    const closed = { ...day(new Date(2026, 10, 1)), available: false, timeSlots: [] };
+    expect(applyDeliveryCapacity([closed], rules, {})).toEqual([closed]);
+  });
+});
+
+describe("validateDeliveryCapacityInput", () => {
+  it("normalizes empty date and time slot to defaults", () => {
+    expect(validateDeliveryCapacityInput({ date: "", timeSlot: null, maxOrders: 5 })).toEqual({
+      date: null,
+      timeSlot: null,
+      maxOrders: 5,
+    });
+  });
+
+  it("rejects negative limits and unknown slots", () => {
+    expect(() => validateDeliveryCapacityInput({ maxOrders: -1 })).toThrow(DeliveryCapacityError);
+    expect(() =>
+      validateDeliveryCapacityInput({ timeSlot: "night" as "morning", maxOrders: 1 })
+    ).toThrow(DeliveryCapacityError);
+  });
+});
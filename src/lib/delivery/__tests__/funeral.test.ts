@@ -0,0 +1,99 @@
+/**
+ * Tests for funeral service details
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  assertFuneralDeliveryTiming,
+  checkFuneralDeliveryTiming,
+  FuneralDeliveryError,
+  formatFuneralVenue,
+  parseFuneralDetails,
+} from "../funeral";
+
+// Ceremony on Friday 24 January 2025 at 11:00 Czech time (UTC+1)
+const ceremonyStart = new Date("2025-01-24T10:00:00.000Z");
+const now = new Date("2025-01-20T09:00:00.000Z");
+
+describe("checkFuneralDeliveryTiming", () => {
+  it("accepts a delivery on an earlier day", () => {
+    expect(
+      checkFuneralDeliveryTiming(ceremonyStart, { date: "2025-01-23", timeSlot: "evening" }, now)
+        .allowed
+    ).toBe(true);
+  });
+
+  it("accepts a same-day slot that ends early enough", () => {
+    // Morning deliveries arrive by 12:00, too late for 11:00; by 10:00 would be needed
+    const early = new Date("2025-01-24T12:00:00.000Z"); // 13:00 Czech time
+    expect(
+      checkFuneralDeliveryTiming(early, { date: "2025-01-24", timeSlot: "morning" }, now).allowed
+    ).toBe(true);
+    expect(
+      checkFuneralDeliveryTiming(ceremonyStart, { date: "2025-01-24", timeSlot: "morning" }, now)
+    ).toMatchObject({ allowed: false, code: "DELIVERY_AFTER_CEREMONY" });
+  });
+
+  it("rejects a delivery after the ceremony day", () => {
+    expect(
+      checkFuneralDeliveryTiming(ceremonyStart, { date: "2025-01-25", timeSlot: "morning" }, now)
+        .code
+    ).toBe("DELIVERY_AFTER_CEREMONY");
+  });
+
+  it("requires a delivery date", () => {
+    expect(checkFuneralDeliveryTiming(ceremonyStart, null, now).code).toBe(
+      "DELIVERY_DATE_REQUIRED"
+    );
+  });
+
+  it("rejects ceremonies held today or earlier", () => {
+    expect(
+      checkFuneralDeliveryTiming(ceremonyStart, { date: "2025-01-24" }, ceremonyStart).code
+    ).toBe("CEREMONY_TOO_SOON");
+  });
+
+  it("throws from the assert variant", () => {
+    expect(() => assertFuneralDeliveryTiming(ceremonyStart, null, now)).toThrow(
+      FuneralDeliveryError
+    );
+  });
+});
+
+describe("parseFuneralDetails", () => {
+  it("parses checkout metadata and drops empty optional fields", () => {
+    expect(
+      parseFuneralDetails(
+        JSON.stringify({
+          deceasedName: " Jan Novák ",
+          venueType: "church",
+          ceremonyStart: ceremonyStart.toISOString(),
+          venueName: "",
+          funeralHomePhone: "+420777123456",
+        })
+      )
+    ).toEqual({
+      deceasedName: "Jan Novák",
+      venueType: "church",
+      ceremonyStart,
+      funeralHomePhone: "+420777123456",
+    });
+  });
+
+  it("returns null for incomplete or malformed details", () => {
+    expect(parseFuneralDetails({ deceasedName: "Jan Novák", venueType: "church" })).toBeNull();
+    expect(
+      parseFuneralDetails({ deceasedName: "Jan Novák", venueType: "pub", ceremonyStart })
+    ).toBeNull();
+    expect(parseFuneralDetails("{not json")).toBeNull();
+  });
+});
+
+describe("formatFuneralVenue", () => {
+  it("joins the venue type and name", () => {
+    expect(formatFuneralVenue({ venueType: "ceremony_hall", venueName: "Strašnice" })).toBe(
+      "Obřadní síň - Strašnice"
+    );
+    expect(formatFuneralVenue({ venueType: "cemetery" }, "en")).toBe("Cemetery");
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Tests for the Czech holiday calendar
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  DeliveryClosureError,
+  expandDeliveryClosures,
+  findClosure,
+  getCzechHolidays,
+  getCzechHolidaysInMonth,
+  getDeliveryDateKey,
+  getEasterSunday,
+  isCzechHoliday,
+  toDateKey,
+  validateDeliveryClosureInput,
+} from "../holidays";
+
+describe("getEasterSunday", () => {
+  it("computes Easter Sunday for any year", () => {
+    expect(toDateKey(getEasterSunday(2024))).toBe("2024-03-31");
+    expect(toDateKey(getEasterSunday(2025))).toBe("2025-04-20");
+    expect(toDateKey(getEasterSunday(2026))).toBe("2026-04-05");
+    expect(toDateKey(getEasterSunday(2038))).toBe("2038-04-25");
+  });
+});
+
+describe("getCzechHolidays", () => {
+  it("includes Good Friday and Easter Monday", () => {
+    const holidays = getCzechHolidays(2026).map((holiday) => toDateKey(holiday.date));
+
+    expect(holidays).toHaveLength(13);
+    expect(holidays).toContain("2026-04-03");
+    expect(holidays).toContain("2026-04-06");
+    expect(holidays[0]).toBe("2026-01-01");
+  });
+
+  it("leaves out Good Friday before it became a holiday in 2016", () => {
+    expect(getCzechHolidays(2015)).toHaveLength(12);
+    expect(isCzechHoliday(new Date(2015, 3, 3))).toBe(false);
+  });
+
+  it("lists the holidays of a month", () => {
+    expect(getCzechHolidaysInMonth(6, 2026).map((holiday) => holiday.name)).toEqual([
+      "Den slovanských věrozvěstů",
+      "Den upálení Jana Husa",
+    ]);
+  });
+
+  it("recognizes holidays in years without a hard-coded list", () => {
+    expect(isCzechHoliday(new Date(2027, 11, 24))).toBe(true);
+    expect(isCzechHoliday(new Date(2027, 2, 26))).toBe(true);
+    expect(isCzechHoliday(new Date(2027, 2, 25))).toBe(false);
+  });
+});
+
+describe("getDeliveryDateKey", () => {
+  it("uses the Czech calendar day", () => {
+    expect(getDeliveryDateKey(new Date("2025-01-19T23:00:00.000Z"))).toBe("2025-01-20");
+    expect(getDeliveryDateKey(new Date("2025-07-19T22:30:00.000Z"))).toBe("2025-07-20");
+  });
+});
+
+describe("delivery closures", () => {
+  const closedDays = expandDeliveryClosures([
+    { name: "Inventura", startDate: "2026-06-30", endDate: "2026-07-02" },
+  ]);
+
+  it("expands closure ranges into closed days", () => {
+    expect(closedDays.map((day) => toDateKey(day.date))).toEqual([
+      "2026-06-30",
+      "2026-07-01",
+      "2026-07-02",
+    ]);
+    expect(findClosure(new Date(2026, 6, 1), closedDays)?.name).toBe("Inventura");
+    expect(findClosure(new Date(2026, 6, 3), closedDays)).toBeNull();
+  });
+
+  it("rejects invalid and reversed ranges", () => {
+    expect(() =>
+      validateDeliveryClosureInput({
+        name: "Dovolená",
+        startDate: "2026-02-30",
+        endDate: "2026-03-01",
+      })
+    ).toThrow(DeliveryClosureError);
+    expect(() =>
+      validateDeliveryClosureInput({
+        name: "Dovolená",
+        startDate: "2026-08-10",
+        endDate: "2026-08-01",
+      })
+    ).toThrow(DeliveryClosureError);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for the venue directory rules
+ */
+
+import { describe, expect, it } from "vitest";
+import type { DeliveryOption } from "@/types/delivery";
+import {
+  checkVenueDelivery,
+  filterVenueDeliveryOptions,
+  formatOpeningHours,
+  normalizeVenueSearchTerm,
+  VenueError,
+  type VenueInput,
+  validateVenueInput,
+} from "../venues";
+
+const input: VenueInput = {
+  name: "  Krematorium Strašnice ",
+  venueType: "crematorium",
+  address: { street: "Vinohradská 2270", city: "Praha", postalCode: "100 00" },
+  openingHours: [
+    { day: 2, open: "08:00", close: "15:00" },
+    { day: 1, open: "08:00", close: "15:00" },
+  ],
+};
+
+// Open Monday and Tuesday 8:00-11:00, morning deliveries only
+const venue = {
+  name: "Obřadní síň",
+  openingHours: [
+    { day: 1, open: "08:00", close: "11:00" },
+    { day: 2, open: "08:00", close: "11:00" },
+  ],
+  allowedTimeSlots: ["morning" as const],
+};
+
+const option = (
+  urgency: DeliveryOption["urgency"],
+  availableTimeSlots: DeliveryOption["availableTimeSlots"]
+) => ({ id: urgency, urgency, availableTimeSlots }) as DeliveryOption;
+
+describe("validateVenueInput", () => {
+  it("normalizes the address and sorts opening hours", () => {
+    expect(validateVenueInput(input)).toMatchObject({
+      name: "Krematorium Strašnice",
+      address: { postalCode: "10000", country: "CZ" },
+      openingHours: [{ day: 1 }, { day: 2 }],
+      allowedTimeSlots: null,
+      allowedUrgencies: null,
+    });
+  });
+
+  it("rejects invalid opening hours and restrictions", () => {
+    expect(() =>
+      validateVenueInput({ ...input, openingHours: [{ day: 1, open: "15:00", close: "08:00" }] })
+    ).toThrow(VenueError);
+    expect(() =>
+      validateVenueInput({
+        ...input,
+        openingHours: [
+          { day: 1, open: "08:00", close: "12:00" },
+          { day: 1, open: "13:00", close: "15:00" },
+        ],
+      })
+    ).toThrow(VenueError);
+    expect(() => validateVenueInput({ ...input, allowedUrgencies: [] })).toThrow(VenueError);
+    expect(() =>
+      validateVenueInput({ ...input, address: { ...input.address, postalCode: "abc" } })
+    ).toThrow(VenueError);
+  });
+});
+
+describe("checkVenueDelivery", () => {
+  it("accepts a slot overlapping the opening hours", () => {
+    // 2025-01-20 is a Monday
+    expect(checkVenueDelivery(venue, { date: "2025-01-20", timeSlot: "morning" }).allowed).toBe(
+      true
+    );
+  });
+
+  it("rejects days the venue is closed", () => {
+    expect(checkVenueDelivery(venue, { date: "2025-01-22", timeSlot: "morning" }).code).toBe(
+      "VENUE_CLOSED"
+    );
+  });
+
+  it("rejects time slots the venue does not accept", () => {
+    expect(checkVenueDelivery(venue, { date: "2025-01-20", timeSlot: "afternoon" }).code).toBe(
+      "TIME_SLOT_NOT_ACCEPTED"
+    );
+    // Accepted slot, but the venue closes before it starts
+    expect(
+      checkVenueDelivery(
+        { ...venue, allowedTimeSlots: ["afternoon"] },
+        { date: "2025-01-20", timeSlot: "afternoon" }
+      ).code
+    ).toBe("TIME_SLOT_NOT_ACCEPTED");
+  });
+
+  it("rejects urgencies the venue does not accept", () => {
+    expect(
+      checkVenueDelivery({ ...venue, allowedUrgencies: ["standard"] }, { urgency: "same-day" }).code
+    ).toBe("URGENCY_NOT_ACCEPTED");
+  });
+
+  it("skips the opening hours check when they are not known", () => {
+    expect(
+      checkVenueDelivery({ name: "Hřbitov", openingHours: [] }, { date: "2025-01-25" }).allowed
+    ).toBe(true);
+  });
+});
+
+describe("filterVenueDeliveryOptions", () => {
+  it("keeps only accepted urgencies and time slots", () => {
+    const options = filterVenueDeliveryOptions(
+      { allowedUrgencies: ["standard", "same-day"], allowedTimeSlots: ["morning"] },
+      [
+        option("standard", ["morning", "afternoon", "anytime"]),
+        option("express", ["morning", "afternoon", "evening", "anytime"]),
+        option("same-day", ["anytime"]),
+      ]
+    );
+
+    // Same-day only offers "anytime", so it is dropped
+    expect(options.map((option) => [option.urgency, option.availableTimeSlots])).toEqual([
+      ["standard", ["morning"]],
+    ]);
+  });
+});
+
+describe("normalizeVenueSearchTerm", () => {
+  it("strips filter syntax and extra whitespace", () => {
+    expect(normalizeVenueSearchTerm("  Strašnice,  (krematorium)% ")).toBe("Strašnice krematorium");
+    expect(normalizeVenueSearchTerm(null)).toBe("");
+  });
+});
+
+describe("formatOpeningHours", () => {
+  it("starts the week on Monday", () => {
+    expect(
+      formatOpeningHours([
+        { day: 0, open: "09:00", close: "12:00" },
+        { day: 1, open: "08:00", close: "15:00" },
+      ])
+    ).toEqual(["Po 08:00–15:00", "Ne 09:00–12:00"]);
+  });
+});
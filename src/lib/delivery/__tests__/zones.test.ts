@@ -0,0 +1,100 @@
+/**
+ * Tests for delivery zone rules
+ */
+
+import { describe, expect, it } from "vitest";
+import type { DeliveryZone } from "@/types/delivery";
+import {
+  DeliveryZoneError,
+  findDeliveryZone,
+  normalizePostalCode,
+  validateDeliveryZoneInput,
+} from "../zones";
+
+const zone = (overrides: Partial<DeliveryZone>): DeliveryZone => ({
+  id: "zone",
+  slug: "zone",
+  name: "Zóna",
+  postalCodeRanges: [],
+  baseCost: 150,
+  supportedUrgencies: ["standard"],
+  priority: 0,
+  active: true,
+  ...overrides,
+});
+
+const prague = zone({
+  id: "prague",
+  postalCodeRanges: [{ from: "10000", to: "19999" }],
+  priority: 10,
+});
+const centralBohemia = zone({
+  id: "central-bohemia",
+  postalCodeRanges: [{ from: "25000", to: "29999" }],
+});
+
+describe("normalizePostalCode", () => {
+  it("accepts Czech postal codes with or without the space", () => {
+    expect(normalizePostalCode("110 00")).toBe("11000");
+    expect(normalizePostalCode("25101")).toBe("25101");
+  });
+
+  it("rejects malformed postal codes", () => {
+    expect(normalizePostalCode("1100")).toBeNull();
+    expect(normalizePostalCode("01000")).toBeNull();
+    expect(normalizePostalCode("ABCDE")).toBeNull();
+  });
+});
+
+describe("findDeliveryZone", () => {
+  it("finds the zone covering the postal code", () => {
+    expect(findDeliveryZone([prague, centralBohemia], "120 00")?.id).toBe("prague");
+    expect(findDeliveryZone([prague, centralBohemia], "252 62")?.id).toBe("central-bohemia");
+  });
+
+  it("returns null outside every active zone", () => {
+    expect(findDeliveryZone([prague, centralBohemia], "602 00")).toBeNull();
+    expect(findDeliveryZone([{ ...prague, active: false }], "120 00")).toBeNull();
+  });
+
+  it("prefers higher priority, then the narrower range", () => {
+    const pragueCenter = zone({
+      id: "prague-center",
+      postalCodeRanges: [{ from: "11000", to: "11999" }],
+    });
+
+    expect(findDeliveryZone([pragueCenter, prague], "11000")?.id).toBe("prague");
+    expect(findDeliveryZone([pragueCenter, { ...prague, priority: 0 }], "11000")?.id).toBe(
+      "prague-center"
+    );
+  });
+});
+
+describe("validateDeliveryZoneInput", () => {
+  const input = {
+    slug: "brno",
+    name: " Brno ",
+    postalCodeRanges: [{ from: "600 00", to: "659 99" }],
+    baseCost: 250,
+    supportedUrgencies: ["standard" as const],
+  };
+
+  it("normalizes postal code ranges", () => {
+    expect(validateDeliveryZoneInput(input)).toMatchObject({
+      name: "Brno",
+      postalCodeRanges: [{ from: "60000", to: "65999" }],
+    });
+  });
+
+  it("rejects reversed ranges and unknown urgencies", () => {
+    expect(() =>
+      validateDeliveryZoneInput({
+        ...input,
+        postalCodeRanges: [{ from: "65999", to: "60000" }],
+      })
+    ).toThrow(DeliveryZoneError);
+    expect(() =>
+      validateDeliveryZoneInput({ ...input, supportedUrgencies: ["overnight" as "standard"] })
+    ).toThrow(DeliveryZoneError);
+  });
+});
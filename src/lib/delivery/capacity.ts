@@ -0,0 +1,170 @@
+/**
+ * Delivery capacity rules
+ * Resolves the order limits of a delivery day and time slot, marks full days and slots in
+ * the delivery calendar and validates capacity rules submitted from the admin.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type {
+  DeliveryAvailability,
+  DeliveryCapacityRule,
+  DeliveryTimeSlot,
+} from "@/types/delivery";
+import { parseDateKey, toDateKey } from "./holidays";
+
+export type DeliveryCapacityErrorCode =
+  | "INVALID_CAPACITY"
+  | "CAPACITY_NOT_FOUND"
+  | "DUPLICATE_CAPACITY"
+  | "SLOT_UNAVAILABLE"
+  | "SLOT_FULL";
+
+export class DeliveryCapacityError extends Error {
+  constructor(
+    message: string,
+    public code: DeliveryCapacityErrorCode
+  ) {
+    super(message);
+    this.name = "DeliveryCapacityError";
+  }
+}
+
+/**
+ * Capacity rule as submitted from the admin
+ */
+export interface DeliveryCapacityInput {
+  date?: string | null;
+  timeSlot?: DeliveryTimeSlot | null;
+  maxOrders: number;
+}
+
+/**
+ * Order limits for a day and one of its time slots (null = unlimited)
+ */
+export interface CapacityLimits {
+  dayLimit: number | null;
+  slotLimit: number | null;
+}
+
+/**
+ * Orders holding a delivery day, in total and per time slot
+ */
+export interface DeliveryDayBookings {
+  total: number;
+  bySlot: Partial<Record<DeliveryTimeSlot, number>>;
+}
+
+const DELIVERY_TIME_SLOTS: readonly DeliveryTimeSlot[] = [
+  "morning",
+  "afternoon",
+  "evening",
+  "anytime",
+];
+
+const NO_BOOKINGS: DeliveryDayBookings = { total: 0, bySlot: {} };
+
+function findRule(
+  rules: DeliveryCapacityRule[],
+  date: string | undefined,
+  timeSlot: DeliveryTimeSlot | undefined
+): DeliveryCapacityRule | undefined {
+  return rules.find((rule) => rule.date === date && rule.timeSlot === timeSlot);
+}
+
+function findLimit(
+  rules: DeliveryCapacityRule[],
+  date: string,
+  timeSlot?: DeliveryTimeSlot
+): number | null {
+  // A rule for the date wins over the default for every day
+  const rule = findRule(rules, date, timeSlot) ?? findRule(rules, undefined, timeSlot);
+  return rule ? rule.maxOrders : null;
+}
+
+/**
+ * Resolve the order limits of a delivery day and time slot
+ *
+ * @param date - Delivery date as YYYY-MM-DD
+ */
+export function resolveCapacityLimits(
+  rules: DeliveryCapacityRule[],
+  date: string,
+  timeSlot?: DeliveryTimeSlot
+): CapacityLimits {
+  return {
+    dayLimit: findLimit(rules, date),
+    slotLimit: timeSlot ? findLimit(rules, date, timeSlot) : null,
+  };
+}
+
+/**
+ * Check whether one more order fits into a day and time slot
+ */
+export function hasCapacity(
+  limits: CapacityLimits,
+  bookings: DeliveryDayBookings,
+  timeSlot: DeliveryTimeSlot
+): boolean {
+  const dayFull = limits.dayLimit !== null && bookings.total >= limits.dayLimit;
+  const slotFull =
+    limits.slotLimit !== null && (bookings.bySlot[timeSlot] ?? 0) >= limits.slotLimit;
+  return !(dayFull || slotFull);
+}
+
+/**
+ * Fill in order counts and mark fully booked days and time slots
+ *
+ * @param bookings - Bookings keyed by YYYY-MM-DD
+ */
+export function applyDeliveryCapacity(
+  availability: DeliveryAvailability[],
+  rules: DeliveryCapacityRule[],
+  bookings: Record<string, DeliveryDayBookings>
+): DeliveryAvailability[] {
+  return availability.map((day) => {
+    if (!day.available) {
+      return day;
+    }
+
+    const date = toDateKey(day.date);
+    const dayBookings = bookings[date] ?? NO_BOOKINGS;
+    const fullTimeSlots = day.timeSlots.filter(
+      (timeSlot) =>
+        !hasCapacity(resolveCapacityLimits(rules, date, timeSlot), dayBookings, timeSlot)
+    );
+    const dayLimit = findLimit(rules, date);
+    const isFull = day.timeSlots.length > 0 && fullTimeSlots.length === day.timeSlots.length;
+
+    return {
+      ...day,
+      ...(dayLimit !== null && { maxOrders: dayLimit }),
+      currentOrders: dayBookings.total,
+      fullTimeSlots,
+      ...(isFull && { available: false, reason: "Kapacita vyčerpána" }),
+    };
+  });
+}
+
+/**
+ * Validate a capacity rule submitted from the admin
+ *
+ * @returns The input with empty date and time slot normalized to null
+ * @throws DeliveryCapacityError when the rule is invalid
+ */
+export function validateDeliveryCapacityInput(input: DeliveryCapacityInput): DeliveryCapacityInput {
+  if (!(Number.isInteger(input.maxOrders) && input.maxOrders >= 0)) {
+    throw new DeliveryCapacityError("Kapacita musí být nezáporné celé číslo", "INVALID_CAPACITY");
+  }
+
+  const date = input.date || null;
+  if (date && !parseDateKey(date)) {
+    throw new DeliveryCapacityError("Datum musí být ve formátu RRRR-MM-DD", "INVALID_CAPACITY");
+  }
+
+  const timeSlot = input.timeSlot || null;
+  if (timeSlot && !DELIVERY_TIME_SLOTS.includes(timeSlot)) {
+    throw new DeliveryCapacityError("Neplatný časový slot", "INVALID_CAPACITY");
+  }
+
+  return { date, timeSlot, maxOrders: input.maxOrders };
+}
@@ -0,0 +1,243 @@
+/**
+ * Funeral service details
+ * Venue types, parsing of submitted and stored funeral details and the check that a delivery
+ * arrives before the ceremony starts. Times are compared on the Czech wall clock, so the
+ * check gives the same answer in the browser and on the server.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { LocalizedContent } from "@/types";
+import type {
+  DeliverySlotSelection,
+  DeliveryTimeSlot,
+  FuneralDetails,
+  FuneralVenueType,
+} from "@/types/delivery";
+
+export type FuneralDeliveryErrorCode =
+  | "DELIVERY_DATE_REQUIRED"
+  | "CEREMONY_TOO_SOON"
+  | "DELIVERY_AFTER_CEREMONY";
+
+export interface FuneralDeliveryCheck {
+  allowed: boolean;
+  code?: FuneralDeliveryErrorCode;
+  reason?: string;
+}
+
+export class FuneralDeliveryError extends Error {
+  constructor(
+    message: string,
+    public code: FuneralDeliveryErrorCode
+  ) {
+    super(message);
+    this.name = "FuneralDeliveryError";
+  }
+}
+
+/**
+ * Funeral details as stored in delivery_info and sent through checkout metadata
+ */
+export type StoredFuneralDetails = Omit<FuneralDetails, "ceremonyStart"> & {
+  ceremonyStart: string;
+};
+
+export const FUNERAL_VENUE_TYPES: readonly FuneralVenueType[] = [
+  "ceremony_hall",
+  "church",
+  "cemetery",
+  "crematorium",
+  "other",
+];
+
+export const FUNERAL_VENUE_TYPE_LABELS: Record<FuneralVenueType, LocalizedContent> = {
+  ceremony_hall: { cs: "Obřadní síň", en: "Ceremony hall" },
+  church: { cs: "Kostel", en: "Church" },
+  cemetery: { cs: "Hřbitov", en: "Cemetery" },
+  crematorium: { cs: "Krematorium", en: "Crematorium" },
+  other: { cs: "Jiné místo", en: "Other venue" },
+};
+
+// Names are kept short enough for the whole record to fit one Stripe metadata value
+export const FUNERAL_TEXT_MAX_LENGTH = 100;
+
+// Wreaths have to be in place this long before the ceremony starts
+export const FUNERAL_DELIVERY_LEAD_MINUTES = 60;
+
+// Latest hour a delivery in each time slot arrives
+const TIME_SLOT_END_HOURS: Record<DeliveryTimeSlot, number> = {
+  morning: 12,
+  afternoon: 18,
+  evening: 20,
+  anytime: 20,
+};
+
+const FUNERAL_TIME_ZONE = "Europe/Prague";
+
+/**
+ * Czech calendar date and minutes since midnight of an instant
+ */
+function toCzechWallClock(date: Date): { dateKey: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone: FUNERAL_TIME_ZONE,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    dateKey: `${parts["year"]}-${parts["month"]}-${parts["day"]}`,
+    minutes: Number(parts["hour"]) * 60 + Number(parts["minute"]),
+  };
+}
+
+/**
+ * Check that a delivery arrives at least FUNERAL_DELIVERY_LEAD_MINUTES before the ceremony
+ *
+ * @param delivery - Delivery date (YYYY-MM-DD, Czech calendar) and time slot
+ */
+export function checkFuneralDeliveryTiming(
+  ceremonyStart: Date,
+  delivery: Partial<DeliverySlotSelection> | null,
+  now: Date = new Date()
+): FuneralDeliveryCheck {
+  const ceremony = toCzechWallClock(ceremonyStart);
+
+  // Delivery is possible from tomorrow at the earliest
+  if (ceremony.dateKey <= toCzechWallClock(now).dateKey) {
+    return {
+      allowed: false,
+      code: "CEREMONY_TOO_SOON",
+      reason: "Na obřad konaný dnes nebo dříve již věnec nestihneme doručit",
+    };
+  }
+
+  if (!delivery?.date) {
+    return {
+      allowed: false,
+      code: "DELIVERY_DATE_REQUIRED",
+      reason: "Vyberte den doručení, aby věnec dorazil před začátkem obřadu",
+    };
+  }
+
+  const slotEnd = TIME_SLOT_END_HOURS[delivery.timeSlot ?? "anytime"] * 60;
+  if (
+    delivery.date > ceremony.dateKey ||
+    (delivery.date === ceremony.dateKey &&
+      slotEnd + FUNERAL_DELIVERY_LEAD_MINUTES > ceremony.minutes)
+  ) {
+    return {
+      allowed: false,
+      code: "DELIVERY_AFTER_CEREMONY",
+      reason:
+        delivery.date === ceremony.dateKey
+          ? "Zvolené časové okno nestihne začátek obřadu, vyberte dřívější okno nebo den"
+          : "Den doručení je až po obřadu",
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Same as checkFuneralDeliveryTiming but throws FuneralDeliveryError when rejected
+ */
+export function assertFuneralDeliveryTiming(
+  ceremonyStart: Date,
+  delivery: Partial<DeliverySlotSelection> | null,
+  now: Date = new Date()
+): void {
+  const check = checkFuneralDeliveryTiming(ceremonyStart, delivery, now);
+  if (!check.allowed) {
+    throw new FuneralDeliveryError(
+      check.reason || "Doručení nestihne začátek obřadu",
+      check.code || "DELIVERY_AFTER_CEREMONY"
+    );
+  }
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim()
+    ? value.trim().slice(0, FUNERAL_TEXT_MAX_LENGTH)
+    : undefined;
+}
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Funeral details from a request body, checkout metadata (JSON string) or a stored order
+ *
+ * @returns The details, or null when the name, venue type or ceremony start is missing or invalid
+ */
+export function parseFuneralDetails(value: unknown): FuneralDetails | null {
+  if (typeof value === "string") {
+    return parseFuneralDetails(parseJson(value));
+  }
+
+  if (!value || typeof value !== "object") {
+    return null;
+  }
+
+  const input = value as Record<string, unknown>;
+  const deceasedName = optionalText(input["deceasedName"]);
+  const venueType = FUNERAL_VENUE_TYPES.find((type) => type === input["venueType"]);
+  const rawStart = input["ceremonyStart"];
+  const ceremonyStart =
+    rawStart instanceof Date || typeof rawStart === "string" ? new Date(rawStart) : null;
+
+  if (!(deceasedName && venueType && ceremonyStart) || Number.isNaN(ceremonyStart.getTime())) {
+    return null;
+  }
+
+  const venueName = optionalText(input["venueName"]);
+  const funeralHomeName = optionalText(input["funeralHomeName"]);
+  const funeralHomePhone = optionalText(input["funeralHomePhone"]);
+
+  return {
+    deceasedName,
+    venueType,
+    ceremonyStart,
+    ...(venueName && { venueName }),
+    ...(funeralHomeName && { funeralHomeName }),
+    ...(funeralHomePhone && { funeralHomePhone }),
+  };
+}
+
+/**
+ * Ceremony start in Czech time, e.g. "pátek 24. ledna 2025 10:30"
+ */
+export function formatCeremonyStart(ceremonyStart: Date, locale = "cs"): string {
+  return ceremonyStart.toLocaleString(locale === "en" ? "en-GB" : "cs-CZ", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: FUNERAL_TIME_ZONE,
+  });
+}
+
+/**
+ * Venue type and name on one line, e.g. "Obřadní síň - Strašnice"
+ */
+export function formatFuneralVenue(
+  funeral: { venueType: FuneralVenueType; venueName?: string | undefined },
+  locale = "cs"
+): string {
+  const label = FUNERAL_VENUE_TYPE_LABELS[funeral.venueType][locale === "en" ? "en" : "cs"];
+  return funeral.venueName ? `${label} - ${funeral.venueName}` : label;
+}
@@ -0,0 +1,232 @@
+/**
+ * Czech holiday calendar
+ * Computes Czech public holidays for any year (fixed dates plus Good Friday and Easter Monday)
+ * and combines them with admin-defined delivery closures.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { DeliveryClosure, Holiday } from "@/types/delivery";
+
+export type DeliveryClosureErrorCode = "INVALID_CLOSURE" | "CLOSURE_NOT_FOUND";
+
+export class DeliveryClosureError extends Error {
+  constructor(
+    message: string,
+    public code: DeliveryClosureErrorCode
+  ) {
+    super(message);
+    this.name = "DeliveryClosureError";
+  }
+}
+
+/**
+ * Closure as submitted from the admin
+ */
+export type DeliveryClosureInput = Omit<DeliveryClosure, "id">;
+
+// Public holidays on the same date every year (month is 0-based)
+const FIXED_HOLIDAYS: { month: number; day: number; name: string; type: Holiday["type"] }[] = [
+  { month: 0, day: 1, name: "Nový rok", type: "public" },
+  { month: 4, day: 1, name: "Svátek práce", type: "public" },
+  { month: 4, day: 8, name: "Den vítězství", type: "public" },
+  { month: 6, day: 5, name: "Den slovanských věrozvěstů", type: "religious" },
+  { month: 6, day: 6, name: "Den upálení Jana Husa", type: "religious" },
+  { month: 8, day: 28, name: "Den české státnosti", type: "public" },
+  { month: 9, day: 28, name: "Den vzniku Československa", type: "public" },
+  { month: 10, day: 17, name: "Den boje za svobodu a demokracii", type: "public" },
+  { month: 11, day: 24, name: "Štědrý den", type: "religious" },
+  { month: 11, day: 25, name: "1. svátek vánoční", type: "religious" },
+  { month: 11, day: 26, name: "2. svátek vánoční", type: "religious" },
+];
+
+// Good Friday has been a public holiday since 2016
+const GOOD_FRIDAY_SINCE = 2016;
+
+const DATE_KEY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Deliveries are planned in Czech calendar days
+export const DELIVERY_TIME_ZONE = "Europe/Prague";
+
+// Longest closure accepted from the admin
+const MAX_CLOSURE_DAYS = 366;
+
+/**
+ * Easter Sunday of a year in the Gregorian calendar (anonymous Gregorian algorithm)
+ */
+export function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Czech public holidays of a year, sorted by date
+ */
+export function getCzechHolidays(year: number): Holiday[] {
+  const easter = getEasterSunday(year);
+  const easterHolidays: Holiday[] = [
+    {
+      date: new Date(year, easter.getMonth(), easter.getDate() + 1),
+      name: "Velikonoční pondělí",
+      type: "religious",
+    },
+  ];
+
+  if (year >= GOOD_FRIDAY_SINCE) {
+    easterHolidays.unshift({
+      date: new Date(year, easter.getMonth(), easter.getDate() - 2),
+      name: "Velký pátek",
+      type: "religious",
+    });
+  }
+
+  return [
+    ...FIXED_HOLIDAYS.map(({ month, day, name, type }) => ({
+      date: new Date(year, month, day),
+      name,
+      type,
+    })),
+    ...easterHolidays,
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Czech calendar date of a delivery as YYYY-MM-DD
+ * Preferred dates are stored as instants, so the server time zone must not decide the day.
+ */
+export function getDeliveryDateKey(date: Date): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: DELIVERY_TIME_ZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+/**
+ * Parse a YYYY-MM-DD date as local midnight
+ *
+ * @returns The date, or null when the key is not a valid calendar date
+ */
+export function parseDateKey(key: string): Date | null {
+  const match = DATE_KEY_PATTERN.exec(key);
+  if (!match) {
+    return null;
+  }
+
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return toDateKey(date) === key ? date : null;
+}
+
+function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+/**
+ * Find the Czech public holiday falling on a date
+ */
+export function findCzechHoliday(date: Date): Holiday | null {
+  return (
+    getCzechHolidays(date.getFullYear()).find((holiday) => isSameDay(holiday.date, date)) ?? null
+  );
+}
+
+/**
+ * Check if a date is a Czech public holiday
+ */
+export function isCzechHoliday(date: Date): boolean {
+  return findCzechHoliday(date) !== null;
+}
+
+/**
+ * Find the closure covering a date
+ *
+ * @param closures - Closed days as returned by expandDeliveryClosures
+ */
+export function findClosure(date: Date, closures: Holiday[] = []): Holiday | null {
+  return closures.find((closure) => isSameDay(closure.date, date)) ?? null;
+}
+
+/**
+ * Expand closure date ranges into one custom holiday per closed day
+ */
+export function expandDeliveryClosures(closures: DeliveryClosureInput[]): Holiday[] {
+  return closures.flatMap(({ name, startDate, endDate }) => {
+    const start = parseDateKey(startDate);
+    const end = parseDateKey(endDate);
+    const days: Holiday[] = [];
+
+    if (!(start && end)) {
+      return days;
+    }
+
+    for (let date = start; date <= end; date.setDate(date.getDate() + 1)) {
+      days.push({ date: new Date(date), name, type: "custom" });
+    }
+
+    return days;
+  });
+}
+
+/**
+ * Czech public holidays falling in a month (month is 0-based)
+ */
+export function getCzechHolidaysInMonth(month: number, year: number): Holiday[] {
+  return getCzechHolidays(year).filter((holiday) => holiday.date.getMonth() === month);
+}
+
+/**
+ * Validate a closure submitted from the admin
+ *
+ * @returns The input with a trimmed name
+ * @throws DeliveryClosureError when the closure is invalid
+ */
+export function validateDeliveryClosureInput(input: DeliveryClosureInput): DeliveryClosureInput {
+  if (!input.name?.trim()) {
+    throw new DeliveryClosureError("Název uzavírky je povinný", "INVALID_CLOSURE");
+  }
+
+  const start = parseDateKey(String(input.startDate ?? ""));
+  const end = parseDateKey(String(input.endDate ?? ""));
+
+  if (!(start && end)) {
+    throw new DeliveryClosureError("Datum musí být ve formátu RRRR-MM-DD", "INVALID_CLOSURE");
+  }
+
+  if (end < start) {
+    throw new DeliveryClosureError("Konec uzavírky je před jejím začátkem", "INVALID_CLOSURE");
+  }
+
+  const days = Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  if (days > MAX_CLOSURE_DAYS) {
+    throw new DeliveryClosureError("Uzavírka může trvat nejvýše jeden rok", "INVALID_CLOSURE");
+  }
+
+  return { ...input, name: input.name.trim() };
+}
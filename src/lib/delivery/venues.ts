@@ -0,0 +1,293 @@
+/**
+ * Venue directory rules
+ * Validates venues submitted from the admin and checks a delivery against a venue's opening
+ * hours and restrictions on time slots and urgencies.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type {
+  DeliveryOption,
+  DeliverySlotSelection,
+  DeliveryTimeSlot,
+  DeliveryUrgency,
+  FuneralVenueType,
+  Venue,
+  VenueOpeningHours,
+} from "@/types/delivery";
+import { FUNERAL_VENUE_TYPES } from "./funeral";
+import { normalizePostalCode } from "./zones";
+
+export type VenueErrorCode = "INVALID_VENUE" | "VENUE_NOT_FOUND";
+
+export class VenueError extends Error {
+  constructor(
+    message: string,
+    public code: VenueErrorCode
+  ) {
+    super(message);
+    this.name = "VenueError";
+  }
+}
+
+export type VenueRestrictionCode =
+  | "VENUE_CLOSED"
+  | "TIME_SLOT_NOT_ACCEPTED"
+  | "URGENCY_NOT_ACCEPTED";
+
+export interface VenueDeliveryCheck {
+  allowed: boolean;
+  code?: VenueRestrictionCode;
+  reason?: string;
+}
+
+/**
+ * Venue as submitted from the admin
+ */
+export interface VenueInput {
+  name: string;
+  venueType: FuneralVenueType;
+  address: { street: string; city: string; postalCode: string; country?: string };
+  openingHours?: VenueOpeningHours[];
+  deliveryNotes?: string | null;
+  zoneId?: string | null;
+  allowedTimeSlots?: DeliveryTimeSlot[] | null;
+  allowedUrgencies?: DeliveryUrgency[] | null;
+  active?: boolean;
+}
+
+// Hours during which a delivery in each time slot arrives
+export const DELIVERY_TIME_SLOT_HOURS: Record<DeliveryTimeSlot, { start: number; end: number }> = {
+  morning: { start: 8, end: 12 },
+  afternoon: { start: 12, end: 18 },
+  evening: { start: 18, end: 20 },
+  anytime: { start: 8, end: 20 },
+};
+
+export const VENUE_NAME_MAX_LENGTH = 100;
+export const VENUE_DELIVERY_NOTES_MAX_LENGTH = 500;
+export const VENUE_SEARCH_MAX_LENGTH = 50;
+
+// Short Czech weekday names indexed by Date.getDay()
+export const VENUE_WEEKDAY_LABELS = ["Ne", "Po", "Út", "St", "Čt", "Pá", "So"] as const;
+
+const TIME_SLOTS = Object.keys(DELIVERY_TIME_SLOT_HOURS) as DeliveryTimeSlot[];
+const URGENCIES: readonly DeliveryUrgency[] = ["standard", "express", "same-day"];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Characters with a meaning in PostgREST filter strings and LIKE patterns
+const FILTER_SYNTAX_CHARACTERS = /[,()*%_\\"]/g;
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+/**
+ * Normalize a venue search typed by the customer, stripping characters that would change
+ * the filter. Returns an empty string when nothing searchable is left.
+ */
+export function normalizeVenueSearchTerm(term: string | null | undefined): string {
+  return (term ?? "")
+    .replace(FILTER_SYNTAX_CHARACTERS, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, VENUE_SEARCH_MAX_LENGTH)
+    .trim();
+}
+
+function validateOpeningHours(openingHours: VenueOpeningHours[]): VenueOpeningHours[] {
+  const days = new Set<number>();
+
+  return openingHours
+    .map((entry) => {
+      if (
+        !(Number.isInteger(entry?.day) && entry.day >= 0 && entry.day <= 6) ||
+        days.has(entry.day)
+      ) {
+        throw new VenueError("Každý den může mít jen jednu otevírací dobu", "INVALID_VENUE");
+      }
+      days.add(entry.day);
+
+      if (
+        !(TIME_PATTERN.test(entry.open) && TIME_PATTERN.test(entry.close)) ||
+        toMinutes(entry.open) >= toMinutes(entry.close)
+      ) {
+        throw new VenueError(
+          `Neplatná otevírací doba (${VENUE_WEEKDAY_LABELS[entry.day]})`,
+          "INVALID_VENUE"
+        );
+      }
+
+      return { day: entry.day, open: entry.open, close: entry.close };
+    })
+    .sort((a, b) => a.day - b.day);
+}
+
+function validateAllowed<T extends string>(
+  values: T[] | null | undefined,
+  allowed: readonly T[],
+  message: string
+): T[] | null {
+  if (values === undefined || values === null) {
+    return null;
+  }
+
+  if (!Array.isArray(values) || values.length === 0 || values.some((v) => !allowed.includes(v))) {
+    throw new VenueError(message, "INVALID_VENUE");
+  }
+
+  return [...new Set(values)];
+}
+
+function validateAddress(address: VenueInput["address"] | undefined): VenueInput["address"] {
+  const street = address?.street?.trim() ?? "";
+  const city = address?.city?.trim() ?? "";
+  const postalCode = normalizePostalCode(address?.postalCode ?? "");
+
+  if (!(street && city)) {
+    throw new VenueError("Ulice a město jsou povinné", "INVALID_VENUE");
+  }
+  if (!postalCode) {
+    throw new VenueError("Neplatné PSČ", "INVALID_VENUE");
+  }
+
+  return { street, city, postalCode, country: address?.country || "CZ" };
+}
+
+/**
+ * Validate a venue submitted from the admin
+ *
+ * @returns The input with trimmed texts, a normalized postal code and sorted opening hours
+ * @throws VenueError when the venue is invalid
+ */
+export function validateVenueInput(input: VenueInput): VenueInput {
+  const name = input.name?.trim() ?? "";
+  if (!name || name.length > VENUE_NAME_MAX_LENGTH) {
+    throw new VenueError(
+      `Název místa je povinný a může mít nejvýše ${VENUE_NAME_MAX_LENGTH} znaků`,
+      "INVALID_VENUE"
+    );
+  }
+
+  if (!FUNERAL_VENUE_TYPES.includes(input.venueType)) {
+    throw new VenueError("Neplatný typ místa", "INVALID_VENUE");
+  }
+
+  const deliveryNotes = input.deliveryNotes?.trim() || null;
+  if (deliveryNotes && deliveryNotes.length > VENUE_DELIVERY_NOTES_MAX_LENGTH) {
+    throw new VenueError(
+      `Pokyny k doručení mohou mít nejvýše ${VENUE_DELIVERY_NOTES_MAX_LENGTH} znaků`,
+      "INVALID_VENUE"
+    );
+  }
+
+  if (input.openingHours !== undefined && !Array.isArray(input.openingHours)) {
+    throw new VenueError("Neplatná otevírací doba", "INVALID_VENUE");
+  }
+
+  return {
+    ...input,
+    name,
+    address: validateAddress(input.address),
+    openingHours: validateOpeningHours(input.openingHours ?? []),
+    deliveryNotes,
+    zoneId: input.zoneId || null,
+    allowedTimeSlots: validateAllowed(
+      input.allowedTimeSlots,
+      TIME_SLOTS,
+      "Místo musí přijímat alespoň jedno platné časové okno"
+    ),
+    allowedUrgencies: validateAllowed(
+      input.allowedUrgencies,
+      URGENCIES,
+      "Místo musí přijímat alespoň jeden platný typ doručení"
+    ),
+  };
+}
+
+/**
+ * Check a delivery against the venue's opening hours and accepted time slots and urgencies
+ *
+ * @param delivery - Delivery date (YYYY-MM-DD, Czech calendar), time slot and urgency; parts
+ *   not chosen yet are not checked
+ */
+export function checkVenueDelivery(
+  venue: Pick<Venue, "name" | "openingHours" | "allowedTimeSlots" | "allowedUrgencies">,
+  delivery: Partial<DeliverySlotSelection> & { urgency?: DeliveryUrgency }
+): VenueDeliveryCheck {
+  const { date, timeSlot, urgency } = delivery;
+
+  if (urgency && venue.allowedUrgencies && !venue.allowedUrgencies.includes(urgency)) {
+    return {
+      allowed: false,
+      code: "URGENCY_NOT_ACCEPTED",
+      reason: `${venue.name} nepřijímá zvolený typ doručení`,
+    };
+  }
+
+  if (timeSlot && venue.allowedTimeSlots && !venue.allowedTimeSlots.includes(timeSlot)) {
+    return {
+      allowed: false,
+      code: "TIME_SLOT_NOT_ACCEPTED",
+      reason: `${venue.name} nepřijímá doručení ve zvoleném časovém okně`,
+    };
+  }
+
+  if (!date || venue.openingHours.length === 0) {
+    return { allowed: true };
+  }
+
+  // Noon UTC falls on the same calendar day in the Czech time zone
+  const day = new Date(`${date}T12:00:00Z`).getUTCDay();
+  const hours = venue.openingHours.find((entry) => entry.day === day);
+
+  if (!hours) {
+    return {
+      allowed: false,
+      code: "VENUE_CLOSED",
+      reason: `${venue.name} má ve zvolený den zavřeno`,
+    };
+  }
+
+  if (timeSlot) {
+    const window = DELIVERY_TIME_SLOT_HOURS[timeSlot];
+    if (window.start * 60 >= toMinutes(hours.close) || window.end * 60 <= toMinutes(hours.open)) {
+      return {
+        allowed: false,
+        code: "TIME_SLOT_NOT_ACCEPTED",
+        reason: `${venue.name} přijímá doručení jen ${hours.open}–${hours.close}`,
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Delivery options narrowed to the urgencies and time slots the venue accepts
+ * Options left without a time slot are dropped.
+ */
+export function filterVenueDeliveryOptions(
+  venue: Pick<Venue, "allowedTimeSlots" | "allowedUrgencies">,
+  options: DeliveryOption[]
+): DeliveryOption[] {
+  return options
+    .filter((option) => !venue.allowedUrgencies || venue.allowedUrgencies.includes(option.urgency))
+    .map((option) => ({
+      ...option,
+      availableTimeSlots: option.availableTimeSlots.filter(
+        (slot) => !venue.allowedTimeSlots || venue.allowedTimeSlots.includes(slot)
+      ),
+    }))
+    .filter((option) => option.availableTimeSlots.length > 0);
+}
+
+/**
+ * Opening hours as display lines starting on Monday, e.g. ["Po 08:00–15:00", "Út 08:00–15:00"]
+ */
+export function formatOpeningHours(openingHours: VenueOpeningHours[]): string[] {
+  return [...openingHours]
+    .sort((a, b) => ((a.day + 6) % 7) - ((b.day + 6) % 7))
+    .map((entry) => `${VENUE_WEEKDAY_LABELS[entry.day]} ${entry.open}–${entry.close}`);
+}
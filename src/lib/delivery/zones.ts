@@ -0,0 +1,152 @@
+/**
+ * Delivery zone rules
+ * Normalizes Czech postal codes (PSČ), finds the zone covering a postal code and validates
+ * zone definitions submitted from the admin.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { DeliveryUrgency, DeliveryZone, PostalCodeRange } from "@/types/delivery";
+
+export type DeliveryZoneErrorCode = "INVALID_ZONE" | "ZONE_NOT_FOUND" | "DUPLICATE_SLUG";
+
+export class DeliveryZoneError extends Error {
+  constructor(
+    message: string,
+    public code: DeliveryZoneErrorCode
+  ) {
+    super(message);
+    this.name = "DeliveryZoneError";
+  }
+}
+
+/**
+ * Zone as submitted from the admin
+ */
+export interface DeliveryZoneInput {
+  slug: string;
+  name: string;
+  description?: string | null;
+  postalCodeRanges: PostalCodeRange[];
+  baseCost: number;
+  maxDistance?: number | null;
+  supportedUrgencies: DeliveryUrgency[];
+  priority?: number;
+  active?: boolean;
+}
+
+const DELIVERY_URGENCIES: readonly DeliveryUrgency[] = ["standard", "express", "same-day"];
+
+// Czech postal codes are five digits starting with 1-7 ("110 00" is written with a space)
+const POSTAL_CODE_PATTERN = /^[1-7]\d{4}$/;
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Strip spaces from a postal code and check its format
+ *
+ * @returns The 5-digit postal code, or null when the input is not a Czech postal code
+ */
+export function normalizePostalCode(postalCode: string): string | null {
+  const normalized = postalCode.replace(/\s+/g, "");
+  return POSTAL_CODE_PATTERN.test(normalized) ? normalized : null;
+}
+
+function rangeSize(range: PostalCodeRange): number {
+  return Number(range.to) - Number(range.from);
+}
+
+function findMatchingRange(zone: DeliveryZone, postalCode: string): PostalCodeRange | undefined {
+  // Equal-length digit strings compare the same way as numbers
+  return zone.postalCodeRanges
+    .filter((range) => range.from <= postalCode && postalCode <= range.to)
+    .sort((a, b) => rangeSize(a) - rangeSize(b))[0];
+}
+
+/**
+ * Find the active zone covering a postal code
+ * Overlaps are settled by zone priority, then by the narrower matching range.
+ *
+ * @returns The zone, or null when the postal code is invalid or not delivered to
+ */
+export function findDeliveryZone(zones: DeliveryZone[], postalCode: string): DeliveryZone | null {
+  const normalized = normalizePostalCode(postalCode);
+  if (!normalized) {
+    return null;
+  }
+
+  const matches = zones
+    .filter((zone) => zone.active)
+    .map((zone) => ({ zone, range: findMatchingRange(zone, normalized) }))
+    .filter((match): match is { zone: DeliveryZone; range: PostalCodeRange } => !!match.range)
+    .sort((a, b) => b.zone.priority - a.zone.priority || rangeSize(a.range) - rangeSize(b.range));
+
+  return matches[0]?.zone ?? null;
+}
+
+/**
+ * Validate a zone submitted from the admin
+ *
+ * @returns The input with normalized postal code ranges
+ * @throws DeliveryZoneError when the zone is invalid
+ */
+export function validateDeliveryZoneInput(input: DeliveryZoneInput): DeliveryZoneInput {
+  if (!SLUG_PATTERN.test(input.slug || "")) {
+    throw new DeliveryZoneError(
+      "Identifikátor zóny smí obsahovat jen malá písmena, číslice a pomlčky",
+      "INVALID_ZONE"
+    );
+  }
+
+  if (!input.name?.trim()) {
+    throw new DeliveryZoneError("Název zóny je povinný", "INVALID_ZONE");
+  }
+
+  if (typeof input.baseCost !== "number" || Number.isNaN(input.baseCost) || input.baseCost < 0) {
+    throw new DeliveryZoneError("Neplatná cena doručení", "INVALID_ZONE");
+  }
+
+  if (
+    input.maxDistance !== undefined &&
+    input.maxDistance !== null &&
+    !(Number.isInteger(input.maxDistance) && input.maxDistance > 0)
+  ) {
+    throw new DeliveryZoneError("Neplatná maximální vzdálenost", "INVALID_ZONE");
+  }
+
+  if (
+    !Array.isArray(input.supportedUrgencies) ||
+    input.supportedUrgencies.length === 0 ||
+    input.supportedUrgencies.some((urgency) => !DELIVERY_URGENCIES.includes(urgency))
+  ) {
+    throw new DeliveryZoneError("Zóna musí podporovat alespoň jeden typ doručení", "INVALID_ZONE");
+  }
+
+  if (!Array.isArray(input.postalCodeRanges) || input.postalCodeRanges.length === 0) {
+    throw new DeliveryZoneError("Zóna musí obsahovat alespoň jeden rozsah PSČ", "INVALID_ZONE");
+  }
+
+  const postalCodeRanges = input.postalCodeRanges.map((range) => {
+    const from = normalizePostalCode(String(range?.from ?? ""));
+    const to = normalizePostalCode(String(range?.to ?? ""));
+
+    if (!(from && to)) {
+      throw new DeliveryZoneError(
+        `Neplatný rozsah PSČ ${range?.from ?? ""}–${range?.to ?? ""}`,
+        "INVALID_ZONE"
+      );
+    }
+
+    if (from > to) {
+      throw new DeliveryZoneError(`Rozsah PSČ ${from}–${to} je obrácený`, "INVALID_ZONE");
+    }
+
+    return { from, to };
+  });
+
+  return {
+    ...input,
+    name: input.name.trim(),
+    postalCodeRanges,
+    supportedUrgencies: [...new Set(input.supportedUrgencies)],
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Tests for discount code rules
+ */
+
+import { describe, expect, it } from "vitest";
+import { type DiscountCode, evaluateDiscountCode, normalizeDiscountCode } from "../rules";
+
+const baseCode: DiscountCode = {
+  id: "code-1",
+  code: "JARO10",
+  type: "percentage",
+  value: 10,
+  usesCount: 0,
+  minSubtotal: 0,
+  productIds: [],
+  categoryIds: [],
+  active: true,
+};
+
+const items = [
+  { productId: "p1", categoryId: "c1", totalPrice: 1000 },
+  { productId: "p2", categoryId: "c2", totalPrice: 500 },
+];
+
+describe("normalizeDiscountCode", () => {
+  it("should trim and upper-case codes", () => {
+    expect(normalizeDiscountCode("  jaro10 ")).toBe("JARO10");
+  });
+});
+
+describe("evaluateDiscountCode", () => {
+  it("should apply a percentage discount to the whole cart", () => {
+    const result = evaluateDiscountCode(baseCode, { items });
+
+    expect(result.valid).toBe(true);
+    expect(result.subtotal).toBe(1500);
+    expect(result.discountAmount).toBe(150);
+  });
+
+  it("should never deduct more than the eligible subtotal", () => {
+    const result = evaluateDiscountCode(
+      { ...baseCode, type: "fixed", value: 800, productIds: ["p2"] },
+      { items }
+    );
+
+    expect(result.eligibleSubtotal).toBe(500);
+    expect(result.discountAmount).toBe(500);
+  });
+
+  it("should scope discounts by category", () => {
+    const result = evaluateDiscountCode({ ...baseCode, categoryIds: ["c1"] }, { items });
+
+    expect(result.discountAmount).toBe(100);
+  });
+
+  it("should reject codes outside their validity window", () => {
+    const now = new Date("2025-03-01T12:00:00Z");
+
+    expect(
+      evaluateDiscountCode(
+        { ...baseCode, validFrom: new Date("2025-03-02T00:00:00Z") },
+        { items, now }
+      ).errorCode
+    ).toBe("NOT_STARTED");
+    expect(
+      evaluateDiscountCode(
+        { ...baseCode, validUntil: new Date("2025-02-28T00:00:00Z") },
+        { items, now }
+      ).errorCode
+    ).toBe("EXPIRED");
+  });
+
+  it("should enforce usage limits", () => {
+    expect(
+      evaluateDiscountCode({ ...baseCode, maxUses: 5, usesCount: 5 }, { items }).errorCode
+    ).toBe("USAGE_LIMIT_REACHED");
+    expect(
+      evaluateDiscountCode({ ...baseCode, maxUsesPerCustomer: 1 }, { items, customerUses: 1 })
+        .errorCode
+    ).toBe("CUSTOMER_LIMIT_REACHED");
+  });
+
+  it("should check the minimum subtotal against the whole cart", () => {
+    expect(evaluateDiscountCode({ ...baseCode, minSubtotal: 2000 }, { items }).errorCode).toBe(
+      "MIN_SUBTOTAL_NOT_MET"
+    );
+    expect(
+      evaluateDiscountCode({ ...baseCode, minSubtotal: 1200, productIds: ["p2"] }, { items }).valid
+    ).toBe(true);
+  });
+
+  it("should reject codes that match no cart line", () => {
+    expect(evaluateDiscountCode({ ...baseCode, productIds: ["p9"] }, { items }).errorCode).toBe(
+      "NOT_APPLICABLE"
+    );
+  });
+});
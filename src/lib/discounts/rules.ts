@@ -0,0 +1,204 @@
+/**
+ * Discount code rules
+ * Decides whether a promo code applies to a cart and how much it deducts.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { Discount } from "@/lib/utils/price-calculator";
+
+export type DiscountType = "percentage" | "fixed";
+
+/**
+ * Promo code as stored in discount_codes
+ */
+export interface DiscountCode {
+  id: string;
+  code: string;
+  description?: string | undefined;
+  campaign?: string | undefined;
+  type: DiscountType;
+  value: number;
+  validFrom?: Date | undefined;
+  validUntil?: Date | undefined;
+  maxUses?: number | undefined;
+  maxUsesPerCustomer?: number | undefined;
+  usesCount: number;
+  minSubtotal: number;
+  productIds: string[];
+  categoryIds: string[];
+  active: boolean;
+}
+
+/**
+ * Cart line as seen by the discount rules
+ */
+export interface DiscountLineItem {
+  productId: string;
+  categoryId?: string | undefined;
+  totalPrice: number;
+}
+
+export interface DiscountEvaluationContext {
+  items: DiscountLineItem[];
+  now?: Date;
+  /** Number of earlier redemptions by the same customer */
+  customerUses?: number;
+}
+
+export type DiscountErrorCode =
+  | "NOT_FOUND"
+  | "INACTIVE"
+  | "NOT_STARTED"
+  | "EXPIRED"
+  | "USAGE_LIMIT_REACHED"
+  | "CUSTOMER_LIMIT_REACHED"
+  | "MIN_SUBTOTAL_NOT_MET"
+  | "NOT_APPLICABLE";
+
+/**
+ * Error thrown when a promo code cannot be applied to the cart being checked out
+ */
+export class DiscountCodeError extends Error {
+  constructor(
+    message: string,
+    public errorCode: DiscountErrorCode
+  ) {
+    super(message);
+    this.name = "DiscountCodeError";
+  }
+}
+
+export interface DiscountEvaluation {
+  valid: boolean;
+  errorCode?: DiscountErrorCode;
+  subtotal: number;
+  /** Part of the subtotal the code is scoped to */
+  eligibleSubtotal: number;
+  discountAmount: number;
+  discount?: Discount;
+}
+
+/**
+ * Discount applied to a cart, as passed between the API, the cart UI and checkout
+ */
+export interface AppliedDiscount {
+  code: string;
+  type: DiscountType;
+  value: number;
+  amount: number;
+}
+
+/**
+ * Normalize user input to the stored (upper-case) form
+ */
+export function normalizeDiscountCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function isLineEligible(discountCode: DiscountCode, item: DiscountLineItem): boolean {
+  const hasScope = discountCode.productIds.length > 0 || discountCode.categoryIds.length > 0;
+  if (!hasScope) {
+    return true;
+  }
+
+  return (
+    discountCode.productIds.includes(item.productId) ||
+    (item.categoryId !== undefined && discountCode.categoryIds.includes(item.categoryId))
+  );
+}
+
+function checkAvailability(
+  discountCode: DiscountCode,
+  now: Date,
+  customerUses: number
+): DiscountErrorCode | null {
+  if (!discountCode.active) {
+    return "INACTIVE";
+  }
+
+  if (discountCode.validFrom && now < discountCode.validFrom) {
+    return "NOT_STARTED";
+  }
+
+  if (discountCode.validUntil && now > discountCode.validUntil) {
+    return "EXPIRED";
+  }
+
+  if (discountCode.maxUses !== undefined && discountCode.usesCount >= discountCode.maxUses) {
+    return "USAGE_LIMIT_REACHED";
+  }
+
+  if (
+    discountCode.maxUsesPerCustomer !== undefined &&
+    customerUses >= discountCode.maxUsesPerCustomer
+  ) {
+    return "CUSTOMER_LIMIT_REACHED";
+  }
+
+  return null;
+}
+
+/**
+ * Evaluate a promo code against cart contents
+ *
+ * The minimum subtotal is checked against the whole cart, while the discount
+ * itself only applies to lines matching the product/category scope.
+ */
+export function evaluateDiscountCode(
+  discountCode: DiscountCode,
+  context: DiscountEvaluationContext
+): DiscountEvaluation {
+  const subtotal = roundAmount(context.items.reduce((sum, item) => sum + item.totalPrice, 0));
+  const eligibleSubtotal = roundAmount(
+    context.items
+      .filter((item) => isLineEligible(discountCode, item))
+      .reduce((sum, item) => sum + item.totalPrice, 0)
+  );
+
+  const invalid = (errorCode: DiscountErrorCode): DiscountEvaluation => ({
+    valid: false,
+    errorCode,
+    subtotal,
+    eligibleSubtotal,
+    discountAmount: 0,
+  });
+
+  const availabilityError = checkAvailability(
+    discountCode,
+    context.now ?? new Date(),
+    context.customerUses ?? 0
+  );
+  if (availabilityError) {
+    return invalid(availabilityError);
+  }
+
+  if (subtotal < discountCode.minSubtotal) {
+    return invalid("MIN_SUBTOTAL_NOT_MET");
+  }
+
+  if (eligibleSubtotal <= 0) {
+    return invalid("NOT_APPLICABLE");
+  }
+
+  const discount: Discount = {
+    type: discountCode.type,
+    value: discountCode.value,
+    code: discountCode.code,
+  };
+  const discountAmount =
+    discountCode.type === "percentage"
+      ? (eligibleSubtotal * Math.min(discountCode.value, 100)) / 100
+      : Math.min(discountCode.value, eligibleSubtotal);
+
+  return {
+    valid: true,
+    subtotal,
+    eligibleSubtotal,
+    discountAmount: roundAmount(discountAmount),
+    discount,
+  };
+}
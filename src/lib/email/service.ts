@@ -3,11 +3,12 @@
  * Handles order confirmations, status updates, and customer notifications
  */
 
+import { formatCeremonyStart, formatFuneralVenue } from "@/lib/delivery/funeral";
 import type { Order, OrderStatus } from "@/types/order";
+import { createEmailTransport, type EmailTransport, type EmailTransportName } from "./transports";
 
 // Email service configuration
 interface EmailConfig {
-  apiKey: string | undefined;
   fromEmail: string;
   fromName: string;
   baseUrl: string;
@@ -19,15 +20,34 @@ interface OrderEmailData {
   customerName: string;
   customerEmail: string;
   locale: "cs" | "en";
+  /** Passed to the transport so a retried send is not delivered twice */
+  idempotencyKey?: string;
+}
+
+// GDPR erasure confirmation data
+interface ErasureConfirmationEmailData {
+  customerEmail: string;
+  customerName?: string;
+  token: string;
+  expiresAt: Date;
+  graceDays: number;
+  locale: "cs" | "en";
+}
+
+export interface EmailServiceResult {
+  success: boolean;
+  error?: string;
+  transport?: EmailTransportName;
 }
 
 // Email service class
 export class EmailService {
   private config: EmailConfig;
+  private transport: EmailTransport;
 
-  constructor() {
+  constructor(transport: EmailTransport = createEmailTransport()) {
+    this.transport = transport;
     this.config = {
-      apiKey: process.env["RESEND_API_KEY"],
       fromEmail: process.env["FROM_EMAIL"] || "objednavky@pohrebni-vence.cz",
       fromName: process.env["FROM_NAME"] || "Pohřební věnce",
       baseUrl: process.env["NEXT_PUBLIC_BASE_URL"] || "http://localhost:3000",
@@ -37,7 +57,7 @@ export class EmailService {
   /**
    * Send order confirmation email
    */
-  async sendOrderConfirmation(data: OrderEmailData): Promise<{ success: boolean; error?: string }> {
+  async sendOrderConfirmation(data: OrderEmailData): Promise<EmailServiceResult> {
     try {
       const { order, customerEmail, locale } = data;
 
@@ -46,25 +66,13 @@ export class EmailService {
           ? `Potvrzení objednávky #${order.orderNumber}`
           : `Order Confirmation #${order.orderNumber}`;
 
-      const htmlContent = this.generateOrderConfirmationHTML(data);
-      const textContent = this.generateOrderConfirmationText(data);
-
-      // If Resend is configured, use it; otherwise log for development
-      if (this.config.apiKey && process.env["NODE_ENV"] === "production") {
-        return await this.sendWithResend({
-          to: customerEmail,
-          subject,
-          html: htmlContent,
-          text: textContent,
-        });
-      } else {
-        // Development mode - log email content
-        console.log("📧 Order Confirmation Email (Development Mode)");
-        console.log("To:", customerEmail);
-        console.log("Subject:", subject);
-        console.log("Content:", textContent);
-        return { success: true };
-      }
+      return await this.send({
+        to: customerEmail,
+        subject,
+        html: this.generateOrderConfirmationHTML(data),
+        text: this.generateOrderConfirmationText(data),
+        ...(data.idempotencyKey && { idempotencyKey: data.idempotencyKey }),
+      });
     } catch (error) {
       console.error("Error sending order confirmation:", error);
       return { success: false, error: "Failed to send confirmation email" };
@@ -76,7 +84,7 @@ export class EmailService {
    */
   async sendStatusUpdate(
     data: OrderEmailData & { newStatus: OrderStatus }
-  ): Promise<{ success: boolean; error?: string }> {
+  ): Promise<EmailServiceResult> {
     try {
       const { order, customerEmail, locale, newStatus } = data;
 
@@ -85,24 +93,13 @@ export class EmailService {
           ? `Aktualizace objednávky #${order.orderNumber}`
           : `Order Update #${order.orderNumber}`;
 
-      const htmlContent = this.generateStatusUpdateHTML({ ...data, newStatus });
-      const textContent = this.generateStatusUpdateText({ ...data, newStatus });
-
-      if (this.config.apiKey && process.env["NODE_ENV"] === "production") {
-        return await this.sendWithResend({
-          to: customerEmail,
-          subject,
-          html: htmlContent,
-          text: textContent,
-        });
-      } else {
-        console.log("📧 Order Status Update Email (Development Mode)");
-        console.log("To:", customerEmail);
-        console.log("Subject:", subject);
-        console.log("New Status:", newStatus);
-        console.log("Content:", textContent);
-        return { success: true };
-      }
+      return await this.send({
+        to: customerEmail,
+        subject,
+        html: this.generateStatusUpdateHTML({ ...data, newStatus }),
+        text: this.generateStatusUpdateText({ ...data, newStatus }),
+        ...(data.idempotencyKey && { idempotencyKey: data.idempotencyKey }),
+      });
     } catch (error) {
       console.error("Error sending status update:", error);
       return { success: false, error: "Failed to send status update email" };
@@ -110,42 +107,84 @@ export class EmailService {
   }
 
   /**
-   * Send email using Resend service
+   * Send the link that confirms a GDPR erasure request
    */
-  private async sendWithResend(emailData: {
-    to: string;
-    subject: string;
-    html: string;
-    text: string;
-  }): Promise<{ success: boolean; error?: string }> {
+  async sendErasureConfirmation(data: ErasureConfirmationEmailData): Promise<EmailServiceResult> {
     try {
-      const response = await fetch("https://api.resend.com/emails", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          from: `${this.config.fromName} <${this.config.fromEmail}>`,
-          to: [emailData.to],
-          subject: emailData.subject,
-          html: emailData.html,
-          text: emailData.text,
-        }),
-      });
+      const isCs = data.locale === "cs";
+      const confirmUrl = `${this.config.baseUrl}/${data.locale}/gdpr/erasure/confirm?token=${encodeURIComponent(data.token)}`;
+      const expiresAt = data.expiresAt.toLocaleString(isCs ? "cs-CZ" : "en-GB");
+      const greeting = isCs
+        ? `Dobrý den${data.customerName ? `, ${data.customerName}` : ""},`
+        : `Hello${data.customerName ? ` ${data.customerName}` : ""},`;
+      const body = isCs
+        ? `obdrželi jsme žádost o výmaz vašeho účtu a osobních údajů. Pokud jste ji podali vy, potvrďte ji do ${expiresAt}. Údaje vymažeme ${data.graceDays} dní po potvrzení; do té doby můžete žádost ve svém profilu zrušit.`
+        : `we received a request to erase your account and personal data. If it was you, please confirm it by ${expiresAt}. Your data will be erased ${data.graceDays} days after confirmation; until then you can cancel the request in your profile.`;
+      const ignore = isCs
+        ? "Pokud jste o výmaz nežádali, tento e-mail ignorujte."
+        : "If you did not request erasure, please ignore this email.";
+      const action = isCs ? "Potvrdit výmaz údajů" : "Confirm data erasure";
+
+      return await this.send({
+        to: data.customerEmail,
+        subject: isCs ? "Potvrzení žádosti o výmaz údajů" : "Confirm your data erasure request",
+        html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${action}</title>
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <p>${greeting}</p>
+    <p>${body}</p>
+    <p><a href="${confirmUrl}" style="display: inline-block; background: #b91c1c; color: white; padding: 12px 24px; border-radius: 6px; text-decoration: none;">${action}</a></p>
+    <p style="color: #6b7280; font-size: 0.9em;">${ignore}</p>
+    <p style="color: #6b7280; font-size: 0.9em;">${this.config.fromName}<br>Email: ${this.config.fromEmail}</p>
+  </div>
+</body>
+</html>`,
+        text: `${greeting}
+
+${body}
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Resend API error: ${error}`);
-      }
+${action}: ${confirmUrl}
 
-      return { success: true };
+${ignore}
+
+${this.config.fromName}
+Email: ${this.config.fromEmail}
+`,
+      });
     } catch (error) {
-      console.error("Resend API error:", error);
-      return { success: false, error: "Failed to send email via Resend" };
+      console.error("Error sending erasure confirmation:", error);
+      return { success: false, error: "Failed to send erasure confirmation email" };
     }
   }
 
+  /**
+   * Send email through the configured transport
+   */
+  private async send(emailData: {
+    to: string;
+    subject: string;
+    html: string;
+    text: string;
+    idempotencyKey?: string;
+  }): Promise<EmailServiceResult> {
+    const result = await this.transport.send({
+      from: `${this.config.fromName} <${this.config.fromEmail}>`,
+      ...emailData,
+    });
+
+    return {
+      success: result.success,
+      ...(result.error && { error: result.error }),
+      transport: this.transport.name,
+    };
+  }
+
   /**
    * Generate HTML content for order confirmation
    */
@@ -246,6 +285,17 @@ export class EmailService {
         `
             : ""
         }
+
+        ${
+          order.deliveryInfo.funeral
+            ? `
+          <p><strong>${isCs ? "Smuteční obřad" : "Funeral Service"}:</strong><br>
+          ${order.deliveryInfo.funeral.deceasedName}<br>
+          ${formatFuneralVenue(order.deliveryInfo.funeral, locale)}<br>
+          ${formatCeremonyStart(order.deliveryInfo.funeral.ceremonyStart, locale)}</p>
+        `
+            : ""
+        }
       </div>
 
       <p>${
@@ -341,6 +391,16 @@ ${
     : ""
 }
 
+${
+  order.deliveryInfo.funeral
+    ? `${isCs ? "Smuteční obřad" : "Funeral Service"}: ${order.deliveryInfo.funeral.deceasedName}
+${formatFuneralVenue(order.deliveryInfo.funeral, locale)}, ${formatCeremonyStart(
+        order.deliveryInfo.funeral.ceremonyStart,
+        locale
+      )}`
+    : ""
+}
+
 ${
   isCs
     ? "Budeme vás informovat o dalších krocích zpracování vaší objednávky."
@@ -359,6 +419,29 @@ Email: ${this.config.fromEmail}
 `;
   }
 
+  /**
+   * Who received a delivered order and the proof-of-delivery photo, when known
+   */
+  private getDeliveredDetails(
+    order: Order,
+    isCs: boolean
+  ): { label: string; value: string; href?: string }[] {
+    return [
+      ...(order.deliveryInfo.recipientName
+        ? [{ label: isCs ? "Převzal(a)" : "Received by", value: order.deliveryInfo.recipientName }]
+        : []),
+      ...(order.deliveryPhotoUrl
+        ? [
+            {
+              label: isCs ? "Fotografie doručení" : "Delivery photo",
+              value: isCs ? "zobrazit" : "view",
+              href: order.deliveryPhotoUrl,
+            },
+          ]
+        : []),
+    ];
+  }
+
   /**
    * Generate HTML content for status update
    */
@@ -386,6 +469,14 @@ Email: ${this.config.fromEmail}
     };
 
     const statusMessage = statusMessages[locale][newStatus] || "";
+    const deliveredDetails = (
+      newStatus === "delivered" ? this.getDeliveredDetails(order, isCs) : []
+    )
+      .map(
+        (detail) =>
+          `<p>${detail.label}: ${detail.href ? `<a href="${detail.href}">${detail.value}</a>` : detail.value}</p>`
+      )
+      .join("");
 
     return `
 <!DOCTYPE html>
@@ -415,6 +506,7 @@ Email: ${this.config.fromEmail}
       <div class="status-update">
         <h3>${isCs ? "Nový stav objednávky" : "New Order Status"}: ${newStatus.toUpperCase()}</h3>
         <p>${statusMessage}</p>
+        ${deliveredDetails}
       </div>
 
       <p>${
@@ -460,6 +552,11 @@ Email: ${this.config.fromEmail}
     };
 
     const statusMessage = statusMessages[locale][newStatus] || "";
+    const deliveredDetails = (
+      newStatus === "delivered" ? this.getDeliveredDetails(order, isCs) : []
+    )
+      .map((detail) => `\n${detail.label}: ${detail.href || detail.value}`)
+      .join("");
 
     return `
 ${isCs ? "AKTUALIZACE OBJEDNÁVKY" : "ORDER UPDATE"}
@@ -469,7 +566,7 @@ ${isCs ? "Vážený" : "Dear"} ${customerName},
 
 ${isCs ? "NOVÝ STAV OBJEDNÁVKY" : "NEW ORDER STATUS"}: ${newStatus.toUpperCase()}
 
-${statusMessage}
+${statusMessage}${deliveredDetails}
 
 ${
   isCs
@@ -489,8 +586,9 @@ export const emailService = new EmailService();
 // Helper function to send order confirmation
 export async function sendOrderConfirmationEmail(
   order: Order,
-  locale: "cs" | "en" = "cs"
-): Promise<{ success: boolean; error?: string }> {
+  locale: "cs" | "en" = "cs",
+  idempotencyKey?: string
+): Promise<EmailServiceResult> {
   const customerName = `${order.customerInfo.firstName} ${order.customerInfo.lastName}`;
   const customerEmail = order.customerInfo.email;
 
@@ -499,6 +597,7 @@ export async function sendOrderConfirmationEmail(
     customerName,
     customerEmail,
     locale,
+    ...(idempotencyKey && { idempotencyKey }),
   });
 }
 
@@ -506,8 +605,9 @@ export async function sendOrderConfirmationEmail(
 export async function sendOrderStatusUpdateEmail(
   order: Order,
   newStatus: OrderStatus,
-  locale: "cs" | "en" = "cs"
-): Promise<{ success: boolean; error?: string }> {
+  locale: "cs" | "en" = "cs",
+  idempotencyKey?: string
+): Promise<EmailServiceResult> {
   const customerName = `${order.customerInfo.firstName} ${order.customerInfo.lastName}`;
   const customerEmail = order.customerInfo.email;
 
@@ -517,5 +617,6 @@ export async function sendOrderStatusUpdateEmail(
     customerEmail,
     locale,
     newStatus,
+    ...(idempotencyKey && { idempotencyKey }),
   });
 }
@@ -0,0 +1,159 @@
+/**
+ * Email transports
+ * Resend for production, plus file and console transports so order emails can be
+ * inspected locally without a Resend account.
+ */
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type EmailTransportName = "resend" | "file" | "console";
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Stable key so providers can drop duplicates (Resend Idempotency-Key header) */
+  idempotencyKey?: string;
+}
+
+export interface EmailSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/**
+ * Resend HTTP API transport
+ */
+export function createResendTransport(apiKey: string): EmailTransport {
+  return {
+    name: "resend",
+    async send(message) {
+      try {
+        const response = await fetch("https://api.resend.com/emails", {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+            ...(message.idempotencyKey && { "Idempotency-Key": message.idempotencyKey }),
+          },
+          body: JSON.stringify({
+            from: message.from,
+            to: [message.to],
+            subject: message.subject,
+            html: message.html,
+            text: message.text,
+          }),
+        });
+
+        if (!response.ok) {
+          const error = await response.text();
+          throw new Error(`Resend API error: ${error}`);
+        }
+
+        const data = (await response.json()) as { id?: string };
+        return { success: true, ...(data.id && { messageId: data.id }) };
+      } catch (error) {
+        console.error("Resend API error:", error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to send email via Resend",
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Writes each email as .html, .txt and .json files into a local directory
+ */
+export function createFileTransport(directory: string): EmailTransport {
+  return {
+    name: "file",
+    async send(message) {
+      try {
+        await mkdir(directory, { recursive: true });
+
+        const safeKey = (message.idempotencyKey || "email").replace(/[^a-zA-Z0-9_-]/g, "_");
+        const baseName = `${new Date().toISOString().replace(/[:.]/g, "-")}_${safeKey}`;
+        const basePath = path.join(directory, baseName);
+
+        await writeFile(`${basePath}.html`, message.html, "utf8");
+        await writeFile(`${basePath}.txt`, message.text, "utf8");
+        await writeFile(
+          `${basePath}.json`,
+          JSON.stringify(
+            {
+              from: message.from,
+              to: message.to,
+              subject: message.subject,
+              idempotencyKey: message.idempotencyKey,
+            },
+            null,
+            2
+          ),
+          "utf8"
+        );
+
+        console.log(`📧 Email written to ${basePath}.html`);
+        return { success: true, messageId: baseName };
+      } catch (error) {
+        console.error("Error writing email file:", error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to write email file",
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Logs emails to the console (development default)
+ */
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: "console",
+    async send(message) {
+      console.log("📧 Email (Development Mode)");
+      console.log("To:", message.to);
+      console.log("Subject:", message.subject);
+      console.log("Content:", message.text);
+      return { success: true };
+    },
+  };
+}
+
+/**
+ * Pick the transport from EMAIL_TRANSPORT, falling back to Resend in production
+ * when RESEND_API_KEY is set and to the console everywhere else.
+ */
+export function createEmailTransport(): EmailTransport {
+  const apiKey = process.env["RESEND_API_KEY"];
+  const configured = process.env["EMAIL_TRANSPORT"] as EmailTransportName | undefined;
+
+  switch (configured) {
+    case "resend":
+      if (!apiKey) {
+        console.warn("EMAIL_TRANSPORT=resend but RESEND_API_KEY is not set, using console");
+        return createConsoleTransport();
+      }
+      return createResendTransport(apiKey);
+    case "file":
+      return createFileTransport(process.env["EMAIL_FILE_DIR"] || ".emails");
+    case "console":
+      return createConsoleTransport();
+    default:
+      return apiKey && process.env["NODE_ENV"] === "production"
+        ? createResendTransport(apiKey)
+        : createConsoleTransport();
+  }
+}
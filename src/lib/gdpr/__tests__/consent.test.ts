@@ -0,0 +1,93 @@
+/**
+ * Tests for GDPR consent rules
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  CONSENT_POLICY_VERSION,
+  type ConsentRecord,
+  getConsentChanges,
+  resolveConsentState,
+} from "../consent";
+
+const record = (overrides: Partial<ConsentRecord> = {}): ConsentRecord => ({
+  id: "record-1",
+  purpose: "analytics",
+  policyVersion: CONSENT_POLICY_VERSION,
+  granted: true,
+  source: "banner",
+  createdAt: "2025-01-10T10:00:00.000Z",
+  ...overrides,
+});
+
+const fullDecision = (granted: boolean, createdAt = "2025-01-10T10:00:00.000Z") => [
+  record({ id: "f", purpose: "functional", granted: true, createdAt }),
+  record({ id: "a", purpose: "analytics", granted, createdAt }),
+  record({ id: "m", purpose: "marketing", granted, createdAt }),
+];
+
+describe("resolveConsentState", () => {
+  it("asks for consent when nothing was decided", () => {
+    expect(resolveConsentState([])).toEqual({
+      preferences: { functional: true, analytics: false, marketing: false },
+      policyVersion: null,
+      lastUpdated: null,
+      needsConsent: true,
+    });
+  });
+
+  it("uses the latest decision per purpose", () => {
+    const state = resolveConsentState([
+      ...fullDecision(true),
+      record({ id: "later", granted: false, createdAt: "2025-01-12T10:00:00.000Z" }),
+    ]);
+
+    expect(state.preferences).toEqual({ functional: true, analytics: false, marketing: true });
+    expect(state.lastUpdated).toBe("2025-01-12T10:00:00.000Z");
+    expect(state.needsConsent).toBe(false);
+  });
+
+  it("does not carry grants over from an older policy version", () => {
+    const state = resolveConsentState(
+      fullDecision(true).map((entry) => ({ ...entry, policyVersion: "2024-06" }))
+    );
+
+    expect(state.preferences).toEqual({ functional: true, analytics: false, marketing: false });
+    expect(state.policyVersion).toBe("2024-06");
+    expect(state.needsConsent).toBe(true);
+  });
+});
+
+describe("getConsentChanges", () => {
+  it("records every purpose on the first decision", () => {
+    expect(getConsentChanges([], { functional: true, analytics: true, marketing: false })).toEqual([
+      { purpose: "functional", granted: true },
+      { purpose: "analytics", granted: true },
+      { purpose: "marketing", granted: false },
+    ]);
+  });
+
+  it("records only withdrawn or newly granted purposes", () => {
+    expect(
+      getConsentChanges(fullDecision(true), { functional: true, analytics: false, marketing: true })
+    ).toEqual([{ purpose: "analytics", granted: false }]);
+  });
+
+  it("re-records unchanged decisions made under an older policy version", () => {
+    const records = fullDecision(false).map((entry) => ({ ...entry, policyVersion: "2024-06" }));
+
+    expect(
+      getConsentChanges(records, { functional: true, analytics: false, marketing: false })
+    ).toHaveLength(3);
+  });
+
+  it("never records functional consent as refused", () => {
+    expect(
+      getConsentChanges(fullDecision(false), {
+        functional: false,
+        analytics: false,
+        marketing: false,
+      })
+    ).toEqual([]);
+  });
+});
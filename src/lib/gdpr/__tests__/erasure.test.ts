@@ -0,0 +1,133 @@
+/**
+ * Tests for the GDPR erasure rules
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  canCancelErasure,
+  canonicalJson,
+  DEFAULT_ERASURE_GRACE_DAYS,
+  type ErasureReceipt,
+  findErasureBlockers,
+  getErasureScheduledFor,
+  getReceiptHashInput,
+  MAX_ERASURE_GRACE_DAYS,
+  resolveErasureGraceDays,
+} from "../erasure";
+
+const receipt: ErasureReceipt = {
+  requestId: "request-1",
+  subjectHash: "abc",
+  requestedAt: "2025-01-01T10:00:00.000Z",
+  confirmedAt: "2025-01-01T11:00:00.000Z",
+  erasedAt: "2025-01-15T11:00:00.000Z",
+  approvedBy: null,
+  deletedRecords: { user: true, orders: 2 },
+};
+
+describe("resolveErasureGraceDays", () => {
+  it("falls back to the default for missing or invalid values", () => {
+    expect(resolveErasureGraceDays(undefined)).toBe(DEFAULT_ERASURE_GRACE_DAYS);
+    expect(resolveErasureGraceDays("")).toBe(DEFAULT_ERASURE_GRACE_DAYS);
+    expect(resolveErasureGraceDays("-1")).toBe(DEFAULT_ERASURE_GRACE_DAYS);
+    expect(resolveErasureGraceDays("2.5")).toBe(DEFAULT_ERASURE_GRACE_DAYS);
+  });
+
+  it("accepts zero and caps long grace periods", () => {
+    expect(resolveErasureGraceDays("0")).toBe(0);
+    expect(resolveErasureGraceDays("90")).toBe(MAX_ERASURE_GRACE_DAYS);
+  });
+});
+
+describe("getErasureScheduledFor", () => {
+  it("adds the grace period to the confirmation time", () => {
+    expect(getErasureScheduledFor(new Date("2025-01-01T11:00:00.000Z"), 14).toISOString()).toBe(
+      "2025-01-15T11:00:00.000Z"
+    );
+  });
+});
+
+describe("canCancelErasure", () => {
+  it("allows cancelling until the worker picks the request up", () => {
+    expect(canCancelErasure("scheduled")).toBe(true);
+    expect(canCancelErasure("blocked")).toBe(true);
+    expect(canCancelErasure("processing")).toBe(false);
+    expect(canCancelErasure("completed")).toBe(false);
+  });
+});
+
+describe("findErasureBlockers", () => {
+  it("ignores settled orders", () => {
+    expect(
+      findErasureBlockers([
+        { id: "1", orderNumber: "ORD-1", status: "delivered" },
+        { id: "2", orderNumber: "ORD-2", status: "cancelled", paymentInfo: null },
+      ])
+    ).toEqual([]);
+  });
+
+  it("blocks open orders, pending refunds and open disputes", () => {
+    const blockers = findErasureBlockers([
+      { id: "1", orderNumber: "ORD-1", status: "processing" },
+      {
+        id: "2",
+        orderNumber: "ORD-2",
+        status: "delivered",
+        paymentInfo: {
+          refunds: [
+            {
+              id: "re_1",
+              amount: 100,
+              currency: "czk",
+              status: "pending",
+              source: "admin",
+              createdAt: "2025-01-01T10:00:00.000Z",
+            },
+          ],
+        },
+      },
+      {
+        id: "3",
+        orderNumber: "ORD-3",
+        status: "delivered",
+        paymentInfo: {
+          dispute: {
+            id: "dp_1",
+            amount: 100,
+            currency: "czk",
+            reason: "fraudulent",
+            status: "needs_response",
+            createdAt: "2025-01-01T10:00:00.000Z",
+          },
+        },
+      },
+    ]);
+
+    expect(blockers.map((blocker) => [blocker.orderNumber, blocker.type, blocker.reason])).toEqual([
+      ["ORD-1", "open_order", "order_in_progress"],
+      ["ORD-2", "legal_retention", "refund_in_progress"],
+      ["ORD-3", "legal_retention", "payment_dispute"],
+    ]);
+  });
+});
+
+describe("canonicalJson", () => {
+  it("sorts object keys at every level", () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } })).toBe(
+      '{"a":{"c":null,"d":[2,{"e":0,"f":1}]},"b":1}'
+    );
+  });
+});
+
+describe("getReceiptHashInput", () => {
+  it("chains the receipt to the previous hash", () => {
+    const first = getReceiptHashInput(receipt, null);
+    const chained = getReceiptHashInput(receipt, "prev");
+
+    expect(first.startsWith("\n{")).toBe(true);
+    expect(chained).toBe(`prev${first}`);
+    expect(
+      getReceiptHashInput({ ...receipt, deletedRecords: { orders: 2, user: true } }, null)
+    ).toBe(first);
+  });
+});
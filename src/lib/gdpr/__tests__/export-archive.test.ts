@@ -0,0 +1,101 @@
+/**
+ * Tests for the GDPR data export archive
+ */
+
+import { describe, expect, it } from "vitest";
+import type { GDPRDataExport } from "@/lib/security/gdpr";
+import {
+  buildExportArchiveFiles,
+  getExportSections,
+  renderExportSummaryHtml,
+  toCsv,
+} from "../export-archive";
+
+const exportData = (overrides: Partial<GDPRDataExport> = {}): GDPRDataExport => ({
+  user: {
+    id: "user-1",
+    email: "jana@example.cz",
+    name: "Jana Nováková",
+    phone: undefined,
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+  },
+  orders: [],
+  orderStatusHistory: [],
+  smsNotifications: [],
+  cartItems: [],
+  addresses: [],
+  preferences: { language: "cs", currency: "CZK", notifications: {} },
+  contactForms: [],
+  paymentErrors: [],
+  discountRedemptions: [],
+  consentHistory: [],
+  dataRequests: [],
+  activityLog: [],
+  ...overrides,
+});
+
+describe("toCsv", () => {
+  it("quotes cells with separators and serialises nested values", () => {
+    expect(toCsv([{ name: 'Věnec "Lilie", bílý', items: [{ qty: 1 }] }])).toBe(
+      'name,items\r\n"Věnec ""Lilie"", bílý","[{""qty"":1}]"'
+    );
+  });
+
+  it("neutralises cells a spreadsheet would run as formulas", () => {
+    expect(toCsv([{ message: "=HYPERLINK(1)" }])).toBe("message\r\n'=HYPERLINK(1)");
+  });
+
+  it("uses the union of keys as columns", () => {
+    expect(toCsv([{ a: 1 }, { b: 2 }])).toBe("a,b\r\n1,\r\n,2");
+  });
+});
+
+describe("getExportSections", () => {
+  it("includes every section with localized titles", () => {
+    const sections = getExportSections(exportData(), "en");
+
+    expect(sections.map((section) => section.key)).toEqual([
+      "profile",
+      "addresses",
+      "orders",
+      "orderStatusHistory",
+      "smsNotifications",
+      "cartItems",
+      "contactForms",
+      "paymentErrors",
+      "discountRedemptions",
+      "consentHistory",
+      "dataRequests",
+      "activityLog",
+    ]);
+    expect(sections[0]).toMatchObject({ title: "Profile", rows: [{ email: "jana@example.cz" }] });
+  });
+});
+
+describe("renderExportSummaryHtml", () => {
+  it("escapes user content", () => {
+    const html = renderExportSummaryHtml(
+      [{ key: "contactForms", title: "Formuláře", rows: [{ message: "<script>x</script>" }] }],
+      { exportedAt: "2025-01-21T10:00:00.000Z" }
+    );
+
+    expect(html).toContain("&lt;script&gt;x&lt;/script&gt;");
+    expect(html).not.toContain("<script>");
+  });
+});
+
+describe("buildExportArchiveFiles", () => {
+  it("produces the summary, the full export and a JSON and CSV file per section", () => {
+    const files = buildExportArchiveFiles(exportData(), {
+      exportedAt: "2025-01-21T10:00:00.000Z",
+    });
+    const names = files.map((file) => file.name);
+
+    expect(names.slice(0, 2)).toEqual(["index.html", "data.json"]);
+    expect(names).toContain("json/contactForms.json");
+    expect(names).toContain("csv/consentHistory.csv");
+    expect(files).toHaveLength(2 + 12 * 2);
+    expect(JSON.parse(files[1]?.content ?? "{}").exportedAt).toBe("2025-01-21T10:00:00.000Z");
+  });
+});
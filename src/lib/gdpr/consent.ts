@@ -0,0 +1,149 @@
+/**
+ * GDPR consent rules
+ * Resolves the current consent of a user or anonymous visitor from the consent ledger and works
+ * out which decisions a consent update has to append.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+export type ConsentPurpose = "functional" | "analytics" | "marketing";
+
+export type ConsentSource = "banner" | "preferences" | "account" | "api";
+
+export type ConsentPreferences = Record<ConsentPurpose, boolean>;
+
+/**
+ * One consent decision in the ledger
+ */
+export interface ConsentRecord {
+  id: string;
+  purpose: ConsentPurpose;
+  policyVersion: string;
+  granted: boolean;
+  source: ConsentSource;
+  createdAt: string;
+}
+
+/**
+ * Current consent of a subject
+ */
+export interface ConsentState {
+  preferences: ConsentPreferences;
+  /** Policy version of the latest decision, null when the subject never decided */
+  policyVersion: string | null;
+  lastUpdated: string | null;
+  /** True when the subject never decided or decided under an older policy version */
+  needsConsent: boolean;
+}
+
+/**
+ * Decision to append to the ledger
+ */
+export interface ConsentDecision {
+  purpose: ConsentPurpose;
+  granted: boolean;
+}
+
+// Bump when the privacy policy changes; earlier optional consent then has to be given again
+export const CONSENT_POLICY_VERSION = "2025-01";
+
+export const CONSENT_PURPOSES: readonly ConsentPurpose[] = ["functional", "analytics", "marketing"];
+
+export const CONSENT_SOURCES: readonly ConsentSource[] = [
+  "banner",
+  "preferences",
+  "account",
+  "api",
+];
+
+// Functional cookies are required to run the shop and cannot be refused
+export const DEFAULT_CONSENT: ConsentPreferences = {
+  functional: true,
+  analytics: false,
+  marketing: false,
+};
+
+/**
+ * Browser event dispatched after the visitor saves their consent (detail: ConsentPreferences)
+ */
+export const CONSENT_UPDATED_EVENT = "consent-updated";
+
+export function isConsentSource(value: unknown): value is ConsentSource {
+  return CONSENT_SOURCES.includes(value as ConsentSource);
+}
+
+function getLatestRecords(records: ConsentRecord[]): Map<ConsentPurpose, ConsentRecord> {
+  const latest = new Map<ConsentPurpose, ConsentRecord>();
+
+  for (const record of records) {
+    const current = latest.get(record.purpose);
+    if (!current || record.createdAt > current.createdAt) {
+      latest.set(record.purpose, record);
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * Resolve the current consent from a subject's ledger entries
+ * Optional purposes only count as granted under the current policy version.
+ */
+export function resolveConsentState(
+  records: ConsentRecord[],
+  policyVersion: string = CONSENT_POLICY_VERSION
+): ConsentState {
+  const latest = getLatestRecords(records);
+  const decisions = [...latest.values()];
+
+  if (decisions.length === 0) {
+    return {
+      preferences: { ...DEFAULT_CONSENT },
+      policyVersion: null,
+      lastUpdated: null,
+      needsConsent: true,
+    };
+  }
+
+  const newest = decisions.reduce((a, b) => (b.createdAt > a.createdAt ? b : a));
+  const isCurrent = (purpose: ConsentPurpose) => {
+    const record = latest.get(purpose);
+    return record?.policyVersion === policyVersion && record.granted;
+  };
+
+  return {
+    preferences: {
+      functional: true,
+      analytics: isCurrent("analytics"),
+      marketing: isCurrent("marketing"),
+    },
+    policyVersion: newest.policyVersion,
+    lastUpdated: newest.createdAt,
+    needsConsent: CONSENT_PURPOSES.some(
+      (purpose) => latest.get(purpose)?.policyVersion !== policyVersion
+    ),
+  };
+}
+
+/**
+ * Decisions to append for a consent update
+ * Purposes whose latest decision already matches under the current policy are skipped, so
+ * re-saving unchanged preferences does not grow the ledger.
+ */
+export function getConsentChanges(
+  records: ConsentRecord[],
+  preferences: ConsentPreferences,
+  policyVersion: string = CONSENT_POLICY_VERSION
+): ConsentDecision[] {
+  const latest = getLatestRecords(records);
+
+  return CONSENT_PURPOSES.flatMap((purpose) => {
+    const granted = purpose === "functional" ? true : preferences[purpose];
+    const record = latest.get(purpose);
+
+    if (record?.policyVersion === policyVersion && record.granted === granted) {
+      return [];
+    }
+
+    return [{ purpose, granted }];
+  });
+}
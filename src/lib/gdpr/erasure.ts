@@ -0,0 +1,203 @@
+/**
+ * GDPR erasure rules
+ * Lifecycle of a deferred erasure request: email confirmation, a grace period during which the
+ * user can cancel, checks for orders that block erasure, and the receipt recorded once the data
+ * is erased.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { PaymentInfo } from "@/types/order";
+
+export type ErasureRequestStatus =
+  | "pending_confirmation"
+  | "scheduled"
+  | "blocked"
+  | "cancelled"
+  | "processing"
+  | "completed"
+  | "failed";
+
+export type ErasureErrorCode =
+  | "REQUEST_EXISTS"
+  | "NOT_FOUND"
+  | "INVALID_TOKEN"
+  | "TOKEN_EXPIRED"
+  | "NOT_CANCELLABLE"
+  | "NOT_REVIEWABLE";
+
+export class ErasureError extends Error {
+  constructor(
+    message: string,
+    public code: ErasureErrorCode
+  ) {
+    super(message);
+    this.name = "ErasureError";
+  }
+}
+
+/**
+ * Why an order prevents erasure for now
+ * open_order: the order is still being fulfilled; legal_retention: money is still moving
+ * (refund in progress or chargeback), so the records must be kept until it settles.
+ */
+export interface ErasureBlocker {
+  type: "open_order" | "legal_retention";
+  orderId: string;
+  orderNumber: string;
+  reason: "order_in_progress" | "refund_in_progress" | "payment_dispute";
+}
+
+/**
+ * The parts of an order the blocker check looks at
+ */
+export interface ErasureOrderSnapshot {
+  id: string;
+  orderNumber: string;
+  status: string | null;
+  paymentInfo?: Pick<PaymentInfo, "refunds" | "dispute"> | null;
+}
+
+/**
+ * Erasure request as shown to the user and in the admin queue
+ */
+export interface ErasureRequest {
+  id: string;
+  userId: string | null;
+  status: ErasureRequestStatus;
+  reason: string | null;
+  blockers: ErasureBlocker[];
+  tokenExpiresAt: string | null;
+  confirmedAt: string | null;
+  scheduledFor: string | null;
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  cancelledAt: string | null;
+  completedAt: string | null;
+  attempts: number;
+  lastError: string | null;
+  receiptHash: string | null;
+  createdAt: string;
+}
+
+/**
+ * Tamper-evident record that an erasure was carried out
+ * Holds no personal data: the subject is identified only by a keyed hash of the user ID.
+ */
+export interface ErasureReceipt {
+  requestId: string;
+  subjectHash: string;
+  requestedAt: string;
+  confirmedAt: string | null;
+  erasedAt: string;
+  approvedBy: string | null;
+  deletedRecords: Record<string, number | boolean>;
+}
+
+export const DEFAULT_ERASURE_GRACE_DAYS = 14;
+export const MAX_ERASURE_GRACE_DAYS = 30;
+export const ERASURE_TOKEN_TTL_HOURS = 48;
+export const MAX_ERASURE_ATTEMPTS = 3;
+
+// At most one request per user can be in these states
+export const OPEN_ERASURE_STATUSES: readonly ErasureRequestStatus[] = [
+  "pending_confirmation",
+  "scheduled",
+  "blocked",
+  "processing",
+];
+
+// The user can withdraw the request until the worker picks it up
+export const CANCELLABLE_ERASURE_STATUSES: readonly ErasureRequestStatus[] = [
+  "pending_confirmation",
+  "scheduled",
+  "blocked",
+];
+
+const CLOSED_ORDER_STATUSES = ["delivered", "cancelled"];
+
+// Stripe dispute statuses after which the chargeback is settled
+const CLOSED_DISPUTE_STATUSES = ["won", "lost", "warning_closed"];
+
+const OPEN_REFUND_STATUSES = ["pending", "requires_action"];
+
+/**
+ * Grace period in days from configuration (GDPR_ERASURE_GRACE_DAYS)
+ * Falls back to the default for missing or invalid values and caps it at the one-month
+ * response deadline of Art. 12(3) GDPR.
+ */
+export function resolveErasureGraceDays(value: string | undefined): number {
+  const days = value === undefined || value.trim() === "" ? Number.NaN : Number(value);
+  if (!(Number.isInteger(days) && days >= 0)) {
+    return DEFAULT_ERASURE_GRACE_DAYS;
+  }
+  return Math.min(days, MAX_ERASURE_GRACE_DAYS);
+}
+
+/**
+ * When a request confirmed at the given time is erased
+ */
+export function getErasureScheduledFor(confirmedAt: Date, graceDays: number): Date {
+  return new Date(confirmedAt.getTime() + graceDays * 24 * 60 * 60 * 1000);
+}
+
+export function getErasureTokenExpiry(requestedAt: Date): Date {
+  return new Date(requestedAt.getTime() + ERASURE_TOKEN_TTL_HOURS * 60 * 60 * 1000);
+}
+
+export function canCancelErasure(status: ErasureRequestStatus): boolean {
+  return CANCELLABLE_ERASURE_STATUSES.includes(status);
+}
+
+/**
+ * Orders that prevent erasing the user's data right now
+ */
+export function findErasureBlockers(orders: ErasureOrderSnapshot[]): ErasureBlocker[] {
+  return orders.flatMap((order) => {
+    const blockers: ErasureBlocker[] = [];
+    const base = { orderId: order.id, orderNumber: order.orderNumber };
+
+    if (!CLOSED_ORDER_STATUSES.includes(order.status ?? "pending")) {
+      blockers.push({ ...base, type: "open_order", reason: "order_in_progress" });
+    }
+
+    if (
+      order.paymentInfo?.refunds?.some((refund) => OPEN_REFUND_STATUSES.includes(refund.status))
+    ) {
+      blockers.push({ ...base, type: "legal_retention", reason: "refund_in_progress" });
+    }
+
+    const dispute = order.paymentInfo?.dispute;
+    if (dispute && !CLOSED_DISPUTE_STATUSES.includes(dispute.status)) {
+      blockers.push({ ...base, type: "legal_retention", reason: "payment_dispute" });
+    }
+
+    return blockers;
+  });
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal receipts always hash the same
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Input of the receipt hash: the previous receipt's hash chained with this receipt
+ * Changing or removing any earlier receipt breaks every hash after it.
+ */
+export function getReceiptHashInput(receipt: ErasureReceipt, previousHash: string | null): string {
+  return `${previousHash ?? ""}\n${canonicalJson(receipt)}`;
+}
@@ -0,0 +1,211 @@
+/**
+ * GDPR data export archive
+ * Splits a user's data export into sections and renders the files of the downloadable archive:
+ * the complete export as JSON, and per section a JSON file, a CSV file and an HTML summary table.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { GDPRDataExport } from "@/lib/security/gdpr";
+
+export type ExportLocale = "cs" | "en";
+
+export type ExportRow = Record<string, unknown>;
+
+/**
+ * One section of the export, such as orders or contact form submissions
+ */
+export interface ExportSection {
+  key: string;
+  title: string;
+  rows: ExportRow[];
+}
+
+export interface ExportArchiveFile {
+  name: string;
+  content: string;
+}
+
+export interface ExportArchiveOptions {
+  exportedAt: string;
+  locale?: ExportLocale;
+}
+
+const SECTION_TITLES: Record<string, Record<ExportLocale, string>> = {
+  profile: { cs: "Profil", en: "Profile" },
+  addresses: { cs: "Adresy", en: "Addresses" },
+  orders: { cs: "Objednávky", en: "Orders" },
+  orderStatusHistory: { cs: "Historie stavů objednávek", en: "Order status history" },
+  smsNotifications: { cs: "SMS oznámení", en: "SMS notifications" },
+  cartItems: { cs: "Košík", en: "Cart" },
+  contactForms: { cs: "Kontaktní formuláře", en: "Contact form submissions" },
+  paymentErrors: { cs: "Chyby plateb", en: "Payment errors" },
+  discountRedemptions: { cs: "Uplatněné slevy", en: "Discount redemptions" },
+  consentHistory: { cs: "Historie souhlasů", en: "Consent history" },
+  dataRequests: { cs: "Žádosti o osobní údaje", en: "Data requests" },
+  activityLog: { cs: "Aktivita", en: "Activity" },
+};
+
+const SUMMARY_TEXTS: Record<ExportLocale, { title: string; exportedAt: string; empty: string }> = {
+  cs: {
+    title: "Export osobních údajů",
+    exportedAt: "Vytvořeno",
+    empty: "Žádné záznamy",
+  },
+  en: {
+    title: "Personal data export",
+    exportedAt: "Exported at",
+    empty: "No records",
+  },
+};
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function getColumns(rows: ExportRow[]): string[] {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      columns.add(key);
+    }
+  }
+  return [...columns];
+}
+
+/**
+ * Split an export into its sections, in the order they appear in the archive
+ */
+export function getExportSections(
+  data: GDPRDataExport,
+  locale: ExportLocale = "cs"
+): ExportSection[] {
+  const sections: Record<string, ExportRow[]> = {
+    profile: [{ ...data.user, ...data.preferences }],
+    addresses: data.addresses,
+    orders: data.orders,
+    orderStatusHistory: data.orderStatusHistory,
+    smsNotifications: data.smsNotifications,
+    cartItems: data.cartItems,
+    contactForms: data.contactForms,
+    paymentErrors: data.paymentErrors,
+    discountRedemptions: data.discountRedemptions,
+    consentHistory: data.consentHistory,
+    dataRequests: data.dataRequests,
+    activityLog: data.activityLog,
+  };
+
+  return Object.entries(sections).map(([key, rows]) => ({
+    key,
+    title: SECTION_TITLES[key]?.[locale] ?? key,
+    rows,
+  }));
+}
+
+/**
+ * Render rows as CSV (RFC 4180), with nested values as JSON and formula-like cells neutralised
+ */
+export function toCsv(rows: ExportRow[]): string {
+  const columns = getColumns(rows);
+  const escapeCell = (value: unknown) => {
+    let text = formatValue(value);
+    if (FORMULA_PREFIX.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [columns, ...rows.map((row) => columns.map((column) => row[column]))]
+    .map((cells) => cells.map(escapeCell).join(","))
+    .join("\r\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderSectionTable(section: ExportSection, emptyText: string): string {
+  if (section.rows.length === 0) {
+    return `<p>${escapeHtml(emptyText)}</p>`;
+  }
+
+  const columns = getColumns(section.rows);
+  const header = columns.map((column) => `<th>${escapeHtml(column)}</th>`).join("");
+  const body = section.rows
+    .map(
+      (row) =>
+        `<tr>${columns.map((column) => `<td>${escapeHtml(formatValue(row[column]))}</td>`).join("")}</tr>`
+    )
+    .join("\n");
+
+  return `<table>\n<thead><tr>${header}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+/**
+ * Render the human-readable summary of all sections as a standalone HTML page
+ */
+export function renderExportSummaryHtml(
+  sections: ExportSection[],
+  { exportedAt, locale = "cs" }: ExportArchiveOptions
+): string {
+  const texts = SUMMARY_TEXTS[locale];
+  const body = sections
+    .map(
+      (section) =>
+        `<section id="${escapeHtml(section.key)}">\n<h2>${escapeHtml(section.title)} (${section.rows.length})</h2>\n${renderSectionTable(section, texts.empty)}\n</section>`
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(texts.title)}</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; color: #111827; }
+table { border-collapse: collapse; width: 100%; font-size: 0.875rem; }
+th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(texts.title)}</h1>
+<p>${escapeHtml(texts.exportedAt)}: ${escapeHtml(exportedAt)}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Files of the export archive
+ * The complete export is in data.json; json/ and csv/ hold one file per section.
+ */
+export function buildExportArchiveFiles(
+  data: GDPRDataExport,
+  options: ExportArchiveOptions
+): ExportArchiveFile[] {
+  const sections = getExportSections(data, options.locale);
+
+  return [
+    { name: "index.html", content: renderExportSummaryHtml(sections, options) },
+    {
+      name: "data.json",
+      content: JSON.stringify({ exportedAt: options.exportedAt, ...data }, null, 2),
+    },
+    ...sections.flatMap((section) => [
+      { name: `json/${section.key}.json`, content: JSON.stringify(section.rows, null, 2) },
+      // BOM so spreadsheet apps read the file as UTF-8
+      { name: `csv/${section.key}.csv`, content: `\uFEFF${toCsv(section.rows)}` },
+    ]),
+  ];
+}
@@ -0,0 +1,67 @@
+/**
+ * Hook for reading the visitor's stored consent
+ * Loads the consent ledger state once and follows updates saved through ConsentManager
+ */
+
+import { useEffect, useState } from "react";
+import {
+  CONSENT_UPDATED_EVENT,
+  type ConsentPreferences,
+  DEFAULT_CONSENT,
+} from "@/lib/gdpr/consent";
+
+interface ConsentHookState {
+  consent: ConsentPreferences;
+  /** False until the stored consent has been loaded; optional purposes stay refused until then */
+  loaded: boolean;
+}
+
+/**
+ * Hook for reading the visitor's stored consent
+ */
+export function useConsent(): ConsentHookState {
+  const [state, setState] = useState<ConsentHookState>({
+    consent: DEFAULT_CONSENT,
+    loaded: false,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadConsent = async () => {
+      try {
+        const response = await fetch("/api/gdpr/consent");
+        if (response.ok) {
+          const data = await response.json();
+          if (!cancelled && data.success && data.consent) {
+            setState({ consent: data.consent, loaded: true });
+            return;
+          }
+        }
+      } catch (error) {
+        console.error("Failed to load consent preferences:", error);
+      }
+
+      if (!cancelled) {
+        setState((current) => ({ ...current, loaded: true }));
+      }
+    };
+
+    const handleConsentUpdated = (event: Event) => {
+      const consent = (event as CustomEvent<ConsentPreferences>).detail;
+      if (consent) {
+        setState({ consent, loaded: true });
+      }
+    };
+
+    loadConsent();
+    window.addEventListener(CONSENT_UPDATED_EVENT, handleConsentUpdated);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener(CONSENT_UPDATED_EVENT, handleConsentUpdated);
+    };
+  }, []);
+
+  return state;
+}
@@ -0,0 +1,180 @@
+/**
+ * Tests for the materials inventory
+ */
+
+import { describe, expect, it } from "vitest";
+import type { CustomizationOption } from "@/types/product";
+import {
+  applyRecipeChoiceAvailability,
+  getOrderItemMaterials,
+  getRecipeChoiceKey,
+  getUnavailableRecipeChoices,
+  type Material,
+  type MaterialRecipe,
+  projectMaterialShortages,
+  validateRecipeInput,
+} from "../materials";
+
+const materials: Material[] = [
+  {
+    id: "roses",
+    name: "Růže bílá",
+    kind: "stem",
+    unit: "ks",
+    stockQuantity: 30,
+    lowStockThreshold: 10,
+  },
+  {
+    id: "ribbon",
+    name: "Stuha černá",
+    kind: "ribbon",
+    unit: "m",
+    stockQuantity: 2,
+    lowStockThreshold: 5,
+  },
+];
+
+const recipes: MaterialRecipe[] = [
+  { optionType: "flowers", choiceId: "white_roses", materialId: "roses", quantity: 12 },
+  { optionType: "ribbon_color", choiceId: "color_black", materialId: "ribbon", quantity: 1.5 },
+];
+
+describe("getOrderItemMaterials", () => {
+  it("multiplies the recipes of the chosen flowers and ribbon color by the quantity", () => {
+    expect(
+      getOrderItemMaterials(
+        {
+          quantity: 2,
+          customizations: [
+            { optionId: "wreath_flowers", choiceIds: ["white_roses"] },
+            { optionId: "ribbon_color", choiceIds: ["color_black"] },
+            { optionId: "size", choiceIds: ["size_120"] },
+          ],
+          productSnapshot: {
+            customizationOptions: [{ id: "wreath_flowers", type: "flowers", choices: [] }],
+          },
+        },
+        recipes
+      )
+    ).toEqual([
+      { materialId: "roses", quantity: 24 },
+      { materialId: "ribbon", quantity: 3 },
+    ]);
+  });
+});
+
+describe("projectMaterialShortages", () => {
+  it("uses up the stock day by day and reports what is missing", () => {
+    const projection = projectMaterialShortages(
+      [
+        { deliveryDate: "2025-03-15", requirements: [{ materialId: "roses", quantity: 24 }] },
+        { deliveryDate: "2025-03-14", requirements: [{ materialId: "roses", quantity: 12 }] },
+        { deliveryDate: "2025-03-15", requirements: [{ materialId: "ribbon", quantity: 1.5 }] },
+      ],
+      materials
+    );
+
+    expect(projection.map((day) => [day.deliveryDate, day.orderCount])).toEqual([
+      ["2025-03-14", 1],
+      ["2025-03-15", 2],
+    ]);
+    expect(projection[0]?.shortages).toEqual([]);
+    expect(projection[1]?.shortages).toEqual([
+      {
+        materialId: "roses",
+        materialName: "Růže bílá",
+        unit: "ks",
+        required: 24,
+        missing: 6,
+      },
+    ]);
+  });
+});
+
+describe("choice availability", () => {
+  const options = [
+    {
+      id: "ribbon_color",
+      type: "ribbon_color",
+      name: "Barva stuhy",
+      required: false,
+      choices: [
+        { id: "color_black", label: "Černá", priceModifier: 0 },
+        { id: "color_white", label: "Bílá", priceModifier: 0, available: false },
+      ],
+    },
+  ] as CustomizationOption[];
+
+  it("marks choices unavailable once open orders leave too little of a component", () => {
+    const unavailable = getUnavailableRecipeChoices(recipes, materials, [
+      { deliveryDate: null, requirements: [{ materialId: "ribbon", quantity: 1 }] },
+    ]);
+
+    expect([...unavailable]).toEqual([getRecipeChoiceKey("ribbon_color", "color_black")]);
+
+    const updated = applyRecipeChoiceAvailability(
+      options,
+      new Set(recipes.map((recipe) => getRecipeChoiceKey(recipe.optionType, recipe.choiceId))),
+      unavailable
+    );
+    expect(updated?.[0]?.choices.map((choice) => choice.available)).toEqual([false, false]);
+  });
+
+  it("turns back on only the choices the stock sync turned off", () => {
+    const recipeChoices = new Set([
+      getRecipeChoiceKey("ribbon_color", "color_black"),
+      getRecipeChoiceKey("ribbon_color", "color_white"),
+    ]);
+    const unavailable = new Set([getRecipeChoiceKey("ribbon_color", "color_black")]);
+
+    const outOfStock = applyRecipeChoiceAvailability(options, recipeChoices, unavailable);
+    expect(outOfStock?.[0]?.choices).toEqual([
+      {
+        id: "color_black",
+        label: "Černá",
+        priceModifier: 0,
+        available: false,
+        disabledByStock: true,
+      },
+      { id: "color_white", label: "Bílá", priceModifier: 0, available: false },
+    ]);
+
+    const restocked = applyRecipeChoiceAvailability(outOfStock ?? [], recipeChoices, new Set());
+    expect(restocked?.[0]?.choices).toEqual(
+      options[0]?.choices.map((choice) => ({
+        ...choice,
+        ...(choice.id === "color_black" && { available: true }),
+      }))
+    );
+  });
+
+  it("leaves products alone when nothing changes", () => {
+    expect(applyRecipeChoiceAvailability(options, new Set(), new Set())).toBeNull();
+  });
+});
+
+describe("validateRecipeInput", () => {
+  it("merges components of the same material", () => {
+    expect(
+      validateRecipeInput({
+        optionType: "flowers",
+        choiceId: " white_roses ",
+        components: [
+          { materialId: "roses", quantity: 10 },
+          { materialId: "roses", quantity: 2 },
+        ],
+      })
+    ).toEqual({
+      optionType: "flowers",
+      choiceId: "white_roses",
+      components: [{ materialId: "roses", quantity: 12 }],
+    });
+    expect(() =>
+      validateRecipeInput({
+        optionType: "flowers",
+        choiceId: "white_roses",
+        components: [{ materialId: "roses", quantity: 0 }],
+      })
+    ).toThrow("kladné množství");
+  });
+});
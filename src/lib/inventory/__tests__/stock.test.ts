@@ -0,0 +1,66 @@
+/**
+ * Tests for stock reservation helpers
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  formatStockShortfallMessage,
+  getStockReservationItems,
+  getTrackedStockQuantity,
+} from "../stock";
+
+describe("getStockReservationItems", () => {
+  it("adds up cart lines of the same product", () => {
+    expect(
+      getStockReservationItems([
+        { productId: "wreath", quantity: 1 },
+        { productId: "bouquet", quantity: 2 },
+        { productId: "wreath", quantity: 2 },
+        { productId: "candle", quantity: 0 },
+      ])
+    ).toEqual([
+      { productId: "wreath", quantity: 3 },
+      { productId: "bouquet", quantity: 2 },
+    ]);
+  });
+
+  it("keeps sizes of a product apart", () => {
+    expect(
+      getStockReservationItems([
+        { productId: "wreath", variantId: "wreath_150", quantity: 1 },
+        { productId: "wreath", variantId: "wreath_180", quantity: 1 },
+        { productId: "wreath", variantId: "wreath_150", quantity: 2 },
+      ])
+    ).toEqual([
+      { productId: "wreath", variantId: "wreath_150", quantity: 3 },
+      { productId: "wreath", variantId: "wreath_180", quantity: 1 },
+    ]);
+  });
+});
+
+describe("getTrackedStockQuantity", () => {
+  it("only reports stock of products with tracked inventory", () => {
+    expect(getTrackedStockQuantity({ inStock: true, stockQuantity: 2 })).toBe(2);
+    expect(getTrackedStockQuantity({ inStock: true, stockQuantity: 0, trackInventory: true })).toBe(
+      0
+    );
+    expect(
+      getTrackedStockQuantity({ inStock: true, stockQuantity: 2, trackInventory: false })
+    ).toBeNull();
+    expect(getTrackedStockQuantity({ inStock: true })).toBeNull();
+    expect(getTrackedStockQuantity(null)).toBeNull();
+  });
+});
+
+describe("formatStockShortfallMessage", () => {
+  it("lists what is left of each short product", () => {
+    expect(
+      formatStockShortfallMessage([
+        { productId: "a", productName: "Věnec Lilie", requested: 2, available: 1 },
+        { productId: "b", productName: "Kytice Růže", requested: 1, available: 0 },
+      ])
+    ).toBe(
+      "Některé produkty již nejsou skladem v požadovaném množství: Věnec Lilie (skladem zbývá 1 ks), Kytice Růže (vyprodáno)"
+    );
+  });
+});
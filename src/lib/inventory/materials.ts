@@ -0,0 +1,427 @@
+/**
+ * Materials inventory
+ * Bill of materials for wreaths: the components (flower stems, greenery, base rings, ribbon
+ * rolls) each flowers and ribbon color choice takes, what open orders will consume per
+ * delivery day, the shortages that leaves and which choices can no longer be offered.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { Order, OrderItem } from "@/types/order";
+import type {
+  Customization,
+  CustomizationChoice,
+  CustomizationOption,
+  CustomizationType,
+} from "@/types/product";
+import { getDeliveryDateKey } from "../delivery/holidays";
+
+export type MaterialKind = "stem" | "greenery" | "base" | "ribbon" | "other";
+export type MaterialUnit = "ks" | "m" | "role";
+
+// Customization options whose choices consume materials
+export type RecipeOptionType = Extract<CustomizationType, "flowers" | "ribbon_color">;
+
+export type MaterialErrorCode = "INVALID_MATERIAL" | "MATERIAL_NOT_FOUND" | "INVALID_RECIPE";
+
+export class MaterialError extends Error {
+  constructor(
+    message: string,
+    public code: MaterialErrorCode
+  ) {
+    super(message);
+    this.name = "MaterialError";
+  }
+}
+
+export interface Material {
+  id: string;
+  name: string;
+  kind: MaterialKind;
+  unit: MaterialUnit;
+  stockQuantity: number;
+  lowStockThreshold: number;
+}
+
+/**
+ * Quantity of a material one wreath with the choice takes
+ */
+export interface MaterialRecipe {
+  optionType: RecipeOptionType;
+  choiceId: string;
+  materialId: string;
+  quantity: number;
+}
+
+export interface MaterialRequirement {
+  materialId: string;
+  quantity: number;
+}
+
+/**
+ * Material as submitted from the admin
+ */
+export interface MaterialInput {
+  name: string;
+  kind: MaterialKind;
+  unit: MaterialUnit;
+  stockQuantity: number;
+  lowStockThreshold?: number;
+}
+
+/**
+ * Components of a choice as submitted from the admin; no components removes the recipe
+ */
+export interface MaterialRecipeInput {
+  optionType: RecipeOptionType;
+  choiceId: string;
+  components: MaterialRequirement[];
+}
+
+/**
+ * Open orders due on a day, null for orders without a preferred date
+ */
+export interface MaterialDemand {
+  deliveryDate: string | null;
+  requirements: MaterialRequirement[];
+}
+
+/**
+ * A material the orders due up to a day need more of than is in stock
+ */
+export interface MaterialShortage {
+  materialId: string;
+  materialName: string;
+  unit: MaterialUnit;
+  // Needed by the orders due that day
+  required: number;
+  // Not covered by the stock left after earlier days
+  missing: number;
+}
+
+export interface MaterialDayProjection {
+  deliveryDate: string | null;
+  orderCount: number;
+  requirements: MaterialRequirement[];
+  shortages: MaterialShortage[];
+}
+
+export const MATERIAL_KIND_LABELS: Record<MaterialKind, string> = {
+  stem: "Květy",
+  greenery: "Zeleň",
+  base: "Korpusy",
+  ribbon: "Stuhy",
+  other: "Ostatní",
+};
+
+export const MATERIAL_UNIT_LABELS: Record<MaterialUnit, string> = {
+  ks: "ks",
+  m: "m",
+  role: "role",
+};
+
+export const RECIPE_OPTION_TYPE_LABELS: Record<RecipeOptionType, string> = {
+  flowers: "Květiny",
+  ribbon_color: "Barva stuhy",
+};
+
+export const MATERIAL_NAME_MAX_LENGTH = 100;
+
+const MATERIAL_KINDS = Object.keys(MATERIAL_KIND_LABELS) as MaterialKind[];
+const MATERIAL_UNITS = Object.keys(MATERIAL_UNIT_LABELS) as MaterialUnit[];
+const RECIPE_OPTION_TYPES = Object.keys(RECIPE_OPTION_TYPE_LABELS) as RecipeOptionType[];
+
+// Quantities are stored with two decimals (metres of ribbon)
+function roundQuantity(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function isQuantity(value: unknown, allowZero: boolean): value is number {
+  return (
+    typeof value === "number" && Number.isFinite(value) && (allowZero ? value >= 0 : value > 0)
+  );
+}
+
+export function isRecipeOptionType(value: unknown): value is RecipeOptionType {
+  return RECIPE_OPTION_TYPES.includes(value as RecipeOptionType);
+}
+
+/**
+ * Key of a choice in recipe lookups
+ */
+export function getRecipeChoiceKey(optionType: RecipeOptionType, choiceId: string): string {
+  return `${optionType}:${choiceId}`;
+}
+
+/**
+ * Validate a material submitted from the admin
+ *
+ * @returns The input with a trimmed name and rounded quantities
+ * @throws MaterialError when the material is invalid
+ */
+export function validateMaterialInput(input: MaterialInput): MaterialInput {
+  const name = input.name?.trim() ?? "";
+  if (!name || name.length > MATERIAL_NAME_MAX_LENGTH) {
+    throw new MaterialError(
+      `Název materiálu je povinný a může mít nejvýše ${MATERIAL_NAME_MAX_LENGTH} znaků`,
+      "INVALID_MATERIAL"
+    );
+  }
+
+  if (!(MATERIAL_KINDS.includes(input.kind) && MATERIAL_UNITS.includes(input.unit))) {
+    throw new MaterialError("Neplatný druh nebo jednotka materiálu", "INVALID_MATERIAL");
+  }
+
+  const lowStockThreshold = input.lowStockThreshold ?? 0;
+  if (!(isQuantity(input.stockQuantity, true) && isQuantity(lowStockThreshold, true))) {
+    throw new MaterialError(
+      "Zásoba a práh upozornění musí být nezáporná čísla",
+      "INVALID_MATERIAL"
+    );
+  }
+
+  return {
+    name,
+    kind: input.kind,
+    unit: input.unit,
+    stockQuantity: roundQuantity(input.stockQuantity),
+    lowStockThreshold: roundQuantity(lowStockThreshold),
+  };
+}
+
+/**
+ * Validate the components of a choice submitted from the admin
+ *
+ * @returns The input with a trimmed choice ID and components merged per material
+ * @throws MaterialError when the recipe is invalid
+ */
+export function validateRecipeInput(input: MaterialRecipeInput): MaterialRecipeInput {
+  const choiceId = typeof input.choiceId === "string" ? input.choiceId.trim() : "";
+  if (!(isRecipeOptionType(input.optionType) && choiceId)) {
+    throw new MaterialError("Zvolte možnost květin nebo barvy stuhy", "INVALID_RECIPE");
+  }
+
+  if (!Array.isArray(input.components)) {
+    throw new MaterialError("Neplatné složení", "INVALID_RECIPE");
+  }
+
+  for (const component of input.components) {
+    if (!(typeof component?.materialId === "string" && isQuantity(component.quantity, false))) {
+      throw new MaterialError("Každá složka musí mít materiál a kladné množství", "INVALID_RECIPE");
+    }
+  }
+
+  return {
+    optionType: input.optionType,
+    choiceId,
+    components: sumRequirements(input.components),
+  };
+}
+
+/**
+ * Add up requirements of the same material
+ */
+export function sumRequirements(requirements: MaterialRequirement[]): MaterialRequirement[] {
+  const quantities = new Map<string, number>();
+
+  for (const requirement of requirements) {
+    quantities.set(
+      requirement.materialId,
+      (quantities.get(requirement.materialId) ?? 0) + requirement.quantity
+    );
+  }
+
+  return [...quantities].map(([materialId, quantity]) => ({
+    materialId,
+    quantity: roundQuantity(quantity),
+  }));
+}
+
+/**
+ * Materials an ordered item takes
+ * Option types come from the product snapshot taken at checkout; customizations of
+ * products without one fall back to the option ID ("flowers", "ribbon_color").
+ */
+export function getOrderItemMaterials(
+  item: Pick<OrderItem, "quantity" | "customizations" | "productSnapshot">,
+  recipes: MaterialRecipe[]
+): MaterialRequirement[] {
+  const options: CustomizationOption[] = item.productSnapshot?.customizationOptions ?? [];
+  const requirements: MaterialRequirement[] = [];
+
+  for (const customization of (item.customizations || []) as Customization[]) {
+    const optionType =
+      options.find((option) => option.id === customization.optionId)?.type ??
+      customization.optionId;
+    if (!isRecipeOptionType(optionType)) {
+      continue;
+    }
+
+    const choiceIds = customization.choiceIds || [];
+    for (const recipe of recipes) {
+      if (recipe.optionType === optionType && choiceIds.includes(recipe.choiceId)) {
+        requirements.push({
+          materialId: recipe.materialId,
+          quantity: recipe.quantity * item.quantity,
+        });
+      }
+    }
+  }
+
+  return sumRequirements(requirements);
+}
+
+/**
+ * Materials an order takes and the day it is due
+ */
+export function getOrderMaterialDemand(
+  order: Pick<Order, "items" | "deliveryInfo">,
+  recipes: MaterialRecipe[]
+): MaterialDemand {
+  const preferredDate = order.deliveryInfo.preferredDate
+    ? new Date(order.deliveryInfo.preferredDate)
+    : null;
+
+  return {
+    deliveryDate:
+      preferredDate && !Number.isNaN(preferredDate.getTime())
+        ? getDeliveryDateKey(preferredDate)
+        : null,
+    requirements: sumRequirements(
+      order.items.flatMap((item) => getOrderItemMaterials(item, recipes))
+    ),
+  };
+}
+
+/**
+ * Materials needed and shortages per delivery day
+ * Days are worked through in order, each one using up the stock left by the earlier days;
+ * orders without a preferred date come first.
+ */
+export function projectMaterialShortages(
+  demand: MaterialDemand[],
+  materials: Material[]
+): MaterialDayProjection[] {
+  const days = new Map<string | null, MaterialDemand[]>();
+  for (const entry of demand) {
+    days.set(entry.deliveryDate, [...(days.get(entry.deliveryDate) ?? []), entry]);
+  }
+
+  const remaining = new Map(materials.map((material) => [material.id, material.stockQuantity]));
+  const materialsById = new Map(materials.map((material) => [material.id, material]));
+
+  return [...days]
+    .sort(([a], [b]) => (a ?? "").localeCompare(b ?? ""))
+    .map(([deliveryDate, entries]) => {
+      const requirements = sumRequirements(entries.flatMap((entry) => entry.requirements));
+      const shortages: MaterialShortage[] = [];
+
+      for (const requirement of requirements) {
+        const material = materialsById.get(requirement.materialId);
+        if (!material) {
+          continue;
+        }
+
+        const available = remaining.get(material.id) ?? 0;
+        remaining.set(material.id, Math.max(available - requirement.quantity, 0));
+
+        if (requirement.quantity > available) {
+          shortages.push({
+            materialId: material.id,
+            materialName: material.name,
+            unit: material.unit,
+            required: requirement.quantity,
+            missing: roundQuantity(requirement.quantity - available),
+          });
+        }
+      }
+
+      return { deliveryDate, orderCount: entries.length, requirements, shortages };
+    });
+}
+
+/**
+ * Keys of the choices that cannot be built any more: one of their components has less stock
+ * left, after what open orders need, than a single wreath takes
+ */
+export function getUnavailableRecipeChoices(
+  recipes: MaterialRecipe[],
+  materials: Material[],
+  demand: MaterialDemand[]
+): Set<string> {
+  const free = new Map(materials.map((material) => [material.id, material.stockQuantity]));
+  for (const requirement of demand.flatMap((entry) => entry.requirements)) {
+    if (free.has(requirement.materialId)) {
+      free.set(
+        requirement.materialId,
+        (free.get(requirement.materialId) ?? 0) - requirement.quantity
+      );
+    }
+  }
+
+  const unavailable = new Set<string>();
+  for (const recipe of recipes) {
+    if ((free.get(recipe.materialId) ?? 0) < recipe.quantity) {
+      unavailable.add(getRecipeChoiceKey(recipe.optionType, recipe.choiceId));
+    }
+  }
+
+  return unavailable;
+}
+
+/**
+ * Availability of a recipe choice after a stock sync, or the choice itself when it stays
+ * Only choices the sync turned off are turned back on; a choice the admin made unavailable
+ * stays unavailable whatever the stock.
+ */
+function getStockedChoice(choice: CustomizationChoice, outOfStock: boolean): CustomizationChoice {
+  if (outOfStock) {
+    return choice.available === false
+      ? choice
+      : { ...choice, available: false, disabledByStock: true };
+  }
+
+  if (!choice.disabledByStock) {
+    return choice;
+  }
+
+  const { disabledByStock: _disabledByStock, ...restored } = choice;
+  return { ...restored, available: true };
+}
+
+/**
+ * Mark choices with a recipe available or unavailable
+ * Choices without a recipe keep the availability set on the product.
+ *
+ * @returns The updated options, or null when nothing changed
+ */
+export function applyRecipeChoiceAvailability(
+  options: CustomizationOption[],
+  recipeChoices: Set<string>,
+  unavailable: Set<string>
+): CustomizationOption[] | null {
+  let changed = false;
+
+  const updated = options.map((option) => {
+    if (!isRecipeOptionType(option.type)) {
+      return option;
+    }
+
+    return {
+      ...option,
+      choices: (option.choices || []).map((choice) => {
+        const key = getRecipeChoiceKey(option.type as RecipeOptionType, choice.id);
+        if (!recipeChoices.has(key)) {
+          return choice;
+        }
+
+        const stocked = getStockedChoice(choice, unavailable.has(key));
+        if (stocked !== choice) {
+          changed = true;
+        }
+        return stocked;
+      }),
+    };
+  });
+
+  return changed ? updated : null;
+}
@@ -0,0 +1,101 @@
+/**
+ * Stock reservations
+ * Turns a cart into the quantities to reserve per product and size, reads the tracked stock
+ * from a product's availability and describes products a checkout could not reserve.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { CartItem } from "@/types/cart";
+import type { ProductAvailability } from "@/types/product";
+
+export type StockReservationErrorCode = "OUT_OF_STOCK";
+
+/**
+ * A product the checkout wants more of than is left after other checkouts' holds
+ */
+export interface StockShortfall {
+  productId: string;
+  variantId?: string; // Set when the size's own stock is short
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+export class StockReservationError extends Error {
+  constructor(
+    message: string,
+    public code: StockReservationErrorCode,
+    public shortfalls: StockShortfall[] = []
+  ) {
+    super(message);
+    this.name = "StockReservationError";
+  }
+}
+
+/**
+ * Quantity of one product (and size) held by a checkout session
+ */
+export interface StockReservationItem {
+  productId: string;
+  variantId?: string;
+  quantity: number;
+}
+
+// Low stock alert threshold for products without their own (keep in sync with the
+// create_stock_threshold_alerts() trigger)
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+/**
+ * Quantities to reserve per product and size; the same size in several cart lines (different
+ * customizations) draws from one stock
+ */
+export function getStockReservationItems(
+  cartItems: Pick<CartItem, "productId" | "variantId" | "quantity">[]
+): StockReservationItem[] {
+  const items = new Map<string, StockReservationItem>();
+
+  for (const item of cartItems) {
+    if (item.quantity <= 0) {
+      continue;
+    }
+
+    const key = `${item.productId}:${item.variantId ?? ""}`;
+    const existing = items.get(key);
+
+    items.set(key, {
+      productId: item.productId,
+      ...(item.variantId && { variantId: item.variantId }),
+      quantity: (existing?.quantity ?? 0) + item.quantity,
+    });
+  }
+
+  return [...items.values()];
+}
+
+/**
+ * Stock on hand of a product whose inventory is tracked
+ *
+ * @returns The quantity, or null for made-to-order products that never run out
+ */
+export function getTrackedStockQuantity(
+  availability: Partial<ProductAvailability> | null | undefined
+): number | null {
+  if (!availability || availability.trackInventory === false) {
+    return null;
+  }
+
+  return typeof availability.stockQuantity === "number" ? availability.stockQuantity : null;
+}
+
+/**
+ * Customer-facing message listing what is no longer in stock
+ */
+export function formatStockShortfallMessage(shortfalls: StockShortfall[]): string {
+  const details = shortfalls.map((shortfall) =>
+    shortfall.available > 0
+      ? `${shortfall.productName} (skladem zbývá ${shortfall.available} ks)`
+      : `${shortfall.productName} (vyprodáno)`
+  );
+
+  return `Některé produkty již nejsou skladem v požadovaném množství: ${details.join(", ")}`;
+}
@@ -0,0 +1,110 @@
+/**
+ * Tests for purchaser order notifications
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  buildOrderStatusSms,
+  getOrderNotificationChannels,
+  isValidDeliveryPhotoUrl,
+  normalizeSmsPhoneNumber,
+  type OrderSmsOrder,
+} from "../order-notifications";
+
+const contact = { email: "jana@example.cz", phone: "602 123 456" };
+
+const order: OrderSmsOrder = {
+  orderNumber: "2025-00042",
+  deliveryMethod: "delivery",
+  deliveryInfo: {
+    address: { street: "Vinohradská 2270", city: "Praha", postalCode: "10000", country: "CZ" },
+    urgency: "standard",
+    recipientName: "Marie Nováková",
+  },
+};
+
+describe("getOrderNotificationChannels", () => {
+  it("emails guests about every announced status but never texts them", () => {
+    expect(getOrderNotificationChannels("processing", null, contact)).toEqual(["email"]);
+    expect(getOrderNotificationChannels("pending", null, contact)).toEqual([]);
+  });
+
+  it("texts purchasers who opted in to SMS and order updates", () => {
+    const preferences = { email: true, sms: true, orderUpdates: true };
+
+    expect(getOrderNotificationChannels("shipped", preferences, contact)).toEqual(["email", "sms"]);
+    expect(getOrderNotificationChannels("cancelled", preferences, contact)).toEqual(["email"]);
+    expect(getOrderNotificationChannels("shipped", preferences, { email: "" })).toEqual([]);
+  });
+
+  it("texts opted-in purchasers when a paid order is confirmed", () => {
+    const preferences = { email: true, sms: true, orderUpdates: true };
+
+    expect(getOrderNotificationChannels("confirmed", preferences, contact)).toEqual([
+      "email",
+      "sms",
+    ]);
+    expect(getOrderNotificationChannels("confirmed", null, contact)).toEqual(["email"]);
+  });
+
+  it("keeps only transactional emails when order updates are turned off", () => {
+    const preferences = { email: true, sms: true, orderUpdates: false };
+
+    expect(getOrderNotificationChannels("confirmed", preferences, contact)).toEqual(["email"]);
+    expect(getOrderNotificationChannels("delivered", preferences, contact)).toEqual([]);
+  });
+});
+
+describe("normalizeSmsPhoneNumber", () => {
+  it("normalizes Czech and international numbers to E.164", () => {
+    expect(normalizeSmsPhoneNumber("602 123 456")).toBe("+420602123456");
+    expect(normalizeSmsPhoneNumber("00421 905-123-456")).toBe("+421905123456");
+    expect(normalizeSmsPhoneNumber("12345")).toBeNull();
+    expect(normalizeSmsPhoneNumber(undefined)).toBeNull();
+  });
+});
+
+describe("isValidDeliveryPhotoUrl", () => {
+  it("accepts https links only", () => {
+    expect(isValidDeliveryPhotoUrl("https://photos.example.cz/2025-00042.jpg")).toBe(true);
+    expect(isValidDeliveryPhotoUrl("http://photos.example.cz/2025-00042.jpg")).toBe(false);
+    expect(isValidDeliveryPhotoUrl("javascript:alert(1)")).toBe(false);
+    expect(isValidDeliveryPhotoUrl(42)).toBe(false);
+  });
+});
+
+describe("buildOrderStatusSms", () => {
+  it("names the recipient and links the photo without diacritics", () => {
+    const sms = buildOrderStatusSms(
+      { ...order, deliveryPhotoUrl: "https://photos.example.cz/2025-00042.jpg" },
+      "delivered"
+    );
+
+    expect(sms).toBe(
+      "Objednavka 2025-00042 byla dorucena (prijemce: Marie Novakova). Foto: https://photos.example.cz/2025-00042.jpg"
+    );
+  });
+
+  it("mentions the ceremony for funeral orders", () => {
+    const funeralOrder: OrderSmsOrder = {
+      ...order,
+      deliveryInfo: {
+        ...order.deliveryInfo,
+        funeral: {
+          deceasedName: "Jan Novák",
+          venueType: "ceremony_hall",
+          ceremonyStart: new Date("2025-03-14T10:00:00Z"),
+        },
+      },
+    };
+
+    expect(buildOrderStatusSms(funeralOrder, "shipped", "en")).toBe(
+      "Order 2025-00042 is out for delivery to the ceremony."
+    );
+    expect(buildOrderStatusSms(funeralOrder, "confirmed")).toContain("pred obradem");
+  });
+
+  it("has no SMS for statuses that are not announced by SMS", () => {
+    expect(buildOrderStatusSms(order, "cancelled")).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for notification outbox retries and idempotency
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  getOrderEmailType,
+  getOutboxClaimUpdate,
+  getOutboxFailureUpdate,
+  getOutboxIdempotencyKey,
+  getOutboxSentUpdate,
+  getRetryDelayMs,
+} from "../outbox";
+
+const MINUTE = 60 * 1000;
+const now = new Date("2025-03-14T10:00:00.000Z");
+
+describe("getRetryDelayMs", () => {
+  it("backs off 1, 5, 15 and 60 minutes, then stays hourly", () => {
+    expect([1, 2, 3, 4, 5, 9].map(getRetryDelayMs)).toEqual([
+      1 * MINUTE,
+      5 * MINUTE,
+      15 * MINUTE,
+      60 * MINUTE,
+      60 * MINUTE,
+      60 * MINUTE,
+    ]);
+  });
+
+  it("treats entries without attempts as the first attempt", () => {
+    expect(getRetryDelayMs(0)).toBe(MINUTE);
+  });
+});
+
+describe("getOutboxIdempotencyKey", () => {
+  it("keys entries by order and status", () => {
+    expect(getOutboxIdempotencyKey("order-1", "confirmed")).toBe("order-1:confirmed");
+    expect(getOutboxIdempotencyKey("order-1", "confirmed")).toBe(
+      getOutboxIdempotencyKey("order-1", "confirmed")
+    );
+    expect(getOutboxIdempotencyKey("order-1", "shipped")).not.toBe(
+      getOutboxIdempotencyKey("order-1", "confirmed")
+    );
+  });
+});
+
+describe("getOrderEmailType", () => {
+  it("confirms new orders and updates later statuses", () => {
+    expect(getOrderEmailType("confirmed")).toBe("order_confirmation");
+    expect(getOrderEmailType("shipped")).toBe("order_status_update");
+  });
+});
+
+describe("outbox transitions", () => {
+  it("counts the attempt when an entry is claimed", () => {
+    expect(getOutboxClaimUpdate({ attempts: 2, max_attempts: 5 }, now)).toEqual({
+      status: "sending",
+      locked_at: now.toISOString(),
+      attempts: 3,
+    });
+  });
+
+  it("puts failed attempts back with a backoff", () => {
+    expect(getOutboxFailureUpdate({ attempts: 2, max_attempts: 5 }, "timeout", now)).toEqual({
+      status: "pending",
+      last_error: "timeout",
+      locked_at: null,
+      next_attempt_at: new Date(now.getTime() + 5 * MINUTE).toISOString(),
+    });
+  });
+
+  it("gives up once the last attempt fails", () => {
+    expect(getOutboxFailureUpdate({ attempts: 5, max_attempts: 5 }, "bounced", now).status).toBe(
+      "failed"
+    );
+  });
+
+  it("marks sent entries and clears the lock and error", () => {
+    expect(getOutboxSentUpdate(now)).toEqual({
+      status: "sent",
+      sent_at: now.toISOString(),
+      last_error: null,
+      locked_at: null,
+    });
+  });
+});
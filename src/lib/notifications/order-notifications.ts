@@ -0,0 +1,183 @@
+/**
+ * Order notifications
+ * Decides which channels announce an order status to the purchaser and renders the SMS text.
+ * Order confirmations and cancellations are transactional and always emailed; progress
+ * updates follow the purchaser's notification preferences.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { Order, OrderStatus } from "@/types/order";
+import type { UserPreferences } from "@/types/user";
+import { formatCeremonyStart } from "../delivery/funeral";
+
+export type OrderNotificationChannel = "email" | "sms";
+
+export type OrderNotificationPreferences = Partial<UserPreferences["notifications"]>;
+
+export interface OrderNotificationContact {
+  email?: string | undefined;
+  phone?: string | undefined;
+}
+
+export type OrderSmsOrder = Pick<
+  Order,
+  "orderNumber" | "deliveryInfo" | "deliveryMethod" | "deliveryPhotoUrl"
+>;
+
+// Emails sent whatever the preferences say (the purchaser needs them for the purchase itself)
+const TRANSACTIONAL_EMAIL_STATUSES: readonly OrderStatus[] = ["confirmed", "cancelled"];
+
+// Progress updates: confirmed, being prepared, out for delivery, delivered
+export const SMS_NOTIFYING_STATUSES: readonly OrderStatus[] = [
+  "confirmed",
+  "processing",
+  "shipped",
+  "delivered",
+];
+
+export const DELIVERY_PHOTO_URL_MAX_LENGTH = 2048;
+
+/**
+ * Channels that announce a status change to the purchaser.
+ * Guests have no stored preferences and get email updates only (SMS is opt-in).
+ */
+export function getOrderNotificationChannels(
+  status: OrderStatus,
+  preferences: OrderNotificationPreferences | null | undefined,
+  contact: OrderNotificationContact
+): OrderNotificationChannel[] {
+  const channels: OrderNotificationChannel[] = [];
+  const wantsUpdates = preferences?.orderUpdates !== false;
+
+  if (status === "pending") {
+    return channels;
+  }
+
+  if (
+    contact.email &&
+    (TRANSACTIONAL_EMAIL_STATUSES.includes(status) ||
+      (wantsUpdates && preferences?.email !== false))
+  ) {
+    channels.push("email");
+  }
+
+  if (
+    SMS_NOTIFYING_STATUSES.includes(status) &&
+    wantsUpdates &&
+    preferences?.sms === true &&
+    normalizeSmsPhoneNumber(contact.phone)
+  ) {
+    channels.push("sms");
+  }
+
+  return channels;
+}
+
+/**
+ * Normalize a phone number to E.164, assuming a Czech number when no prefix is given
+ *
+ * @returns The normalized number, or null when it cannot be an SMS recipient
+ */
+export function normalizeSmsPhoneNumber(phone: string | null | undefined): string | null {
+  const compact = (phone || "").replace(/[\s\-().]/g, "").replace(/^00/, "+");
+
+  if (/^[0-9]{9}$/.test(compact)) {
+    return `+420${compact}`;
+  }
+
+  return /^\+[1-9][0-9]{7,14}$/.test(compact) ? compact : null;
+}
+
+/**
+ * Check a delivery photo link (https only, it ends up in customer emails and SMS)
+ */
+export function isValidDeliveryPhotoUrl(url: unknown): url is string {
+  if (typeof url !== "string" || url.length > DELIVERY_PHOTO_URL_MAX_LENGTH) {
+    return false;
+  }
+
+  try {
+    return new URL(url).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Strip diacritics so the message fits the GSM 7-bit alphabet (160 characters per part
+ * instead of 70)
+ */
+export function toGsmText(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+function getConfirmedSms(order: OrderSmsOrder, isCs: boolean): string {
+  const { funeral } = order.deliveryInfo;
+
+  if (!funeral) {
+    return isCs
+      ? `Objednávka ${order.orderNumber} je potvrzena.`
+      : `Order ${order.orderNumber} is confirmed.`;
+  }
+
+  const ceremonyStart = formatCeremonyStart(funeral.ceremonyStart, isCs ? "cs" : "en");
+  return isCs
+    ? `Objednávka ${order.orderNumber} je potvrzena. Doručíme před obřadem ${ceremonyStart}.`
+    : `Order ${order.orderNumber} is confirmed. We will deliver before the ceremony on ${ceremonyStart}.`;
+}
+
+function getDeliveredSms(order: OrderSmsOrder, isCs: boolean): string {
+  if (order.deliveryMethod === "pickup") {
+    return isCs
+      ? `Objednávka ${order.orderNumber} byla vyzvednuta.`
+      : `Order ${order.orderNumber} has been picked up.`;
+  }
+
+  const { recipientName } = order.deliveryInfo;
+  const delivered = isCs
+    ? `Objednávka ${order.orderNumber} byla doručena`
+    : `Order ${order.orderNumber} has been delivered`;
+  const recipient =
+    recipientName && (isCs ? ` (příjemce: ${recipientName})` : ` to ${recipientName}`);
+  const photo = order.deliveryPhotoUrl && ` ${isCs ? "Foto" : "Photo"}: ${order.deliveryPhotoUrl}`;
+
+  return `${delivered}${recipient || ""}.${photo || ""}`;
+}
+
+/**
+ * Render the SMS for an order status
+ *
+ * @returns The message, or null when the status is not announced by SMS
+ */
+export function buildOrderStatusSms(
+  order: OrderSmsOrder,
+  status: OrderStatus,
+  locale: "cs" | "en" = "cs"
+): string | null {
+  const isCs = locale === "cs";
+  const toCeremony = order.deliveryInfo.funeral !== undefined;
+  let message: string;
+
+  switch (status) {
+    case "confirmed":
+      message = getConfirmedSms(order, isCs);
+      break;
+    case "processing":
+      message = isCs
+        ? `Objednávku ${order.orderNumber} právě připravujeme.`
+        : `Order ${order.orderNumber} is being prepared.`;
+      break;
+    case "shipped":
+      message = isCs
+        ? `Objednávka ${order.orderNumber} je na cestě${toCeremony ? " na místo obřadu" : ""}.`
+        : `Order ${order.orderNumber} is out for delivery${toCeremony ? " to the ceremony" : ""}.`;
+      break;
+    case "delivered":
+      message = getDeliveredSms(order, isCs);
+      break;
+    default:
+      return null;
+  }
+
+  return toGsmText(message);
+}
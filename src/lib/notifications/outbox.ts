@@ -0,0 +1,79 @@
+/**
+ * Notification outbox
+ * State transitions shared by the email and SMS outboxes: entries are claimed for sending,
+ * then either marked sent or put back with a backoff until their attempts run out.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { OrderStatus } from "@/types/order";
+
+export type OrderEmailType = "order_confirmation" | "order_status_update";
+
+export type OutboxStatus = "pending" | "sending" | "sent" | "failed";
+
+/**
+ * Attempt counters of an outbox entry
+ */
+export interface OutboxEntryAttempts {
+  attempts: number;
+  max_attempts: number;
+}
+
+// Retry delays: 1, 5, 15, 60 minutes, then hourly until max_attempts
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+
+/**
+ * Confirmed orders get the full confirmation, later statuses a short update
+ */
+export function getOrderEmailType(status: OrderStatus): OrderEmailType {
+  return status === "confirmed" ? "order_confirmation" : "order_status_update";
+}
+
+export function getOutboxIdempotencyKey(orderId: string, status: OrderStatus): string {
+  return `${orderId}:${status}`;
+}
+
+/**
+ * Delay before the next delivery attempt (attempts already made, starting at 1)
+ */
+export function getRetryDelayMs(attempts: number): number {
+  const index = Math.min(Math.max(attempts, 1), RETRY_DELAYS_MINUTES.length) - 1;
+  return (RETRY_DELAYS_MINUTES[index] ?? 60) * 60 * 1000;
+}
+
+/**
+ * Update that claims a pending entry; the attempt is counted when it is claimed
+ */
+export function getOutboxClaimUpdate(entry: OutboxEntryAttempts, now: Date) {
+  return {
+    status: "sending" as const,
+    locked_at: now.toISOString(),
+    attempts: entry.attempts + 1,
+  };
+}
+
+/**
+ * Update after a failed attempt: retry later, or give up once max_attempts is reached
+ */
+export function getOutboxFailureUpdate(entry: OutboxEntryAttempts, error: string, now: Date) {
+  const status: OutboxStatus = entry.attempts >= entry.max_attempts ? "failed" : "pending";
+
+  return {
+    status,
+    last_error: error,
+    locked_at: null,
+    next_attempt_at: new Date(now.getTime() + getRetryDelayMs(entry.attempts)).toISOString(),
+  };
+}
+
+/**
+ * Update after a successful attempt
+ */
+export function getOutboxSentUpdate(now: Date) {
+  return {
+    status: "sent" as const,
+    sent_at: now.toISOString(),
+    last_error: null,
+    locked_at: null,
+  };
+}
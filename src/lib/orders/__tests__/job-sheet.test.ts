@@ -0,0 +1,151 @@
+/**
+ * Tests for florist job sheets
+ */
+
+import { describe, expect, it } from "vitest";
+import type { Order, OrderItem } from "@/types/order";
+import {
+  buildJobSheet,
+  getDeliveryDateSearchRange,
+  type JobSheet,
+  sortJobSheets,
+} from "../job-sheet";
+
+const snapshot = {
+  customizationOptions: [
+    {
+      id: "size",
+      type: "size",
+      name: { cs: "Velikost", en: "Size" },
+      choices: [{ id: "size_120", label: { cs: "120 cm", en: "120 cm" } }],
+    },
+    {
+      id: "ribbon",
+      type: "ribbon",
+      name: { cs: "Stuha", en: "Ribbon" },
+      choices: [
+        { id: "ribbon_yes", label: { cs: "Ano", en: "Yes" } },
+        { id: "ribbon_no", label: { cs: "Ne", en: "No" } },
+      ],
+    },
+    {
+      id: "ribbon_color",
+      type: "ribbon_color",
+      name: { cs: "Barva stuhy", en: "Ribbon color" },
+      choices: [{ id: "color_black", label: { cs: "Černá", en: "Black" } }],
+    },
+    {
+      id: "ribbon_text",
+      type: "ribbon_text",
+      name: { cs: "Text stuhy", en: "Ribbon text" },
+      choices: [{ id: "text_custom", label: { cs: "Vlastní text", en: "Custom text" } }],
+    },
+  ],
+};
+
+const item = (customizations: OrderItem["customizations"]): OrderItem => ({
+  id: "item-1",
+  productId: "product-1",
+  productName: "Smuteční věnec",
+  productSlug: "smutecni-venec",
+  quantity: 1,
+  unitPrice: 2500,
+  totalPrice: 2500,
+  customizations,
+  productSnapshot: snapshot,
+});
+
+const order = (items: OrderItem[], preferredDate = "2025-01-19T23:00:00.000Z") =>
+  ({
+    id: "order-1",
+    orderNumber: "2025-00042",
+    items,
+    customerInfo: { firstName: "Jana", lastName: "Nováková", phone: "+420777123456" },
+    deliveryInfo: {
+      address: { street: "Hlavní 1", city: "Praha", postalCode: "11000", country: "CZ" },
+      preferredDate,
+      preferredTimeSlot: "morning",
+    },
+    deliveryMethod: "delivery",
+  }) as unknown as Order;
+
+const sheet = (overrides: Partial<JobSheet>): JobSheet => ({
+  ...buildJobSheet(order([])),
+  ...overrides,
+});
+
+describe("getDeliveryDateSearchRange", () => {
+  it("covers the whole Czech day", () => {
+    expect(getDeliveryDateSearchRange("2025-01-20")).toEqual({
+      from: "2025-01-19T20:00:00.000Z",
+      to: "2025-01-21T00:00:00.000Z",
+    });
+  });
+
+  it("rejects malformed and impossible dates", () => {
+    expect(getDeliveryDateSearchRange("20.1.2025")).toBeNull();
+    expect(getDeliveryDateSearchRange("2025-02-30")).toBeNull();
+  });
+});
+
+describe("buildJobSheet", () => {
+  it("resolves labels and keeps the ribbon text as typed", () => {
+    const result = buildJobSheet(
+      order([
+        item([
+          { optionId: "size", choiceIds: ["size_120"] },
+          { optionId: "ribbon", choiceIds: ["ribbon_yes"] },
+          { optionId: "ribbon_color", choiceIds: ["color_black"] },
+          {
+            optionId: "ribbon_text",
+            choiceIds: ["text_custom"],
+            customValue: "  Poslední sbohem\nrodina ",
+          },
+        ]),
+      ])
+    );
+
+    expect(result.deliveryDate).toBe("2025-01-20");
+    expect(result.customerName).toBe("Jana Nováková");
+    expect(result.location).toEqual(["Hlavní 1", "11000 Praha"]);
+    expect(result.items[0]).toMatchObject({
+      size: "120 cm",
+      ribbon: { color: "Černá", text: "Poslední sbohem\nrodina" },
+    });
+  });
+
+  it("leaves out the ribbon when the customer declined it", () => {
+    const result = buildJobSheet(
+      order([
+        item([
+          { optionId: "ribbon", choiceIds: ["ribbon_no"] },
+          { optionId: "ribbon_color", choiceIds: ["color_black"] },
+        ]),
+      ])
+    );
+
+    expect(result.items[0]?.ribbon).toBeNull();
+  });
+
+  it("tolerates a missing or invalid preferred date", () => {
+    expect(buildJobSheet(order([], "not a date")).deliveryDate).toBeNull();
+  });
+});
+
+describe("sortJobSheets", () => {
+  it("orders by day, time slot and order number", () => {
+    const sorted = sortJobSheets([
+      sheet({ orderNumber: "2025-00003", deliveryDate: "2025-01-21", timeSlot: "morning" }),
+      sheet({ orderNumber: "2025-00002", deliveryDate: "2025-01-20", timeSlot: null }),
+      sheet({ orderNumber: "2025-00005", deliveryDate: "2025-01-20", timeSlot: "afternoon" }),
+      sheet({ orderNumber: "2025-00004", deliveryDate: "2025-01-20", timeSlot: "afternoon" }),
+    ]);
+
+    expect(sorted.map((entry) => entry.orderNumber)).toEqual([
+      "2025-00004",
+      "2025-00005",
+      "2025-00002",
+      "2025-00003",
+    ]);
+  });
+});
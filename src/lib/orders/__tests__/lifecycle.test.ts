@@ -0,0 +1,114 @@
+/**
+ * Tests for the order lifecycle state machine
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  assertOrderStatusTransition,
+  checkOrderStatusTransition,
+  getAllowedNextStatuses,
+  isOrderStatus,
+  OrderStatusTransitionError,
+} from "../lifecycle";
+
+describe("checkOrderStatusTransition", () => {
+  it("should allow the happy path for a paid delivery order", () => {
+    const paid = { paymentStatus: "completed" as const, deliveryMethod: "delivery" as const };
+
+    expect(checkOrderStatusTransition({ ...paid, status: "pending" }, "confirmed").allowed).toBe(
+      true
+    );
+    expect(checkOrderStatusTransition({ ...paid, status: "confirmed" }, "processing").allowed).toBe(
+      true
+    );
+    expect(checkOrderStatusTransition({ ...paid, status: "processing" }, "shipped").allowed).toBe(
+      true
+    );
+    expect(checkOrderStatusTransition({ ...paid, status: "shipped" }, "delivered").allowed).toBe(
+      true
+    );
+  });
+
+  it("should reject moving a delivered order back to pending", () => {
+    const result = checkOrderStatusTransition(
+      { status: "delivered", paymentStatus: "completed" },
+      "pending"
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.code).toBe("TERMINAL_STATUS");
+  });
+
+  it("should reject reviving a cancelled order", () => {
+    const result = checkOrderStatusTransition({ status: "cancelled" }, "shipped");
+
+    expect(result.allowed).toBe(false);
+    expect(result.code).toBe("TERMINAL_STATUS");
+  });
+
+  it("should reject skipping steps", () => {
+    const result = checkOrderStatusTransition(
+      { status: "pending", paymentStatus: "completed" },
+      "shipped"
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.code).toBe("ILLEGAL_TRANSITION");
+  });
+
+  it("should not ship an unpaid order", () => {
+    const result = checkOrderStatusTransition(
+      { status: "processing", paymentStatus: "pending", deliveryMethod: "delivery" },
+      "shipped"
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.code).toBe("PAYMENT_REQUIRED");
+  });
+
+  it("should hand over pickup orders without shipping", () => {
+    const pickup = { paymentStatus: "completed" as const, deliveryMethod: "pickup" as const };
+
+    expect(checkOrderStatusTransition({ ...pickup, status: "processing" }, "shipped").code).toBe(
+      "DELIVERY_METHOD_MISMATCH"
+    );
+    expect(
+      checkOrderStatusTransition({ ...pickup, status: "processing" }, "delivered").allowed
+    ).toBe(true);
+  });
+
+  it("should require delivery orders to be shipped before delivery", () => {
+    const result = checkOrderStatusTransition(
+      { status: "processing", paymentStatus: "completed", deliveryMethod: "delivery" },
+      "delivered"
+    );
+
+    expect(result.allowed).toBe(false);
+    expect(result.code).toBe("DELIVERY_METHOD_MISMATCH");
+  });
+});
+
+describe("assertOrderStatusTransition", () => {
+  it("should throw OrderStatusTransitionError for unknown statuses", () => {
+    expect(() => assertOrderStatusTransition({ status: "pending" }, "abandoned")).toThrow(
+      OrderStatusTransitionError
+    );
+  });
+
+  it("should not throw for legal transitions", () => {
+    expect(() => assertOrderStatusTransition({ status: "pending" }, "cancelled")).not.toThrow();
+  });
+});
+
+describe("helpers", () => {
+  it("should list allowed next statuses", () => {
+    expect(getAllowedNextStatuses("pending")).toEqual(["confirmed", "cancelled"]);
+    expect(getAllowedNextStatuses("delivered")).toEqual([]);
+  });
+
+  it("should recognise valid statuses", () => {
+    expect(isOrderStatus("shipped")).toBe(true);
+    expect(isOrderStatus("abandoned")).toBe(false);
+    expect(isOrderStatus(undefined)).toBe(false);
+  });
+});
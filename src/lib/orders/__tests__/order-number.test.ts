@@ -0,0 +1,25 @@
+/**
+ * Tests for order number search
+ */
+
+import { describe, expect, it } from "vitest";
+import { MAX_ORDER_SEARCH_LENGTH, normalizeOrderSearchTerm } from "../order-number";
+
+describe("normalizeOrderSearchTerm", () => {
+  it("accepts order numbers as displayed", () => {
+    expect(normalizeOrderSearchTerm("  #2025-00042 ")).toBe("2025-00042");
+  });
+
+  it("strips filter syntax", () => {
+    expect(normalizeOrderSearchTerm('a,b(c)*%_\\"d')).toBe("abcd");
+  });
+
+  it("returns an empty string for missing or meaningless input", () => {
+    expect(normalizeOrderSearchTerm(null)).toBe("");
+    expect(normalizeOrderSearchTerm(" # ")).toBe("");
+  });
+
+  it("limits the length", () => {
+    expect(normalizeOrderSearchTerm("9".repeat(500))).toHaveLength(MAX_ORDER_SEARCH_LENGTH);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for order refund rules
+ */
+
+import { describe, expect, it } from "vitest";
+import type { OrderItem, RefundRecord } from "@/types/order";
+import {
+  assertRefundAmount,
+  calculateItemRefund,
+  getPaymentStatusAfterRefunds,
+  getRefundableAmount,
+  mergeRefundRecord,
+  RefundError,
+} from "../refunds";
+
+const orderItems = [
+  { id: "item-1", productName: "Věnec", quantity: 2, unitPrice: 1500, totalPrice: 3000 },
+  { id: "item-2", productName: "Kytice", quantity: 1, unitPrice: 800, totalPrice: 800 },
+] as OrderItem[];
+
+const refund = (overrides: Partial<RefundRecord> = {}): RefundRecord => ({
+  id: "re_1",
+  amount: 1500,
+  currency: "czk",
+  status: "succeeded",
+  source: "admin",
+  createdAt: "2025-01-15T10:00:00.000Z",
+  ...overrides,
+});
+
+describe("getRefundableAmount", () => {
+  it("should ignore failed and canceled refunds", () => {
+    const refunds = [refund(), refund({ id: "re_2", amount: 500, status: "failed" })];
+
+    expect(getRefundableAmount(3800, refunds)).toBe(2300);
+  });
+});
+
+describe("assertRefundAmount", () => {
+  it("should reject amounts above what is left on the payment", () => {
+    expect(() => assertRefundAmount(2400, 3800, [refund()])).toThrow(RefundError);
+    expect(() => assertRefundAmount(2300, 3800, [refund()])).not.toThrow();
+    expect(() => assertRefundAmount(0, 3800)).toThrow(RefundError);
+  });
+});
+
+describe("calculateItemRefund", () => {
+  it("should refund selected quantities at unit price", () => {
+    const result = calculateItemRefund(
+      orderItems,
+      [
+        { orderItemId: "item-1", quantity: 1 },
+        { orderItemId: "item-2", quantity: 1 },
+      ],
+      3800
+    );
+
+    expect(result.amount).toBe(2300);
+    expect(result.items).toHaveLength(2);
+  });
+
+  it("should not refund the same item quantity twice", () => {
+    const earlier = refund({ items: [{ orderItemId: "item-1", quantity: 2, amount: 3000 }] });
+
+    expect(() =>
+      calculateItemRefund(orderItems, [{ orderItemId: "item-1", quantity: 1 }], 3800, [earlier])
+    ).toThrow(RefundError);
+  });
+
+  it("should cap the amount at the refundable remainder of a discounted order", () => {
+    const result = calculateItemRefund(
+      orderItems,
+      [
+        { orderItemId: "item-1", quantity: 2 },
+        { orderItemId: "item-2", quantity: 1 },
+      ],
+      3420
+    );
+
+    expect(result.amount).toBe(3420);
+  });
+});
+
+describe("mergeRefundRecord", () => {
+  it("should keep admin details when the webhook reports the same refund", () => {
+    const adminRefund = refund({ status: "pending", reason: "Poškozeno", createdBy: "admin-1" });
+    const merged = mergeRefundRecord([adminRefund], refund({ source: "stripe" }));
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({
+      status: "succeeded",
+      source: "admin",
+      reason: "Poškozeno",
+      createdBy: "admin-1",
+    });
+  });
+});
+
+describe("getPaymentStatusAfterRefunds", () => {
+  it("should mark fully refunded payments as refunded", () => {
+    expect(getPaymentStatusAfterRefunds(1500, [refund()], "completed")).toBe("refunded");
+    expect(getPaymentStatusAfterRefunds(3800, [refund()], "completed")).toBe("completed");
+  });
+});
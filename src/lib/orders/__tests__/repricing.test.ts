@@ -0,0 +1,72 @@
+/**
+ * Tests for order repricing rules
+ */
+
+import { describe, expect, it } from "vitest";
+import type { CartItem } from "@/types/cart";
+import {
+  calculateOrderSubtotal,
+  detectPriceChanges,
+  OrderPricingError,
+  type RepricedOrderItem,
+  validateOrderItemQuantity,
+} from "../repricing";
+
+const cartItem = (overrides: Partial<CartItem> = {}): CartItem =>
+  ({
+    id: "cart-1",
+    productId: "wreath",
+    quantity: 2,
+    customizations: [],
+    unitPrice: 1500,
+    totalPrice: 3000,
+    ...overrides,
+  }) as CartItem;
+
+const repriced = (item: CartItem, unitPrice: number): RepricedOrderItem => ({
+  item,
+  productName: "Věnec",
+  productSlug: "venec",
+  unitPrice,
+  totalPrice: unitPrice * item.quantity,
+});
+
+describe("detectPriceChanges", () => {
+  it("accepts lines submitted at the current price", () => {
+    expect(detectPriceChanges([repriced(cartItem(), 1500)])).toEqual([]);
+  });
+
+  it("reports how much a line moved", () => {
+    expect(detectPriceChanges([repriced(cartItem({ unitPrice: 1 }), 1500)])).toEqual([
+      {
+        cartItemId: "cart-1",
+        productId: "wreath",
+        productName: "Věnec",
+        quantity: 2,
+        submittedUnitPrice: 1,
+        currentUnitPrice: 1500,
+        unitPriceDifference: 1499,
+        totalPriceDifference: 2998,
+      },
+    ]);
+  });
+
+  it("treats a line without a submitted price as changed", () => {
+    const { unitPrice: _unitPrice, ...item } = cartItem();
+    const [change] = detectPriceChanges([repriced(item as CartItem, 1500)]);
+    expect(change?.submittedUnitPrice).toBe(0);
+  });
+});
+
+describe("calculateOrderSubtotal", () => {
+  it("sums the server line totals", () => {
+    const items = [repriced(cartItem(), 1500), repriced(cartItem({ quantity: 1 }), 799.9)];
+    expect(calculateOrderSubtotal(items)).toBe(3799.9);
+  });
+});
+
+describe("validateOrderItemQuantity", () => {
+  it.each([0, -1, 1.5])("rejects quantity %s", (quantity) => {
+    expect(() => validateOrderItemQuantity(cartItem({ quantity }))).toThrow(OrderPricingError);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Job sheet PDF layout
+ * Prints job sheets on A4 pages, one order per page (longer orders continue on the next page),
+ * with the ribbon text set large so it can be transcribed without mistakes.
+ * Server-only (builds PDF buffers).
+ */
+
+import { formatCeremonyStart, formatFuneralVenue } from "@/lib/delivery/funeral";
+import {
+  A4_SIZE,
+  createPdfDocument,
+  type PdfFont,
+  type PdfPage,
+  wrapPdfText,
+} from "@/lib/utils/pdf";
+import {
+  formatJobSheetDate,
+  JOB_SHEET_TIME_SLOT_LABELS,
+  type JobSheet,
+  type JobSheetItem,
+} from "./job-sheet";
+
+const MARGIN = 40;
+const FOOTER_HEIGHT = 30;
+const CONTENT_WIDTH = A4_SIZE.width - 2 * MARGIN;
+const LABEL_WIDTH = 120;
+const BODY_SIZE = 11;
+const RIBBON_TEXT_SIZE = 24;
+const LABEL_GRAY = 0.4;
+
+interface Layout {
+  pages: PdfPage[];
+  page: PdfPage;
+  y: number;
+  // Repeated at the top of continuation pages
+  runningTitle: string | null;
+}
+
+function createLayout(): Layout {
+  const page: PdfPage = { items: [] };
+  return { pages: [page], page, y: MARGIN, runningTitle: null };
+}
+
+function startPage(layout: Layout, runningTitle: string | null = null) {
+  if (layout.page.items.length > 0) {
+    layout.page = { items: [] };
+    layout.pages.push(layout.page);
+  }
+  layout.y = MARGIN;
+  layout.runningTitle = runningTitle;
+}
+
+function ensureSpace(layout: Layout, height: number) {
+  if (layout.y + height <= A4_SIZE.height - MARGIN - FOOTER_HEIGHT) {
+    return;
+  }
+
+  const { runningTitle } = layout;
+  startPage(layout, runningTitle);
+  if (runningTitle) {
+    addText(layout, `${runningTitle} (pokračování)`, { size: 9, gray: LABEL_GRAY });
+    layout.y += 6;
+  }
+}
+
+function addText(
+  layout: Layout,
+  text: string,
+  options: { size?: number; font?: PdfFont; x?: number; width?: number; gray?: number } = {}
+) {
+  const size = options.size ?? BODY_SIZE;
+  const x = options.x ?? MARGIN;
+  const lineHeight = size * 1.3;
+
+  for (const line of wrapPdfText(
+    text,
+    size,
+    options.width ?? CONTENT_WIDTH - (x - MARGIN),
+    options.font
+  )) {
+    ensureSpace(layout, lineHeight);
+    layout.y += lineHeight;
+    layout.page.items.push({
+      type: "text",
+      x,
+      y: layout.y - size * 0.3,
+      text: line,
+      size,
+      ...(options.font && { font: options.font }),
+      ...(options.gray !== undefined && { gray: options.gray }),
+    });
+  }
+}
+
+function addRule(layout: Layout, gap = 8) {
+  ensureSpace(layout, gap * 2);
+  layout.y += gap;
+  layout.page.items.push({
+    type: "line",
+    x1: MARGIN,
+    y1: layout.y,
+    x2: A4_SIZE.width - MARGIN,
+    y2: layout.y,
+  });
+  layout.y += gap;
+}
+
+function addHeading(layout: Layout, text: string) {
+  ensureSpace(layout, 40);
+  layout.y += 8;
+  addText(layout, text.toUpperCase(), { size: 10, font: "bold", gray: LABEL_GRAY });
+  layout.y += 2;
+}
+
+/**
+ * Label in the left column, value wrapped in the right column
+ */
+function addField(layout: Layout, label: string, value: string | null, font?: PdfFont) {
+  if (!value) {
+    return;
+  }
+
+  ensureSpace(layout, BODY_SIZE * 1.3);
+  const labelY = layout.y;
+  const pageBefore = layout.page;
+  addText(layout, value, {
+    x: MARGIN + LABEL_WIDTH,
+    width: CONTENT_WIDTH - LABEL_WIDTH,
+    ...(font && { font }),
+  });
+  pageBefore.items.push({
+    type: "text",
+    x: MARGIN,
+    y: labelY + BODY_SIZE,
+    text: label,
+    size: 9,
+    gray: LABEL_GRAY,
+  });
+}
+
+/**
+ * Ribbon text in large type inside a box, line breaks as typed by the customer
+ */
+function addRibbonText(layout: Layout, text: string) {
+  const padding = 10;
+  const lines = wrapPdfText(text, RIBBON_TEXT_SIZE, CONTENT_WIDTH - 2 * padding, "bold");
+  const lineHeight = RIBBON_TEXT_SIZE * 1.25;
+  const height = lines.length * lineHeight + 2 * padding;
+
+  ensureSpace(layout, height + 16);
+  addText(layout, "Text stuhy (přepište přesně):", { size: 9, gray: LABEL_GRAY });
+  layout.y += 4;
+
+  const top = layout.y;
+  layout.page.items.push({
+    type: "rect",
+    x: MARGIN,
+    y: top,
+    width: CONTENT_WIDTH,
+    height,
+    lineWidth: 1.5,
+  });
+  lines.forEach((line, index) => {
+    layout.page.items.push({
+      type: "text",
+      x: MARGIN + padding,
+      y: top + padding + (index + 1) * lineHeight - RIBBON_TEXT_SIZE * 0.3,
+      text: line,
+      size: RIBBON_TEXT_SIZE,
+      font: "bold",
+    });
+  });
+  layout.y = top + height + 6;
+}
+
+function addItem(layout: Layout, item: JobSheetItem, index: number, count: number) {
+  addHeading(layout, `Položka ${index + 1}/${count}`);
+  addText(layout, `${item.quantity}× ${item.productName}`, { size: 14, font: "bold" });
+  layout.y += 4;
+
+  addField(layout, "Velikost", item.size, "bold");
+  addField(layout, "Květiny", item.flowers.join(", ") || null);
+  for (const option of item.otherOptions) {
+    addField(layout, option.name, option.value);
+  }
+  addField(layout, "Vzkaz", item.message);
+
+  if (item.ribbon) {
+    addField(layout, "Barva stuhy", item.ribbon.color ?? "neuvedeno", "bold");
+    if (item.ribbon.text) {
+      layout.y += 4;
+      addRibbonText(layout, item.ribbon.text);
+    } else {
+      addField(layout, "Text stuhy", "neuveden - ověřte u zákazníka", "bold");
+    }
+  }
+}
+
+function formatDeliveryWhen(sheet: JobSheet): string {
+  const date = sheet.deliveryDate ? formatJobSheetDate(sheet.deliveryDate) : "termín neuveden";
+  return sheet.timeSlot ? `${date}, ${JOB_SHEET_TIME_SLOT_LABELS[sheet.timeSlot]}` : date;
+}
+
+function addSheet(layout: Layout, sheet: JobSheet) {
+  const title = `Zakázkový list ${sheet.orderNumber}`;
+  startPage(layout, title);
+
+  addText(layout, "ZAKÁZKOVÝ LIST", { size: 10, font: "bold", gray: LABEL_GRAY });
+  addText(layout, `Objednávka ${sheet.orderNumber}`, { size: 20, font: "bold" });
+  addText(layout, formatDeliveryWhen(sheet), { size: 14, font: "bold" });
+  if (sheet.funeral) {
+    addText(layout, `Obřad: ${formatCeremonyStart(sheet.funeral.ceremonyStart)}`, {
+      size: 14,
+      font: "bold",
+    });
+  }
+  addRule(layout);
+
+  addHeading(layout, sheet.deliveryMethod === "pickup" ? "Osobní odběr" : "Doručení");
+  addField(
+    layout,
+    sheet.deliveryMethod === "pickup" ? "Místo odběru" : "Adresa",
+    sheet.location.join("\n") || "neuvedeno"
+  );
+  if (sheet.funeral) {
+    addField(layout, "Místo obřadu", formatFuneralVenue(sheet.funeral));
+    addField(layout, "Zesnulý", sheet.funeral.deceasedName);
+    addField(
+      layout,
+      "Pohřební služba",
+      [sheet.funeral.funeralHomeName, sheet.funeral.funeralHomePhone].filter(Boolean).join(", ") ||
+        null
+    );
+  }
+  addField(layout, "Příjemce", sheet.recipientName);
+  addField(layout, "Telefon příjemce", sheet.recipientPhone);
+  addField(layout, "Pokyny k doručení", sheet.instructions);
+  addField(layout, "Zákazník", sheet.customerName);
+  addField(layout, "Telefon zákazníka", sheet.customerPhone);
+  addField(layout, "Poznámka zákazníka", sheet.customerNote);
+  addField(layout, "Interní poznámka", sheet.internalNotes);
+
+  sheet.items.forEach((item, index) => {
+    addRule(layout, 6);
+    addItem(layout, item, index, sheet.items.length);
+  });
+
+  addRule(layout);
+  addText(layout, "Vyrobil: ____________________    Zkontroloval: ____________________", {
+    gray: LABEL_GRAY,
+  });
+}
+
+/**
+ * Overview page of a day batch: one line per order in the order of work
+ */
+function addDaySummary(layout: Layout, dateKey: string, sheets: JobSheet[]) {
+  addText(layout, "ZAKÁZKY NA DEN", { size: 10, font: "bold", gray: LABEL_GRAY });
+  addText(layout, formatJobSheetDate(dateKey), { size: 20, font: "bold" });
+  addText(layout, `Počet objednávek: ${sheets.length}`);
+  addRule(layout);
+
+  for (const sheet of sheets) {
+    const slot = sheet.timeSlot ? JOB_SHEET_TIME_SLOT_LABELS[sheet.timeSlot] : "Bez časového okna";
+    const products = sheet.items.map((item) => `${item.quantity}× ${item.productName}`).join(", ");
+    addField(layout, slot, `${sheet.orderNumber} - ${products} - ${sheet.location.join(", ")}`);
+    layout.y += 4;
+  }
+}
+
+function addFooters(pages: PdfPage[], printedAt: Date) {
+  const printed = printedAt.toLocaleString("cs-CZ", { timeZone: "Europe/Prague" });
+  pages.forEach((page, index) => {
+    page.items.push({
+      type: "text",
+      x: MARGIN,
+      y: A4_SIZE.height - MARGIN,
+      text: `Vytištěno ${printed} · Strana ${index + 1} z ${pages.length}`,
+      size: 8,
+      gray: LABEL_GRAY,
+    });
+  });
+}
+
+/**
+ * PDF with the job sheet of one order
+ */
+export function renderJobSheetPdf(sheet: JobSheet, printedAt: Date = new Date()): Buffer {
+  const layout = createLayout();
+  addSheet(layout, sheet);
+  addFooters(layout.pages, printedAt);
+
+  return createPdfDocument(layout.pages, {
+    title: `Zakázkový list ${sheet.orderNumber}`,
+    createdAt: printedAt,
+  });
+}
+
+/**
+ * PDF with the overview and job sheets of all orders due on a day
+ *
+ * @param sheets - Job sheets in the order of work (see sortJobSheets)
+ */
+export function renderDailyJobSheetsPdf(
+  dateKey: string,
+  sheets: JobSheet[],
+  printedAt: Date = new Date()
+): Buffer {
+  const layout = createLayout();
+  addDaySummary(layout, dateKey, sheets);
+  for (const sheet of sheets) {
+    addSheet(layout, sheet);
+  }
+  addFooters(layout.pages, printedAt);
+
+  return createPdfDocument(layout.pages, {
+    title: `Zakázky na ${formatJobSheetDate(dateKey)}`,
+    createdAt: printedAt,
+  });
+}
@@ -0,0 +1,237 @@
+/**
+ * Florist job sheets
+ * Turns an order into the work order florists build the wreath from: size, flowers, ribbon
+ * color and exact ribbon text per item, plus when and where it has to be delivered.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { LocalizedContent } from "@/types";
+import type { DeliveryTimeSlot, FuneralDetails } from "@/types/delivery";
+import type { Order, OrderItem, OrderStatus } from "@/types/order";
+import type { Customization, CustomizationOption } from "@/types/product";
+import { DELIVERY_TIME_ZONE, getDeliveryDateKey } from "../delivery/holidays";
+
+export interface JobSheetItem {
+  productName: string;
+  quantity: number;
+  size: string | null;
+  flowers: string[];
+  // null when no ribbon was ordered
+  ribbon: { color: string | null; text: string | null } | null;
+  message: string | null;
+  otherOptions: Array<{ name: string; value: string }>;
+}
+
+export interface JobSheet {
+  orderId: string;
+  orderNumber: string;
+  // Delivery (or pickup) day as YYYY-MM-DD in Czech time
+  deliveryDate: string | null;
+  timeSlot: DeliveryTimeSlot | null;
+  deliveryMethod: "delivery" | "pickup";
+  // Delivery address or pickup location, one line per entry
+  location: string[];
+  // Funeral service the delivery goes to, null for other deliveries
+  funeral: FuneralDetails | null;
+  recipientName: string | null;
+  recipientPhone: string | null;
+  customerName: string;
+  customerPhone: string | null;
+  instructions: string | null;
+  customerNote: string | null;
+  internalNotes: string | null;
+  items: JobSheetItem[];
+}
+
+// Orders florists work on; the day batch leaves out unpaid and finished orders
+export const JOB_SHEET_ORDER_STATUSES: readonly OrderStatus[] = ["confirmed", "processing"];
+
+export const JOB_SHEET_TIME_SLOT_LABELS: Record<DeliveryTimeSlot, string> = {
+  morning: "Dopoledne (8-12)",
+  afternoon: "Odpoledne (12-18)",
+  evening: "Večer (18-20)",
+  anytime: "Kdykoliv",
+};
+
+const TIME_SLOT_ORDER: readonly DeliveryTimeSlot[] = ["morning", "afternoon", "evening", "anytime"];
+
+// Choice of the "ribbon" option meaning the customer did not want a ribbon
+const NO_RIBBON_CHOICE_ID = "ribbon_no";
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Range of stored preferred dates that can fall on a Czech calendar day
+ * Wide enough for both time zone offsets; narrow the result down with getDeliveryDateKey.
+ *
+ * @returns ISO bounds, or null when the key is not a YYYY-MM-DD date
+ */
+export function getDeliveryDateSearchRange(dateKey: string): { from: string; to: string } | null {
+  const day = DATE_KEY_PATTERN.test(dateKey) ? new Date(`${dateKey}T00:00:00.000Z`) : null;
+  if (!day || Number.isNaN(day.getTime()) || day.toISOString().slice(0, 10) !== dateKey) {
+    return null;
+  }
+
+  const from = new Date(day.getTime() - 4 * 60 * 60 * 1000);
+  const to = new Date(day.getTime() + 24 * 60 * 60 * 1000);
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+/**
+ * Long Czech form of a delivery day, e.g. "pondělí 20. ledna 2025"
+ */
+export function formatJobSheetDate(dateKey: string): string {
+  return new Date(`${dateKey}T12:00:00.000Z`).toLocaleDateString("cs-CZ", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: DELIVERY_TIME_ZONE,
+  });
+}
+
+function toCzech(value: LocalizedContent | string | undefined): string {
+  return typeof value === "string" ? value : (value?.cs ?? "");
+}
+
+/**
+ * Option type, choice labels and typed value of an ordered customization
+ * Labels come from the product snapshot taken at checkout, so later catalog edits do not
+ * change what is built.
+ */
+function describeCustomization(customization: Customization, options: CustomizationOption[]) {
+  const option = options.find((entry) => entry.id === customization.optionId);
+  const choiceIds = customization.choiceIds || [];
+  const labels = choiceIds.map((choiceId) => {
+    const choice = option?.choices?.find((entry) => entry.id === choiceId);
+    return choice ? toCzech(choice.label) : choiceId;
+  });
+
+  return {
+    type: option?.type ?? customization.optionId,
+    name: toCzech(option?.name) || customization.optionId,
+    choiceIds,
+    labels,
+    // Ribbon text is printed as typed, so only surrounding whitespace is dropped
+    customValue: customization.customValue?.trim() || null,
+  };
+}
+
+function buildJobSheetItem(item: OrderItem): JobSheetItem {
+  const options: CustomizationOption[] = item.productSnapshot?.customizationOptions ?? [];
+  const sheetItem: JobSheetItem = {
+    productName: item.productName,
+    quantity: item.quantity,
+    size: null,
+    flowers: [],
+    ribbon: null,
+    message: null,
+    otherOptions: [],
+  };
+  let ribbonRequested: boolean | null = null;
+  const ribbon: { color: string | null; text: string | null } = { color: null, text: null };
+
+  for (const customization of (item.customizations || []) as Customization[]) {
+    const { type, name, choiceIds, labels, customValue } = describeCustomization(
+      customization,
+      options
+    );
+
+    switch (type) {
+      case "size":
+        sheetItem.size = labels.join(", ") || null;
+        break;
+      case "flowers":
+        sheetItem.flowers.push(...labels);
+        break;
+      case "ribbon":
+        ribbonRequested = choiceIds.length > 0 && !choiceIds.includes(NO_RIBBON_CHOICE_ID);
+        break;
+      case "ribbon_color":
+        ribbon.color = labels.join(", ") || null;
+        break;
+      case "ribbon_text":
+        ribbon.text = customValue ?? (labels.join(" ") || null);
+        break;
+      case "message":
+        sheetItem.message = customValue ?? (labels.join(", ") || null);
+        break;
+      case "delivery":
+      case "delivery_method":
+        // Shown in the delivery section of the sheet
+        break;
+      default:
+        sheetItem.otherOptions.push({ name, value: customValue ?? labels.join(", ") });
+    }
+  }
+
+  return { ...sheetItem, ribbon: resolveRibbon(ribbonRequested, ribbon) };
+}
+
+// Products without a yes/no ribbon option get a ribbon whenever its details were chosen
+function resolveRibbon(
+  requested: boolean | null,
+  ribbon: { color: string | null; text: string | null }
+): JobSheetItem["ribbon"] {
+  return (requested ?? (ribbon.color !== null || ribbon.text !== null)) ? ribbon : null;
+}
+
+function getJobSheetLocation(order: Order, deliveryMethod: JobSheet["deliveryMethod"]): string[] {
+  if (deliveryMethod === "pickup") {
+    return order.pickupLocation ? [order.pickupLocation] : [];
+  }
+
+  const address = order.deliveryInfo.address;
+  return [
+    address?.street ?? "",
+    [address?.postalCode, address?.city].filter(Boolean).join(" "),
+  ].filter(Boolean);
+}
+
+/**
+ * Job sheet of an order
+ */
+export function buildJobSheet(order: Order): JobSheet {
+  const { deliveryInfo, customerInfo } = order;
+  const preferredDate = deliveryInfo.preferredDate ? new Date(deliveryInfo.preferredDate) : null;
+  const deliveryMethod = order.deliveryMethod ?? "delivery";
+
+  return {
+    orderId: order.id,
+    orderNumber: order.orderNumber,
+    deliveryDate:
+      preferredDate && !Number.isNaN(preferredDate.getTime())
+        ? getDeliveryDateKey(preferredDate)
+        : null,
+    timeSlot: deliveryInfo.preferredTimeSlot ?? null,
+    deliveryMethod,
+    location: getJobSheetLocation(order, deliveryMethod),
+    funeral: deliveryInfo.funeral ?? null,
+    recipientName: deliveryInfo.recipientName ?? null,
+    recipientPhone: deliveryInfo.recipientPhone ?? null,
+    customerName:
+      `${customerInfo.firstName ?? ""} ${customerInfo.lastName ?? ""}`.trim() ||
+      customerInfo.name ||
+      "",
+    customerPhone: customerInfo.phone ?? null,
+    instructions: deliveryInfo.specialInstructions ?? null,
+    customerNote: customerInfo.note ?? null,
+    internalNotes: order.notes || null,
+    items: order.items.map(buildJobSheetItem),
+  };
+}
+
+/**
+ * Order of work for a day: by delivery day, then time slot, then order number
+ */
+export function sortJobSheets(sheets: JobSheet[]): JobSheet[] {
+  const slotRank = (sheet: JobSheet) =>
+    sheet.timeSlot ? TIME_SLOT_ORDER.indexOf(sheet.timeSlot) : TIME_SLOT_ORDER.length;
+
+  return [...sheets].sort(
+    (a, b) =>
+      (a.deliveryDate ?? "").localeCompare(b.deliveryDate ?? "") ||
+      slotRank(a) - slotRank(b) ||
+      a.orderNumber.localeCompare(b.orderNumber)
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * Order lifecycle state machine
+ * Single source of truth for legal order status transitions and their guards.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { OrderStatus, PaymentStatus } from "@/types/order";
+
+/**
+ * Origin of a status change, persisted in order_status_history.source
+ */
+export type OrderStatusChangeSource = "admin" | "customer" | "payment" | "system";
+
+/**
+ * Minimal order snapshot the guards need to decide on a transition
+ */
+export interface OrderTransitionContext {
+  status: OrderStatus;
+  paymentStatus?: PaymentStatus | undefined;
+  deliveryMethod?: "delivery" | "pickup" | null | undefined;
+}
+
+export interface OrderTransitionCheck {
+  allowed: boolean;
+  code?: OrderTransitionErrorCode;
+  reason?: string;
+}
+
+export type OrderTransitionErrorCode =
+  | "INVALID_STATUS"
+  | "ILLEGAL_TRANSITION"
+  | "TERMINAL_STATUS"
+  | "PAYMENT_REQUIRED"
+  | "DELIVERY_METHOD_MISMATCH";
+
+export const ORDER_STATUSES: OrderStatus[] = [
+  "pending",
+  "confirmed",
+  "processing",
+  "shipped",
+  "delivered",
+  "cancelled",
+];
+
+/**
+ * Legal transitions from each status. Statuses with no outgoing transitions are terminal.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["confirmed", "cancelled"],
+  confirmed: ["processing", "cancelled"],
+  processing: ["shipped", "delivered", "cancelled"],
+  shipped: ["delivered"],
+  delivered: [],
+  cancelled: [],
+};
+
+/**
+ * Order columns stamped when the order enters a status
+ */
+export const ORDER_STATUS_TIMESTAMP_FIELDS: Partial<
+  Record<OrderStatus, "confirmed_at" | "shipped_at" | "delivered_at" | "cancelled_at">
+> = {
+  confirmed: "confirmed_at",
+  shipped: "shipped_at",
+  delivered: "delivered_at",
+  cancelled: "cancelled_at",
+};
+
+/**
+ * Customer-facing descriptions shown in the order timeline
+ */
+export const ORDER_STATUS_DESCRIPTIONS: Record<OrderStatus, string> = {
+  pending: "Objednávka byla vytvořena a čeká na zpracování",
+  confirmed: "Objednávka byla potvrzena a přijata ke zpracování",
+  processing: "Objednávka se zpracovává a připravuje k odeslání",
+  shipped: "Objednávka byla odeslána a je na cestě",
+  delivered: "Objednávka byla úspěšně doručena",
+  cancelled: "Objednávka byla zrušena",
+};
+
+// Statuses that may only be entered once the payment has been captured
+const PAID_STATUSES: readonly OrderStatus[] = ["shipped", "delivered"];
+
+export class OrderStatusTransitionError extends Error {
+  constructor(
+    message: string,
+    public code: OrderTransitionErrorCode,
+    public from: OrderStatus | null,
+    public to: string
+  ) {
+    super(message);
+    this.name = "OrderStatusTransitionError";
+  }
+}
+
+/**
+ * Type guard for raw status values coming from requests or the database
+ */
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && (ORDER_STATUSES as string[]).includes(value);
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_STATUS_TRANSITIONS[status].length === 0;
+}
+
+/**
+ * Statuses reachable from the current one (ignores guards, used for UI hints)
+ */
+export function getAllowedNextStatuses(status: OrderStatus): OrderStatus[] {
+  return [...ORDER_STATUS_TRANSITIONS[status]];
+}
+
+/**
+ * Check whether an order may move to the target status.
+ * Covers both the transition table and the business guards.
+ */
+export function checkOrderStatusTransition(
+  order: OrderTransitionContext,
+  to: OrderStatus
+): OrderTransitionCheck {
+  const from = order.status;
+
+  if (isTerminalStatus(from)) {
+    return {
+      allowed: false,
+      code: "TERMINAL_STATUS",
+      reason: `Objednávku ve stavu "${from}" již nelze měnit`,
+    };
+  }
+
+  if (!ORDER_STATUS_TRANSITIONS[from].includes(to)) {
+    return {
+      allowed: false,
+      code: "ILLEGAL_TRANSITION",
+      reason: `Nepovolený přechod stavu z "${from}" na "${to}"`,
+    };
+  }
+
+  // Guard: cannot ship or hand over an order that has not been paid
+  if (PAID_STATUSES.includes(to) && order.paymentStatus !== "completed") {
+    return {
+      allowed: false,
+      code: "PAYMENT_REQUIRED",
+      reason: "Objednávka ještě nebyla zaplacena",
+    };
+  }
+
+  // Guard: pickup orders are never shipped, delivery orders must be shipped first
+  if (to === "shipped" && order.deliveryMethod === "pickup") {
+    return {
+      allowed: false,
+      code: "DELIVERY_METHOD_MISMATCH",
+      reason: "Objednávku s osobním odběrem nelze odeslat",
+    };
+  }
+
+  if (from === "processing" && to === "delivered" && order.deliveryMethod !== "pickup") {
+    return {
+      allowed: false,
+      code: "DELIVERY_METHOD_MISMATCH",
+      reason: "Objednávka s doručením musí být nejprve odeslána",
+    };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Same as checkOrderStatusTransition but throws OrderStatusTransitionError when rejected
+ */
+export function assertOrderStatusTransition(order: OrderTransitionContext, to: string): void {
+  if (!isOrderStatus(to)) {
+    throw new OrderStatusTransitionError(
+      `Neplatný stav objednávky: ${to}`,
+      "INVALID_STATUS",
+      order.status,
+      to
+    );
+  }
+
+  const check = checkOrderStatusTransition(order, to);
+  if (!check.allowed) {
+    throw new OrderStatusTransitionError(
+      check.reason || "Nepovolený přechod stavu",
+      check.code || "ILLEGAL_TRANSITION",
+      order.status,
+      to
+    );
+  }
+}
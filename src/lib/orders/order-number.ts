@@ -0,0 +1,25 @@
+/**
+ * Order number search
+ * Order numbers are assigned by the database from a yearly counter (see the
+ * create_order_number_sequence migration); this module only prepares admin search input.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+export const MAX_ORDER_SEARCH_LENGTH = 100;
+
+// Characters with a meaning in PostgREST filter strings and LIKE patterns
+const FILTER_SYNTAX_CHARACTERS = /[,()*%_\\"]/g;
+
+/**
+ * Normalize an admin order search: drop a leading "#" as orders are displayed as "#2025-00042"
+ * and strip characters that would change the filter. Returns an empty string when nothing
+ * searchable is left.
+ */
+export function normalizeOrderSearchTerm(term: string | null | undefined): string {
+  return (term ?? "")
+    .trim()
+    .replace(/^#+/, "")
+    .replace(FILTER_SYNTAX_CHARACTERS, "")
+    .slice(0, MAX_ORDER_SEARCH_LENGTH)
+    .trim();
+}
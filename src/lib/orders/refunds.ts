@@ -0,0 +1,211 @@
+/**
+ * Order refund rules
+ * Works out how much of an order can still be refunded and what a per-item refund is worth.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type {
+  OrderItem,
+  PaymentStatus,
+  RefundLineItem,
+  RefundRecord,
+  RefundStatus,
+} from "@/types/order";
+
+export type RefundErrorCode =
+  | "NOT_REFUNDABLE"
+  | "INVALID_AMOUNT"
+  | "AMOUNT_EXCEEDS_REFUNDABLE"
+  | "INVALID_ITEM"
+  | "QUANTITY_EXCEEDS_REFUNDABLE"
+  | "PAYMENT_PROVIDER_ERROR";
+
+export class RefundError extends Error {
+  constructor(
+    message: string,
+    public code: RefundErrorCode
+  ) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+/**
+ * Item quantity selected for a partial refund
+ */
+export interface RefundItemSelection {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface RefundCalculation {
+  amount: number;
+  items: RefundLineItem[];
+}
+
+// Refunds in these states do not (or no longer) move money back to the customer
+const VOID_REFUND_STATUSES: readonly RefundStatus[] = ["failed", "canceled"];
+
+// Payment statuses that can be refunded (partially refunded payments stay "completed")
+const REFUNDABLE_PAYMENT_STATUSES: readonly PaymentStatus[] = ["completed"];
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function countsTowardsRefunded(refund: RefundRecord): boolean {
+  return !VOID_REFUND_STATUSES.includes(refund.status);
+}
+
+/**
+ * Total already refunded (or on its way back) to the customer
+ */
+export function getRefundedAmount(refunds: RefundRecord[] = []): number {
+  return roundAmount(
+    refunds.filter(countsTowardsRefunded).reduce((sum, refund) => sum + refund.amount, 0)
+  );
+}
+
+/**
+ * Amount that can still be refunded for a payment
+ */
+export function getRefundableAmount(paidAmount: number, refunds: RefundRecord[] = []): number {
+  return Math.max(0, roundAmount(paidAmount - getRefundedAmount(refunds)));
+}
+
+/**
+ * Whether a payment in the given status can be refunded at all
+ */
+export function isRefundablePaymentStatus(status: PaymentStatus | undefined): boolean {
+  return status !== undefined && REFUNDABLE_PAYMENT_STATUSES.includes(status);
+}
+
+/**
+ * Quantities per order item covered by earlier refunds
+ */
+export function getRefundedQuantities(refunds: RefundRecord[] = []): Map<string, number> {
+  const quantities = new Map<string, number>();
+
+  for (const refund of refunds.filter(countsTowardsRefunded)) {
+    for (const item of refund.items || []) {
+      quantities.set(item.orderItemId, (quantities.get(item.orderItemId) || 0) + item.quantity);
+    }
+  }
+
+  return quantities;
+}
+
+/**
+ * Validate a requested refund amount against what is left on the payment
+ */
+export function assertRefundAmount(
+  amount: number,
+  paidAmount: number,
+  refunds: RefundRecord[] = []
+) {
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new RefundError("Částka refundace musí být větší než 0", "INVALID_AMOUNT");
+  }
+
+  const refundable = getRefundableAmount(paidAmount, refunds);
+  if (roundAmount(amount) > refundable) {
+    throw new RefundError(
+      `Částka refundace přesahuje vratitelnou částku (${refundable} Kč)`,
+      "AMOUNT_EXCEEDS_REFUNDABLE"
+    );
+  }
+}
+
+/**
+ * Calculate a per-item partial refund
+ *
+ * Each line is refunded at its unit price. The total is capped at the amount still
+ * refundable, so orders paid with a discount code never refund more than was charged.
+ */
+export function calculateItemRefund(
+  orderItems: OrderItem[],
+  selections: RefundItemSelection[],
+  paidAmount: number,
+  refunds: RefundRecord[] = []
+): RefundCalculation {
+  const refundedQuantities = getRefundedQuantities(refunds);
+  const items: RefundLineItem[] = [];
+
+  for (const selection of selections) {
+    if (selection.quantity <= 0) {
+      continue;
+    }
+
+    const orderItem = orderItems.find((item) => item.id === selection.orderItemId);
+    if (!(orderItem && Number.isInteger(selection.quantity))) {
+      throw new RefundError("Neplatná položka refundace", "INVALID_ITEM");
+    }
+
+    const remaining = orderItem.quantity - (refundedQuantities.get(orderItem.id) || 0);
+    if (selection.quantity > remaining) {
+      throw new RefundError(
+        `Položku ${orderItem.productName} lze vrátit nejvýše v počtu ${remaining} ks`,
+        "QUANTITY_EXCEEDS_REFUNDABLE"
+      );
+    }
+
+    items.push({
+      orderItemId: orderItem.id,
+      quantity: selection.quantity,
+      amount: roundAmount(orderItem.unitPrice * selection.quantity),
+    });
+  }
+
+  if (items.length === 0) {
+    throw new RefundError("Vyberte alespoň jednu položku k refundaci", "INVALID_ITEM");
+  }
+
+  const itemsTotal = roundAmount(items.reduce((sum, item) => sum + item.amount, 0));
+  const amount = Math.min(itemsTotal, getRefundableAmount(paidAmount, refunds));
+
+  if (amount <= 0) {
+    throw new RefundError("Objednávka již byla plně refundována", "AMOUNT_EXCEEDS_REFUNDABLE");
+  }
+
+  return { amount, items };
+}
+
+/**
+ * Insert or update a refund by its ID, keeping details only the admin side knows
+ * (items, reason, author) when the webhook reports the same refund again.
+ */
+export function mergeRefundRecord(refunds: RefundRecord[], record: RefundRecord): RefundRecord[] {
+  const existing = refunds.find((refund) => refund.id === record.id);
+
+  if (!existing) {
+    return [...refunds, record];
+  }
+
+  return refunds.map((refund) =>
+    refund.id === record.id
+      ? {
+          ...refund,
+          ...record,
+          source: refund.source,
+          ...(refund.items && { items: refund.items }),
+          ...(refund.reason && { reason: refund.reason }),
+          ...(refund.createdBy && { createdBy: refund.createdBy }),
+        }
+      : refund
+  );
+}
+
+/**
+ * Payment status once the given refunds are applied
+ */
+export function getPaymentStatusAfterRefunds(
+  paidAmount: number,
+  refunds: RefundRecord[],
+  currentStatus: PaymentStatus
+): PaymentStatus {
+  if (paidAmount > 0 && getRefundedAmount(refunds) >= roundAmount(paidAmount)) {
+    return "refunded";
+  }
+
+  return currentStatus === "refunded" ? "completed" : currentStatus;
+}
@@ -0,0 +1,98 @@
+/**
+ * Order repricing rules
+ * Compares the prices a client submitted with an order against the prices recalculated on the
+ * server from current product data, so a tampered or stale cart cannot set its own prices.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { CartItem } from "@/types/cart";
+import type { OrderPriceChange } from "@/types/order";
+
+export type OrderPricingErrorCode = "PRODUCT_UNAVAILABLE" | "INVALID_QUANTITY";
+
+export class OrderPricingError extends Error {
+  constructor(
+    message: string,
+    public code: OrderPricingErrorCode
+  ) {
+    super(message);
+    this.name = "OrderPricingError";
+  }
+}
+
+/**
+ * Order line priced on the server
+ */
+export interface RepricedOrderItem {
+  /** The line as submitted by the client */
+  item: CartItem;
+  productName: string;
+  productSlug: string;
+  unitPrice: number;
+  totalPrice: number;
+}
+
+// Differences below half a haléř are rounding noise, not price changes
+const PRICE_TOLERANCE = 0.005;
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Check that an order line quantity is a positive whole number
+ *
+ * @throws OrderPricingError when the quantity is invalid
+ */
+export function validateOrderItemQuantity(item: CartItem): void {
+  if (!(Number.isInteger(item.quantity) && item.quantity > 0)) {
+    throw new OrderPricingError(
+      `Neplatné množství u položky ${item.productId}`,
+      "INVALID_QUANTITY"
+    );
+  }
+}
+
+/**
+ * List the lines whose submitted unit price differs from the server price
+ * A line submitted without a price counts as changed.
+ */
+export function detectPriceChanges(items: RepricedOrderItem[]): OrderPriceChange[] {
+  return items.flatMap(({ item, productName, unitPrice }) => {
+    const submittedUnitPrice = item.unitPrice ?? 0;
+    if (
+      item.unitPrice !== undefined &&
+      Math.abs(submittedUnitPrice - unitPrice) < PRICE_TOLERANCE
+    ) {
+      return [];
+    }
+
+    const unitPriceDifference = roundAmount(unitPrice - submittedUnitPrice);
+    return [
+      {
+        cartItemId: item.id,
+        productId: item.productId,
+        productName,
+        quantity: item.quantity,
+        submittedUnitPrice,
+        currentUnitPrice: unitPrice,
+        unitPriceDifference,
+        totalPriceDifference: roundAmount(unitPriceDifference * item.quantity),
+      },
+    ];
+  });
+}
+
+/**
+ * Cart items carrying the server prices, for discount evaluation and totals
+ */
+export function toRepricedCartItems(items: RepricedOrderItem[]): CartItem[] {
+  return items.map(({ item, unitPrice, totalPrice }) => ({ ...item, unitPrice, totalPrice }));
+}
+
+/**
+ * Sum of the server line totals
+ */
+export function calculateOrderSubtotal(items: RepricedOrderItem[]): number {
+  return roundAmount(items.reduce((sum, item) => sum + item.totalPrice, 0));
+}
@@ -28,11 +28,21 @@
  * ```
  */
 
-import type { PaymentInfo, PaymentMethod, PaymentStatus } from "@/types/order";
+import type Stripe from "stripe";
+import type {
+  PaymentInfo,
+  PaymentMethod,
+  PaymentStatus,
+  RefundRecord,
+  RefundStatus,
+} from "@/types/order";
+import { sanitizeStripeError } from "./error-handler";
 import {
   createPaymentIntent,
+  createRefund,
   handleFailedPayment as handleStripeFailure,
   handleSuccessfulPayment as handleStripeSuccess,
+  listRefunds,
   retrievePaymentIntent,
 } from "./stripe";
 
@@ -82,6 +92,46 @@ export interface PaymentResult {
   error: string | undefined;
 }
 
+/**
+ * Refund request parameters
+ *
+ * @interface RefundRequest
+ */
+export interface RefundRequest {
+  orderId: string;
+  transactionId: string;
+  amount: number;
+  paymentMethod: PaymentMethod;
+  reason?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Response from a refund request
+ *
+ * @interface RefundResponse
+ */
+export interface RefundResponse {
+  success: boolean;
+  refund?: RefundRecord;
+  error?: string;
+}
+
+/**
+ * Map a Stripe refund to the refund record stored in payment_info
+ */
+function toRefundRecord(refund: Stripe.Refund): RefundRecord {
+  return {
+    id: refund.id,
+    amount: refund.amount / 100,
+    currency: refund.currency,
+    status: (refund.status || "pending") as RefundStatus,
+    ...(refund.metadata?.["reason"] && { reason: refund.metadata["reason"] }),
+    source: "stripe",
+    createdAt: new Date(refund.created * 1000).toISOString(),
+  };
+}
+
 /**
  * Payment service class
  */
@@ -328,6 +378,74 @@ export class PaymentService {
     return null;
   }
 
+  /**
+   * Refund a captured payment, fully or partially
+   *
+   * @param request - Refund request parameters (amount in CZK)
+   * @returns Promise resolving to the created refund or a sanitized error
+   *
+   * @example
+   * ```typescript
+   * const response = await PaymentService.refundPayment({
+   *   orderId: 'order-123',
+   *   transactionId: 'pi_1234567890',
+   *   amount: 450,
+   *   paymentMethod: 'stripe',
+   *   reason: 'Damaged wreath'
+   * });
+   * ```
+   */
+  static async refundPayment(request: RefundRequest): Promise<RefundResponse> {
+    try {
+      if (request.paymentMethod !== "stripe") {
+        throw new Error(`Unsupported payment method: ${request.paymentMethod}`);
+      }
+
+      const refund = await createRefund({
+        paymentIntentId: request.transactionId,
+        amount: request.amount,
+        orderId: request.orderId,
+        ...(request.reason && { reason: request.reason }),
+        ...(request.metadata && { metadata: request.metadata }),
+      });
+
+      return {
+        success: true,
+        refund: toRefundRecord(refund),
+      };
+    } catch (error) {
+      console.error("Error refunding payment:", error);
+      return {
+        success: false,
+        error: sanitizeStripeError(error).userMessage,
+      };
+    }
+  }
+
+  /**
+   * Get all refunds issued for a payment
+   *
+   * @param transactionId - The payment intent ID
+   * @param paymentMethod - The payment method used ('stripe')
+   * @returns Promise resolving to refund records (empty on error)
+   */
+  static async getRefunds(
+    transactionId: string,
+    paymentMethod: PaymentMethod
+  ): Promise<RefundRecord[]> {
+    try {
+      if (paymentMethod !== "stripe") {
+        throw new Error(`Unsupported payment method: ${paymentMethod}`);
+      }
+
+      const refunds = await listRefunds(transactionId);
+      return refunds.map(toRefundRecord);
+    } catch (error) {
+      console.error("Error getting refunds:", error);
+      return [];
+    }
+  }
+
   /**
    * Create a payment info object for database storage
    *
@@ -380,6 +498,6 @@ export { logPaymentError, sanitizeStripeError } from "./error-handler";
 export { PaymentMonitor } from "./payment-monitor";
 export { withRetry } from "./retry-handler";
 // Export types and utilities
-export type { CreatePaymentIntentOptions } from "./stripe";
+export type { CreatePaymentIntentOptions, CreateRefundOptions } from "./stripe";
 export { createPaymentIntentAction } from "./stripe-service";
 export { PaymentService as default };
@@ -277,6 +277,65 @@ export async function confirmPaymentIntent(
   }
 }
 
+// Refund creation options
+export interface CreateRefundOptions {
+  paymentIntentId: string;
+  amount: number; // Amount in CZK, converted to cents for Stripe
+  orderId: string;
+  reason?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Create a refund for a Payment Intent
+ */
+export async function createRefund(options: CreateRefundOptions): Promise<Stripe.Refund> {
+  if (!stripe) {
+    throw new Error("Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.");
+  }
+
+  const { paymentIntentId, amount, orderId, reason, metadata = {} } = options;
+
+  try {
+    const refund = await stripe.refunds.create({
+      payment_intent: paymentIntentId,
+      amount: Math.round(amount * 100), // Convert to cents
+      reason: "requested_by_customer",
+      metadata: {
+        orderId,
+        ...(reason && { reason: reason.slice(0, 500) }),
+        ...metadata,
+      },
+    });
+
+    // Invalidate payment intent cache on refund
+    const { invalidatePaymentIntentCache } = await import("@/lib/cache/payment-intent-cache");
+    await invalidatePaymentIntentCache(paymentIntentId);
+
+    return refund;
+  } catch (error) {
+    console.error("Error creating Stripe refund:", error);
+    throw error;
+  }
+}
+
+/**
+ * List refunds of a Payment Intent
+ */
+export async function listRefunds(paymentIntentId: string): Promise<Stripe.Refund[]> {
+  if (!stripe) {
+    throw new Error("Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.");
+  }
+
+  try {
+    const refunds = await stripe.refunds.list({ payment_intent: paymentIntentId, limit: 100 });
+    return refunds.data;
+  } catch (error) {
+    console.error("Error listing Stripe refunds:", error);
+    throw new Error("Failed to list refunds");
+  }
+}
+
 /**
  * Verify webhook signature
  */
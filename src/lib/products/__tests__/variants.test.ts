@@ -0,0 +1,102 @@
+/**
+ * Tests for product variant helpers
+ */
+
+import { describe, expect, it } from "vitest";
+import type { CustomizationOption, ProductImage, ProductVariant } from "@/types/product";
+import { applyVariantsToOptions, getDefaultVariant, getVariantImages } from "../variants";
+
+const image: ProductImage = {
+  id: "img_150",
+  url: "/images/venec-150.jpg",
+  alt: "Věnec 150 cm",
+  isPrimary: true,
+  sortOrder: 0,
+};
+
+function variant(
+  sizeChoiceId: string,
+  price: number,
+  overrides: Partial<ProductVariant> = {}
+): ProductVariant {
+  return {
+    id: `variant_${sizeChoiceId}`,
+    productId: "product",
+    sizeChoiceId,
+    price,
+    stockQuantity: null,
+    images: [],
+    isDefault: false,
+    active: true,
+    sortOrder: 0,
+    ...overrides,
+  };
+}
+
+const options: CustomizationOption[] = [
+  {
+    id: "size",
+    type: "size",
+    name: "Velikost",
+    required: true,
+    choices: [
+      { id: "size_120", label: "120 cm", priceModifier: 0 },
+      { id: "size_150", label: "150 cm", priceModifier: 300 },
+      { id: "size_180", label: "180 cm", priceModifier: 600 },
+    ],
+  },
+  {
+    id: "ribbon",
+    type: "ribbon",
+    name: "Stuha",
+    required: false,
+    choices: [{ id: "ribbon_yes", label: "Ano", priceModifier: 150 }],
+  },
+];
+
+describe("applyVariantsToOptions", () => {
+  it("prices sizes from their variants and disables sold out or missing sizes", () => {
+    const [size, ribbon] = applyVariantsToOptions(options, 2000, [
+      variant("size_120", 2000),
+      variant("size_150", 2500, { stockQuantity: 0 }),
+    ]);
+
+    expect(
+      size?.choices.map(({ id, priceModifier, available }) => [id, priceModifier, available])
+    ).toEqual([
+      ["size_120", 0, true],
+      ["size_150", 500, false],
+      ["size_180", 600, false],
+    ]);
+    expect(ribbon).toBe(options[1]);
+  });
+
+  it("leaves options alone for products without active variants", () => {
+    expect(
+      applyVariantsToOptions(options, 2000, [variant("size_120", 2000, { active: false })])
+    ).toBe(options);
+  });
+});
+
+describe("getDefaultVariant", () => {
+  it("prefers the default variant and falls back to the first active one", () => {
+    const variants = [variant("size_120", 2000, { active: false }), variant("size_150", 2500)];
+
+    expect(getDefaultVariant(variants)?.sizeChoiceId).toBe("size_150");
+    expect(
+      getDefaultVariant([...variants, variant("size_180", 3000, { isDefault: true })])?.sizeChoiceId
+    ).toBe("size_180");
+  });
+});
+
+describe("getVariantImages", () => {
+  it("shows variant images when the variant has any", () => {
+    const productImages = [{ ...image, id: "img_product" }];
+
+    expect(getVariantImages(variant("size_150", 2500, { images: [image] }), productImages)).toEqual(
+      [image]
+    );
+    expect(getVariantImages(variant("size_120", 2000), productImages)).toBe(productImages);
+    expect(getVariantImages(undefined, productImages)).toBe(productImages);
+  });
+});
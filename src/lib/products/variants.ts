@@ -0,0 +1,94 @@
+/**
+ * Product variants
+ * Sizes are still chosen through the product's size customization option, but each size is
+ * backed by a product variant that owns its price, stock and images. These helpers project
+ * variants onto the size option so price calculation and validation keep working unchanged.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { CustomizationOption, ProductImage, ProductVariant } from "@/types/product";
+import { SIZE_OPTION_ID } from "../stripe/price-selector";
+
+/**
+ * Whether an option is the size option variants are keyed by
+ */
+export function isSizeOption(option: CustomizationOption): boolean {
+  return option.id === SIZE_OPTION_ID || option.type === "size";
+}
+
+/**
+ * Whether a variant can be ordered; variants without tracked stock are made to order
+ */
+export function isVariantInStock(variant: ProductVariant): boolean {
+  return variant.stockQuantity === null || variant.stockQuantity > 0;
+}
+
+/**
+ * Active variant backing a size choice
+ */
+export function findVariantForSize(
+  variants: ProductVariant[],
+  sizeChoiceId: string | null | undefined
+): ProductVariant | undefined {
+  if (!sizeChoiceId) {
+    return undefined;
+  }
+
+  return variants.find((variant) => variant.active && variant.sizeChoiceId === sizeChoiceId);
+}
+
+/**
+ * Active default variant, or the first active one when none is marked as default
+ */
+export function getDefaultVariant(variants: ProductVariant[]): ProductVariant | undefined {
+  const active = variants.filter((variant) => variant.active);
+  return active.find((variant) => variant.isDefault) ?? active[0];
+}
+
+/**
+ * Apply variant prices and stock to the size option
+ * Size choices get the price difference to the base price as their modifier. Sizes without an
+ * active variant, or whose variant is sold out, become unavailable. Products without active
+ * variants keep their options as they are.
+ */
+export function applyVariantsToOptions(
+  options: CustomizationOption[],
+  basePrice: number,
+  variants: ProductVariant[]
+): CustomizationOption[] {
+  if (!variants.some((variant) => variant.active)) {
+    return options;
+  }
+
+  return options.map((option) => {
+    if (!isSizeOption(option)) {
+      return option;
+    }
+
+    return {
+      ...option,
+      choices: option.choices.map((choice) => {
+        const variant = findVariantForSize(variants, choice.id);
+        if (!variant) {
+          return { ...choice, available: false };
+        }
+
+        return {
+          ...choice,
+          priceModifier: variant.price - basePrice,
+          available: choice.available !== false && isVariantInStock(variant),
+        };
+      }),
+    };
+  });
+}
+
+/**
+ * Images to show for the selected variant, falling back to the product images
+ */
+export function getVariantImages(
+  variant: ProductVariant | undefined,
+  productImages: ProductImage[]
+): ProductImage[] {
+  return variant && variant.images.length > 0 ? variant.images : productImages;
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for ribbon text layout
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  breakRibbonText,
+  getRibbonColorStyle,
+  getRibbonWidthForSize,
+  RIBBON_WIDTHS,
+} from "../layout";
+
+describe("getRibbonWidthForSize", () => {
+  it("picks the ribbon width from the wreath diameter", () => {
+    expect(getRibbonWidthForSize("size_80").widthMm).toBe(50);
+    expect(getRibbonWidthForSize("size_120").widthMm).toBe(75);
+    expect(getRibbonWidthForSize("size_150").widthMm).toBe(100);
+    expect(getRibbonWidthForSize("size_180").widthMm).toBe(100);
+  });
+
+  it("falls back to the default width for unknown sizes", () => {
+    expect(getRibbonWidthForSize(undefined).widthMm).toBe(75);
+    expect(getRibbonWidthForSize("size_large").widthMm).toBe(75);
+  });
+});
+
+describe("breakRibbonText", () => {
+  it("keeps short text on one line", () => {
+    expect(breakRibbonText("Na věčnou památku", RIBBON_WIDTHS[75])).toEqual({
+      lines: ["Na věčnou památku"],
+      overflow: false,
+    });
+  });
+
+  it("fills lines word by word and keeps one-letter words with the next word", () => {
+    expect(breakRibbonText("Poslední sbohem s láskou a úctou", RIBBON_WIDTHS[50]).lines).toEqual([
+      "Poslední sbohem",
+      "s láskou a úctou",
+    ]);
+  });
+
+  it("keeps line breaks typed by the customer", () => {
+    expect(breakRibbonText("Milované mamince\nDcera Jana", RIBBON_WIDTHS[100]).lines).toEqual([
+      "Milované mamince",
+      "Dcera Jana",
+    ]);
+  });
+
+  it("reports overflow when the text needs more lines than the ribbon holds", () => {
+    const layout = breakRibbonText(
+      "Poslední sbohem od kolegů z oddělení účetnictví a personalistiky",
+      RIBBON_WIDTHS[50]
+    );
+
+    expect(layout.lines.length).toBeGreaterThan(RIBBON_WIDTHS[50].maxLines);
+    expect(layout.overflow).toBe(true);
+  });
+
+  it("reports overflow for a word longer than a line", () => {
+    expect(breakRibbonText("Nejnezapomenutelnějšímu-dědečkovi", RIBBON_WIDTHS[50]).overflow).toBe(
+      true
+    );
+  });
+});
+
+describe("getRibbonColorStyle", () => {
+  it("prints black ribbons in gold and falls back to white", () => {
+    expect(getRibbonColorStyle("color_black")).toEqual({ background: "#111111", text: "#D4AF37" });
+    expect(getRibbonColorStyle("color_unknown")).toEqual(getRibbonColorStyle("color_white"));
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Tests for the ribbon phrase library
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  groupRibbonPhrases,
+  type RibbonPhrase,
+  RibbonPhraseError,
+  validateRibbonPhraseInput,
+} from "../phrases";
+
+const phrase = (overrides: Partial<RibbonPhrase>): RibbonPhrase => ({
+  id: "phrase-1",
+  relationship: "family",
+  text: { cs: "Navždy v našich srdcích", en: "Forever in our hearts" },
+  sortOrder: 0,
+  active: true,
+  ...overrides,
+});
+
+describe("validateRibbonPhraseInput", () => {
+  it("trims the texts", () => {
+    expect(
+      validateRibbonPhraseInput({
+        relationship: "friends",
+        text: { cs: "  Vzpomínáme  ", en: "We remember " },
+      }).text
+    ).toEqual({ cs: "Vzpomínáme", en: "We remember" });
+  });
+
+  it("rejects unknown relationships, missing translations and long texts", () => {
+    const invalidInputs = [
+      { relationship: "neighbours" as never, text: { cs: "Vzpomínáme", en: "We remember" } },
+      { relationship: "family" as const, text: { cs: "Vzpomínáme", en: " " } },
+      { relationship: "family" as const, text: { cs: "x".repeat(51), en: "We remember" } },
+    ];
+
+    for (const input of invalidInputs) {
+      expect(() => validateRibbonPhraseInput(input)).toThrow(RibbonPhraseError);
+    }
+  });
+});
+
+describe("groupRibbonPhrases", () => {
+  it("groups active phrases by relationship in display order", () => {
+    const groups = groupRibbonPhrases(
+      [
+        phrase({ id: "friends-1", relationship: "friends" }),
+        phrase({ id: "family-2", sortOrder: 2, text: { cs: "Sbohem", en: "Farewell" } }),
+        phrase({ id: "family-1", sortOrder: 1 }),
+        phrase({ id: "family-hidden", active: false }),
+      ],
+      "en"
+    );
+
+    expect(groups).toEqual([
+      {
+        relationship: "family",
+        phrases: [
+          { id: "family-1", text: "Forever in our hearts" },
+          { id: "family-2", text: "Farewell" },
+        ],
+      },
+      { relationship: "friends", phrases: [{ id: "friends-1", text: "Forever in our hearts" }] },
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Ribbon text layout
+ * Breaks ribbon text into the lines that will be printed, based on how many characters each
+ * ribbon width holds, and maps ribbon color choices to the colors of the preview.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+export type RibbonWidthMm = 50 | 75 | 100;
+
+/**
+ * Printable area of a ribbon
+ * Text runs along the ribbon: the width limits the letter height and so the number of lines,
+ * the printable length limits the characters per line.
+ */
+export interface RibbonWidthSpec {
+  widthMm: RibbonWidthMm;
+  charactersPerLine: number;
+  maxLines: number;
+}
+
+export interface RibbonTextLayout {
+  lines: string[];
+  // The text needs more lines than the ribbon holds
+  overflow: boolean;
+}
+
+export interface RibbonColorStyle {
+  background: string;
+  text: string;
+}
+
+export const RIBBON_WIDTHS: Record<RibbonWidthMm, RibbonWidthSpec> = {
+  50: { widthMm: 50, charactersPerLine: 22, maxLines: 2 },
+  75: { widthMm: 75, charactersPerLine: 28, maxLines: 2 },
+  100: { widthMm: 100, charactersPerLine: 32, maxLines: 3 },
+};
+
+// Wreaths from this diameter (cm) up get the ribbon width, checked top-down
+const RIBBON_WIDTH_BY_DIAMETER: ReadonlyArray<readonly [number, RibbonWidthMm]> = [
+  [150, 100],
+  [100, 75],
+  [0, 50],
+];
+
+const DEFAULT_RIBBON_WIDTH: RibbonWidthMm = 75;
+
+// Keyed by the ribbon_color choice IDs; black ribbons are printed in gold
+const RIBBON_COLOR_STYLES: Record<string, RibbonColorStyle> = {
+  color_black: { background: "#111111", text: "#D4AF37" },
+  color_white: { background: "#FAFAF7", text: "#1F1F1F" },
+};
+
+const DEFAULT_RIBBON_COLOR_STYLE: RibbonColorStyle = { background: "#FAFAF7", text: "#1F1F1F" };
+
+// Czech typography: one-letter prepositions and conjunctions never end a line
+const ONE_LETTER_WORD = /^[aikosuvz]$/i;
+
+/**
+ * Ribbon width used for a wreath size
+ *
+ * @param sizeChoiceId - Size choice ID carrying the diameter in cm (e.g. "size_120")
+ * @returns The width spec, or the default width when the size is unknown
+ */
+export function getRibbonWidthForSize(sizeChoiceId?: string | null): RibbonWidthSpec {
+  const diameter = Number(/\d+/.exec(sizeChoiceId ?? "")?.[0]);
+  if (!Number.isFinite(diameter)) {
+    return RIBBON_WIDTHS[DEFAULT_RIBBON_WIDTH];
+  }
+
+  const match = RIBBON_WIDTH_BY_DIAMETER.find(([minDiameter]) => diameter >= minDiameter);
+  return RIBBON_WIDTHS[match?.[1] ?? DEFAULT_RIBBON_WIDTH];
+}
+
+export function getRibbonColorStyle(colorChoiceId?: string | null): RibbonColorStyle {
+  return (colorChoiceId && RIBBON_COLOR_STYLES[colorChoiceId]) || DEFAULT_RIBBON_COLOR_STYLE;
+}
+
+/**
+ * Split a paragraph into units that may not be broken, gluing one-letter words to the next word
+ */
+function toBreakUnits(paragraph: string): string[] {
+  const units: string[] = [];
+  let pending = "";
+
+  for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+    const unit = pending ? `${pending} ${word}` : word;
+    if (ONE_LETTER_WORD.test(word)) {
+      pending = unit;
+      continue;
+    }
+    units.push(unit);
+    pending = "";
+  }
+
+  if (pending) {
+    units.push(pending);
+  }
+
+  return units;
+}
+
+/**
+ * Break ribbon text into printed lines
+ * Lines are filled word by word up to the characters per line; line breaks typed by the
+ * customer are kept. A word longer than a line gets a line of its own and counts as overflow.
+ */
+export function breakRibbonText(text: string, width: RibbonWidthSpec): RibbonTextLayout {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+
+    for (const unit of toBreakUnits(paragraph)) {
+      const candidate = line ? `${line} ${unit}` : unit;
+      if (line && candidate.length > width.charactersPerLine) {
+        lines.push(line);
+        line = unit;
+      } else {
+        line = candidate;
+      }
+    }
+
+    if (line) {
+      lines.push(line);
+    }
+  }
+
+  return {
+    lines,
+    overflow:
+      lines.length > width.maxLines || lines.some((line) => line.length > width.charactersPerLine),
+  };
+}
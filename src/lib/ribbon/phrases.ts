@@ -0,0 +1,103 @@
+/**
+ * Ribbon phrase library
+ * Curated condolence phrases customers can pick for the ribbon text, grouped by the mourner's
+ * relationship to the deceased and managed from the admin.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { LocalizedContent } from "@/types";
+
+export type RibbonPhraseRelationship = "family" | "colleagues" | "friends";
+
+export type RibbonPhraseErrorCode = "INVALID_PHRASE" | "PHRASE_NOT_FOUND" | "DUPLICATE_PHRASE";
+
+export class RibbonPhraseError extends Error {
+  constructor(
+    message: string,
+    public code: RibbonPhraseErrorCode
+  ) {
+    super(message);
+    this.name = "RibbonPhraseError";
+  }
+}
+
+export interface RibbonPhrase {
+  id: string;
+  relationship: RibbonPhraseRelationship;
+  text: LocalizedContent;
+  sortOrder: number;
+  active: boolean;
+}
+
+/**
+ * Phrase as submitted from the admin
+ */
+export interface RibbonPhraseInput {
+  relationship: RibbonPhraseRelationship;
+  text: LocalizedContent;
+  sortOrder?: number;
+  active?: boolean;
+}
+
+export interface RibbonPhraseGroup {
+  relationship: RibbonPhraseRelationship;
+  phrases: Array<{ id: string; text: string }>;
+}
+
+export const RIBBON_PHRASE_RELATIONSHIPS: readonly RibbonPhraseRelationship[] = [
+  "family",
+  "colleagues",
+  "friends",
+];
+
+// A picked phrase becomes the custom ribbon text, so it obeys the same limit
+export const RIBBON_PHRASE_MAX_LENGTH = 50;
+
+/**
+ * Validate a phrase submitted from the admin
+ *
+ * @returns The input with trimmed texts
+ * @throws RibbonPhraseError when the phrase is invalid
+ */
+export function validateRibbonPhraseInput(input: RibbonPhraseInput): RibbonPhraseInput {
+  if (!RIBBON_PHRASE_RELATIONSHIPS.includes(input.relationship)) {
+    throw new RibbonPhraseError("Neplatný vztah k zesnulému", "INVALID_PHRASE");
+  }
+
+  const cs = input.text?.cs?.trim() ?? "";
+  const en = input.text?.en?.trim() ?? "";
+
+  if (!(cs && en)) {
+    throw new RibbonPhraseError("Text fráze je povinný v češtině i angličtině", "INVALID_PHRASE");
+  }
+
+  if (cs.length > RIBBON_PHRASE_MAX_LENGTH || en.length > RIBBON_PHRASE_MAX_LENGTH) {
+    throw new RibbonPhraseError(
+      `Text fráze může mít nejvýše ${RIBBON_PHRASE_MAX_LENGTH} znaků`,
+      "INVALID_PHRASE"
+    );
+  }
+
+  if (input.sortOrder !== undefined && !Number.isInteger(input.sortOrder)) {
+    throw new RibbonPhraseError("Neplatné pořadí fráze", "INVALID_PHRASE");
+  }
+
+  return { ...input, text: { cs, en } };
+}
+
+/**
+ * Active phrases grouped by relationship in the order of RIBBON_PHRASE_RELATIONSHIPS
+ * Groups without phrases are left out.
+ */
+export function groupRibbonPhrases(
+  phrases: RibbonPhrase[],
+  locale: keyof LocalizedContent
+): RibbonPhraseGroup[] {
+  return RIBBON_PHRASE_RELATIONSHIPS.map((relationship) => ({
+    relationship,
+    phrases: phrases
+      .filter((phrase) => phrase.active && phrase.relationship === relationship)
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+      .map((phrase) => ({ id: phrase.id, text: phrase.text[locale] })),
+  })).filter((group) => group.phrases.length > 0);
+}
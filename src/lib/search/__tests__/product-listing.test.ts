@@ -0,0 +1,141 @@
+/**
+ * Tests for product listing sort orders, facets and URL state
+ */
+
+import { describe, expect, it } from "vitest";
+import type { CustomizationOption } from "@/types/product";
+import {
+  buildProductListingQuery,
+  countProductFacets,
+  type ListingProduct,
+  PRODUCT_SORT_ORDERS,
+  parseProductListingQuery,
+  sortByPopularity,
+} from "../product-listing";
+
+function option(type: "size" | "flowers", labels: string[]): CustomizationOption {
+  return {
+    id: `opt_${type}`,
+    type,
+    name: type,
+    required: false,
+    choices: labels.map((label, index) => ({
+      id: `choice_${type}_${index}`,
+      label: { cs: label, en: label },
+      priceModifier: 0,
+    })),
+  };
+}
+
+function product(
+  id: string,
+  categorySlug: string,
+  basePrice: number,
+  sizes: string[],
+  flowers: string[]
+): ListingProduct {
+  return {
+    id,
+    categoryId: `cat_${categorySlug}`,
+    category: { slug: categorySlug, name: { cs: categorySlug, en: categorySlug } },
+    basePrice,
+    featured: false,
+    inStock: true,
+    customizationOptions: [option("size", sizes), option("flowers", flowers)],
+  };
+}
+
+const products = [
+  product("a", "vence", 1200, ["70 cm"], ["Růže"]),
+  product("b", "vence", 2200, ["70 cm", "100 cm"], ["Růže", "Lilie"]),
+  product("c", "kytice", 3000, ["100 cm"], ["Lilie"]),
+  product("d", "vence", 4500, ["120 cm"], ["Chryzantémy"]),
+];
+
+describe("countProductFacets", () => {
+  it("counts each facet with the other filters applied", () => {
+    const facets = countProductFacets(products, { categorySlug: "vence", flowers: ["ruze"] });
+
+    expect(facets.categories).toEqual([
+      { value: "vence", label: { cs: "vence", en: "vence" }, count: 2 },
+    ]);
+    expect(facets.flowers.map(({ value, count }) => [value, count])).toEqual([
+      ["chryzantemy", 1],
+      ["lilie", 1],
+      ["ruze", 2],
+    ]);
+    expect(facets.sizes.map(({ value, count }) => [value, count])).toEqual([
+      ["70-cm", 2],
+      ["100-cm", 1],
+    ]);
+    expect(facets.prices.map(({ value, count }) => [value, count])).toEqual([
+      ["-1500", 1],
+      ["1500-2500", 1],
+    ]);
+  });
+
+  it("keeps selected values without products so they can be cleared", () => {
+    const facets = countProductFacets(products, { sizes: ["200-cm"] });
+
+    expect(facets.sizes.find((value) => value.value === "200-cm")?.count).toBe(0);
+  });
+});
+
+describe("sortByPopularity", () => {
+  it("puts the most ordered products first and keeps ties in order", () => {
+    const counts = new Map([
+      ["c", 5],
+      ["b", 2],
+    ]);
+
+    expect(sortByPopularity(products, counts).map((entry) => entry.id)).toEqual([
+      "c",
+      "b",
+      "a",
+      "d",
+    ]);
+  });
+});
+
+describe("listing URL", () => {
+  it("round-trips filters and sort order in a canonical query", () => {
+    const query = buildProductListingQuery(
+      {
+        categorySlug: "vence",
+        minPrice: 1500,
+        maxPrice: 2500,
+        flowers: ["ruze", "lilie"],
+        inStock: true,
+      },
+      PRODUCT_SORT_ORDERS["price-asc"]
+    );
+
+    expect(query.toString()).toBe(
+      "category=vence&price=1500-2500&flowers=lilie%2Cruze&inStock=true&sort=price-asc"
+    );
+    expect(parseProductListingQuery(query)).toEqual({
+      filters: {
+        categorySlug: "vence",
+        minPrice: 1500,
+        maxPrice: 2500,
+        flowers: ["lilie", "ruze"],
+        inStock: true,
+      },
+      sort: PRODUCT_SORT_ORDERS["price-asc"],
+    });
+  });
+
+  it("leaves default sort orders out and ignores malformed values", () => {
+    expect(
+      buildProductListingQuery({ search: "věnec" }, PRODUCT_SORT_ORDERS.relevance).toString()
+    ).toBe("q=v%C4%9Bnec");
+    expect(parseProductListingQuery({ q: "věnec" }).sort).toEqual(PRODUCT_SORT_ORDERS.relevance);
+    expect(parseProductListingQuery({ price: "3000-1000", sort: "cheapest" })).toEqual({
+      filters: {},
+      sort: PRODUCT_SORT_ORDERS.newest,
+    });
+    expect(parseProductListingQuery({ sort: "relevance" }).sort).toEqual(
+      PRODUCT_SORT_ORDERS.newest
+    );
+  });
+});
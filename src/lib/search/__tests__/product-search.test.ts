@@ -0,0 +1,46 @@
+/**
+ * Tests for product search helpers
+ */
+
+import { describe, expect, it } from "vitest";
+import {
+  hasSearchHighlight,
+  normalizeProductSearchTerm,
+  PRODUCT_SEARCH_MAX_LENGTH,
+  parseSearchHighlight,
+} from "../product-search";
+
+describe("normalizeProductSearchTerm", () => {
+  it("keeps Czech words and drops filter and query syntax", () => {
+    expect(normalizeProductSearchTerm("  Věnec, růže & (lilie)*  ")).toBe("Věnec růže lilie");
+    expect(normalizeProductSearchTerm("name_cs.ilike.*x*")).toBe("name cs ilike x");
+    expect(normalizeProductSearchTerm("!!!")).toBe("");
+    expect(normalizeProductSearchTerm(undefined)).toBe("");
+  });
+
+  it("limits the length of the term", () => {
+    expect(normalizeProductSearchTerm("a".repeat(150))).toHaveLength(PRODUCT_SEARCH_MAX_LENGTH);
+  });
+});
+
+describe("parseSearchHighlight", () => {
+  it("splits a headline into plain and highlighted segments", () => {
+    const segments = parseSearchHighlight("Smuteční \u0001věnec\u0002 z \u0001růží\u0002");
+
+    expect(segments).toEqual([
+      { text: "Smuteční ", highlighted: false },
+      { text: "věnec", highlighted: true },
+      { text: " z ", highlighted: false },
+      { text: "růží", highlighted: true },
+    ]);
+    expect(hasSearchHighlight(segments)).toBe(true);
+  });
+
+  it("returns plain text when nothing matched", () => {
+    const segments = parseSearchHighlight("Kytice bílých lilií");
+
+    expect(segments).toEqual([{ text: "Kytice bílých lilií", highlighted: false }]);
+    expect(hasSearchHighlight(segments)).toBe(false);
+    expect(parseSearchHighlight(null)).toEqual([]);
+  });
+});
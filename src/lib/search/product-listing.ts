@@ -0,0 +1,391 @@
+/**
+ * Product listing
+ * Sort orders, facet counts (categories, price buckets, sizes, flower types) and the URL query
+ * the listing state is kept in, so filtered listings can be shared, bookmarked and crawled.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { LocalizedContent } from "@/types";
+import type {
+  CustomizationOption,
+  CustomizationType,
+  ProductFacets,
+  ProductFacetValue,
+  ProductFilters,
+  ProductPriceFacet,
+  ProductSortOptions,
+} from "@/types/product";
+import { slugify } from "../utils";
+import { normalizeProductSearchTerm } from "./product-search";
+
+// Sort orders offered in the listing, keyed by their value in the URL
+export type ProductSortKey =
+  | "newest"
+  | "popular"
+  | "price-asc"
+  | "price-desc"
+  | "name-asc"
+  | "relevance";
+
+export const PRODUCT_SORT_ORDERS: Record<ProductSortKey, ProductSortOptions> = {
+  newest: { field: "created_at", direction: "desc" },
+  popular: { field: "popularity", direction: "desc" },
+  "price-asc": { field: "price", direction: "asc" },
+  "price-desc": { field: "price", direction: "desc" },
+  "name-asc": { field: "name", direction: "asc" },
+  relevance: { field: "relevance", direction: "desc" },
+};
+
+export const DEFAULT_PRODUCT_SORT = PRODUCT_SORT_ORDERS.newest;
+
+// Customization option types customers can filter by
+export type ProductAttributeType = Extract<CustomizationType, "size" | "flowers">;
+
+export interface PriceRange {
+  min?: number;
+  max?: number;
+}
+
+// Price buckets in CZK; a product priced on a boundary falls into both neighbours
+export const PRICE_BUCKETS: PriceRange[] = [
+  { max: 1500 },
+  { min: 1500, max: 2500 },
+  { min: 2500, max: 4000 },
+  { min: 4000 },
+];
+
+/**
+ * Active product as far as filtering and facets go
+ */
+export interface ListingProduct {
+  id: string;
+  categoryId: string | null;
+  category: { slug: string; name: LocalizedContent } | null;
+  basePrice: number;
+  featured: boolean;
+  inStock: boolean;
+  customizationOptions: CustomizationOption[];
+}
+
+export interface ProductListingState {
+  filters: ProductFilters;
+  sort: ProductSortOptions;
+}
+
+type ListingQuery = URLSearchParams | Record<string, string | string[] | undefined>;
+type ListingFacet = keyof ProductFacets;
+
+const SORT_KEYS = Object.keys(PRODUCT_SORT_ORDERS) as ProductSortKey[];
+
+function toLocalized(value: LocalizedContent | string): LocalizedContent {
+  return typeof value === "string" ? { cs: value, en: value } : value;
+}
+
+function getQueryValue(query: ListingQuery, key: string): string | undefined {
+  if (query instanceof URLSearchParams) {
+    return query.get(key) ?? undefined;
+  }
+
+  const value = query[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseList(value: string | undefined): string[] {
+  return [...new Set((value ?? "").split(",").map(slugify).filter(Boolean))].sort();
+}
+
+function parsePrice(value: string): number | undefined {
+  const price = Number(value);
+  return value !== "" && Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+/**
+ * Key of a sort order, "newest" for orders the listing does not offer
+ */
+export function getProductSortKey(sort: ProductSortOptions): ProductSortKey {
+  return (
+    SORT_KEYS.find(
+      (key) =>
+        PRODUCT_SORT_ORDERS[key].field === sort.field &&
+        PRODUCT_SORT_ORDERS[key].direction === sort.direction
+    ) ?? "newest"
+  );
+}
+
+/**
+ * Sort order used when none is asked for: searches are ranked by relevance
+ */
+export function getDefaultProductSort(filters: ProductFilters): ProductSortOptions {
+  return filters.search ? PRODUCT_SORT_ORDERS.relevance : DEFAULT_PRODUCT_SORT;
+}
+
+/**
+ * Price range in the URL: "1500-2500", "-1500" or "4000-"
+ */
+export function formatPriceRange(range: PriceRange): string {
+  return `${range.min ?? ""}-${range.max ?? ""}`;
+}
+
+/**
+ * @returns The range, or null when the value is not a price range
+ */
+export function parsePriceRange(value: string | undefined): PriceRange | null {
+  const [from = "", to = "", ...rest] = (value ?? "").split("-");
+  const min = parsePrice(from);
+  const max = parsePrice(to);
+
+  if (rest.length > 0 || (min === undefined && max === undefined)) {
+    return null;
+  }
+  if (min !== undefined && max !== undefined && min > max) {
+    return null;
+  }
+
+  return { ...(min !== undefined && { min }), ...(max !== undefined && { max }) };
+}
+
+/**
+ * Values of the size or flower type choices a product offers, keyed by the slug of the
+ * Czech label so the same choice on different products shares a value
+ */
+export function getProductAttributeValues(
+  options: CustomizationOption[],
+  type: ProductAttributeType
+): Map<string, LocalizedContent> {
+  const values = new Map<string, LocalizedContent>();
+
+  for (const option of options) {
+    if (option.type !== type) {
+      continue;
+    }
+
+    for (const choice of option.choices || []) {
+      const label = toLocalized(choice.label);
+      const value = slugify(label.cs) || choice.id;
+      if (choice.available !== false && !values.has(value)) {
+        values.set(value, label);
+      }
+    }
+  }
+
+  return values;
+}
+
+function matchesAttribute(
+  product: ListingProduct,
+  type: ProductAttributeType,
+  selected: string[] | undefined
+): boolean {
+  if (!selected?.length) {
+    return true;
+  }
+
+  const values = getProductAttributeValues(product.customizationOptions, type);
+  return selected.some((value) => values.has(value));
+}
+
+function matchesPrice(product: ListingProduct, range: PriceRange): boolean {
+  return (
+    (range.min === undefined || product.basePrice >= range.min) &&
+    (range.max === undefined || product.basePrice <= range.max)
+  );
+}
+
+function matchesCategory(product: ListingProduct, filters: ProductFilters): boolean {
+  return (
+    (!filters.categoryId || product.categoryId === filters.categoryId) &&
+    (!filters.categorySlug || product.category?.slug === filters.categorySlug)
+  );
+}
+
+/**
+ * Whether a product passes the filters, leaving out the filter of one facet
+ * The search term is not checked here; callers narrow the products to the search matches.
+ */
+export function matchesProductFilters(
+  product: ListingProduct,
+  filters: ProductFilters,
+  ignore?: ListingFacet
+): boolean {
+  if ((filters.inStock && !product.inStock) || (filters.featured && !product.featured)) {
+    return false;
+  }
+
+  return (
+    (ignore === "categories" || matchesCategory(product, filters)) &&
+    (ignore === "prices" ||
+      matchesPrice(product, {
+        ...(filters.minPrice !== undefined && { min: filters.minPrice }),
+        ...(filters.maxPrice !== undefined && { max: filters.maxPrice }),
+      })) &&
+    (ignore === "sizes" || matchesAttribute(product, "size", filters.sizes)) &&
+    (ignore === "flowers" || matchesAttribute(product, "flowers", filters.flowers))
+  );
+}
+
+function countValues(
+  counts: Map<string, ProductFacetValue>,
+  values: Map<string, LocalizedContent>
+): void {
+  for (const [value, label] of values) {
+    const entry = counts.get(value) ?? { value, label, count: 0 };
+    entry.count += 1;
+    counts.set(value, entry);
+  }
+}
+
+// Values with products, plus selected ones so they can still be cleared
+function toFacetValues(
+  counts: Map<string, ProductFacetValue>,
+  selected: string[]
+): ProductFacetValue[] {
+  for (const value of selected) {
+    if (!counts.has(value)) {
+      counts.set(value, { value, label: { cs: value, en: value }, count: 0 });
+    }
+  }
+
+  return [...counts.values()].sort((a, b) =>
+    a.label.cs.localeCompare(b.label.cs, "cs", { numeric: true })
+  );
+}
+
+/**
+ * Number of products each facet value would show
+ * Each facet is counted with every other filter applied but its own, so choosing another
+ * value of the same facet shows the count next to it.
+ */
+export function countProductFacets(
+  products: ListingProduct[],
+  filters: ProductFilters
+): ProductFacets {
+  const categories = new Map<string, ProductFacetValue>();
+  const sizes = new Map<string, ProductFacetValue>();
+  const flowers = new Map<string, ProductFacetValue>();
+  const priceCandidates: ListingProduct[] = [];
+
+  for (const product of products) {
+    if (product.category && matchesProductFilters(product, filters, "categories")) {
+      countValues(categories, new Map([[product.category.slug, product.category.name]]));
+    }
+    if (matchesProductFilters(product, filters, "prices")) {
+      priceCandidates.push(product);
+    }
+    if (matchesProductFilters(product, filters, "sizes")) {
+      countValues(sizes, getProductAttributeValues(product.customizationOptions, "size"));
+    }
+    if (matchesProductFilters(product, filters, "flowers")) {
+      countValues(flowers, getProductAttributeValues(product.customizationOptions, "flowers"));
+    }
+  }
+
+  const prices: ProductPriceFacet[] = PRICE_BUCKETS.map((bucket) => ({
+    ...bucket,
+    value: formatPriceRange(bucket),
+    count: priceCandidates.filter((product) => matchesPrice(product, bucket)).length,
+  })).filter(
+    (bucket) =>
+      bucket.count > 0 || (bucket.min === filters.minPrice && bucket.max === filters.maxPrice)
+  );
+
+  return {
+    categories: toFacetValues(categories, filters.categorySlug ? [filters.categorySlug] : []),
+    prices,
+    sizes: toFacetValues(sizes, filters.sizes ?? []),
+    flowers: toFacetValues(flowers, filters.flowers ?? []),
+  };
+}
+
+/**
+ * Order products by how many orders they were in, most ordered first
+ * The sort is stable, so products ordered equally often keep their order.
+ */
+export function sortByPopularity<T extends { id: string }>(
+  products: T[],
+  orderCounts: Map<string, number>,
+  direction: ProductSortOptions["direction"] = "desc"
+): T[] {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...products].sort(
+    (a, b) => sign * ((orderCounts.get(a.id) ?? 0) - (orderCounts.get(b.id) ?? 0))
+  );
+}
+
+/**
+ * Listing state from the page URL
+ * Unknown sort orders and malformed values are ignored.
+ */
+export function parseProductListingQuery(query: ListingQuery): ProductListingState {
+  const search = normalizeProductSearchTerm(getQueryValue(query, "q"));
+  const category = slugify(getQueryValue(query, "category") ?? "");
+  const price = parsePriceRange(getQueryValue(query, "price"));
+  const sizes = parseList(getQueryValue(query, "size"));
+  const flowers = parseList(getQueryValue(query, "flowers"));
+
+  const filters: ProductFilters = {
+    ...(search && { search }),
+    ...(category && { categorySlug: category }),
+    ...(price?.min !== undefined && { minPrice: price.min }),
+    ...(price?.max !== undefined && { maxPrice: price.max }),
+    ...(sizes.length > 0 && { sizes }),
+    ...(flowers.length > 0 && { flowers }),
+    ...(getQueryValue(query, "inStock") === "true" && { inStock: true }),
+    ...(getQueryValue(query, "featured") === "true" && { featured: true }),
+  };
+
+  const sortKey = getQueryValue(query, "sort") as ProductSortKey | undefined;
+  const sort =
+    sortKey && SORT_KEYS.includes(sortKey) && (sortKey !== "relevance" || search)
+      ? PRODUCT_SORT_ORDERS[sortKey]
+      : getDefaultProductSort(filters);
+
+  return { filters, sort };
+}
+
+/**
+ * URL query of a listing state, with keys in a fixed order and defaults left out so every
+ * listing has one URL
+ * Without a sort order the query is the canonical one of the filtered listing.
+ */
+export function buildProductListingQuery(
+  filters: ProductFilters,
+  sort?: ProductSortOptions
+): URLSearchParams {
+  const query = new URLSearchParams();
+  const search = normalizeProductSearchTerm(filters.search);
+
+  if (search) {
+    query.set("q", search);
+  }
+  if (filters.categorySlug) {
+    query.set("category", filters.categorySlug);
+  }
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    query.set(
+      "price",
+      formatPriceRange({
+        ...(filters.minPrice !== undefined && { min: filters.minPrice }),
+        ...(filters.maxPrice !== undefined && { max: filters.maxPrice }),
+      })
+    );
+  }
+  if (filters.sizes?.length) {
+    query.set("size", [...filters.sizes].sort().join(","));
+  }
+  if (filters.flowers?.length) {
+    query.set("flowers", [...filters.flowers].sort().join(","));
+  }
+  if (filters.inStock) {
+    query.set("inStock", "true");
+  }
+  if (filters.featured) {
+    query.set("featured", "true");
+  }
+
+  const sortKey = sort && getProductSortKey(sort);
+  if (sortKey && sortKey !== getProductSortKey(getDefaultProductSort({ ...filters, search }))) {
+    query.set("sort", sortKey);
+  }
+
+  return query;
+}
@@ -0,0 +1,66 @@
+/**
+ * Product search
+ * Normalizes search terms typed by customers and turns the highlighted headlines returned by
+ * the search_products() database function into text segments that render without HTML.
+ * Pure module - safe to import from both server routes and client components.
+ */
+
+import type { SearchHighlightSegment } from "@/types/product";
+
+export const PRODUCT_SEARCH_MAX_LENGTH = 100;
+
+// Typeahead starts after two characters and offers a handful of products
+export const PRODUCT_SUGGESTION_MIN_LENGTH = 2;
+export const PRODUCT_SUGGESTION_LIMIT = 6;
+
+// Markers search_products() wraps matched words in (keep in sync with the migration)
+export const SEARCH_HIGHLIGHT_START = "\u0001";
+export const SEARCH_HIGHLIGHT_END = "\u0002";
+
+// Anything but letters, digits and spaces separates words
+const NON_WORD_CHARACTERS = /[^\p{L}\p{N}\s]+/gu;
+
+/**
+ * Normalize a search typed by the customer to words of letters and digits
+ * Returns an empty string when nothing searchable is left.
+ */
+export function normalizeProductSearchTerm(term: string | null | undefined): string {
+  return (term ?? "")
+    .replace(NON_WORD_CHARACTERS, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, PRODUCT_SEARCH_MAX_LENGTH)
+    .trim();
+}
+
+/**
+ * Split a headline from search_products() into plain and highlighted segments
+ * Adjacent highlighted words are kept in separate segments, empty segments are dropped.
+ */
+export function parseSearchHighlight(
+  headline: string | null | undefined
+): SearchHighlightSegment[] {
+  const segments: SearchHighlightSegment[] = [];
+
+  for (const part of (headline ?? "").split(SEARCH_HIGHLIGHT_START)) {
+    const end = part.indexOf(SEARCH_HIGHLIGHT_END);
+    const highlighted = end === -1 ? "" : part.slice(0, end);
+    const plain = end === -1 ? part : part.slice(end + SEARCH_HIGHLIGHT_END.length);
+
+    if (highlighted) {
+      segments.push({ text: highlighted, highlighted: true });
+    }
+    if (plain) {
+      segments.push({ text: plain.replaceAll(SEARCH_HIGHLIGHT_END, ""), highlighted: false });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Whether any part of the text matched the search term
+ */
+export function hasSearchHighlight(segments: SearchHighlightSegment[]): boolean {
+  return segments.some((segment) => segment.highlighted);
+}
@@ -3,7 +3,9 @@
  * Handles data export, deletion, and privacy rights
  */
 
-import { createClient } from "@/lib/supabase/server";
+import { createHmac } from "node:crypto";
+import type { Json } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
 
 export interface GDPRDataExport {
   user: {
@@ -16,11 +18,28 @@ export interface GDPRDataExport {
   };
   orders: Array<{
     id: string;
+    orderNumber: string;
     status: string;
     totalAmount: number;
     customerInfo: any;
     deliveryInfo: any;
     items: any[];
+    notes: string | undefined;
+    createdAt: string;
+  }>;
+  orderStatusHistory: Array<{
+    orderId: string;
+    fromStatus: string | undefined;
+    toStatus: string;
+    note: string | undefined;
+    createdAt: string;
+  }>;
+  smsNotifications: Array<{
+    orderId: string;
+    orderStatus: string;
+    phone: string;
+    status: string;
+    sentAt: string | undefined;
     createdAt: string;
   }>;
   cartItems: Array<{
@@ -43,6 +62,43 @@ export interface GDPRDataExport {
     currency: string;
     notifications: any;
   };
+  contactForms: Array<{
+    id: string;
+    name: string;
+    email: string;
+    phone: string | undefined;
+    subject: string;
+    message: string;
+    status: string;
+    createdAt: string;
+  }>;
+  paymentErrors: Array<{
+    id: string;
+    orderId: string | undefined;
+    errorType: string;
+    message: string;
+    amount: number | undefined;
+    currency: string | undefined;
+    createdAt: string;
+  }>;
+  discountRedemptions: Array<{
+    orderId: string;
+    discountAmount: number;
+    createdAt: string;
+  }>;
+  consentHistory: Array<{
+    purpose: string;
+    policyVersion: string;
+    granted: boolean;
+    source: string;
+    createdAt: string;
+  }>;
+  dataRequests: Array<{
+    type: string;
+    status: string;
+    createdAt: string;
+    completedAt: string | undefined;
+  }>;
   activityLog: Array<{
     action: string;
     timestamp: string;
@@ -58,19 +114,62 @@ export interface GDPRDeletionResult {
     cartItems: number;
     addresses: number;
     activityLog: number;
+    contactForms: number;
+    consentRecords: number;
   };
   errors: string[] | undefined;
 }
 
+export type GDPRRequestType = "export" | "erasure";
+
+export type GDPRRequestStatus = "pending" | "completed" | "failed" | "cancelled";
+
+/**
+ * Key for hashes that pseudonymise personal data
+ * Fails closed: without a secret the hashes could be reversed by brute force (the IPv4 space
+ * is tiny), so nothing is stored instead.
+ *
+ * @throws Error when NEXTAUTH_SECRET is not set
+ */
+export function getPseudonymizationKey(): string {
+  const secret = process.env["NEXTAUTH_SECRET"];
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET must be set to pseudonymise personal data");
+  }
+  return secret;
+}
+
+/**
+ * Keyed hash of a client IP so requests and consent can be attributed without storing the address
+ */
+export function hashIpAddress(ipAddress: string | undefined): string | null {
+  const ip = ipAddress?.split(",")[0]?.trim();
+  if (!ip || ip === "unknown") {
+    return null;
+  }
+
+  return createHmac("sha256", getPseudonymizationKey()).update(ip).digest("hex");
+}
+
+function unwrapRows<T>(
+  label: string,
+  result: { data: T[] | null; error: { message: string } | null }
+): T[] {
+  if (result.error) {
+    console.error(`Error fetching ${label}:`, result.error);
+  }
+  return result.data || [];
+}
+
 /**
  * Export all user data for GDPR compliance
+ * Covers every table holding the user's personal data, including guest orders, contact forms and
+ * payment errors filed under the account email.
  */
 export async function exportUserData(userId: string): Promise<GDPRDataExport | null> {
   try {
-    const supabase = await createClient();
-
     // Get user profile
-    const { data: userProfile, error: userError } = await supabase
+    const { data: userProfile, error: userError } = await supabaseAdmin
       .from("user_profiles")
       .select("*")
       .eq("id", userId)
@@ -81,31 +180,63 @@ export async function exportUserData(userId: string): Promise<GDPRDataExport | n
       return null;
     }
 
-    // Get user orders
-    const { data: orders, error: ordersError } = await supabase
-      .from("orders")
-      .select("*")
-      .eq("user_id", userId)
-      .order("created_at", { ascending: false });
-
-    if (ordersError) {
-      console.error("Error fetching orders:", ordersError);
-    }
-
-    // Get cart items
-    const { data: cartItems, error: cartError } = await supabase
-      .from("cart_items")
-      .select("*")
-      .eq("user_id", userId);
-
-    if (cartError) {
-      console.error("Error fetching cart items:", cartError);
-    }
-
-    // Note: user_addresses and user_activity_log tables don't exist in current schema
-    // These would need to be created if address and activity tracking is needed
-    // Removed unused addresses variable
-    const activityLog: any[] = [];
+    const email = userProfile.email;
+
+    const [
+      accountOrdersResult,
+      guestOrdersResult,
+      cartItemsResult,
+      contactFormsResult,
+      paymentErrorsResult,
+      redemptionsResult,
+      consentResult,
+      requestsResult,
+      activityResult,
+    ] = await Promise.all([
+      supabaseAdmin.from("orders").select("*").eq("user_id", userId),
+      supabaseAdmin.from("orders").select("*").eq("customer_info->>email", email),
+      supabaseAdmin.from("cart_items").select("*").eq("user_id", userId),
+      supabaseAdmin.from("contact_forms").select("*").eq("email", email),
+      supabaseAdmin.from("payment_errors").select("*").eq("customer_email", email),
+      supabaseAdmin.from("discount_code_redemptions").select("*").eq("customer_email", email),
+      supabaseAdmin.from("consent_records").select("*").eq("user_id", userId),
+      supabaseAdmin.from("gdpr_requests").select("*").eq("user_id", userId),
+      supabaseAdmin
+        .from("admin_activity_log")
+        .select("*")
+        .or(`admin_id.eq.${userId},resource_id.eq.${userId}`),
+    ]);
+
+    // Orders placed while signed in and as a guest with the account email
+    const orders = [
+      ...new Map(
+        [
+          ...unwrapRows("orders", accountOrdersResult),
+          ...unwrapRows("guest orders", guestOrdersResult),
+        ].map((order) => [order.id, order])
+      ).values(),
+    ].sort((a, b) => (b.created_at ?? "").localeCompare(a.created_at ?? ""));
+
+    const orderIds = orders.map((order) => order.id);
+    const [statusHistory, smsNotifications] =
+      orderIds.length > 0
+        ? await Promise.all([
+            supabaseAdmin
+              .from("order_status_history")
+              .select("*")
+              .in("order_id", orderIds)
+              .order("created_at", { ascending: true })
+              .then((result) => unwrapRows("order status history", result)),
+            supabaseAdmin
+              .from("sms_outbox")
+              .select("*")
+              .in("order_id", orderIds)
+              .order("created_at", { ascending: true })
+              .then((result) => unwrapRows("SMS notifications", result)),
+          ])
+        : [[], []];
+
+    const cartItems = unwrapRows("cart items", cartItemsResult);
 
     // Compile export data
     const exportData: GDPRDataExport = {
@@ -117,24 +248,39 @@ export async function exportUserData(userId: string): Promise<GDPRDataExport | n
         createdAt: userProfile.created_at || new Date().toISOString(),
         updatedAt: userProfile.updated_at || new Date().toISOString(),
       },
-      orders:
-        orders?.map((order) => ({
-          id: order.id,
-          status: order.status || "pending",
-          totalAmount: order.total_amount,
-          customerInfo: order.customer_info,
-          deliveryInfo: order.delivery_info,
-          items: Array.isArray(order.items) ? order.items : [],
-          createdAt: order.created_at || new Date().toISOString(),
-        })) || [],
-      cartItems:
-        cartItems?.map((item) => ({
-          id: item.id,
-          productId: item.product_id || "",
-          quantity: item.quantity,
-          customizations: Array.isArray(item.customizations) ? item.customizations : [],
-          createdAt: item.created_at || new Date().toISOString(),
-        })) || [],
+      orders: orders.map((order) => ({
+        id: order.id,
+        orderNumber: order.order_number,
+        status: order.status || "pending",
+        totalAmount: order.total_amount,
+        customerInfo: order.customer_info,
+        deliveryInfo: order.delivery_info,
+        items: Array.isArray(order.items) ? order.items : [],
+        notes: order.notes || undefined,
+        createdAt: order.created_at || new Date().toISOString(),
+      })),
+      orderStatusHistory: statusHistory.map((entry) => ({
+        orderId: entry.order_id,
+        fromStatus: entry.from_status || undefined,
+        toStatus: entry.to_status,
+        note: entry.note || undefined,
+        createdAt: entry.created_at,
+      })),
+      smsNotifications: smsNotifications.map((sms) => ({
+        orderId: sms.order_id,
+        orderStatus: sms.order_status,
+        phone: sms.phone,
+        status: sms.status,
+        sentAt: sms.sent_at || undefined,
+        createdAt: sms.created_at,
+      })),
+      cartItems: cartItems.map((item) => ({
+        id: item.id,
+        productId: item.product_id || "",
+        quantity: item.quantity,
+        customizations: Array.isArray(item.customizations) ? item.customizations : [],
+        createdAt: item.created_at || new Date().toISOString(),
+      })),
       addresses: Array.isArray(userProfile.addresses) ? (userProfile.addresses as any[]) : [],
       preferences:
         typeof userProfile.preferences === "object" &&
@@ -142,12 +288,61 @@ export async function exportUserData(userId: string): Promise<GDPRDataExport | n
         !Array.isArray(userProfile.preferences)
           ? (userProfile.preferences as { language: string; currency: string; notifications: any })
           : { language: "cs", currency: "CZK", notifications: {} },
-      activityLog:
-        activityLog?.map((log) => ({
-          action: log.action,
-          timestamp: log.created_at,
-          details: log.details,
-        })) || [],
+      contactForms: unwrapRows("contact forms", contactFormsResult).map((form) => ({
+        id: form.id,
+        name: form.name,
+        email: form.email,
+        phone: form.phone || undefined,
+        subject: form.subject,
+        message: form.message,
+        status: form.status || "new",
+        createdAt: form.created_at || "",
+      })),
+      // Internal diagnostics (raw messages, stack traces) are not personal data of the customer
+      paymentErrors: unwrapRows("payment errors", paymentErrorsResult).map((error) => ({
+        id: error.id,
+        orderId: error.order_id || undefined,
+        errorType: error.error_type,
+        message: error.sanitized_message,
+        amount: error.amount ?? undefined,
+        currency: error.currency || undefined,
+        createdAt: error.created_at,
+      })),
+      discountRedemptions: unwrapRows("discount redemptions", redemptionsResult).map(
+        (redemption) => ({
+          orderId: redemption.order_id,
+          discountAmount: redemption.discount_amount,
+          createdAt: redemption.created_at,
+        })
+      ),
+      consentHistory: unwrapRows("consent records", consentResult)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((record) => ({
+          purpose: record.purpose,
+          policyVersion: record.policy_version,
+          granted: record.granted,
+          source: record.source,
+          createdAt: record.created_at,
+        })),
+      dataRequests: unwrapRows("GDPR requests", requestsResult)
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map((request) => ({
+          type: request.request_type,
+          status: request.status,
+          createdAt: request.created_at,
+          completedAt: request.completed_at || undefined,
+        })),
+      activityLog: unwrapRows("activity log", activityResult)
+        .sort((a, b) => (a.created_at ?? "").localeCompare(b.created_at ?? ""))
+        .map((log) => ({
+          action: `${log.action} ${log.resource_type}`,
+          timestamp: log.created_at || "",
+          details: {
+            resourceId: log.resource_id,
+            performedBy: log.admin_id === userId ? "you" : "staff",
+            newValues: log.new_values,
+          },
+        })),
     };
 
     return exportData;
@@ -157,12 +352,122 @@ export async function exportUserData(userId: string): Promise<GDPRDataExport | n
   }
 }
 
+/**
+ * Delete contact form submissions sent with the email and detach it from payment errors and
+ * discount redemptions kept for accounting
+ * Returns the number of deleted contact forms.
+ */
+async function deleteEmailLinkedData(email: string, errors: string[]): Promise<number> {
+  let contactForms = 0;
+
+  const { error: contactError, count: contactCount } = await supabaseAdmin
+    .from("contact_forms")
+    .delete({ count: "exact" })
+    .eq("email", email);
+
+  if (contactError) {
+    errors.push(`Failed to delete contact forms: ${contactError.message}`);
+  } else {
+    contactForms = contactCount || 0;
+  }
+
+  const { error: paymentErrorsError } = await supabaseAdmin
+    .from("payment_errors")
+    .update({ customer_email: null })
+    .eq("customer_email", email);
+
+  if (paymentErrorsError) {
+    errors.push(`Failed to anonymize payment errors: ${paymentErrorsError.message}`);
+  }
+
+  const { error: redemptionsError } = await supabaseAdmin
+    .from("discount_code_redemptions")
+    .update({ customer_email: null })
+    .eq("customer_email", email);
+
+  if (redemptionsError) {
+    errors.push(`Failed to anonymize discount redemptions: ${redemptionsError.message}`);
+  }
+
+  return contactForms;
+}
+
+/**
+ * Anonymize orders instead of deleting them (for business records), including guest orders
+ * placed with the account email
+ * Returns the number of anonymized orders.
+ */
+async function anonymizeOrders(
+  userId: string,
+  email: string | undefined,
+  errors: string[]
+): Promise<number> {
+  const ownerFilter = email
+    ? `user_id.eq.${userId},customer_info->>email.eq."${email.replace(/"/g, "")}"`
+    : `user_id.eq.${userId}`;
+  const { data: orders, error: ordersSelectError } = await supabaseAdmin
+    .from("orders")
+    .select("id")
+    .or(ownerFilter);
+
+  if (ordersSelectError) {
+    errors.push(`Failed to fetch orders: ${ordersSelectError.message}`);
+    return 0;
+  }
+
+  if (!orders || orders.length === 0) {
+    return 0;
+  }
+
+  // Queued and sent SMS hold the purchaser's phone number and are only delivery state
+  const { error: smsError } = await supabaseAdmin
+    .from("sms_outbox")
+    .delete()
+    .in(
+      "order_id",
+      orders.map((order) => order.id)
+    );
+
+  if (smsError) {
+    errors.push(`Failed to delete SMS notifications: ${smsError.message}`);
+  }
+
+  const { error: ordersUpdateError, count: ordersCount } = await supabaseAdmin
+    .from("orders")
+    .update(
+      {
+        user_id: null,
+        customer_info: {
+          firstName: "[DELETED]",
+          lastName: "[DELETED]",
+          email: "[DELETED]",
+          phone: "[DELETED]",
+          company: null,
+          note: null,
+        },
+      },
+      { count: "exact" }
+    )
+    .in(
+      "id",
+      orders.map((order) => order.id)
+    );
+
+  if (ordersUpdateError) {
+    errors.push(`Failed to anonymize orders: ${ordersUpdateError.message}`);
+    return 0;
+  }
+
+  return ordersCount || 0;
+}
+
 /**
  * Delete all user data for GDPR compliance
+ * Runs with the service role so the scheduled erasure worker can call it without a user session.
  */
 export async function deleteUserData(userId: string): Promise<GDPRDeletionResult> {
   try {
-    const supabase = await createClient();
+    const supabase = supabaseAdmin;
     const errors: string[] = [];
     const deletedRecords = {
       user: false,
@@ -170,12 +475,21 @@ export async function deleteUserData(userId: string): Promise<GDPRDeletionResult
       cartItems: 0,
       addresses: 0,
       activityLog: 0,
+      contactForms: 0,
+      consentRecords: 0,
     };
 
+    const { data: profile } = await supabase
+      .from("user_profiles")
+      .select("email")
+      .eq("id", userId)
+      .maybeSingle();
+    const email = profile?.email;
+
     // Delete cart items
     const { error: cartError, count: cartCount } = await supabase
       .from("cart_items")
-      .delete()
+      .delete({ count: "exact" })
       .eq("user_id", userId);
 
     if (cartError) {
@@ -184,41 +498,27 @@ export async function deleteUserData(userId: string): Promise<GDPRDeletionResult
       deletedRecords.cartItems = cartCount || 0;
     }
 
-    // Note: user_addresses and user_activity_log tables are not in the current schema
-    // If these tables are needed, they should be added to the database schema
-    // For now, we'll skip these deletions to avoid errors
-
-    // Anonymize orders instead of deleting (for business records)
-    const { data: orders, error: ordersSelectError } = await supabase
-      .from("orders")
-      .select("id")
+    // Delete consent history
+    const { error: consentError, count: consentCount } = await supabase
+      .from("consent_records")
+      .delete({ count: "exact" })
       .eq("user_id", userId);
 
-    if (ordersSelectError) {
-      errors.push(`Failed to fetch orders: ${ordersSelectError.message}`);
-    } else if (orders) {
-      const { error: ordersUpdateError, count: ordersCount } = await supabase
-        .from("orders")
-        .update({
-          user_id: null,
-          customer_info: {
-            firstName: "[DELETED]",
-            lastName: "[DELETED]",
-            email: "[DELETED]",
-            phone: "[DELETED]",
-            company: null,
-            note: null,
-          },
-        })
-        .eq("user_id", userId);
+    if (consentError) {
+      errors.push(`Failed to delete consent records: ${consentError.message}`);
+    } else {
+      deletedRecords.consentRecords = consentCount || 0;
+    }
 
-      if (ordersUpdateError) {
-        errors.push(`Failed to anonymize orders: ${ordersUpdateError.message}`);
-      } else {
-        deletedRecords.orders = ordersCount || 0;
-      }
+    if (email) {
+      deletedRecords.contactForms = await deleteEmailLinkedData(email, errors);
     }
 
+    // Note: user_addresses and user_activity_log tables are not in the current schema
+    // Addresses live in user_profiles and are removed with the profile
+
+    deletedRecords.orders = await anonymizeOrders(userId, email, errors);
+
     // Delete user profile
     const { error: userError } = await supabase.from("user_profiles").delete().eq("id", userId);
 
@@ -250,6 +550,8 @@ export async function deleteUserData(userId: string): Promise<GDPRDeletionResult
         cartItems: 0,
         addresses: 0,
         activityLog: 0,
+        contactForms: 0,
+        consentRecords: 0,
       },
       errors: [`Unexpected error: ${error instanceof Error ? error.message : "Unknown error"}`],
     };
@@ -277,61 +579,51 @@ export async function logUserActivity(
 }
 
 /**
- * Check if user has given consent for data processing
+ * Record a data subject request for the Article 30 record
+ *
+ * @returns The request ID, or null when it could not be recorded
  */
-export async function checkUserConsent(_userId: string): Promise<{
-  marketing: boolean;
-  analytics: boolean;
-  functional: boolean;
-  lastUpdated: string;
-}> {
-  try {
-    // Removed unused supabase client
-
-    // Note: user_consent table is not in the current schema
-    // Using default consent settings until the table is added
-    return {
-      marketing: false,
-      analytics: false,
-      functional: true, // Required for basic functionality
-      lastUpdated: new Date().toISOString(),
-    };
-  } catch (error) {
-    console.error("Error checking user consent:", error);
-    return {
-      marketing: false,
-      analytics: false,
-      functional: true,
-      lastUpdated: new Date().toISOString(),
-    };
+export async function recordGDPRRequest(
+  userId: string,
+  type: GDPRRequestType,
+  ipAddress?: string
+): Promise<string | null> {
+  const { data, error } = await supabaseAdmin
+    .from("gdpr_requests")
+    .insert({
+      user_id: userId,
+      request_type: type,
+      status: "pending",
+      ip_hash: hashIpAddress(ipAddress),
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("Error recording GDPR request:", error);
+    return null;
   }
+
+  return data.id;
 }
 
 /**
- * Update user consent preferences
+ * Store the outcome of a data subject request
  */
-export async function updateUserConsent(
-  userId: string,
-  consent: {
-    marketing: boolean;
-    analytics: boolean;
-    functional: boolean;
-  }
-): Promise<boolean> {
-  try {
-    // Removed unused supabase client
-
-    // Note: user_consent table is not in the current schema
-    // Consent updates are logged but not persisted until the table is added
-    console.log("Consent update:", { userId, consent });
+export async function completeGDPRRequest(
+  requestId: string | null,
+  status: Exclude<GDPRRequestStatus, "pending">,
+  details: Json = {}
+): Promise<void> {
+  if (!requestId) return;
 
-    // Log consent change
-    await logUserActivity(userId, "consent_updated", consent);
+  const { error } = await supabaseAdmin
+    .from("gdpr_requests")
+    .update({ status, details, completed_at: new Date().toISOString() })
+    .eq("id", requestId);
 
-    return true;
-  } catch (error) {
-    console.error("Error updating user consent:", error);
-    return false;
+  if (error) {
+    console.error("Error completing GDPR request:", error);
   }
 }
 
@@ -8,11 +8,18 @@ import {
   getCachedPriceCalculation,
   // Removed unused CachedPriceCalculation type
 } from "@/lib/cache/cart-cache";
+import {
+  OrderPricingError,
+  type RepricedOrderItem,
+  validateOrderItemQuantity,
+} from "@/lib/orders/repricing";
+import { supabaseAdmin } from "@/lib/supabase/server";
 import { getProductCustomizationOptions } from "@/lib/utils/customization-queries";
 import {
   calculateCustomizationPriceModifiers,
   calculateTotalPriceWithOptions,
 } from "@/lib/utils/price-calculator";
+import type { CartItem } from "@/types/cart";
 import type { Customization } from "@/types/product";
 // Removed unused LocalizedContent import
 
@@ -282,6 +289,56 @@ export async function batchCalculateCartItemPrices(
   }
 }
 
+/**
+ * Reprice order lines from current product data, ignoring the prices sent by the client
+ *
+ * @throws OrderPricingError when a product no longer exists, is inactive or a quantity is invalid
+ */
+export async function repriceOrderItems(items: CartItem[]): Promise<RepricedOrderItem[]> {
+  for (const item of items) {
+    validateOrderItemQuantity(item);
+  }
+
+  const productIds = [...new Set(items.map((item) => item.productId))];
+  const { data: products, error } = await supabaseAdmin
+    .from("products")
+    .select("id, name_cs, slug, base_price, active")
+    .in("id", productIds);
+
+  if (error) {
+    throw new Error(`Failed to fetch products for repricing: ${error.message}`);
+  }
+
+  const productsById = new Map((products || []).map((product) => [product.id, product]));
+  const orderProducts = items.map((item) => {
+    const product = productsById.get(item.productId);
+    if (!product || product.active === false) {
+      throw new OrderPricingError(
+        `Produkt ${item.product?.name?.cs || item.productId} již není k dispozici`,
+        "PRODUCT_UNAVAILABLE"
+      );
+    }
+    return product;
+  });
+
+  const priceCalculations = await batchCalculateCartItemPrices(
+    items.map((item, index) => ({
+      productId: item.productId,
+      basePrice: Number(orderProducts[index]?.base_price ?? 0),
+      customizations: item.customizations || [],
+      quantity: item.quantity,
+    }))
+  );
+
+  return items.map((item, index) => ({
+    item,
+    productName: orderProducts[index]?.name_cs ?? "",
+    productSlug: orderProducts[index]?.slug ?? "",
+    unitPrice: priceCalculations[index]?.unitPrice ?? 0,
+    totalPrice: priceCalculations[index]?.totalPrice ?? 0,
+  }));
+}
+
 /**
  * Validate price calculation result
  */
@@ -130,6 +130,7 @@ export async function getServerCart(): Promise<CartSummary> {
         userId: item.user_id,
         sessionId: item.session_id,
         productId: item.product_id,
+        ...(item.variant_id && { variantId: item.variant_id }),
         quantity: item.quantity,
         customizations: item.customizations || [],
         createdAt: new Date(item.created_at),
@@ -4,7 +4,9 @@
  */
 
 import { CACHE_KEYS, generateCacheKey, getCacheClient } from "@/lib/cache/redis";
+import { confirmDeliverySlot, releaseDeliverySlot } from "./delivery-capacity-service";
 import { updateOrderStatus } from "./order-service";
+import { commitStockReservation, releaseStockReservation } from "./stock-reservation-service";
 
 /**
  * Handle checkout completion
@@ -23,9 +25,17 @@ export async function handleCheckoutComplete(
     await invalidateCheckoutSession(sessionId);
 
     // 2. Update order status to confirmed/paid
-    await updateOrderStatus(orderId, "confirmed", "Payment completed successfully");
+    await updateOrderStatus(orderId, "confirmed", "Payment completed successfully", {
+      source: "payment",
+    });
+
+    // 3. Keep the delivery slot held during checkout for the order
+    await confirmDeliverySlot(sessionId, orderId);
 
-    // 3. Log completion for monitoring
+    // 4. Decrement the stock held during checkout (no-op if the webhook already did)
+    await commitStockReservation(sessionId, orderId);
+
+    // 5. Log completion for monitoring
     console.info("Checkout completed successfully", {
       sessionId,
       orderId,
@@ -78,12 +88,18 @@ export async function handleCheckoutCancel(
     // 1. Invalidate cached checkout session
     await invalidateCheckoutSession(sessionId);
 
-    // 2. Update order status to cancelled if order was created
+    // 2. Free the delivery slot and stock held during checkout
+    await releaseDeliverySlot(sessionId);
+    await releaseStockReservation(sessionId);
+
+    // 3. Update order status to cancelled if order was created
     if (orderId) {
-      await updateOrderStatus(orderId, "cancelled", "Payment cancelled by user");
+      await updateOrderStatus(orderId, "cancelled", "Payment cancelled by user", {
+        source: "payment",
+      });
     }
 
-    // 3. Log cancellation for monitoring
+    // 4. Log cancellation for monitoring
     console.info("Checkout cancelled", {
       sessionId,
       orderId,
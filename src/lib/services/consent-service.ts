@@ -0,0 +1,131 @@
+/**
+ * Consent service
+ * Reads and appends GDPR consent decisions in the consent ledger for users and anonymous sessions
+ */
+
+import {
+  CONSENT_POLICY_VERSION,
+  CONSENT_PURPOSES,
+  type ConsentPreferences,
+  type ConsentPurpose,
+  type ConsentRecord,
+  type ConsentSource,
+  type ConsentState,
+  getConsentChanges,
+  isConsentSource,
+  resolveConsentState,
+} from "@/lib/gdpr/consent";
+import { hashIpAddress } from "@/lib/security/gdpr";
+import type { Database } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+
+type ConsentRecordRow = Database["public"]["Tables"]["consent_records"]["Row"];
+
+/**
+ * Whose consent is read or recorded; at least one of the identifiers is required
+ */
+export interface ConsentSubject {
+  userId?: string;
+  sessionId?: string;
+}
+
+export interface RecordConsentOptions {
+  source: ConsentSource;
+  ipAddress?: string;
+}
+
+function transformConsentRecordRow(row: ConsentRecordRow): ConsentRecord | null {
+  if (!CONSENT_PURPOSES.includes(row.purpose as ConsentPurpose)) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    purpose: row.purpose as ConsentPurpose,
+    policyVersion: row.policy_version,
+    granted: row.granted,
+    source: isConsentSource(row.source) ? row.source : "api",
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Get the consent ledger entries of a subject, newest first
+ */
+export async function getConsentRecords(subject: ConsentSubject): Promise<ConsentRecord[]> {
+  const filters = [
+    ...(subject.userId ? [`user_id.eq.${subject.userId}`] : []),
+    ...(subject.sessionId ? [`session_id.eq.${subject.sessionId}`] : []),
+  ];
+
+  if (filters.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("consent_records")
+    .select("*")
+    .or(filters.join(","))
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  if (error) {
+    throw new Error(`Failed to fetch consent records: ${error.message}`);
+  }
+
+  return (data || []).flatMap((row) => {
+    const record = transformConsentRecordRow(row);
+    return record ? [record] : [];
+  });
+}
+
+/**
+ * Get the current consent of a subject
+ */
+export async function getConsentState(subject: ConsentSubject): Promise<ConsentState> {
+  return resolveConsentState(await getConsentRecords(subject));
+}
+
+/**
+ * Record a consent update
+ * Only purposes whose decision changed are appended; the ledger is never updated in place.
+ */
+export async function recordConsent(
+  subject: ConsentSubject,
+  preferences: ConsentPreferences,
+  options: RecordConsentOptions
+): Promise<ConsentState> {
+  const records = await getConsentRecords(subject);
+  const changes = getConsentChanges(records, preferences);
+
+  if (changes.length === 0) {
+    return resolveConsentState(records);
+  }
+
+  const ipHash = hashIpAddress(options.ipAddress);
+  const { data, error } = await supabaseAdmin
+    .from("consent_records")
+    .insert(
+      changes.map((change) => ({
+        user_id: subject.userId ?? null,
+        session_id: subject.sessionId ?? null,
+        purpose: change.purpose,
+        policy_version: CONSENT_POLICY_VERSION,
+        granted: change.granted,
+        source: options.source,
+        ip_hash: ipHash,
+      }))
+    )
+    .select("*");
+
+  if (error) {
+    throw new Error(`Failed to record consent: ${error.message}`);
+  }
+
+  const inserted = (data || []).flatMap((row) => {
+    const record = transformConsentRecordRow(row);
+    return record ? [record] : [];
+  });
+
+  return resolveConsentState([...records, ...inserted]);
+}
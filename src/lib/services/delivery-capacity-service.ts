@@ -0,0 +1,287 @@
+/**
+ * Delivery capacity service
+ * Counts orders per delivery day and time slot, holds a slot while the customer pays and
+ * manages the capacity rules from the admin
+ */
+
+import {
+  applyDeliveryCapacity,
+  DeliveryCapacityError,
+  type DeliveryCapacityInput,
+  type DeliveryDayBookings,
+  resolveCapacityLimits,
+  validateDeliveryCapacityInput,
+} from "@/lib/delivery/capacity";
+import { parseDateKey, toDateKey } from "@/lib/delivery/holidays";
+import type { Database } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import { isWorkingDay } from "@/lib/utils/delivery-calculator";
+import type {
+  DeliveryAvailability,
+  DeliveryCapacityRule,
+  DeliverySlotSelection,
+  DeliveryTimeSlot,
+} from "@/types/delivery";
+import { getDeliverySettings } from "./delivery-closure-service";
+
+type DeliveryCapacityRow = Database["public"]["Tables"]["delivery_capacity"]["Row"];
+
+function transformDeliveryCapacityRow(row: DeliveryCapacityRow): DeliveryCapacityRule {
+  return {
+    id: row.id,
+    ...(row.delivery_date && { date: row.delivery_date }),
+    ...(row.time_slot && { timeSlot: row.time_slot as DeliveryTimeSlot }),
+    maxOrders: row.max_orders,
+  };
+}
+
+function toDeliveryCapacityRow(input: DeliveryCapacityInput) {
+  return {
+    delivery_date: input.date ?? null,
+    time_slot: input.timeSlot ?? null,
+    max_orders: input.maxOrders,
+  };
+}
+
+function handleWriteError(error: { code?: string; message: string }, action: string): never {
+  if (error.code === "23505") {
+    throw new DeliveryCapacityError(
+      "Pro tento den a časový slot už kapacita existuje",
+      "DUPLICATE_CAPACITY"
+    );
+  }
+  throw new Error(`Failed to ${action} delivery capacity: ${error.message}`);
+}
+
+/**
+ * Get all capacity rules
+ */
+export async function getDeliveryCapacityRules(): Promise<DeliveryCapacityRule[]> {
+  const { data, error } = await supabaseAdmin
+    .from("delivery_capacity")
+    .select("*")
+    .order("delivery_date", { ascending: true, nullsFirst: true })
+    .order("time_slot", { ascending: true, nullsFirst: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch delivery capacity: ${error.message}`);
+  }
+
+  return (data || []).map(transformDeliveryCapacityRow);
+}
+
+/**
+ * Count confirmed and still-held reservations per day between two dates (inclusive)
+ *
+ * @returns Bookings keyed by YYYY-MM-DD
+ */
+export async function getDeliveryBookings(
+  from: string,
+  to: string
+): Promise<Record<string, DeliveryDayBookings>> {
+  const { data, error } = await supabaseAdmin
+    .from("delivery_slot_reservations")
+    .select("delivery_date, time_slot")
+    .gte("delivery_date", from)
+    .lte("delivery_date", to)
+    .or(`status.eq.confirmed,and(status.eq.held,expires_at.gt.${new Date().toISOString()})`);
+
+  if (error) {
+    throw new Error(`Failed to fetch delivery reservations: ${error.message}`);
+  }
+
+  const bookings: Record<string, DeliveryDayBookings> = {};
+  for (const reservation of data || []) {
+    const day = bookings[reservation.delivery_date] ?? { total: 0, bySlot: {} };
+    bookings[reservation.delivery_date] = day;
+    const timeSlot = reservation.time_slot as DeliveryTimeSlot;
+    day.total += 1;
+    day.bySlot[timeSlot] = (day.bySlot[timeSlot] ?? 0) + 1;
+  }
+
+  return bookings;
+}
+
+/**
+ * Mark fully booked days and time slots in calendar availability
+ * Reads live reservation counts, so call it on every request rather than caching the result.
+ */
+export async function applyCapacityToAvailability(
+  availability: DeliveryAvailability[]
+): Promise<DeliveryAvailability[]> {
+  const first = availability[0];
+  const last = availability[availability.length - 1];
+  if (!(first && last)) {
+    return availability;
+  }
+
+  const [rules, bookings] = await Promise.all([
+    getDeliveryCapacityRules(),
+    getDeliveryBookings(toDateKey(first.date), toDateKey(last.date)),
+  ]);
+
+  return applyDeliveryCapacity(availability, rules, bookings);
+}
+
+/**
+ * Hold a delivery slot for a checkout session
+ * Calling it again for the same session moves the hold to the new slot.
+ *
+ * @throws DeliveryCapacityError when the day is not deliverable or the slot is full
+ */
+export async function reserveDeliverySlot(
+  checkoutSessionId: string,
+  slot: DeliverySlotSelection,
+  expiresAt: Date
+): Promise<void> {
+  const date = parseDateKey(slot.date);
+  if (!(date && isWorkingDay(date, await getDeliverySettings()))) {
+    throw new DeliveryCapacityError("V tento den nedoručujeme", "SLOT_UNAVAILABLE");
+  }
+
+  const limits = resolveCapacityLimits(await getDeliveryCapacityRules(), slot.date, slot.timeSlot);
+
+  const { data: reserved, error } = await supabaseAdmin.rpc("reserve_delivery_slot", {
+    p_checkout_session_id: checkoutSessionId,
+    p_delivery_date: slot.date,
+    p_time_slot: slot.timeSlot,
+    p_day_limit: limits.dayLimit,
+    p_slot_limit: limits.slotLimit,
+    p_expires_at: expiresAt.toISOString(),
+  });
+
+  if (error) {
+    throw new Error(`Failed to reserve delivery slot: ${error.message}`);
+  }
+
+  if (!reserved) {
+    throw new DeliveryCapacityError("Zvolený termín doručení je již obsazen", "SLOT_FULL");
+  }
+}
+
+/**
+ * Release the slot held by a cancelled or expired checkout session
+ * Slots of placed orders are kept.
+ */
+export async function releaseDeliverySlot(checkoutSessionId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("delivery_slot_reservations")
+    .update({ status: "released" })
+    .eq("checkout_session_id", checkoutSessionId)
+    .eq("status", "held");
+
+  if (error) {
+    throw new Error(`Failed to release delivery slot: ${error.message}`);
+  }
+}
+
+/**
+ * Keep the slot held by a checkout session for the order it created
+ */
+export async function confirmDeliverySlot(
+  checkoutSessionId: string,
+  orderId: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("delivery_slot_reservations")
+    .update({ status: "confirmed", order_id: orderId })
+    .eq("checkout_session_id", checkoutSessionId)
+    .neq("status", "released");
+
+  if (error) {
+    throw new Error(`Failed to confirm delivery slot: ${error.message}`);
+  }
+}
+
+/**
+ * Get a single capacity rule (Admin)
+ */
+export async function getDeliveryCapacityRule(id: string): Promise<DeliveryCapacityRule | null> {
+  const { data, error } = await supabaseAdmin
+    .from("delivery_capacity")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch delivery capacity: ${error.message}`);
+  }
+
+  return data ? transformDeliveryCapacityRow(data) : null;
+}
+
+/**
+ * Create a capacity rule (Admin)
+ *
+ * @throws DeliveryCapacityError when the rule is invalid or already exists
+ */
+export async function createDeliveryCapacityRule(
+  input: DeliveryCapacityInput
+): Promise<DeliveryCapacityRule> {
+  const rule = validateDeliveryCapacityInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("delivery_capacity")
+    .insert(toDeliveryCapacityRow(rule))
+    .select()
+    .single();
+
+  if (error) {
+    handleWriteError(error, "create");
+  }
+
+  return transformDeliveryCapacityRow(data);
+}
+
+/**
+ * Replace a capacity rule (Admin)
+ *
+ * @throws DeliveryCapacityError when the rule is invalid, missing or duplicates another one
+ */
+export async function updateDeliveryCapacityRule(
+  id: string,
+  input: DeliveryCapacityInput
+): Promise<DeliveryCapacityRule> {
+  const rule = validateDeliveryCapacityInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("delivery_capacity")
+    .update(toDeliveryCapacityRow(rule))
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    handleWriteError(error, "update");
+  }
+
+  if (!data) {
+    throw new DeliveryCapacityError("Kapacita nebyla nalezena", "CAPACITY_NOT_FOUND");
+  }
+
+  return transformDeliveryCapacityRow(data);
+}
+
+/**
+ * Delete a capacity rule (Admin)
+ *
+ * @throws DeliveryCapacityError when the rule does not exist
+ */
+export async function deleteDeliveryCapacityRule(id: string): Promise<DeliveryCapacityRule> {
+  const { data, error } = await supabaseAdmin
+    .from("delivery_capacity")
+    .delete()
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete delivery capacity: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new DeliveryCapacityError("Kapacita nebyla nalezena", "CAPACITY_NOT_FOUND");
+  }
+
+  return transformDeliveryCapacityRow(data);
+}
@@ -0,0 +1,186 @@
+/**
+ * Delivery closure service
+ * Loads admin-defined closures (blackout dates) from the database and builds the delivery
+ * settings the calendar, estimate and validation code work with
+ */
+
+import {
+  cacheHolidays,
+  getCachedHolidays,
+  invalidateDeliveryCache,
+} from "@/lib/cache/delivery-cache";
+import {
+  DeliveryClosureError,
+  type DeliveryClosureInput,
+  expandDeliveryClosures,
+  toDateKey,
+  validateDeliveryClosureInput,
+} from "@/lib/delivery/holidays";
+import type { Database } from "@/lib/supabase/database.types";
+import { createClient, supabaseAdmin } from "@/lib/supabase/server";
+import { DEFAULT_DELIVERY_SETTINGS } from "@/lib/utils/delivery-calculator";
+import type { DeliveryClosure, DeliverySettings, Holiday } from "@/types/delivery";
+
+type DeliveryClosureRow = Database["public"]["Tables"]["delivery_closures"]["Row"];
+
+function transformDeliveryClosureRow(row: DeliveryClosureRow): DeliveryClosure {
+  return {
+    id: row.id,
+    name: row.name,
+    startDate: row.start_date,
+    endDate: row.end_date,
+  };
+}
+
+function toDeliveryClosureRow(input: DeliveryClosureInput) {
+  return {
+    name: input.name,
+    start_date: input.startDate,
+    end_date: input.endDate,
+  };
+}
+
+/**
+ * Get closed days from today on, one entry per day (cached)
+ */
+export async function getUpcomingClosedDays(): Promise<Holiday[]> {
+  const cached = await getCachedHolidays();
+  if (cached) {
+    return cached;
+  }
+
+  const { data, error } = await createClient()
+    .from("delivery_closures")
+    .select("*")
+    .gte("end_date", toDateKey(new Date()))
+    .order("start_date", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch delivery closures: ${error.message}`);
+  }
+
+  const closedDays = expandDeliveryClosures((data || []).map(transformDeliveryClosureRow));
+  await cacheHolidays(closedDays);
+
+  return closedDays;
+}
+
+/**
+ * Default delivery settings with the upcoming closures applied
+ */
+export async function getDeliverySettings(): Promise<DeliverySettings> {
+  return {
+    ...DEFAULT_DELIVERY_SETTINGS,
+    closures: await getUpcomingClosedDays(),
+  };
+}
+
+/**
+ * Get all delivery closures, past ones included (Admin)
+ */
+export async function getDeliveryClosures(): Promise<DeliveryClosure[]> {
+  const { data, error } = await supabaseAdmin
+    .from("delivery_closures")
+    .select("*")
+    .order("start_date", { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to fetch delivery closures: ${error.message}`);
+  }
+
+  return (data || []).map(transformDeliveryClosureRow);
+}
+
+/**
+ * Get a single closure (Admin)
+ */
+export async function getDeliveryClosure(id: string): Promise<DeliveryClosure | null> {
+  const { data, error } = await supabaseAdmin
+    .from("delivery_closures")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch delivery closure: ${error.message}`);
+  }
+
+  return data ? transformDeliveryClosureRow(data) : null;
+}
+
+/**
+ * Create a delivery closure (Admin)
+ *
+ * @throws DeliveryClosureError when the closure is invalid
+ */
+export async function createDeliveryClosure(input: DeliveryClosureInput): Promise<DeliveryClosure> {
+  const closure = validateDeliveryClosureInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("delivery_closures")
+    .insert(toDeliveryClosureRow(closure))
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create delivery closure: ${error.message}`);
+  }
+
+  await invalidateDeliveryCache();
+  return transformDeliveryClosureRow(data);
+}
+
+/**
+ * Replace a delivery closure (Admin)
+ *
+ * @throws DeliveryClosureError when the closure is invalid or missing
+ */
+export async function updateDeliveryClosure(
+  id: string,
+  input: DeliveryClosureInput
+): Promise<DeliveryClosure> {
+  const closure = validateDeliveryClosureInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("delivery_closures")
+    .update(toDeliveryClosureRow(closure))
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update delivery closure: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new DeliveryClosureError("Uzavírka nebyla nalezena", "CLOSURE_NOT_FOUND");
+  }
+
+  await invalidateDeliveryCache();
+  return transformDeliveryClosureRow(data);
+}
+
+/**
+ * Delete a delivery closure (Admin)
+ *
+ * @throws DeliveryClosureError when the closure does not exist
+ */
+export async function deleteDeliveryClosure(id: string): Promise<DeliveryClosure> {
+  const { data, error } = await supabaseAdmin
+    .from("delivery_closures")
+    .delete()
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete delivery closure: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new DeliveryClosureError("Uzavírka nebyla nalezena", "CLOSURE_NOT_FOUND");
+  }
+
+  await invalidateDeliveryCache();
+  return transformDeliveryClosureRow(data);
+}
@@ -0,0 +1,217 @@
+/**
+ * Delivery zone service
+ * Loads delivery zones from the database (cached in Redis) and manages them from the admin
+ */
+
+import {
+  cacheDeliveryZones,
+  getCachedDeliveryZones,
+  invalidateDeliveryCache,
+} from "@/lib/cache/delivery-cache";
+import {
+  DeliveryZoneError,
+  type DeliveryZoneInput,
+  findDeliveryZone,
+  validateDeliveryZoneInput,
+} from "@/lib/delivery/zones";
+import type { Database, Json } from "@/lib/supabase/database.types";
+import { createClient, supabaseAdmin } from "@/lib/supabase/server";
+import type {
+  DeliveryUrgency,
+  DeliveryZone,
+  DeliveryZoneSummary,
+  PostalCodeRange,
+} from "@/types/delivery";
+
+type DeliveryZoneRow = Database["public"]["Tables"]["delivery_zones"]["Row"];
+
+function transformDeliveryZoneRow(row: DeliveryZoneRow): DeliveryZone {
+  return {
+    id: row.id,
+    slug: row.slug,
+    name: row.name,
+    ...(row.description && { description: row.description }),
+    postalCodeRanges: (row.postal_code_ranges || []) as unknown as PostalCodeRange[],
+    baseCost: Number(row.base_cost),
+    ...(row.max_distance_km !== null && { maxDistance: row.max_distance_km }),
+    supportedUrgencies: row.supported_urgencies as DeliveryUrgency[],
+    priority: row.priority,
+    active: row.active,
+  };
+}
+
+function toDeliveryZoneRow(input: DeliveryZoneInput) {
+  return {
+    slug: input.slug,
+    name: input.name,
+    description: input.description || null,
+    postal_code_ranges: input.postalCodeRanges as unknown as Json,
+    base_cost: input.baseCost,
+    max_distance_km: input.maxDistance ?? null,
+    supported_urgencies: input.supportedUrgencies,
+    priority: input.priority ?? 0,
+    active: input.active ?? true,
+  };
+}
+
+/**
+ * Public zone details for delivery API responses
+ */
+export function toDeliveryZoneSummary(zone: DeliveryZone): DeliveryZoneSummary {
+  return {
+    id: zone.id,
+    slug: zone.slug,
+    name: zone.name,
+    supportedUrgencies: zone.supportedUrgencies,
+  };
+}
+
+/**
+ * Get delivery zones
+ *
+ * @param includeInactive - Include deactivated zones (admin only, never cached)
+ */
+export async function getDeliveryZones(includeInactive = false): Promise<DeliveryZone[]> {
+  if (!includeInactive) {
+    const cached = await getCachedDeliveryZones();
+    if (cached) {
+      return cached;
+    }
+  }
+
+  const client = includeInactive ? supabaseAdmin : createClient();
+
+  let query = client
+    .from("delivery_zones")
+    .select("*")
+    .order("priority", { ascending: false })
+    .order("name", { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq("active", true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch delivery zones: ${error.message}`);
+  }
+
+  const zones = (data || []).map(transformDeliveryZoneRow);
+
+  if (!includeInactive) {
+    await cacheDeliveryZones(zones);
+  }
+
+  return zones;
+}
+
+/**
+ * Find the zone delivering to a postal code
+ *
+ * @returns The zone, or null when the postal code is not delivered to
+ */
+export async function resolveDeliveryZone(postalCode: string): Promise<DeliveryZone | null> {
+  return findDeliveryZone(await getDeliveryZones(), postalCode);
+}
+
+function handleWriteError(error: { code?: string; message: string }, action: string): never {
+  if (error.code === "23505") {
+    throw new DeliveryZoneError("Zóna s tímto identifikátorem již existuje", "DUPLICATE_SLUG");
+  }
+  throw new Error(`Failed to ${action} delivery zone: ${error.message}`);
+}
+
+/**
+ * Get a single zone (Admin)
+ */
+export async function getDeliveryZone(id: string): Promise<DeliveryZone | null> {
+  const { data, error } = await supabaseAdmin
+    .from("delivery_zones")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch delivery zone: ${error.message}`);
+  }
+
+  return data ? transformDeliveryZoneRow(data) : null;
+}
+
+/**
+ * Create a delivery zone (Admin)
+ *
+ * @throws DeliveryZoneError when the zone is invalid or the slug is taken
+ */
+export async function createDeliveryZone(input: DeliveryZoneInput): Promise<DeliveryZone> {
+  const zone = validateDeliveryZoneInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("delivery_zones")
+    .insert(toDeliveryZoneRow(zone))
+    .select()
+    .single();
+
+  if (error) {
+    handleWriteError(error, "create");
+  }
+
+  await invalidateDeliveryCache();
+  return transformDeliveryZoneRow(data);
+}
+
+/**
+ * Replace a delivery zone (Admin)
+ *
+ * @throws DeliveryZoneError when the zone is invalid, missing or the slug is taken
+ */
+export async function updateDeliveryZone(
+  id: string,
+  input: DeliveryZoneInput
+): Promise<DeliveryZone> {
+  const zone = validateDeliveryZoneInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("delivery_zones")
+    .update(toDeliveryZoneRow(zone))
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    handleWriteError(error, "update");
+  }
+
+  if (!data) {
+    throw new DeliveryZoneError("Zóna nebyla nalezena", "ZONE_NOT_FOUND");
+  }
+
+  await invalidateDeliveryCache();
+  return transformDeliveryZoneRow(data);
+}
+
+/**
+ * Delete a delivery zone (Admin)
+ *
+ * @throws DeliveryZoneError when the zone does not exist
+ */
+export async function deleteDeliveryZone(id: string): Promise<DeliveryZone> {
+  const { data, error } = await supabaseAdmin
+    .from("delivery_zones")
+    .delete()
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete delivery zone: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new DeliveryZoneError("Zóna nebyla nalezena", "ZONE_NOT_FOUND");
+  }
+
+  await invalidateDeliveryCache();
+  return transformDeliveryZoneRow(data);
+}
@@ -0,0 +1,224 @@
+/**
+ * Discount code service
+ * Loads promo codes, validates them against a cart and records redemptions
+ */
+
+import {
+  type AppliedDiscount,
+  type DiscountCode,
+  type DiscountEvaluation,
+  type DiscountLineItem,
+  evaluateDiscountCode,
+  normalizeDiscountCode,
+} from "@/lib/discounts/rules";
+import type { Database } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import type { CartItem } from "@/types/cart";
+
+type DiscountCodeRow = Database["public"]["Tables"]["discount_codes"]["Row"];
+
+/**
+ * Result of validating a code for a cart
+ */
+export interface DiscountValidationResult extends DiscountEvaluation {
+  code: string;
+  applied?: AppliedDiscount;
+  discountCodeId?: string;
+}
+
+export interface DiscountValidationOptions {
+  customerEmail?: string | undefined;
+  now?: Date;
+}
+
+/**
+ * Transform a database discount code row to DiscountCode interface
+ */
+function transformDiscountCodeRow(row: DiscountCodeRow): DiscountCode {
+  return {
+    id: row.id,
+    code: row.code,
+    ...(row.description && { description: row.description }),
+    ...(row.campaign && { campaign: row.campaign }),
+    type: row.discount_type as DiscountCode["type"],
+    value: Number(row.value),
+    ...(row.valid_from && { validFrom: new Date(row.valid_from) }),
+    ...(row.valid_until && { validUntil: new Date(row.valid_until) }),
+    ...(row.max_uses !== null && { maxUses: row.max_uses }),
+    ...(row.max_uses_per_customer !== null && { maxUsesPerCustomer: row.max_uses_per_customer }),
+    usesCount: row.uses_count,
+    minSubtotal: Number(row.min_subtotal),
+    productIds: row.product_ids || [],
+    categoryIds: row.category_ids || [],
+    active: row.active,
+  };
+}
+
+/**
+ * Get a discount code by its (case-insensitive) code
+ */
+export async function getDiscountCode(code: string): Promise<DiscountCode | null> {
+  const { data, error } = await supabaseAdmin
+    .from("discount_codes")
+    .select("*")
+    .eq("code", normalizeDiscountCode(code))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch discount code: ${error.message}`);
+  }
+
+  return data ? transformDiscountCodeRow(data) : null;
+}
+
+/**
+ * Escape LIKE wildcards so an email matches only itself (case-insensitively)
+ */
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * Count earlier redemptions of a code by one customer
+ */
+async function countCustomerRedemptions(discountCodeId: string, email: string): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from("discount_code_redemptions")
+    .select("id", { count: "exact", head: true })
+    .eq("discount_code_id", discountCodeId)
+    .ilike("customer_email", escapeLikePattern(email));
+
+  if (error) {
+    console.error("Error counting discount code redemptions:", error);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+/**
+ * Build discount line items, resolving product categories for category-scoped codes
+ */
+async function toDiscountLineItems(
+  cartItems: CartItem[],
+  needsCategories: boolean
+): Promise<DiscountLineItem[]> {
+  const categoryByProduct = new Map<string, string>();
+
+  if (needsCategories && cartItems.length > 0) {
+    const productIds = [...new Set(cartItems.map((item) => item.productId))];
+    const { data } = await supabaseAdmin
+      .from("products")
+      .select("id, category_id")
+      .in("id", productIds);
+
+    for (const product of data || []) {
+      if (product.category_id) {
+        categoryByProduct.set(product.id, product.category_id);
+      }
+    }
+  }
+
+  return cartItems.map((item) => ({
+    productId: item.productId,
+    categoryId: categoryByProduct.get(item.productId) ?? item.product?.categoryId,
+    totalPrice: item.totalPrice || 0,
+  }));
+}
+
+/**
+ * Validate a promo code for the given cart items
+ *
+ * @param code - Code as entered by the customer
+ * @param cartItems - Items the discount should apply to
+ * @param options - Customer email for per-customer limits
+ * @returns Evaluation including the applied discount when valid
+ */
+export async function validateDiscountCode(
+  code: string,
+  cartItems: CartItem[],
+  options: DiscountValidationOptions = {}
+): Promise<DiscountValidationResult> {
+  const normalizedCode = normalizeDiscountCode(code);
+  const discountCode = await getDiscountCode(normalizedCode);
+
+  if (!discountCode) {
+    const subtotal = cartItems.reduce((sum, item) => sum + (item.totalPrice || 0), 0);
+    return {
+      code: normalizedCode,
+      valid: false,
+      errorCode: "NOT_FOUND",
+      subtotal,
+      eligibleSubtotal: 0,
+      discountAmount: 0,
+    };
+  }
+
+  const items = await toDiscountLineItems(cartItems, discountCode.categoryIds.length > 0);
+  const customerUses =
+    options.customerEmail && discountCode.maxUsesPerCustomer !== undefined
+      ? await countCustomerRedemptions(discountCode.id, options.customerEmail)
+      : 0;
+
+  const evaluation = evaluateDiscountCode(discountCode, {
+    items,
+    customerUses,
+    ...(options.now && { now: options.now }),
+  });
+
+  return {
+    ...evaluation,
+    code: discountCode.code,
+    discountCodeId: discountCode.id,
+    ...(evaluation.valid && {
+      applied: {
+        code: discountCode.code,
+        type: discountCode.type,
+        value: discountCode.value,
+        amount: evaluation.discountAmount,
+      },
+    }),
+  };
+}
+
+/**
+ * Record a redemption for an order
+ * Returns false when the code ran out of uses in the meantime.
+ */
+export async function redeemDiscountCode(params: {
+  code: string;
+  orderId: string;
+  customerEmail?: string | null;
+  discountAmount: number;
+}): Promise<boolean> {
+  try {
+    const discountCode = await getDiscountCode(params.code);
+    if (!discountCode) {
+      console.warn(`Discount code ${params.code} not found while redeeming`);
+      return false;
+    }
+
+    const { data, error } = await supabaseAdmin.rpc("redeem_discount_code", {
+      p_discount_code_id: discountCode.id,
+      p_order_id: params.orderId,
+      p_customer_email: params.customerEmail || null,
+      p_discount_amount: params.discountAmount,
+    });
+
+    if (error) {
+      console.error("Error redeeming discount code:", error);
+      return false;
+    }
+
+    if (!data) {
+      console.warn(
+        `Discount code ${discountCode.code} could not be redeemed for ${params.orderId}`
+      );
+    }
+
+    return Boolean(data);
+  } catch (error) {
+    console.error("Error redeeming discount code:", error);
+    return false;
+  }
+}
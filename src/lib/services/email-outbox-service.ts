@@ -0,0 +1,207 @@
+/**
+ * Email outbox service
+ * Queues order emails in email_outbox and delivers them with retries. Enqueueing is
+ * idempotent per order and status, so repeated webhooks or transitions never send twice.
+ */
+
+import { emailService } from "@/lib/email/service";
+import {
+  getOrderEmailType,
+  getOutboxClaimUpdate,
+  getOutboxFailureUpdate,
+  getOutboxIdempotencyKey,
+  getOutboxSentUpdate,
+} from "@/lib/notifications/outbox";
+import type { Database } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import { transformOrderRow } from "@/lib/utils/order-transforms";
+import type { OrderStatus } from "@/types/order";
+
+type EmailOutboxRow = Database["public"]["Tables"]["email_outbox"]["Row"];
+
+export interface EnqueueOrderEmailOptions {
+  locale?: "cs" | "en";
+  /** Try to deliver right away instead of waiting for the next outbox run */
+  sendImmediately?: boolean;
+}
+
+export interface EmailOutboxRunResult {
+  processed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+// Statuses customers are not notified about (the order is not placed yet)
+const SILENT_STATUSES: readonly OrderStatus[] = ["pending"];
+
+/**
+ * Queue the customer email for an order status
+ *
+ * @returns The outbox entry, or null when the status does not notify the customer
+ */
+export async function enqueueOrderEmail(
+  orderId: string,
+  status: OrderStatus,
+  options: EnqueueOrderEmailOptions = {}
+): Promise<EmailOutboxRow | null> {
+  if (SILENT_STATUSES.includes(status)) {
+    return null;
+  }
+
+  const idempotencyKey = getOutboxIdempotencyKey(orderId, status);
+
+  const { error: insertError } = await supabaseAdmin.from("email_outbox").upsert(
+    {
+      order_id: orderId,
+      email_type: getOrderEmailType(status),
+      order_status: status,
+      locale: options.locale || "cs",
+      idempotency_key: idempotencyKey,
+    },
+    { onConflict: "idempotency_key", ignoreDuplicates: true }
+  );
+
+  if (insertError) {
+    throw new Error(`Failed to enqueue order email: ${insertError.message}`);
+  }
+
+  const { data: entry, error } = await supabaseAdmin
+    .from("email_outbox")
+    .select("*")
+    .eq("idempotency_key", idempotencyKey)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load outbox entry: ${error.message}`);
+  }
+
+  if (options.sendImmediately && entry.status === "pending") {
+    return (await deliverOutboxEntry(entry)) || entry;
+  }
+
+  return entry;
+}
+
+/**
+ * Claim a single pending entry and deliver it
+ */
+async function deliverOutboxEntry(entry: EmailOutboxRow): Promise<EmailOutboxRow | null> {
+  const { data: claimed } = await supabaseAdmin
+    .from("email_outbox")
+    .update(getOutboxClaimUpdate(entry, new Date()))
+    .eq("id", entry.id)
+    .eq("status", "pending")
+    .eq("attempts", entry.attempts)
+    .select()
+    .maybeSingle();
+
+  // Someone else is already sending it
+  if (!claimed) {
+    return null;
+  }
+
+  return sendOutboxEntry(claimed);
+}
+
+/**
+ * Render and send one claimed entry, then record the outcome
+ */
+async function sendOutboxEntry(entry: EmailOutboxRow): Promise<EmailOutboxRow> {
+  let error: string | undefined;
+  let transport: string | undefined;
+
+  try {
+    const { data: row, error: orderError } = await supabaseAdmin
+      .from("orders")
+      .select("*")
+      .eq("id", entry.order_id)
+      .single();
+
+    if (orderError || !row) {
+      throw new Error(`Order ${entry.order_id} not found`);
+    }
+
+    const order = transformOrderRow(row);
+    const emailData = {
+      order,
+      customerName: order.customerInfo.name,
+      customerEmail: order.customerInfo.email,
+      locale: entry.locale as "cs" | "en",
+      idempotencyKey: entry.idempotency_key,
+    };
+
+    if (!emailData.customerEmail) {
+      throw new Error(`Order ${entry.order_id} has no customer email`);
+    }
+
+    const result =
+      entry.email_type === "order_confirmation"
+        ? await emailService.sendOrderConfirmation(emailData)
+        : await emailService.sendStatusUpdate({
+            ...emailData,
+            newStatus: entry.order_status as OrderStatus,
+          });
+
+    transport = result.transport;
+    error = result.success ? undefined : result.error || "Email transport failed";
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : String(sendError);
+  }
+
+  const now = new Date();
+  const update: Database["public"]["Tables"]["email_outbox"]["Update"] = error
+    ? getOutboxFailureUpdate(entry, error, now)
+    : { ...getOutboxSentUpdate(now), transport: transport || null };
+
+  if (error) {
+    console.error(
+      `Order email ${entry.idempotency_key} failed (attempt ${entry.attempts}/${entry.max_attempts}):`,
+      error
+    );
+  }
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from("email_outbox")
+    .update(update)
+    .eq("id", entry.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error("Error updating email outbox entry:", updateError);
+    return { ...entry, ...update } as EmailOutboxRow;
+  }
+
+  return updated;
+}
+
+/**
+ * Deliver due outbox entries (pending retries and stale locks)
+ */
+export async function processEmailOutbox(limit = 20): Promise<EmailOutboxRunResult> {
+  const { data: entries, error } = await supabaseAdmin.rpc("claim_email_outbox", {
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim email outbox: ${error.message}`);
+  }
+
+  const result: EmailOutboxRunResult = { processed: 0, sent: 0, retried: 0, failed: 0 };
+
+  for (const entry of entries || []) {
+    const updated = await sendOutboxEntry(entry);
+    result.processed++;
+
+    if (updated.status === "sent") {
+      result.sent++;
+    } else if (updated.status === "failed") {
+      result.failed++;
+    } else {
+      result.retried++;
+    }
+  }
+
+  return result;
+}
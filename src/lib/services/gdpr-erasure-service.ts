@@ -0,0 +1,579 @@
+/**
+ * GDPR erasure service
+ * Deferred account erasure: requests are confirmed by an emailed token, erased by the scheduled
+ * worker after the grace period, and sent to the admin queue when orders block them. Every
+ * completed erasure leaves a receipt hash-chained to the previous one.
+ */
+
+import { createHash, createHmac, randomBytes } from "node:crypto";
+import { emailService } from "@/lib/email/service";
+import {
+  CANCELLABLE_ERASURE_STATUSES,
+  canCancelErasure,
+  type ErasureBlocker,
+  ErasureError,
+  type ErasureReceipt,
+  type ErasureRequest,
+  type ErasureRequestStatus,
+  findErasureBlockers,
+  getErasureScheduledFor,
+  getErasureTokenExpiry,
+  getReceiptHashInput,
+  MAX_ERASURE_ATTEMPTS,
+  OPEN_ERASURE_STATUSES,
+  resolveErasureGraceDays,
+} from "@/lib/gdpr/erasure";
+import {
+  completeGDPRRequest,
+  deleteUserData,
+  getPseudonymizationKey,
+  recordGDPRRequest,
+} from "@/lib/security/gdpr";
+import type { Database, Json } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import type { PaymentInfo } from "@/types/order";
+
+type ErasureRequestRow = Database["public"]["Tables"]["gdpr_erasure_requests"]["Row"];
+
+export interface RequestErasureOptions {
+  reason?: string;
+  ipAddress?: string;
+  locale?: "cs" | "en";
+}
+
+export type ErasureReviewDecision = "approve" | "reject";
+
+export interface ErasureRunResult {
+  processed: number;
+  completed: number;
+  blocked: number;
+  retried: number;
+  failed: number;
+}
+
+// Delay before retrying an erasure that failed part-way
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = "23505";
+
+// Statuses shown in the admin queue by default
+const QUEUE_STATUSES: readonly ErasureRequestStatus[] = ["blocked", "failed", "scheduled"];
+
+function getGraceDays(): number {
+  return resolveErasureGraceDays(process.env["GDPR_ERASURE_GRACE_DAYS"]);
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Keyed hash identifying the erased user in the receipt without keeping the user ID
+ */
+function hashSubject(userId: string): string {
+  return createHmac("sha256", getPseudonymizationKey()).update(userId).digest("hex");
+}
+
+function transformErasureRequestRow(row: ErasureRequestRow): ErasureRequest {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    status: row.status as ErasureRequestStatus,
+    reason: row.reason,
+    blockers: Array.isArray(row.blockers) ? (row.blockers as unknown as ErasureBlocker[]) : [],
+    tokenExpiresAt: row.token_expires_at,
+    confirmedAt: row.confirmed_at,
+    scheduledFor: row.scheduled_for,
+    reviewedBy: row.reviewed_by,
+    reviewedAt: row.reviewed_at,
+    reviewNote: row.review_note,
+    cancelledAt: row.cancelled_at,
+    completedAt: row.completed_at,
+    attempts: row.attempts,
+    lastError: row.last_error,
+    receiptHash: row.receipt_hash,
+    createdAt: row.created_at,
+  };
+}
+
+async function updateErasureRequest(
+  id: string,
+  update: Database["public"]["Tables"]["gdpr_erasure_requests"]["Update"]
+): Promise<ErasureRequestRow> {
+  const { data, error } = await supabaseAdmin
+    .from("gdpr_erasure_requests")
+    .update(update)
+    .eq("id", id)
+    .select("*")
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update erasure request: ${error.message}`);
+  }
+
+  return data;
+}
+
+async function getOpenErasureRow(userId: string): Promise<ErasureRequestRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("gdpr_erasure_requests")
+    .select("*")
+    .eq("user_id", userId)
+    .in("status", [...OPEN_ERASURE_STATUSES])
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch erasure request: ${error.message}`);
+  }
+
+  return data;
+}
+
+/**
+ * Get the user's open erasure request, if any
+ */
+export async function getActiveErasureRequest(userId: string): Promise<ErasureRequest | null> {
+  const row = await getOpenErasureRow(userId);
+  return row ? transformErasureRequestRow(row) : null;
+}
+
+/**
+ * Request erasure of the user's account and email the confirmation link
+ *
+ * @throws ErasureError REQUEST_EXISTS when an erasure request is already open
+ */
+export async function requestErasure(
+  userId: string,
+  options: RequestErasureOptions = {}
+): Promise<ErasureRequest> {
+  const existing = await getOpenErasureRow(userId);
+  if (existing) {
+    const expired =
+      existing.status === "pending_confirmation" &&
+      existing.token_expires_at !== null &&
+      new Date(existing.token_expires_at) < new Date();
+
+    if (!expired) {
+      throw new ErasureError("Žádost o výmaz již byla podána", "REQUEST_EXISTS");
+    }
+
+    // An unconfirmed request whose link expired is replaced by the new one
+    await updateErasureRequest(existing.id, {
+      status: "cancelled",
+      cancelled_at: new Date().toISOString(),
+      token_hash: null,
+    });
+    await completeGDPRRequest(existing.gdpr_request_id, "cancelled", { reason: "not_confirmed" });
+  }
+
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from("user_profiles")
+    .select("email, name")
+    .eq("id", userId)
+    .single();
+
+  if (profileError || !profile) {
+    throw new ErasureError("Uživatel nebyl nalezen", "NOT_FOUND");
+  }
+
+  const now = new Date();
+  const token = randomBytes(32).toString("base64url");
+  const tokenExpiresAt = getErasureTokenExpiry(now);
+  const gdprRequestId = await recordGDPRRequest(userId, "erasure", options.ipAddress);
+
+  const { data: row, error } = await supabaseAdmin
+    .from("gdpr_erasure_requests")
+    .insert({
+      user_id: userId,
+      gdpr_request_id: gdprRequestId,
+      reason: options.reason || null,
+      token_hash: hashToken(token),
+      token_expires_at: tokenExpiresAt.toISOString(),
+    })
+    .select("*")
+    .single();
+
+  if (error) {
+    await completeGDPRRequest(gdprRequestId, "failed", { reason: "request_not_created" });
+    if (error.code === UNIQUE_VIOLATION) {
+      throw new ErasureError("Žádost o výmaz již byla podána", "REQUEST_EXISTS");
+    }
+    throw new Error(`Failed to create erasure request: ${error.message}`);
+  }
+
+  const emailResult = await emailService.sendErasureConfirmation({
+    customerEmail: profile.email,
+    ...(profile.name && { customerName: profile.name }),
+    token,
+    expiresAt: tokenExpiresAt,
+    graceDays: getGraceDays(),
+    locale: options.locale || "cs",
+  });
+
+  if (!emailResult.success) {
+    await updateErasureRequest(row.id, {
+      status: "cancelled",
+      cancelled_at: new Date().toISOString(),
+      token_hash: null,
+      last_error: emailResult.error || "Confirmation email failed",
+    });
+    await completeGDPRRequest(gdprRequestId, "failed", { reason: "confirmation_email_failed" });
+    throw new Error(`Failed to send erasure confirmation: ${emailResult.error}`);
+  }
+
+  return transformErasureRequestRow(row);
+}
+
+/**
+ * Confirm an erasure request with the emailed token and start the grace period
+ *
+ * @throws ErasureError INVALID_TOKEN or TOKEN_EXPIRED
+ */
+export async function confirmErasure(token: string): Promise<ErasureRequest> {
+  const { data: row, error } = await supabaseAdmin
+    .from("gdpr_erasure_requests")
+    .select("*")
+    .eq("token_hash", hashToken(token))
+    .eq("status", "pending_confirmation")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch erasure request: ${error.message}`);
+  }
+
+  if (!row) {
+    throw new ErasureError("Odkaz pro potvrzení výmazu je neplatný", "INVALID_TOKEN");
+  }
+
+  if (row.token_expires_at && new Date(row.token_expires_at) < new Date()) {
+    throw new ErasureError("Platnost odkazu pro potvrzení výmazu vypršela", "TOKEN_EXPIRED");
+  }
+
+  const confirmedAt = new Date();
+  const updated = await updateErasureRequest(row.id, {
+    status: "scheduled",
+    confirmed_at: confirmedAt.toISOString(),
+    scheduled_for: getErasureScheduledFor(confirmedAt, getGraceDays()).toISOString(),
+    token_hash: null,
+  });
+
+  return transformErasureRequestRow(updated);
+}
+
+/**
+ * Withdraw the user's erasure request
+ *
+ * @throws ErasureError NOT_FOUND or NOT_CANCELLABLE once the worker has started
+ */
+export async function cancelErasure(userId: string): Promise<ErasureRequest> {
+  const row = await getOpenErasureRow(userId);
+
+  if (!row) {
+    throw new ErasureError("Žádná žádost o výmaz nebyla nalezena", "NOT_FOUND");
+  }
+
+  if (!canCancelErasure(row.status as ErasureRequestStatus)) {
+    throw new ErasureError("Výmaz již probíhá a nelze jej zrušit", "NOT_CANCELLABLE");
+  }
+
+  const { data: updated, error } = await supabaseAdmin
+    .from("gdpr_erasure_requests")
+    .update({ status: "cancelled", cancelled_at: new Date().toISOString(), token_hash: null })
+    .eq("id", row.id)
+    .in("status", [...CANCELLABLE_ERASURE_STATUSES])
+    .select("*")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to cancel erasure request: ${error.message}`);
+  }
+
+  // The worker claimed the request in the meantime
+  if (!updated) {
+    throw new ErasureError("Výmaz již probíhá a nelze jej zrušit", "NOT_CANCELLABLE");
+  }
+
+  await completeGDPRRequest(row.gdpr_request_id, "cancelled", { reason: "cancelled_by_user" });
+
+  return transformErasureRequestRow(updated);
+}
+
+/**
+ * Get erasure requests for the admin queue (Admin)
+ * Blocked and failed requests need a decision; scheduled ones are listed for visibility.
+ */
+export async function getErasureQueue(
+  statuses: readonly ErasureRequestStatus[] = QUEUE_STATUSES
+): Promise<ErasureRequest[]> {
+  const { data, error } = await supabaseAdmin
+    .from("gdpr_erasure_requests")
+    .select("*")
+    .in("status", [...statuses])
+    .order("scheduled_for", { ascending: true, nullsFirst: false })
+    .limit(100);
+
+  if (error) {
+    throw new Error(`Failed to fetch erasure queue: ${error.message}`);
+  }
+
+  return (data || []).map(transformErasureRequestRow);
+}
+
+/**
+ * Decide on a blocked or failed erasure request (Admin)
+ * Approving erases at the next worker run without re-checking the blockers; rejecting closes
+ * the request, e.g. when a legal retention duty outweighs the erasure.
+ *
+ * @throws ErasureError NOT_FOUND or NOT_REVIEWABLE
+ */
+export async function reviewErasureRequest(
+  requestId: string,
+  adminId: string,
+  decision: ErasureReviewDecision,
+  note?: string
+): Promise<{ previous: ErasureRequest; updated: ErasureRequest }> {
+  const { data: row, error } = await supabaseAdmin
+    .from("gdpr_erasure_requests")
+    .select("*")
+    .eq("id", requestId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch erasure request: ${error.message}`);
+  }
+
+  if (!row) {
+    throw new ErasureError("Žádost o výmaz nebyla nalezena", "NOT_FOUND");
+  }
+
+  if (row.status !== "blocked" && row.status !== "failed") {
+    throw new ErasureError("Rozhodnout lze jen o zablokovaných žádostech", "NOT_REVIEWABLE");
+  }
+
+  const now = new Date().toISOString();
+  const review = { reviewed_by: adminId, reviewed_at: now, review_note: note || null };
+  const updated = await updateErasureRequest(
+    row.id,
+    decision === "approve"
+      ? { ...review, status: "scheduled", scheduled_for: now, attempts: 0, last_error: null }
+      : { ...review, status: "cancelled", cancelled_at: now }
+  );
+
+  if (decision === "reject") {
+    await completeGDPRRequest(row.gdpr_request_id, "cancelled", {
+      reason: "rejected",
+      ...(note && { note }),
+    });
+  }
+
+  return {
+    previous: transformErasureRequestRow(row),
+    updated: transformErasureRequestRow(updated),
+  };
+}
+
+/**
+ * Orders of the user (signed in or as a guest with the account email) that block erasure
+ */
+async function getErasureBlockers(userId: string): Promise<ErasureBlocker[]> {
+  const { data: profile } = await supabaseAdmin
+    .from("user_profiles")
+    .select("email")
+    .eq("id", userId)
+    .maybeSingle();
+
+  const queries = [
+    supabaseAdmin
+      .from("orders")
+      .select("id, order_number, status, payment_info")
+      .eq("user_id", userId),
+    ...(profile?.email
+      ? [
+          supabaseAdmin
+            .from("orders")
+            .select("id, order_number, status, payment_info")
+            .eq("customer_info->>email", profile.email),
+        ]
+      : []),
+  ];
+
+  const results = await Promise.all(queries);
+  const failed = results.find((result) => result.error);
+  if (failed?.error) {
+    throw new Error(`Failed to fetch orders: ${failed.error.message}`);
+  }
+
+  const orders = new Map(
+    results.flatMap((result) => result.data || []).map((order) => [order.id, order])
+  );
+
+  return findErasureBlockers(
+    [...orders.values()].map((order) => ({
+      id: order.id,
+      orderNumber: order.order_number,
+      status: order.status,
+      paymentInfo: order.payment_info as unknown as Pick<PaymentInfo, "refunds" | "dispute">,
+    }))
+  );
+}
+
+/**
+ * Store the receipt of a completed erasure, chained to the latest receipt
+ * The unique index on previous_receipt_hash rejects a concurrent write to the same chain
+ * position, in which case the chain tip is read again.
+ */
+async function writeErasureReceipt(requestId: string, receipt: ErasureReceipt): Promise<string> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: last, error: lastError } = await supabaseAdmin
+      .from("gdpr_erasure_requests")
+      .select("receipt_hash")
+      .not("receipt_hash", "is", null)
+      .order("completed_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lastError) {
+      throw new Error(`Failed to fetch latest erasure receipt: ${lastError.message}`);
+    }
+
+    const previousHash = last?.receipt_hash ?? null;
+    const receiptHash = createHash("sha256")
+      .update(getReceiptHashInput(receipt, previousHash))
+      .digest("hex");
+
+    const { error } = await supabaseAdmin
+      .from("gdpr_erasure_requests")
+      .update({
+        status: "completed",
+        completed_at: receipt.erasedAt,
+        receipt: receipt as unknown as Json,
+        receipt_hash: receiptHash,
+        previous_receipt_hash: previousHash,
+        last_error: null,
+      })
+      .eq("id", requestId);
+
+    if (!error) {
+      return receiptHash;
+    }
+
+    if (error.code !== UNIQUE_VIOLATION) {
+      throw new Error(`Failed to store erasure receipt: ${error.message}`);
+    }
+  }
+
+  throw new Error("Failed to store erasure receipt: receipt chain kept changing");
+}
+
+/**
+ * Claim one due request and erase the user's data, or block it when orders prevent erasure
+ */
+async function processErasureRequest(
+  row: ErasureRequestRow
+): Promise<"completed" | "blocked" | "retried" | "failed" | null> {
+  const { data: claimed } = await supabaseAdmin
+    .from("gdpr_erasure_requests")
+    .update({ status: "processing", attempts: row.attempts + 1 })
+    .eq("id", row.id)
+    .eq("status", "scheduled")
+    .select("*")
+    .maybeSingle();
+
+  // Cancelled or picked up by another run in the meantime
+  if (!claimed) {
+    return null;
+  }
+
+  const userId = claimed.user_id;
+  let error: string;
+
+  try {
+    if (!userId) {
+      throw new Error("The account no longer exists");
+    }
+
+    // An admin approval overrides the blockers found earlier
+    const approved = claimed.reviewed_at !== null;
+    const blockers = approved ? [] : await getErasureBlockers(userId);
+    if (blockers.length > 0) {
+      await updateErasureRequest(claimed.id, {
+        status: "blocked",
+        blockers: blockers as unknown as Json,
+      });
+      return "blocked";
+    }
+
+    // Hashed before erasing so a missing key fails the run while the data still exists
+    const subjectHash = hashSubject(userId);
+
+    const result = await deleteUserData(userId);
+    if (!result.success) {
+      throw new Error(result.errors?.join("; ") || "Data deletion failed");
+    }
+
+    const receiptHash = await writeErasureReceipt(claimed.id, {
+      requestId: claimed.id,
+      subjectHash,
+      requestedAt: claimed.created_at,
+      confirmedAt: claimed.confirmed_at,
+      erasedAt: new Date().toISOString(),
+      approvedBy: claimed.reviewed_by,
+      deletedRecords: result.deletedRecords,
+    });
+    await completeGDPRRequest(claimed.gdpr_request_id, "completed", { receiptHash });
+
+    return "completed";
+  } catch (processError) {
+    error = processError instanceof Error ? processError.message : String(processError);
+  }
+
+  const exhausted = claimed.attempts >= MAX_ERASURE_ATTEMPTS;
+  console.error(
+    `GDPR erasure ${claimed.id} failed (attempt ${claimed.attempts}/${MAX_ERASURE_ATTEMPTS}):`,
+    error
+  );
+
+  await updateErasureRequest(claimed.id, {
+    status: exhausted ? "failed" : "scheduled",
+    last_error: error,
+    ...(!exhausted && { scheduled_for: new Date(Date.now() + RETRY_DELAY_MS).toISOString() }),
+  });
+
+  return exhausted ? "failed" : "retried";
+}
+
+/**
+ * Erase the data of requests whose grace period is over
+ */
+export async function processDueErasures(limit = 10): Promise<ErasureRunResult> {
+  const result: ErasureRunResult = {
+    processed: 0,
+    completed: 0,
+    blocked: 0,
+    retried: 0,
+    failed: 0,
+  };
+
+  const { data: due, error } = await supabaseAdmin
+    .from("gdpr_erasure_requests")
+    .select("*")
+    .eq("status", "scheduled")
+    .lte("scheduled_for", new Date().toISOString())
+    .order("scheduled_for", { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch due erasure requests: ${error.message}`);
+  }
+
+  for (const row of due || []) {
+    const outcome = await processErasureRequest(row);
+    if (!outcome) continue;
+
+    result.processed++;
+    result[outcome]++;
+  }
+
+  return result;
+}
@@ -0,0 +1,89 @@
+/**
+ * Job sheet service
+ * Loads orders for florist job sheets and renders them as PDF, per order or for a whole day
+ */
+
+import {
+  buildJobSheet,
+  getDeliveryDateSearchRange,
+  JOB_SHEET_ORDER_STATUSES,
+  sortJobSheets,
+} from "@/lib/orders/job-sheet";
+import { renderDailyJobSheetsPdf, renderJobSheetPdf } from "@/lib/orders/job-sheet-pdf";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import { transformOrderRow } from "@/lib/utils/order-transforms";
+
+export interface JobSheetDocument {
+  filename: string;
+  pdf: Buffer;
+  orderCount: number;
+}
+
+/**
+ * Job sheet PDF of a single order (Admin)
+ *
+ * @returns The document, or null when the order does not exist
+ */
+export async function getOrderJobSheet(orderId: string): Promise<JobSheetDocument | null> {
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .select("*")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch order for job sheet: ${error.message}`);
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const sheet = buildJobSheet(transformOrderRow(data));
+
+  return {
+    filename: `zakazkovy-list-${sheet.orderNumber}.pdf`,
+    pdf: renderJobSheetPdf(sheet),
+    orderCount: 1,
+  };
+}
+
+/**
+ * Job sheets of all confirmed and in-progress orders due on a day (Admin)
+ *
+ * @param dateKey - Czech calendar day as YYYY-MM-DD
+ * @returns The document, or null when the date is invalid or no orders are due
+ */
+export async function getDailyJobSheets(dateKey: string): Promise<JobSheetDocument | null> {
+  const range = getDeliveryDateSearchRange(dateKey);
+  if (!range) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .select("*")
+    .in("status", [...JOB_SHEET_ORDER_STATUSES])
+    .gte("delivery_info->>preferredDate", range.from)
+    .lt("delivery_info->>preferredDate", range.to);
+
+  if (error) {
+    throw new Error(`Failed to fetch orders for job sheets: ${error.message}`);
+  }
+
+  const sheets = sortJobSheets(
+    (data || [])
+      .map((row) => buildJobSheet(transformOrderRow(row)))
+      .filter((sheet) => sheet.deliveryDate === dateKey)
+  );
+
+  if (sheets.length === 0) {
+    return null;
+  }
+
+  return {
+    filename: `zakazky-${dateKey}.pdf`,
+    pdf: renderDailyJobSheetsPdf(dateKey, sheets),
+    orderCount: sheets.length,
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * Material service
+ * Manages wreath components and their per-choice recipes, projects what open orders will
+ * consume per delivery day, deducts the components of finished orders and keeps the
+ * availability of flowers and ribbon color choices in line with the stock
+ */
+
+import { invalidateCacheByEvent } from "@/lib/cache/cache-invalidation";
+import {
+  applyRecipeChoiceAvailability,
+  getOrderMaterialDemand,
+  getRecipeChoiceKey,
+  getUnavailableRecipeChoices,
+  type Material,
+  type MaterialDayProjection,
+  type MaterialDemand,
+  MaterialError,
+  type MaterialInput,
+  type MaterialKind,
+  type MaterialRecipe,
+  type MaterialRecipeInput,
+  type MaterialUnit,
+  projectMaterialShortages,
+  type RecipeOptionType,
+  validateMaterialInput,
+  validateRecipeInput,
+} from "@/lib/inventory/materials";
+import { JOB_SHEET_ORDER_STATUSES } from "@/lib/orders/job-sheet";
+import type { Database, Json } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import { transformOrderRow } from "@/lib/utils/order-transforms";
+import type { CustomizationOption } from "@/types/product";
+
+type MaterialRow = Database["public"]["Tables"]["materials"]["Row"];
+type OrderRow = Database["public"]["Tables"]["orders"]["Row"];
+
+export interface MaterialOverview {
+  materials: Material[];
+  recipes: MaterialRecipe[];
+  projection: MaterialDayProjection[];
+}
+
+function transformMaterialRow(row: MaterialRow): Material {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind as MaterialKind,
+    unit: row.unit as MaterialUnit,
+    stockQuantity: Number(row.stock_quantity),
+    lowStockThreshold: Number(row.low_stock_threshold),
+  };
+}
+
+function toMaterialRow(input: MaterialInput) {
+  return {
+    name: input.name,
+    kind: input.kind,
+    unit: input.unit,
+    stock_quantity: input.stockQuantity,
+    low_stock_threshold: input.lowStockThreshold ?? 0,
+  };
+}
+
+function handleWriteError(error: { code?: string; message: string }, action: string): never {
+  if (error.code === "23505") {
+    throw new MaterialError("Materiál s tímto názvem již existuje", "INVALID_MATERIAL");
+  }
+  throw new Error(`Failed to ${action} material: ${error.message}`);
+}
+
+/**
+ * Get materials ordered by name (Admin)
+ */
+export async function getMaterials(): Promise<Material[]> {
+  const { data, error } = await supabaseAdmin
+    .from("materials")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch materials: ${error.message}`);
+  }
+
+  return (data || []).map(transformMaterialRow);
+}
+
+/**
+ * Get a single material (Admin)
+ */
+export async function getMaterial(id: string): Promise<Material | null> {
+  const { data, error } = await supabaseAdmin
+    .from("materials")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  // A malformed id cannot match any material
+  if (error?.code === "22P02") {
+    return null;
+  }
+
+  if (error) {
+    throw new Error(`Failed to fetch material: ${error.message}`);
+  }
+
+  return data ? transformMaterialRow(data) : null;
+}
+
+/**
+ * Create a material (Admin)
+ *
+ * @throws MaterialError when the material is invalid
+ */
+export async function createMaterial(input: MaterialInput): Promise<Material> {
+  const material = validateMaterialInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("materials")
+    .insert(toMaterialRow(material))
+    .select()
+    .single();
+
+  if (error) {
+    handleWriteError(error, "create");
+  }
+
+  return transformMaterialRow(data);
+}
+
+/**
+ * Replace a material, e.g. after a stock count (Admin)
+ *
+ * @throws MaterialError when the material is invalid or missing
+ */
+export async function updateMaterial(id: string, input: MaterialInput): Promise<Material> {
+  const material = validateMaterialInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("materials")
+    .update(toMaterialRow(material))
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    handleWriteError(error, "update");
+  }
+
+  if (!data) {
+    throw new MaterialError("Materiál nebyl nalezen", "MATERIAL_NOT_FOUND");
+  }
+
+  return transformMaterialRow(data);
+}
+
+/**
+ * Delete a material together with its recipe components (Admin)
+ *
+ * @throws MaterialError when the material does not exist
+ */
+export async function deleteMaterial(id: string): Promise<Material> {
+  const { data, error } = await supabaseAdmin
+    .from("materials")
+    .delete()
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete material: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new MaterialError("Materiál nebyl nalezen", "MATERIAL_NOT_FOUND");
+  }
+
+  return transformMaterialRow(data);
+}
+
+/**
+ * Get the components of all choices (Admin)
+ */
+export async function getMaterialRecipes(): Promise<MaterialRecipe[]> {
+  const { data, error } = await supabaseAdmin
+    .from("material_recipes")
+    .select("*")
+    .order("option_type", { ascending: true })
+    .order("choice_id", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch material recipes: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    optionType: row.option_type as RecipeOptionType,
+    choiceId: row.choice_id,
+    materialId: row.material_id,
+    quantity: Number(row.quantity),
+  }));
+}
+
+/**
+ * Replace the components of a choice (Admin)
+ *
+ * @throws MaterialError when the recipe is invalid or names a missing material
+ */
+export async function setMaterialRecipe(input: MaterialRecipeInput): Promise<MaterialRecipe[]> {
+  const recipe = validateRecipeInput(input);
+
+  const { error } = await supabaseAdmin.rpc("set_material_recipe", {
+    p_option_type: recipe.optionType,
+    p_choice_id: recipe.choiceId,
+    p_components: recipe.components.map((component) => ({
+      material_id: component.materialId,
+      quantity: component.quantity,
+    })) as unknown as Json,
+  });
+
+  // Foreign key violation or malformed UUID of a material
+  if (error?.code === "23503" || error?.code === "22P02") {
+    throw new MaterialError("Zvolený materiál neexistuje", "INVALID_RECIPE");
+  }
+
+  if (error) {
+    throw new Error(`Failed to set material recipe: ${error.message}`);
+  }
+
+  return recipe.components.map((component) => ({
+    optionType: recipe.optionType,
+    choiceId: recipe.choiceId,
+    ...component,
+  }));
+}
+
+/**
+ * Materials the confirmed and in-progress orders still need, per order
+ */
+async function getOpenOrderDemand(recipes: MaterialRecipe[]): Promise<MaterialDemand[]> {
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .select("*")
+    .in("status", [...JOB_SHEET_ORDER_STATUSES]);
+
+  if (error) {
+    throw new Error(`Failed to fetch open orders for materials: ${error.message}`);
+  }
+
+  return (data || []).map((row) => getOrderMaterialDemand(transformOrderRow(row), recipes));
+}
+
+/**
+ * Materials with their recipes and the shortages open orders leave per delivery day (Admin)
+ */
+export async function getMaterialOverview(): Promise<MaterialOverview> {
+  const [materials, recipes] = await Promise.all([getMaterials(), getMaterialRecipes()]);
+  const demand = await getOpenOrderDemand(recipes);
+
+  return {
+    materials,
+    recipes,
+    projection: projectMaterialShortages(demand, materials),
+  };
+}
+
+function parseCustomizationOptions(value: Json | null): CustomizationOption[] {
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as CustomizationOption[];
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(value) ? (value as unknown as CustomizationOption[]) : [];
+}
+
+/**
+ * Mark flowers and ribbon color choices unavailable on every product once a component they
+ * take runs out, and turn them back on once it is restocked. Choices the admin turned off
+ * stay off.
+ *
+ * @returns Number of products whose choices changed
+ */
+export async function syncRecipeChoiceAvailability(): Promise<number> {
+  const [materials, recipes] = await Promise.all([getMaterials(), getMaterialRecipes()]);
+  const demand = await getOpenOrderDemand(recipes);
+
+  const recipeChoices = new Set(
+    recipes.map((recipe) => getRecipeChoiceKey(recipe.optionType, recipe.choiceId))
+  );
+  const unavailable = getUnavailableRecipeChoices(recipes, materials, demand);
+
+  const { data: products, error } = await supabaseAdmin
+    .from("products")
+    .select("id, customization_options")
+    .not("customization_options", "is", null);
+
+  if (error) {
+    throw new Error(`Failed to fetch products for choice availability: ${error.message}`);
+  }
+
+  let updatedCount = 0;
+  for (const product of products || []) {
+    const options = applyRecipeChoiceAvailability(
+      parseCustomizationOptions(product.customization_options),
+      recipeChoices,
+      unavailable
+    );
+    if (!options) {
+      continue;
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from("products")
+      .update({ customization_options: options as unknown as Json })
+      .eq("id", product.id);
+
+    if (updateError) {
+      throw new Error(`Failed to update choice availability: ${updateError.message}`);
+    }
+
+    await invalidateCacheByEvent("product.updated", { productId: product.id });
+    updatedCount++;
+  }
+
+  return updatedCount;
+}
+
+/**
+ * Deduct the components of a shipped or delivered order from stock
+ * Safe to call more than once for the same order.
+ */
+export async function consumeOrderMaterials(order: OrderRow): Promise<void> {
+  const recipes = await getMaterialRecipes();
+  const { requirements } = getOrderMaterialDemand(transformOrderRow(order), recipes);
+
+  if (requirements.length === 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin.rpc("consume_order_materials", {
+    p_order_id: order.id,
+    p_items: requirements.map((requirement) => ({
+      material_id: requirement.materialId,
+      quantity: requirement.quantity,
+    })) as unknown as Json,
+  });
+
+  if (error) {
+    throw new Error(`Failed to consume order materials: ${error.message}`);
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Order notification service
+ * Announces order status changes to the purchaser by email and SMS. Signed-in customers'
+ * notification preferences decide which channels are used; guests get email only.
+ */
+
+import {
+  getOrderNotificationChannels,
+  type OrderNotificationChannel,
+} from "@/lib/notifications/order-notifications";
+import { enqueueOrderEmail } from "@/lib/services/email-outbox-service";
+import { enqueueOrderSms } from "@/lib/services/sms-outbox-service";
+import type { Database } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import { transformOrderRow } from "@/lib/utils/order-transforms";
+import type { OrderStatus } from "@/types/order";
+import type { UserPreferences } from "@/types/user";
+
+type OrderRow = Database["public"]["Tables"]["orders"]["Row"];
+
+/**
+ * Stored preferences of the customer who placed the order (null for guest orders)
+ */
+async function getPurchaserPreferences(
+  userId: string | null
+): Promise<Partial<UserPreferences> | null> {
+  if (!userId) {
+    return null;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("user_profiles")
+    .select("preferences")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load notification preferences: ${error.message}`);
+  }
+
+  return (data?.preferences as Partial<UserPreferences> | null) ?? null;
+}
+
+/**
+ * Queue the purchaser notifications for an order status and try to deliver them right away
+ *
+ * @returns The channels the status was announced on
+ */
+export async function notifyOrderStatus(
+  row: OrderRow,
+  status: OrderStatus
+): Promise<OrderNotificationChannel[]> {
+  const preferences = await getPurchaserPreferences(row.user_id);
+  const { customerInfo } = transformOrderRow(row);
+  const locale = preferences?.language || "cs";
+  const channels = getOrderNotificationChannels(status, preferences?.notifications, {
+    email: customerInfo.email,
+    phone: customerInfo.phone,
+  });
+
+  // One failing channel must not keep the other from going out
+  const results = await Promise.allSettled(
+    channels.map((channel) =>
+      channel === "email"
+        ? enqueueOrderEmail(row.id, status, { locale, sendImmediately: true })
+        : enqueueOrderSms(row.id, status, customerInfo.phone || "", {
+            locale,
+            sendImmediately: true,
+          })
+    )
+  );
+
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(`Order ${row.id} ${channels[index]} notification failed:`, result.reason);
+    }
+  });
+
+  return channels;
+}
@@ -4,31 +4,199 @@
  */
 
 import { invalidateCacheByEvent } from "@/lib/cache/cache-invalidation";
-import { orderUtils } from "@/lib/supabase/utils";
+import { JOB_SHEET_ORDER_STATUSES } from "@/lib/orders/job-sheet";
+import {
+  assertOrderStatusTransition,
+  isOrderStatus,
+  ORDER_STATUS_DESCRIPTIONS,
+  type OrderStatusChangeSource,
+  OrderStatusTransitionError,
+} from "@/lib/orders/lifecycle";
+import {
+  consumeOrderMaterials,
+  syncRecipeChoiceAvailability,
+} from "@/lib/services/material-service";
+import { notifyOrderStatus } from "@/lib/services/order-notification-service";
+import type { Json } from "@/lib/supabase/database.types";
+import { type Order, type OrderStatusHistory, orderUtils } from "@/lib/supabase/utils";
+import type { OrderStatus, PaymentStatus } from "@/types/order";
 
-type OrderStatus = "pending" | "confirmed" | "processing" | "shipped" | "delivered" | "cancelled";
+export interface OrderStatusChangeOptions {
+  changedBy?: string | undefined;
+  source?: OrderStatusChangeSource;
+  metadata?: Record<string, unknown>;
+  /** Proof-of-delivery photo stored with a transition to delivered */
+  deliveryPhotoUrl?: string | undefined;
+}
+
+/**
+ * Side effect executed after a status transition has been persisted
+ */
+type OrderStatusSideEffect = (
+  order: Order,
+  from: OrderStatus,
+  options: OrderStatusChangeOptions
+) => Promise<void>;
+
+const invalidateCompletedOrderCaches: OrderStatusSideEffect = async (order) => {
+  await invalidateCacheByEvent("order.completed", { orderId: order.id });
+};
+
+// Sources whose transitions are announced to the customer (system cleanups stay silent)
+const CUSTOMER_NOTIFYING_SOURCES: readonly OrderStatusChangeSource[] = ["admin", "payment"];
+
+const notifyCustomer: OrderStatusSideEffect = async (order, _from, options) => {
+  if (!CUSTOMER_NOTIFYING_SOURCES.includes(options.source || "system")) {
+    return;
+  }
+  await notifyOrderStatus(order, order.status as OrderStatus);
+};
+
+// Orders entering or leaving the florists' queue change what components are still free
+const syncChoiceAvailability: OrderStatusSideEffect = async (order, from) => {
+  if (order.status === "confirmed" || JOB_SHEET_ORDER_STATUSES.includes(from)) {
+    await syncRecipeChoiceAvailability();
+  }
+};
+
+// Components leave the workshop with the order (shipped -> delivered was deducted already)
+const consumeMaterials: OrderStatusSideEffect = async (order, from) => {
+  if (JOB_SHEET_ORDER_STATUSES.includes(from)) {
+    await consumeOrderMaterials(order);
+  }
+};
+
+/**
+ * Side effects per target status. Failures are logged and never roll back the transition.
+ */
+const ORDER_STATUS_SIDE_EFFECTS: Partial<Record<OrderStatus, OrderStatusSideEffect[]>> = {
+  confirmed: [invalidateCompletedOrderCaches, notifyCustomer, syncChoiceAvailability],
+  processing: [notifyCustomer],
+  shipped: [notifyCustomer, consumeMaterials],
+  delivered: [invalidateCompletedOrderCaches, notifyCustomer, consumeMaterials],
+  cancelled: [invalidateCompletedOrderCaches, notifyCustomer, syncChoiceAvailability],
+};
+
+async function runStatusSideEffects(
+  order: Order,
+  from: OrderStatus,
+  to: OrderStatus,
+  options: OrderStatusChangeOptions
+) {
+  for (const effect of ORDER_STATUS_SIDE_EFFECTS[to] || []) {
+    try {
+      await effect(order, from, options);
+    } catch (error) {
+      console.error(`Order status side effect failed (${from} -> ${to}):`, error);
+    }
+  }
+}
+
+/**
+ * Check a transition against the lifecycle rules
+ *
+ * @throws OrderStatusTransitionError when the transition is not allowed
+ */
+function assertTransitionAllowed(currentOrder: Order, from: OrderStatus, status: OrderStatus) {
+  const paymentInfo = currentOrder.payment_info as { status?: PaymentStatus } | null;
+  assertOrderStatusTransition(
+    {
+      status: from,
+      paymentStatus: paymentInfo?.status,
+      deliveryMethod: currentOrder.delivery_method as "delivery" | "pickup" | null,
+    },
+    status
+  );
+}
+
+/**
+ * Store the new status, guarded against a concurrent transition, and record it in
+ * order_status_history
+ */
+async function persistStatusTransition(
+  orderId: string,
+  from: OrderStatus,
+  status: OrderStatus,
+  internalNotes: string | undefined,
+  options: OrderStatusChangeOptions
+) {
+  const result = await orderUtils.updateOrderStatus(orderId, status, internalNotes, from, {
+    ...(status === "delivered" &&
+      options.deliveryPhotoUrl && { delivery_photo_url: options.deliveryPhotoUrl }),
+  });
+
+  // No row matched: another request changed the status after we validated it
+  if (result.error?.code === "PGRST116") {
+    throw new OrderStatusTransitionError(
+      "Stav objednávky byl mezitím změněn, načtěte ji znovu",
+      "ILLEGAL_TRANSITION",
+      from,
+      status
+    );
+  }
+
+  if (result.error || !result.data) {
+    return result;
+  }
+
+  const { error: historyError } = await orderUtils.recordStatusChange({
+    order_id: orderId,
+    from_status: from,
+    to_status: status,
+    changed_by: options.changedBy || null,
+    source: options.source || "system",
+    note: internalNotes || null,
+    metadata: (options.metadata || {}) as Json,
+  });
+
+  if (historyError) {
+    console.error("Error recording order status history:", historyError);
+  }
+
+  return result;
+}
 
 /**
- * Update order status with cache invalidation
+ * Update order status through the order lifecycle.
+ * Rejects illegal transitions with OrderStatusTransitionError, records the change in
+ * order_status_history and runs the status side effects. Re-applying the current
+ * status is a no-op so repeated payment callbacks stay idempotent.
  */
 export async function updateOrderStatus(
   orderId: string,
   status: OrderStatus,
-  internalNotes?: string
+  internalNotes?: string,
+  options: OrderStatusChangeOptions = {}
 ) {
   try {
-    // Update order in database
-    const result = await orderUtils.updateOrderStatus(orderId, status, internalNotes);
+    const { data: currentOrder, error: fetchError } = await orderUtils.getOrderById(orderId);
+
+    if (fetchError || !currentOrder) {
+      return { data: null, error: fetchError || new Error("Order not found") };
+    }
+
+    const from = isOrderStatus(currentOrder.status) ? currentOrder.status : "pending";
+
+    if (from === status) {
+      if (internalNotes && internalNotes !== currentOrder.notes) {
+        return orderUtils.updateOrderStatus(orderId, status, internalNotes, from);
+      }
+      return { data: currentOrder, error: null };
+    }
 
-    // Invalidate caches based on status
-    if (status === "confirmed" || status === "delivered") {
-      // Order is completed, invalidate related caches
-      await invalidateCacheByEvent("order.completed", { orderId });
+    assertTransitionAllowed(currentOrder, from, status);
+
+    const result = await persistStatusTransition(orderId, from, status, internalNotes, options);
+
+    if (result.data && !result.error) {
+      await runStatusSideEffects(result.data, from, status, options);
     }
 
     return result;
   } catch (error) {
-    console.error("Error updating order status:", error);
+    if (!(error instanceof OrderStatusTransitionError)) {
+      console.error("Error updating order status:", error);
+    }
     throw error;
   }
 }
@@ -36,13 +204,28 @@ export async function updateOrderStatus(
 /**
  * Create order with cache invalidation
  */
-export async function createOrder(orderData: any) {
+export async function createOrder(orderData: any, options: OrderStatusChangeOptions = {}) {
   try {
     // Create order in database
     const result = await orderUtils.createOrder(orderData);
 
-    // Invalidate cart cache for the user/session
     if (result.data) {
+      // Initial timeline entry
+      const { error: historyError } = await orderUtils.recordStatusChange({
+        order_id: result.data.id,
+        from_status: null,
+        to_status: result.data.status || "pending",
+        changed_by: options.changedBy || null,
+        source: options.source || "system",
+        note: null,
+        metadata: (options.metadata || {}) as Json,
+      });
+
+      if (historyError) {
+        console.error("Error recording initial order status:", historyError);
+      }
+
+      // Invalidate cart cache for the user/session
       await invalidateCacheByEvent("order.completed", {
         orderId: result.data.id,
         userId: orderData.user_id,
@@ -57,6 +240,41 @@ export async function createOrder(orderData: any) {
   }
 }
 
+/**
+ * Get order status timeline from order_status_history.
+ * Orders created before the history table existed fall back to a single entry.
+ */
+export async function getOrderStatusHistory(order: Order) {
+  const { data: rows, error } = await orderUtils.getOrderHistory(order.id);
+
+  if (error) {
+    console.error("Error getting order status history:", error);
+  }
+
+  if (rows && rows.length > 0) {
+    return rows.map((row: OrderStatusHistory) => {
+      const status = row.to_status as OrderStatus;
+      return {
+        status,
+        fromStatus: (row.from_status as OrderStatus | null) || null,
+        timestamp: row.created_at,
+        description: ORDER_STATUS_DESCRIPTIONS[status] || status,
+        ...(row.note && { note: row.note }),
+      };
+    });
+  }
+
+  const status = isOrderStatus(order.status) ? order.status : "pending";
+  return [
+    {
+      status,
+      fromStatus: null,
+      timestamp: order.updated_at || order.created_at || new Date().toISOString(),
+      description: ORDER_STATUS_DESCRIPTIONS[status],
+    },
+  ];
+}
+
 /**
  * Get order by ID
  */
@@ -12,9 +12,29 @@ import {
   getCachedProductsList,
   invalidateProductCache,
 } from "@/lib/cache/product-cache";
+import {
+  countProductFacets,
+  type ListingProduct,
+  matchesProductFilters,
+  sortByPopularity,
+} from "@/lib/search/product-listing";
+import {
+  hasSearchHighlight,
+  normalizeProductSearchTerm,
+  PRODUCT_SUGGESTION_LIMIT,
+  parseSearchHighlight,
+} from "@/lib/search/product-search";
 import { createClient } from "@/lib/supabase/server";
 import { transformCategoryRow, transformProductRow } from "@/lib/utils/product-transforms";
-import type { CategoryRow, Product, ProductRow } from "@/types/product";
+import type {
+  CategoryRow,
+  CustomizationOption,
+  Product,
+  ProductFacets,
+  ProductRow,
+  ProductSuggestion,
+  SearchHighlightSegment,
+} from "@/types/product";
 
 /**
  * Product query filters
@@ -28,10 +48,14 @@ export interface ProductFilters {
   maxPrice?: number;
   inStock?: boolean;
   search?: string;
+  // Slugs of size and flower type choice labels
+  sizes?: string[];
+  flowers?: string[];
   locale?: string;
   page?: number;
   limit?: number;
-  sortField?: "name" | "price" | "created_at" | "featured";
+  // Relevance only ranks search results; without a search it falls back to newest first
+  sortField?: "name" | "price" | "created_at" | "featured" | "popularity" | "relevance";
   sortDirection?: "asc" | "desc";
 }
 
@@ -48,6 +72,189 @@ export interface ProductQueryResult {
   };
 }
 
+/**
+ * Active product matching a search, as ranked by search_products()
+ */
+interface ProductSearchMatch {
+  productId: string;
+  rank: number;
+  nameHighlight: SearchHighlightSegment[];
+  snippet: SearchHighlightSegment[];
+}
+
+// Search results are ranked in the database and filtered and paged from at most this many
+const SEARCH_RESULT_LIMIT = 200;
+
+/**
+ * Full-text search over product names and descriptions, best match first
+ * Diacritics are ignored and every word matches the start of a word ("venec" finds "věnce").
+ *
+ * @param term - Term from normalizeProductSearchTerm
+ */
+async function searchProductMatches(
+  term: string,
+  locale: string,
+  limit = SEARCH_RESULT_LIMIT
+): Promise<ProductSearchMatch[]> {
+  const supabase = createClient();
+  const { data, error } = await supabase.rpc("search_products", {
+    p_term: term,
+    p_locale: locale,
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to search products: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    productId: row.product_id,
+    rank: row.rank,
+    nameHighlight: parseSearchHighlight(row.name_headline),
+    snippet: parseSearchHighlight(row.snippet),
+  }));
+}
+
+/**
+ * Attach the matching description fragment to each product and optionally order by rank
+ */
+function applySearchMatches(
+  products: Product[],
+  matches: ProductSearchMatch[],
+  rankByRelevance: boolean
+): Product[] {
+  const order = new Map(matches.map((match, index) => [match.productId, index]));
+  const withSnippets = products.map((product) => {
+    const snippet = matches[order.get(product.id) ?? -1]?.snippet ?? [];
+    return hasSearchHighlight(snippet) ? { ...product, searchSnippet: snippet } : product;
+  });
+
+  return rankByRelevance
+    ? withSnippets.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0))
+    : withSnippets;
+}
+
+/**
+ * Active products with what the listing filters and counts facets by
+ */
+async function getListingProducts(): Promise<ListingProduct[]> {
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("products")
+    .select(
+      "id, category_id, base_price, featured, availability, customization_options, categories (slug, name_cs, name_en)"
+    )
+    .eq("active", true);
+
+  if (error) {
+    throw new Error(`Failed to fetch listing products: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    categoryId: row.category_id,
+    category: row.categories
+      ? {
+          slug: row.categories.slug,
+          name: { cs: row.categories.name_cs, en: row.categories.name_en },
+        }
+      : null,
+    basePrice: Number(row.base_price),
+    featured: row.featured ?? false,
+    // Same test as the inStock filter of getProducts()
+    inStock: (row.availability as { inStock?: boolean } | null)?.inStock === true,
+    customizationOptions: Array.isArray(row.customization_options)
+      ? (row.customization_options as unknown as CustomizationOption[])
+      : [],
+  }));
+}
+
+/**
+ * Number of paid orders each product was in over the last year
+ */
+async function getProductOrderCounts(): Promise<Map<string, number>> {
+  const supabase = createClient();
+  const { data, error } = await supabase.rpc("get_product_popularity", {});
+
+  if (error) {
+    throw new Error(`Failed to fetch product popularity: ${error.message}`);
+  }
+
+  return new Map((data || []).map((row) => [row.product_id, Number(row.order_count)]));
+}
+
+/**
+ * Facet counts for the product listing
+ * Counts follow the same filters as getProducts(), search included.
+ */
+export async function getProductFacets(filters: ProductFilters = {}): Promise<ProductFacets> {
+  const searchTerm = normalizeProductSearchTerm(filters.search);
+  const [products, matches] = await Promise.all([
+    getListingProducts(),
+    searchTerm ? searchProductMatches(searchTerm, filters.locale ?? "cs") : null,
+  ]);
+
+  const matchIds = matches && new Set(matches.map((match) => match.productId));
+  return countProductFacets(
+    matchIds ? products.filter((product) => matchIds.has(product.id)) : products,
+    filters
+  );
+}
+
+/**
+ * Typeahead suggestions for a partially typed search
+ * Not cached; the search itself is served from the product list cache.
+ */
+export async function getProductSuggestions(
+  search: string,
+  locale = "cs"
+): Promise<ProductSuggestion[]> {
+  const term = normalizeProductSearchTerm(search);
+  if (!term) {
+    return [];
+  }
+
+  const matches = await searchProductMatches(term, locale, PRODUCT_SUGGESTION_LIMIT);
+  if (matches.length === 0) {
+    return [];
+  }
+
+  const supabase = createClient();
+  const { data, error } = await supabase
+    .from("products")
+    .select("id, slug, name_cs, name_en")
+    .in(
+      "id",
+      matches.map((match) => match.productId)
+    );
+
+  if (error) {
+    throw new Error(`Failed to fetch product suggestions: ${error.message}`);
+  }
+
+  const rows = new Map((data || []).map((row) => [row.id, row]));
+
+  return matches.flatMap((match) => {
+    const row = rows.get(match.productId);
+    if (!row) {
+      return [];
+    }
+
+    const name = locale === "en" ? row.name_en : row.name_cs;
+    return [
+      {
+        id: row.id,
+        slug: row.slug,
+        name,
+        highlight:
+          match.nameHighlight.length > 0
+            ? match.nameHighlight
+            : [{ text: name, highlighted: false }],
+      },
+    ];
+  });
+}
+
 /**
  * Get product by ID with caching
  * Uses database index on products.id (primary key)
@@ -180,6 +387,8 @@ export async function getProducts(filters: ProductFilters = {}): Promise<Product
       maxPrice,
       inStock,
       search,
+      sizes,
+      flowers,
       locale = "cs",
       page = 1,
       limit = 12,
@@ -187,6 +396,8 @@ export async function getProducts(filters: ProductFilters = {}): Promise<Product
       sortDirection = "desc",
     } = filters;
 
+    const searchTerm = normalizeProductSearchTerm(search);
+
     // Try cache first
     const cacheKey = {
       categoryId,
@@ -196,7 +407,9 @@ export async function getProducts(filters: ProductFilters = {}): Promise<Product
       minPrice,
       maxPrice,
       inStock,
-      search,
+      search: searchTerm,
+      sizes,
+      flowers,
       locale,
       page,
       limit,
@@ -227,8 +440,49 @@ export async function getProducts(filters: ProductFilters = {}): Promise<Product
       };
     }
 
+    // Full-text search narrows the products down to the ranked matches
+    const matches = searchTerm ? await searchProductMatches(searchTerm, locale) : null;
+    let productIds = matches?.map((match) => match.productId) ?? null;
+
+    // Size and flower type live in the customization options and are matched here
+    if (sizes?.length || flowers?.length) {
+      const attributeFilters = {
+        ...(sizes && { sizes }),
+        ...(flowers && { flowers }),
+      };
+      const matching = (await getListingProducts())
+        .filter((product) => matchesProductFilters(product, attributeFilters))
+        .map((product) => product.id);
+      productIds = productIds ? productIds.filter((id) => matching.includes(id)) : matching;
+    }
+
+    if (productIds?.length === 0) {
+      return {
+        products: [],
+        pagination: { page, limit, total: 0, totalPages: 0 },
+      };
+    }
+
     const supabase = createClient();
 
+    // Listing URLs filter by category slug
+    let resolvedCategoryId = categoryId;
+    if (!categoryId && categorySlug) {
+      const { data: category } = await supabase
+        .from("categories")
+        .select("id")
+        .eq("slug", categorySlug)
+        .maybeSingle();
+
+      if (!category) {
+        return {
+          products: [],
+          pagination: { page, limit, total: 0, totalPages: 0 },
+        };
+      }
+      resolvedCategoryId = category.id;
+    }
+
     // Build optimized query using indexed columns
     let query = supabase.from("products").select(
       `
@@ -256,8 +510,8 @@ export async function getProducts(filters: ProductFilters = {}): Promise<Product
       query = query.eq("active", active); // Uses idx_products_active
     }
 
-    if (categoryId) {
-      query = query.eq("category_id", categoryId); // Uses idx_products_category_id
+    if (resolvedCategoryId) {
+      query = query.eq("category_id", resolvedCategoryId); // Uses idx_products_category_id
     }
 
     if (featured !== undefined) {
@@ -276,16 +530,16 @@ export async function getProducts(filters: ProductFilters = {}): Promise<Product
       query = query.contains("availability", { inStock: true });
     }
 
-    // Apply search using text search on indexed columns
-    if (search) {
-      const searchTerm = search.trim();
-      if (searchTerm) {
-        query = query.or(
-          `name_cs.ilike.*${searchTerm}*,name_en.ilike.*${searchTerm}*,description_cs.ilike.*${searchTerm}*,description_en.ilike.*${searchTerm}*`
-        );
-      }
+    if (productIds) {
+      query = query.in("id", productIds); // Search and size / flower type matches
     }
 
+    // Search results ranked by relevance and products sorted by popularity are ordered and
+    // paged after the query
+    const rankByRelevance = matches !== null && sortField === "relevance";
+    const rankByPopularity = sortField === "popularity";
+    const offset = (page - 1) * limit;
+
     // Apply sorting
     const sortColumn =
       sortField === "name"
@@ -298,14 +552,21 @@ export async function getProducts(filters: ProductFilters = {}): Promise<Product
             ? "featured"
             : "created_at";
 
-    query = query.order(sortColumn, { ascending: sortDirection === "asc" });
+    if (rankByPopularity) {
+      // Equally popular products stay newest first
+      query = query.order("created_at", { ascending: false });
+    } else if (!rankByRelevance) {
+      query = query.order(sortColumn, { ascending: sortDirection === "asc" });
 
-    // Apply pagination
-    const offset = (page - 1) * limit;
-    query = query.range(offset, offset + limit - 1);
+      // Apply pagination
+      query = query.range(offset, offset + limit - 1);
+    }
 
     // Execute query
-    const { data, error, count } = await query;
+    const [{ data, error, count }, orderCounts] = await Promise.all([
+      query,
+      rankByPopularity ? getProductOrderCounts() : null,
+    ]);
 
     if (error) {
       console.error("Error fetching products:", error);
@@ -316,13 +577,25 @@ export async function getProducts(filters: ProductFilters = {}): Promise<Product
     }
 
     // Transform results
-    const products: Product[] = (data || []).map(
+    let products: Product[] = (data || []).map(
       (row: ProductRow & { categories?: CategoryRow | null }) => {
         const category = row.categories ? transformCategoryRow(row.categories) : undefined;
         return transformProductRow(row, category);
       }
     );
 
+    if (matches) {
+      products = applySearchMatches(products, matches, rankByRelevance);
+    }
+
+    if (orderCounts) {
+      products = sortByPopularity(products, orderCounts, sortDirection);
+    }
+
+    if (rankByRelevance || rankByPopularity) {
+      products = products.slice(offset, offset + limit);
+    }
+
     const total = count || 0;
     const totalPages = Math.ceil(total / limit);
 
@@ -0,0 +1,209 @@
+/**
+ * Refund service
+ * Issues full and per-item refunds through PaymentService and keeps payment_info in sync
+ * with refund and dispute events reported by Stripe.
+ */
+
+import {
+  assertRefundAmount,
+  calculateItemRefund,
+  getPaymentStatusAfterRefunds,
+  getRefundableAmount,
+  getRefundedAmount,
+  isRefundablePaymentStatus,
+  mergeRefundRecord,
+  RefundError,
+  type RefundItemSelection,
+} from "@/lib/orders/refunds";
+import { PaymentService } from "@/lib/payments";
+import type { Database, Json } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import { getOrderItems } from "@/lib/utils/order-transforms";
+import type { PaymentDispute, PaymentInfo, RefundRecord } from "@/types/order";
+
+type OrderRow = Database["public"]["Tables"]["orders"]["Row"];
+
+/**
+ * payment_info as stored in the orders table (dates serialized as ISO strings)
+ */
+export type StoredPaymentInfo = Omit<PaymentInfo, "processedAt"> & {
+  processedAt?: string | null;
+};
+
+export interface IssueRefundRequest {
+  /** Refund these item quantities; omit for a full or amount-based refund */
+  items?: RefundItemSelection[];
+  /** Explicit amount in CZK; defaults to everything still refundable */
+  amount?: number;
+  reason?: string;
+}
+
+export interface IssueRefundResult {
+  refund: RefundRecord;
+  paymentInfo: StoredPaymentInfo;
+  previousPaymentInfo: StoredPaymentInfo;
+}
+
+function getPaymentInfo(order: Pick<OrderRow, "payment_info">): StoredPaymentInfo {
+  return (order.payment_info || {}) as unknown as StoredPaymentInfo;
+}
+
+async function getOrderByTransactionId(transactionId: string): Promise<OrderRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("orders")
+    .select("*")
+    .eq("payment_info->>transactionId", transactionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch order for payment ${transactionId}: ${error.message}`);
+  }
+
+  return data;
+}
+
+async function savePaymentInfo(orderId: string, paymentInfo: StoredPaymentInfo) {
+  const { error } = await supabaseAdmin
+    .from("orders")
+    .update({
+      payment_info: paymentInfo as unknown as Json,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", orderId);
+
+  if (error) {
+    throw new Error(`Failed to update payment info: ${error.message}`);
+  }
+}
+
+/**
+ * Apply refund records to payment_info and recompute the refunded total and status
+ */
+function applyRefunds(paymentInfo: StoredPaymentInfo, records: RefundRecord[]): StoredPaymentInfo {
+  const refunds = records.reduce(mergeRefundRecord, paymentInfo.refunds || []);
+
+  return {
+    ...paymentInfo,
+    refunds,
+    refundedAmount: getRefundedAmount(refunds),
+    status: getPaymentStatusAfterRefunds(paymentInfo.amount, refunds, paymentInfo.status),
+  };
+}
+
+/**
+ * Refund an order (Admin)
+ *
+ * @param orderId - Order to refund
+ * @param request - Items or amount to refund; an empty request refunds the remainder
+ * @param adminId - Admin issuing the refund
+ * @returns The refund plus payment_info before and after, for the activity log
+ * @throws RefundError when the order cannot be refunded as requested
+ */
+export async function issueOrderRefund(
+  orderId: string,
+  request: IssueRefundRequest,
+  adminId: string
+): Promise<IssueRefundResult> {
+  const { data: order, error } = await supabaseAdmin
+    .from("orders")
+    .select("*")
+    .eq("id", orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch order: ${error.message}`);
+  }
+
+  if (!order) {
+    throw new RefundError("Objednávka nebyla nalezena", "NOT_REFUNDABLE");
+  }
+
+  const paymentInfo = getPaymentInfo(order);
+  const refunds = paymentInfo.refunds || [];
+
+  if (!(isRefundablePaymentStatus(paymentInfo.status) && paymentInfo.transactionId)) {
+    throw new RefundError("Platbu této objednávky nelze refundovat", "NOT_REFUNDABLE");
+  }
+
+  const calculation =
+    request.items && request.items.length > 0
+      ? calculateItemRefund(getOrderItems(order), request.items, paymentInfo.amount, refunds)
+      : {
+          amount: request.amount ?? getRefundableAmount(paymentInfo.amount, refunds),
+          items: [],
+        };
+
+  assertRefundAmount(calculation.amount, paymentInfo.amount, refunds);
+
+  const response = await PaymentService.refundPayment({
+    orderId,
+    transactionId: paymentInfo.transactionId,
+    amount: calculation.amount,
+    paymentMethod: paymentInfo.method,
+    ...(request.reason && { reason: request.reason }),
+    metadata: { refundedBy: adminId },
+  });
+
+  if (!(response.success && response.refund)) {
+    throw new RefundError(
+      response.error || "Refundaci se nepodařilo provést",
+      "PAYMENT_PROVIDER_ERROR"
+    );
+  }
+
+  const refund: RefundRecord = {
+    ...response.refund,
+    source: "admin",
+    createdBy: adminId,
+    ...(request.reason && { reason: request.reason }),
+    ...(calculation.items.length > 0 && { items: calculation.items }),
+  };
+
+  const updatedPaymentInfo = applyRefunds(paymentInfo, [refund]);
+  await savePaymentInfo(orderId, updatedPaymentInfo);
+
+  return { refund, paymentInfo: updatedPaymentInfo, previousPaymentInfo: paymentInfo };
+}
+
+/**
+ * Sync refunds reported by Stripe (charge.refunded) into the order's payment_info
+ * Refunds issued from the admin are matched by ID, so webhook retries never double count.
+ *
+ * @returns ID of the updated order, or null when no order uses the payment
+ */
+export async function syncOrderRefunds(
+  transactionId: string,
+  refunds: RefundRecord[]
+): Promise<string | null> {
+  const order = await getOrderByTransactionId(transactionId);
+
+  if (!order) {
+    console.warn(`No order found for refunded payment ${transactionId}`);
+    return null;
+  }
+
+  await savePaymentInfo(order.id, applyRefunds(getPaymentInfo(order), refunds));
+
+  return order.id;
+}
+
+/**
+ * Record a dispute (charge.dispute.created) on the order's payment_info
+ *
+ * @returns ID of the updated order, or null when no order uses the payment
+ */
+export async function recordPaymentDispute(
+  transactionId: string,
+  dispute: PaymentDispute
+): Promise<string | null> {
+  const order = await getOrderByTransactionId(transactionId);
+
+  if (!order) {
+    console.warn(`No order found for disputed payment ${transactionId}`);
+    return null;
+  }
+
+  await savePaymentInfo(order.id, { ...getPaymentInfo(order), dispute });
+
+  return order.id;
+}
@@ -0,0 +1,161 @@
+/**
+ * Ribbon phrase service
+ * Loads the condolence phrase library for the ribbon configurator and manages it from the admin
+ */
+
+import {
+  type RibbonPhrase,
+  RibbonPhraseError,
+  type RibbonPhraseInput,
+  type RibbonPhraseRelationship,
+  validateRibbonPhraseInput,
+} from "@/lib/ribbon/phrases";
+import type { Database } from "@/lib/supabase/database.types";
+import { createClient, supabaseAdmin } from "@/lib/supabase/server";
+
+type RibbonPhraseRow = Database["public"]["Tables"]["ribbon_phrases"]["Row"];
+
+function transformRibbonPhraseRow(row: RibbonPhraseRow): RibbonPhrase {
+  return {
+    id: row.id,
+    relationship: row.relationship as RibbonPhraseRelationship,
+    text: { cs: row.text_cs, en: row.text_en },
+    sortOrder: row.sort_order,
+    active: row.active,
+  };
+}
+
+function toRibbonPhraseRow(input: RibbonPhraseInput) {
+  return {
+    relationship: input.relationship,
+    text_cs: input.text.cs,
+    text_en: input.text.en,
+    sort_order: input.sortOrder ?? 0,
+    active: input.active ?? true,
+  };
+}
+
+/**
+ * Get ribbon phrases ordered by relationship and sort order
+ *
+ * @param includeInactive - Include deactivated phrases (admin only)
+ */
+export async function getRibbonPhrases(includeInactive = false): Promise<RibbonPhrase[]> {
+  const client = includeInactive ? supabaseAdmin : createClient();
+
+  let query = client
+    .from("ribbon_phrases")
+    .select("*")
+    .order("relationship", { ascending: true })
+    .order("sort_order", { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq("active", true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch ribbon phrases: ${error.message}`);
+  }
+
+  return (data || []).map(transformRibbonPhraseRow);
+}
+
+function handleWriteError(error: { code?: string; message: string }, action: string): never {
+  if (error.code === "23505") {
+    throw new RibbonPhraseError("Tato fráze již v knihovně existuje", "DUPLICATE_PHRASE");
+  }
+  throw new Error(`Failed to ${action} ribbon phrase: ${error.message}`);
+}
+
+/**
+ * Get a single phrase (Admin)
+ */
+export async function getRibbonPhrase(id: string): Promise<RibbonPhrase | null> {
+  const { data, error } = await supabaseAdmin
+    .from("ribbon_phrases")
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch ribbon phrase: ${error.message}`);
+  }
+
+  return data ? transformRibbonPhraseRow(data) : null;
+}
+
+/**
+ * Create a ribbon phrase (Admin)
+ *
+ * @throws RibbonPhraseError when the phrase is invalid or already exists
+ */
+export async function createRibbonPhrase(input: RibbonPhraseInput): Promise<RibbonPhrase> {
+  const phrase = validateRibbonPhraseInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("ribbon_phrases")
+    .insert(toRibbonPhraseRow(phrase))
+    .select()
+    .single();
+
+  if (error) {
+    handleWriteError(error, "create");
+  }
+
+  return transformRibbonPhraseRow(data);
+}
+
+/**
+ * Replace a ribbon phrase (Admin)
+ *
+ * @throws RibbonPhraseError when the phrase is invalid, missing or already exists
+ */
+export async function updateRibbonPhrase(
+  id: string,
+  input: RibbonPhraseInput
+): Promise<RibbonPhrase> {
+  const phrase = validateRibbonPhraseInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("ribbon_phrases")
+    .update(toRibbonPhraseRow(phrase))
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    handleWriteError(error, "update");
+  }
+
+  if (!data) {
+    throw new RibbonPhraseError("Fráze nebyla nalezena", "PHRASE_NOT_FOUND");
+  }
+
+  return transformRibbonPhraseRow(data);
+}
+
+/**
+ * Delete a ribbon phrase (Admin)
+ *
+ * @throws RibbonPhraseError when the phrase does not exist
+ */
+export async function deleteRibbonPhrase(id: string): Promise<RibbonPhrase> {
+  const { data, error } = await supabaseAdmin
+    .from("ribbon_phrases")
+    .delete()
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete ribbon phrase: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new RibbonPhraseError("Fráze nebyla nalezena", "PHRASE_NOT_FOUND");
+  }
+
+  return transformRibbonPhraseRow(data);
+}
@@ -0,0 +1,211 @@
+/**
+ * SMS outbox service
+ * Queues purchaser SMS notifications in sms_outbox and delivers them with retries through
+ * the configured SMS provider. Enqueueing is idempotent per order and status.
+ */
+
+import {
+  buildOrderStatusSms,
+  normalizeSmsPhoneNumber,
+} from "@/lib/notifications/order-notifications";
+import {
+  getOutboxClaimUpdate,
+  getOutboxFailureUpdate,
+  getOutboxIdempotencyKey,
+  getOutboxSentUpdate,
+} from "@/lib/notifications/outbox";
+import { createSmsProvider } from "@/lib/sms/providers";
+import type { Database } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+import { transformOrderRow } from "@/lib/utils/order-transforms";
+import type { OrderStatus } from "@/types/order";
+
+type SmsOutboxRow = Database["public"]["Tables"]["sms_outbox"]["Row"];
+
+export interface EnqueueOrderSmsOptions {
+  locale?: "cs" | "en";
+  /** Try to deliver right away instead of waiting for the next outbox run */
+  sendImmediately?: boolean;
+}
+
+export interface SmsOutboxRunResult {
+  processed: number;
+  sent: number;
+  retried: number;
+  failed: number;
+}
+
+const smsProvider = createSmsProvider();
+
+/**
+ * Queue the purchaser SMS for an order status
+ *
+ * @returns The outbox entry, or null when the phone number cannot receive SMS
+ */
+export async function enqueueOrderSms(
+  orderId: string,
+  status: OrderStatus,
+  phone: string,
+  options: EnqueueOrderSmsOptions = {}
+): Promise<SmsOutboxRow | null> {
+  const normalizedPhone = normalizeSmsPhoneNumber(phone);
+
+  if (!normalizedPhone) {
+    return null;
+  }
+
+  const idempotencyKey = getOutboxIdempotencyKey(orderId, status);
+
+  const { error: insertError } = await supabaseAdmin.from("sms_outbox").upsert(
+    {
+      order_id: orderId,
+      order_status: status,
+      phone: normalizedPhone,
+      locale: options.locale || "cs",
+      idempotency_key: idempotencyKey,
+    },
+    { onConflict: "idempotency_key", ignoreDuplicates: true }
+  );
+
+  if (insertError) {
+    throw new Error(`Failed to enqueue order SMS: ${insertError.message}`);
+  }
+
+  const { data: entry, error } = await supabaseAdmin
+    .from("sms_outbox")
+    .select("*")
+    .eq("idempotency_key", idempotencyKey)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load SMS outbox entry: ${error.message}`);
+  }
+
+  if (options.sendImmediately && entry.status === "pending") {
+    return (await deliverOutboxEntry(entry)) || entry;
+  }
+
+  return entry;
+}
+
+/**
+ * Claim a single pending entry and deliver it
+ */
+async function deliverOutboxEntry(entry: SmsOutboxRow): Promise<SmsOutboxRow | null> {
+  const { data: claimed } = await supabaseAdmin
+    .from("sms_outbox")
+    .update(getOutboxClaimUpdate(entry, new Date()))
+    .eq("id", entry.id)
+    .eq("status", "pending")
+    .eq("attempts", entry.attempts)
+    .select()
+    .maybeSingle();
+
+  // Someone else is already sending it
+  if (!claimed) {
+    return null;
+  }
+
+  return sendOutboxEntry(claimed);
+}
+
+/**
+ * Render and send one claimed entry, then record the outcome
+ */
+async function sendOutboxEntry(entry: SmsOutboxRow): Promise<SmsOutboxRow> {
+  let error: string | undefined;
+  let messageId: string | undefined;
+
+  try {
+    const { data: row, error: orderError } = await supabaseAdmin
+      .from("orders")
+      .select("*")
+      .eq("id", entry.order_id)
+      .single();
+
+    if (orderError || !row) {
+      throw new Error(`Order ${entry.order_id} not found`);
+    }
+
+    const body = buildOrderStatusSms(
+      transformOrderRow(row),
+      entry.order_status as OrderStatus,
+      entry.locale as "cs" | "en"
+    );
+
+    if (!body) {
+      throw new Error(`Order status ${entry.order_status} has no SMS message`);
+    }
+
+    const result = await smsProvider.send({
+      to: entry.phone,
+      body,
+      idempotencyKey: entry.idempotency_key,
+    });
+
+    messageId = result.messageId;
+    error = result.success ? undefined : result.error || "SMS provider failed";
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : String(sendError);
+  }
+
+  const now = new Date();
+  const update: Database["public"]["Tables"]["sms_outbox"]["Update"] = error
+    ? getOutboxFailureUpdate(entry, error, now)
+    : {
+        ...getOutboxSentUpdate(now),
+        provider: smsProvider.name,
+        provider_message_id: messageId || null,
+      };
+
+  if (error) {
+    console.error(
+      `Order SMS ${entry.idempotency_key} failed (attempt ${entry.attempts}/${entry.max_attempts}):`,
+      error
+    );
+  }
+
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from("sms_outbox")
+    .update(update)
+    .eq("id", entry.id)
+    .select()
+    .single();
+
+  if (updateError) {
+    console.error("Error updating SMS outbox entry:", updateError);
+    return { ...entry, ...update } as SmsOutboxRow;
+  }
+
+  return updated;
+}
+
+/**
+ * Deliver due outbox entries (pending retries and stale locks)
+ */
+export async function processSmsOutbox(limit = 20): Promise<SmsOutboxRunResult> {
+  const { data: entries, error } = await supabaseAdmin.rpc("claim_sms_outbox", {
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim SMS outbox: ${error.message}`);
+  }
+
+  const result: SmsOutboxRunResult = { processed: 0, sent: 0, retried: 0, failed: 0 };
+
+  for (const entry of entries || []) {
+    const updated = await sendOutboxEntry(entry);
+    result.processed++;
+
+    if (updated.status === "sent") {
+      result.sent++;
+    } else if (updated.status === "failed") {
+      result.failed++;
+    } else {
+      result.retried++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,116 @@
+/**
+ * Stock reservation service
+ * Holds the stock of pre-made products and sizes while the customer pays, decrements it when
+ * the checkout completes and releases it when the checkout is cancelled or expires
+ */
+
+import { invalidateCustomizationOptionsCache } from "@/lib/cache/server-customization-cache";
+import {
+  formatStockShortfallMessage,
+  StockReservationError,
+  type StockReservationItem,
+  type StockShortfall,
+} from "@/lib/inventory/stock";
+import type { Json } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+
+// Shortfall as returned by reserve_stock()
+interface StoredStockShortfall {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  requested: number;
+  available: number;
+}
+
+/**
+ * Hold stock for a checkout session
+ * Calling it again for the same session replaces the hold. Products without tracked
+ * inventory are skipped. The hold expires after an hour, together with the checkout session.
+ *
+ * @throws StockReservationError when a product does not have enough stock left
+ */
+export async function reserveStock(
+  checkoutSessionId: string,
+  items: StockReservationItem[]
+): Promise<void> {
+  if (items.length === 0) {
+    return;
+  }
+
+  const { data, error } = await supabaseAdmin.rpc("reserve_stock", {
+    p_checkout_session_id: checkoutSessionId,
+    p_items: items.map((item) => ({
+      product_id: item.productId,
+      variant_id: item.variantId ?? null,
+      quantity: item.quantity,
+    })) as unknown as Json,
+  });
+
+  if (error) {
+    throw new Error(`Failed to reserve stock: ${error.message}`);
+  }
+
+  const shortfalls: StockShortfall[] = ((data || []) as unknown as StoredStockShortfall[]).map(
+    (shortfall) => ({
+      productId: shortfall.product_id,
+      ...(shortfall.variant_id && { variantId: shortfall.variant_id }),
+      productName: shortfall.product_name,
+      requested: shortfall.requested,
+      available: shortfall.available,
+    })
+  );
+
+  if (shortfalls.length > 0) {
+    throw new StockReservationError(
+      formatStockShortfallMessage(shortfalls),
+      "OUT_OF_STOCK",
+      shortfalls
+    );
+  }
+}
+
+/**
+ * Decrement the product and size stock held by a completed checkout session
+ * Safe to call more than once for the same session.
+ */
+export async function commitStockReservation(
+  checkoutSessionId: string,
+  orderId: string
+): Promise<void> {
+  const { error } = await supabaseAdmin.rpc("commit_stock_reservation", {
+    p_checkout_session_id: checkoutSessionId,
+    p_order_id: orderId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to commit stock reservation: ${error.message}`);
+  }
+
+  // Size availability is served from the customization options cache
+  const { data: committed } = await supabaseAdmin
+    .from("stock_reservations")
+    .select("product_id")
+    .eq("checkout_session_id", checkoutSessionId)
+    .eq("status", "committed")
+    .not("variant_id", "is", null);
+
+  const productIds = new Set((committed || []).map((reservation) => reservation.product_id));
+  await Promise.all([...productIds].map(invalidateCustomizationOptionsCache));
+}
+
+/**
+ * Release the stock held by a cancelled or expired checkout session
+ * Stock already committed to an order is kept.
+ */
+export async function releaseStockReservation(checkoutSessionId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from("stock_reservations")
+    .update({ status: "released" })
+    .eq("checkout_session_id", checkoutSessionId)
+    .eq("status", "held");
+
+  if (error) {
+    throw new Error(`Failed to release stock reservation: ${error.message}`);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * User role service
+ * Lists users with their roles and assigns roles from the admin
+ */
+
+import {
+  isUserRole,
+  STAFF_ROLES,
+  type UserRole,
+  UserRoleError,
+  validateRoleAssignment,
+} from "@/lib/auth/permissions";
+import type { Database } from "@/lib/supabase/database.types";
+import { supabaseAdmin } from "@/lib/supabase/server";
+
+type UserProfileRow = Database["public"]["Tables"]["user_profiles"]["Row"];
+
+export interface UserRoleEntry {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  createdAt: string;
+}
+
+export interface UserRoleFilters {
+  search?: string;
+  staffOnly?: boolean;
+  limit?: number;
+}
+
+// Characters with a meaning in PostgREST or() filters and ILIKE patterns
+const SEARCH_SPECIAL_CHARACTERS = /[,()%_*\\]/g;
+
+function transformUserProfileRow(
+  row: Pick<UserProfileRow, "id" | "email" | "name" | "role" | "created_at">
+): UserRoleEntry {
+  return {
+    id: row.id,
+    email: row.email,
+    ...(row.name && { name: row.name }),
+    role: isUserRole(row.role) ? row.role : "customer",
+    createdAt: row.created_at ?? "",
+  };
+}
+
+/**
+ * Get users with their roles (Admin)
+ * Staff are listed by default; searching by email or name also finds customers to promote.
+ */
+export async function getUsersWithRoles(filters: UserRoleFilters = {}): Promise<UserRoleEntry[]> {
+  let query = supabaseAdmin
+    .from("user_profiles")
+    .select("id, email, name, role, created_at")
+    .order("email", { ascending: true })
+    .limit(filters.limit ?? 50);
+
+  const search = filters.search?.replace(SEARCH_SPECIAL_CHARACTERS, "").trim();
+  if (search) {
+    query = query.or(`email.ilike.%${search}%,name.ilike.%${search}%`);
+  }
+
+  if (filters.staffOnly ?? !search) {
+    query = query.in("role", [...STAFF_ROLES]);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch users: ${error.message}`);
+  }
+
+  return (data || []).map(transformUserProfileRow);
+}
+
+/**
+ * Get a single user with their role (Admin)
+ */
+export async function getUserWithRole(userId: string): Promise<UserRoleEntry | null> {
+  const { data, error } = await supabaseAdmin
+    .from("user_profiles")
+    .select("id, email, name, role, created_at")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch user: ${error.message}`);
+  }
+
+  return data ? transformUserProfileRow(data) : null;
+}
+
+/**
+ * Assign a role to a user (Admin)
+ *
+ * @param actorId - The admin making the change
+ * @throws UserRoleError when the role is invalid, the user is missing or it is the actor's own role
+ */
+export async function updateUserRole(
+  actorId: string,
+  userId: string,
+  role: unknown
+): Promise<UserRoleEntry> {
+  const newRole = validateRoleAssignment(actorId, userId, role);
+
+  const { data, error } = await supabaseAdmin
+    .from("user_profiles")
+    .update({ role: newRole, updated_at: new Date().toISOString() })
+    .eq("id", userId)
+    .select("id, email, name, role, created_at")
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to update user role: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new UserRoleError("Uživatel nebyl nalezen", "USER_NOT_FOUND");
+  }
+
+  return transformUserProfileRow(data);
+}
@@ -0,0 +1,430 @@
+/**
+ * Product variant service
+ * Manages purchasable sizes of products (product_variants) with their SKU, price, stock,
+ * images and Stripe prices
+ */
+
+import { generateCacheKey, getCacheClient } from "@/lib/cache/redis";
+import { invalidateCustomizationOptionsCache } from "@/lib/cache/server-customization-cache";
+import { stripe } from "@/lib/payments/stripe";
+import { isSizeOption } from "@/lib/products/variants";
+import { invalidateProduct } from "@/lib/services/product-service";
+import type { Json } from "@/lib/supabase/database.types";
+import { createClient, supabaseAdmin } from "@/lib/supabase/server";
+import { transformProductVariantRow } from "@/lib/utils/product-transforms";
+import type { LocalizedContent } from "@/types";
+import type { CustomizationChoice, CustomizationOption, ProductVariant } from "@/types/product";
+
+/**
+ * Variant as submitted from the product form
+ */
+export interface ProductVariantInput {
+  sizeChoiceId: string;
+  sku?: string | null;
+  price: number;
+  stockQuantity?: number | null; // null or missing = made to order
+  images?: Array<{ url: string; alt?: string }>;
+  isDefault?: boolean;
+  active?: boolean;
+}
+
+/**
+ * Result of syncing variants to Stripe
+ */
+export interface ProductVariantSyncResult {
+  created: Array<{ sizeChoiceId: string; stripePriceId: string }>;
+  skipped: number;
+  errors: Array<{ sizeChoiceId: string; error: string }>;
+}
+
+export type ProductVariantErrorCode =
+  | "INVALID_VARIANT"
+  | "DUPLICATE_SKU"
+  | "PRODUCT_NOT_FOUND"
+  | "MISSING_STRIPE_PRODUCT"
+  | "STRIPE_NOT_CONFIGURED";
+
+/**
+ * Error thrown for invalid product variant operations
+ */
+export class ProductVariantError extends Error {
+  constructor(
+    message: string,
+    public code: ProductVariantErrorCode
+  ) {
+    super(message);
+    this.name = "ProductVariantError";
+  }
+}
+
+// Postgres unique violation (SKU already used by another product)
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Get variants of a product ordered as the sizes are listed
+ *
+ * @param productId - Product ID
+ * @param includeInactive - Include deactivated variants (admin only)
+ */
+export async function getProductVariants(
+  productId: string,
+  includeInactive = false
+): Promise<ProductVariant[]> {
+  const client = includeInactive ? supabaseAdmin : createClient();
+
+  let query = client
+    .from("product_variants")
+    .select("*")
+    .eq("product_id", productId)
+    .order("sort_order", { ascending: true })
+    .order("price", { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq("active", true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch product variants: ${error.message}`);
+  }
+
+  return (data || []).map(transformProductVariantRow);
+}
+
+/**
+ * Get size choices defined by the product's size customization option
+ */
+function getSizeChoices(customizationOptions: unknown): CustomizationChoice[] {
+  if (!Array.isArray(customizationOptions)) {
+    return [];
+  }
+
+  const sizeOption = (customizationOptions as CustomizationOption[]).find(isSizeOption);
+
+  return sizeOption?.choices || [];
+}
+
+/**
+ * Size label stored with the variant, taken from the size choice
+ */
+function getSizeLabel(choice: CustomizationChoice): LocalizedContent {
+  return typeof choice.label === "string" ? { cs: choice.label, en: choice.label } : choice.label;
+}
+
+/**
+ * Validate the numbers of a submitted variant
+ */
+function validateVariantValues(variant: ProductVariantInput): void {
+  if (typeof variant.price !== "number" || Number.isNaN(variant.price) || variant.price < 0) {
+    throw new ProductVariantError(
+      `Neplatná cena pro velikost ${variant.sizeChoiceId}`,
+      "INVALID_VARIANT"
+    );
+  }
+
+  const stock = variant.stockQuantity;
+  if (stock !== null && stock !== undefined && !(Number.isInteger(stock) && stock >= 0)) {
+    throw new ProductVariantError(
+      `Neplatný počet kusů skladem pro velikost ${variant.sizeChoiceId}`,
+      "INVALID_VARIANT"
+    );
+  }
+
+  if (variant.images?.some((image) => typeof image.url !== "string" || !image.url.trim())) {
+    throw new ProductVariantError(
+      `Obrázek velikosti ${variant.sizeChoiceId} nemá adresu`,
+      "INVALID_VARIANT"
+    );
+  }
+}
+
+/**
+ * Validate submitted variants against the product's size choices
+ */
+function validateProductVariants(variants: ProductVariantInput[], sizeChoiceIds: string[]): void {
+  const seen = new Set<string>();
+  const skus = new Set<string>();
+
+  for (const variant of variants) {
+    if (!sizeChoiceIds.includes(variant.sizeChoiceId)) {
+      throw new ProductVariantError(
+        `Neznámá velikost ${variant.sizeChoiceId} pro tento produkt`,
+        "INVALID_VARIANT"
+      );
+    }
+
+    if (seen.has(variant.sizeChoiceId)) {
+      throw new ProductVariantError(
+        `Velikost ${variant.sizeChoiceId} je uvedena vícekrát`,
+        "INVALID_VARIANT"
+      );
+    }
+    seen.add(variant.sizeChoiceId);
+
+    validateVariantValues(variant);
+
+    const sku = variant.sku?.trim();
+    if (sku) {
+      if (skus.has(sku)) {
+        throw new ProductVariantError(`SKU ${sku} je uvedeno vícekrát`, "DUPLICATE_SKU");
+      }
+      skus.add(sku);
+    }
+  }
+
+  if (variants.filter((variant) => variant.isDefault).length > 1) {
+    throw new ProductVariantError("Výchozí může být pouze jedna velikost", "INVALID_VARIANT");
+  }
+}
+
+/**
+ * Stored variant price and its Stripe price per size choice
+ */
+type StoredVariantPrice = { price: number; stripePriceId: string | null };
+
+/**
+ * Stripe prices of the product's saved variants, keyed by size choice
+ */
+async function getStoredVariantPrices(productId: string): Promise<Map<string, StoredVariantPrice>> {
+  const { data, error } = await supabaseAdmin
+    .from("product_variants")
+    .select("size_choice_id, price, stripe_price_id")
+    .eq("product_id", productId);
+
+  if (error) {
+    throw new Error(`Failed to fetch product variants: ${error.message}`);
+  }
+
+  return new Map(
+    (data || []).map((row) => [
+      row.size_choice_id,
+      { price: Number(row.price), stripePriceId: row.stripe_price_id },
+    ])
+  );
+}
+
+/**
+ * Database row for a submitted variant; size label and order follow the size option
+ * The stored Stripe price is kept only while the price is unchanged: a Stripe price cannot
+ * change its amount, so a repriced variant gets a new one from syncProductVariantsToStripe.
+ */
+function toVariantRow(
+  productId: string,
+  variant: ProductVariantInput,
+  sizeChoices: CustomizationChoice[],
+  stored: StoredVariantPrice | undefined
+) {
+  const position = sizeChoices.findIndex((choice) => choice.id === variant.sizeChoiceId);
+  const choice = sizeChoices[position];
+  const label = choice ? getSizeLabel(choice) : null;
+
+  return {
+    product_id: productId,
+    size_choice_id: variant.sizeChoiceId,
+    sku: variant.sku?.trim() || null,
+    size_label_cs: label?.cs || null,
+    size_label_en: label?.en || null,
+    price: variant.price,
+    stock_quantity: variant.stockQuantity ?? null,
+    images: (variant.images || []).map((image, index) => ({
+      url: image.url.trim(),
+      alt: image.alt?.trim() || label?.cs || "",
+      isPrimary: index === 0,
+      sortOrder: index,
+    })) as unknown as Json,
+    stripe_price_id: stored?.price === variant.price ? stored.stripePriceId : null,
+    is_default: variant.isDefault ?? false,
+    active: variant.active ?? true,
+    sort_order: position,
+  };
+}
+
+/**
+ * Replace the variants of a product
+ * Variants missing from the submitted list are removed. Size labels and order follow the
+ * product's size option.
+ *
+ * @param productId - Product ID
+ * @param variants - Complete list of variants from the product form
+ * @returns Saved variants
+ */
+export async function saveProductVariants(
+  productId: string,
+  variants: ProductVariantInput[]
+): Promise<ProductVariant[]> {
+  const { data: product, error: productError } = await supabaseAdmin
+    .from("products")
+    .select("id, customization_options")
+    .eq("id", productId)
+    .single();
+
+  if (productError || !product) {
+    throw new ProductVariantError("Produkt nebyl nalezen", "PRODUCT_NOT_FOUND");
+  }
+
+  const sizeChoices = getSizeChoices(product.customization_options);
+  validateProductVariants(
+    variants,
+    sizeChoices.map((choice) => choice.id)
+  );
+
+  const storedPrices = await getStoredVariantPrices(productId);
+
+  // Clear the default flag first so the partial unique index does not block moving it
+  const { error: resetError } = await supabaseAdmin
+    .from("product_variants")
+    .update({ is_default: false })
+    .eq("product_id", productId);
+
+  if (resetError) {
+    throw new Error(`Failed to update product variants: ${resetError.message}`);
+  }
+
+  const keepIds = variants.map((variant) => variant.sizeChoiceId);
+  let deleteQuery = supabaseAdmin.from("product_variants").delete().eq("product_id", productId);
+  if (keepIds.length > 0) {
+    deleteQuery = deleteQuery.not("size_choice_id", "in", `(${keepIds.join(",")})`);
+  }
+
+  const { error: deleteError } = await deleteQuery;
+  if (deleteError) {
+    throw new Error(`Failed to remove product variants: ${deleteError.message}`);
+  }
+
+  if (variants.length > 0) {
+    const { error: upsertError } = await supabaseAdmin.from("product_variants").upsert(
+      variants.map((variant) =>
+        toVariantRow(productId, variant, sizeChoices, storedPrices.get(variant.sizeChoiceId))
+      ),
+      { onConflict: "product_id,size_choice_id" }
+    );
+
+    if (upsertError) {
+      if (upsertError.code === UNIQUE_VIOLATION) {
+        throw new ProductVariantError("SKU je již použito u jiného produktu", "DUPLICATE_SKU");
+      }
+      throw new Error(`Failed to save product variants: ${upsertError.message}`);
+    }
+  }
+
+  // Size prices and availability are served from the customization options cache
+  await Promise.all([
+    invalidateStripeIdsCache(productId),
+    invalidateCustomizationOptionsCache(productId),
+    invalidateProduct(productId),
+  ]);
+
+  return getProductVariants(productId, true);
+}
+
+/**
+ * Create the Stripe price of a variant and store its ID
+ * Prices are tagged with the variant so they can be traced back.
+ */
+async function createVariantStripePrice(
+  stripeClient: NonNullable<typeof stripe>,
+  stripeProductId: string,
+  productName: string,
+  variant: ProductVariant
+): Promise<string> {
+  const price = await stripeClient.prices.create({
+    product: stripeProductId,
+    unit_amount: Math.round(variant.price * 100),
+    currency: "czk",
+    nickname: `${productName} - ${variant.sizeLabel?.cs || variant.sizeChoiceId}`,
+    metadata: {
+      productId: variant.productId,
+      variantId: variant.id,
+      sizeChoiceId: variant.sizeChoiceId,
+      ...(variant.sku && { sku: variant.sku }),
+    },
+  });
+
+  const { error } = await supabaseAdmin
+    .from("product_variants")
+    .update({ stripe_price_id: price.id })
+    .eq("id", variant.id);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return price.id;
+}
+
+/**
+ * Create Stripe prices for active variants that do not have one yet
+ *
+ * @param productId - Product ID
+ * @returns Created price IDs and per-variant errors
+ */
+export async function syncProductVariantsToStripe(
+  productId: string
+): Promise<ProductVariantSyncResult> {
+  if (!stripe) {
+    throw new ProductVariantError("Stripe není nakonfigurován", "STRIPE_NOT_CONFIGURED");
+  }
+
+  const { data: product, error: productError } = await supabaseAdmin
+    .from("products")
+    .select("id, name_cs, stripe_product_id")
+    .eq("id", productId)
+    .single();
+
+  if (productError || !product) {
+    throw new ProductVariantError("Produkt nebyl nalezen", "PRODUCT_NOT_FOUND");
+  }
+
+  if (!product.stripe_product_id) {
+    throw new ProductVariantError(
+      "Produkt nemá přiřazený Stripe produkt",
+      "MISSING_STRIPE_PRODUCT"
+    );
+  }
+
+  const variants = await getProductVariants(productId, true);
+  const result: ProductVariantSyncResult = { created: [], skipped: 0, errors: [] };
+
+  for (const variant of variants) {
+    if (!variant.active || variant.stripePriceId) {
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const stripePriceId = await createVariantStripePrice(
+        stripe,
+        product.stripe_product_id,
+        product.name_cs,
+        variant
+      );
+
+      result.created.push({ sizeChoiceId: variant.sizeChoiceId, stripePriceId });
+    } catch (error) {
+      console.error(`Failed to sync product variant ${variant.id} to Stripe:`, error);
+      result.errors.push({
+        sizeChoiceId: variant.sizeChoiceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  if (result.created.length > 0) {
+    await invalidateStripeIdsCache(productId);
+  }
+
+  return result;
+}
+
+/**
+ * Drop cached Stripe IDs so checkout picks up changed variants
+ */
+export async function invalidateStripeIdsCache(productId: string): Promise<void> {
+  try {
+    const cache = getCacheClient();
+    await cache.del(generateCacheKey("stripe:ids", productId));
+  } catch (error) {
+    console.error("Error invalidating Stripe IDs cache:", error);
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Venue service
+ * Searches the directory of funeral homes and ceremony halls for the checkout and manages it
+ * from the admin
+ */
+
+import { VenueError, type VenueInput, validateVenueInput } from "@/lib/delivery/venues";
+import type { Database, Json } from "@/lib/supabase/database.types";
+import { createClient, supabaseAdmin } from "@/lib/supabase/server";
+import type {
+  DeliveryTimeSlot,
+  DeliveryUrgency,
+  FuneralVenueType,
+  Venue,
+  VenueOpeningHours,
+  VenueSummary,
+} from "@/types/delivery";
+
+type VenueRow = Database["public"]["Tables"]["venues"]["Row"];
+
+const VENUE_SEARCH_LIMIT = 10;
+
+function transformVenueRow(row: VenueRow): Venue {
+  return {
+    id: row.id,
+    name: row.name,
+    venueType: row.venue_type as FuneralVenueType,
+    address: {
+      street: row.street,
+      city: row.city,
+      postalCode: row.postal_code,
+      country: row.country,
+    },
+    openingHours: (row.opening_hours || []) as unknown as VenueOpeningHours[],
+    ...(row.delivery_notes && { deliveryNotes: row.delivery_notes }),
+    ...(row.zone_id && { zoneId: row.zone_id }),
+    ...(row.allowed_time_slots && {
+      allowedTimeSlots: row.allowed_time_slots as DeliveryTimeSlot[],
+    }),
+    ...(row.allowed_urgencies && { allowedUrgencies: row.allowed_urgencies as DeliveryUrgency[] }),
+    active: row.active,
+  };
+}
+
+function toVenueRow(input: VenueInput) {
+  return {
+    name: input.name,
+    venue_type: input.venueType,
+    street: input.address.street,
+    city: input.address.city,
+    postal_code: input.address.postalCode,
+    country: input.address.country || "CZ",
+    opening_hours: (input.openingHours ?? []) as unknown as Json,
+    delivery_notes: input.deliveryNotes || null,
+    zone_id: input.zoneId || null,
+    allowed_time_slots: input.allowedTimeSlots ?? null,
+    allowed_urgencies: input.allowedUrgencies ?? null,
+    active: input.active ?? true,
+  };
+}
+
+/**
+ * Public venue details for the checkout venue picker
+ */
+export function toVenueSummary(venue: Venue): VenueSummary {
+  const { zoneId: _zoneId, active: _active, ...summary } = venue;
+  return summary;
+}
+
+/**
+ * Get venues ordered by name
+ *
+ * @param includeInactive - Include deactivated venues (admin only)
+ */
+export async function getVenues(includeInactive = false): Promise<Venue[]> {
+  const client = includeInactive ? supabaseAdmin : createClient();
+
+  let query = client.from("venues").select("*").order("name", { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq("active", true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch venues: ${error.message}`);
+  }
+
+  return (data || []).map(transformVenueRow);
+}
+
+/**
+ * Search active venues by name, street or city
+ *
+ * @param term - Search term from normalizeVenueSearchTerm (no PostgREST filter syntax)
+ */
+export async function searchVenues(term: string): Promise<Venue[]> {
+  const pattern = `*${term}*`;
+
+  const { data, error } = await createClient()
+    .from("venues")
+    .select("*")
+    .eq("active", true)
+    .or([`name.ilike.${pattern}`, `street.ilike.${pattern}`, `city.ilike.${pattern}`].join(","))
+    .order("name", { ascending: true })
+    .limit(VENUE_SEARCH_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to search venues: ${error.message}`);
+  }
+
+  return (data || []).map(transformVenueRow);
+}
+
+/**
+ * Get a single venue
+ *
+ * @param includeInactive - Also find deactivated venues (admin only)
+ */
+export async function getVenue(id: string, includeInactive = false): Promise<Venue | null> {
+  let query = (includeInactive ? supabaseAdmin : createClient())
+    .from("venues")
+    .select("*")
+    .eq("id", id);
+
+  if (!includeInactive) {
+    query = query.eq("active", true);
+  }
+
+  const { data, error } = await query.maybeSingle();
+
+  // A malformed id cannot match any venue
+  if (error?.code === "22P02") {
+    return null;
+  }
+
+  if (error) {
+    throw new Error(`Failed to fetch venue: ${error.message}`);
+  }
+
+  return data ? transformVenueRow(data) : null;
+}
+
+function handleWriteError(error: { code?: string; message: string }, action: string): never {
+  // Foreign key violation or malformed UUID of the zone
+  if (error.code === "23503" || error.code === "22P02") {
+    throw new VenueError("Zvolená doručovací zóna neexistuje", "INVALID_VENUE");
+  }
+  throw new Error(`Failed to ${action} venue: ${error.message}`);
+}
+
+/**
+ * Create a venue (Admin)
+ *
+ * @throws VenueError when the venue is invalid
+ */
+export async function createVenue(input: VenueInput): Promise<Venue> {
+  const venue = validateVenueInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("venues")
+    .insert(toVenueRow(venue))
+    .select()
+    .single();
+
+  if (error) {
+    handleWriteError(error, "create");
+  }
+
+  return transformVenueRow(data);
+}
+
+/**
+ * Replace a venue (Admin)
+ *
+ * @throws VenueError when the venue is invalid or missing
+ */
+export async function updateVenue(id: string, input: VenueInput): Promise<Venue> {
+  const venue = validateVenueInput(input);
+
+  const { data, error } = await supabaseAdmin
+    .from("venues")
+    .update(toVenueRow(venue))
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    handleWriteError(error, "update");
+  }
+
+  if (!data) {
+    throw new VenueError("Místo nebylo nalezeno", "VENUE_NOT_FOUND");
+  }
+
+  return transformVenueRow(data);
+}
+
+/**
+ * Delete a venue (Admin)
+ *
+ * @throws VenueError when the venue does not exist
+ */
+export async function deleteVenue(id: string): Promise<Venue> {
+  const { data, error } = await supabaseAdmin
+    .from("venues")
+    .delete()
+    .eq("id", id)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to delete venue: ${error.message}`);
+  }
+
+  if (!data) {
+    throw new VenueError("Místo nebylo nalezeno", "VENUE_NOT_FOUND");
+  }
+
+  return transformVenueRow(data);
+}
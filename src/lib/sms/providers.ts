@@ -0,0 +1,152 @@
+/**
+ * SMS providers
+ * Twilio for production, plus a fake provider that logs messages and keeps them in memory
+ * so order notifications can be tried locally without an SMS account.
+ */
+
+export type SmsProviderName = "twilio" | "fake";
+
+export interface SmsMessage {
+  /** Recipient in E.164 format */
+  to: string;
+  body: string;
+  /** Stable key identifying the notification (order_id:status) */
+  idempotencyKey?: string;
+}
+
+export interface SmsSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+}
+
+export interface SmsProvider {
+  name: SmsProviderName;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
+
+export interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  /** Sender number or alphanumeric sender ID */
+  from: string;
+}
+
+export interface FakeSmsRecord extends SmsMessage {
+  messageId: string;
+  sentAt: Date;
+}
+
+// Keep the fake inbox bounded in long-running dev servers
+const FAKE_SMS_INBOX_LIMIT = 100;
+
+const fakeSmsInbox: FakeSmsRecord[] = [];
+
+/**
+ * Twilio Programmable Messaging REST API provider
+ */
+export function createTwilioProvider(config: TwilioConfig): SmsProvider {
+  const credentials = Buffer.from(`${config.accountSid}:${config.authToken}`).toString("base64");
+
+  return {
+    name: "twilio",
+    async send(message) {
+      try {
+        const response = await fetch(
+          `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`,
+          {
+            method: "POST",
+            headers: {
+              Authorization: `Basic ${credentials}`,
+              "Content-Type": "application/x-www-form-urlencoded",
+            },
+            body: new URLSearchParams({
+              To: message.to,
+              From: config.from,
+              Body: message.body,
+            }),
+          }
+        );
+
+        if (!response.ok) {
+          const error = await response.text();
+          throw new Error(`Twilio API error: ${error}`);
+        }
+
+        const data = (await response.json()) as { sid?: string };
+        return { success: true, ...(data.sid && { messageId: data.sid }) };
+      } catch (error) {
+        console.error("Twilio API error:", error);
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : "Failed to send SMS via Twilio",
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Logs messages to the console and keeps the latest ones in memory (development default)
+ */
+export function createFakeSmsProvider(): SmsProvider {
+  return {
+    name: "fake",
+    async send(message) {
+      const messageId = `fake-${Date.now()}-${fakeSmsInbox.length}`;
+
+      fakeSmsInbox.push({ ...message, messageId, sentAt: new Date() });
+      if (fakeSmsInbox.length > FAKE_SMS_INBOX_LIMIT) {
+        fakeSmsInbox.shift();
+      }
+
+      console.log("📱 SMS (Development Mode)");
+      console.log("To:", message.to);
+      console.log("Body:", message.body);
+      return { success: true, messageId };
+    },
+  };
+}
+
+/**
+ * Messages sent through the fake provider, oldest first
+ */
+export function getFakeSmsInbox(): readonly FakeSmsRecord[] {
+  return [...fakeSmsInbox];
+}
+
+export function clearFakeSmsInbox(): void {
+  fakeSmsInbox.length = 0;
+}
+
+function getTwilioConfig(): TwilioConfig | null {
+  const accountSid = process.env["TWILIO_ACCOUNT_SID"];
+  const authToken = process.env["TWILIO_AUTH_TOKEN"];
+  const from = process.env["TWILIO_FROM_NUMBER"];
+
+  return accountSid && authToken && from ? { accountSid, authToken, from } : null;
+}
+
+/**
+ * Pick the provider from SMS_PROVIDER, falling back to Twilio in production when it is
+ * configured and to the fake provider everywhere else.
+ */
+export function createSmsProvider(): SmsProvider {
+  const twilioConfig = getTwilioConfig();
+  const configured = process.env["SMS_PROVIDER"] as SmsProviderName | undefined;
+
+  switch (configured) {
+    case "twilio":
+      if (!twilioConfig) {
+        console.warn("SMS_PROVIDER=twilio but Twilio credentials are not set, using fake provider");
+        return createFakeSmsProvider();
+      }
+      return createTwilioProvider(twilioConfig);
+    case "fake":
+      return createFakeSmsProvider();
+    default:
+      return twilioConfig && process.env["NODE_ENV"] === "production"
+        ? createTwilioProvider(twilioConfig)
+        : createFakeSmsProvider();
+  }
+}
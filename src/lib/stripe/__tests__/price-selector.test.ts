@@ -0,0 +1,93 @@
+/**
+ * Tests for size-based Stripe price selection
+ */
+
+import { describe, expect, it } from "vitest";
+import type { Product, ProductVariant } from "@/types/product";
+import { findProductVariant, getSizeChoiceId, getStripePriceId } from "../price-selector";
+
+const product = {
+  id: "product-1",
+  nameCs: "Kulatý věnec",
+  stripeProductId: "prod_1",
+  stripePriceId: "price_base",
+} as Product;
+
+function variant(
+  sizeChoiceId: string,
+  stripePriceId: string,
+  overrides: Partial<ProductVariant> = {}
+): ProductVariant {
+  return {
+    id: `variant_${sizeChoiceId}`,
+    productId: product.id,
+    sizeChoiceId,
+    price: 2000,
+    stockQuantity: null,
+    images: [],
+    stripePriceId,
+    isDefault: false,
+    active: true,
+    sortOrder: 0,
+    ...overrides,
+  };
+}
+
+const variants = [
+  variant("size_120", "price_120", { isDefault: true }),
+  variant("size_150", "price_150"),
+  variant("size_180", "price_180"),
+];
+
+const size = (value: string) => [{ optionId: "size", choiceIds: [value] }];
+
+describe("getSizeChoiceId", () => {
+  it("accepts choice ids and legacy size values", () => {
+    expect(getSizeChoiceId(size("size_150"))).toBe("size_150");
+    expect(getSizeChoiceId([{ optionId: "size", choiceIds: [], customValue: "150" }])).toBe(
+      "size_150"
+    );
+    expect(getSizeChoiceId([{ optionId: "ribbon", choiceIds: ["ribbon_yes"] }])).toBeNull();
+  });
+});
+
+describe("findProductVariant", () => {
+  it("matches the selected size and falls back to the default variant", () => {
+    expect(findProductVariant(variants, size("size_180"))?.sizeChoiceId).toBe("size_180");
+    expect(findProductVariant(variants, size("150"))?.sizeChoiceId).toBe("size_150");
+    expect(findProductVariant(variants, size("size_999"))?.sizeChoiceId).toBe("size_120");
+    expect(findProductVariant(variants)?.sizeChoiceId).toBe("size_120");
+  });
+
+  it("prefers the variant the cart item references", () => {
+    expect(findProductVariant(variants, size("size_120"), "variant_size_180")?.sizeChoiceId).toBe(
+      "size_180"
+    );
+  });
+
+  it("ignores inactive variants", () => {
+    const inactive = variants.map((entry) => ({ ...entry, active: false }));
+
+    expect(findProductVariant(inactive, size("size_150"))).toBeNull();
+  });
+});
+
+describe("getStripePriceId", () => {
+  it("uses the price of the selected size", () => {
+    expect(getStripePriceId(product, size("size_150"), variants)).toBe("price_150");
+    expect(getStripePriceId(product, size("180"), variants)).toBe("price_180");
+    expect(getStripePriceId(product, [], variants)).toBe("price_120");
+  });
+
+  it("uses the product price for products without variants", () => {
+    expect(getStripePriceId(product, size("size_150"))).toBe("price_base");
+  });
+
+  it("fails when no variant matches and there is no default", () => {
+    const withoutDefault = variants.map((entry) => ({ ...entry, isDefault: false }));
+
+    expect(() => getStripePriceId(product, size("size_999"), withoutDefault)).toThrow(
+      /no variant for size size_999/
+    );
+  });
+});
@@ -11,11 +11,21 @@ import {
   getCacheClient,
   serializeForCache,
 } from "@/lib/cache/redis";
+import { DeliveryCapacityError } from "@/lib/delivery/capacity";
+import { assertFuneralDeliveryTiming } from "@/lib/delivery/funeral";
+import { DiscountCodeError } from "@/lib/discounts/rules";
+import { getStockReservationItems, StockReservationError } from "@/lib/inventory/stock";
 import { stripe } from "@/lib/payments/stripe";
+import { reserveDeliverySlot } from "@/lib/services/delivery-capacity-service";
+import { validateDiscountCode } from "@/lib/services/discount-service";
+import { releaseStockReservation, reserveStock } from "@/lib/services/stock-reservation-service";
+import { getProductVariants } from "@/lib/services/variant-service";
 import { createClient } from "@/lib/supabase/server";
 import { getDeliveryMethodFromCart } from "@/lib/utils/delivery-method-utils";
+import { transformProductVariantRow } from "@/lib/utils/product-transforms";
 import type { CartItem } from "@/types/cart";
-import type { Product } from "@/types/product";
+import type { DeliverySlotSelection, FuneralDetails } from "@/types/delivery";
+import type { Customization, Product, ProductVariant } from "@/types/product";
 import { handleStripeError, withRetry } from "./error-handler";
 import { getStripePriceId, getStripeProductId } from "./price-selector";
 
@@ -27,6 +37,12 @@ export interface CreateEmbeddedCheckoutSessionParams {
   locale: "cs" | "en";
   customerId?: string;
   metadata?: Record<string, string>;
+  /** Promo code entered in the cart; revalidated before the session is created */
+  discountCode?: string;
+  /** Delivery date and time slot picked at checkout; held until the session ends */
+  deliverySlot?: DeliverySlotSelection;
+  /** Funeral service the wreaths are delivered to; the delivery must arrive before it starts */
+  funeral?: FuneralDetails;
 }
 
 /**
@@ -56,64 +72,114 @@ interface CachedCheckoutSession {
   createdAt: number;
 }
 
+// Sessions hold stock and the delivery slot, so they expire after an hour instead of Stripe's
+// default 24 hours (Stripe requires at least 30 minutes). reserve_stock() uses the same hour.
+const CHECKOUT_HOLD_SECONDS = 60 * 60;
+
 /**
  * Generates a hash for cart items to use as cache key
  *
  * @param items - Cart items to hash
  * @returns Hash string for cache key
  */
-function generateCartHash(items: CartItem[]): string {
+function generateCartHash(
+  items: CartItem[],
+  discountCode?: string,
+  deliverySlot?: DeliverySlotSelection,
+  funeral?: FuneralDetails
+): string {
   const sortedItems = items
     .map((item) => ({
       productId: item.productId,
+      variantId: item.variantId || null,
       quantity: item.quantity,
       customizations: item.customizations?.sort((a, b) => a.optionId.localeCompare(b.optionId)),
     }))
     .sort((a, b) => a.productId.localeCompare(b.productId));
 
-  return createHash("sha256").update(JSON.stringify(sortedItems)).digest("hex").substring(0, 16);
+  return createHash("sha256")
+    .update(
+      JSON.stringify({
+        items: sortedItems,
+        discountCode: discountCode || null,
+        deliverySlot: deliverySlot || null,
+        funeral: funeral || null,
+      })
+    )
+    .digest("hex")
+    .substring(0, 16);
 }
 
 /**
- * Retrieves Stripe product and price IDs from Supabase for a cart item
+ * Stripe IDs cached per product, including size variants
+ */
+interface CachedStripeIds {
+  productId: string;
+  priceId: string | null;
+  variants: ProductVariant[];
+  cachedAt: number;
+}
+
+/**
+ * Caches Stripe IDs and variants for a product
+ */
+async function cacheStripeIds(productId: string, data: Omit<CachedStripeIds, "cachedAt">) {
+  const cacheClient = getCacheClient();
+  const cacheKey = generateCacheKey("stripe:ids", productId);
+  const cacheData = serializeForCache({ ...data, cachedAt: Date.now() });
+
+  await cacheClient.set(cacheKey, cacheData, CACHE_TTL.LONG);
+}
+
+/**
+ * Resolves Stripe IDs for a product using its variants
+ */
+function resolveStripeIds(
+  product: Product,
+  customizations: Customization[],
+  variants: ProductVariant[],
+  variantId?: string
+): StripeIds {
+  // Get the appropriate price ID based on the variant or customizations
+  const priceId = getStripePriceId(product, customizations, variants, variantId);
+  const stripeProductId = getStripeProductId(product);
+
+  return {
+    productId: stripeProductId,
+    priceId,
+  };
+}
+
+/**
+ * Stripe IDs for a cart item from the cache
  *
- * @param productId - The product ID
- * @param customizations - Product customizations
- * @returns Stripe product and price IDs
- * @throws Error if product not found or missing Stripe IDs
+ * @returns The IDs, or null on a cache miss or cache failure
  */
-async function getStripeIds(productId: string, customizations: any[]): Promise<StripeIds> {
-  // Try to get from cache first
+async function getCachedStripeIds(
+  productId: string,
+  customizations: Customization[],
+  variantId?: string
+): Promise<StripeIds | null> {
   try {
     const cacheClient = getCacheClient();
     const cacheKey = generateCacheKey("stripe:ids", productId);
     const cachedData = await cacheClient.get(cacheKey);
 
     if (cachedData) {
-      const cached = deserializeFromCache<{
-        productId: string;
-        priceId: string;
-        cachedAt: number;
-      }>(cachedData);
+      const cached = deserializeFromCache<CachedStripeIds>(cachedData);
 
-      if (cached) {
+      // Entries cached before variants existed are treated as a miss
+      if (cached && Array.isArray(cached.variants)) {
         console.log("✅ [Stripe] Cache hit for Stripe IDs", { productId });
 
         // Convert to Product type for price selector
-        const product: Product = {
+        const product = {
           id: productId,
           stripeProductId: cached.productId,
-          stripePriceId: cached.priceId,
+          ...(cached.priceId && { stripePriceId: cached.priceId }),
         } as Product;
 
-        // Get the appropriate price ID based on customizations
-        const priceId = getStripePriceId(product, customizations);
-        const stripeProductId = getStripeProductId(product);
-
-        return {
-          productId: stripeProductId,
-          priceId,
-        };
+        return resolveStripeIds(product, customizations, cached.variants, variantId);
       }
     }
   } catch (error) {
@@ -123,6 +189,29 @@ async function getStripeIds(productId: string, customizations: any[]): Promise<S
     });
   }
 
+  return null;
+}
+
+/**
+ * Retrieves Stripe product and price IDs from Supabase for a cart item
+ *
+ * @param productId - The product ID
+ * @param customizations - Product customizations
+ * @param variantId - Variant the cart item references, if any
+ * @returns Stripe product and price IDs
+ * @throws Error if product not found or missing Stripe IDs
+ */
+async function getStripeIds(
+  productId: string,
+  customizations: Customization[],
+  variantId?: string
+): Promise<StripeIds> {
+  // Try to get from cache first
+  const cachedIds = await getCachedStripeIds(productId, customizations, variantId);
+  if (cachedIds) {
+    return cachedIds;
+  }
+
   // Cache miss - fetch from database
   const supabase = createClient();
 
@@ -150,7 +239,9 @@ async function getStripeIds(productId: string, customizations: any[]): Promise<S
     throw new Error(`Product ${productRow.name_cs} (${productId}) is missing Stripe product ID`);
   }
 
-  if (!productRow.stripe_price_id) {
+  const variants = await getProductVariants(productId);
+
+  if (!productRow.stripe_price_id && variants.length === 0) {
     console.error("❌ [Stripe] Missing Stripe price ID", {
       productId,
       productName: productRow.name_cs,
@@ -160,15 +251,11 @@ async function getStripeIds(productId: string, customizations: any[]): Promise<S
 
   // Cache the Stripe IDs for future use
   try {
-    const cacheClient = getCacheClient();
-    const cacheKey = generateCacheKey("stripe:ids", productId);
-    const cacheData = serializeForCache({
+    await cacheStripeIds(productId, {
       productId: productRow.stripe_product_id,
       priceId: productRow.stripe_price_id,
-      cachedAt: Date.now(),
+      variants,
     });
-
-    await cacheClient.set(cacheKey, cacheData, CACHE_TTL.LONG);
     console.log("✅ [Stripe] Cached Stripe IDs", { productId });
   } catch (error) {
     console.warn("⚠️ [Stripe] Failed to cache Stripe IDs", {
@@ -178,22 +265,119 @@ async function getStripeIds(productId: string, customizations: any[]): Promise<S
   }
 
   // Convert to Product type for price selector
-  const product: Product = {
+  const product = {
     id: productRow.id,
     nameCs: productRow.name_cs,
     nameEn: productRow.name_en,
     stripeProductId: productRow.stripe_product_id,
-    stripePriceId: productRow.stripe_price_id,
+    ...(productRow.stripe_price_id && { stripePriceId: productRow.stripe_price_id }),
   } as Product;
 
-  // Get the appropriate price ID based on customizations
-  const priceId = getStripePriceId(product, customizations);
-  const stripeProductId = getStripeProductId(product);
+  return resolveStripeIds(product, customizations, variants, variantId);
+}
 
-  return {
-    productId: stripeProductId,
-    priceId,
-  };
+/**
+ * Validates a promo code for the cart and creates a single-use Stripe coupon
+ * for the resulting amount, so scoped discounts are charged exactly as validated
+ *
+ * @param discountCode - Promo code entered by the customer
+ * @param cartItems - Cart items being checked out
+ * @returns Coupon ID with the applied code and amount
+ * @throws DiscountCodeError if the code is not valid for the cart
+ */
+async function createDiscountCoupon(
+  discountCode: string,
+  cartItems: CartItem[]
+): Promise<{ couponId: string; code: string; amount: number }> {
+  const result = await validateDiscountCode(discountCode, cartItems);
+
+  if (!(result.valid && result.applied)) {
+    console.warn("⚠️ [Stripe] Discount code rejected", {
+      code: result.code,
+      errorCode: result.errorCode,
+    });
+    throw new DiscountCodeError(
+      `Discount code ${result.code} cannot be applied (${result.errorCode})`,
+      result.errorCode ?? "NOT_APPLICABLE"
+    );
+  }
+
+  if (!stripe) {
+    throw new Error("Stripe is not initialized");
+  }
+
+  const coupon = await stripe.coupons.create({
+    amount_off: Math.round(result.applied.amount * 100),
+    currency: "czk",
+    duration: "once",
+    max_redemptions: 1,
+    name: result.applied.code,
+    metadata: {
+      discountCode: result.applied.code,
+    },
+  });
+
+  console.log("✅ [Stripe] Created coupon for discount code", {
+    code: result.applied.code,
+    amount: result.applied.amount,
+  });
+
+  return { couponId: coupon.id, code: result.applied.code, amount: result.applied.amount };
+}
+
+/**
+ * Hold the stock of the cart and the delivery slot for a checkout session until the
+ * session expires. Nothing stays held when either is unavailable.
+ *
+ * @throws StockReservationError when a product is no longer in stock
+ * @throws DeliveryCapacityError when the slot is no longer available
+ */
+async function holdCheckout(
+  sessionId: string,
+  cartItems: CartItem[],
+  deliverySlot: DeliverySlotSelection | undefined
+) {
+  await reserveStock(sessionId, getStockReservationItems(cartItems));
+
+  if (!deliverySlot) {
+    return;
+  }
+
+  try {
+    await reserveDeliverySlot(
+      sessionId,
+      deliverySlot,
+      new Date(Date.now() + CHECKOUT_HOLD_SECONDS * 1000)
+    );
+  } catch (error) {
+    await releaseStockReservation(sessionId);
+    throw error;
+  }
+
+  console.log("✅ [Stripe] Held delivery slot", { sessionId, ...deliverySlot });
+}
+
+/**
+ * Whether an error means the cart or slot can no longer be held (not a Stripe failure)
+ */
+function isCheckoutHoldError(
+  error: unknown
+): error is DeliveryCapacityError | StockReservationError {
+  return error instanceof DeliveryCapacityError || error instanceof StockReservationError;
+}
+
+/**
+ * Expire a session whose hold failed so it cannot be paid without stock and slot
+ */
+async function expireCheckoutSession(sessionId: string) {
+  try {
+    await stripe?.checkout.sessions.expire(sessionId);
+  } catch (error) {
+    console.error("❌ [Stripe] Failed to expire checkout session", {
+      sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
 }
 
 /**
@@ -227,12 +411,18 @@ async function getStripeIds(productId: string, customizations: any[]): Promise<S
  * @param params.locale - User locale ('cs' or 'en') for Stripe UI
  * @param params.customerId - Optional Stripe customer ID
  * @param params.metadata - Optional metadata to attach to session
+ * @param params.discountCode - Optional promo code, applied as a one-off Stripe coupon
+ * @param params.deliverySlot - Optional delivery date and time slot, held while the customer pays
+ * @param params.funeral - Optional funeral service details, checked against the delivery slot
  *
  * @returns Promise resolving to client secret and session ID
  *
  * @throws {Error} If Stripe is not configured
  * @throws {Error} If cart is empty
  * @throws {CheckoutError} If session creation fails after retries
+ * @throws {DeliveryCapacityError} If the picked delivery slot is full or not deliverable
+ * @throws {StockReservationError} If a pre-made product in the cart is no longer in stock
+ * @throws {FuneralDeliveryError} If the delivery would not arrive before the funeral service
  *
  * @example
  * ```typescript
@@ -256,7 +446,15 @@ export async function createEmbeddedCheckoutSession(
     throw new Error("Stripe is not configured. Please set STRIPE_SECRET_KEY environment variable.");
   }
 
-  const { cartItems, locale, customerId, metadata = {} } = params;
+  const {
+    cartItems,
+    locale,
+    customerId,
+    metadata = {},
+    discountCode,
+    deliverySlot,
+    funeral,
+  } = params;
 
   // Log checkout session creation attempt
   console.log("🛒 [Stripe] Creating embedded checkout session", {
@@ -271,8 +469,12 @@ export async function createEmbeddedCheckoutSession(
     throw new Error("Cart is empty");
   }
 
+  if (funeral) {
+    assertFuneralDeliveryTiming(funeral.ceremonyStart, deliverySlot ?? null);
+  }
+
   // Generate cache key from cart items
-  const cartHash = generateCartHash(cartItems);
+  const cartHash = generateCartHash(cartItems, discountCode, deliverySlot, funeral);
   const cacheKey = generateCacheKey("checkout:session", cartHash);
 
   // Check cache for existing session
@@ -291,6 +493,10 @@ export async function createEmbeddedCheckoutSession(
           duration,
           cached: true,
         });
+
+        // Refresh the hold, the stock or slot may have been released in the meantime
+        await holdCheckout(cached.sessionId, cartItems, deliverySlot);
+
         return {
           clientSecret: cached.clientSecret,
           sessionId: cached.sessionId,
@@ -303,6 +509,11 @@ export async function createEmbeddedCheckoutSession(
       }
     }
   } catch (error) {
+    // Stock or slot ran out since the session was cached; creating another one would not help
+    if (isCheckoutHoldError(error)) {
+      throw error;
+    }
+
     console.error("❌ [Stripe] Cache check failed", {
       error: error instanceof Error ? error.message : String(error),
       cartHash,
@@ -314,7 +525,11 @@ export async function createEmbeddedCheckoutSession(
   const lineItems = await Promise.all(
     cartItems.map(async (item) => {
       try {
-        const { priceId } = await getStripeIds(item.productId, item.customizations || []);
+        const { priceId } = await getStripeIds(
+          item.productId,
+          item.customizations || [],
+          item.variantId
+        );
 
         return {
           price: priceId,
@@ -330,6 +545,9 @@ export async function createEmbeddedCheckoutSession(
   // Extract delivery method from cart items (Requirement 9.1, 9.2)
   const deliveryMethod = getDeliveryMethodFromCart(cartItems);
 
+  // Revalidate the promo code against the cart and turn it into a one-off Stripe coupon
+  const discount = discountCode ? await createDiscountCoupon(discountCode, cartItems) : null;
+
   // Create checkout session with retry logic
   try {
     const session = await withRetry(
@@ -344,10 +562,22 @@ export async function createEmbeddedCheckoutSession(
           line_items: lineItems,
           locale: locale === "cs" ? "cs" : "en",
           ...(customerId && { customer: customerId }),
+          ...(discount && { discounts: [{ coupon: discount.couponId }] }),
+          expires_at: Math.floor(Date.now() / 1000) + CHECKOUT_HOLD_SECONDS,
+          // Server values come last so caller metadata cannot override what the webhook trusts
           metadata: {
+            ...metadata,
             locale,
             deliveryMethod: deliveryMethod || "delivery",
-            ...metadata,
+            ...(discount && {
+              discountCode: discount.code,
+              discountAmount: discount.amount.toString(),
+            }),
+            ...(deliverySlot && {
+              deliveryDate: deliverySlot.date,
+              deliveryTimeSlot: deliverySlot.timeSlot,
+            }),
+            ...(funeral && { funeralDetails: JSON.stringify(funeral) }),
           },
           return_url: `${process.env["NEXT_PUBLIC_BASE_URL"] || "http://localhost:3000"}/${locale}/checkout/complete?session_id={CHECKOUT_SESSION_ID}`,
         });
@@ -363,6 +593,14 @@ export async function createEmbeddedCheckoutSession(
       throw new Error("Failed to create checkout session: no client secret");
     }
 
+    // Hold stock and slot before handing out the session; without them it is never used
+    try {
+      await holdCheckout(session.id, cartItems, deliverySlot);
+    } catch (error) {
+      await expireCheckoutSession(session.id);
+      throw error;
+    }
+
     const duration = Date.now() - startTime;
     console.log("✅ [Stripe] Created embedded checkout session", {
       sessionId: session.id,
@@ -407,6 +645,10 @@ export async function createEmbeddedCheckoutSession(
       sessionId: session.id,
     };
   } catch (error) {
+    if (isCheckoutHoldError(error)) {
+      throw error;
+    }
+
     const duration = Date.now() - startTime;
     console.error("❌ [Stripe] Failed to create checkout session", {
       error: error instanceof Error ? error.message : String(error),
@@ -493,7 +735,7 @@ export async function warmStripeIdsCache(productIds: string[]): Promise<void> {
     // Fetch products with their Stripe IDs
     const { data: products, error } = await supabase
       .from("products")
-      .select("id, stripe_product_id, stripe_price_id, name_cs, name_en")
+      .select("id, stripe_product_id, stripe_price_id, name_cs, name_en, product_variants(*)")
       .in("id", productIds)
       .eq("active", true);
 
@@ -508,25 +750,24 @@ export async function warmStripeIdsCache(productIds: string[]): Promise<void> {
     }
 
     // Cache Stripe IDs for each product
-    const cacheClient = getCacheClient();
-
     for (const product of products) {
       try {
-        if (!(product.stripe_product_id && product.stripe_price_id)) {
+        const variants = (product.product_variants || [])
+          .filter((variant) => variant.active)
+          .map(transformProductVariantRow);
+
+        if (!(product.stripe_product_id && (product.stripe_price_id || variants.length > 0))) {
           console.warn(`⚠️ [Stripe] Product ${product.id} missing Stripe IDs`);
           errorCount++;
           continue;
         }
 
         // Cache the Stripe IDs
-        const cacheKey = generateCacheKey("stripe:ids", product.id);
-        const cacheData = serializeForCache({
+        await cacheStripeIds(product.id, {
           productId: product.stripe_product_id,
           priceId: product.stripe_price_id,
-          cachedAt: Date.now(),
+          variants,
         });
-
-        await cacheClient.set(cacheKey, cacheData, CACHE_TTL.LONG);
         successCount++;
       } catch (error) {
         console.error(`❌ [Stripe] Error caching Stripe IDs for product ${product.id}:`, error);
@@ -3,62 +3,111 @@
  * Handles dynamic price selection based on product customizations
  */
 
-import type { Customization, Product } from "@/types/product";
+import type { Customization, Product, ProductVariant } from "@/types/product";
 
 /**
- * Size-specific Stripe price mappings for products with multiple sizes
+ * Customization option id that selects a product variant
  */
-const SIZE_PRICE_MAPPINGS: Record<string, Record<string, string>> = {
-  "Plné srdce": {
-    "180": "price_1SG7zIK7X9a6rKGIgz3jZth1",
-    "150": "price_1SG7yxK7X9a6rKGIZIwpsJQD",
-    "120": "price_1SG7yUK7X9a6rKGI5qDGMWbh",
-  },
-  "Kulatý věnec": {
-    "180": "price_1SG7viK7X9a6rKGILiN2x5Tx",
-    "150": "price_1SG7viK7X9a6rKGI9D5n7WcY",
-    "120": "price_1SG7viK7X9a6rKGIqhLP1Byz",
-  },
-};
+export const SIZE_OPTION_ID = "size";
+
+/**
+ * Gets the selected size choice id from customizations
+ *
+ * Accepts both choice ids (`size_150`) and legacy custom values (`150`).
+ *
+ * @param customizations - Array of customizations applied to the product
+ * @returns The size choice id or null if no size is selected
+ */
+export function getSizeChoiceId(customizations: Customization[] = []): string | null {
+  const sizeCustomization = customizations.find((c) => c.optionId === SIZE_OPTION_ID);
+
+  if (!sizeCustomization) {
+    return null;
+  }
+
+  const choiceId = sizeCustomization.choiceIds[0] || sizeCustomization.customValue;
+  if (!choiceId) {
+    return null;
+  }
+
+  return choiceId.startsWith("size_") ? choiceId : `size_${choiceId}`;
+}
+
+/**
+ * Finds the product variant matching the cart item
+ * Prefers the variant the item was added with, then the selected size, and falls back to the
+ * default variant when no size (or an unknown size) is selected
+ *
+ * @param variants - Active variants of the product
+ * @param customizations - Array of customizations applied to the product
+ * @param variantId - Variant the cart item references, if any
+ * @returns The matching variant or null if the product has no variants
+ */
+export function findProductVariant(
+  variants: ProductVariant[],
+  customizations: Customization[] = [],
+  variantId?: string | null
+): ProductVariant | null {
+  const activeVariants = variants.filter((variant) => variant.active);
+  if (activeVariants.length === 0) {
+    return null;
+  }
+
+  const referenced = variantId
+    ? activeVariants.find((variant) => variant.id === variantId)
+    : undefined;
+  if (referenced) {
+    return referenced;
+  }
+
+  const sizeChoiceId = getSizeChoiceId(customizations);
+  const selected = sizeChoiceId
+    ? activeVariants.find((variant) => variant.sizeChoiceId === sizeChoiceId)
+    : undefined;
+
+  return selected || activeVariants.find((variant) => variant.isDefault) || null;
+}
 
 /**
  * Gets the appropriate Stripe price ID for a product based on customizations
  *
  * @param product - The product to get the price ID for
  * @param customizations - Array of customizations applied to the product
+ * @param variants - Variants of the product (product_variants)
+ * @param variantId - Variant the cart item references, if any
  * @returns The Stripe price ID to use for checkout
  *
  * @example
  * ```typescript
- * const priceId = getStripePriceId(product, [
- *   { optionId: 'size', choiceIds: ['180'], customValue: '180' }
- * ]);
+ * const priceId = getStripePriceId(
+ *   product,
+ *   [{ optionId: 'size', choiceIds: ['size_180'] }],
+ *   variants
+ * );
  * ```
  */
-export function getStripePriceId(product: Product, customizations: Customization[] = []): string {
-  // Check if product has size-specific pricing
-  const productName = product.nameCs;
-  const sizePrices = SIZE_PRICE_MAPPINGS[productName];
-
-  if (sizePrices) {
-    // Find size customization
-    const sizeCustomization = customizations.find((c) => c.optionId === "size" || c.customValue);
-
-    if (sizeCustomization?.customValue) {
-      const size = sizeCustomization.customValue;
-      const priceId = sizePrices[size];
-
-      if (priceId) {
-        return priceId;
-      }
+export function getStripePriceId(
+  product: Product,
+  customizations: Customization[] = [],
+  variants: ProductVariant[] = [],
+  variantId?: string | null
+): string {
+  if (variants.some((variant) => variant.active)) {
+    const variant = findProductVariant(variants, customizations, variantId);
+
+    if (!variant) {
+      throw new Error(
+        `Product ${product.nameCs} (${product.id}) has no variant for size ${getSizeChoiceId(customizations)} and no default variant`
+      );
     }
 
-    // Default to base size (120) if no size specified
-    const defaultPriceId = sizePrices["120"];
-    if (!defaultPriceId) {
-      throw new Error(`Product ${product.nameCs} is missing default size (120) price ID`);
+    if (!variant.stripePriceId) {
+      throw new Error(
+        `Product ${product.nameCs} (${product.id}) variant ${variant.sizeChoiceId} is missing Stripe price ID`
+      );
     }
-    return defaultPriceId;
+
+    return variant.stripePriceId;
   }
 
   // For products without size variations, return the default price_id
@@ -98,9 +147,10 @@ export function hasStripeIds(product: Product): boolean {
  * Gets all available price IDs for a product (including size variations)
  *
  * @param product - The product to get price IDs for
+ * @param variants - Variants of the product
  * @returns Array of available Stripe price IDs
  */
-export function getAvailablePriceIds(product: Product): string[] {
+export function getAvailablePriceIds(product: Product, variants: ProductVariant[] = []): string[] {
   const priceIds: string[] = [];
 
   // Add base price ID
@@ -109,11 +159,10 @@ export function getAvailablePriceIds(product: Product): string[] {
   }
 
   // Add size-specific price IDs if available
-  const productName = product.nameCs;
-  const sizePrices = SIZE_PRICE_MAPPINGS[productName];
-
-  if (sizePrices) {
-    priceIds.push(...Object.values(sizePrices));
+  for (const variant of variants) {
+    if (variant.active && variant.stripePriceId) {
+      priceIds.push(variant.stripePriceId);
+    }
   }
 
   return [...new Set(priceIds)]; // Remove duplicates
@@ -118,6 +118,7 @@ export type Database = {
           unit_price: number;
           updated_at: string | null;
           user_id: string | null;
+          variant_id: string | null;
         };
         Insert: {
           created_at?: string | null;
@@ -130,6 +131,7 @@ export type Database = {
           unit_price: number;
           updated_at?: string | null;
           user_id?: string | null;
+          variant_id?: string | null;
         };
         Update: {
           created_at?: string | null;
@@ -142,6 +144,7 @@ export type Database = {
           unit_price?: number;
           updated_at?: string | null;
           user_id?: string | null;
+          variant_id?: string | null;
         };
         Relationships: [
           {
@@ -151,6 +154,13 @@ export type Database = {
             referencedRelation: "products";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey";
+            columns: ["variant_id"];
+            isOneToOne: false;
+            referencedRelation: "product_variants";
+            referencedColumns: ["id"];
+          },
         ];
       };
       categories: {
@@ -206,6 +216,42 @@ export type Database = {
           },
         ];
       };
+      consent_records: {
+        Row: {
+          created_at: string;
+          granted: boolean;
+          id: string;
+          ip_hash: string | null;
+          policy_version: string;
+          purpose: string;
+          session_id: string | null;
+          source: string;
+          user_id: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          granted: boolean;
+          id?: string;
+          ip_hash?: string | null;
+          policy_version: string;
+          purpose: string;
+          session_id?: string | null;
+          source?: string;
+          user_id?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          granted?: boolean;
+          id?: string;
+          ip_hash?: string | null;
+          policy_version?: string;
+          purpose?: string;
+          session_id?: string | null;
+          source?: string;
+          user_id?: string | null;
+        };
+        Relationships: [];
+      };
       contact_forms: {
         Row: {
           created_at: string | null;
@@ -248,10 +294,440 @@ export type Database = {
         };
         Relationships: [];
       };
+      delivery_capacity: {
+        Row: {
+          created_at: string;
+          delivery_date: string | null;
+          id: string;
+          max_orders: number;
+          time_slot: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          delivery_date?: string | null;
+          id?: string;
+          max_orders: number;
+          time_slot?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          delivery_date?: string | null;
+          id?: string;
+          max_orders?: number;
+          time_slot?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      delivery_closures: {
+        Row: {
+          created_at: string;
+          end_date: string;
+          id: string;
+          name: string;
+          start_date: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          end_date: string;
+          id?: string;
+          name: string;
+          start_date: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          end_date?: string;
+          id?: string;
+          name?: string;
+          start_date?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      delivery_slot_reservations: {
+        Row: {
+          checkout_session_id: string;
+          created_at: string;
+          delivery_date: string;
+          expires_at: string;
+          id: string;
+          order_id: string | null;
+          status: string;
+          time_slot: string;
+          updated_at: string;
+        };
+        Insert: {
+          checkout_session_id: string;
+          created_at?: string;
+          delivery_date: string;
+          expires_at: string;
+          id?: string;
+          order_id?: string | null;
+          status?: string;
+          time_slot: string;
+          updated_at?: string;
+        };
+        Update: {
+          checkout_session_id?: string;
+          created_at?: string;
+          delivery_date?: string;
+          expires_at?: string;
+          id?: string;
+          order_id?: string | null;
+          status?: string;
+          time_slot?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "delivery_slot_reservations_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      delivery_zones: {
+        Row: {
+          active: boolean;
+          base_cost: number;
+          created_at: string;
+          description: string | null;
+          id: string;
+          max_distance_km: number | null;
+          name: string;
+          postal_code_ranges: Json;
+          priority: number;
+          slug: string;
+          supported_urgencies: string[];
+          updated_at: string;
+        };
+        Insert: {
+          active?: boolean;
+          base_cost: number;
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          max_distance_km?: number | null;
+          name: string;
+          postal_code_ranges?: Json;
+          priority?: number;
+          slug: string;
+          supported_urgencies?: string[];
+          updated_at?: string;
+        };
+        Update: {
+          active?: boolean;
+          base_cost?: number;
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          max_distance_km?: number | null;
+          name?: string;
+          postal_code_ranges?: Json;
+          priority?: number;
+          slug?: string;
+          supported_urgencies?: string[];
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      discount_code_redemptions: {
+        Row: {
+          created_at: string;
+          customer_email: string | null;
+          discount_amount: number;
+          discount_code_id: string;
+          id: string;
+          order_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          customer_email?: string | null;
+          discount_amount: number;
+          discount_code_id: string;
+          id?: string;
+          order_id: string;
+        };
+        Update: {
+          created_at?: string;
+          customer_email?: string | null;
+          discount_amount?: number;
+          discount_code_id?: string;
+          id?: string;
+          order_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "discount_code_redemptions_discount_code_id_fkey";
+            columns: ["discount_code_id"];
+            isOneToOne: false;
+            referencedRelation: "discount_codes";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "discount_code_redemptions_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      discount_codes: {
+        Row: {
+          active: boolean;
+          campaign: string | null;
+          category_ids: string[];
+          code: string;
+          created_at: string;
+          created_by: string | null;
+          description: string | null;
+          discount_type: string;
+          id: string;
+          max_uses: number | null;
+          max_uses_per_customer: number | null;
+          min_subtotal: number;
+          product_ids: string[];
+          updated_at: string;
+          uses_count: number;
+          valid_from: string | null;
+          valid_until: string | null;
+          value: number;
+        };
+        Insert: {
+          active?: boolean;
+          campaign?: string | null;
+          category_ids?: string[];
+          code: string;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          discount_type: string;
+          id?: string;
+          max_uses?: number | null;
+          max_uses_per_customer?: number | null;
+          min_subtotal?: number;
+          product_ids?: string[];
+          updated_at?: string;
+          uses_count?: number;
+          valid_from?: string | null;
+          valid_until?: string | null;
+          value: number;
+        };
+        Update: {
+          active?: boolean;
+          campaign?: string | null;
+          category_ids?: string[];
+          code?: string;
+          created_at?: string;
+          created_by?: string | null;
+          description?: string | null;
+          discount_type?: string;
+          id?: string;
+          max_uses?: number | null;
+          max_uses_per_customer?: number | null;
+          min_subtotal?: number;
+          product_ids?: string[];
+          updated_at?: string;
+          uses_count?: number;
+          valid_from?: string | null;
+          valid_until?: string | null;
+          value?: number;
+        };
+        Relationships: [];
+      };
+      email_outbox: {
+        Row: {
+          attempts: number;
+          created_at: string;
+          email_type: string;
+          id: string;
+          idempotency_key: string;
+          last_error: string | null;
+          locale: string;
+          locked_at: string | null;
+          max_attempts: number;
+          next_attempt_at: string;
+          order_id: string;
+          order_status: string;
+          sent_at: string | null;
+          status: string;
+          transport: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          attempts?: number;
+          created_at?: string;
+          email_type: string;
+          id?: string;
+          idempotency_key: string;
+          last_error?: string | null;
+          locale?: string;
+          locked_at?: string | null;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          order_id: string;
+          order_status: string;
+          sent_at?: string | null;
+          status?: string;
+          transport?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          attempts?: number;
+          created_at?: string;
+          email_type?: string;
+          id?: string;
+          idempotency_key?: string;
+          last_error?: string | null;
+          locale?: string;
+          locked_at?: string | null;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          order_id?: string;
+          order_status?: string;
+          sent_at?: string | null;
+          status?: string;
+          transport?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "email_outbox_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      gdpr_erasure_requests: {
+        Row: {
+          attempts: number;
+          blockers: Json;
+          cancelled_at: string | null;
+          completed_at: string | null;
+          confirmed_at: string | null;
+          created_at: string;
+          gdpr_request_id: string | null;
+          id: string;
+          last_error: string | null;
+          previous_receipt_hash: string | null;
+          reason: string | null;
+          receipt: Json | null;
+          receipt_hash: string | null;
+          review_note: string | null;
+          reviewed_at: string | null;
+          reviewed_by: string | null;
+          scheduled_for: string | null;
+          status: string;
+          token_expires_at: string | null;
+          token_hash: string | null;
+          updated_at: string;
+          user_id: string | null;
+        };
+        Insert: {
+          attempts?: number;
+          blockers?: Json;
+          cancelled_at?: string | null;
+          completed_at?: string | null;
+          confirmed_at?: string | null;
+          created_at?: string;
+          gdpr_request_id?: string | null;
+          id?: string;
+          last_error?: string | null;
+          previous_receipt_hash?: string | null;
+          reason?: string | null;
+          receipt?: Json | null;
+          receipt_hash?: string | null;
+          review_note?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          scheduled_for?: string | null;
+          status?: string;
+          token_expires_at?: string | null;
+          token_hash?: string | null;
+          updated_at?: string;
+          user_id?: string | null;
+        };
+        Update: {
+          attempts?: number;
+          blockers?: Json;
+          cancelled_at?: string | null;
+          completed_at?: string | null;
+          confirmed_at?: string | null;
+          created_at?: string;
+          gdpr_request_id?: string | null;
+          id?: string;
+          last_error?: string | null;
+          previous_receipt_hash?: string | null;
+          reason?: string | null;
+          receipt?: Json | null;
+          receipt_hash?: string | null;
+          review_note?: string | null;
+          reviewed_at?: string | null;
+          reviewed_by?: string | null;
+          scheduled_for?: string | null;
+          status?: string;
+          token_expires_at?: string | null;
+          token_hash?: string | null;
+          updated_at?: string;
+          user_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "gdpr_erasure_requests_gdpr_request_id_fkey";
+            columns: ["gdpr_request_id"];
+            isOneToOne: false;
+            referencedRelation: "gdpr_requests";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      gdpr_requests: {
+        Row: {
+          completed_at: string | null;
+          created_at: string;
+          details: Json;
+          id: string;
+          ip_hash: string | null;
+          request_type: string;
+          status: string;
+          user_id: string | null;
+        };
+        Insert: {
+          completed_at?: string | null;
+          created_at?: string;
+          details?: Json;
+          id?: string;
+          ip_hash?: string | null;
+          request_type: string;
+          status?: string;
+          user_id?: string | null;
+        };
+        Update: {
+          completed_at?: string | null;
+          created_at?: string;
+          details?: Json;
+          id?: string;
+          ip_hash?: string | null;
+          request_type?: string;
+          status?: string;
+          user_id?: string | null;
+        };
+        Relationships: [];
+      };
       inventory_alerts: {
         Row: {
           alert_type: string;
           created_at: string | null;
+          current_stock: number | null;
           id: string;
           is_active: boolean | null;
           message: string;
@@ -261,6 +737,7 @@ export type Database = {
         Insert: {
           alert_type: string;
           created_at?: string | null;
+          current_stock?: number | null;
           id?: string;
           is_active?: boolean | null;
           message: string;
@@ -270,6 +747,7 @@ export type Database = {
         Update: {
           alert_type?: string;
           created_at?: string | null;
+          current_stock?: number | null;
           id?: string;
           is_active?: boolean | null;
           message?: string;
@@ -286,17 +764,216 @@ export type Database = {
           },
         ];
       };
+      material_consumptions: {
+        Row: {
+          created_at: string;
+          id: string;
+          material_id: string;
+          order_id: string;
+          quantity: number;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          material_id: string;
+          order_id: string;
+          quantity: number;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          material_id?: string;
+          order_id?: string;
+          quantity?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "material_consumptions_material_id_fkey";
+            columns: ["material_id"];
+            isOneToOne: false;
+            referencedRelation: "materials";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "material_consumptions_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      material_recipes: {
+        Row: {
+          choice_id: string;
+          created_at: string;
+          id: string;
+          material_id: string;
+          option_type: string;
+          quantity: number;
+        };
+        Insert: {
+          choice_id: string;
+          created_at?: string;
+          id?: string;
+          material_id: string;
+          option_type: string;
+          quantity: number;
+        };
+        Update: {
+          choice_id?: string;
+          created_at?: string;
+          id?: string;
+          material_id?: string;
+          option_type?: string;
+          quantity?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "material_recipes_material_id_fkey";
+            columns: ["material_id"];
+            isOneToOne: false;
+            referencedRelation: "materials";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      materials: {
+        Row: {
+          created_at: string;
+          id: string;
+          kind: string;
+          low_stock_threshold: number;
+          name: string;
+          stock_quantity: number;
+          unit: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          kind?: string;
+          low_stock_threshold?: number;
+          name: string;
+          stock_quantity?: number;
+          unit?: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          kind?: string;
+          low_stock_threshold?: number;
+          name?: string;
+          stock_quantity?: number;
+          unit?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      order_number_counters: {
+        Row: {
+          last_value: number;
+          updated_at: string;
+          year: number;
+        };
+        Insert: {
+          last_value?: number;
+          updated_at?: string;
+          year: number;
+        };
+        Update: {
+          last_value?: number;
+          updated_at?: string;
+          year?: number;
+        };
+        Relationships: [];
+      };
+      order_number_settings: {
+        Row: {
+          format: string;
+          id: boolean;
+          sequence_padding: number;
+          updated_at: string;
+        };
+        Insert: {
+          format?: string;
+          id?: boolean;
+          sequence_padding?: number;
+          updated_at?: string;
+        };
+        Update: {
+          format?: string;
+          id?: boolean;
+          sequence_padding?: number;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      order_status_history: {
+        Row: {
+          changed_by: string | null;
+          created_at: string;
+          from_status: string | null;
+          id: string;
+          metadata: Json | null;
+          note: string | null;
+          order_id: string;
+          source: string;
+          to_status: string;
+        };
+        Insert: {
+          changed_by?: string | null;
+          created_at?: string;
+          from_status?: string | null;
+          id?: string;
+          metadata?: Json | null;
+          note?: string | null;
+          order_id: string;
+          source?: string;
+          to_status: string;
+        };
+        Update: {
+          changed_by?: string | null;
+          created_at?: string;
+          from_status?: string | null;
+          id?: string;
+          metadata?: Json | null;
+          note?: string | null;
+          order_id?: string;
+          source?: string;
+          to_status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "order_status_history_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       orders: {
         Row: {
+          cancelled_at: string | null;
+          confirmed_at: string | null;
           created_at: string | null;
           customer_info: Json;
+          delivered_at: string | null;
           delivery_cost: number | null;
           delivery_info: Json;
+          delivery_method: string | null;
+          delivery_photo_url: string | null;
+          discount_amount: number;
+          discount_code: string | null;
           id: string;
           items: Json;
           notes: string | null;
           order_number: string;
           payment_info: Json | null;
+          pickup_location: string | null;
+          shipped_at: string | null;
           status: string | null;
           subtotal: number;
           total_amount: number;
@@ -304,15 +981,24 @@ export type Database = {
           user_id: string | null;
         };
         Insert: {
+          cancelled_at?: string | null;
+          confirmed_at?: string | null;
           created_at?: string | null;
           customer_info?: Json;
+          delivered_at?: string | null;
           delivery_cost?: number | null;
           delivery_info?: Json;
+          delivery_method?: string | null;
+          delivery_photo_url?: string | null;
+          discount_amount?: number;
+          discount_code?: string | null;
           id?: string;
           items?: Json;
           notes?: string | null;
-          order_number: string;
+          order_number?: string;
           payment_info?: Json | null;
+          pickup_location?: string | null;
+          shipped_at?: string | null;
           status?: string | null;
           subtotal: number;
           total_amount: number;
@@ -320,15 +1006,24 @@ export type Database = {
           user_id?: string | null;
         };
         Update: {
+          cancelled_at?: string | null;
+          confirmed_at?: string | null;
           created_at?: string | null;
           customer_info?: Json;
+          delivered_at?: string | null;
           delivery_cost?: number | null;
           delivery_info?: Json;
+          delivery_method?: string | null;
+          delivery_photo_url?: string | null;
+          discount_amount?: number;
+          discount_code?: string | null;
           id?: string;
           items?: Json;
           notes?: string | null;
           order_number?: string;
           payment_info?: Json | null;
+          pickup_location?: string | null;
+          shipped_at?: string | null;
           status?: string | null;
           subtotal?: number;
           total_amount?: number;
@@ -432,6 +1127,68 @@ export type Database = {
         };
         Relationships: [];
       };
+      product_variants: {
+        Row: {
+          active: boolean;
+          created_at: string;
+          id: string;
+          images: Json;
+          is_default: boolean;
+          price: number;
+          product_id: string;
+          size_choice_id: string;
+          size_label_cs: string | null;
+          size_label_en: string | null;
+          sku: string | null;
+          sort_order: number;
+          stock_quantity: number | null;
+          stripe_price_id: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          active?: boolean;
+          created_at?: string;
+          id?: string;
+          images?: Json;
+          is_default?: boolean;
+          price: number;
+          product_id: string;
+          size_choice_id: string;
+          size_label_cs?: string | null;
+          size_label_en?: string | null;
+          sku?: string | null;
+          sort_order?: number;
+          stock_quantity?: number | null;
+          stripe_price_id?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          active?: boolean;
+          created_at?: string;
+          id?: string;
+          images?: Json;
+          is_default?: boolean;
+          price?: number;
+          product_id?: string;
+          size_choice_id?: string;
+          size_label_cs?: string | null;
+          size_label_en?: string | null;
+          sku?: string | null;
+          sort_order?: number;
+          stock_quantity?: number | null;
+          stripe_price_id?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       products: {
         Row: {
           active: boolean | null;
@@ -447,6 +1204,7 @@ export type Database = {
           images: Json | null;
           name_cs: string;
           name_en: string;
+          search_vector: unknown;
           seo_metadata: Json | null;
           slug: string;
           stripe_price_id: string | null;
@@ -503,6 +1261,168 @@ export type Database = {
           },
         ];
       };
+      ribbon_phrases: {
+        Row: {
+          active: boolean;
+          created_at: string;
+          id: string;
+          relationship: string;
+          sort_order: number;
+          text_cs: string;
+          text_en: string;
+          updated_at: string;
+        };
+        Insert: {
+          active?: boolean;
+          created_at?: string;
+          id?: string;
+          relationship: string;
+          sort_order?: number;
+          text_cs: string;
+          text_en: string;
+          updated_at?: string;
+        };
+        Update: {
+          active?: boolean;
+          created_at?: string;
+          id?: string;
+          relationship?: string;
+          sort_order?: number;
+          text_cs?: string;
+          text_en?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      sms_outbox: {
+        Row: {
+          attempts: number;
+          created_at: string;
+          id: string;
+          idempotency_key: string;
+          last_error: string | null;
+          locale: string;
+          locked_at: string | null;
+          max_attempts: number;
+          next_attempt_at: string;
+          order_id: string;
+          order_status: string;
+          phone: string;
+          provider: string | null;
+          provider_message_id: string | null;
+          sent_at: string | null;
+          status: string;
+          updated_at: string;
+        };
+        Insert: {
+          attempts?: number;
+          created_at?: string;
+          id?: string;
+          idempotency_key: string;
+          last_error?: string | null;
+          locale?: string;
+          locked_at?: string | null;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          order_id: string;
+          order_status: string;
+          phone: string;
+          provider?: string | null;
+          provider_message_id?: string | null;
+          sent_at?: string | null;
+          status?: string;
+          updated_at?: string;
+        };
+        Update: {
+          attempts?: number;
+          created_at?: string;
+          id?: string;
+          idempotency_key?: string;
+          last_error?: string | null;
+          locale?: string;
+          locked_at?: string | null;
+          max_attempts?: number;
+          next_attempt_at?: string;
+          order_id?: string;
+          order_status?: string;
+          phone?: string;
+          provider?: string | null;
+          provider_message_id?: string | null;
+          sent_at?: string | null;
+          status?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "sms_outbox_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      stock_reservations: {
+        Row: {
+          checkout_session_id: string;
+          created_at: string;
+          expires_at: string;
+          id: string;
+          order_id: string | null;
+          product_id: string;
+          quantity: number;
+          status: string;
+          updated_at: string;
+          variant_id: string | null;
+        };
+        Insert: {
+          checkout_session_id: string;
+          created_at?: string;
+          expires_at: string;
+          id?: string;
+          order_id?: string | null;
+          product_id: string;
+          quantity: number;
+          status?: string;
+          updated_at?: string;
+          variant_id?: string | null;
+        };
+        Update: {
+          checkout_session_id?: string;
+          created_at?: string;
+          expires_at?: string;
+          id?: string;
+          order_id?: string | null;
+          product_id?: string;
+          quantity?: number;
+          status?: string;
+          updated_at?: string;
+          variant_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "stock_reservations_order_id_fkey";
+            columns: ["order_id"];
+            isOneToOne: false;
+            referencedRelation: "orders";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "stock_reservations_product_id_fkey";
+            columns: ["product_id"];
+            isOneToOne: false;
+            referencedRelation: "products";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "stock_reservations_variant_id_fkey";
+            columns: ["variant_id"];
+            isOneToOne: false;
+            referencedRelation: "product_variants";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       user_profiles: {
         Row: {
           addresses: Json | null;
@@ -539,6 +1459,68 @@ export type Database = {
         };
         Relationships: [];
       };
+      venues: {
+        Row: {
+          active: boolean;
+          allowed_time_slots: string[] | null;
+          allowed_urgencies: string[] | null;
+          city: string;
+          country: string;
+          created_at: string;
+          delivery_notes: string | null;
+          id: string;
+          name: string;
+          opening_hours: Json;
+          postal_code: string;
+          street: string;
+          updated_at: string;
+          venue_type: string;
+          zone_id: string | null;
+        };
+        Insert: {
+          active?: boolean;
+          allowed_time_slots?: string[] | null;
+          allowed_urgencies?: string[] | null;
+          city: string;
+          country?: string;
+          created_at?: string;
+          delivery_notes?: string | null;
+          id?: string;
+          name: string;
+          opening_hours?: Json;
+          postal_code: string;
+          street: string;
+          updated_at?: string;
+          venue_type?: string;
+          zone_id?: string | null;
+        };
+        Update: {
+          active?: boolean;
+          allowed_time_slots?: string[] | null;
+          allowed_urgencies?: string[] | null;
+          city?: string;
+          country?: string;
+          created_at?: string;
+          delivery_notes?: string | null;
+          id?: string;
+          name?: string;
+          opening_hours?: Json;
+          postal_code?: string;
+          street?: string;
+          updated_at?: string;
+          venue_type?: string;
+          zone_id?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "venues_zone_id_fkey";
+            columns: ["zone_id"];
+            isOneToOne: false;
+            referencedRelation: "delivery_zones";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       web_vitals_metrics: {
         Row: {
           created_at: string | null;
@@ -611,6 +1593,26 @@ export type Database = {
         Args: { delivery_address: Json; delivery_date: string; items: Json };
         Returns: number;
       };
+      claim_email_outbox: {
+        Args: { p_limit?: number; p_lock_timeout_minutes?: number };
+        Returns: Database["public"]["Tables"]["email_outbox"]["Row"][];
+      };
+      claim_sms_outbox: {
+        Args: { p_limit?: number; p_lock_timeout_minutes?: number };
+        Returns: Database["public"]["Tables"]["sms_outbox"]["Row"][];
+      };
+      commit_stock_reservation: {
+        Args: { p_checkout_session_id: string; p_order_id: string };
+        Returns: number;
+      };
+      consume_order_materials: {
+        Args: { p_items: Json; p_order_id: string };
+        Returns: number;
+      };
+      format_order_number: {
+        Args: { p_format: string; p_padding: number; p_value: number; p_year: number };
+        Returns: string;
+      };
       get_admin_dashboard_stats: {
         Args: Record<PropertyKey, never>;
         Returns: Json;
@@ -623,10 +1625,62 @@ export type Database = {
           is_holiday: boolean;
         }[];
       };
+      get_product_popularity: {
+        Args: { p_days?: number };
+        Returns: {
+          order_count: number;
+          product_id: string;
+        }[];
+      };
       get_stripe_price_id_for_product: {
         Args: { p_product_id: string; p_size?: string };
         Returns: string;
       };
+      next_order_number: {
+        Args: Record<PropertyKey, never>;
+        Returns: string;
+      };
+      redeem_discount_code: {
+        Args: {
+          p_customer_email: string | null;
+          p_discount_amount: number;
+          p_discount_code_id: string;
+          p_order_id: string;
+        };
+        Returns: boolean;
+      };
+      product_search_query: {
+        Args: { p_term: string };
+        Returns: unknown;
+      };
+      reserve_delivery_slot: {
+        Args: {
+          p_checkout_session_id: string;
+          p_day_limit: number | null;
+          p_delivery_date: string;
+          p_expires_at: string;
+          p_slot_limit: number | null;
+          p_time_slot: string;
+        };
+        Returns: boolean;
+      };
+      reserve_stock: {
+        Args: { p_checkout_session_id: string; p_items: Json };
+        Returns: Json;
+      };
+      search_products: {
+        Args: { p_limit?: number; p_locale?: string; p_term: string };
+        Returns: {
+          name_headline: string;
+          product_id: string;
+          rank: number;
+          snippet: string;
+        }[];
+      };
+      set_material_recipe: {
+        Args: { p_choice_id: string; p_components: Json; p_option_type: string };
+        Returns: undefined;
+      };
       update_product_availability: {
         Args: { availability_data: Json; product_id: string };
         Returns: boolean;
@@ -165,46 +165,8 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to generate order number
-CREATE OR REPLACE FUNCTION generate_order_number()
-RETURNS TEXT AS $$
-DECLARE
-  year_suffix TEXT;
-  sequence_num INTEGER;
-  order_number TEXT;
-BEGIN
-  year_suffix := TO_CHAR(NOW(), 'YY');
-
-  -- Get next sequence number for this year
-  SELECT COALESCE(MAX(
-    CASE
-      WHEN customer_info->>'order_number' LIKE year_suffix || '%'
-      THEN (SUBSTRING(customer_info->>'order_number' FROM 3))::INTEGER
-      ELSE 0
-    END
-  ), 0) + 1 INTO sequence_num
-  FROM orders
-  WHERE EXTRACT(YEAR FROM created_at) = EXTRACT(YEAR FROM NOW());
-
-  order_number := year_suffix || LPAD(sequence_num::TEXT, 6, '0');
-
-  RETURN order_number;
-END;
-$$ LANGUAGE plpgsql;
-
--- Trigger function to set order number on insert
-CREATE OR REPLACE FUNCTION set_order_number()
-RETURNS TRIGGER AS $$
-BEGIN
-  NEW.customer_info := NEW.customer_info || jsonb_build_object('order_number', generate_order_number());
-  RETURN NEW;
-END;
-$$ LANGUAGE plpgsql;
-
--- Create trigger for order number generation
-CREATE TRIGGER generate_order_number_trigger
-  BEFORE INSERT ON orders
-  FOR EACH ROW EXECUTE FUNCTION set_order_number();
+-- Order numbers are assigned by assign_order_number_trigger from the yearly counter
+-- (see supabase/migrations/20250123000000_create_order_number_sequence.sql)
 
 -- Function to send order status notifications (placeholder for email integration)
 CREATE OR REPLACE FUNCTION notify_order_status_change()
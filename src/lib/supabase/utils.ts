@@ -1,3 +1,6 @@
+import { isStaffRole, isUserRole, type UserRole } from "@/lib/auth/permissions";
+import { ORDER_STATUS_TIMESTAMP_FIELDS } from "@/lib/orders/lifecycle";
+import type { OrderStatus } from "@/types/order";
 import { supabase } from "./client";
 import type { Database } from "./database.types";
 import { supabaseAdmin } from "./server";
@@ -8,6 +11,7 @@ type Category = Tables["categories"]["Row"];
 type Order = Tables["orders"]["Row"];
 type CartItem = Tables["cart_items"]["Row"];
 type UserProfile = Tables["user_profiles"]["Row"];
+type OrderStatusHistory = Tables["order_status_history"]["Row"];
 
 // Product utilities
 export const productUtils = {
@@ -239,62 +243,55 @@ export const orderUtils = {
       .range(offset, offset + limit - 1);
   },
 
-  async updateOrderStatus(orderId: string, status: string, internalNotes?: string) {
-    const updateData: any = {
+  async updateOrderStatus(
+    orderId: string,
+    status: string,
+    internalNotes?: string,
+    expectedStatus?: string,
+    fields: Tables["orders"]["Update"] = {}
+  ) {
+    const now = new Date().toISOString();
+    const updateData: Tables["orders"]["Update"] = {
+      ...fields,
       status,
-      updated_at: new Date().toISOString(),
+      updated_at: now,
     };
 
-    // Note: The database doesn't have separate timestamp fields for status changes
-    // (confirmed_at, shipped_at, delivered_at, cancelled_at)
-    // Status changes are tracked via the updated_at field and status value
+    // Stamp the per-status timestamp column (confirmed_at, shipped_at, ...) on entry
+    const timestampField = ORDER_STATUS_TIMESTAMP_FIELDS[status as OrderStatus];
+    if (timestampField && expectedStatus !== status) {
+      updateData[timestampField] = now;
+    }
 
     if (internalNotes) {
       updateData.notes = internalNotes;
     }
 
-    return supabaseAdmin.from("orders").update(updateData).eq("id", orderId).select().single();
-  },
-
-  async getOrderHistory(orderId: string) {
-    // Get order
-    const { data: order, error } = await supabase
-      .from("orders")
-      .select("*")
-      .eq("id", orderId)
-      .single();
+    let query = supabaseAdmin.from("orders").update(updateData).eq("id", orderId);
 
-    if (error || !order) {
-      return { data: null, error };
+    // Optimistic concurrency: only apply when the order is still in the status we validated against
+    if (expectedStatus) {
+      query = query.eq("status", expectedStatus);
     }
 
-    // Build status history from available data
-    // Note: Database doesn't have separate timestamp fields for each status change
-    const statusHistory = [];
-
-    if (order.created_at) {
-      statusHistory.push({
-        status: "pending",
-        timestamp: order.created_at,
-        description: "Objednávka byla vytvořena",
-      });
-    }
+    return query.select().single();
+  },
 
-    // Generate status history based on current status
-    // All status changes use updated_at since we don't have individual timestamp fields
-    if (order.status && order.status !== "pending") {
-      statusHistory.push({
-        status: order.status,
-        timestamp: order.updated_at || order.created_at || new Date().toISOString(),
-        description: `Status změněn na: ${order.status}`,
-      });
-    }
+  async recordStatusChange(entry: Tables["order_status_history"]["Insert"]) {
+    return supabaseAdmin.from("order_status_history").insert(entry).select().single();
+  },
 
-    return { data: { order, statusHistory }, error: null };
+  async getOrderHistory(orderId: string) {
+    return supabaseAdmin
+      .from("order_status_history")
+      .select("*")
+      .eq("order_id", orderId)
+      .order("created_at", { ascending: true });
   },
 
   async getAllOrders(filters?: {
     status?: string;
+    search?: string;
     dateFrom?: string;
     dateTo?: string;
     limit?: number;
@@ -306,6 +303,19 @@ export const orderUtils = {
       query = query.eq("status", filters.status);
     }
 
+    // Expects a term from normalizeOrderSearchTerm (no PostgREST filter syntax)
+    if (filters?.search) {
+      const pattern = `*${filters.search}*`;
+      query = query.or(
+        [
+          `order_number.ilike.${pattern}`,
+          `customer_info->>email.ilike.${pattern}`,
+          `customer_info->>lastName.ilike.${pattern}`,
+          `customer_info->>name.ilike.${pattern}`,
+        ].join(",")
+      );
+    }
+
     if (filters?.dateFrom) {
       query = query.gte("created_at", filters.dateFrom);
     }
@@ -368,17 +378,18 @@ export const userUtils = {
     return data?.role === "admin" || data?.role === "super_admin";
   },
 
-  async getUserRole(userId: string): Promise<"customer" | "admin" | "super_admin" | null> {
+  async isStaff(userId: string): Promise<boolean> {
+    return isStaffRole(await this.getUserRole(userId));
+  },
+
+  async getUserRole(userId: string): Promise<UserRole | null> {
     const { data } = await supabase.from("user_profiles").select("role").eq("id", userId).single();
 
     const role = data?.role;
-    if (role === "customer" || role === "admin" || role === "super_admin") {
-      return role;
-    }
-    return null;
+    return isUserRole(role) ? role : null;
   },
 
-  async setUserRole(userId: string, role: "customer" | "admin" | "super_admin") {
+  async setUserRole(userId: string, role: UserRole) {
     return supabaseAdmin.from("user_profiles").update({ role }).eq("id", userId);
   },
 };
@@ -564,4 +575,4 @@ export const adminUtils = {
 };
 
 // Type exports for convenience
-export type { Product, Category, Order, CartItem, UserProfile };
+export type { Product, Category, Order, CartItem, UserProfile, OrderStatusHistory };
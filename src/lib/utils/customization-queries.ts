@@ -1,10 +1,29 @@
+import { applyVariantsToOptions } from "@/lib/products/variants";
 import { createClient } from "@/lib/supabase/server";
-import type { CustomizationOption } from "@/types/product";
+import { transformProductVariantRow } from "@/lib/utils/product-transforms";
+import type { CustomizationOption, ProductVariantRow } from "@/types/product";
 
 /**
  * Optimized database queries for customization data with caching
  */
 
+// Variants price and stock the size option, so they are fetched and cached with the options
+const OPTIONS_WITH_VARIANTS = "id, base_price, customization_options, product_variants(*)";
+
+/**
+ * Apply the product's variant prices and stock to its size option
+ */
+function applyProductVariants(
+  options: CustomizationOption[],
+  product: { base_price: number; product_variants: ProductVariantRow[] | null }
+): CustomizationOption[] {
+  return applyVariantsToOptions(
+    options,
+    Number(product.base_price),
+    (product.product_variants || []).map(transformProductVariantRow)
+  );
+}
+
 /**
  * Get customization options for a product with caching
  */
@@ -34,7 +53,7 @@ export async function getProductCustomizationOptions(
   // Optimized query with specific field selection
   const { data, error } = await supabase
     .from("products")
-    .select("customization_options")
+    .select(OPTIONS_WITH_VARIANTS)
     .eq("id", productId)
     .single();
 
@@ -63,6 +82,10 @@ export async function getProductCustomizationOptions(
     options = [];
   }
 
+  if (data) {
+    options = applyProductVariants(options, data);
+  }
+
   // Cache the result in Redis
   await setCachedCustomizationOptions(productId, options);
 
@@ -107,7 +130,7 @@ export async function getBatchProductCustomizationOptions(
 
     const { data, error } = await supabase
       .from("products")
-      .select("id, customization_options")
+      .select(OPTIONS_WITH_VARIANTS)
       .in("id", uncachedIds);
 
     if (error) {
@@ -146,6 +169,7 @@ export async function getBatchProductCustomizationOptions(
         options = [];
       }
 
+      options = applyProductVariants(options, product);
       result[product.id] = options;
       productOptions.push({ productId: product.id, options });
     }
@@ -176,7 +200,7 @@ export async function getFrequentCustomizationOptions(): Promise<void> {
   // Get wreath products (assuming they have 'wreath' in category or name)
   const { data, error } = await supabase
     .from("products")
-    .select("id, customization_options")
+    .select(OPTIONS_WITH_VARIANTS)
     .or(
       "category_id.in.(select id from categories where name_cs ilike '%věnec%' or name_en ilike '%wreath%'),name_cs.ilike.%věnec%,name_en.ilike.%wreath%"
     )
@@ -217,7 +241,7 @@ export async function getFrequentCustomizationOptions(): Promise<void> {
       options = [];
     }
 
-    productOptions.push({ productId: product.id, options });
+    productOptions.push({ productId: product.id, options: applyProductVariants(options, product) });
   }
 
   if (productOptions.length > 0) {
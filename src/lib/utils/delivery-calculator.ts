@@ -1,8 +1,11 @@
 /**
  * Delivery date calculation utilities
  * Handles business logic for delivery scheduling, holidays, and cost calculation
+ * Holidays come from the holiday engine in @/lib/delivery/holidays; admin closures are passed
+ * in through DeliverySettings.closures.
  */
 
+import { findClosure, findCzechHoliday, isCzechHoliday } from "@/lib/delivery/holidays";
 import type { Address } from "@/types";
 import type {
   DeliveryAvailability,
@@ -12,40 +15,8 @@ import type {
   DeliveryTimeSlot,
   DeliveryUrgency,
   DeliveryZone,
-  Holiday,
 } from "@/types/delivery";
 
-// Czech public holidays (fixed dates and calculated dates)
-export const CZECH_HOLIDAYS_2024: Holiday[] = [
-  { date: new Date(2024, 0, 1), name: "Nový rok", type: "public" },
-  { date: new Date(2024, 3, 1), name: "Velikonoční pondělí", type: "religious" },
-  { date: new Date(2024, 4, 1), name: "Svátek práce", type: "public" },
-  { date: new Date(2024, 4, 8), name: "Den vítězství", type: "public" },
-  { date: new Date(2024, 6, 5), name: "Den slovanských věrozvěstů", type: "religious" },
-  { date: new Date(2024, 6, 6), name: "Den upálení Jana Husa", type: "religious" },
-  { date: new Date(2024, 8, 28), name: "Den české státnosti", type: "public" },
-  { date: new Date(2024, 9, 28), name: "Den vzniku Československa", type: "public" },
-  { date: new Date(2024, 10, 17), name: "Den boje za svobodu a demokracii", type: "public" },
-  { date: new Date(2024, 11, 24), name: "Štědrý den", type: "religious" },
-  { date: new Date(2024, 11, 25), name: "1. svátek vánoční", type: "religious" },
-  { date: new Date(2024, 11, 26), name: "2. svátek vánoční", type: "religious" },
-];
-
-export const CZECH_HOLIDAYS_2025: Holiday[] = [
-  { date: new Date(2025, 0, 1), name: "Nový rok", type: "public" },
-  { date: new Date(2025, 3, 21), name: "Velikonoční pondělí", type: "religious" },
-  { date: new Date(2025, 4, 1), name: "Svátek práce", type: "public" },
-  { date: new Date(2025, 4, 8), name: "Den vítězství", type: "public" },
-  { date: new Date(2025, 6, 5), name: "Den slovanských věrozvěstů", type: "religious" },
-  { date: new Date(2025, 6, 6), name: "Den upálení Jana Husa", type: "religious" },
-  { date: new Date(2025, 8, 28), name: "Den české státnosti", type: "public" },
-  { date: new Date(2025, 9, 28), name: "Den vzniku Československa", type: "public" },
-  { date: new Date(2025, 10, 17), name: "Den boje za svobodu a demokracii", type: "public" },
-  { date: new Date(2025, 11, 24), name: "Štědrý den", type: "religious" },
-  { date: new Date(2025, 11, 25), name: "1. svátek vánoční", type: "religious" },
-  { date: new Date(2025, 11, 26), name: "2. svátek vánoční", type: "religious" },
-];
-
 // Default delivery settings
 export const DEFAULT_DELIVERY_SETTINGS: DeliverySettings = {
   standardDeliveryHours: 24,
@@ -97,19 +68,32 @@ export const DEFAULT_DELIVERY_OPTIONS: DeliveryOption[] = [
   },
 ];
 
+const STANDARD_DELIVERY_OPTION = DEFAULT_DELIVERY_OPTIONS.find(
+  (option) => option.urgency === "standard"
+);
+
+// Time slots offered on working days when no zone is known
+const DEFAULT_TIME_SLOTS: DeliveryTimeSlot[] = ["morning", "afternoon", "anytime"];
+
 /**
- * Check if a date is a Czech holiday
+ * Extra cost of an urgency compared to standard delivery
  */
-export function isCzechHoliday(date: Date): boolean {
-  const year = date.getFullYear();
-  const holidays = year === 2024 ? CZECH_HOLIDAYS_2024 : year === 2025 ? CZECH_HOLIDAYS_2025 : [];
-
-  return holidays.some(
-    (holiday) =>
-      holiday.date.getDate() === date.getDate() &&
-      holiday.date.getMonth() === date.getMonth() &&
-      holiday.date.getFullYear() === date.getFullYear()
-  );
+export function getUrgencySurcharge(urgency: DeliveryUrgency): number {
+  const option = DEFAULT_DELIVERY_OPTIONS.find((opt) => opt.urgency === urgency);
+  return Math.max(0, (option?.baseCost ?? 0) - (STANDARD_DELIVERY_OPTION?.baseCost ?? 0));
+}
+
+/**
+ * Delivery options available in a zone, priced from the zone's base cost
+ */
+export function getZoneDeliveryOptions(zone: DeliveryZone): DeliveryOption[] {
+  return DEFAULT_DELIVERY_OPTIONS.filter((option) =>
+    zone.supportedUrgencies.includes(option.urgency)
+  ).map((option) => ({
+    ...option,
+    baseCost: zone.baseCost + getUrgencySurcharge(option.urgency),
+    ...(zone.maxDistance !== undefined && { maxDistance: zone.maxDistance }),
+  }));
 }
 
 /**
@@ -121,14 +105,18 @@ export function isWeekend(date: Date): boolean {
 }
 
 /**
- * Check if a date is a working day (not weekend, not holiday)
+ * Check if a date is a working day (not weekend, not holiday, not closed)
  */
 export function isWorkingDay(
   date: Date,
   settings: DeliverySettings = DEFAULT_DELIVERY_SETTINGS
 ): boolean {
   const dayOfWeek = date.getDay();
-  return settings.workingDays.includes(dayOfWeek) && !isCzechHoliday(date);
+  return (
+    settings.workingDays.includes(dayOfWeek) &&
+    !findCzechHoliday(date) &&
+    !findClosure(date, settings.closures)
+  );
 }
 
 /**
@@ -190,15 +178,36 @@ export function calculateEarliestDeliveryDate(
   return deliveryDate;
 }
 
+/**
+ * Why delivery is not possible on a non-working day
+ */
+function getUnavailableReason(date: Date, settings: DeliverySettings): string {
+  const holiday = findCzechHoliday(date);
+  if (holiday) {
+    return `Státní svátek – ${holiday.name}`;
+  }
+
+  const closure = findClosure(date, settings.closures);
+  if (closure) {
+    return `Zavřeno – ${closure.name}`;
+  }
+
+  return isWeekend(date) ? "Víkend" : "Nedostupné";
+}
+
 /**
  * Generate available delivery dates for a given month
  */
 export function generateAvailableDeliveryDates(
   month: number,
   year: number,
-  settings: DeliverySettings = DEFAULT_DELIVERY_SETTINGS
+  settings: DeliverySettings = DEFAULT_DELIVERY_SETTINGS,
+  zone?: DeliveryZone
 ): DeliveryAvailability[] {
   const availableDates: DeliveryAvailability[] = [];
+  const timeSlots = zone
+    ? [...new Set(getZoneDeliveryOptions(zone).flatMap((option) => option.availableTimeSlots))]
+    : DEFAULT_TIME_SLOTS;
   const now = new Date();
   const startDate = new Date(year, month, 1);
   const endDate = new Date(year, month + 1, 0); // Last day of month
@@ -221,19 +230,12 @@ export function generateAvailableDeliveryDates(
     const isHoliday = isCzechHoliday(currentDate);
     const isWeekendDay = isWeekend(currentDate);
     const isWorking = isWorkingDay(currentDate, settings);
-
-    const reasonText = !isWorking
-      ? isHoliday
-        ? "Státní svátek"
-        : isWeekendDay
-          ? "Víkend"
-          : "Nedostupné"
-      : null;
+    const reasonText = isWorking ? null : getUnavailableReason(currentDate, settings);
 
     availableDates.push({
       date: new Date(currentDate),
       available: isWorking,
-      timeSlots: isWorking ? ["morning", "afternoon", "anytime"] : [],
+      timeSlots: isWorking ? timeSlots : [],
       isHoliday,
       isWeekend: isWeekendDay,
       ...(reasonText && { reason: reasonText }),
@@ -245,25 +247,28 @@ export function generateAvailableDeliveryDates(
 
 /**
  * Calculate delivery cost based on distance, urgency, and time slot
+ * With a zone, the zone's base cost replaces the standard price and faster urgencies
+ * add their surcharge on top.
  */
 export function calculateDeliveryCost(
   _address: Address,
   urgency: DeliveryUrgency,
   timeSlot: DeliveryTimeSlot = "anytime",
-  deliveryZone?: DeliveryZone
+  deliveryZone?: DeliveryZone,
+  settings: DeliverySettings = DEFAULT_DELIVERY_SETTINGS
 ): DeliveryCostCalculation {
   const option = DEFAULT_DELIVERY_OPTIONS.find((opt) => opt.urgency === urgency);
   if (!option) {
     throw new Error(`Invalid delivery urgency: ${urgency}`);
   }
 
-  const baseCost = deliveryZone?.baseCost || option.baseCost;
+  const baseCost = deliveryZone ? deliveryZone.baseCost : option.baseCost;
 
   // Distance cost calculation (simplified - in real app would use geocoding)
   const distanceCost = 0; // Would calculate based on actual distance
 
-  // Urgency cost (already included in base cost)
-  const urgencyCost = 0;
+  // Urgency cost (without a zone it is already included in the option's base cost)
+  const urgencyCost = deliveryZone ? getUrgencySurcharge(urgency) : 0;
 
   // Time slot cost
   let timeSlotCost = 0;
@@ -272,7 +277,7 @@ export function calculateDeliveryCost(
   }
 
   const totalCost = baseCost + distanceCost + urgencyCost + timeSlotCost;
-  const estimatedDeliveryDate = calculateEarliestDeliveryDate(urgency);
+  const estimatedDeliveryDate = calculateEarliestDeliveryDate(urgency, settings);
 
   return {
     baseCost,
@@ -285,54 +290,17 @@ export function calculateDeliveryCost(
   };
 }
 
-/**
- * Get delivery zones (simplified - in real app would be from database)
- */
-export function getDeliveryZones(): DeliveryZone[] {
-  return [
-    {
-      id: "prague",
-      name: "Praha",
-      postalCodes: ["100", "110", "120", "130", "140", "150", "160", "170", "180", "190"],
-      baseCost: 150,
-      maxDistance: 25,
-      supportedUrgencies: ["standard", "express", "same-day"],
-    },
-    {
-      id: "central-bohemia",
-      name: "Střední Čechy",
-      postalCodes: ["250", "260", "270", "280", "290"],
-      baseCost: 200,
-      maxDistance: 50,
-      supportedUrgencies: ["standard", "express"],
-    },
-    {
-      id: "other",
-      name: "Ostatní oblasti",
-      postalCodes: [],
-      baseCost: 300,
-      maxDistance: 100,
-      supportedUrgencies: ["standard"],
-    },
-  ];
-}
-
-/**
- * Find delivery zone by postal code
- */
-export function findDeliveryZone(postalCode: string): DeliveryZone {
-  const zones = getDeliveryZones();
-  const zone = zones.find((z) => z.postalCodes.some((pc) => postalCode.startsWith(pc)));
-  return zone || zones[zones.length - 1]!; // Default to 'other' zone
-}
-
 /**
  * Validate if delivery is possible for given parameters
+ *
+ * @param zone - Zone covering the address postal code, or null when it is not delivered to
  */
 export function validateDeliveryRequest(
   address: Address,
   urgency: DeliveryUrgency,
-  preferredDate?: Date
+  zone: DeliveryZone | null,
+  preferredDate?: Date,
+  settings: DeliverySettings = DEFAULT_DELIVERY_SETTINGS
 ): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
 
@@ -342,19 +310,20 @@ export function validateDeliveryRequest(
   }
 
   // Check delivery zone support
-  const zone = findDeliveryZone(address.postalCode);
-  if (!zone.supportedUrgencies.includes(urgency)) {
+  if (!zone) {
+    errors.push("Do této oblasti zatím nedoručujeme");
+  } else if (!zone.supportedUrgencies.includes(urgency)) {
     errors.push(`${urgency} doručení není dostupné pro vaši oblast`);
   }
 
   // Check preferred date
   if (preferredDate) {
-    const earliestDate = calculateEarliestDeliveryDate(urgency);
+    const earliestDate = calculateEarliestDeliveryDate(urgency, settings);
     if (preferredDate < earliestDate) {
       errors.push("Zvolené datum je příliš brzy pro tento typ doručení");
     }
 
-    if (!isWorkingDay(preferredDate)) {
+    if (!isWorkingDay(preferredDate, settings)) {
       errors.push("Zvolené datum není pracovní den");
     }
   }
@@ -0,0 +1,168 @@
+/**
+ * Utility functions for transforming order rows into the Order interface
+ * Handles both payloads written by POST /api/orders and the flatter ones written by
+ * the Stripe checkout webhook.
+ */
+
+import { parseFuneralDetails } from "@/lib/delivery/funeral";
+import type { Database } from "@/lib/supabase/database.types";
+import type { Address } from "@/types";
+import type { Order, OrderItem, OrderStatus, PaymentInfo } from "@/types/order";
+
+type OrderRow = Database["public"]["Tables"]["orders"]["Row"];
+
+/**
+ * Order items from the orders.items column
+ * Customer orders store { items: [...] }, orders created from Stripe checkout store a plain array.
+ */
+export function getOrderItems(order: Pick<OrderRow, "items">): OrderItem[] {
+  const raw = order.items as { items?: unknown } | unknown[] | null;
+  const items = (Array.isArray(raw) ? raw : raw?.items) as Partial<OrderItem>[] | undefined;
+
+  return (items || []).map((item, index) => {
+    const quantity = Number(item.quantity) || 1;
+    // Checkout session items only carry the line total as `price`
+    const totalPrice = Number(item.totalPrice ?? (item as { price?: number }).price) || 0;
+
+    return {
+      ...(item as OrderItem),
+      id: item.id || `item-${index}`,
+      productName: item.productName || item.productId || "",
+      quantity,
+      unitPrice: Number(item.unitPrice) || totalPrice / quantity,
+      totalPrice,
+    };
+  });
+}
+
+// JSON columns as written by the order API and the checkout webhook
+interface StoredCustomerInfo extends Partial<Order["customerInfo"]> {
+  sessionId?: string;
+}
+
+interface StoredDeliveryInfo
+  extends Partial<Omit<Order["deliveryInfo"], "preferredDate" | "funeral">> {
+  preferredDate?: string;
+  funeral?: unknown;
+  deliveryCost?: number;
+}
+
+type StoredPaymentInfo = Omit<PaymentInfo, "processedAt"> & { processedAt?: string };
+
+/**
+ * Customer details; checkout webhook orders only know the full name
+ */
+function transformCustomerInfo(customerInfo: StoredCustomerInfo): Order["customerInfo"] {
+  const [firstName = "", ...lastNames] = (customerInfo.name || "").split(" ");
+  const customerFirstName = customerInfo.firstName ?? firstName;
+  const customerLastName = customerInfo.lastName ?? lastNames.join(" ");
+
+  return {
+    firstName: customerFirstName,
+    lastName: customerLastName,
+    email: customerInfo.email || "",
+    name: customerInfo.name || `${customerFirstName} ${customerLastName}`.trim(),
+    ...(customerInfo.phone && { phone: customerInfo.phone }),
+    ...(customerInfo.company && { company: customerInfo.company }),
+    ...(customerInfo.note && { note: customerInfo.note }),
+  };
+}
+
+function transformDeliveryInfo(deliveryInfo: StoredDeliveryInfo): Order["deliveryInfo"] {
+  const funeral = parseFuneralDetails(deliveryInfo.funeral);
+
+  return {
+    urgency: deliveryInfo.urgency || "standard",
+    // Webhook orders store the address fields directly on delivery_info
+    address: deliveryInfo.address ?? (deliveryInfo as Address),
+    ...(deliveryInfo.preferredDate && {
+      preferredDate: new Date(deliveryInfo.preferredDate),
+    }),
+    ...(deliveryInfo.preferredTimeSlot && { preferredTimeSlot: deliveryInfo.preferredTimeSlot }),
+    ...(deliveryInfo.specialInstructions && {
+      specialInstructions: deliveryInfo.specialInstructions,
+    }),
+    ...(deliveryInfo.recipientName && { recipientName: deliveryInfo.recipientName }),
+    ...(deliveryInfo.recipientPhone && { recipientPhone: deliveryInfo.recipientPhone }),
+    ...(funeral && { funeral }),
+  };
+}
+
+function transformPaymentInfo(paymentInfo: StoredPaymentInfo): PaymentInfo {
+  return {
+    ...paymentInfo,
+    transactionId: paymentInfo.transactionId,
+    processedAt: paymentInfo.processedAt ? new Date(paymentInfo.processedAt) : undefined,
+    failureReason: paymentInfo.failureReason || undefined,
+  };
+}
+
+/**
+ * Status timestamps that are set on the row
+ */
+function getOrderStatusDates(
+  row: OrderRow
+): Pick<Order, "confirmedAt" | "shippedAt" | "deliveredAt" | "cancelledAt"> {
+  return {
+    ...(row.confirmed_at && { confirmedAt: new Date(row.confirmed_at) }),
+    ...(row.shipped_at && { shippedAt: new Date(row.shipped_at) }),
+    ...(row.delivered_at && { deliveredAt: new Date(row.delivered_at) }),
+    ...(row.cancelled_at && { cancelledAt: new Date(row.cancelled_at) }),
+  };
+}
+
+/**
+ * Item count and amounts; webhook orders keep the delivery cost on delivery_info
+ */
+function getOrderAmounts(
+  row: OrderRow,
+  deliveryInfo: StoredDeliveryInfo,
+  items: OrderItem[]
+): Pick<
+  Order,
+  "itemCount" | "subtotal" | "deliveryCost" | "totalAmount" | "discountCode" | "discountAmount"
+> {
+  const itemsData = row.items as { itemCount?: number } | unknown[] | null;
+
+  return {
+    itemCount:
+      (Array.isArray(itemsData) ? undefined : itemsData?.itemCount) ??
+      items.reduce((sum, item) => sum + item.quantity, 0),
+    subtotal: Number(row.subtotal) || 0,
+    deliveryCost: Number(row.delivery_cost ?? deliveryInfo.deliveryCost) || 0,
+    totalAmount: Number(row.total_amount) || 0,
+    ...(row.discount_code && {
+      discountCode: row.discount_code,
+      discountAmount: Number(row.discount_amount),
+    }),
+  };
+}
+
+/**
+ * Transform a database order row to Order interface
+ */
+export function transformOrderRow(row: OrderRow): Order {
+  const customerInfo = (row.customer_info || {}) as StoredCustomerInfo;
+  const deliveryInfo = (row.delivery_info || {}) as StoredDeliveryInfo;
+  const items = getOrderItems(row);
+
+  return {
+    id: row.id,
+    orderNumber: row.order_number,
+    userId: row.user_id || "",
+    ...(customerInfo.sessionId && { sessionId: customerInfo.sessionId }),
+    items,
+    ...getOrderAmounts(row, deliveryInfo, items),
+    customerInfo: transformCustomerInfo(customerInfo),
+    deliveryInfo: transformDeliveryInfo(deliveryInfo),
+    paymentInfo: transformPaymentInfo((row.payment_info || {}) as unknown as StoredPaymentInfo),
+    ...(row.delivery_method && { deliveryMethod: row.delivery_method as "delivery" | "pickup" }),
+    ...(row.pickup_location && { pickupLocation: row.pickup_location }),
+    status: (row.status || "pending") as OrderStatus,
+    notes: row.notes || "",
+    ...(row.delivery_photo_url && { deliveryPhotoUrl: row.delivery_photo_url }),
+    createdAt: new Date(row.created_at || Date.now()),
+    updatedAt: new Date(row.updated_at || Date.now()),
+    ...getOrderStatusDates(row),
+  };
+}
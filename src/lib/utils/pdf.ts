@@ -0,0 +1,285 @@
+/**
+ * PDF document writer
+ * Builds simple A4 documents of text, lines and boxes in memory for printouts such as florist
+ * job sheets. Uses the built-in Helvetica fonts, so nothing is embedded; their encoding is
+ * extended with the Czech letters missing from WinAnsi.
+ * Server-only (returns a Buffer); suited to small documents, not streaming.
+ */
+
+export type PdfFont = "regular" | "bold";
+
+/**
+ * Drawing on a page
+ * Coordinates are in points from the top-left corner; the y of text is its baseline.
+ */
+export type PdfItem =
+  | {
+      type: "text";
+      x: number;
+      y: number;
+      text: string;
+      size: number;
+      font?: PdfFont;
+      // 0 = black, 1 = white
+      gray?: number;
+    }
+  | { type: "line"; x1: number; y1: number; x2: number; y2: number; lineWidth?: number }
+  | { type: "rect"; x: number; y: number; width: number; height: number; lineWidth?: number };
+
+export interface PdfPage {
+  items: PdfItem[];
+}
+
+export const A4_SIZE = { width: 595.28, height: 841.89 } as const;
+
+// WinAnsi codes 0x80-0x9F, where it differs from Latin-1
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  ƒ: 0x83,
+  "„": 0x84,
+  "…": 0x85,
+  "†": 0x86,
+  "‡": 0x87,
+  ˆ: 0x88,
+  "‰": 0x89,
+  Š: 0x8a,
+  "‹": 0x8b,
+  Œ: 0x8c,
+  Ž: 0x8e,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "˜": 0x98,
+  "™": 0x99,
+  š: 0x9a,
+  "›": 0x9b,
+  œ: 0x9c,
+  ž: 0x9e,
+  Ÿ: 0x9f,
+};
+
+// Czech letters missing from WinAnsi take over the codes of letters Czech text does not use
+const CZECH_GLYPHS: ReadonlyArray<readonly [string, number, string]> = [
+  ["Č", 0xc3, "Ccaron"],
+  ["Ě", 0xc5, "Ecaron"],
+  ["Ů", 0xc6, "Uring"],
+  ["Ď", 0xd0, "Dcaron"],
+  ["Ň", 0xd5, "Ncaron"],
+  ["Ř", 0xd8, "Rcaron"],
+  ["Ť", 0xde, "Tcaron"],
+  ["č", 0xe3, "ccaron"],
+  ["ě", 0xe5, "ecaron"],
+  ["ů", 0xe6, "uring"],
+  ["ď", 0xf0, "dcaron"],
+  ["ň", 0xf5, "ncaron"],
+  ["ř", 0xf8, "rcaron"],
+  ["ť", 0xfe, "tcaron"],
+];
+
+const CHAR_CODES = new Map<string, number>([
+  ...Object.entries(WIN_ANSI_EXTRA),
+  ...CZECH_GLYPHS.map(([char, code]) => [char, code] as const),
+]);
+
+const REPLACED_CODES = new Set(CZECH_GLYPHS.map(([, code]) => code));
+
+const UNKNOWN_CHAR_CODE = 0x3f; // "?"
+
+function encodeChar(char: string): number | null {
+  const mapped = CHAR_CODES.get(char);
+  if (mapped !== undefined) {
+    return mapped;
+  }
+
+  const code = char.codePointAt(0) ?? UNKNOWN_CHAR_CODE;
+  if (
+    (code >= 0x20 && code <= 0x7e) ||
+    (code >= 0xa0 && code <= 0xff && !REPLACED_CODES.has(code))
+  ) {
+    return code;
+  }
+
+  return null;
+}
+
+/**
+ * Character codes of text in the document font encoding
+ * Letters outside the encoding lose their accents ("ő" prints as "o"); anything else prints as "?".
+ */
+export function encodePdfText(text: string): number[] {
+  return Array.from(text.normalize("NFC").replace(/\s/g, " "), (char) => {
+    const code = encodeChar(char);
+    if (code !== null) {
+      return code;
+    }
+
+    const base = char.normalize("NFD").replace(/\p{M}/gu, "");
+    return (base.length === 1 && encodeChar(base)) || UNKNOWN_CHAR_CODE;
+  });
+}
+
+/**
+ * Approximate Helvetica advance width of a character in 1/1000 em
+ * Close enough for wrapping lines with a little slack, not for justified text.
+ */
+function charWidth(char: string): number {
+  if (/[ijlI.,:;'!|]/.test(char)) {
+    return 260;
+  }
+  if (/[ frt()\-/]/.test(char)) {
+    return 320;
+  }
+  if (/[mwMW]/.test(char)) {
+    return 850;
+  }
+  if (char !== char.toLowerCase()) {
+    return 690;
+  }
+  return 556;
+}
+
+export function measurePdfText(text: string, size: number, font: PdfFont = "regular"): number {
+  const units = Array.from(text).reduce((sum, char) => sum + charWidth(char), 0);
+  return (units * size * (font === "bold" ? 1.05 : 1)) / 1000;
+}
+
+function splitWord(word: string, fits: (line: string) => boolean): string[] {
+  const pieces = [""];
+  for (const char of word) {
+    const last = pieces[pieces.length - 1] ?? "";
+    if (last && !fits(last + char)) {
+      pieces.push(char);
+    } else {
+      pieces[pieces.length - 1] = last + char;
+    }
+  }
+  return pieces;
+}
+
+/**
+ * Wrap text to a maximum line width
+ * Keeps line breaks in the text; words wider than a line are split.
+ */
+export function wrapPdfText(
+  text: string,
+  size: number,
+  maxWidth: number,
+  font: PdfFont = "regular"
+): string[] {
+  const fits = (line: string) => measurePdfText(line, size, font) <= maxWidth;
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fits(candidate)) {
+        line = candidate;
+        continue;
+      }
+
+      if (line) {
+        lines.push(line);
+      }
+
+      // Split a word that does not fit on a line of its own
+      const pieces = splitWord(word, fits);
+      line = pieces.pop() ?? "";
+      lines.push(...pieces);
+    }
+
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function toHex(codes: number[]): string {
+  return codes.map((code) => code.toString(16).padStart(2, "0")).join("");
+}
+
+// Text strings outside content streams (document info) are UTF-16BE with a byte order mark
+function toUtf16Hex(text: string): string {
+  return `FEFF${Array.from(text, (char) => {
+    const code = char.codePointAt(0) ?? UNKNOWN_CHAR_CODE;
+    return (code > 0xffff ? UNKNOWN_CHAR_CODE : code).toString(16).padStart(4, "0");
+  }).join("")}`;
+}
+
+function renderItem(item: PdfItem): string {
+  const top = (y: number) => formatNumber(A4_SIZE.height - y);
+
+  switch (item.type) {
+    case "text":
+      return [
+        `${formatNumber(item.gray ?? 0)} g`,
+        `BT /${item.font === "bold" ? "F2" : "F1"} ${formatNumber(item.size)} Tf`,
+        `${formatNumber(item.x)} ${top(item.y)} Td <${toHex(encodePdfText(item.text))}> Tj ET`,
+      ].join(" ");
+    case "line":
+      return `${formatNumber(item.lineWidth ?? 0.5)} w ${formatNumber(item.x1)} ${top(item.y1)} m ${formatNumber(item.x2)} ${top(item.y2)} l S`;
+    case "rect":
+      return `${formatNumber(item.lineWidth ?? 0.5)} w ${formatNumber(item.x)} ${top(item.y + item.height)} ${formatNumber(item.width)} ${formatNumber(item.height)} re S`;
+  }
+}
+
+function toPdfDate(date: Date): string {
+  return `D:${date
+    .toISOString()
+    .replace(/[-:T]/g, "")
+    .replace(/\.\d+Z$/, "")}Z`;
+}
+
+/**
+ * Create a PDF document from the given pages
+ */
+export function createPdfDocument(
+  pages: PdfPage[],
+  info: { title?: string; createdAt?: Date } = {}
+): Buffer {
+  const documentPages = pages.length > 0 ? pages : [{ items: [] }];
+  const differences = CZECH_GLYPHS.map(([, code, name]) => `${code} /${name}`).join(" ");
+  const firstPageId = 7;
+
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${documentPages.map((_, index) => `${firstPageId + index * 2} 0 R`).join(" ")}] /Count ${documentPages.length} >>`,
+    `<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences [${differences}] >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding 3 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding 3 0 R >>",
+    `<< ${info.title ? `/Title <${toUtf16Hex(info.title)}> ` : ""}/CreationDate (${toPdfDate(info.createdAt ?? new Date())}) >>`,
+  ];
+
+  documentPages.forEach((page, index) => {
+    const content = page.items.map(renderItem).join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_SIZE.width} ${A4_SIZE.height}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents ${firstPageId + index * 2 + 1} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Everything above is ASCII, so string lengths are byte offsets
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
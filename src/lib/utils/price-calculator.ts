@@ -1,3 +1,4 @@
+import { isCzechHoliday } from "@/lib/delivery/holidays";
 import type { LocalizedContent } from "@/types";
 import type { Customization, CustomizationOption } from "@/types/product";
 
@@ -170,9 +171,8 @@ export function calculateDeliveryFee(
     baseFee += 100;
   }
 
-  // Holiday surcharge (simplified - in real app would check holiday calendar)
-  const isHoliday = isPublicHoliday(deliveryDate);
-  if (isHoliday) {
+  // Holiday surcharge
+  if (isCzechHoliday(deliveryDate)) {
     baseFee += 150;
   }
 
@@ -214,31 +214,6 @@ export function applyDiscounts(originalPrice: number, discounts: Discount[]): Di
   };
 }
 
-/**
- * Check if a date is a public holiday (simplified implementation)
- */
-function isPublicHoliday(date: Date): boolean {
-  const month = date.getMonth() + 1;
-  const day = date.getDate();
-
-  // Czech public holidays (simplified)
-  const holidays = [
-    { month: 1, day: 1 }, // New Year's Day
-    { month: 5, day: 1 }, // Labour Day
-    { month: 5, day: 8 }, // Liberation Day
-    { month: 7, day: 5 }, // Saints Cyril and Methodius Day
-    { month: 7, day: 6 }, // Jan Hus Day
-    { month: 9, day: 28 }, // Czech Statehood Day
-    { month: 10, day: 28 }, // Independent Czechoslovak State Day
-    { month: 11, day: 17 }, // Struggle for Freedom and Democracy Day
-    { month: 12, day: 24 }, // Christmas Eve
-    { month: 12, day: 25 }, // Christmas Day
-    { month: 12, day: 26 }, // St. Stephen's Day
-  ];
-
-  return holidays.some((holiday) => holiday.month === month && holiday.day === day);
-}
-
 /**
  * Calculate tax amount (VAT)
  */
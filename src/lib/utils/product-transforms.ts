@@ -3,7 +3,15 @@
  */
 
 import type { Locale, LocalizedContent } from "@/types";
-import type { Category, CategoryRow, Product, ProductRow } from "@/types/product";
+import type {
+  Category,
+  CategoryRow,
+  Product,
+  ProductImage,
+  ProductRow,
+  ProductVariant,
+  ProductVariantRow,
+} from "@/types/product";
 
 /**
  * Transform a database category row to Category interface
@@ -41,38 +49,23 @@ export function transformCategoryRow(row: CategoryRow): Category {
 }
 
 /**
- * Transform a database product row to Product interface
+ * Parse images stored as JSONB - handle both array and JSON string formats
+ * Maps to ProductImage type with required fields (id, sortOrder)
  */
-export function transformProductRow(row: ProductRow, category?: Category): Product {
-  const name: LocalizedContent = {
-    cs: row.name_cs,
-    en: row.name_en,
-  };
-
-  const description: LocalizedContent | undefined =
-    row.description_cs || row.description_en
-      ? {
-          cs: row.description_cs || "",
-          en: row.description_en || "",
-        }
-      : undefined;
-
-  // Parse images - handle both array and JSON string formats
-  // Map to ProductImage type with required fields (id, sortOrder)
-  let images: any[] = [];
+function parseProductImages(raw: unknown, idPrefix: string): ProductImage[] {
   try {
     let rawImages: any[] = [];
-    if (Array.isArray(row.images)) {
-      rawImages = row.images;
-    } else if (typeof row.images === "string") {
-      const parsed = JSON.parse(row.images);
+    if (Array.isArray(raw)) {
+      rawImages = raw;
+    } else if (typeof raw === "string") {
+      const parsed = JSON.parse(raw);
       rawImages = Array.isArray(parsed) ? parsed : [];
     }
 
     // Map raw images to ProductImage type with all required fields
-    images = rawImages
+    return rawImages
       .map((img, index) => ({
-        id: img.id || `${row.id}-img-${index}`, // Generate ID if missing
+        id: img.id || `${idPrefix}-img-${index}`, // Generate ID if missing
         url: img.url || "",
         alt: img.alt || "",
         isPrimary: img.isPrimary === true, // Ensure boolean
@@ -85,8 +78,28 @@ export function transformProductRow(row: ProductRow, category?: Category): Produ
       .filter((img) => img.url); // Filter out images without URLs
   } catch (error) {
     console.error("Failed to parse product images:", error);
-    images = [];
+    return [];
   }
+}
+
+/**
+ * Transform a database product row to Product interface
+ */
+export function transformProductRow(row: ProductRow, category?: Category): Product {
+  const name: LocalizedContent = {
+    cs: row.name_cs,
+    en: row.name_en,
+  };
+
+  const description: LocalizedContent | undefined =
+    row.description_cs || row.description_en
+      ? {
+          cs: row.description_cs || "",
+          en: row.description_en || "",
+        }
+      : undefined;
+
+  const images = parseProductImages(row.images, row.id);
 
   // Parse customization_options - handle both array and JSON string formats
   let customizationOptions: any[] = [];
@@ -156,6 +169,28 @@ export function transformProductRow(row: ProductRow, category?: Category): Produ
   };
 }
 
+/**
+ * Transform a database product variant row to ProductVariant interface
+ */
+export function transformProductVariantRow(row: ProductVariantRow): ProductVariant {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    sizeChoiceId: row.size_choice_id,
+    ...(row.sku && { sku: row.sku }),
+    ...(row.size_label_cs && {
+      sizeLabel: { cs: row.size_label_cs, en: row.size_label_en || row.size_label_cs },
+    }),
+    price: Number(row.price),
+    stockQuantity: row.stock_quantity ?? null,
+    images: parseProductImages(row.images, row.id),
+    ...(row.stripe_price_id && { stripePriceId: row.stripe_price_id }),
+    isDefault: row.is_default,
+    active: row.active,
+    sortOrder: row.sort_order ?? 0,
+  };
+}
+
 /**
  * Transform Category interface to database row format
  */
@@ -32,6 +32,11 @@ const rateLimiters = {
     limiter: Ratelimit.slidingWindow(10, "5 m"), // 10 checkout session creations per 5 minutes
     analytics: true,
   }),
+  "discount-validation": new Ratelimit({
+    redis,
+    limiter: Ratelimit.slidingWindow(10, "1 m"), // 10 promo code attempts per minute (guards against guessing)
+    analytics: true,
+  }),
   general: new Ratelimit({
     redis,
     limiter: Ratelimit.slidingWindow(60, "1 m"), // 60 requests per minute
@@ -0,0 +1,88 @@
+/**
+ * ZIP archive writer
+ * Builds deflate-compressed ZIP archives in memory for downloads such as the GDPR data export.
+ * Server-only (uses node:zlib); suited to small archives, not streaming.
+ */
+
+import { crc32, deflateRawSync } from "node:zlib";
+
+export interface ZipEntry {
+  /** Path inside the archive, using forward slashes */
+  name: string;
+  content: string | Uint8Array;
+}
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_VERSION = 20;
+const UTF8_FILE_NAMES = 0x0800;
+const DEFLATE = 8;
+
+/**
+ * MS-DOS time and date fields used by ZIP headers (local time, 2 second precision)
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Create a ZIP archive from the given entries
+ */
+export function createZipArchive(entries: ZipEntry[], modifiedAt: Date = new Date()): Buffer {
+  const { time, date } = toDosDateTime(modifiedAt);
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const data = Buffer.from(entry.content);
+    const compressed = deflateRawSync(data);
+    const checksum = crc32(data);
+
+    const localHeader = Buffer.alloc(30);
+    localHeader.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    localHeader.writeUInt16LE(ZIP_VERSION, 4);
+    localHeader.writeUInt16LE(UTF8_FILE_NAMES, 6);
+    localHeader.writeUInt16LE(DEFLATE, 8);
+    localHeader.writeUInt16LE(time, 10);
+    localHeader.writeUInt16LE(date, 12);
+    localHeader.writeUInt32LE(checksum, 14);
+    localHeader.writeUInt32LE(compressed.length, 18);
+    localHeader.writeUInt32LE(data.length, 22);
+    localHeader.writeUInt16LE(name.length, 26);
+    localHeader.writeUInt16LE(0, 28);
+
+    const centralHeader = Buffer.alloc(46);
+    centralHeader.writeUInt32LE(CENTRAL_DIRECTORY_HEADER, 0);
+    centralHeader.writeUInt16LE(ZIP_VERSION, 4);
+    centralHeader.writeUInt16LE(ZIP_VERSION, 6);
+    centralHeader.writeUInt16LE(UTF8_FILE_NAMES, 8);
+    centralHeader.writeUInt16LE(DEFLATE, 10);
+    centralHeader.writeUInt16LE(time, 12);
+    centralHeader.writeUInt16LE(date, 14);
+    centralHeader.writeUInt32LE(checksum, 16);
+    centralHeader.writeUInt32LE(compressed.length, 20);
+    centralHeader.writeUInt32LE(data.length, 24);
+    centralHeader.writeUInt16LE(name.length, 28);
+    centralHeader.writeUInt32LE(offset, 42);
+
+    localParts.push(localHeader, name, compressed);
+    centralParts.push(centralHeader, name);
+    offset += localHeader.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
@@ -4,11 +4,14 @@
  */
 
 import type {
+  CheckoutDeliveryInfo,
   CheckoutFormData,
   CheckoutValidationErrors,
   CustomerInfo,
   DeliveryInfo,
 } from "@/types/order";
+import { checkFuneralDeliveryTiming, FUNERAL_TEXT_MAX_LENGTH } from "../delivery/funeral";
+import { toDateKey } from "../delivery/holidays";
 
 // Email validation regex
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -32,6 +35,7 @@ export const STEP_FIELDS = {
     "specialInstructions",
     "recipientName",
     "recipientPhone",
+    "funeral",
   ] as const,
   payment: ["paymentMethod"] as const,
   review: [] as const, // Review step validates all previous steps
@@ -165,6 +169,14 @@ export function validateDeliveryStep(data: CheckoutFormData): CheckoutValidation
     deliveryErrors.recipientPhone = "Neplatný formát telefonu příjemce";
   }
 
+  // Optional: Funeral service (validate only if the customer delivers to a ceremony)
+  if (deliveryInfo.funeral) {
+    const funeralError = validateFuneralDetails(deliveryInfo);
+    if (funeralError) {
+      deliveryErrors.funeral = funeralError;
+    }
+  }
+
   if (Object.keys(deliveryErrors).length > 0) {
     errors.deliveryInfo = deliveryErrors;
   }
@@ -172,6 +184,50 @@ export function validateDeliveryStep(data: CheckoutFormData): CheckoutValidation
   return errors;
 }
 
+/**
+ * Validate the funeral service details and that the chosen delivery arrives before the ceremony
+ * Returns the first problem found, the step shows one message for the whole section.
+ */
+function validateFuneralDetails(deliveryInfo: CheckoutDeliveryInfo): string | null {
+  const funeral = deliveryInfo.funeral || {};
+
+  if (!funeral.deceasedName?.trim()) {
+    return "Jméno zesnulého je povinné";
+  }
+
+  if (
+    [funeral.deceasedName, funeral.venueName, funeral.funeralHomeName].some(
+      (value) => value && value.length > FUNERAL_TEXT_MAX_LENGTH
+    )
+  ) {
+    return `Údaje o obřadu jsou příliš dlouhé (max. ${FUNERAL_TEXT_MAX_LENGTH} znaků)`;
+  }
+
+  if (!funeral.venueType) {
+    return "Vyberte místo konání obřadu";
+  }
+
+  if (funeral.funeralHomePhone && !PHONE_REGEX.test(funeral.funeralHomePhone.replace(/\s/g, ""))) {
+    return "Neplatný formát telefonu pohřební služby";
+  }
+
+  if (!funeral.ceremonyStart || Number.isNaN(funeral.ceremonyStart.getTime())) {
+    return "Zadejte datum a čas začátku obřadu";
+  }
+
+  const timing = checkFuneralDeliveryTiming(
+    funeral.ceremonyStart,
+    deliveryInfo.preferredDate
+      ? {
+          date: toDateKey(deliveryInfo.preferredDate),
+          ...(deliveryInfo.preferredTimeSlot && { timeSlot: deliveryInfo.preferredTimeSlot }),
+        }
+      : null
+  );
+
+  return timing.allowed ? null : timing.reason || "Doručení nestihne začátek obřadu";
+}
+
 /**
  * Validate payment method step (Step 3)
  * Only validates payment method selection
@@ -169,9 +169,9 @@ export async function middleware(request: NextRequest) {
     // Check admin role for admin routes
     try {
       const { userUtils } = await import("@/lib/supabase/utils");
-      const isAdmin = await userUtils.isAdmin(session.user?.id || "");
+      const isStaff = await userUtils.isStaff(session.user?.id || "");
 
-      if (!isAdmin) {
+      if (!isStaff) {
         console.warn(`Unauthorized admin access attempt by user: ${session.user?.id}`);
         return NextResponse.redirect(new URL(`/${locale}`, request.url));
       }
@@ -10,6 +10,7 @@ export interface CartItem extends BaseEntity {
   userId?: string;
   sessionId?: string;
   productId: string;
+  variantId?: string; // Product variant of the selected size
   quantity: number;
   customizations: Customization[];
 
@@ -51,6 +52,7 @@ export interface OptimisticUpdate {
 // API request types
 export interface AddToCartRequest {
   productId: string;
+  variantId?: string;
   quantity: number;
   customizations: Customization[];
 }
@@ -77,6 +79,7 @@ export interface CartItemRow {
   user_id: string | null;
   session_id: string | null;
   product_id: string;
+  variant_id: string | null;
   quantity: number;
   customizations: any; // JSONB
   unit_price: number;
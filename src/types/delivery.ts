@@ -15,6 +15,7 @@ export interface DeliveryAvailability {
   timeSlots: DeliveryTimeSlot[];
   maxOrders?: number;
   currentOrders?: number;
+  fullTimeSlots?: DeliveryTimeSlot[]; // Offered slots that are fully booked
   isHoliday?: boolean;
   isWeekend?: boolean;
   reason?: string; // Why unavailable
@@ -67,11 +68,15 @@ export interface DeliveryEstimateRequest {
   address: Address;
   items?: { productId: string; quantity: number }[];
   urgency?: DeliveryUrgency;
+  timeSlot?: DeliveryTimeSlot;
   preferredDate?: string; // ISO date string
+  venueId?: string; // Venue picked from the directory, its restrictions apply
 }
 
 export interface DeliveryEstimateResponse {
   success: boolean;
+  deliverable?: boolean; // false when no delivery zone covers the postal code
+  zone?: DeliveryZoneSummary | null;
   estimate?: DeliveryCostCalculation;
   availableOptions?: DeliveryOption[];
   error?: string;
@@ -85,6 +90,8 @@ export interface DeliveryCalendarRequest {
 
 export interface DeliveryCalendarResponse {
   success: boolean;
+  deliverable?: boolean;
+  zone?: DeliveryZoneSummary | null;
   calendar?: DeliveryCalendarData;
   error?: string;
 }
@@ -96,16 +103,88 @@ export interface Holiday {
   type: "public" | "religious" | "custom";
 }
 
+// Maximum orders for a day or time slot; rules without a date apply to every day
+export interface DeliveryCapacityRule {
+  id: string;
+  date?: string; // YYYY-MM-DD
+  timeSlot?: DeliveryTimeSlot; // Omitted for a whole-day limit
+  maxOrders: number;
+}
+
+// Delivery date and time slot picked at checkout
+export interface DeliverySlotSelection {
+  date: string; // YYYY-MM-DD
+  timeSlot: DeliveryTimeSlot;
+}
+
+// Place where a funeral service is held
+export type FuneralVenueType = "ceremony_hall" | "church" | "cemetery" | "crematorium" | "other";
+
+// Funeral service a delivery is made for; the venue address is the delivery address
+export interface FuneralDetails {
+  deceasedName: string;
+  venueType: FuneralVenueType;
+  venueName?: string;
+  ceremonyStart: Date;
+  funeralHomeName?: string;
+  funeralHomePhone?: string;
+}
+
+// Hours a venue accepts deliveries on one weekday
+export interface VenueOpeningHours {
+  day: number; // 0-6, Sunday = 0
+  open: string; // HH:mm
+  close: string; // HH:mm
+}
+
+// Funeral home, crematorium or ceremony hall offered as a delivery address
+export interface Venue {
+  id: string;
+  name: string;
+  venueType: FuneralVenueType;
+  address: Address;
+  openingHours: VenueOpeningHours[]; // Days without an entry are closed, empty when unknown
+  deliveryNotes?: string;
+  zoneId?: string; // Overrides the zone covering the postal code
+  allowedTimeSlots?: DeliveryTimeSlot[]; // Omitted when every slot is accepted
+  allowedUrgencies?: DeliveryUrgency[]; // Omitted when every urgency is accepted
+  active: boolean;
+}
+
+// Venue details exposed by the public venue search
+export type VenueSummary = Omit<Venue, "zoneId" | "active">;
+
+// Admin-defined days without delivery (blackout dates)
+export interface DeliveryClosure {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD, inclusive
+}
+
+// Inclusive range of Czech postal codes (5 digits, no spaces)
+export interface PostalCodeRange {
+  from: string;
+  to: string;
+}
+
 // Delivery zone configuration
 export interface DeliveryZone {
   id: string;
+  slug: string;
   name: string;
-  postalCodes: string[];
-  baseCost: number;
-  maxDistance: number;
+  description?: string;
+  postalCodeRanges: PostalCodeRange[];
+  baseCost: number; // Standard delivery cost, urgency surcharges are added on top
+  maxDistance?: number; // in kilometers
   supportedUrgencies: DeliveryUrgency[];
+  priority: number; // Higher wins when ranges overlap
+  active: boolean;
 }
 
+// Zone details exposed by the public delivery API
+export type DeliveryZoneSummary = Pick<DeliveryZone, "id" | "slug" | "name" | "supportedUrgencies">;
+
 // Redis cache keys and data structures
 export interface DeliveryCacheData {
   availability: Record<string, DeliveryAvailability>; // date string -> availability
@@ -125,4 +204,5 @@ export interface DeliverySettings {
   workingDays: number[]; // 0-6, Sunday = 0
   maxAdvanceBookingDays: number;
   defaultTimeSlot: DeliveryTimeSlot;
+  closures?: Holiday[]; // Closed days on top of public holidays, one entry per day
 }
@@ -3,7 +3,7 @@
  */
 
 import type { CartItem } from "./cart";
-import type { DeliveryTimeSlot, DeliveryUrgency } from "./delivery";
+import type { DeliveryTimeSlot, DeliveryUrgency, FuneralDetails } from "./delivery";
 import type { Address, BaseEntity, ContactInfo } from "./index";
 
 // Order status types
@@ -42,8 +42,15 @@ export interface DeliveryInfo {
   specialInstructions?: string;
   recipientName?: string;
   recipientPhone?: string;
+  funeral?: FuneralDetails;
+  venueId?: string; // Venue picked from the directory, the address is the venue's
 }
 
+// Delivery info while the checkout form is being filled in
+export type CheckoutDeliveryInfo = Partial<Omit<DeliveryInfo, "funeral">> & {
+  funeral?: Partial<FuneralDetails>;
+};
+
 // Payment information
 export interface PaymentInfo {
   method: PaymentMethod;
@@ -53,6 +60,41 @@ export interface PaymentInfo {
   status: PaymentStatus;
   processedAt: Date | undefined;
   failureReason: string | undefined;
+  refundedAmount?: number;
+  refunds?: RefundRecord[];
+  dispute?: PaymentDispute;
+}
+
+export type RefundStatus = "pending" | "requires_action" | "succeeded" | "failed" | "canceled";
+
+// Order item quantity covered by a partial refund
+export interface RefundLineItem {
+  orderItemId: string;
+  quantity: number;
+  amount: number;
+}
+
+// Refund stored in payment_info.refunds (keyed by the Stripe refund ID)
+export interface RefundRecord {
+  id: string;
+  amount: number;
+  currency: string;
+  status: RefundStatus;
+  reason?: string;
+  items?: RefundLineItem[];
+  source: "admin" | "stripe";
+  createdBy?: string;
+  createdAt: string;
+}
+
+// Chargeback opened by the customer's bank
+export interface PaymentDispute {
+  id: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  status: string;
+  createdAt: string;
 }
 
 // Order item (similar to cart item but for completed orders)
@@ -80,6 +122,8 @@ export interface Order extends BaseEntity {
   subtotal: number;
   deliveryCost: number;
   totalAmount: number;
+  discountCode?: string;
+  discountAmount?: number;
 
   // Customer and delivery info
   customerInfo: CustomerInfo;
@@ -92,6 +136,7 @@ export interface Order extends BaseEntity {
   status: OrderStatus;
   notes?: string;
   internalNotes?: string;
+  deliveryPhotoUrl?: string; // Proof of delivery, shown in the delivered notification
 
   // Timestamps
   confirmedAt?: Date;
@@ -103,7 +148,7 @@ export interface Order extends BaseEntity {
 // Checkout form data structure
 export interface CheckoutFormData {
   customerInfo: Partial<CustomerInfo>;
-  deliveryInfo: Partial<DeliveryInfo>;
+  deliveryInfo: CheckoutDeliveryInfo;
   paymentMethod?: PaymentMethod;
   agreeToTerms: boolean;
   subscribeNewsletter: boolean;
@@ -130,6 +175,7 @@ export interface CreateOrderRequest {
   deliveryInfo: DeliveryInfo;
   paymentMethod: PaymentMethod;
   agreeToTerms: boolean;
+  discountCode?: string;
 }
 
 export interface CreateOrderResponse {
@@ -137,6 +183,22 @@ export interface CreateOrderResponse {
   order?: Order;
   paymentUrl?: string;
   error?: string;
+  errorCode?: string;
+  priceChanges?: OrderPriceChange[];
+}
+
+/**
+ * Order line whose submitted price no longer matches the current product price
+ */
+export interface OrderPriceChange {
+  cartItemId: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  submittedUnitPrice: number;
+  currentUnitPrice: number;
+  unitPriceDifference: number;
+  totalPriceDifference: number;
 }
 
 export interface OrderSummary {
@@ -166,6 +228,8 @@ export interface OrderRow {
   subtotal: number;
   delivery_cost: number;
   total_amount: number;
+  discount_code: string | null;
+  discount_amount: number;
   customer_info: any; // JSONB
   delivery_info: any; // JSONB
   payment_info: any; // JSONB
@@ -21,6 +21,8 @@ export interface CustomizationChoice {
   label: LocalizedContent | string;
   priceModifier: number;
   available?: boolean;
+  /** Set when the stock sync turned the choice off; only such choices are turned back on */
+  disabledByStock?: boolean;
   imageUrl?: string;
   allowCustomInput?: boolean;
   maxLength?: number;
@@ -66,6 +68,8 @@ export interface DeliveryMethodOption extends CustomizationOption {
 export interface ProductAvailability {
   inStock: boolean;
   stockQuantity?: number;
+  trackInventory?: boolean; // Pre-made stock that checkouts reserve and purchases decrement
+  lowStockThreshold?: number; // Stock at or below this raises a low stock alert
   estimatedRestockDate?: Date;
   maxOrderQuantity?: number;
   leadTimeHours?: number;
@@ -122,6 +126,21 @@ export interface Product extends BaseEntity {
   description?: LocalizedContent;
   category?: Category;
   finalPrice?: number; // Price after customizations
+  searchSnippet?: SearchHighlightSegment[]; // Matching description fragment in search results
+}
+
+// Part of a search result text; highlighted parts matched the search term
+export interface SearchHighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+// Typeahead suggestion for a partially typed search
+export interface ProductSuggestion {
+  id: string;
+  slug: string;
+  name: string;
+  highlight: SearchHighlightSegment[];
 }
 
 // Product customization selection
@@ -132,6 +151,23 @@ export interface Customization {
   priceModifier?: number; // Price adjustment for this customization
 }
 
+// Purchasable size of a product (product_variants)
+// The size choice stays the selection record, the variant owns price, stock and images
+export interface ProductVariant {
+  id: string;
+  productId: string;
+  sizeChoiceId: string;
+  sku?: string;
+  sizeLabel?: LocalizedContent;
+  price: number;
+  stockQuantity: number | null; // null = made to order
+  images: ProductImage[];
+  stripePriceId?: string;
+  isDefault: boolean;
+  active: boolean;
+  sortOrder: number;
+}
+
 // Product with applied customizations
 export interface CustomizedProduct extends Product {
   customizations: Customization[];
@@ -149,10 +185,35 @@ export interface ProductFilters {
   featured?: boolean;
   search?: string;
   tags?: string[];
+  // Slugs of size and flower type choice labels; any of the values matches
+  sizes?: string[];
+  flowers?: string[];
+}
+
+// Value of a listing facet with the number of products it would show
+export interface ProductFacetValue {
+  value: string;
+  label: LocalizedContent;
+  count: number;
+}
+
+// Price bucket facet; bounds are inclusive like minPrice / maxPrice
+export interface ProductPriceFacet {
+  value: string;
+  min?: number;
+  max?: number;
+  count: number;
+}
+
+export interface ProductFacets {
+  categories: ProductFacetValue[];
+  prices: ProductPriceFacet[];
+  sizes: ProductFacetValue[];
+  flowers: ProductFacetValue[];
 }
 
 export interface ProductSortOptions {
-  field: "name" | "price" | "created_at" | "featured" | "popularity";
+  field: "name" | "price" | "created_at" | "featured" | "popularity" | "relevance";
   direction: "asc" | "desc";
 }
 
@@ -222,6 +283,24 @@ export interface ProductRow {
   updated_at: string | null;
 }
 
+export interface ProductVariantRow {
+  id: string;
+  product_id: string;
+  size_choice_id: string;
+  sku: string | null;
+  size_label_cs: string | null;
+  size_label_en: string | null;
+  price: number;
+  stock_quantity: number | null;
+  images: unknown; // JSONB
+  stripe_price_id: string | null;
+  is_default: boolean;
+  active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface CategoryRow {
   id: string;
   name_cs: string;
@@ -0,0 +1,84 @@
+-- Create order_status_history table for the order lifecycle
+-- Every accepted status transition is recorded here so customer tracking and
+-- admin views read real history instead of reconstructing it from timestamps.
+-- Made fully idempotent to prevent errors on re-run
+
+-- Per-status timestamps written by the lifecycle side effects
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMPTZ;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS shipped_at TIMESTAMPTZ;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+
+  -- Transition (from_status is NULL for the initial entry)
+  from_status TEXT CHECK (from_status IN ('pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled')),
+  to_status TEXT NOT NULL CHECK (to_status IN ('pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled')),
+
+  -- Who or what caused the change
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'system' CHECK (source IN ('admin', 'customer', 'payment', 'system')),
+  note TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_order_status_history_to_status ON order_status_history(to_status);
+
+-- Backfill an initial entry for existing orders so their timeline is not empty
+INSERT INTO order_status_history (order_id, from_status, to_status, source, note, created_at)
+SELECT o.id, NULL, COALESCE(o.status, 'pending'), 'system', 'Imported from existing order', COALESCE(o.updated_at, o.created_at, NOW())
+FROM orders o
+WHERE NOT EXISTS (
+  SELECT 1 FROM order_status_history h WHERE h.order_id = o.id
+);
+
+-- Add RLS policies
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Users can view own order status history" ON order_status_history;
+DROP POLICY IF EXISTS "Admin users can view order status history" ON order_status_history;
+DROP POLICY IF EXISTS "Service role can insert order status history" ON order_status_history;
+
+-- Customers can read the history of their own orders
+CREATE POLICY "Users can view own order status history"
+  ON order_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_history.order_id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Admin users can view all history
+CREATE POLICY "Admin users can view order status history"
+  ON order_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+-- History is append-only and written by the server (service role)
+CREATE POLICY "Service role can insert order status history"
+  ON order_status_history
+  FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE order_status_history IS 'Append-only log of order status transitions enforced by the order lifecycle';
+COMMENT ON COLUMN order_status_history.source IS 'Origin of the change: admin, customer, payment (Stripe webhook/checkout) or system';
@@ -0,0 +1,121 @@
+-- Create product_price_variants table for per-size Stripe pricing
+-- Replaces the hardcoded SIZE_PRICE_MAPPINGS keyed by Czech product name.
+-- Each row maps a product + size choice id (e.g. size_150) to a price and Stripe price ID.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS product_price_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+
+  -- Choice id of the product's "size" customization option (e.g. size_120)
+  size_choice_id TEXT NOT NULL,
+
+  -- Final price for this size in CZK and the matching Stripe price
+  price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+  stripe_price_id TEXT,
+
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT product_price_variants_product_size_unique UNIQUE (product_id, size_choice_id)
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_product_price_variants_product_id ON product_price_variants(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_price_variants_stripe_price_id ON product_price_variants(stripe_price_id) WHERE stripe_price_id IS NOT NULL;
+
+-- Only one default variant per product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_price_variants_default
+  ON product_price_variants(product_id) WHERE is_default;
+
+DROP TRIGGER IF EXISTS update_product_price_variants_updated_at ON product_price_variants;
+CREATE TRIGGER update_product_price_variants_updated_at
+  BEFORE UPDATE ON product_price_variants
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Migrate the previously hardcoded size prices
+INSERT INTO product_price_variants (product_id, size_choice_id, price, stripe_price_id, is_default)
+SELECT p.id, v.size_choice_id, p.base_price + v.price_modifier, v.stripe_price_id, v.size_choice_id = 'size_120'
+FROM products p
+JOIN (
+  VALUES
+    ('Plné srdce', 'size_120', 0, 'price_1SG7yUK7X9a6rKGI5qDGMWbh'),
+    ('Plné srdce', 'size_150', 1000, 'price_1SG7yxK7X9a6rKGIZIwpsJQD'),
+    ('Plné srdce', 'size_180', 2000, 'price_1SG7zIK7X9a6rKGIgz3jZth1'),
+    ('Kulatý věnec', 'size_120', 0, 'price_1SG7viK7X9a6rKGIqhLP1Byz'),
+    ('Kulatý věnec', 'size_150', 500, 'price_1SG7viK7X9a6rKGI9D5n7WcY'),
+    ('Kulatý věnec', 'size_180', 1000, 'price_1SG7viK7X9a6rKGILiN2x5Tx')
+) AS v(product_name, size_choice_id, price_modifier, stripe_price_id)
+  ON p.name_cs = v.product_name
+ON CONFLICT (product_id, size_choice_id) DO NOTHING;
+
+-- Resolve Stripe price IDs from the variants table instead of product names
+CREATE OR REPLACE FUNCTION get_stripe_price_id_for_product(
+  p_product_id UUID,
+  p_size TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_stripe_price_id TEXT;
+BEGIN
+  -- Exact size match (accepts both "size_150" and legacy "150")
+  IF p_size IS NOT NULL THEN
+    SELECT stripe_price_id INTO v_stripe_price_id
+    FROM product_price_variants
+    WHERE product_id = p_product_id
+      AND active
+      AND size_choice_id IN (p_size, 'size_' || p_size)
+    LIMIT 1;
+  END IF;
+
+  -- Default variant
+  IF v_stripe_price_id IS NULL THEN
+    SELECT stripe_price_id INTO v_stripe_price_id
+    FROM product_price_variants
+    WHERE product_id = p_product_id AND active AND is_default
+    LIMIT 1;
+  END IF;
+
+  -- Products without size variants use the product price
+  IF v_stripe_price_id IS NULL THEN
+    SELECT stripe_price_id INTO v_stripe_price_id
+    FROM products
+    WHERE id = p_product_id;
+  END IF;
+
+  RETURN v_stripe_price_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add RLS policies
+ALTER TABLE product_price_variants ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Public can view active price variants" ON product_price_variants;
+DROP POLICY IF EXISTS "Admin users can manage price variants" ON product_price_variants;
+
+-- Prices are public information
+CREATE POLICY "Public can view active price variants"
+  ON product_price_variants
+  FOR SELECT
+  USING (active = true);
+
+-- Admin users manage variants from the product form
+CREATE POLICY "Admin users can manage price variants"
+  ON product_price_variants
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+-- Add comments
+COMMENT ON TABLE product_price_variants IS 'Per-size prices and Stripe price IDs for products with a size customization';
+COMMENT ON COLUMN product_price_variants.size_choice_id IS 'Choice id from the product size customization option (e.g. size_150)';
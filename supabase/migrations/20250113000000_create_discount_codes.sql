@@ -0,0 +1,175 @@
+-- Create discount_codes table for promo codes and campaigns
+-- Codes are validated against the cart, carried into the Stripe checkout session
+-- and redeemed when the order is created.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS discount_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Codes are stored upper-case and matched case-insensitively
+  code TEXT NOT NULL UNIQUE CHECK (code = UPPER(code)),
+  description TEXT,
+  campaign TEXT,
+
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+  value DECIMAL(10, 2) NOT NULL CHECK (value > 0),
+
+  -- Validity window (NULL = unbounded)
+  valid_from TIMESTAMPTZ,
+  valid_until TIMESTAMPTZ,
+
+  -- Usage limits (NULL = unlimited)
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  max_uses_per_customer INTEGER CHECK (max_uses_per_customer IS NULL OR max_uses_per_customer > 0),
+  uses_count INTEGER NOT NULL DEFAULT 0,
+
+  -- Minimum cart subtotal in CZK
+  min_subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+
+  -- Scoping (empty = whole cart)
+  product_ids UUID[] NOT NULL DEFAULT '{}',
+  category_ids UUID[] NOT NULL DEFAULT '{}',
+
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT discount_codes_percentage_range CHECK (discount_type <> 'percentage' OR value <= 100),
+  CONSTRAINT discount_codes_valid_window CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
+);
+
+CREATE TABLE IF NOT EXISTS discount_code_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  discount_code_id UUID NOT NULL REFERENCES discount_codes(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  customer_email TEXT,
+  discount_amount DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT discount_code_redemptions_order_unique UNIQUE (discount_code_id, order_id)
+);
+
+-- Store the applied discount on the order
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_code TEXT;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_discount_codes_active ON discount_codes(active) WHERE active = true;
+CREATE INDEX IF NOT EXISTS idx_discount_codes_campaign ON discount_codes(campaign) WHERE campaign IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_discount_code_redemptions_code ON discount_code_redemptions(discount_code_id);
+CREATE INDEX IF NOT EXISTS idx_discount_code_redemptions_email ON discount_code_redemptions(discount_code_id, LOWER(customer_email));
+CREATE INDEX IF NOT EXISTS idx_orders_discount_code ON orders(discount_code) WHERE discount_code IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_discount_codes_updated_at ON discount_codes;
+CREATE TRIGGER update_discount_codes_updated_at
+  BEFORE UPDATE ON discount_codes
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Atomically record a redemption while enforcing usage limits
+CREATE OR REPLACE FUNCTION redeem_discount_code(
+  p_discount_code_id UUID,
+  p_order_id UUID,
+  p_customer_email TEXT,
+  p_discount_amount DECIMAL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_code discount_codes%ROWTYPE;
+  v_customer_uses INTEGER;
+BEGIN
+  SELECT * INTO v_code FROM discount_codes WHERE id = p_discount_code_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- Already redeemed for this order (webhook retries)
+  IF EXISTS (
+    SELECT 1 FROM discount_code_redemptions
+    WHERE discount_code_id = p_discount_code_id AND order_id = p_order_id
+  ) THEN
+    RETURN true;
+  END IF;
+
+  IF v_code.max_uses IS NOT NULL AND v_code.uses_count >= v_code.max_uses THEN
+    RETURN false;
+  END IF;
+
+  IF v_code.max_uses_per_customer IS NOT NULL AND p_customer_email IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_customer_uses
+    FROM discount_code_redemptions
+    WHERE discount_code_id = p_discount_code_id
+      AND LOWER(customer_email) = LOWER(p_customer_email);
+
+    IF v_customer_uses >= v_code.max_uses_per_customer THEN
+      RETURN false;
+    END IF;
+  END IF;
+
+  INSERT INTO discount_code_redemptions (discount_code_id, order_id, customer_email, discount_amount)
+  VALUES (p_discount_code_id, p_order_id, p_customer_email, p_discount_amount);
+
+  UPDATE discount_codes SET uses_count = uses_count + 1 WHERE id = p_discount_code_id;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Functions are executable by PUBLIC by default; only the service role redeems codes
+-- (order API and payment webhook), so anonymous callers cannot use up redemptions
+REVOKE EXECUTE ON FUNCTION redeem_discount_code(UUID, UUID, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS policies
+ALTER TABLE discount_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE discount_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Admin users can manage discount codes" ON discount_codes;
+DROP POLICY IF EXISTS "Service role can manage discount codes" ON discount_codes;
+DROP POLICY IF EXISTS "Admin users can view redemptions" ON discount_code_redemptions;
+DROP POLICY IF EXISTS "Service role can manage redemptions" ON discount_code_redemptions;
+
+-- Codes are never listed publicly; validation goes through the API
+CREATE POLICY "Admin users can manage discount codes"
+  ON discount_codes
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage discount codes"
+  ON discount_codes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Admin users can view redemptions"
+  ON discount_code_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage redemptions"
+  ON discount_code_redemptions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE discount_codes IS 'Promo codes with validity window, usage limits, minimum subtotal and product/category scoping';
+COMMENT ON TABLE discount_code_redemptions IS 'One row per order that used a discount code';
+COMMENT ON COLUMN orders.discount_amount IS 'Discount deducted from the order subtotal in CZK';
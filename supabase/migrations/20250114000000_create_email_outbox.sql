@@ -0,0 +1,97 @@
+-- Create email_outbox table for durable order emails
+-- Emails are queued in the same flow as the order change and delivered with retries,
+-- so a failing email provider never loses a confirmation.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+
+  email_type TEXT NOT NULL CHECK (email_type IN ('order_confirmation', 'order_status_update')),
+  order_status TEXT NOT NULL,
+  locale TEXT NOT NULL DEFAULT 'cs' CHECK (locale IN ('cs', 'en')),
+
+  -- One email per order and status (webhook retries and repeated transitions are no-ops)
+  idempotency_key TEXT NOT NULL UNIQUE,
+
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  transport TEXT,
+  sent_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due ON email_outbox(next_attempt_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_email_outbox_order_id ON email_outbox(order_id);
+
+DROP TRIGGER IF EXISTS update_email_outbox_updated_at ON email_outbox;
+CREATE TRIGGER update_email_outbox_updated_at
+  BEFORE UPDATE ON email_outbox
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Claim due emails for delivery
+-- Rows stuck in 'sending' (crashed worker) are reclaimed after p_lock_timeout_minutes.
+CREATE OR REPLACE FUNCTION claim_email_outbox(
+  p_limit INTEGER DEFAULT 20,
+  p_lock_timeout_minutes INTEGER DEFAULT 10
+)
+RETURNS SETOF email_outbox AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE email_outbox
+  SET status = 'sending',
+      locked_at = NOW(),
+      attempts = email_outbox.attempts + 1
+  WHERE id IN (
+    SELECT id FROM email_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND locked_at < NOW() - make_interval(mins => p_lock_timeout_minutes))
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the service role runs the outbox (order email worker); claimed rows expose the
+-- recipient and would stall delivery, so anonymous callers cannot claim them
+REVOKE EXECUTE ON FUNCTION claim_email_outbox(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS policies
+ALTER TABLE email_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Admin users can view email outbox" ON email_outbox;
+DROP POLICY IF EXISTS "Service role can manage email outbox" ON email_outbox;
+
+CREATE POLICY "Admin users can view email outbox"
+  ON email_outbox
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage email outbox"
+  ON email_outbox
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE email_outbox IS 'Queued order emails delivered with retries; one row per order and status';
+COMMENT ON COLUMN email_outbox.idempotency_key IS 'order_id:order_status - prevents duplicate emails for the same transition';
+COMMENT ON FUNCTION claim_email_outbox IS 'Lock due outbox rows for delivery and bump their attempt counter';
@@ -0,0 +1,19 @@
+-- Publish cart_items changes over Supabase Realtime
+-- Backs the cart sync stream (/api/cart/events) so tabs and devices sharing a cart converge.
+-- Made fully idempotent to prevent errors on re-run
+
+-- DELETE events must carry user_id/session_id so the stream can route them to the right cart
+ALTER TABLE cart_items REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+     AND NOT EXISTS (
+       SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime'
+       AND schemaname = 'public'
+       AND tablename = 'cart_items'
+     ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE cart_items;
+  END IF;
+END $$;
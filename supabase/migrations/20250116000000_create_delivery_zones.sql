@@ -0,0 +1,84 @@
+-- Create delivery_zones table for postal-code based delivery areas
+-- Each zone covers one or more Czech postal code (PSČ) ranges and sets its own base cost
+-- and supported urgencies. Postal codes outside every active zone are not delivered to.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS delivery_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+
+  -- Inclusive ranges of 5-digit postal codes without spaces: [{"from": "10000", "to": "19999"}]
+  postal_code_ranges JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(postal_code_ranges) = 'array'),
+
+  -- Base cost in CZK for standard delivery; faster urgencies add their surcharge on top
+  base_cost DECIMAL(10, 2) NOT NULL CHECK (base_cost >= 0),
+  max_distance_km INTEGER CHECK (max_distance_km IS NULL OR max_distance_km > 0),
+  supported_urgencies TEXT[] NOT NULL DEFAULT '{standard}' CHECK (
+    cardinality(supported_urgencies) > 0
+    AND supported_urgencies <@ ARRAY['standard', 'express', 'same-day']::TEXT[]
+  ),
+
+  -- Higher priority wins when ranges of two zones overlap
+  priority INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_delivery_zones_active ON delivery_zones(priority DESC) WHERE active = true;
+
+DROP TRIGGER IF EXISTS update_delivery_zones_updated_at ON delivery_zones;
+CREATE TRIGGER update_delivery_zones_updated_at
+  BEFORE UPDATE ON delivery_zones
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the zones previously hard-coded in the delivery calculator
+-- "other" keeps the calculator's fallback for the rest of Bohemia and Moravia at the lowest
+-- priority, so the Prague and Central Bohemia ranges win where they overlap
+INSERT INTO delivery_zones (slug, name, postal_code_ranges, base_cost, max_distance_km, supported_urgencies, priority)
+VALUES
+  ('prague', 'Praha', '[{"from": "10000", "to": "19999"}]', 150, 25, '{standard,express,same-day}', 10),
+  ('central-bohemia', 'Střední Čechy', '[{"from": "25000", "to": "29999"}]', 200, 50, '{standard,express}', 0),
+  ('other', 'Ostatní oblasti', '[{"from": "10000", "to": "79999"}]', 300, 100, '{standard}', -10)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Add RLS policies
+ALTER TABLE delivery_zones ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Anyone can view active delivery zones" ON delivery_zones;
+DROP POLICY IF EXISTS "Admin users can manage delivery zones" ON delivery_zones;
+DROP POLICY IF EXISTS "Service role can manage delivery zones" ON delivery_zones;
+
+CREATE POLICY "Anyone can view active delivery zones"
+  ON delivery_zones
+  FOR SELECT
+  TO anon, authenticated
+  USING (active = true);
+
+CREATE POLICY "Admin users can manage delivery zones"
+  ON delivery_zones
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage delivery zones"
+  ON delivery_zones
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE delivery_zones IS 'Delivery areas defined by Czech postal code ranges with per-zone pricing';
+COMMENT ON COLUMN delivery_zones.postal_code_ranges IS 'Inclusive 5-digit PSČ ranges, e.g. [{"from": "10000", "to": "19999"}]';
+COMMENT ON COLUMN delivery_zones.base_cost IS 'Standard delivery cost in CZK; express and same-day add the urgency surcharge';
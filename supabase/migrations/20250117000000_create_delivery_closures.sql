@@ -0,0 +1,62 @@
+-- Create delivery_closures table for admin-defined closures (blackout dates)
+-- Public holidays are computed in code for any year; this table only holds extra days
+-- when the shop does not deliver (company holiday, stocktaking, ...).
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS delivery_closures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+
+  -- Inclusive date range; a single-day closure has start_date = end_date
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT delivery_closures_date_range CHECK (end_date >= start_date)
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_delivery_closures_end_date ON delivery_closures(end_date);
+
+DROP TRIGGER IF EXISTS update_delivery_closures_updated_at ON delivery_closures;
+CREATE TRIGGER update_delivery_closures_updated_at
+  BEFORE UPDATE ON delivery_closures
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add RLS policies
+ALTER TABLE delivery_closures ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Anyone can view delivery closures" ON delivery_closures;
+DROP POLICY IF EXISTS "Admin users can manage delivery closures" ON delivery_closures;
+DROP POLICY IF EXISTS "Service role can manage delivery closures" ON delivery_closures;
+
+CREATE POLICY "Anyone can view delivery closures"
+  ON delivery_closures
+  FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+CREATE POLICY "Admin users can manage delivery closures"
+  ON delivery_closures
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage delivery closures"
+  ON delivery_closures
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE delivery_closures IS 'Admin-defined days without delivery, on top of the computed Czech public holidays';
+COMMENT ON COLUMN delivery_closures.end_date IS 'Last closed day (inclusive)';
@@ -0,0 +1,154 @@
+-- Create delivery capacity rules and slot reservations
+-- delivery_capacity limits how many orders can be delivered per day and per time slot.
+-- delivery_slot_reservations holds a slot while the customer pays and keeps it once the
+-- order is placed, so a busy day cannot be oversold.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS delivery_capacity (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- NULL date = default for every day, NULL time slot = limit for the whole day
+  delivery_date DATE,
+  time_slot TEXT CHECK (
+    time_slot IS NULL OR time_slot IN ('morning', 'afternoon', 'evening', 'anytime')
+  ),
+  max_orders INTEGER NOT NULL CHECK (max_orders >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One rule per date/slot combination (NULLs included)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_delivery_capacity_rule
+  ON delivery_capacity (COALESCE(delivery_date, '-infinity'::DATE), COALESCE(time_slot, ''));
+
+DROP TRIGGER IF EXISTS update_delivery_capacity_updated_at ON delivery_capacity;
+CREATE TRIGGER update_delivery_capacity_updated_at
+  BEFORE UPDATE ON delivery_capacity
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS delivery_slot_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  checkout_session_id TEXT NOT NULL UNIQUE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  delivery_date DATE NOT NULL,
+  time_slot TEXT NOT NULL CHECK (time_slot IN ('morning', 'afternoon', 'evening', 'anytime')),
+
+  -- held: checkout in progress, confirmed: order placed, released: checkout cancelled or expired
+  status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'confirmed', 'released')),
+
+  -- Held reservations stop counting once they expire
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_delivery_slot_reservations_date
+  ON delivery_slot_reservations(delivery_date) WHERE status <> 'released';
+
+DROP TRIGGER IF EXISTS update_delivery_slot_reservations_updated_at ON delivery_slot_reservations;
+CREATE TRIGGER update_delivery_slot_reservations_updated_at
+  BEFORE UPDATE ON delivery_slot_reservations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Hold a slot for a checkout session if the day and slot still have room
+-- Re-running it for the same session moves the hold (e.g. the customer picked another slot).
+CREATE OR REPLACE FUNCTION reserve_delivery_slot(
+  p_checkout_session_id TEXT,
+  p_delivery_date DATE,
+  p_time_slot TEXT,
+  p_day_limit INTEGER,
+  p_slot_limit INTEGER,
+  p_expires_at TIMESTAMPTZ
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_day_count INTEGER;
+  v_slot_count INTEGER;
+BEGIN
+  -- Serialize reservations for one date so two checkouts cannot take the last place
+  PERFORM pg_advisory_xact_lock(hashtext('delivery_slot:' || p_delivery_date::TEXT));
+
+  SELECT COUNT(*), COUNT(*) FILTER (WHERE time_slot = p_time_slot)
+  INTO v_day_count, v_slot_count
+  FROM delivery_slot_reservations
+  WHERE delivery_date = p_delivery_date
+    AND checkout_session_id <> p_checkout_session_id
+    AND (status = 'confirmed' OR (status = 'held' AND expires_at > NOW()));
+
+  IF (p_day_limit IS NOT NULL AND v_day_count >= p_day_limit)
+     OR (p_slot_limit IS NOT NULL AND v_slot_count >= p_slot_limit) THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO delivery_slot_reservations (
+    checkout_session_id, delivery_date, time_slot, status, expires_at
+  )
+  VALUES (p_checkout_session_id, p_delivery_date, p_time_slot, 'held', p_expires_at)
+  ON CONFLICT (checkout_session_id) DO UPDATE
+  SET delivery_date = EXCLUDED.delivery_date,
+      time_slot = EXCLUDED.time_slot,
+      status = 'held',
+      expires_at = EXCLUDED.expires_at
+  WHERE delivery_slot_reservations.status <> 'confirmed';
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role holds slots (checkout session creation), so anonymous callers
+-- cannot block delivery capacity
+REVOKE EXECUTE ON FUNCTION reserve_delivery_slot(TEXT, DATE, TEXT, INTEGER, INTEGER, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS policies
+ALTER TABLE delivery_capacity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE delivery_slot_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Admin users can manage delivery capacity" ON delivery_capacity;
+DROP POLICY IF EXISTS "Service role can manage delivery capacity" ON delivery_capacity;
+DROP POLICY IF EXISTS "Admin users can view delivery slot reservations" ON delivery_slot_reservations;
+DROP POLICY IF EXISTS "Service role can manage delivery slot reservations" ON delivery_slot_reservations;
+
+CREATE POLICY "Admin users can manage delivery capacity"
+  ON delivery_capacity
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage delivery capacity"
+  ON delivery_capacity
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Admin users can view delivery slot reservations"
+  ON delivery_slot_reservations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage delivery slot reservations"
+  ON delivery_slot_reservations
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE delivery_capacity IS 'Maximum orders per delivery day and time slot; dates without a rule are unlimited';
+COMMENT ON TABLE delivery_slot_reservations IS 'Delivery slots held by checkout sessions and kept by placed orders';
+COMMENT ON FUNCTION reserve_delivery_slot IS 'Atomically hold a delivery slot for a checkout session when capacity allows';
@@ -0,0 +1,33 @@
+-- Add the florist staff role and protect role assignment
+-- Florists get limited admin access (orders and stock); the permissions of each role are
+-- defined in src/lib/auth/permissions.ts. Roles are assigned from the admin by super admins.
+-- Made fully idempotent to prevent errors on re-run
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles
+  ADD CONSTRAINT user_profiles_role_check
+  CHECK (role IN ('customer', 'florist', 'admin', 'super_admin'));
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_role ON user_profiles(role);
+
+-- "Users can update own profile" covers every column, so without this a customer could
+-- promote themselves. Only the service role and database owners may change roles.
+CREATE OR REPLACE FUNCTION prevent_user_role_self_assignment()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND current_user IN ('anon', 'authenticated') THEN
+    RAISE EXCEPTION 'User roles can only be changed by an administrator';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_user_role_self_assignment ON user_profiles;
+CREATE TRIGGER prevent_user_role_self_assignment
+  BEFORE UPDATE OF role ON user_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_user_role_self_assignment();
+
+-- Add comments
+COMMENT ON COLUMN user_profiles.role IS 'customer, florist (orders and stock only), admin or super_admin (also manages roles)';
@@ -0,0 +1,67 @@
+-- Create consent_records ledger for GDPR consent
+-- Every consent decision is appended as a new row (never updated), per purpose and privacy
+-- policy version, for signed-in users and anonymous visitors alike. The current consent of a
+-- subject is the latest row per purpose.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS consent_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+
+  -- Subject: a signed-in user, an anonymous consent session, or both when a visitor signs in
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  session_id TEXT,
+
+  purpose TEXT NOT NULL CHECK (purpose IN ('functional', 'analytics', 'marketing')),
+  policy_version TEXT NOT NULL,
+  granted BOOLEAN NOT NULL,
+  source TEXT NOT NULL DEFAULT 'api' CHECK (source IN ('banner', 'preferences', 'account', 'api')),
+
+  -- Keyed hash of the client IP; the address itself is never stored
+  ip_hash TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_consent_records_user_id
+  ON consent_records(user_id, created_at DESC) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_consent_records_session_id
+  ON consent_records(session_id, created_at DESC) WHERE session_id IS NOT NULL;
+
+-- Add RLS policies
+ALTER TABLE consent_records ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Users can view own consent records" ON consent_records;
+DROP POLICY IF EXISTS "Admin users can view consent records" ON consent_records;
+DROP POLICY IF EXISTS "Service role can manage consent records" ON consent_records;
+
+CREATE POLICY "Users can view own consent records"
+  ON consent_records
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admin users can view consent records"
+  ON consent_records
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage consent records"
+  ON consent_records
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE consent_records IS 'Append-only GDPR consent ledger; the latest row per subject and purpose is the current consent';
+COMMENT ON COLUMN consent_records.session_id IS 'Anonymous consent session (consent-session cookie)';
+COMMENT ON COLUMN consent_records.policy_version IS 'Privacy policy version the decision was made under; older versions require renewed consent';
+COMMENT ON COLUMN consent_records.ip_hash IS 'HMAC-SHA256 of the client IP address';
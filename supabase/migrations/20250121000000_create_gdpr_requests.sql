@@ -0,0 +1,63 @@
+-- Create gdpr_requests log of data subject requests
+-- Every export or erasure request is recorded with its outcome, forming the Article 30 record of
+-- processing for data subject rights. Rows outlive the account: user_id is cleared on deletion.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS gdpr_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  request_type TEXT NOT NULL CHECK (request_type IN ('export', 'erasure')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+
+  -- Keyed hash of the client IP; the address itself is never stored
+  ip_hash TEXT,
+  -- Outcome summary such as exported record counts or the failure reason
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_gdpr_requests_user_id
+  ON gdpr_requests(user_id, created_at DESC) WHERE user_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_gdpr_requests_type_created
+  ON gdpr_requests(request_type, created_at DESC);
+
+-- Add RLS policies
+ALTER TABLE gdpr_requests ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Users can view own GDPR requests" ON gdpr_requests;
+DROP POLICY IF EXISTS "Admin users can view GDPR requests" ON gdpr_requests;
+DROP POLICY IF EXISTS "Service role can manage GDPR requests" ON gdpr_requests;
+
+CREATE POLICY "Users can view own GDPR requests"
+  ON gdpr_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admin users can view GDPR requests"
+  ON gdpr_requests
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage GDPR requests"
+  ON gdpr_requests
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE gdpr_requests IS 'Data subject requests (export, erasure) with their outcome, kept for the Article 30 record';
+COMMENT ON COLUMN gdpr_requests.ip_hash IS 'HMAC-SHA256 of the client IP address';
+COMMENT ON COLUMN gdpr_requests.details IS 'Outcome summary: record counts per section or the failure reason';
@@ -0,0 +1,131 @@
+-- Create gdpr_erasure_requests for deferred account erasure
+-- A request is confirmed by an emailed token, waits out a grace period during which the user can
+-- cancel, and is then erased by the scheduled worker unless open orders or legal retention block
+-- it (those go to the admin queue). Completed requests keep a receipt whose hash chains to the
+-- previous receipt, so altering or removing one is detectable.
+-- Made fully idempotent to prevent errors on re-run
+
+-- Erasure requests can be cancelled by the user
+ALTER TABLE gdpr_requests DROP CONSTRAINT IF EXISTS gdpr_requests_status_check;
+ALTER TABLE gdpr_requests ADD CONSTRAINT gdpr_requests_status_check
+  CHECK (status IN ('pending', 'completed', 'failed', 'cancelled'));
+
+CREATE TABLE IF NOT EXISTS gdpr_erasure_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  gdpr_request_id UUID REFERENCES gdpr_requests(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending_confirmation' CHECK (status IN (
+    'pending_confirmation', 'scheduled', 'blocked', 'cancelled', 'processing', 'completed', 'failed'
+  )),
+  reason TEXT,
+
+  -- Email confirmation: only the SHA-256 of the token is stored
+  token_hash TEXT,
+  token_expires_at TIMESTAMPTZ,
+  confirmed_at TIMESTAMPTZ,
+  scheduled_for TIMESTAMPTZ,
+
+  -- Orders that blocked the erasure, and the admin review of the request
+  blockers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  review_note TEXT,
+
+  cancelled_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+
+  -- Erasure receipt, hash-chained to the previous receipt
+  receipt JSONB,
+  receipt_hash TEXT,
+  previous_receipt_hash TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for common queries
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gdpr_erasure_requests_open_user
+  ON gdpr_erasure_requests(user_id)
+  WHERE status IN ('pending_confirmation', 'scheduled', 'blocked', 'processing');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gdpr_erasure_requests_token_hash
+  ON gdpr_erasure_requests(token_hash) WHERE token_hash IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_gdpr_erasure_requests_due
+  ON gdpr_erasure_requests(status, scheduled_for);
+-- Each receipt has exactly one successor, so the chain cannot fork
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gdpr_erasure_requests_receipt_hash
+  ON gdpr_erasure_requests(receipt_hash) WHERE receipt_hash IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gdpr_erasure_requests_previous_receipt_hash
+  ON gdpr_erasure_requests(COALESCE(previous_receipt_hash, '')) WHERE receipt_hash IS NOT NULL;
+
+-- Receipts cannot be changed or removed once written
+CREATE OR REPLACE FUNCTION protect_gdpr_erasure_receipt()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.receipt_hash IS NOT NULL THEN
+      RAISE EXCEPTION 'Erasure receipts cannot be deleted';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.receipt_hash IS NOT NULL AND (
+    NEW.receipt IS DISTINCT FROM OLD.receipt OR
+    NEW.receipt_hash IS DISTINCT FROM OLD.receipt_hash OR
+    NEW.previous_receipt_hash IS DISTINCT FROM OLD.previous_receipt_hash OR
+    NEW.status IS DISTINCT FROM OLD.status
+  ) THEN
+    RAISE EXCEPTION 'Erasure receipts cannot be modified';
+  END IF;
+
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_gdpr_erasure_receipt ON gdpr_erasure_requests;
+CREATE TRIGGER protect_gdpr_erasure_receipt
+  BEFORE UPDATE OR DELETE ON gdpr_erasure_requests
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_gdpr_erasure_receipt();
+
+-- Add RLS policies
+ALTER TABLE gdpr_erasure_requests ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Users can view own erasure requests" ON gdpr_erasure_requests;
+DROP POLICY IF EXISTS "Admin users can view erasure requests" ON gdpr_erasure_requests;
+DROP POLICY IF EXISTS "Service role can manage erasure requests" ON gdpr_erasure_requests;
+
+CREATE POLICY "Users can view own erasure requests"
+  ON gdpr_erasure_requests
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admin users can view erasure requests"
+  ON gdpr_erasure_requests
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage erasure requests"
+  ON gdpr_erasure_requests
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE gdpr_erasure_requests IS 'Deferred GDPR erasure requests with grace period, admin review and hash-chained erasure receipts';
+COMMENT ON COLUMN gdpr_erasure_requests.token_hash IS 'SHA-256 of the emailed confirmation token';
+COMMENT ON COLUMN gdpr_erasure_requests.blockers IS 'Orders that blocked the erasure (open orders, refunds in progress, disputes)';
+COMMENT ON COLUMN gdpr_erasure_requests.receipt IS 'Erasure receipt without personal data; the subject is a keyed hash of the user ID';
+COMMENT ON COLUMN gdpr_erasure_requests.receipt_hash IS 'SHA-256 over previous_receipt_hash and the canonical receipt JSON';
@@ -0,0 +1,166 @@
+-- Sequential order numbers assigned by the database
+-- Every order insert (checkout API, Stripe webhook) gets its number from one per-year counter.
+-- The counter row is locked until the inserting transaction commits, so numbers are gapless:
+-- a failed insert rolls the counter back together with the order.
+-- Replaces generate_order_number()/set_order_number() from lib/supabase/functions.sql, which
+-- wrote a second number into customer_info.
+-- Made fully idempotent to prevent errors on re-run
+
+DROP TRIGGER IF EXISTS generate_order_number_trigger ON orders;
+DROP FUNCTION IF EXISTS set_order_number();
+DROP FUNCTION IF EXISTS generate_order_number();
+
+-- Number format (single row)
+-- Placeholders: {YYYY} four-digit year, {YY} two-digit year, {SEQ} counter padded to sequence_padding
+CREATE TABLE IF NOT EXISTS order_number_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  format TEXT NOT NULL DEFAULT '{YYYY}-{SEQ}' CHECK (position('{SEQ}' IN format) > 0),
+  sequence_padding INTEGER NOT NULL DEFAULT 5 CHECK (sequence_padding BETWEEN 1 AND 10),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO order_number_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+-- Last number issued per year (Europe/Prague calendar year)
+CREATE TABLE IF NOT EXISTS order_number_counters (
+  year INTEGER PRIMARY KEY,
+  last_value INTEGER NOT NULL DEFAULT 0 CHECK (last_value >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_order_number_settings_updated_at ON order_number_settings;
+CREATE TRIGGER update_order_number_settings_updated_at
+  BEFORE UPDATE ON order_number_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_order_number_counters_updated_at ON order_number_counters;
+CREATE TRIGGER update_order_number_counters_updated_at
+  BEFORE UPDATE ON order_number_counters
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Render an order number from the format
+CREATE OR REPLACE FUNCTION format_order_number(
+  p_format TEXT,
+  p_year INTEGER,
+  p_value INTEGER,
+  p_padding INTEGER
+)
+RETURNS TEXT AS $$
+  SELECT replace(
+    replace(
+      replace(p_format, '{YYYY}', LPAD(p_year::TEXT, 4, '0')),
+      '{YY}', LPAD((p_year % 100)::TEXT, 2, '0')
+    ),
+    '{SEQ}', LPAD(p_value::TEXT, GREATEST(p_padding, length(p_value::TEXT)), '0')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Issue the next order number of the current year
+-- Only called from the order insert trigger below; nobody advances the counter directly.
+CREATE OR REPLACE FUNCTION next_order_number()
+RETURNS TEXT AS $$
+DECLARE
+  current_year INTEGER := EXTRACT(YEAR FROM NOW() AT TIME ZONE 'Europe/Prague')::INTEGER;
+  next_value INTEGER;
+  settings order_number_settings%ROWTYPE;
+BEGIN
+  INSERT INTO order_number_counters (year, last_value)
+  VALUES (current_year, 1)
+  ON CONFLICT (year) DO UPDATE SET last_value = order_number_counters.last_value + 1
+  RETURNING last_value INTO next_value;
+
+  SELECT * INTO settings FROM order_number_settings WHERE id;
+
+  RETURN format_order_number(
+    COALESCE(settings.format, '{YYYY}-{SEQ}'),
+    current_year,
+    next_value,
+    COALESCE(settings.sequence_padding, 5)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Calling it directly would burn numbers and leave gaps in the sequence
+REVOKE EXECUTE ON FUNCTION next_order_number() FROM PUBLIC, anon, authenticated;
+
+-- Every new order is numbered here; numbers supplied by the application are ignored
+-- Runs as definer so the inserting role needs no grant on next_order_number().
+CREATE OR REPLACE FUNCTION assign_order_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.order_number := next_order_number();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_order_number_trigger ON orders;
+CREATE TRIGGER assign_order_number_trigger
+  BEFORE INSERT ON orders
+  FOR EACH ROW EXECUTE FUNCTION assign_order_number();
+
+-- Add RLS policies
+ALTER TABLE order_number_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE order_number_counters ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Admin users can view order number settings" ON order_number_settings;
+DROP POLICY IF EXISTS "Admin users can update order number settings" ON order_number_settings;
+DROP POLICY IF EXISTS "Service role can manage order number settings" ON order_number_settings;
+DROP POLICY IF EXISTS "Admin users can view order number counters" ON order_number_counters;
+DROP POLICY IF EXISTS "Service role can manage order number counters" ON order_number_counters;
+
+CREATE POLICY "Admin users can view order number settings"
+  ON order_number_settings
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Admin users can update order number settings"
+  ON order_number_settings
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage order number settings"
+  ON order_number_settings
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Admin users can view order number counters"
+  ON order_number_counters
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage order number counters"
+  ON order_number_counters
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE order_number_settings IS 'Order number format: {YYYY}/{YY} year and {SEQ} zero-padded yearly counter';
+COMMENT ON TABLE order_number_counters IS 'Last order number issued per year; advanced inside the order insert transaction';
+COMMENT ON FUNCTION next_order_number IS 'Issue the next gapless order number of the current year';
+COMMENT ON FUNCTION assign_order_number IS 'Number every inserted order from the yearly counter';
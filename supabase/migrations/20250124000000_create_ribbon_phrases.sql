@@ -0,0 +1,80 @@
+-- Create ribbon_phrases table for the curated library of condolence phrases
+-- Customers pick a phrase in the ribbon configurator instead of typing the text; the picked
+-- phrase is printed as custom ribbon text. Phrases are grouped by the mourner's relationship.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS ribbon_phrases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  relationship TEXT NOT NULL CHECK (relationship IN ('family', 'colleagues', 'friends')),
+
+  -- Same limit as custom ribbon text
+  text_cs TEXT NOT NULL CHECK (char_length(text_cs) BETWEEN 1 AND 50),
+  text_en TEXT NOT NULL CHECK (char_length(text_en) BETWEEN 1 AND 50),
+
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (relationship, text_cs)
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_ribbon_phrases_active ON ribbon_phrases(relationship, sort_order) WHERE active = true;
+
+DROP TRIGGER IF EXISTS update_ribbon_phrases_updated_at ON ribbon_phrases;
+CREATE TRIGGER update_ribbon_phrases_updated_at
+  BEFORE UPDATE ON ribbon_phrases
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Seed the initial library
+INSERT INTO ribbon_phrases (relationship, text_cs, text_en, sort_order)
+VALUES
+  ('family', 'Milovanému tatínkovi', 'To our beloved father', 10),
+  ('family', 'Milované mamince', 'To our beloved mother', 20),
+  ('family', 'Navždy zůstaneš v našich srdcích', 'You will stay in our hearts forever', 30),
+  ('family', 'Poslední sbohem od rodiny', 'A last farewell from the family', 40),
+  ('colleagues', 'Vzpomínají spolupracovníci', 'Remembered by your co-workers', 10),
+  ('colleagues', 'S úctou kolegové z práce', 'With respect, your colleagues', 20),
+  ('colleagues', 'Poslední sbohem od kolegů', 'A last farewell from your colleagues', 30),
+  ('friends', 'Nikdy nezapomeneme', 'We will never forget', 10),
+  ('friends', 'Čest tvé památce', 'Honour to your memory', 20),
+  ('friends', 'Poslední sbohem od přátel', 'A last farewell from your friends', 30)
+ON CONFLICT (relationship, text_cs) DO NOTHING;
+
+-- Add RLS policies
+ALTER TABLE ribbon_phrases ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Anyone can view active ribbon phrases" ON ribbon_phrases;
+DROP POLICY IF EXISTS "Admin users can manage ribbon phrases" ON ribbon_phrases;
+DROP POLICY IF EXISTS "Service role can manage ribbon phrases" ON ribbon_phrases;
+
+CREATE POLICY "Anyone can view active ribbon phrases"
+  ON ribbon_phrases
+  FOR SELECT
+  TO anon, authenticated
+  USING (active = true);
+
+CREATE POLICY "Admin users can manage ribbon phrases"
+  ON ribbon_phrases
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage ribbon phrases"
+  ON ribbon_phrases
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE ribbon_phrases IS 'Curated condolence phrases offered as ribbon text, grouped by relationship';
+COMMENT ON COLUMN ribbon_phrases.relationship IS 'Mourner''s relationship to the deceased: family, colleagues or friends';
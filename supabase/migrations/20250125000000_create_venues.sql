@@ -0,0 +1,88 @@
+-- Create venues table for the directory of funeral homes, crematoria and ceremony halls
+-- Customers pick a venue at checkout instead of typing its address. Each venue can restrict
+-- deliveries to its opening hours, to some time slots or urgencies, and can be served by a
+-- fixed delivery zone instead of the zone covering its postal code.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS venues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  venue_type TEXT NOT NULL DEFAULT 'ceremony_hall' CHECK (
+    venue_type IN ('ceremony_hall', 'church', 'cemetery', 'crematorium', 'other')
+  ),
+
+  -- Delivery address filled into the checkout
+  street TEXT NOT NULL,
+  city TEXT NOT NULL,
+  postal_code TEXT NOT NULL CHECK (postal_code ~ '^[1-7][0-9]{4}$'),
+  country TEXT NOT NULL DEFAULT 'CZ',
+
+  -- Hours deliveries are accepted: [{"day": 1, "open": "08:00", "close": "15:00"}], Sunday = 0.
+  -- Days without an entry are closed; an empty array means the hours are not known.
+  opening_hours JSONB NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(opening_hours) = 'array'),
+  delivery_notes TEXT CHECK (delivery_notes IS NULL OR char_length(delivery_notes) <= 500),
+
+  -- Zone used for pricing instead of the zone covering the postal code
+  zone_id UUID REFERENCES delivery_zones(id) ON DELETE SET NULL,
+
+  -- NULL accepts every time slot / urgency the zone offers
+  allowed_time_slots TEXT[] CHECK (
+    allowed_time_slots IS NULL
+    OR allowed_time_slots <@ ARRAY['morning', 'afternoon', 'evening', 'anytime']::TEXT[]
+  ),
+  allowed_urgencies TEXT[] CHECK (
+    allowed_urgencies IS NULL
+    OR allowed_urgencies <@ ARRAY['standard', 'express', 'same-day']::TEXT[]
+  ),
+
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_venues_active_name ON venues(name) WHERE active = true;
+CREATE INDEX IF NOT EXISTS idx_venues_zone_id ON venues(zone_id);
+
+DROP TRIGGER IF EXISTS update_venues_updated_at ON venues;
+CREATE TRIGGER update_venues_updated_at
+  BEFORE UPDATE ON venues
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add RLS policies
+ALTER TABLE venues ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Anyone can view active venues" ON venues;
+DROP POLICY IF EXISTS "Admin users can manage venues" ON venues;
+DROP POLICY IF EXISTS "Service role can manage venues" ON venues;
+
+CREATE POLICY "Anyone can view active venues"
+  ON venues
+  FOR SELECT
+  TO anon, authenticated
+  USING (active = true);
+
+CREATE POLICY "Admin users can manage venues"
+  ON venues
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage venues"
+  ON venues
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE venues IS 'Funeral homes, crematoria and ceremony halls offered as delivery addresses at checkout';
+COMMENT ON COLUMN venues.opening_hours IS 'Delivery hours per weekday (Sunday = 0); days without an entry are closed, empty when unknown';
+COMMENT ON COLUMN venues.zone_id IS 'Delivery zone overriding the zone found by postal code';
@@ -0,0 +1,114 @@
+-- Create sms_outbox table for purchaser SMS notifications
+-- Mirrors email_outbox: messages are queued when the order status changes and delivered
+-- with retries through the configured SMS provider.
+-- Also stores the proof-of-delivery photo link shown in the delivered notification.
+-- Made fully idempotent to prevent errors on re-run
+
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS delivery_photo_url TEXT;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'orders_delivery_photo_url_https'
+  ) THEN
+    ALTER TABLE orders
+      ADD CONSTRAINT orders_delivery_photo_url_https
+      CHECK (delivery_photo_url IS NULL OR delivery_photo_url LIKE 'https://%');
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS sms_outbox (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+
+  order_status TEXT NOT NULL,
+  -- E.164 number resolved when the message was queued
+  phone TEXT NOT NULL CHECK (phone ~ '^\+[1-9][0-9]{7,14}$'),
+  locale TEXT NOT NULL DEFAULT 'cs' CHECK (locale IN ('cs', 'en')),
+
+  -- One SMS per order and status (repeated transitions are no-ops)
+  idempotency_key TEXT NOT NULL UNIQUE,
+
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  provider TEXT,
+  provider_message_id TEXT,
+  sent_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_sms_outbox_due ON sms_outbox(next_attempt_at) WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_sms_outbox_order_id ON sms_outbox(order_id);
+
+DROP TRIGGER IF EXISTS update_sms_outbox_updated_at ON sms_outbox;
+CREATE TRIGGER update_sms_outbox_updated_at
+  BEFORE UPDATE ON sms_outbox
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Claim due messages for delivery
+-- Rows stuck in 'sending' (crashed worker) are reclaimed after p_lock_timeout_minutes.
+CREATE OR REPLACE FUNCTION claim_sms_outbox(
+  p_limit INTEGER DEFAULT 20,
+  p_lock_timeout_minutes INTEGER DEFAULT 10
+)
+RETURNS SETOF sms_outbox AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE sms_outbox
+  SET status = 'sending',
+      locked_at = NOW(),
+      attempts = sms_outbox.attempts + 1
+  WHERE id IN (
+    SELECT id FROM sms_outbox
+    WHERE (status = 'pending' AND next_attempt_at <= NOW())
+       OR (status = 'sending' AND locked_at < NOW() - make_interval(mins => p_lock_timeout_minutes))
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the service role runs the outbox (order SMS worker); claimed rows expose the
+-- phone number and would stall delivery, so anonymous callers cannot claim them
+REVOKE EXECUTE ON FUNCTION claim_sms_outbox(INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS policies
+ALTER TABLE sms_outbox ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Admin users can view sms outbox" ON sms_outbox;
+DROP POLICY IF EXISTS "Service role can manage sms outbox" ON sms_outbox;
+
+CREATE POLICY "Admin users can view sms outbox"
+  ON sms_outbox
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage sms outbox"
+  ON sms_outbox
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE sms_outbox IS 'Queued purchaser SMS notifications delivered with retries; one row per order and status';
+COMMENT ON COLUMN sms_outbox.idempotency_key IS 'order_id:order_status - prevents duplicate SMS for the same transition';
+COMMENT ON COLUMN orders.delivery_photo_url IS 'Proof-of-delivery photo link sent to the purchaser with the delivered notification';
+COMMENT ON FUNCTION claim_sms_outbox IS 'Lock due SMS outbox rows for delivery and bump their attempt counter';
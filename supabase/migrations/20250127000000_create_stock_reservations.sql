@@ -0,0 +1,243 @@
+-- Create stock reservations for pre-made products
+-- A checkout session holds the stock of tracked products (availability.trackInventory with a
+-- stockQuantity) while the customer pays. Completed checkouts decrement the stock, cancelled
+-- and expired ones release the hold, so the last wreath cannot be sold twice.
+-- Stock changes that cross a product's low stock threshold raise inventory_alerts rows.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  checkout_session_id TEXT NOT NULL,
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+
+  -- held: checkout in progress, committed: stock decremented for the order,
+  -- released: checkout cancelled or expired
+  status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'committed', 'released')),
+
+  -- Held reservations stop counting once they expire
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (checkout_session_id, product_id)
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_held
+  ON stock_reservations(product_id, expires_at) WHERE status = 'held';
+
+DROP TRIGGER IF EXISTS update_stock_reservations_updated_at ON stock_reservations;
+CREATE TRIGGER update_stock_reservations_updated_at
+  BEFORE UPDATE ON stock_reservations
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Alerts record the stock they were raised at
+ALTER TABLE inventory_alerts ADD COLUMN IF NOT EXISTS current_stock INTEGER;
+
+-- Tracked stock of a product (NULL = made to order, never runs out)
+CREATE OR REPLACE FUNCTION get_tracked_stock(p_availability JSONB)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN (p_availability->>'trackInventory')::BOOLEAN IS FALSE THEN NULL
+    ELSE (p_availability->>'stockQuantity')::INTEGER
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Hold stock for a checkout session
+-- p_items: [{"product_id": "...", "quantity": 2}, ...]
+-- Returns the products that are short as [{product_id, product_name, requested, available}];
+-- when anything is short nothing is held. Re-running it for the same session replaces the
+-- hold (e.g. the customer changed the cart).
+-- Holds expire with the checkout session; the hour matches CHECKOUT_HOLD_SECONDS in
+-- src/lib/stripe/embedded-checkout.ts and is set here so callers cannot hold stock longer.
+DROP FUNCTION IF EXISTS reserve_stock(TEXT, JSONB, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION reserve_stock(
+  p_checkout_session_id TEXT,
+  p_items JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_expires_at TIMESTAMPTZ := NOW() + INTERVAL '1 hour';
+  v_item RECORD;
+  v_name TEXT;
+  v_stock INTEGER;
+  v_held INTEGER;
+  v_shortfalls JSONB := '[]'::JSONB;
+BEGIN
+  DELETE FROM stock_reservations
+  WHERE checkout_session_id = p_checkout_session_id
+    AND status = 'held';
+
+  -- Lock products in a stable order so two checkouts cannot deadlock
+  FOR v_item IN
+    SELECT (item->>'product_id')::UUID AS item_product_id,
+           SUM((item->>'quantity')::INTEGER)::INTEGER AS item_quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT get_tracked_stock(products.availability), products.name_cs
+    INTO v_stock, v_name
+    FROM products
+    WHERE products.id = v_item.item_product_id
+    FOR UPDATE;
+
+    CONTINUE WHEN v_stock IS NULL;
+
+    SELECT COALESCE(SUM(quantity), 0)
+    INTO v_held
+    FROM stock_reservations
+    WHERE product_id = v_item.item_product_id
+      AND status = 'held'
+      AND expires_at > NOW();
+
+    IF v_stock - v_held < v_item.item_quantity THEN
+      v_shortfalls := v_shortfalls || jsonb_build_object(
+        'product_id', v_item.item_product_id,
+        'product_name', v_name,
+        'requested', v_item.item_quantity,
+        'available', GREATEST(v_stock - v_held, 0)
+      );
+    ELSE
+      INSERT INTO stock_reservations (
+        checkout_session_id, product_id, quantity, status, expires_at
+      )
+      VALUES (
+        p_checkout_session_id, v_item.item_product_id, v_item.item_quantity, 'held', v_expires_at
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortfalls) > 0 THEN
+    DELETE FROM stock_reservations
+    WHERE checkout_session_id = p_checkout_session_id
+      AND status = 'held';
+  END IF;
+
+  RETURN v_shortfalls;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Decrement the stock held by a completed checkout session and keep the hold for the order
+-- Safe to call again for the same session (webhook retries): committed holds are skipped.
+-- Holds that expired while the customer was paying are still committed, the stock is
+-- clamped at zero.
+CREATE OR REPLACE FUNCTION commit_stock_reservation(
+  p_checkout_session_id TEXT,
+  p_order_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_reservation RECORD;
+  v_committed INTEGER := 0;
+BEGIN
+  FOR v_reservation IN
+    SELECT id, product_id, quantity
+    FROM stock_reservations
+    WHERE checkout_session_id = p_checkout_session_id
+      AND status = 'held'
+    ORDER BY product_id
+    FOR UPDATE
+  LOOP
+    UPDATE products
+    SET availability = availability || jsonb_build_object(
+          'stockQuantity', GREATEST(get_tracked_stock(availability) - v_reservation.quantity, 0),
+          'inStock', get_tracked_stock(availability) - v_reservation.quantity > 0
+        ),
+        updated_at = NOW()
+    WHERE id = v_reservation.product_id
+      AND get_tracked_stock(availability) IS NOT NULL;
+
+    UPDATE stock_reservations
+    SET status = 'committed',
+        order_id = p_order_id
+    WHERE id = v_reservation.id;
+
+    v_committed := v_committed + 1;
+  END LOOP;
+
+  RETURN v_committed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role holds and commits stock (checkout session creation and payment
+-- webhook), so anonymous callers cannot hold or sell off stock
+REVOKE EXECUTE ON FUNCTION reserve_stock(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION commit_stock_reservation(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Raise inventory alerts when a stock change crosses the low stock threshold or sells out,
+-- and retire the product's open alerts once it is restocked above the threshold
+CREATE OR REPLACE FUNCTION create_stock_threshold_alerts()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old INTEGER := get_tracked_stock(OLD.availability);
+  v_new INTEGER := get_tracked_stock(NEW.availability);
+  -- Default matches DEFAULT_LOW_STOCK_THRESHOLD in src/lib/inventory/stock.ts
+  v_threshold INTEGER := COALESCE((NEW.availability->>'lowStockThreshold')::INTEGER, 5);
+BEGIN
+  IF v_new IS NULL OR v_new IS NOT DISTINCT FROM v_old THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_new = 0 AND COALESCE(v_old, 1) > 0 THEN
+    INSERT INTO inventory_alerts (product_id, alert_type, threshold, current_stock, message)
+    VALUES (NEW.id, 'out_of_stock', v_threshold, v_new, NEW.name_cs || ': vyprodáno');
+  ELSIF v_new > 0 AND v_new <= v_threshold AND COALESCE(v_old, v_threshold + 1) > v_threshold THEN
+    INSERT INTO inventory_alerts (product_id, alert_type, threshold, current_stock, message)
+    VALUES (
+      NEW.id,
+      'low_stock',
+      v_threshold,
+      v_new,
+      NEW.name_cs || ': nízké zásoby (' || v_new || ' ks, práh ' || v_threshold || ' ks)'
+    );
+  ELSIF v_new > v_threshold THEN
+    UPDATE inventory_alerts
+    SET is_active = false
+    WHERE product_id = NEW.id
+      AND is_active = true;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS products_stock_threshold_alerts ON products;
+CREATE TRIGGER products_stock_threshold_alerts
+  AFTER UPDATE OF availability ON products
+  FOR EACH ROW EXECUTE FUNCTION create_stock_threshold_alerts();
+
+-- Add RLS policies
+ALTER TABLE stock_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Admin users can view stock reservations" ON stock_reservations;
+DROP POLICY IF EXISTS "Service role can manage stock reservations" ON stock_reservations;
+
+CREATE POLICY "Admin users can view stock reservations"
+  ON stock_reservations
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage stock reservations"
+  ON stock_reservations
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE stock_reservations IS 'Stock of tracked products held by checkout sessions and committed to placed orders';
+COMMENT ON FUNCTION reserve_stock IS 'Atomically hold stock for a checkout session; returns the products that are short';
+COMMENT ON FUNCTION commit_stock_reservation IS 'Decrement the stock held by a completed checkout session';
+COMMENT ON FUNCTION create_stock_threshold_alerts IS 'Raise low stock and out of stock alerts when a stock change crosses the threshold';
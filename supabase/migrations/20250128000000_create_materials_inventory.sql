@@ -0,0 +1,192 @@
+-- Create the materials inventory (bill of materials for wreaths)
+-- Wreaths are assembled from components: flower stems, greenery, base rings and ribbon rolls.
+-- material_recipes says how much of each component one wreath takes for a choice of the
+-- "flowers" or "ribbon_color" customization (choice IDs are shared across products).
+-- Confirmed and in-progress orders are outstanding demand; once an order is shipped or
+-- delivered its components are deducted from stock through material_consumptions.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE TABLE IF NOT EXISTS materials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL DEFAULT 'other' CHECK (kind IN ('stem', 'greenery', 'base', 'ribbon', 'other')),
+  -- ks: pieces (stems, rings), m: metres (ribbon), role: whole rolls
+  unit TEXT NOT NULL DEFAULT 'ks' CHECK (unit IN ('ks', 'm', 'role')),
+  stock_quantity NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (stock_quantity >= 0),
+  low_stock_threshold NUMERIC(10, 2) NOT NULL DEFAULT 0 CHECK (low_stock_threshold >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_materials_updated_at ON materials;
+CREATE TRIGGER update_materials_updated_at
+  BEFORE UPDATE ON materials
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS material_recipes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  option_type TEXT NOT NULL CHECK (option_type IN ('flowers', 'ribbon_color')),
+  choice_id TEXT NOT NULL,
+  material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+  -- Quantity of the material one wreath with this choice takes
+  quantity NUMERIC(10, 2) NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (option_type, choice_id, material_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_material_recipes_material_id ON material_recipes(material_id);
+
+CREATE TABLE IF NOT EXISTS material_consumptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  material_id UUID NOT NULL REFERENCES materials(id) ON DELETE CASCADE,
+  quantity NUMERIC(10, 2) NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- An order's components are deducted once
+  UNIQUE (order_id, material_id)
+);
+
+-- Replace the components of a choice
+-- p_components: [{"material_id": "...", "quantity": 12}, ...]; an empty array removes the recipe
+CREATE OR REPLACE FUNCTION set_material_recipe(
+  p_option_type TEXT,
+  p_choice_id TEXT,
+  p_components JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM material_recipes
+  WHERE option_type = p_option_type
+    AND choice_id = p_choice_id;
+
+  INSERT INTO material_recipes (option_type, choice_id, material_id, quantity)
+  SELECT p_option_type,
+         p_choice_id,
+         (component->>'material_id')::UUID,
+         SUM((component->>'quantity')::NUMERIC)
+  FROM jsonb_array_elements(p_components) AS component
+  GROUP BY 3;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deduct the components of a shipped or delivered order from stock
+-- p_items: [{"material_id": "...", "quantity": 12}, ...]
+-- Safe to call again for the same order: components already deducted are skipped. Stock is
+-- clamped at zero.
+CREATE OR REPLACE FUNCTION consume_order_materials(
+  p_order_id UUID,
+  p_items JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_item RECORD;
+  v_consumed INTEGER := 0;
+BEGIN
+  -- Lock materials in a stable order so two orders cannot deadlock
+  FOR v_item IN
+    SELECT (item->>'material_id')::UUID AS item_material_id,
+           SUM((item->>'quantity')::NUMERIC) AS item_quantity
+    FROM jsonb_array_elements(p_items) AS item
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    INSERT INTO material_consumptions (order_id, material_id, quantity)
+    VALUES (p_order_id, v_item.item_material_id, v_item.item_quantity)
+    ON CONFLICT (order_id, material_id) DO NOTHING;
+
+    CONTINUE WHEN NOT FOUND;
+
+    UPDATE materials
+    SET stock_quantity = GREATEST(stock_quantity - v_item.item_quantity, 0)
+    WHERE id = v_item.item_material_id;
+
+    v_consumed := v_consumed + 1;
+  END LOOP;
+
+  RETURN v_consumed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role edits recipes (admin API) and deducts stock (order status changes),
+-- so anonymous callers cannot rewrite recipes or drain material stock
+REVOKE EXECUTE ON FUNCTION set_material_recipe(TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION consume_order_materials(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS policies
+ALTER TABLE materials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE material_recipes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE material_consumptions ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Admin users can view materials" ON materials;
+DROP POLICY IF EXISTS "Service role can manage materials" ON materials;
+DROP POLICY IF EXISTS "Admin users can view material recipes" ON material_recipes;
+DROP POLICY IF EXISTS "Service role can manage material recipes" ON material_recipes;
+DROP POLICY IF EXISTS "Admin users can view material consumptions" ON material_consumptions;
+DROP POLICY IF EXISTS "Service role can manage material consumptions" ON material_consumptions;
+
+CREATE POLICY "Admin users can view materials"
+  ON materials
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage materials"
+  ON materials
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Admin users can view material recipes"
+  ON material_recipes
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage material recipes"
+  ON material_recipes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Admin users can view material consumptions"
+  ON material_consumptions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+CREATE POLICY "Service role can manage material consumptions"
+  ON material_consumptions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Add comments
+COMMENT ON TABLE materials IS 'Wreath components (flower stems, greenery, base rings, ribbon rolls) and their stock';
+COMMENT ON TABLE material_recipes IS 'Components one wreath takes per flowers or ribbon_color customization choice';
+COMMENT ON TABLE material_consumptions IS 'Components deducted from stock for shipped and delivered orders';
+COMMENT ON FUNCTION set_material_recipe IS 'Atomically replace the components of a customization choice';
+COMMENT ON FUNCTION consume_order_materials IS 'Deduct the components of an order from stock once';
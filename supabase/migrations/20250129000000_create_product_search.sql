@@ -0,0 +1,134 @@
+-- Create Czech full-text product search
+-- Product names and descriptions are indexed in a tsvector with diacritics removed, so
+-- "venec" finds "věnec". Words are stemmed with the Czech ispell dictionary when its files
+-- (czech.dict, czech.affix, czech.stop) are installed on the server, and fall back to
+-- unaccented whole words otherwise; queries match word prefixes either way.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Czech dictionary, only when the ispell files are available
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_dict WHERE dictname = 'czech_ispell') THEN
+    BEGIN
+      CREATE TEXT SEARCH DICTIONARY czech_ispell (
+        TEMPLATE = ispell,
+        DictFile = czech,
+        AffFile = czech,
+        StopWords = czech
+      );
+    EXCEPTION WHEN OTHERS THEN
+      RAISE NOTICE 'Czech ispell dictionary not installed, product search runs without stemming';
+    END;
+  END IF;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'czech_search') THEN
+    CREATE TEXT SEARCH CONFIGURATION czech_search (COPY = simple);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM pg_ts_dict WHERE dictname = 'czech_ispell') THEN
+    ALTER TEXT SEARCH CONFIGURATION czech_search
+      ALTER MAPPING FOR asciiword, asciihword, hword_asciipart, word, hword, hword_part
+      WITH unaccent, czech_ispell, simple;
+  ELSE
+    ALTER TEXT SEARCH CONFIGURATION czech_search
+      ALTER MAPPING FOR asciiword, asciihword, hword_asciipart, word, hword, hword_part
+      WITH unaccent, simple;
+  END IF;
+END;
+$$;
+
+-- Names weigh more than descriptions
+ALTER TABLE products ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('public.czech_search'::REGCONFIG, COALESCE(name_cs, '')), 'A') ||
+    setweight(to_tsvector('public.czech_search'::REGCONFIG, COALESCE(name_en, '')), 'A') ||
+    setweight(to_tsvector('public.czech_search'::REGCONFIG, COALESCE(description_cs, '')), 'C') ||
+    setweight(to_tsvector('public.czech_search'::REGCONFIG, COALESCE(description_en, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN (search_vector);
+
+-- Prefix query from a search term: every word must match the start of an indexed word
+-- Only letters and digits are kept and words are quoted, so the term cannot inject tsquery
+-- operators.
+CREATE OR REPLACE FUNCTION product_search_query(p_term TEXT)
+RETURNS TSQUERY AS $$
+  SELECT to_tsquery(
+    'public.czech_search'::REGCONFIG,
+    COALESCE(string_agg(quote_literal(word) || ':*', ' & '), '')
+  )
+  FROM regexp_split_to_table(
+    btrim(regexp_replace(COALESCE(p_term, ''), '[^[:alnum:]]+', ' ', 'g')),
+    ' '
+  ) AS word
+  WHERE word <> '';
+$$ LANGUAGE sql STABLE;
+
+-- Active products matching a search term, best match first
+-- Highlighted fragments are wrapped in U+0001 / U+0002 so the caller can render them safely.
+CREATE OR REPLACE FUNCTION search_products(
+  p_term TEXT,
+  p_locale TEXT DEFAULT 'cs',
+  p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+  product_id UUID,
+  rank REAL,
+  name_headline TEXT,
+  snippet TEXT
+) AS $$
+DECLARE
+  v_query TSQUERY := product_search_query(p_term);
+  v_markers TEXT := 'StartSel=' || chr(1) || ', StopSel=' || chr(2);
+BEGIN
+  IF v_query IS NULL OR numnode(v_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT matches.id,
+         matches.match_rank,
+         ts_headline(
+           'public.czech_search'::REGCONFIG,
+           CASE WHEN p_locale = 'en' THEN matches.name_en ELSE matches.name_cs END,
+           v_query,
+           v_markers || ', HighlightAll=true'
+         ),
+         ts_headline(
+           'public.czech_search'::REGCONFIG,
+           COALESCE(
+             CASE WHEN p_locale = 'en' THEN matches.description_en ELSE matches.description_cs END,
+             ''
+           ),
+           v_query,
+           v_markers || ', MaxWords=20, MinWords=8, MaxFragments=2'
+         )
+  FROM (
+    SELECT products.id,
+           products.name_cs,
+           products.name_en,
+           products.description_cs,
+           products.description_en,
+           ts_rank_cd(products.search_vector, v_query) AS match_rank
+    FROM products
+    WHERE products.active = true
+      AND products.search_vector @@ v_query
+    ORDER BY match_rank DESC, products.name_cs
+    LIMIT p_limit
+  ) AS matches
+  ORDER BY matches.match_rank DESC, matches.name_cs;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_products(TEXT, TEXT, INTEGER) TO anon, authenticated;
+
+-- Add comments
+COMMENT ON COLUMN products.search_vector IS 'Unaccented (and stemmed when available) names and descriptions for full-text search';
+COMMENT ON FUNCTION product_search_query IS 'Prefix tsquery of a search term with quoted words';
+COMMENT ON FUNCTION search_products IS 'Active products matching a search term ranked by relevance, with highlighted name and description snippet';
@@ -0,0 +1,32 @@
+-- Create product popularity
+-- Popularity is the number of paid orders a product was in over the last p_days days; the
+-- product listing sorts by it. Orders keep their items as {"items": [{"productId": ...}]},
+-- older ones as a bare array.
+-- Made fully idempotent to prevent errors on re-run
+
+CREATE OR REPLACE FUNCTION get_product_popularity(p_days INTEGER DEFAULT 365)
+RETURNS TABLE (
+  product_id UUID,
+  order_count BIGINT
+) AS $$
+  SELECT (item->>'productId')::UUID,
+         COUNT(DISTINCT orders.id)
+  FROM orders
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE
+      WHEN jsonb_typeof(orders.items) = 'array' THEN orders.items
+      WHEN jsonb_typeof(orders.items->'items') = 'array' THEN orders.items->'items'
+      ELSE '[]'::JSONB
+    END
+  ) AS item
+  WHERE orders.status IN ('confirmed', 'processing', 'shipped', 'delivered')
+    AND orders.created_at >= NOW() - make_interval(days => p_days)
+    AND item->>'productId' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+  GROUP BY 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only product IDs and counts leave the function, so the storefront may call it
+GRANT EXECUTE ON FUNCTION get_product_popularity(INTEGER) TO anon, authenticated;
+
+-- Add comments
+COMMENT ON FUNCTION get_product_popularity IS 'Number of paid orders per product over the last p_days days';
@@ -0,0 +1,389 @@
+-- Promote per-size prices to first-class product variants
+-- product_price_variants becomes product_variants with SKU, size labels, stock and images.
+-- Existing size customization options are converted into variants so every sized product
+-- has one variant per size. The size option stays on the product as the selection record,
+-- variants are authoritative for price, stock, images and the Stripe price.
+-- Cart items reference the variant they were added with, and checkouts hold variant stock.
+-- Made fully idempotent to prevent errors on re-run
+
+-- Rename the price variants table (keeps ids referenced by Stripe metadata)
+DO $$
+BEGIN
+  IF to_regclass('public.product_price_variants') IS NOT NULL
+     AND to_regclass('public.product_variants') IS NULL THEN
+    ALTER TABLE product_price_variants RENAME TO product_variants;
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  size_choice_id TEXT NOT NULL,
+  price DECIMAL(10, 2) NOT NULL CHECK (price >= 0),
+  stripe_price_id TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Rename constraints and indexes carried over from product_price_variants
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'product_price_variants_product_size_unique'
+  ) THEN
+    ALTER TABLE product_variants
+      RENAME CONSTRAINT product_price_variants_product_size_unique TO product_variants_product_size_unique;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'product_variants_product_size_unique'
+  ) THEN
+    ALTER TABLE product_variants
+      ADD CONSTRAINT product_variants_product_size_unique UNIQUE (product_id, size_choice_id);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'product_price_variants_product_id_fkey'
+  ) THEN
+    ALTER TABLE product_variants
+      RENAME CONSTRAINT product_price_variants_product_id_fkey TO product_variants_product_id_fkey;
+  END IF;
+END $$;
+
+ALTER INDEX IF EXISTS product_price_variants_pkey RENAME TO product_variants_pkey;
+ALTER INDEX IF EXISTS idx_product_price_variants_product_id RENAME TO idx_product_variants_product_id;
+ALTER INDEX IF EXISTS idx_product_price_variants_stripe_price_id RENAME TO idx_product_variants_stripe_price_id;
+ALTER INDEX IF EXISTS idx_product_price_variants_default RENAME TO idx_product_variants_default;
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON product_variants(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_variants_stripe_price_id ON product_variants(stripe_price_id) WHERE stripe_price_id IS NOT NULL;
+
+-- Only one default variant per product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_default
+  ON product_variants(product_id) WHERE is_default;
+
+-- Variant details
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS sku TEXT;
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS size_label_cs TEXT;
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS size_label_en TEXT;
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS stock_quantity INTEGER CHECK (stock_quantity >= 0);
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS images JSONB NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE product_variants ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_sku
+  ON product_variants(sku) WHERE sku IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_product_price_variants_updated_at ON product_variants;
+DROP TRIGGER IF EXISTS update_product_variants_updated_at ON product_variants;
+CREATE TRIGGER update_product_variants_updated_at
+  BEFORE UPDATE ON product_variants
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Convert size customization options into variants
+-- Price is the base price plus the size modifier unless a price variant already existed.
+-- The first size becomes the default for products without one.
+WITH size_choices AS (
+  SELECT
+    p.id AS product_id,
+    p.slug,
+    p.base_price,
+    choice.value AS choice,
+    choice.ordinality AS position
+  FROM products p
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(p.customization_options) = 'array'
+      THEN p.customization_options ELSE '[]'::jsonb END
+  ) AS size_option
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(size_option->'choices') = 'array'
+      THEN size_option->'choices' ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS choice(value, ordinality)
+  WHERE size_option->>'type' = 'size'
+    AND choice.value->>'id' IS NOT NULL
+)
+INSERT INTO product_variants (
+  product_id, size_choice_id, price, sku, size_label_cs, size_label_en, sort_order, is_default
+)
+SELECT
+  sc.product_id,
+  sc.choice->>'id',
+  sc.base_price + COALESCE((sc.choice->>'priceModifier')::DECIMAL, 0),
+  UPPER(sc.slug || '-' || REGEXP_REPLACE(sc.choice->>'id', '^size_', '')),
+  COALESCE(sc.choice->'label'->>'cs', sc.choice->>'label'),
+  COALESCE(sc.choice->'label'->>'en', sc.choice->'label'->>'cs', sc.choice->>'label'),
+  sc.position - 1,
+  sc.position = 1 AND NOT EXISTS (
+    SELECT 1 FROM product_variants existing
+    WHERE existing.product_id = sc.product_id AND existing.is_default
+  )
+FROM size_choices sc
+ON CONFLICT (product_id, size_choice_id) DO UPDATE SET
+  sku = COALESCE(product_variants.sku, EXCLUDED.sku),
+  size_label_cs = COALESCE(product_variants.size_label_cs, EXCLUDED.size_label_cs),
+  size_label_en = COALESCE(product_variants.size_label_en, EXCLUDED.size_label_en),
+  sort_order = EXCLUDED.sort_order;
+
+-- Resolve Stripe price IDs from the variants table
+CREATE OR REPLACE FUNCTION get_stripe_price_id_for_product(
+  p_product_id UUID,
+  p_size TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_stripe_price_id TEXT;
+BEGIN
+  -- Exact size match (accepts both "size_150" and legacy "150")
+  IF p_size IS NOT NULL THEN
+    SELECT stripe_price_id INTO v_stripe_price_id
+    FROM product_variants
+    WHERE product_id = p_product_id
+      AND active
+      AND size_choice_id IN (p_size, 'size_' || p_size)
+    LIMIT 1;
+  END IF;
+
+  -- Default variant
+  IF v_stripe_price_id IS NULL THEN
+    SELECT stripe_price_id INTO v_stripe_price_id
+    FROM product_variants
+    WHERE product_id = p_product_id AND active AND is_default
+    LIMIT 1;
+  END IF;
+
+  -- Products without size variants use the product price
+  IF v_stripe_price_id IS NULL THEN
+    SELECT stripe_price_id INTO v_stripe_price_id
+    FROM products
+    WHERE id = p_product_id;
+  END IF;
+
+  RETURN v_stripe_price_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cart items remember the variant they were added with
+ALTER TABLE cart_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_cart_items_variant_id ON cart_items(variant_id) WHERE variant_id IS NOT NULL;
+
+-- Stock reservations hold and decrement variant stock as well
+-- A reservation row covers one product and size; the product's tracked stock is shared by all
+-- of its sizes, a variant's stock_quantity only by that size.
+ALTER TABLE stock_reservations
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL;
+
+ALTER TABLE stock_reservations
+  DROP CONSTRAINT IF EXISTS stock_reservations_checkout_session_id_product_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_reservations_session_item
+  ON stock_reservations(checkout_session_id, product_id, variant_id) NULLS NOT DISTINCT;
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_variant_held
+  ON stock_reservations(variant_id, expires_at) WHERE status = 'held' AND variant_id IS NOT NULL;
+
+-- Hold stock for a checkout session
+-- p_items: [{"product_id": "...", "variant_id": "..." | null, "quantity": 2}, ...]
+-- Returns what is short as [{product_id, variant_id, product_name, requested, available}];
+-- when anything is short nothing is held. Re-running it for the same session replaces the
+-- hold. Holds expire after an hour, like in the original definition.
+CREATE OR REPLACE FUNCTION reserve_stock(
+  p_checkout_session_id TEXT,
+  p_items JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_expires_at TIMESTAMPTZ := NOW() + INTERVAL '1 hour';
+  v_item RECORD;
+  v_name TEXT;
+  v_stock INTEGER;
+  v_held INTEGER;
+  v_shortfalls JSONB := '[]'::JSONB;
+BEGIN
+  DELETE FROM stock_reservations
+  WHERE checkout_session_id = p_checkout_session_id
+    AND status = 'held';
+
+  -- Tracked product stock; lock products in a stable order so two checkouts cannot deadlock
+  FOR v_item IN
+    SELECT item.product_id AS item_product_id,
+           SUM(item.quantity)::INTEGER AS item_quantity
+    FROM jsonb_to_recordset(p_items) AS item(product_id UUID, variant_id UUID, quantity INTEGER)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT get_tracked_stock(products.availability), products.name_cs
+    INTO v_stock, v_name
+    FROM products
+    WHERE products.id = v_item.item_product_id
+    FOR UPDATE;
+
+    CONTINUE WHEN v_stock IS NULL;
+
+    SELECT COALESCE(SUM(quantity), 0)
+    INTO v_held
+    FROM stock_reservations
+    WHERE product_id = v_item.item_product_id
+      AND status = 'held'
+      AND expires_at > NOW();
+
+    IF v_stock - v_held < v_item.item_quantity THEN
+      v_shortfalls := v_shortfalls || jsonb_build_object(
+        'product_id', v_item.item_product_id,
+        'variant_id', NULL,
+        'product_name', v_name,
+        'requested', v_item.item_quantity,
+        'available', GREATEST(v_stock - v_held, 0)
+      );
+    END IF;
+  END LOOP;
+
+  -- Variant stock, locked in a stable order as well
+  FOR v_item IN
+    SELECT item.product_id AS item_product_id,
+           item.variant_id AS item_variant_id,
+           SUM(item.quantity)::INTEGER AS item_quantity
+    FROM jsonb_to_recordset(p_items) AS item(product_id UUID, variant_id UUID, quantity INTEGER)
+    WHERE item.variant_id IS NOT NULL
+    GROUP BY 1, 2
+    ORDER BY 2
+  LOOP
+    SELECT product_variants.stock_quantity,
+           products.name_cs || ' (' || COALESCE(
+             product_variants.size_label_cs, product_variants.size_choice_id
+           ) || ')'
+    INTO v_stock, v_name
+    FROM product_variants
+    JOIN products ON products.id = product_variants.product_id
+    WHERE product_variants.id = v_item.item_variant_id
+      AND product_variants.product_id = v_item.item_product_id
+    FOR UPDATE OF product_variants;
+
+    CONTINUE WHEN v_stock IS NULL;
+
+    SELECT COALESCE(SUM(quantity), 0)
+    INTO v_held
+    FROM stock_reservations
+    WHERE variant_id = v_item.item_variant_id
+      AND status = 'held'
+      AND expires_at > NOW();
+
+    IF v_stock - v_held < v_item.item_quantity THEN
+      v_shortfalls := v_shortfalls || jsonb_build_object(
+        'product_id', v_item.item_product_id,
+        'variant_id', v_item.item_variant_id,
+        'product_name', v_name,
+        'requested', v_item.item_quantity,
+        'available', GREATEST(v_stock - v_held, 0)
+      );
+    END IF;
+  END LOOP;
+
+  IF jsonb_array_length(v_shortfalls) > 0 THEN
+    RETURN v_shortfalls;
+  END IF;
+
+  -- Hold every size whose product or variant stock is tracked
+  INSERT INTO stock_reservations (
+    checkout_session_id, product_id, variant_id, quantity, status, expires_at
+  )
+  SELECT p_checkout_session_id, item.product_id, item.variant_id, SUM(item.quantity), 'held', v_expires_at
+  FROM jsonb_to_recordset(p_items) AS item(product_id UUID, variant_id UUID, quantity INTEGER)
+  JOIN products ON products.id = item.product_id
+  LEFT JOIN product_variants
+    ON product_variants.id = item.variant_id
+    AND product_variants.product_id = item.product_id
+  WHERE get_tracked_stock(products.availability) IS NOT NULL
+     OR product_variants.stock_quantity IS NOT NULL
+  GROUP BY item.product_id, item.variant_id;
+
+  RETURN v_shortfalls;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Decrement the product and variant stock held by a completed checkout session
+-- Safe to call again for the same session (webhook retries): committed holds are skipped.
+-- Stock is clamped at zero.
+CREATE OR REPLACE FUNCTION commit_stock_reservation(
+  p_checkout_session_id TEXT,
+  p_order_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+  v_reservation RECORD;
+  v_committed INTEGER := 0;
+BEGIN
+  FOR v_reservation IN
+    SELECT id, product_id, variant_id, quantity
+    FROM stock_reservations
+    WHERE checkout_session_id = p_checkout_session_id
+      AND status = 'held'
+    ORDER BY product_id, variant_id
+    FOR UPDATE
+  LOOP
+    UPDATE products
+    SET availability = availability || jsonb_build_object(
+          'stockQuantity', GREATEST(get_tracked_stock(availability) - v_reservation.quantity, 0),
+          'inStock', get_tracked_stock(availability) - v_reservation.quantity > 0
+        ),
+        updated_at = NOW()
+    WHERE id = v_reservation.product_id
+      AND get_tracked_stock(availability) IS NOT NULL;
+
+    UPDATE product_variants
+    SET stock_quantity = GREATEST(stock_quantity - v_reservation.quantity, 0)
+    WHERE id = v_reservation.variant_id
+      AND stock_quantity IS NOT NULL;
+
+    UPDATE stock_reservations
+    SET status = 'committed',
+        order_id = p_order_id
+    WHERE id = v_reservation.id;
+
+    v_committed := v_committed + 1;
+  END LOOP;
+
+  RETURN v_committed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION reserve_stock(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION commit_stock_reservation(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Add RLS policies
+ALTER TABLE product_variants ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if they exist (to make migration idempotent)
+DROP POLICY IF EXISTS "Public can view active price variants" ON product_variants;
+DROP POLICY IF EXISTS "Admin users can manage price variants" ON product_variants;
+DROP POLICY IF EXISTS "Public can view active variants" ON product_variants;
+DROP POLICY IF EXISTS "Admin users can manage variants" ON product_variants;
+
+-- Prices and stock are public information
+CREATE POLICY "Public can view active variants"
+  ON product_variants
+  FOR SELECT
+  USING (active = true);
+
+-- Admin users manage variants from the product form
+CREATE POLICY "Admin users can manage variants"
+  ON product_variants
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_profiles.id = auth.uid()
+      AND user_profiles.role IN ('admin', 'super_admin')
+    )
+  );
+
+-- Add comments
+COMMENT ON TABLE product_variants IS 'Purchasable sizes of a product with their own SKU, price, stock, images and Stripe price';
+COMMENT ON COLUMN product_variants.size_choice_id IS 'Choice id from the product size customization option (e.g. size_150)';
+COMMENT ON COLUMN product_variants.stock_quantity IS 'Units on hand; NULL means made to order and never runs out';
+COMMENT ON COLUMN product_variants.images IS 'Images shown when the variant is selected, same shape as products.images';
+COMMENT ON COLUMN cart_items.variant_id IS 'Product variant the item was added with';
+COMMENT ON COLUMN stock_reservations.variant_id IS 'Size the stock is held for; its stock_quantity is decremented on commit';